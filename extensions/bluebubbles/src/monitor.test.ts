@@ -121,6 +121,7 @@ function createMockRuntime(): PluginRuntime {
       textToSpeechTelephony: vi.fn() as unknown as PluginRuntime["tts"]["textToSpeechTelephony"],
     },
     tools: {
+      createMemoryFactsTool: vi.fn() as unknown as PluginRuntime["tools"]["createMemoryFactsTool"],
       createMemoryGetTool: vi.fn() as unknown as PluginRuntime["tools"]["createMemoryGetTool"],
       createMemorySearchTool:
         vi.fn() as unknown as PluginRuntime["tools"]["createMemorySearchTool"],
@@ -43,6 +43,8 @@ function fakeApi(overrides: Partial<SimpleClawPluginApi> = {}): SimpleClawPlugin
     registerCli() {},
     registerService() {},
     registerProvider() {},
+    registerMemoryBackend() {},
+    registerPassiveContextSource() {},
     registerHook() {},
     registerHttpRoute() {},
     registerCommand() {},
@@ -18,12 +18,18 @@ const memoryCorePlugin = {
           config: ctx.config,
           agentSessionKey: ctx.sessionKey,
         });
+        const memoryFactsTool = api.runtime.tools.createMemoryFactsTool({
+          config: ctx.config,
+          agentSessionKey: ctx.sessionKey,
+        });
         if (!memorySearchTool || !memoryGetTool) {
           return null;
         }
-        return [memorySearchTool, memoryGetTool];
+        return memoryFactsTool
+          ? [memorySearchTool, memoryGetTool, memoryFactsTool]
+          : [memorySearchTool, memoryGetTool];
       },
-      { names: ["memory_search", "memory_get"] },
+      { names: ["memory_search", "memory_get", "memory_facts"] },
     );
 
     api.registerCli(
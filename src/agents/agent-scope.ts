@@ -27,6 +27,8 @@ type AgentEntry = NonNullable<NonNullable<SimpleClawConfig["agents"]>["list"]>[n
 type ResolvedAgentConfig = {
   name?: string;
   role?: "orchestrator" | "worker";
+  orchestrator?: AgentEntry["orchestrator"];
+  budget?: AgentEntry["budget"];
   workspace?: string;
   agentDir?: string;
   model?: AgentEntry["model"];
@@ -132,6 +134,9 @@ export function resolveAgentConfig(
   return {
     name: typeof entry.name === "string" ? entry.name : undefined,
     role,
+    orchestrator:
+      typeof entry.orchestrator === "object" && entry.orchestrator ? entry.orchestrator : undefined,
+    budget: typeof entry.budget === "object" && entry.budget ? entry.budget : undefined,
     workspace: typeof entry.workspace === "string" ? entry.workspace : undefined,
     agentDir: typeof entry.agentDir === "string" ? entry.agentDir : undefined,
     model:
@@ -0,0 +1,111 @@
+/**
+ * GenUI Actions
+ *
+ * Validates user actions reported by frontends (`genui.action`) against the
+ * component definition of the render they target, and formats them as a
+ * structured user message for the owning agent session.
+ */
+
+import type { GenUiActionDef } from "../../config/types.agent-defaults.js";
+import { validateJsonSchemaValue } from "../../plugins/schema-validator.js";
+import type { TrackedGenUiRender } from "./genui-renders.js";
+
+export type GenUiActionValidation =
+  | { ok: true; action?: GenUiActionDef }
+  | { ok: false; error: string };
+
+/**
+ * Actions a render shows when its definition declares none, mirroring the
+ * Control UI: the `form` submit action and the buttons in `params.actions`.
+ */
+export function listRenderedGenUiActions(render: TrackedGenUiRender): string[] {
+  const params = render.params ?? {};
+  const names = new Set<string>();
+  if (render.componentId === "form") {
+    names.add(typeof params.action === "string" ? params.action : "submit");
+  }
+  if (Array.isArray(params.actions)) {
+    for (const entry of params.actions) {
+      if (typeof entry === "string" && entry.trim()) {
+        names.add(entry);
+        continue;
+      }
+      if (entry && typeof entry === "object") {
+        const record = entry as Record<string, unknown>;
+        const name = [record.action, record.name, record.id].find(
+          (value): value is string => typeof value === "string" && value.trim() !== "",
+        );
+        if (name) {
+          names.add(name);
+        }
+      }
+    }
+  }
+  return [...names];
+}
+
+function unknownActionError(render: TrackedGenUiRender, action: string, known: string[]) {
+  return {
+    ok: false as const,
+    error:
+      known.length > 0
+        ? `component ${render.componentId} has no action "${action}" (expected: ${known.join(", ")})`
+        : `component ${render.componentId} declares no actions`,
+  };
+}
+
+export function validateGenUiAction(
+  render: TrackedGenUiRender,
+  action: string,
+  values: Record<string, unknown>,
+): GenUiActionValidation {
+  const actions = render.component?.actions;
+  if (!actions) {
+    const rendered = listRenderedGenUiActions(render);
+    return rendered.includes(action) ? { ok: true } : unknownActionError(render, action, rendered);
+  }
+  const def = Object.hasOwn(actions, action) ? actions[action] : undefined;
+  if (!def) {
+    return unknownActionError(render, action, Object.keys(actions));
+  }
+  if (def.schema) {
+    const result = validateJsonSchemaValue({
+      schema: def.schema,
+      cacheKey: `genui:${render.componentId}:${action}`,
+      value: values,
+    });
+    if (!result.ok) {
+      return {
+        ok: false,
+        error: `invalid values for ${render.componentId}.${action}: ${result.errors.join("; ")}`,
+      };
+    }
+  }
+  return { ok: true, action: def };
+}
+
+/**
+ * The message injected into the session: a one-line summary for the model
+ * followed by the action as JSON so it can be handled mechanically.
+ */
+export function formatGenUiActionMessage(params: {
+  render: TrackedGenUiRender;
+  action: string;
+  values: Record<string, unknown>;
+  def?: GenUiActionDef;
+}): string {
+  const { render, action, values, def } = params;
+  const name = render.component?.displayName ?? render.componentId;
+  const summary =
+    `[GenUI action] The user triggered "${action}" on ${name} (render ${render.renderId})` +
+    (def?.description ? `: ${def.description}` : ".");
+  const event = {
+    type: "genui.action",
+    renderId: render.renderId,
+    componentId: render.componentId,
+    toolName: render.toolName,
+    action,
+    values,
+  };
+  return `${summary}\n\`\`\`json\n${JSON.stringify(event, null, 2)}\n\`\`\``;
+}
@@ -0,0 +1,107 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  loadGenUiComponentFiles,
+  resolveGenUiFilesDir,
+  validateGenUiComponentDef,
+} from "./genui-files.js";
+
+const calendar = {
+  componentId: "calendar-card",
+  toolMappings: ["add_calendar_event"],
+  requiredParams: ["title"],
+};
+
+describe("validateGenUiComponentDef", () => {
+  it("accepts a complete definition", () => {
+    expect(
+      validateGenUiComponentDef({
+        ...calendar,
+        optionalParams: ["location"],
+        schema: { type: "object" },
+        displayName: "Calendar",
+        actions: { confirm: { description: "Confirm", schema: { type: "object" } } },
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports every problem", () => {
+    expect(
+      validateGenUiComponentDef({
+        componentId: "",
+        toolMappings: "add_calendar_event",
+        requiredParams: [1],
+        actions: { confirm: "yes" },
+      }),
+    ).toEqual([
+      "componentId must be a non-empty string",
+      "toolMappings must be an array of strings",
+      "requiredParams must be an array of strings",
+      "actions.confirm must be an object",
+    ]);
+    expect(validateGenUiComponentDef([])).toEqual(["definition must be an object"]);
+  });
+});
+
+describe("resolveGenUiFilesDir", () => {
+  it("defaults to <workspace>/genui", () => {
+    expect(resolveGenUiFilesDir("/tmp/workspace")).toBe(path.join("/tmp/workspace", "genui"));
+  });
+
+  it("honors dir overrides and disabling", () => {
+    expect(resolveGenUiFilesDir("/tmp/workspace", { files: { dir: "/srv/genui" } })).toBe(
+      path.resolve("/srv/genui"),
+    );
+    expect(resolveGenUiFilesDir("/tmp/workspace", { files: { enabled: false } })).toBeUndefined();
+  });
+});
+
+describe("loadGenUiComponentFiles", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-genui-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("treats a missing directory as empty", async () => {
+    const result = await loadGenUiComponentFiles(path.join(dir, "missing"));
+    expect(result.components).toEqual([]);
+    expect(result.errors).toEqual([]);
+  });
+
+  it("loads single and array files and reports invalid ones", async () => {
+    await fs.writeFile(path.join(dir, "a-calendar.json"), JSON.stringify(calendar));
+    await fs.writeFile(
+      path.join(dir, "b-more.json"),
+      JSON.stringify([
+        { componentId: "task-list", toolMappings: ["list_tasks"], requiredParams: [] },
+        { componentId: "broken", toolMappings: ["x"] },
+        { ...calendar, displayName: "Duplicate" },
+      ]),
+    );
+    await fs.writeFile(path.join(dir, "c-bad.json"), "{ not json");
+    await fs.writeFile(path.join(dir, "notes.txt"), "ignored");
+
+    const result = await loadGenUiComponentFiles(dir);
+
+    expect(result.components.map((entry) => entry.def.componentId)).toEqual([
+      "calendar-card",
+      "task-list",
+    ]);
+    expect(result.components[0]?.file).toBe(path.join(dir, "a-calendar.json"));
+    expect(result.errors.map((error) => [path.basename(error.file), error.message])).toEqual([
+      ["b-more.json", "[1] requiredParams must be an array of strings"],
+      [
+        "b-more.json",
+        '[2] duplicate componentId "calendar-card" (already defined in a-calendar.json)',
+      ],
+      ["c-bad.json", expect.stringContaining("invalid JSON")],
+    ]);
+  });
+});
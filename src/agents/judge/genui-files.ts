@@ -0,0 +1,171 @@
+/**
+ * GenUI Component Files
+ *
+ * Loads GenUI component definitions from a workspace directory
+ * (`<workspace>/genui/*.json`) so deployments without Firebase can manage
+ * the registry as plain files. Each file holds one definition or an array
+ * of definitions.
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AgentJudgeConfig, GenUiComponentDef } from "../../config/types.agent-defaults.js";
+import { resolveUserPath } from "../../utils.js";
+
+export const DEFAULT_GENUI_DIRNAME = "genui";
+
+export type GenUiComponentFile = {
+  def: GenUiComponentDef;
+  file: string;
+};
+
+export type GenUiFileError = {
+  file: string;
+  message: string;
+};
+
+export type GenUiFilesLoadResult = {
+  dir: string;
+  components: GenUiComponentFile[];
+  errors: GenUiFileError[];
+};
+
+/**
+ * Resolve the component directory: `judge.files.dir` when set, else `<workspace>/genui`.
+ */
+export function resolveGenUiFilesDir(
+  workspaceDir: string,
+  judgeConfig?: AgentJudgeConfig,
+): string | undefined {
+  if (judgeConfig?.files?.enabled === false) {
+    return undefined;
+  }
+  const override = judgeConfig?.files?.dir?.trim();
+  if (override) {
+    return resolveUserPath(override);
+  }
+  const workspace = workspaceDir.trim();
+  return workspace ? path.join(workspace, DEFAULT_GENUI_DIRNAME) : undefined;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((entry) => typeof entry === "string");
+}
+
+/**
+ * Check a parsed definition against the `GenUiComponentDef` shape.
+ * Returns human-readable problems; an empty list means the definition is usable.
+ */
+export function validateGenUiComponentDef(value: unknown): string[] {
+  if (!isRecord(value)) {
+    return ["definition must be an object"];
+  }
+  const problems: string[] = [];
+  if (typeof value.componentId !== "string" || !value.componentId.trim()) {
+    problems.push("componentId must be a non-empty string");
+  }
+  if (!isStringArray(value.toolMappings)) {
+    problems.push("toolMappings must be an array of strings");
+  }
+  if (!isStringArray(value.requiredParams)) {
+    problems.push("requiredParams must be an array of strings");
+  }
+  if (value.optionalParams !== undefined && !isStringArray(value.optionalParams)) {
+    problems.push("optionalParams must be an array of strings");
+  }
+  if (value.schema !== undefined && !isRecord(value.schema)) {
+    problems.push("schema must be an object");
+  }
+  if (value.displayName !== undefined && typeof value.displayName !== "string") {
+    problems.push("displayName must be a string");
+  }
+  if (value.actions !== undefined) {
+    if (!isRecord(value.actions)) {
+      problems.push("actions must be an object keyed by action name");
+    } else {
+      for (const [name, action] of Object.entries(value.actions)) {
+        if (!isRecord(action)) {
+          problems.push(`actions.${name} must be an object`);
+          continue;
+        }
+        if (action.description !== undefined && typeof action.description !== "string") {
+          problems.push(`actions.${name}.description must be a string`);
+        }
+        if (action.schema !== undefined && !isRecord(action.schema)) {
+          problems.push(`actions.${name}.schema must be an object`);
+        }
+      }
+    }
+  }
+  return problems;
+}
+
+async function listComponentFiles(dir: string): Promise<string[]> {
+  try {
+    const entries = await fs.readdir(dir, { withFileTypes: true });
+    return entries
+      .filter((entry) => entry.isFile() && entry.name.toLowerCase().endsWith(".json"))
+      .map((entry) => path.join(dir, entry.name))
+      .toSorted();
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+      return [];
+    }
+    throw err;
+  }
+}
+
+/**
+ * Read and validate every `*.json` file in the directory.
+ * A missing directory is treated as empty. Invalid files and definitions are
+ * reported in `errors` and left out of `components`; the first file to claim a
+ * componentId wins.
+ */
+export async function loadGenUiComponentFiles(dir: string): Promise<GenUiFilesLoadResult> {
+  const components: GenUiComponentFile[] = [];
+  const errors: GenUiFileError[] = [];
+  const seen = new Map<string, string>();
+
+  let files: string[];
+  try {
+    files = await listComponentFiles(dir);
+  } catch (err) {
+    return { dir, components, errors: [{ file: dir, message: String(err) }] };
+  }
+
+  for (const file of files) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(await fs.readFile(file, "utf-8"));
+    } catch (err) {
+      errors.push({ file, message: `invalid JSON: ${(err as Error).message}` });
+      continue;
+    }
+    const entries = Array.isArray(parsed) ? parsed : [parsed];
+    entries.forEach((entry, index) => {
+      const label = Array.isArray(parsed) ? `[${index}] ` : "";
+      const problems = validateGenUiComponentDef(entry);
+      if (problems.length > 0) {
+        errors.push({ file, message: `${label}${problems.join("; ")}` });
+        return;
+      }
+      const def = entry as GenUiComponentDef;
+      const previous = seen.get(def.componentId);
+      if (previous) {
+        errors.push({
+          file,
+          message: `${label}duplicate componentId "${def.componentId}" (already defined in ${path.basename(previous)})`,
+        });
+        return;
+      }
+      seen.set(def.componentId, file);
+      components.push({ def, file });
+    });
+  }
+
+  return { dir, components, errors };
+}
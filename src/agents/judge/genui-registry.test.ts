@@ -1,7 +1,26 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { GenUiComponentDef } from "../../config/types.agent-defaults.js";
 import { GenUiRegistry } from "./genui-registry.js";
 
+const { watchHandlers, watcherClose, watchMock } = vi.hoisted(() => {
+  const watchHandlers = new Map<string, (changedPath: string) => void>();
+  const watcherClose = vi.fn(async () => undefined);
+  const watchMock = vi.fn(() => ({
+    on: vi.fn((event: string, handler: (changedPath: string) => void) => {
+      watchHandlers.set(event, handler);
+    }),
+    close: watcherClose,
+  }));
+  return { watchHandlers, watcherClose, watchMock };
+});
+
+vi.mock("chokidar", () => ({
+  default: { watch: watchMock },
+}));
+
 describe("GenUiRegistry", () => {
   let registry: GenUiRegistry;
 
@@ -296,4 +315,111 @@ describe("GenUiRegistry", () => {
       registry.dispose(); // Double dispose is safe
     });
   });
+
+  describe("workspace files", () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      watchHandlers.clear();
+      dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-genui-registry-"));
+      return async () => {
+        registry.dispose();
+        await fs.rm(dir, { recursive: true, force: true });
+      };
+    });
+
+    const writeDef = (name: string, def: unknown) =>
+      fs.writeFile(path.join(dir, name), JSON.stringify(def));
+
+    it("loads components and surfaces validation errors", async () => {
+      await writeDef("calendar.json", {
+        componentId: "calendar-card",
+        toolMappings: ["add_calendar_event"],
+        requiredParams: ["title"],
+      });
+      await writeDef("broken.json", { componentId: "broken" });
+
+      const errors = await registry.loadFromDirectory(dir);
+
+      expect(registry.lookupByTool("add_calendar_event")).toHaveLength(1);
+      expect(registry.sourceOf("calendar-card")).toBe("files");
+      expect(errors).toHaveLength(1);
+      expect(registry.getFileErrors()).toEqual(errors);
+    });
+
+    it("ranks files between Firebase and static config", async () => {
+      await writeDef("calendar.json", {
+        componentId: "calendar-card",
+        toolMappings: ["file_tool"],
+        requiredParams: [],
+      });
+      vi.stubGlobal(
+        "fetch",
+        vi.fn().mockResolvedValue({
+          ok: true,
+          json: () =>
+            Promise.resolve({
+              fb: { componentId: "firebase-card", toolMappings: ["fb_tool"], requiredParams: [] },
+            }),
+        }),
+      );
+
+      await registry.initialize(
+        {
+          firebase: { url: "https://test.firebaseio.com" },
+          files: { dir },
+          registry: {
+            cal: {
+              componentId: "calendar-card",
+              toolMappings: ["config_tool"],
+              requiredParams: [],
+            },
+            fb: { componentId: "firebase-card", toolMappings: ["config_tool"], requiredParams: [] },
+            pay: {
+              componentId: "payment-form",
+              toolMappings: ["send_payment"],
+              requiredParams: [],
+            },
+          },
+        },
+        { workspaceDir: "/tmp/unused" },
+      );
+
+      expect(registry.sourceOf("firebase-card")).toBe("firebase");
+      expect(registry.sourceOf("calendar-card")).toBe("files");
+      expect(registry.sourceOf("payment-form")).toBe("config");
+      expect(registry.lookupByTool("config_tool")).toEqual([]);
+      expect(registry.lookupByTool("file_tool")).toHaveLength(1);
+    });
+
+    it("reloads when watched files change and stops on dispose", async () => {
+      await registry.initialize({ files: { dir, watchDebounceMs: 0 } });
+      expect(watchMock).toHaveBeenCalledWith(
+        dir,
+        expect.objectContaining({ depth: 0, persistent: false, ignoreInitial: true }),
+      );
+      expect(registry.listComponents()).toEqual([]);
+
+      await writeDef("tasks.json", {
+        componentId: "task-list",
+        toolMappings: ["list_tasks"],
+        requiredParams: [],
+      });
+      watchHandlers.get("add")?.(path.join(dir, "tasks.json"));
+
+      await vi.waitFor(() => expect(registry.lookupById("task-list")).toBeDefined());
+
+      await fs.rm(path.join(dir, "tasks.json"));
+      watchHandlers.get("unlink")?.(path.join(dir, "tasks.json"));
+      await vi.waitFor(() => expect(registry.lookupById("task-list")).toBeUndefined());
+
+      registry.dispose();
+      expect(watcherClose).toHaveBeenCalled();
+    });
+
+    it("skips watching when disabled", async () => {
+      await registry.initialize({ files: { dir, watch: false } });
+      expect(watchMock).not.toHaveBeenCalled();
+    });
+  });
 });
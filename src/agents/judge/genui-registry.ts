@@ -2,44 +2,141 @@
  * GenUI Component Registry
  *
  * Maintains a mapping of tool names → GenUI component definitions.
- * Supports two sources:
+ * Supports three sources, in precedence order:
  * 1. Firebase RTDB (dynamic, real-time updates from frontend)
- * 2. Static config (fallback from agents.defaults.judge.registry)
+ * 2. Workspace files (`<workspace>/genui/*.json`, hot-reloaded)
+ * 3. Static config (fallback from agents.defaults.judge.registry)
  */
 
+import path from "node:path";
+import chokidar, { type FSWatcher } from "chokidar";
 import type {
   AgentJudgeConfig,
   AgentJudgeFirebaseConfig,
   GenUiComponentDef,
 } from "../../config/types.agent-defaults.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
+import {
+  loadGenUiComponentFiles,
+  resolveGenUiFilesDir,
+  type GenUiFileError,
+} from "./genui-files.js";
 
 const log = createSubsystemLogger("judge/genui-registry");
 
+const DEFAULT_WATCH_DEBOUNCE_MS = 250;
+
 export type ParamValidationResult = {
   valid: boolean;
   missing: string[];
 };
 
+export type GenUiComponentSource = "firebase" | "files" | "config";
+
+const SOURCE_PRECEDENCE: GenUiComponentSource[] = ["firebase", "files", "config"];
+
+type GenUiFilesWatchState = {
+  watcher: FSWatcher;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
 export class GenUiRegistry {
   /** tool name → component definitions (a tool can map to multiple components) */
   private byTool = new Map<string, GenUiComponentDef[]>();
   /** component id → component definition */
   private byId = new Map<string, GenUiComponentDef>();
+  /** component id → source that supplied the indexed definition */
+  private sourceById = new Map<string, GenUiComponentSource>();
+  /** per-source definitions; the index above is rebuilt from these on every change */
+  private sources: Record<GenUiComponentSource, GenUiComponentDef[]> = {
+    firebase: [],
+    files: [],
+    config: [],
+  };
+  private fileErrors: GenUiFileError[] = [];
+  private filesWatch: GenUiFilesWatchState | null = null;
   private firebaseUnsubscribe: (() => void) | null = null;
 
   /**
    * Load components from static config (agents.defaults.judge.registry).
    */
   loadFromConfig(registry: Record<string, GenUiComponentDef>): void {
-    this.byTool.clear();
-    this.byId.clear();
+    this.replaceSource("config", Object.values(registry));
+    log.info(`loaded ${this.sources.config.length} GenUI components from config`);
+  }
 
-    for (const [_key, def] of Object.entries(registry)) {
-      this.addComponent(def);
+  /**
+   * Load components from `*.json` files in a directory, replacing the previous
+   * file-backed set. Returns the validation errors (also kept for `getFileErrors`).
+   */
+  async loadFromDirectory(dir: string): Promise<GenUiFileError[]> {
+    const result = await loadGenUiComponentFiles(dir);
+    this.fileErrors = result.errors;
+    this.replaceSource(
+      "files",
+      result.components.map((entry) => entry.def),
+    );
+    for (const error of result.errors) {
+      log.warn(`invalid GenUI component file ${error.file}: ${error.message}`);
     }
+    log.info(`loaded ${this.sources.files.length} GenUI components from ${dir}`);
+    return result.errors;
+  }
 
-    log.info(`loaded ${this.byId.size} GenUI components from config`);
+  /**
+   * Reload the directory whenever a `*.json` file is added, changed, or removed.
+   * Watches the directory itself (chokidar has no glob support) and filters by
+   * extension. The watcher is non-persistent so CLI commands that load
+   * plugins can still exit while it is open.
+   */
+  watchDirectory(dir: string, opts?: { debounceMs?: number }): void {
+    this.stopWatchingDirectory();
+    const debounceMsRaw = opts?.debounceMs;
+    const debounceMs =
+      typeof debounceMsRaw === "number" && Number.isFinite(debounceMsRaw)
+        ? Math.max(0, debounceMsRaw)
+        : DEFAULT_WATCH_DEBOUNCE_MS;
+    const watcher = chokidar.watch(dir, {
+      depth: 0,
+      persistent: false,
+      ignoreInitial: true,
+      awaitWriteFinish: {
+        stabilityThreshold: debounceMs,
+        pollInterval: 100,
+      },
+    });
+    const state: GenUiFilesWatchState = { watcher };
+
+    const schedule = (changedPath: string) => {
+      if (path.extname(changedPath).toLowerCase() !== ".json") {
+        return;
+      }
+      if (state.timer) {
+        clearTimeout(state.timer);
+      }
+      state.timer = setTimeout(() => {
+        state.timer = undefined;
+        void this.loadFromDirectory(dir).catch((err) => {
+          log.warn(`GenUI component reload failed: ${String(err)}`);
+        });
+      }, debounceMs);
+    };
+
+    watcher.on("add", schedule);
+    watcher.on("change", schedule);
+    watcher.on("unlink", schedule);
+    watcher.on("error", (err) => {
+      log.warn(`GenUI component watcher error (${dir}): ${String(err)}`);
+    });
+
+    this.filesWatch = state;
+  }
+
+  /**
+   * Validation errors from the most recent directory load.
+   */
+  getFileErrors(): GenUiFileError[] {
+    return [...this.fileErrors];
   }
 
   /**
@@ -60,12 +157,8 @@ export class GenUiRegistry {
 
       const data = (await response.json()) as Record<string, GenUiComponentDef> | null;
       if (data) {
-        this.byTool.clear();
-        this.byId.clear();
-        for (const def of Object.values(data)) {
-          this.addComponent(def);
-        }
-        log.info(`loaded ${this.byId.size} GenUI components from Firebase RTDB`);
+        this.replaceSource("firebase", Object.values(data));
+        log.info(`loaded ${this.sources.firebase.length} GenUI components from Firebase RTDB`);
       }
 
       // SSE subscription for real-time updates
@@ -89,17 +182,15 @@ export class GenUiRegistry {
         if (response.ok) {
           const data = (await response.json()) as Record<string, GenUiComponentDef> | null;
           if (data) {
-            this.byTool.clear();
-            this.byId.clear();
-            for (const def of Object.values(data)) {
-              this.addComponent(def);
-            }
+            this.replaceSource("firebase", Object.values(data));
           }
         }
       } catch {
         // Silently retry on next poll
       }
     }, 30_000); // Poll every 30 seconds
+    // Like the file watcher, polling must not keep short-lived CLI processes alive.
+    pollInterval.unref?.();
 
     this.firebaseUnsubscribe = () => clearInterval(pollInterval);
     log.debug(`Firebase RTDB polling started (${eventSourceUrl})`);
@@ -107,27 +198,25 @@ export class GenUiRegistry {
 
   /**
    * Initialize registry from judge config.
-   * Tries Firebase first, falls back to static config.
+   * Firebase entries win over workspace files, which win over static config.
    */
-  async initialize(config: AgentJudgeConfig): Promise<void> {
+  async initialize(config: AgentJudgeConfig, opts?: { workspaceDir?: string }): Promise<void> {
     if (config.firebase?.url) {
       await this.subscribeFirebase(config.firebase);
     }
 
-    // Load static registry as fallback or supplement
-    if (config.registry) {
-      // Only load static config if Firebase didn't load anything
-      if (this.byId.size === 0) {
-        this.loadFromConfig(config.registry);
-      } else {
-        // Merge: static entries fill gaps not covered by Firebase
-        for (const [_key, def] of Object.entries(config.registry)) {
-          if (!this.byId.has(def.componentId)) {
-            this.addComponent(def);
-          }
-        }
+    const filesDir = resolveGenUiFilesDir(opts?.workspaceDir ?? "", config);
+    if (filesDir) {
+      await this.loadFromDirectory(filesDir);
+      if (config.files?.watch !== false) {
+        this.watchDirectory(filesDir, { debounceMs: config.files?.watchDebounceMs });
       }
     }
+
+    // Static entries fill gaps not covered by Firebase or files
+    if (config.registry) {
+      this.loadFromConfig(config.registry);
+    }
   }
 
   /**
@@ -164,6 +253,13 @@ export class GenUiRegistry {
     return Array.from(this.byId.values());
   }
 
+  /**
+   * Which source supplied the active definition for a component.
+   */
+  sourceOf(componentId: string): GenUiComponentSource | undefined {
+    return this.sourceById.get(componentId);
+  }
+
   /**
    * Clean up subscriptions.
    */
@@ -172,15 +268,48 @@ export class GenUiRegistry {
       this.firebaseUnsubscribe();
       this.firebaseUnsubscribe = null;
     }
+    this.stopWatchingDirectory();
   }
 
-  private addComponent(def: GenUiComponentDef): void {
-    if (!def.componentId || !Array.isArray(def.toolMappings)) {
-      log.warn(`skipping invalid GenUI component definition: ${JSON.stringify(def)}`);
+  private stopWatchingDirectory(): void {
+    const state = this.filesWatch;
+    if (!state) {
       return;
     }
+    this.filesWatch = null;
+    if (state.timer) {
+      clearTimeout(state.timer);
+    }
+    void state.watcher.close().catch(() => {});
+  }
+
+  private replaceSource(source: GenUiComponentSource, defs: GenUiComponentDef[]): void {
+    this.sources[source] = defs.filter((def) => {
+      if (!def?.componentId || !Array.isArray(def.toolMappings)) {
+        log.warn(`skipping invalid GenUI component definition: ${JSON.stringify(def)}`);
+        return false;
+      }
+      return true;
+    });
+    this.rebuildIndex();
+  }
+
+  private rebuildIndex(): void {
+    this.byTool.clear();
+    this.byId.clear();
+    this.sourceById.clear();
+    for (const source of SOURCE_PRECEDENCE) {
+      for (const def of this.sources[source]) {
+        if (!this.byId.has(def.componentId)) {
+          this.addComponent(def, source);
+        }
+      }
+    }
+  }
 
+  private addComponent(def: GenUiComponentDef, source: GenUiComponentSource): void {
     this.byId.set(def.componentId, def);
+    this.sourceById.set(def.componentId, source);
     for (const toolName of def.toolMappings) {
       const existing = this.byTool.get(toolName) ?? [];
       existing.push(def);
@@ -0,0 +1,52 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GenUiRegistry } from "./genui-registry.js";
+
+// Uses the real chokidar watcher (genui-registry.test.ts mocks it) to catch
+// watch targets chokidar cannot resolve, such as globs.
+describe("GenUiRegistry.watchDirectory", () => {
+  let dir: string;
+  let registry: GenUiRegistry;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-genui-watch-"));
+    registry = new GenUiRegistry();
+  });
+
+  afterEach(async () => {
+    registry.dispose();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("reloads component files added, changed and removed on disk", async () => {
+    await registry.initialize({ files: { dir, watchDebounceMs: 50 } });
+    // Give chokidar a moment to attach before writing.
+    await new Promise((resolve) => setTimeout(resolve, 200));
+
+    const file = path.join(dir, "tasks.json");
+    await fs.writeFile(
+      file,
+      JSON.stringify({
+        componentId: "task-list",
+        toolMappings: ["list_tasks"],
+        requiredParams: [],
+      }),
+    );
+    await expect
+      .poll(() => registry.lookupById("task-list")?.toolMappings, { timeout: 5_000 })
+      .toEqual(["list_tasks"]);
+
+    await fs.writeFile(
+      file,
+      JSON.stringify({ componentId: "task-list", toolMappings: ["get_tasks"], requiredParams: [] }),
+    );
+    await expect
+      .poll(() => registry.lookupById("task-list")?.toolMappings, { timeout: 5_000 })
+      .toEqual(["get_tasks"]);
+
+    await fs.rm(file);
+    await expect.poll(() => registry.lookupById("task-list"), { timeout: 5_000 }).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * GenUI Render Tracker
+ *
+ * Remembers which session owns each broadcast render so `genui.action` calls
+ * from frontends can be routed back to the right agent session and checked
+ * against the component definition that produced the render.
+ */
+
+import type { GenUiComponentDef } from "../../config/types.agent-defaults.js";
+
+const MAX_TRACKED_RENDERS = 512;
+
+export type TrackedGenUiRender = {
+  renderId: string;
+  sessionKey?: string;
+  componentId: string;
+  toolName: string;
+  /** Registry definition, when the component came from the GenUI registry. */
+  component?: GenUiComponentDef;
+  /** Render params; buttons they declare are the accepted actions when `component` has none. */
+  params?: Record<string, unknown>;
+  renderedAt: number;
+  dismissed?: boolean;
+};
+
+const renders = new Map<string, TrackedGenUiRender>();
+
+export function trackGenUiRender(render: Omit<TrackedGenUiRender, "renderedAt">): void {
+  renders.delete(render.renderId);
+  renders.set(render.renderId, { ...render, renderedAt: Date.now() });
+  if (renders.size > MAX_TRACKED_RENDERS) {
+    const oldest = renders.keys().next().value;
+    if (oldest) {
+      renders.delete(oldest);
+    }
+  }
+}
+
+export function getTrackedGenUiRender(renderId: string): TrackedGenUiRender | undefined {
+  return renders.get(renderId);
+}
+
+export function markGenUiRenderDismissed(renderId: string): void {
+  const render = renders.get(renderId);
+  if (render) {
+    render.dismissed = true;
+  }
+}
+
+/** Apply a `genui` tool update, which the Control UI merges into the rendered params. */
+export function mergeGenUiRenderParams(renderId: string, params: Record<string, unknown>): void {
+  const render = renders.get(renderId);
+  if (render) {
+    render.params = { ...render.params, ...params };
+  }
+}
+
+/**
+ * Reset (for testing).
+ */
+export function resetTrackedGenUiRenders(): void {
+  renders.clear();
+}
@@ -1,6 +1,7 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 import type { GatewayBroadcastFn } from "../../gateway/server-broadcast.js";
 import type { PluginRegistry } from "../../plugins/registry.js";
+import { setActivePluginRegistry } from "../../plugins/runtime.js";
 import type {
   PluginHookBeforeToolCallEvent,
   PluginHookBeforeToolCallResult,
@@ -9,7 +10,7 @@ import type {
   PluginHookToolContext,
 } from "../../plugins/types.js";
 import { resetGlobalGenUiBroadcast, setGlobalGenUiBroadcast } from "./genui-broadcast.js";
-import { registerJudgeHook } from "./judge-hook.js";
+import { getActiveGenUiRegistry, registerJudgeHook } from "./judge-hook.js";
 
 type BeforeToolHandler = (
   event: PluginHookBeforeToolCallEvent,
@@ -21,16 +22,23 @@ type AfterToolHandler = (
   ctx: PluginHookToolContext,
 ) => Promise<void>;
 
+const disposeGenUi = vi.hoisted(() => vi.fn());
+
 // Mock the genui-registry module
 vi.mock("./genui-registry.js", () => {
   const GenUiRegistry = vi.fn();
   GenUiRegistry.prototype.initialize = vi.fn();
   GenUiRegistry.prototype.lookupByTool = vi.fn().mockReturnValue([]);
   GenUiRegistry.prototype.validateParams = vi.fn().mockReturnValue({ valid: true, missing: [] });
-  GenUiRegistry.prototype.dispose = vi.fn();
+  GenUiRegistry.prototype.dispose = disposeGenUi;
   return { GenUiRegistry };
 });
 
+const judgeResolve = vi.fn();
+vi.mock("./judge-llm.js", () => ({
+  createJudgeLlm: vi.fn(() => ({ resolve: judgeResolve })),
+}));
+
 function createMockRegistry(): PluginRegistry {
   return {
     plugins: [],
@@ -92,6 +100,23 @@ describe("registerJudgeHook", () => {
     }
   });
 
+  it("keeps each plugin registry's GenUI registry until that registry re-registers", async () => {
+    const config = { agents: { defaults: { judge: { enabled: true } } } } as never;
+    const gateway = createMockRegistry();
+    const gatewayGenUi = await registerJudgeHook(gateway, config);
+    setActivePluginRegistry(gateway);
+
+    // A secondary load (e.g. a CLI status probe) must not close the gateway's watcher.
+    const secondary = createMockRegistry();
+    await registerJudgeHook(secondary, config);
+    expect(disposeGenUi).not.toHaveBeenCalled();
+    expect(getActiveGenUiRegistry()).toBe(gatewayGenUi);
+
+    await registerJudgeHook(gateway, config);
+    expect(disposeGenUi.mock.contexts).toEqual([gatewayGenUi]);
+    expect(getActiveGenUiRegistry()).not.toBe(gatewayGenUi);
+  });
+
   describe("before_tool_call handler", () => {
     it("passes through when tool is not in GenUI registry", async () => {
       const registry = createMockRegistry();
@@ -194,6 +219,78 @@ describe("registerJudgeHook", () => {
     });
   });
 
+  describe("llm fallback", () => {
+    const candidates = [
+      { componentId: "event-card", toolMappings: ["calendar"], requiredParams: ["title", "date"] },
+      { componentId: "agenda-list", toolMappings: ["calendar"], requiredParams: ["day"] },
+    ];
+
+    async function runBeforeHook(params: Record<string, unknown>) {
+      const registry = createMockRegistry();
+      await registerJudgeHook(registry, {
+        agents: { defaults: { judge: { enabled: true, llmFallback: { enabled: true } } } },
+      } as never);
+      const beforeHook = registry.typedHooks.find(
+        (h: PluginHookRegistration) => h.hookName === "before_tool_call",
+      );
+      return await ((beforeHook as PluginHookRegistration).handler as BeforeToolHandler)(
+        { toolName: "calendar", params },
+        { toolName: "calendar", agentId: "main", sessionKey: "test:main:user" },
+      );
+    }
+
+    it("renders the component and params chosen by the judge", async () => {
+      const { GenUiRegistry } = await import("./genui-registry.js");
+      GenUiRegistry.prototype.lookupByTool = vi.fn().mockReturnValue(candidates);
+      GenUiRegistry.prototype.validateParams = vi.fn(
+        (def: { requiredParams: string[] }, params: Record<string, unknown>) => {
+          const missing = def.requiredParams.filter((name) => params[name] === undefined);
+          return { valid: missing.length === 0, missing };
+        },
+      );
+      judgeResolve.mockResolvedValueOnce({
+        component: candidates[1],
+        params: { day: "2026-03-01" },
+        cached: false,
+      });
+
+      const result = await runBeforeHook({ when: "2026-03-01" });
+
+      expect(result).toBeUndefined();
+      expect(judgeResolve).toHaveBeenCalledWith(
+        expect.objectContaining({ toolName: "calendar", candidates }),
+      );
+      expect(broadcastMock).toHaveBeenCalledWith(
+        "genui.render",
+        expect.objectContaining({ componentId: "agenda-list", params: { day: "2026-03-01" } }),
+        { dropIfSlow: true },
+      );
+    });
+
+    it("falls back to the first mapping when the judge fails", async () => {
+      const { GenUiRegistry } = await import("./genui-registry.js");
+      GenUiRegistry.prototype.lookupByTool = vi.fn().mockReturnValue(candidates);
+      GenUiRegistry.prototype.validateParams = vi
+        .fn()
+        .mockReturnValue({ valid: false, missing: ["date"] });
+      judgeResolve.mockRejectedValueOnce(new Error("judge LLM timed out after 10000ms"));
+
+      const result = await runBeforeHook({ title: "Standup" });
+
+      expect(result).toEqual({ block: true, blockReason: expect.stringContaining("date") });
+      expect(broadcastMock).not.toHaveBeenCalled();
+    });
+
+    it("passes through without rendering when the judge picks no component", async () => {
+      const { GenUiRegistry } = await import("./genui-registry.js");
+      GenUiRegistry.prototype.lookupByTool = vi.fn().mockReturnValue(candidates);
+      judgeResolve.mockResolvedValueOnce(null);
+
+      expect(await runBeforeHook({ unrelated: true })).toBeUndefined();
+      expect(broadcastMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe("after_tool_call handler", () => {
     it("broadcasts genui.update for matching tool call", async () => {
       const { GenUiRegistry } = await import("./genui-registry.js");
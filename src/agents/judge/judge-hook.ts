@@ -6,14 +6,18 @@
  *
  * Flow:
  * 1. before_tool_call: Look up tool in GenUI registry → validate params →
- *    broadcast genui.render event (or block if params missing)
+ *    broadcast genui.render event (or block if params missing). With
+ *    llmFallback enabled, ambiguous mappings and incomplete params go to the
+ *    judge model first (see judge-llm.ts).
  * 2. after_tool_call: Broadcast genui.update event with tool result
  */
 
 import crypto from "node:crypto";
 import type { SimpleClawConfig } from "../../config/config.js";
+import type { GenUiComponentDef } from "../../config/types.agent-defaults.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import type { PluginRegistry } from "../../plugins/registry.js";
+import { getActivePluginRegistry } from "../../plugins/runtime.js";
 import type {
   PluginHookAfterToolCallEvent,
   PluginHookBeforeToolCallEvent,
@@ -21,9 +25,12 @@ import type {
   PluginHookRegistration,
   PluginHookToolContext,
 } from "../../plugins/types.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agent-scope.js";
 import { getGlobalGenUiBroadcast } from "./genui-broadcast.js";
 import { GenUiRegistry } from "./genui-registry.js";
+import { trackGenUiRender } from "./genui-renders.js";
 import { resolveJudgeConfig } from "./judge-config.js";
+import { createJudgeLlm } from "./judge-llm.js";
 
 const log = createSubsystemLogger("judge");
 
@@ -31,6 +38,21 @@ const log = createSubsystemLogger("judge");
 const pendingRenders = new Map<string, { renderId: string; componentId: string }>();
 const MAX_PENDING_RENDERS = 256;
 
+/**
+ * GenUI registries keyed by the plugin registry whose hooks use them. Cached
+ * plugin registries can be re-activated, so each keeps its own GenUI registry.
+ */
+const genUiRegistries = new WeakMap<PluginRegistry, GenUiRegistry>();
+
+/**
+ * The GenUI registry behind the active plugin registry, or undefined when the
+ * judge is disabled.
+ */
+export function getActiveGenUiRegistry(): GenUiRegistry | undefined {
+  const pluginRegistry = getActivePluginRegistry();
+  return pluginRegistry ? genUiRegistries.get(pluginRegistry) : undefined;
+}
+
 export type GenUiRenderPayload = {
   id: string;
   sessionKey?: string;
@@ -59,6 +81,9 @@ export async function registerJudgeHook(
   config?: SimpleClawConfig,
 ): Promise<GenUiRegistry | undefined> {
   const judgeConfig = resolveJudgeConfig(config);
+  // Re-registering on the same plugin registry releases its previous watcher and polling.
+  genUiRegistries.get(registry)?.dispose();
+  genUiRegistries.delete(registry);
   if (!judgeConfig) {
     log.debug("judge disabled or not configured");
     return undefined;
@@ -68,7 +93,17 @@ export async function registerJudgeHook(
 
   // Initialize the GenUI registry
   const genUiRegistry = new GenUiRegistry();
-  await genUiRegistry.initialize(judgeConfig);
+  genUiRegistries.set(registry, genUiRegistry);
+  const workspaceDir = config
+    ? resolveAgentWorkspaceDir(config, resolveDefaultAgentId(config))
+    : undefined;
+  await genUiRegistry.initialize(judgeConfig, { workspaceDir });
+
+  const judgeLlm = judgeConfig.llmFallback?.enabled
+    ? createJudgeLlm({ cfg: config, fallback: judgeConfig.llmFallback })
+    : undefined;
+  const isComplete = (component: GenUiComponentDef, params: Record<string, unknown>) =>
+    genUiRegistry.validateParams(component, params).valid;
 
   // before_tool_call: intercept, validate, broadcast genui.render
   const beforeHandler = async (
@@ -81,10 +116,33 @@ export async function registerJudgeHook(
     }
 
     // Pick the first matching component (single match is the common case).
-    // TODO: LLM fallback for ambiguous multi-component mappings
-    const component = components[0];
+    let component = components[0];
+    let renderParams = event.params;
+    let validation = genUiRegistry.validateParams(component, renderParams);
+
+    if (judgeLlm && (components.length > 1 || !validation.valid)) {
+      try {
+        const resolution = await judgeLlm.resolve({
+          toolName: event.toolName,
+          params: event.params,
+          candidates: components,
+          isComplete,
+          agentId: ctx.agentId,
+          sessionKey: ctx.sessionKey,
+        });
+        if (!resolution) {
+          log.debug(`judge found no GenUI component for ${event.toolName}`);
+          return;
+        }
+        component = resolution.component;
+        renderParams = resolution.params;
+        validation = genUiRegistry.validateParams(component, renderParams);
+      } catch (err) {
+        // Fall back to the first mapping so a judge outage never blocks tools it would not have.
+        log.warn(`judge LLM fallback failed for ${event.toolName}: ${String(err)}`);
+      }
+    }
 
-    const validation = genUiRegistry.validateParams(component, event.params);
     if (!validation.valid) {
       log.debug(
         `blocking ${event.toolName}: missing params [${validation.missing.join(", ")}] for ${component.componentId}`,
@@ -106,12 +164,20 @@ export async function registerJudgeHook(
         id: renderId,
         sessionKey: ctx.sessionKey,
         componentId: component.componentId,
-        params: event.params,
+        params: renderParams,
         schema: component.schema,
         toolName: event.toolName,
         ts: Date.now(),
       };
       broadcast("genui.render", payload, { dropIfSlow: true });
+      trackGenUiRender({
+        renderId,
+        sessionKey: ctx.sessionKey,
+        componentId: component.componentId,
+        toolName: event.toolName,
+        component,
+        params: renderParams,
+      });
       log.debug(`broadcast genui.render: ${component.componentId} (${renderId})`);
     } else {
       log.warn("no global GenUI broadcast available — genui.render event not sent");
@@ -0,0 +1,150 @@
+import { describe, expect, it, vi } from "vitest";
+import type { GenUiComponentDef } from "../../config/types.agent-defaults.js";
+import {
+  applyJudgeParams,
+  createJudgeLlm,
+  parseJudgeLlmReply,
+  resolveJudgeCacheKey,
+} from "./judge-llm.js";
+
+const eventCard: GenUiComponentDef = {
+  componentId: "calendar-event-card",
+  toolMappings: ["calendar"],
+  requiredParams: ["title", "date"],
+  optionalParams: ["location"],
+};
+
+const agendaCard: GenUiComponentDef = {
+  componentId: "agenda-list",
+  toolMappings: ["calendar"],
+  requiredParams: ["day"],
+};
+
+const isComplete = (component: GenUiComponentDef, params: Record<string, unknown>) =>
+  component.requiredParams.every((name) => params[name] !== undefined);
+
+describe("judge LLM fallback", () => {
+  it("keys the cache on tool name and param shape, not values", () => {
+    expect(resolveJudgeCacheKey("calendar", { summary: "A", when: { start: "x" } })).toBe(
+      resolveJudgeCacheKey("calendar", { when: { start: "y" }, summary: "B" }),
+    );
+    expect(resolveJudgeCacheKey("calendar", { summary: "A" })).not.toBe(
+      resolveJudgeCacheKey("calendar", { summary: 1 }),
+    );
+  });
+
+  it("parses replies and rejects unknown components", () => {
+    expect(
+      parseJudgeLlmReply(
+        'Sure: {"componentId":"agenda-list","params":{"day":{"from":"when.start"},"x":1}}',
+        [eventCard, agendaCard],
+      ),
+    ).toEqual({ componentId: "agenda-list", params: { day: { from: "when.start" } } });
+    expect(parseJudgeLlmReply('{"componentId":null}', [eventCard])).toEqual({
+      componentId: null,
+      params: {},
+    });
+    expect(() => parseJudgeLlmReply('{"componentId":"nope"}', [eventCard])).toThrow(
+      "judge picked unknown component: nope",
+    );
+  });
+
+  it("fills only params the component knows about", () => {
+    expect(
+      applyJudgeParams(
+        eventCard,
+        { title: "Standup", when: { start: "2026-03-01" }, internal: true },
+        { date: { from: "when.start" }, location: { value: "Room 4" }, bogus: { value: 1 } },
+      ),
+    ).toEqual({ title: "Standup", date: "2026-03-01", location: "Room 4" });
+  });
+
+  it("picks a component and reuses path mappings for the same shape", async () => {
+    const complete = vi.fn(
+      async () =>
+        '{"componentId":"calendar-event-card","params":{"title":{"from":"summary"},"date":{"from":"when.start"}}}',
+    );
+    const judge = createJudgeLlm({ fallback: { enabled: true }, complete });
+    const candidates = [eventCard, agendaCard];
+
+    const first = await judge.resolve({
+      toolName: "calendar",
+      params: { summary: "Standup", when: { start: "2026-03-01" } },
+      candidates,
+      isComplete,
+    });
+    expect(first).toEqual({
+      component: eventCard,
+      params: { title: "Standup", date: "2026-03-01" },
+      cached: false,
+    });
+
+    const second = await judge.resolve({
+      toolName: "calendar",
+      params: { summary: "Retro", when: { start: "2026-03-02" } },
+      candidates,
+      isComplete,
+    });
+    expect(second).toMatchObject({ params: { title: "Retro", date: "2026-03-02" }, cached: true });
+    expect(complete).toHaveBeenCalledTimes(1);
+  });
+
+  it("asks again when the cached mapping needed literal values", async () => {
+    const complete = vi.fn(
+      async () =>
+        '{"componentId":"calendar-event-card","params":{"title":{"from":"summary"},"date":{"value":"2026-03-01"}}}',
+    );
+    const judge = createJudgeLlm({ fallback: { enabled: true }, complete });
+    const input = {
+      toolName: "calendar",
+      params: { summary: "Standup", when: "tomorrow" },
+      candidates: [eventCard, agendaCard],
+      isComplete,
+    };
+
+    await judge.resolve(input);
+    await judge.resolve(input);
+    expect(complete).toHaveBeenCalledTimes(2);
+  });
+
+  it("caches no-fit answers only for a few minutes", async () => {
+    vi.useFakeTimers();
+    try {
+      const complete = vi
+        .fn()
+        .mockResolvedValueOnce('{"componentId":null}')
+        .mockResolvedValue('{"componentId":"agenda-list","params":{"day":{"from":"when"}}}');
+      const judge = createJudgeLlm({ fallback: { enabled: true }, complete });
+      const input = {
+        toolName: "calendar",
+        params: { when: "2026-03-01" },
+        candidates: [eventCard, agendaCard],
+        isComplete,
+      };
+
+      expect(await judge.resolve(input)).toBeNull();
+      expect(await judge.resolve(input)).toBeNull();
+      expect(complete).toHaveBeenCalledTimes(1);
+
+      vi.advanceTimersByTime(5 * 60_000);
+      expect(await judge.resolve(input)).toMatchObject({ component: agendaCard, cached: false });
+      expect(complete).toHaveBeenCalledTimes(2);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("times out slow judge calls", async () => {
+    const complete = vi.fn(
+      (_prompt: string, opts: { signal: AbortSignal }) =>
+        new Promise<string>((_resolve, reject) => {
+          opts.signal.addEventListener("abort", () => reject(new Error("aborted")));
+        }),
+    );
+    const judge = createJudgeLlm({ fallback: { enabled: true, timeoutMs: 10 }, complete });
+
+    await expect(
+      judge.resolve({ toolName: "calendar", params: {}, candidates: [eventCard], isComplete }),
+    ).rejects.toThrow("judge LLM timed out after 10ms");
+  });
+});
@@ -0,0 +1,299 @@
+/**
+ * Judge LLM Fallback
+ *
+ * Asks a cheap model to pick a GenUI component when a tool maps to several
+ * components, or to derive missing required params from the tool call.
+ * Decisions are cached per tool + param shape so repeated calls with the same
+ * argument layout skip the model; "no component fits" answers only for a few
+ * minutes.
+ */
+
+import type { SimpleClawConfig } from "../../config/config.js";
+import type {
+  AgentJudgeLlmFallbackConfig,
+  GenUiComponentDef,
+} from "../../config/types.agent-defaults.js";
+import { createSubsystemLogger } from "../../logging/subsystem.js";
+import { createOneShotComplete, type OneShotCompleteFn } from "../one-shot-completion.js";
+
+const log = createSubsystemLogger("judge/llm");
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+const MAX_CACHE_ENTRIES = 256;
+/** "No component fits" answers expire so one unlucky reply is retried later. */
+const NO_FIT_CACHE_TTL_MS = 5 * 60_000;
+const MAX_PARAMS_PROMPT_CHARS = 4000;
+
+/**
+ * How the judge fills one component param: copied from a tool param path
+ * (reusable across calls with the same shape) or a literal derived value.
+ */
+export type JudgeParamSource = { from: string } | { value: unknown };
+
+export type JudgeLlmDecision = {
+  /** Chosen component, or null when none of the candidates fit the call. */
+  componentId: string | null;
+  params: Record<string, JudgeParamSource>;
+};
+
+export type JudgeLlmResolution = {
+  component: GenUiComponentDef;
+  params: Record<string, unknown>;
+  cached: boolean;
+};
+
+/** Sends a prompt to the judge model and returns its text reply. */
+export type JudgeLlmCompleteFn = OneShotCompleteFn;
+
+export type JudgeLlm = {
+  /**
+   * Returns the chosen component with params filled from the tool call, or
+   * null when the model picked no component.
+   */
+  resolve(input: {
+    toolName: string;
+    params: Record<string, unknown>;
+    candidates: GenUiComponentDef[];
+    isComplete: (component: GenUiComponentDef, params: Record<string, unknown>) => boolean;
+    /** Run the tool call belongs to; the judge call is charged to its usage budgets. */
+    agentId?: string;
+    sessionKey?: string;
+  }): Promise<JudgeLlmResolution | null>;
+};
+
+function describeShape(value: unknown): string {
+  if (value === null) {
+    return "null";
+  }
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  if (typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .map(([key, inner]) => `${key}:${describeShape(inner)}`)
+      .toSorted();
+    return `{${entries.join(",")}}`;
+  }
+  return typeof value;
+}
+
+/** Cache key: tool name plus the keys and value types of its params. */
+export function resolveJudgeCacheKey(toolName: string, params: Record<string, unknown>): string {
+  return `${toolName}|${describeShape(params)}`;
+}
+
+function readPath(params: Record<string, unknown>, path: string): unknown {
+  let current: unknown = params;
+  for (const segment of path.split(".")) {
+    if (!current || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/** Allowed component params: required, optional, and top-level schema properties. */
+function componentParamNames(component: GenUiComponentDef): Set<string> {
+  const names = new Set([...component.requiredParams, ...(component.optionalParams ?? [])]);
+  const properties = component.schema?.properties;
+  if (properties && typeof properties === "object") {
+    for (const key of Object.keys(properties)) {
+      names.add(key);
+    }
+  }
+  return names;
+}
+
+/**
+ * Fills component params from the tool params plus the judge's sources.
+ * Tool params that match a component param pass through unchanged.
+ */
+export function applyJudgeParams(
+  component: GenUiComponentDef,
+  toolParams: Record<string, unknown>,
+  sources: Record<string, JudgeParamSource>,
+): Record<string, unknown> {
+  const allowed = componentParamNames(component);
+  const params: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(toolParams)) {
+    if (allowed.has(key)) {
+      params[key] = value;
+    }
+  }
+  for (const [key, source] of Object.entries(sources)) {
+    if (!allowed.has(key)) {
+      continue;
+    }
+    const value = "from" in source ? readPath(toolParams, source.from) : source.value;
+    if (value !== undefined) {
+      params[key] = value;
+    }
+  }
+  return params;
+}
+
+function extractJsonObject(text: string): unknown {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("judge reply has no JSON object");
+  }
+  return JSON.parse(text.slice(start, end + 1));
+}
+
+export function parseJudgeLlmReply(
+  text: string,
+  candidates: GenUiComponentDef[],
+): JudgeLlmDecision {
+  const parsed = extractJsonObject(text) as { componentId?: unknown; params?: unknown };
+  const componentId = typeof parsed.componentId === "string" ? parsed.componentId : null;
+  if (componentId && !candidates.some((candidate) => candidate.componentId === componentId)) {
+    throw new Error(`judge picked unknown component: ${componentId}`);
+  }
+  const params: Record<string, JudgeParamSource> = {};
+  if (parsed.params && typeof parsed.params === "object" && !Array.isArray(parsed.params)) {
+    for (const [key, raw] of Object.entries(parsed.params as Record<string, unknown>)) {
+      if (!raw || typeof raw !== "object") {
+        continue;
+      }
+      const entry = raw as Record<string, unknown>;
+      if (typeof entry.from === "string" && entry.from.trim()) {
+        params[key] = { from: entry.from.trim() };
+      } else if ("value" in entry) {
+        params[key] = { value: entry.value };
+      }
+    }
+  }
+  return { componentId, params };
+}
+
+export function buildJudgePrompt(input: {
+  toolName: string;
+  params: Record<string, unknown>;
+  candidates: GenUiComponentDef[];
+}): string {
+  const candidates = input.candidates.map((candidate) => ({
+    componentId: candidate.componentId,
+    displayName: candidate.displayName,
+    requiredParams: candidate.requiredParams,
+    optionalParams: candidate.optionalParams,
+    schema: candidate.schema,
+  }));
+  let params = JSON.stringify(input.params);
+  if (params.length > MAX_PARAMS_PROMPT_CHARS) {
+    params = `${params.slice(0, MAX_PARAMS_PROMPT_CHARS)}…`;
+  }
+  return (
+    `You pick the UI component that best visualizes a tool call and fill its params.\n` +
+    `Tool: ${input.toolName}\n` +
+    `Tool params: ${params}\n` +
+    `Candidate components: ${JSON.stringify(candidates)}\n\n` +
+    `Reply with JSON only: {"componentId": "<id or null>", "params": {"<componentParam>": {"from": "<dot path into tool params>"} | {"value": <derived value>}}}.\n` +
+    `Prefer "from" when a tool param already holds the value; use "value" only to transform or combine values ` +
+    `to match the component schema. Never invent data that is not in the tool params. ` +
+    `Use null when no component fits.`
+  );
+}
+
+export function createJudgeLlm(params: {
+  cfg?: SimpleClawConfig;
+  fallback: AgentJudgeLlmFallbackConfig;
+  complete?: JudgeLlmCompleteFn;
+}): JudgeLlm {
+  const complete =
+    params.complete ??
+    createOneShotComplete({
+      cfg: params.cfg,
+      model: params.fallback.model,
+      maxTokens: 512,
+      label: "judge",
+    });
+  const timeoutMs = params.fallback.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  /** Only "from" sources are cached; literal values belong to a single call. */
+  const cache = new Map<string, JudgeLlmDecision & { expiresAt?: number }>();
+
+  const remember = (key: string, decision: JudgeLlmDecision) => {
+    const params: Record<string, JudgeParamSource> = {};
+    for (const [name, source] of Object.entries(decision.params)) {
+      if ("from" in source) {
+        params[name] = source;
+      }
+    }
+    cache.delete(key);
+    cache.set(key, {
+      componentId: decision.componentId,
+      params,
+      expiresAt: decision.componentId ? undefined : Date.now() + NO_FIT_CACHE_TTL_MS,
+    });
+    if (cache.size > MAX_CACHE_ENTRIES) {
+      const oldest = cache.keys().next().value;
+      if (oldest) {
+        cache.delete(oldest);
+      }
+    }
+  };
+
+  const toResolution = (
+    decision: JudgeLlmDecision,
+    input: Parameters<JudgeLlm["resolve"]>[0],
+    cached: boolean,
+  ): JudgeLlmResolution | null => {
+    const component = input.candidates.find(
+      (candidate) => candidate.componentId === decision.componentId,
+    );
+    if (!component) {
+      return null;
+    }
+    return {
+      component,
+      params: applyJudgeParams(component, input.params, decision.params),
+      cached,
+    };
+  };
+
+  return {
+    async resolve(input) {
+      const key = resolveJudgeCacheKey(input.toolName, input.params);
+      let hit = cache.get(key);
+      if (hit?.expiresAt !== undefined && hit.expiresAt <= Date.now()) {
+        cache.delete(key);
+        hit = undefined;
+      }
+      if (hit) {
+        if (!hit.componentId) {
+          return null;
+        }
+        const resolution = toResolution(hit, input, true);
+        if (resolution && input.isComplete(resolution.component, resolution.params)) {
+          return resolution;
+        }
+        // The cached mapping no longer fills this call (e.g. it needed literal values); ask again.
+      }
+
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      let reply: string;
+      try {
+        reply = await complete(buildJudgePrompt(input), {
+          signal: controller.signal,
+          agentId: input.agentId,
+          sessionKey: input.sessionKey,
+        });
+      } catch (err) {
+        if (controller.signal.aborted) {
+          throw new Error(`judge LLM timed out after ${timeoutMs}ms`, { cause: err });
+        }
+        throw err;
+      } finally {
+        clearTimeout(timer);
+      }
+      const decision = parseJudgeLlmReply(reply, input.candidates);
+      remember(key, decision);
+      log.debug(
+        `judge picked ${decision.componentId ?? "no component"} for ${input.toolName} (${Object.keys(decision.params).length} params)`,
+      );
+      return decision.componentId ? toResolution(decision, input, false) : null;
+    },
+  };
+}
@@ -71,6 +71,10 @@ export type ResolvedMemorySearchConfig = {
         halfLifeDays: number;
       };
     };
+    facts: {
+      enabled: boolean;
+      weight: number;
+    };
   };
   cache: {
     enabled: boolean;
@@ -97,6 +101,8 @@ const DEFAULT_MMR_ENABLED = false;
 const DEFAULT_MMR_LAMBDA = 0.7;
 const DEFAULT_TEMPORAL_DECAY_ENABLED = false;
 const DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS = 30;
+const DEFAULT_FACTS_ENABLED = true;
+const DEFAULT_FACT_WEIGHT = 1;
 const DEFAULT_CACHE_ENABLED = true;
 const DEFAULT_SOURCES: Array<"memory" | "sessions"> = ["memory"];
 
@@ -273,6 +279,12 @@ function mergeConfig(
         DEFAULT_TEMPORAL_DECAY_HALF_LIFE_DAYS,
     },
   };
+  const facts = {
+    enabled:
+      overrides?.query?.facts?.enabled ?? defaults?.query?.facts?.enabled ?? DEFAULT_FACTS_ENABLED,
+    weight:
+      overrides?.query?.facts?.weight ?? defaults?.query?.facts?.weight ?? DEFAULT_FACT_WEIGHT,
+  };
   const cache = {
     enabled: overrides?.cache?.enabled ?? defaults?.cache?.enabled ?? DEFAULT_CACHE_ENABLED,
     maxEntries: overrides?.cache?.maxEntries ?? defaults?.cache?.maxEntries,
@@ -336,6 +348,10 @@ function mergeConfig(
           halfLifeDays: temporalDecayHalfLifeDays,
         },
       },
+      facts: {
+        enabled: Boolean(facts.enabled),
+        weight: clampNumber(facts.weight, 0, 1),
+      },
     },
     cache: {
       enabled: Boolean(cache.enabled),
@@ -0,0 +1,71 @@
+import { completeSimple, type AssistantMessage } from "@mariozechner/pi-ai";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import { getUsageBudgetSpend, resetUsageBudgetsForTests } from "../infra/usage-budget.js";
+import { createOneShotComplete } from "./one-shot-completion.js";
+import { UsageBudgetExceededError } from "./usage-budget-guard.js";
+
+vi.mock("@mariozechner/pi-ai", () => ({
+  completeSimple: vi.fn(),
+  // Some auth helpers import oauth provider metadata at module load time.
+  getOAuthProviders: () => [],
+  getOAuthApiKey: vi.fn(async () => null),
+}));
+
+vi.mock("./pi-embedded-runner/model.js", () => ({
+  resolveModel: vi.fn((provider: string, modelId: string) => ({
+    model: { provider, id: modelId, name: modelId, api: "anthropic-messages" },
+  })),
+}));
+
+vi.mock("./model-auth.js", () => ({
+  getApiKeyForModel: vi.fn(async () => ({ apiKey: "test-api-key", source: "test" })),
+  requireApiKey: vi.fn((auth: { apiKey?: string }) => auth.apiKey ?? ""),
+}));
+
+const reply: AssistantMessage = {
+  role: "assistant",
+  content: [{ type: "text", text: ' {"ok":true} ' }],
+  api: "anthropic-messages",
+  provider: "anthropic",
+  model: "claude-haiku",
+  usage: {
+    input: 400,
+    output: 200,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 600,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  },
+  stopReason: "stop",
+  timestamp: 0,
+};
+
+describe("createOneShotComplete", () => {
+  beforeEach(() => {
+    resetUsageBudgetsForTests();
+    vi.mocked(completeSimple).mockReset().mockResolvedValue(reply);
+  });
+
+  it("returns the trimmed text reply", async () => {
+    const complete = createOneShotComplete({ cfg: {}, maxTokens: 64, label: "judge" });
+    await expect(complete("hi", { signal: new AbortController().signal })).resolves.toBe(
+      '{"ok":true}',
+    );
+  });
+
+  it("charges usage budgets and refuses calls once the limit is reached", async () => {
+    const cfg = {
+      budgets: { session: { daily: { maxTokens: 1000 } } },
+    } as SimpleClawConfig;
+    const complete = createOneShotComplete({ cfg, maxTokens: 64, label: "entity" });
+    const opts = { signal: new AbortController().signal, sessionKey: "agent:main:main" };
+
+    await complete("one", opts);
+    await complete("two", opts);
+    expect(getUsageBudgetSpend({ kind: "session", id: "agent:main:main" }).daily.tokens).toBe(1200);
+
+    await expect(complete("three", opts)).rejects.toBeInstanceOf(UsageBudgetExceededError);
+    expect(completeSimple).toHaveBeenCalledTimes(2);
+  });
+});
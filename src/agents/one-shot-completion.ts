@@ -0,0 +1,88 @@
+/**
+ * One-shot Completion
+ *
+ * A single prompt → text reply against a configured model, outside the
+ * embedded agent runner. Used by small side calls such as the GenUI judge and
+ * passive-context entity extraction. Calls are checked and charged against
+ * usage budgets like embedded runs.
+ */
+
+import { completeSimple, type TextContent } from "@mariozechner/pi-ai";
+import type { SimpleClawConfig } from "../config/config.js";
+import { resolveDefaultAgentId } from "./agent-scope.js";
+import { getApiKeyForModel, requireApiKey } from "./model-auth.js";
+import {
+  buildModelAliasIndex,
+  resolveDefaultModelForAgent,
+  resolveModelRefFromString,
+} from "./model-selection.js";
+import { resolveModel } from "./pi-embedded-runner/model.js";
+import { createUsageBudgetGuard } from "./usage-budget-guard.js";
+
+/**
+ * Sends a prompt to the model and returns its text reply. `agentId` and
+ * `sessionKey` name the run the call is made for; usage budgets charge it there.
+ */
+export type OneShotCompleteFn = (
+  prompt: string,
+  opts: { signal: AbortSignal; agentId?: string; sessionKey?: string },
+) => Promise<string>;
+
+function isTextContentBlock(block: { type: string }): block is TextContent {
+  return block.type === "text";
+}
+
+/**
+ * Build a completion function for `model` (a `provider/model` ref or alias),
+ * falling back to the default agent model.
+ *
+ * @param params.label - Names the caller in errors, e.g. "judge" → "Unknown judge model: …"
+ */
+export function createOneShotComplete(params: {
+  cfg?: SimpleClawConfig;
+  model?: string;
+  maxTokens: number;
+  label: string;
+}): OneShotCompleteFn {
+  return async (prompt, opts) => {
+    const cfg = params.cfg;
+    if (!cfg) {
+      throw new Error(`${params.label} model requires a config`);
+    }
+    const defaultRef = resolveDefaultModelForAgent({ cfg });
+    const override = params.model?.trim();
+    const ref = override
+      ? (resolveModelRefFromString({
+          raw: override,
+          defaultProvider: defaultRef.provider,
+          aliasIndex: buildModelAliasIndex({ cfg, defaultProvider: defaultRef.provider }),
+        })?.ref ?? defaultRef)
+      : defaultRef;
+    const resolved = resolveModel(ref.provider, ref.model, undefined, cfg);
+    const model = resolved.model;
+    if (!model) {
+      throw new Error(
+        resolved.error ?? `Unknown ${params.label} model: ${ref.provider}/${ref.model}`,
+      );
+    }
+    const apiKey = requireApiKey(await getApiKeyForModel({ model, cfg }), ref.provider);
+    const call = () =>
+      completeSimple(
+        model,
+        { messages: [{ role: "user", content: prompt, timestamp: Date.now() }] },
+        { apiKey, maxTokens: params.maxTokens, temperature: 0, signal: opts.signal },
+      );
+    // Side calls count against the same daily/monthly budgets as the run they serve.
+    const budget = createUsageBudgetGuard({
+      config: cfg,
+      agentId: opts.agentId ?? resolveDefaultAgentId(cfg),
+      sessionKey: opts.sessionKey,
+    });
+    const res = budget ? await budget.guardCall(call) : await call();
+    return res.content
+      .filter(isTextContentBlock)
+      .map((block) => block.text)
+      .join("")
+      .trim();
+  };
+}
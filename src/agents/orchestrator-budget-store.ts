@@ -0,0 +1,58 @@
+import path from "node:path";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+import type { OrchestratorBudgetLedger, SpendTotals } from "./orchestrator-budget.js";
+import { resolveRosterPath } from "./subagent-roster-store.js";
+
+type PersistedLedger = OrchestratorBudgetLedger & {
+  version: 1;
+};
+
+/** The spend ledger lives next to the roster (`<state>/subagents/budget.json`). */
+export function resolveBudgetStorePath(): string {
+  return path.join(path.dirname(resolveRosterPath()), "budget.json");
+}
+
+function isSpendTotals(value: unknown): value is SpendTotals {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const totals = value as Partial<SpendTotals>;
+  return typeof totals.tokens === "number" && typeof totals.costUsd === "number";
+}
+
+export function loadBudgetLedgerFromDisk(): OrchestratorBudgetLedger {
+  const empty: OrchestratorBudgetLedger = { daily: {}, batches: {} };
+  const raw = loadJsonFile(resolveBudgetStorePath());
+  if (!raw || typeof raw !== "object") {
+    return empty;
+  }
+  const record = raw as Partial<PersistedLedger>;
+  if (record.version !== 1) {
+    return empty;
+  }
+  for (const [agentId, day] of Object.entries(record.daily ?? {})) {
+    if (isSpendTotals(day) && typeof day.day === "string") {
+      empty.daily[agentId] = { day: day.day, tokens: day.tokens, costUsd: day.costUsd };
+    }
+  }
+  for (const [batchId, batch] of Object.entries(record.batches ?? {})) {
+    if (
+      isSpendTotals(batch) &&
+      typeof batch.agentId === "string" &&
+      typeof batch.updatedAt === "number"
+    ) {
+      empty.batches[batchId] = {
+        agentId: batch.agentId,
+        tokens: batch.tokens,
+        costUsd: batch.costUsd,
+        updatedAt: batch.updatedAt,
+      };
+    }
+  }
+  return empty;
+}
+
+export function saveBudgetLedgerToDisk(ledger: OrchestratorBudgetLedger) {
+  const out: PersistedLedger = { version: 1, ...ledger };
+  saveJsonFile(resolveBudgetStorePath(), out);
+}
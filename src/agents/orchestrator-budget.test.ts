@@ -0,0 +1,174 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { beforeEach, describe, expect, it } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import {
+  checkOrchestratorSpawnBudget,
+  describeOrchestratorBudget,
+  getBatchSpend,
+  getDailySpend,
+  recordOrchestratorWorkerUsage,
+  recordWorkerSpend,
+  resetOrchestratorBudgetForTests,
+  resolveOrchestratorBudget,
+} from "./orchestrator-budget.js";
+
+beforeEach(() => {
+  resetOrchestratorBudgetForTests();
+});
+
+const NOON = new Date(2026, 4, 10, 12, 0, 0).getTime();
+const NEXT_DAY = new Date(2026, 4, 11, 9, 0, 0).getTime();
+
+function makeConfig(agents: SimpleClawConfig["agents"], extra?: Partial<SimpleClawConfig>) {
+  return { agents, ...extra } as SimpleClawConfig;
+}
+
+describe("resolveOrchestratorBudget", () => {
+  it("only applies to orchestrators with limits configured", () => {
+    const cfg = makeConfig({
+      list: [
+        { id: "boss", role: "orchestrator", orchestrator: { daily: { maxTokens: 1000 } } },
+        { id: "plain", role: "orchestrator" },
+        { id: "worker", role: "worker", orchestrator: { maxConcurrentWorkers: 2 } },
+      ],
+    });
+    expect(resolveOrchestratorBudget(cfg, "boss")).toEqual({ daily: { maxTokens: 1000 } });
+    expect(resolveOrchestratorBudget(cfg, "plain")).toBeUndefined();
+    expect(resolveOrchestratorBudget(cfg, "worker")).toBeUndefined();
+  });
+});
+
+describe("ledger", () => {
+  it("accumulates daily and batch spend and resets the day at midnight", () => {
+    recordWorkerSpend({ agentId: "boss", batchId: "b1", tokens: 500, costUsd: 0.25, now: NOON });
+    recordWorkerSpend({ agentId: "boss", batchId: "b1", tokens: 300, costUsd: 0.1, now: NOON });
+    recordWorkerSpend({ agentId: "boss", tokens: 200, costUsd: 0.05, now: NOON });
+
+    expect(getDailySpend("boss", NOON)).toEqual({ tokens: 1000, costUsd: expect.closeTo(0.4) });
+    expect(getBatchSpend("b1")).toEqual({ tokens: 800, costUsd: expect.closeTo(0.35) });
+    expect(getDailySpend("boss", NEXT_DAY)).toEqual({ tokens: 0, costUsd: 0 });
+  });
+
+  it("survives a restart", () => {
+    recordWorkerSpend({ agentId: "boss", batchId: "b1", tokens: 500, costUsd: 0.25, now: NOON });
+
+    resetOrchestratorBudgetForTests({ loadFromDisk: true });
+
+    expect(getDailySpend("boss", NOON)).toEqual({ tokens: 500, costUsd: 0.25 });
+    expect(getBatchSpend("b1")).toEqual({ tokens: 500, costUsd: 0.25 });
+  });
+});
+
+describe("checkOrchestratorSpawnBudget", () => {
+  it("checks concurrency, then daily, then batch limits", () => {
+    const budget = {
+      maxConcurrentWorkers: 2,
+      daily: { maxTokens: 1000 },
+      batch: { maxCostUsd: 0.5 },
+    };
+    const check = (activeWorkers: number, batchId?: string) =>
+      checkOrchestratorSpawnBudget({ budget, agentId: "boss", activeWorkers, batchId, now: NOON });
+
+    expect(check(1, "b1")).toBeUndefined();
+    expect(check(2)).toContain("concurrent worker limit (2/2)");
+
+    recordWorkerSpend({ agentId: "boss", batchId: "b1", tokens: 100, costUsd: 0.6, now: NOON });
+    expect(check(0)).toBeUndefined();
+    expect(check(0, "b1")).toContain("budget for batch b1 exhausted: cost limit reached");
+
+    recordWorkerSpend({ agentId: "boss", tokens: 900, costUsd: 0, now: NOON });
+    expect(check(0)).toContain("daily budget exhausted: token limit reached (1.0k/1.0k tokens)");
+  });
+});
+
+describe("describeOrchestratorBudget", () => {
+  it("reports remaining budget per day and per active batch", () => {
+    recordWorkerSpend({ agentId: "boss", batchId: "b1", tokens: 250, costUsd: 1.25, now: NOON });
+    const lines = describeOrchestratorBudget({
+      budget: { maxConcurrentWorkers: 4, daily: { maxTokens: 1000, maxCostUsd: 5 }, batch: {} },
+      agentId: "boss",
+      activeWorkers: 1,
+      batches: [{ batchId: "b1", label: "research" }],
+      now: NOON,
+    });
+    expect(lines).toEqual([
+      "- Workers running: 1/4",
+      "- Today: 750 of 1.0k tokens left, $3.75 of $5.00 left",
+    ]);
+
+    expect(
+      describeOrchestratorBudget({
+        budget: { batch: { maxTokens: 1000 } },
+        agentId: "boss",
+        activeWorkers: 0,
+        batches: [{ batchId: "b1", label: "research" }],
+      }),
+    ).toEqual(["- Batch research: 750 of 1.0k tokens left"]);
+  });
+});
+
+describe("recordOrchestratorWorkerUsage", () => {
+  it("charges the worker's session usage and model cost to its orchestrator", async () => {
+    const storePath = path.join(
+      fs.mkdtempSync(path.join(os.tmpdir(), "simpleclaw-budget-")),
+      "sessions.json",
+    );
+    fs.writeFileSync(
+      storePath,
+      JSON.stringify({
+        "agent:boss:subagent:w1": {
+          sessionId: "w1",
+          updatedAt: Date.now(),
+          inputTokens: 1000,
+          outputTokens: 500,
+          cacheRead: 2000,
+          modelProvider: "anthropic",
+          model: "claude-haiku",
+        },
+      }),
+    );
+    const cfg = makeConfig(
+      { list: [{ id: "boss", role: "orchestrator", orchestrator: { daily: { maxTokens: 10 } } }] },
+      {
+        session: { store: storePath },
+        models: {
+          providers: {
+            anthropic: {
+              baseUrl: "https://api.anthropic.com",
+              models: [
+                {
+                  id: "claude-haiku",
+                  name: "Claude Haiku",
+                  reasoning: false,
+                  input: ["text"],
+                  cost: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+                  contextWindow: 200_000,
+                  maxTokens: 8192,
+                },
+              ],
+            },
+          },
+        },
+      },
+    );
+
+    await recordOrchestratorWorkerUsage({
+      cfg,
+      requesterSessionKey: "agent:boss:main",
+      childSessionKey: "agent:boss:subagent:w1",
+      batchId: "b1",
+    });
+
+    expect(getDailySpend("boss").tokens).toBe(1500);
+    expect(getBatchSpend("b1").costUsd).toBeCloseTo(0.0037);
+
+    await recordOrchestratorWorkerUsage({
+      cfg,
+      requesterSessionKey: "agent:other:main",
+      childSessionKey: "agent:boss:subagent:w1",
+    });
+    expect(getDailySpend("other")).toEqual({ tokens: 0, costUsd: 0 });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Worker spend limits for orchestrator agents.
+ *
+ * Finished worker runs are charged to the spawning orchestrator's daily and
+ * per-batch totals; `sessions_spawn` refuses new workers once a limit is hit.
+ * Usage is only known after a run ends, so a batch can overshoot by whatever
+ * its in-flight workers consume.
+ */
+
+import type { SimpleClawConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveAgentIdFromSessionKey,
+  resolveStorePath,
+} from "../config/sessions.js";
+import type { OrchestratorBudgetConfig, OrchestratorSpendLimits } from "../config/types.agents.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
+import {
+  estimateUsageCost,
+  formatTokenCount,
+  formatUsd,
+  resolveModelCostConfig,
+} from "../utils/usage-format.js";
+import { resolveAgentConfig } from "./agent-scope.js";
+import { loadBudgetLedgerFromDisk, saveBudgetLedgerToDisk } from "./orchestrator-budget-store.js";
+
+const log = createSubsystemLogger("orchestrator-budget");
+
+const FAST_TEST_MODE = process.env.SIMPLECLAW_TEST_FAST === "1";
+/** Batch totals are dropped this long after their last charge. */
+const BATCH_LEDGER_RETENTION_MS = 48 * 60 * 60 * 1000;
+
+export type SpendTotals = {
+  tokens: number;
+  costUsd: number;
+};
+
+export type OrchestratorBudgetLedger = {
+  /** Keyed by orchestrator agent id; reset when the local day changes. */
+  daily: Record<string, SpendTotals & { day: string }>;
+  batches: Record<string, SpendTotals & { agentId: string; updatedAt: number }>;
+};
+
+let ledger: OrchestratorBudgetLedger = { daily: {}, batches: {} };
+let loaded = false;
+
+function ensureLoaded() {
+  if (loaded) {
+    return;
+  }
+  loaded = true;
+  ledger = loadBudgetLedgerFromDisk();
+}
+
+function persist() {
+  try {
+    saveBudgetLedgerToDisk(ledger);
+  } catch {
+    // Best-effort persistence; in-memory state is canonical at runtime.
+  }
+}
+
+function formatDayKey(now: number): string {
+  const date = new Date(now);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function hasLimits(limits: OrchestratorSpendLimits | undefined): boolean {
+  return typeof limits?.maxTokens === "number" || typeof limits?.maxCostUsd === "number";
+}
+
+/**
+ * Resolve the budget for an agent. Returns undefined unless the agent is an
+ * orchestrator with at least one limit configured.
+ */
+export function resolveOrchestratorBudget(
+  cfg: SimpleClawConfig,
+  agentId: string,
+): OrchestratorBudgetConfig | undefined {
+  const entry = resolveAgentConfig(cfg, agentId);
+  if (entry?.role !== "orchestrator") {
+    return undefined;
+  }
+  const budget = entry.orchestrator;
+  if (
+    typeof budget?.maxConcurrentWorkers !== "number" &&
+    !hasLimits(budget?.batch) &&
+    !hasLimits(budget?.daily)
+  ) {
+    return undefined;
+  }
+  return budget;
+}
+
+export function getDailySpend(agentId: string, now = Date.now()): SpendTotals {
+  ensureLoaded();
+  const entry = ledger.daily[agentId];
+  if (!entry || entry.day !== formatDayKey(now)) {
+    return { tokens: 0, costUsd: 0 };
+  }
+  return { tokens: entry.tokens, costUsd: entry.costUsd };
+}
+
+export function getBatchSpend(batchId: string): SpendTotals {
+  ensureLoaded();
+  const entry = ledger.batches[batchId];
+  return entry ? { tokens: entry.tokens, costUsd: entry.costUsd } : { tokens: 0, costUsd: 0 };
+}
+
+/** Charge a finished worker run to its orchestrator's daily and batch totals. */
+export function recordWorkerSpend(params: {
+  agentId: string;
+  batchId?: string;
+  tokens: number;
+  costUsd: number;
+  now?: number;
+}) {
+  ensureLoaded();
+  const now = params.now ?? Date.now();
+  const daily = getDailySpend(params.agentId, now);
+  ledger.daily[params.agentId] = {
+    day: formatDayKey(now),
+    tokens: daily.tokens + params.tokens,
+    costUsd: daily.costUsd + params.costUsd,
+  };
+  if (params.batchId) {
+    const batch = getBatchSpend(params.batchId);
+    ledger.batches[params.batchId] = {
+      agentId: params.agentId,
+      tokens: batch.tokens + params.tokens,
+      costUsd: batch.costUsd + params.costUsd,
+      updatedAt: now,
+    };
+  }
+  for (const [batchId, batch] of Object.entries(ledger.batches)) {
+    if (now - batch.updatedAt > BATCH_LEDGER_RETENTION_MS) {
+      delete ledger.batches[batchId];
+    }
+  }
+  persist();
+}
+
+/**
+ * Read a finished worker's usage from its session entry and charge it to the
+ * orchestrator that spawned it. No-op when the requester has no budget.
+ */
+export async function recordOrchestratorWorkerUsage(params: {
+  cfg: SimpleClawConfig;
+  requesterSessionKey: string;
+  childSessionKey: string;
+  batchId?: string;
+  startedAt?: number;
+}) {
+  const parsedAgentId = parseAgentSessionKey(params.requesterSessionKey)?.agentId;
+  const agentId = parsedAgentId ? normalizeAgentId(parsedAgentId) : undefined;
+  if (!agentId || !resolveOrchestratorBudget(params.cfg, agentId)) {
+    return;
+  }
+  const storePath = resolveStorePath(params.cfg.session?.store, {
+    agentId: resolveAgentIdFromSessionKey(params.childSessionKey),
+  });
+  // The session entry only carries the latest run's usage and may land
+  // slightly after the run ends; wait briefly for a fresh update.
+  const attempts = FAST_TEST_MODE ? 1 : 3;
+  let entry = loadSessionStore(storePath)[params.childSessionKey];
+  for (let attempt = 1; attempt < attempts; attempt += 1) {
+    const fresh =
+      typeof entry?.inputTokens === "number" &&
+      (typeof params.startedAt !== "number" || entry.updatedAt >= params.startedAt);
+    if (fresh) {
+      break;
+    }
+    await new Promise((resolve) => setTimeout(resolve, 150));
+    entry = loadSessionStore(storePath)[params.childSessionKey];
+  }
+  if (!entry) {
+    log.warn(`no session entry for worker ${params.childSessionKey}; usage not charged`);
+    return;
+  }
+  const usage = {
+    input: entry.inputTokens ?? 0,
+    output: entry.outputTokens ?? 0,
+    cacheRead: entry.cacheRead ?? 0,
+    cacheWrite: entry.cacheWrite ?? 0,
+  };
+  const cost = resolveModelCostConfig({
+    provider: entry.modelProvider,
+    model: entry.model,
+    config: params.cfg,
+  });
+  recordWorkerSpend({
+    agentId,
+    batchId: params.batchId,
+    tokens: usage.input + usage.output,
+    costUsd: estimateUsageCost({ usage, cost }) ?? 0,
+  });
+}
+
+function findExceededLimit(
+  spend: SpendTotals,
+  limits: OrchestratorSpendLimits | undefined,
+): string | undefined {
+  if (typeof limits?.maxTokens === "number" && spend.tokens >= limits.maxTokens) {
+    return `token limit reached (${formatTokenCount(spend.tokens)}/${formatTokenCount(limits.maxTokens)} tokens)`;
+  }
+  if (typeof limits?.maxCostUsd === "number" && spend.costUsd >= limits.maxCostUsd) {
+    return `cost limit reached (${formatUsd(spend.costUsd)}/${formatUsd(limits.maxCostUsd)})`;
+  }
+  return undefined;
+}
+
+/**
+ * Check whether an orchestrator may spawn another worker.
+ * Returns a tool-facing error message, or undefined when the spawn is allowed.
+ */
+export function checkOrchestratorSpawnBudget(params: {
+  budget: OrchestratorBudgetConfig;
+  agentId: string;
+  activeWorkers: number;
+  batchId?: string;
+  now?: number;
+}): string | undefined {
+  const { budget, agentId } = params;
+  if (
+    typeof budget.maxConcurrentWorkers === "number" &&
+    params.activeWorkers >= budget.maxConcurrentWorkers
+  ) {
+    return `Orchestrator "${agentId}" has reached its concurrent worker limit (${params.activeWorkers}/${budget.maxConcurrentWorkers}). Wait for running workers to finish before spawning more.`;
+  }
+  const daily = findExceededLimit(getDailySpend(agentId, params.now), budget.daily);
+  if (daily) {
+    return `Orchestrator "${agentId}" daily budget exhausted: ${daily} today. No more workers can be spawned until tomorrow.`;
+  }
+  if (params.batchId) {
+    const batch = findExceededLimit(getBatchSpend(params.batchId), budget.batch);
+    if (batch) {
+      return `Orchestrator "${agentId}" budget for batch ${params.batchId} exhausted: ${batch}. Aggregate the results you have instead of spawning more workers.`;
+    }
+  }
+  return undefined;
+}
+
+function formatRemaining(spend: SpendTotals, limits: OrchestratorSpendLimits | undefined) {
+  const parts: string[] = [];
+  if (typeof limits?.maxTokens === "number") {
+    parts.push(
+      `${formatTokenCount(Math.max(0, limits.maxTokens - spend.tokens))} of ${formatTokenCount(limits.maxTokens)} tokens left`,
+    );
+  }
+  if (typeof limits?.maxCostUsd === "number") {
+    parts.push(
+      `${formatUsd(Math.max(0, limits.maxCostUsd - spend.costUsd))} of ${formatUsd(limits.maxCostUsd)} left`,
+    );
+  }
+  return parts.join(", ");
+}
+
+/** Lines for the orchestrator system prompt describing the remaining budget. */
+export function describeOrchestratorBudget(params: {
+  budget: OrchestratorBudgetConfig;
+  agentId: string;
+  activeWorkers: number;
+  batches: Array<{ batchId: string; label?: string }>;
+  now?: number;
+}): string[] {
+  const { budget } = params;
+  const lines: string[] = [];
+  if (typeof budget.maxConcurrentWorkers === "number") {
+    lines.push(`- Workers running: ${params.activeWorkers}/${budget.maxConcurrentWorkers}`);
+  }
+  if (hasLimits(budget.daily)) {
+    lines.push(
+      `- Today: ${formatRemaining(getDailySpend(params.agentId, params.now), budget.daily)}`,
+    );
+  }
+  if (hasLimits(budget.batch)) {
+    if (params.batches.length === 0) {
+      lines.push(`- Per batch: ${formatRemaining({ tokens: 0, costUsd: 0 }, budget.batch)}`);
+    }
+    for (const batch of params.batches) {
+      const label = batch.label || batch.batchId.slice(0, 8);
+      lines.push(
+        `- Batch ${label}: ${formatRemaining(getBatchSpend(batch.batchId), budget.batch)}`,
+      );
+    }
+  }
+  return lines;
+}
+
+export function resetOrchestratorBudgetForTests(opts?: { loadFromDisk?: boolean }) {
+  ledger = { daily: {}, batches: {} };
+  loaded = opts?.loadFromDisk !== true; // prevent disk load in tests unless asked
+}
@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import type { SimpleClawConfig } from "../config/config.js";
+import { recordWorkerSpend, resetOrchestratorBudgetForTests } from "./orchestrator-budget.js";
 import {
   buildOrchestratorSystemPromptSection,
   resolveAgentRole,
@@ -11,6 +12,7 @@ import { markNamedAgentIdle, registerNamedAgent, resetRosterForTests } from "./s
 beforeEach(() => {
   resetRosterForTests();
   resetBatchesForTests();
+  resetOrchestratorBudgetForTests();
 });
 
 function makeConfig(agents: SimpleClawConfig["agents"]): SimpleClawConfig {
@@ -191,4 +193,35 @@ describe("buildOrchestratorSystemPromptSection", () => {
     expect(result).toContain("mine");
     expect(result).not.toContain("theirs");
   });
+
+  it("reports remaining budget when limits are configured", () => {
+    const cfg = makeConfig({
+      list: [
+        {
+          id: "main",
+          role: "orchestrator",
+          orchestrator: { maxConcurrentWorkers: 3, daily: { maxCostUsd: 2 } },
+        },
+      ],
+    });
+    recordWorkerSpend({ agentId: "main", tokens: 1000, costUsd: 0.5 });
+
+    const result = buildOrchestratorSystemPromptSection({
+      role: "orchestrator",
+      requesterSessionKey: "agent:main:main",
+      config: cfg,
+      agentId: "main",
+    });
+    expect(result).toContain("### Budget");
+    expect(result).toContain("- Workers running: 0/3");
+    expect(result).toContain("- Today: $1.50 of $2.00 left");
+
+    const unlimited = buildOrchestratorSystemPromptSection({
+      role: "orchestrator",
+      requesterSessionKey: "agent:main:main",
+      config: makeConfig({ list: [{ id: "main", role: "orchestrator" }] }),
+      agentId: "main",
+    });
+    expect(unlimited).not.toContain("### Budget");
+  });
 });
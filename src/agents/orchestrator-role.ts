@@ -1,14 +1,16 @@
 /**
  * Orchestrator / Worker agent role system.
  *
- * - `orchestrator`: auto-allows delegation tools, system prompt includes roster & batch status.
+ * - `orchestrator`: auto-allows delegation tools, system prompt includes roster, batch and budget status.
  * - `worker`: auto-denies delegation tools (sessions_spawn, subagents, wait).
  * - No role (undefined): current default behavior, no changes.
  */
 
 import type { SimpleClawConfig } from "../config/config.js";
 import { resolveAgentConfig } from "./agent-scope.js";
+import { describeOrchestratorBudget, resolveOrchestratorBudget } from "./orchestrator-budget.js";
 import { listBatches } from "./subagent-batch.js";
+import { countActiveRunsForAgent } from "./subagent-registry.js";
 import { listRoster } from "./subagent-roster.js";
 
 export type AgentRole = "orchestrator" | "worker";
@@ -48,12 +50,15 @@ export function resolveRoleToolPolicy(
 }
 
 /**
- * Build the orchestrator system prompt section with live roster and batch status.
- * Returns empty string for non-orchestrators.
+ * Build the orchestrator system prompt section with live roster, batch and
+ * remaining budget status. Returns empty string for non-orchestrators.
  */
 export function buildOrchestratorSystemPromptSection(params: {
   role: AgentRole | undefined;
   requesterSessionKey: string;
+  /** Needed for the budget section; omitted budgets are simply not shown. */
+  config?: SimpleClawConfig;
+  agentId?: string;
 }): string {
   if (params.role !== "orchestrator") {
     return "";
@@ -90,5 +95,26 @@ export function buildOrchestratorSystemPromptSection(params: {
     }
   }
 
+  // Remaining worker budget
+  const budget =
+    params.config && params.agentId
+      ? resolveOrchestratorBudget(params.config, params.agentId)
+      : undefined;
+  if (budget && params.agentId) {
+    lines.push("");
+    lines.push("### Budget");
+    lines.push(
+      ...describeOrchestratorBudget({
+        budget,
+        agentId: params.agentId,
+        activeWorkers: countActiveRunsForAgent(params.agentId),
+        batches,
+      }),
+    );
+    lines.push(
+      "When a limit is reached, sessions_spawn is refused; finish with the results you already have.",
+    );
+  }
+
   return lines.join("\n");
 }
@@ -11,6 +11,8 @@ export type ContextSnippet = {
   source: string;
   text: string;
   tokens: number;
+  /** Matching records behind the snippet (emails, messages). */
+  hits?: number;
 };
 
 /**
@@ -75,6 +77,7 @@ export async function queryGmailContext(params: {
     source: "gmail",
     text: `## Recent Email Context\n\n${text}`,
     tokens,
+    hits: snippets.length,
   };
 }
 
@@ -106,7 +109,8 @@ export function buildChannelHistoryContext(params: {
     return undefined;
   }
 
-  const lines = relevant.slice(-10).map((entry) => {
+  const recent = relevant.slice(-10);
+  const lines = recent.map((entry) => {
     const ts = entry.timestamp ? new Date(entry.timestamp).toISOString().slice(0, 16) : "";
     const sender = entry.sender ?? "unknown";
     const body = (entry.body ?? "").slice(0, 200);
@@ -121,5 +125,36 @@ export function buildChannelHistoryContext(params: {
     source: "channel-history",
     text: `## Recent Channel Context\n\n${text}`,
     tokens,
+    hits: recent.length,
   };
 }
+
+/**
+ * Extract inbound history entries from session messages.
+ * Looks for messages with role "user" that have sender/body metadata.
+ */
+export function extractInboundHistory(
+  messages: unknown[],
+): Array<{ sender?: string; body?: string; timestamp?: number }> {
+  const history: Array<{ sender?: string; body?: string; timestamp?: number }> = [];
+
+  for (const msg of messages) {
+    if (typeof msg !== "object" || msg === null) {
+      continue;
+    }
+    const m = msg as Record<string, unknown>;
+    if (m.role !== "user") {
+      continue;
+    }
+
+    const content = typeof m.content === "string" ? m.content : "";
+    const sender = typeof m.sender === "string" ? m.sender : undefined;
+    const timestamp = typeof m.timestamp === "number" ? m.timestamp : undefined;
+
+    if (content) {
+      history.push({ sender, body: content, timestamp });
+    }
+  }
+
+  return history;
+}
@@ -0,0 +1,298 @@
+/**
+ * Entity Alias Dictionary
+ *
+ * Maps nicknames and short names to canonical names and email addresses so
+ * passive context sources search for "Robert Smith <bob@example.com>" when the
+ * user writes "ask bob". Built from the People section of the workspace
+ * profile (USER.md) plus `passiveContext.entities.aliases` from config.
+ *
+ * Profile bullets look like:
+ *   - **Bob** (Robert Smith, bob@example.com) — colleague
+ *   - Elizabeth "Liz" Chen <liz@example.com> — sister
+ *   - Liz / Lizzie / Elizabeth Chen: sister
+ */
+
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { AgentPassiveContextEntitiesConfig } from "../../config/types.agent-defaults.js";
+import { DEFAULT_USER_FILENAME } from "../workspace.js";
+import type { ExtractedEntity } from "./entity-extractor.js";
+
+export type EntityAlias = {
+  name: string;
+  emails: string[];
+};
+
+export type EntityAliasDictionary = {
+  entries: EntityAlias[];
+  /** lowercased alias (including the canonical name) → entry */
+  byAlias: Map<string, EntityAlias>;
+};
+
+export type ParsedEntityAlias = {
+  entry: EntityAlias;
+  aliases: string[];
+};
+
+const PEOPLE_HEADING = /^(#{1,6})\s+(?:people|contacts)\b/i;
+const HEADING = /^(#{1,6})\s+/;
+const BULLET = /^\s*[-*+]\s+/;
+const EMAIL = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
+// Description separators: em/en dash, spaced hyphen, or a colon.
+const DESCRIPTION_SEPARATOR = /\s[—–-]\s|:\s/;
+const MAX_ALIAS_CHARS = 60;
+
+const profileCache = new Map<string, { mtimeMs: number; entries: ParsedEntityAlias[] }>();
+
+export function createEntityAliasDictionary(): EntityAliasDictionary {
+  return { entries: [], byAlias: new Map() };
+}
+
+function addAliases(dict: EntityAliasDictionary, entry: EntityAlias, aliases: string[]): void {
+  const key = entry.name.toLowerCase();
+  let target = dict.byAlias.get(key);
+  if (!target || target.name.toLowerCase() !== key) {
+    target = { name: entry.name, emails: [] };
+    dict.entries.push(target);
+    dict.byAlias.set(key, target);
+  }
+  for (const email of entry.emails) {
+    const normalized = email.toLowerCase();
+    if (!target.emails.includes(normalized)) {
+      target.emails.push(normalized);
+    }
+  }
+  for (const alias of aliases) {
+    const aliasKey = alias.trim().toLowerCase();
+    if (aliasKey && aliasKey !== key) {
+      dict.byAlias.set(aliasKey, target);
+    }
+  }
+}
+
+function cleanName(raw: string): string {
+  return raw
+    .replace(/^(?:aka|a\.k\.a\.)\s+/i, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+function isUsableName(value: string): boolean {
+  return value.length > 0 && value.length <= MAX_ALIAS_CHARS && /\p{L}/u.test(value);
+}
+
+/**
+ * Parse one People bullet into a canonical entry plus its aliases.
+ * The canonical name is the longest name (by word count) on the line.
+ */
+export function parseAliasLine(line: string): ParsedEntityAlias | null {
+  const text = line
+    .replace(BULLET, "")
+    .replace(/\*\*|__|`/g, "")
+    .trim();
+  if (!text || text.startsWith("_(")) {
+    return null;
+  }
+  const emails = Array.from(text.matchAll(EMAIL), (match) => match[0].toLowerCase());
+  let head = text.split(DESCRIPTION_SEPARATOR)[0] ?? "";
+  const extras: string[] = [];
+  head = head.replace(/\(([^)]*)\)/g, (_match, inner: string) => {
+    extras.push(...inner.split(/[,;/]/));
+    return " ";
+  });
+  head = head.replace(/["“”']([^"“”']+)["“”']/g, (_match, inner: string) => {
+    extras.push(inner);
+    return " ";
+  });
+  head = head.replace(/<[^>]*>/g, " ").replace(EMAIL, " ");
+
+  const names = [...head.split("/"), ...extras]
+    .map((part) => cleanName(part.replace(EMAIL, " ")))
+    .filter(isUsableName);
+  if (names.length === 0) {
+    return null;
+  }
+  const wordCount = (value: string) => value.split(" ").length;
+  const canonical = names.reduce((best, name) => (wordCount(name) > wordCount(best) ? name : best));
+  return {
+    entry: { name: canonical, emails },
+    aliases: names.filter((name) => name !== canonical),
+  };
+}
+
+/**
+ * Extract alias entries from the People (or Contacts) section of a markdown profile.
+ */
+export function parseProfileAliases(markdown: string): ParsedEntityAlias[] {
+  const parsedLines: ParsedEntityAlias[] = [];
+  let sectionLevel: number | null = null;
+  for (const line of markdown.split(/\r?\n/)) {
+    const heading = HEADING.exec(line);
+    if (heading) {
+      const people = PEOPLE_HEADING.exec(line);
+      if (people) {
+        sectionLevel = people[1].length;
+      } else if (sectionLevel !== null && heading[1].length <= sectionLevel) {
+        sectionLevel = null;
+      }
+      continue;
+    }
+    if (sectionLevel === null || !BULLET.test(line)) {
+      continue;
+    }
+    const parsed = parseAliasLine(line);
+    if (parsed) {
+      parsedLines.push(parsed);
+    }
+  }
+  return parsedLines;
+}
+
+/**
+ * Build the dictionary from the workspace profile and config aliases.
+ * The profile is re-read only when its mtime changes.
+ */
+export async function loadEntityAliasDictionary(params: {
+  workspaceDir?: string;
+  entitiesConfig?: AgentPassiveContextEntitiesConfig;
+}): Promise<EntityAliasDictionary> {
+  const dict = createEntityAliasDictionary();
+  if (params.workspaceDir) {
+    const profilePath = path.resolve(
+      params.workspaceDir,
+      params.entitiesConfig?.profileFile ?? DEFAULT_USER_FILENAME,
+    );
+    for (const parsed of await readProfileAliases(profilePath)) {
+      addAliases(dict, parsed.entry, parsed.aliases);
+    }
+  }
+
+  for (const [alias, target] of Object.entries(params.entitiesConfig?.aliases ?? {})) {
+    const entry =
+      typeof target === "string"
+        ? { name: target, emails: [] }
+        : { name: target.name, emails: target.emails ?? [] };
+    if (isUsableName(entry.name.trim())) {
+      addAliases(dict, { ...entry, name: entry.name.trim() }, [alias]);
+    }
+  }
+
+  addUniqueFirstNames(dict);
+  return dict;
+}
+
+async function readProfileAliases(profilePath: string): Promise<ParsedEntityAlias[]> {
+  try {
+    const stat = await fs.stat(profilePath);
+    const cached = profileCache.get(profilePath);
+    if (cached && cached.mtimeMs === stat.mtimeMs) {
+      return cached.entries;
+    }
+    const entries = parseProfileAliases(await fs.readFile(profilePath, "utf-8"));
+    profileCache.set(profilePath, { mtimeMs: stat.mtimeMs, entries });
+    return entries;
+  } catch {
+    profileCache.delete(profilePath);
+    return [];
+  }
+}
+
+/** "Robert Smith" also answers to "Robert" unless another entry shares the first name. */
+function addUniqueFirstNames(dict: EntityAliasDictionary): void {
+  const owners = new Map<string, EntityAlias[]>();
+  for (const entry of dict.entries) {
+    const parts = entry.name.split(" ");
+    if (parts.length < 2) {
+      continue;
+    }
+    const first = parts[0].toLowerCase();
+    owners.set(first, [...(owners.get(first) ?? []), entry]);
+  }
+  for (const [first, entries] of owners) {
+    if (entries.length === 1 && !dict.byAlias.has(first)) {
+      dict.byAlias.set(first, entries[0]);
+    }
+  }
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find dictionary aliases in free text, case-insensitively and on word
+ * boundaries in any script. Returns entries in order of first appearance.
+ */
+export function matchEntityAliases(text: string, dict: EntityAliasDictionary): EntityAlias[] {
+  const found: Array<{ index: number; entry: EntityAlias }> = [];
+  for (const [alias, entry] of dict.byAlias) {
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}_])${escapeRegExp(alias)}(?![\\p{L}\\p{N}_])`,
+      "iu",
+    );
+    const match = pattern.exec(text);
+    if (match) {
+      found.push({ index: match.index, entry });
+    }
+  }
+  const seen = new Set<EntityAlias>();
+  return found
+    .toSorted((a, b) => a.index - b.index)
+    .flatMap(({ entry }) => {
+      if (seen.has(entry)) {
+        return [];
+      }
+      seen.add(entry);
+      return [entry];
+    });
+}
+
+/**
+ * Replace nicknames with canonical names, add known emails, and merge in
+ * aliases found directly in the prompt. Dictionary hits come first.
+ */
+export function resolveEntityAliases(params: {
+  text: string;
+  entities: ExtractedEntity[];
+  dict: EntityAliasDictionary;
+}): ExtractedEntity[] {
+  const { dict } = params;
+  const resolved: ExtractedEntity[] = [];
+  const seen = new Set<string>();
+  const push = (entity: ExtractedEntity) => {
+    const key = `${entity.type}:${entity.value.toLowerCase()}`;
+    if (!seen.has(key)) {
+      seen.add(key);
+      resolved.push(entity);
+    }
+  };
+  const pushEntry = (entry: EntityAlias) => {
+    push({ type: "name", value: entry.name });
+    for (const email of entry.emails) {
+      push({ type: "email", value: email });
+    }
+  };
+
+  for (const entry of matchEntityAliases(params.text, dict)) {
+    pushEntry(entry);
+  }
+  for (const entity of params.entities) {
+    const entry =
+      entity.type === "email"
+        ? dict.entries.find((candidate) => candidate.emails.includes(entity.value.toLowerCase()))
+        : dict.byAlias.get(entity.value.toLowerCase());
+    if (entry) {
+      pushEntry(entry);
+      if (entity.type === "email") {
+        push(entity);
+      }
+    } else {
+      push(entity);
+    }
+  }
+  return resolved;
+}
+
+export function resetEntityAliasCacheForTest(): void {
+  profileCache.clear();
+}
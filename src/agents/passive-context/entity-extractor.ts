@@ -9,7 +9,8 @@ export type ExtractedEntity = {
 };
 
 const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/g;
-const MENTION_PATTERN = /@([\w.-]+)/g;
+// Skip the "@domain" half of email addresses.
+const MENTION_PATTERN = /(?<![\w.+-])@([\w.-]+)/g;
 // Capitalized multi-word names (e.g., "Alice Smith", "John")
 const NAME_PATTERN = /\b([A-Z][a-z]+(?:\s+[A-Z][a-z]+)*)\b/g;
 
@@ -52,11 +53,26 @@ const NAME_STOPWORDS = new Set([
   "Bad",
 ]);
 
+/**
+ * True when the match starts the text or follows sentence-ending punctuation,
+ * where capitalization says nothing about whether the word is a name.
+ */
+function isSentenceInitial(text: string, index: number): boolean {
+  const before = text.slice(0, index).trimEnd();
+  return before.length === 0 || /[.!?]["')\]]*$/.test(before);
+}
+
 /**
  * Extract entities (emails, mentions, names) from a message string.
  * Returns deduplicated entities ordered by type priority (email > mention > name).
+ * With `skipSentenceInitial`, the capitalized word that opens a sentence
+ * ("Can", "Remind") is not treated as a name; callers then rely on an alias
+ * dictionary or model to catch names in that position.
  */
-export function extractEntities(text: string): ExtractedEntity[] {
+export function extractEntities(
+  text: string,
+  opts: { skipSentenceInitial?: boolean } = {},
+): ExtractedEntity[] {
   const seen = new Set<string>();
   const entities: ExtractedEntity[] = [];
 
@@ -80,7 +96,15 @@ export function extractEntities(text: string): ExtractedEntity[] {
 
   // Extract capitalized names (simple heuristic)
   for (const match of text.matchAll(NAME_PATTERN)) {
-    const name = match[1];
+    let name = match[1];
+    if (opts.skipSentenceInitial && isSentenceInitial(text, match.index)) {
+      // "Ask Bob Smith" → "Bob Smith"; a lone "Ask" is dropped.
+      const rest = name.indexOf(" ");
+      if (rest === -1) {
+        continue;
+      }
+      name = name.slice(rest).trim();
+    }
     if (!NAME_STOPWORDS.has(name) && !seen.has(name.toLowerCase())) {
       seen.add(name.toLowerCase());
       entities.push({ type: "name", value: name });
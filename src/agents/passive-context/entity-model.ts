@@ -0,0 +1,123 @@
+/**
+ * Model-based Entity Extraction
+ *
+ * Asks a small model which people the user's message refers to. Catches what
+ * the capitalized-word patterns miss: lowercase names, nicknames, and names in
+ * other scripts. Known aliases from the profile are passed along so the model
+ * can map nicknames to the names it already knows.
+ */
+
+import type { SimpleClawConfig } from "../../config/config.js";
+import type { AgentPassiveContextEntitiesConfig } from "../../config/types.agent-defaults.js";
+import { createOneShotComplete, type OneShotCompleteFn } from "../one-shot-completion.js";
+import type { EntityAliasDictionary } from "./entity-aliases.js";
+import type { ExtractedEntity } from "./entity-extractor.js";
+
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_PROMPT_CHARS = 4000;
+const MAX_KNOWN_PEOPLE = 50;
+const MAX_ENTITIES = 10;
+const ENTITY_TYPES = new Set<ExtractedEntity["type"]>(["email", "mention", "name"]);
+
+/** Sends a prompt to the extraction model and returns its text reply. */
+export type EntityModelCompleteFn = OneShotCompleteFn;
+
+export type EntityModelExtractor = {
+  /** `scope` names the run the message belongs to; the call is charged to its usage budgets. */
+  extract(
+    text: string,
+    dict?: EntityAliasDictionary,
+    scope?: { agentId?: string; sessionKey?: string },
+  ): Promise<ExtractedEntity[]>;
+};
+
+export function buildEntityExtractionPrompt(text: string, dict?: EntityAliasDictionary): string {
+  const message = text.length > MAX_PROMPT_CHARS ? `${text.slice(0, MAX_PROMPT_CHARS)}…` : text;
+  const known = (dict?.entries ?? []).slice(0, MAX_KNOWN_PEOPLE).map((entry) => {
+    const aliases = Array.from(dict?.byAlias ?? [])
+      .filter(([alias, target]) => target === entry && alias !== entry.name.toLowerCase())
+      .map(([alias]) => alias);
+    return aliases.length > 0 ? `${entry.name} (${aliases.join(", ")})` : entry.name;
+  });
+  return (
+    `List the people the user's message refers to, so related emails and chats can be looked up.\n` +
+    `Include lowercase names, nicknames, and names in any language. ` +
+    `Ignore ordinary words, places, products, and the assistant itself.\n` +
+    (known.length > 0
+      ? `Known people (canonical name, then nicknames): ${known.join("; ")}\n` +
+        `When a nickname matches a known person, return the canonical name.\n`
+      : "") +
+    `Message: ${JSON.stringify(message)}\n\n` +
+    `Reply with JSON only: {"entities": [{"type": "name" | "email" | "mention", "value": "..."}]}. ` +
+    `Use an empty list when nobody is mentioned.`
+  );
+}
+
+export function parseEntityModelReply(text: string): ExtractedEntity[] {
+  const start = text.indexOf("{");
+  const end = text.lastIndexOf("}");
+  if (start === -1 || end <= start) {
+    throw new Error("entity model reply has no JSON object");
+  }
+  const parsed = JSON.parse(text.slice(start, end + 1)) as { entities?: unknown };
+  if (!Array.isArray(parsed.entities)) {
+    throw new Error("entity model reply has no entities list");
+  }
+  const entities: ExtractedEntity[] = [];
+  for (const raw of parsed.entities) {
+    if (!raw || typeof raw !== "object") {
+      continue;
+    }
+    const { type, value } = raw as { type?: unknown; value?: unknown };
+    if (
+      typeof type !== "string" ||
+      !ENTITY_TYPES.has(type as ExtractedEntity["type"]) ||
+      typeof value !== "string" ||
+      !value.trim()
+    ) {
+      continue;
+    }
+    const normalized =
+      type === "name" ? value.trim() : value.trim().replace(/^@/, "").toLowerCase();
+    entities.push({ type: type as ExtractedEntity["type"], value: normalized });
+  }
+  return entities.slice(0, MAX_ENTITIES);
+}
+
+export function createEntityModelExtractor(params: {
+  cfg?: SimpleClawConfig;
+  entitiesConfig: AgentPassiveContextEntitiesConfig;
+  complete?: EntityModelCompleteFn;
+}): EntityModelExtractor {
+  const complete =
+    params.complete ??
+    createOneShotComplete({
+      cfg: params.cfg,
+      model: params.entitiesConfig.model,
+      maxTokens: 256,
+      label: "entity",
+    });
+  const timeoutMs = params.entitiesConfig.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  return {
+    async extract(text, dict, scope) {
+      const controller = new AbortController();
+      const timer = setTimeout(() => controller.abort(), timeoutMs);
+      try {
+        const reply = await complete(buildEntityExtractionPrompt(text, dict), {
+          signal: controller.signal,
+          agentId: scope?.agentId,
+          sessionKey: scope?.sessionKey,
+        });
+        return parseEntityModelReply(reply);
+      } catch (err) {
+        if (controller.signal.aborted) {
+          throw new Error(`entity model timed out after ${timeoutMs}ms`, { cause: err });
+        }
+        throw err;
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
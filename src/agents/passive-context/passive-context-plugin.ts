@@ -2,12 +2,15 @@
  * Passive Context Plugin
  *
  * Registers a `before_prompt_build` hook that injects ambient context
- * (recent emails, channel history) into the agent's prompt based on
- * entity mentions in the current message.
+ * (recent emails, channel history, plugin sources) into the agent's prompt
+ * based on entity mentions in the current message.
  */
 
 import type { SimpleClawConfig } from "../../config/config.js";
-import type { AgentPassiveContextConfig } from "../../config/types.agent-defaults.js";
+import type {
+  AgentPassiveContextConfig,
+  AgentPassiveContextEntitiesConfig,
+} from "../../config/types.agent-defaults.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import type { PluginRegistry } from "../../plugins/registry.js";
 import type {
@@ -16,9 +19,12 @@ import type {
   PluginHookBeforePromptBuildResult,
   PluginHookRegistration,
 } from "../../plugins/types.js";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agent-scope.js";
 import { createContextBudget } from "./context-budget.js";
-import { buildChannelHistoryContext, queryGmailContext } from "./context-sources.js";
-import { extractEntities } from "./entity-extractor.js";
+import { loadEntityAliasDictionary, resolveEntityAliases } from "./entity-aliases.js";
+import { type ExtractedEntity, extractEntities } from "./entity-extractor.js";
+import { createEntityModelExtractor, type EntityModelExtractor } from "./entity-model.js";
+import { listPassiveContextSources, runPassiveContextSources } from "./source-registry.js";
 
 const log = createSubsystemLogger("passive-context");
 
@@ -35,6 +41,58 @@ export function resolvePassiveContextConfig(
   return pc;
 }
 
+/**
+ * Extract the entities sources are queried with.
+ *
+ * - `pattern` (default): capitalized words, emails and @mentions.
+ * - `profile`: pattern extraction without sentence-initial words, plus the
+ *   alias dictionary from the workspace profile and config, which maps
+ *   nicknames (in any case or script) to canonical names and emails.
+ * - `model`: a small model extracts names, then the alias dictionary resolves
+ *   them; falls back to `profile` when the model fails or times out.
+ */
+export async function resolvePromptEntities(params: {
+  prompt: string;
+  config?: SimpleClawConfig;
+  entitiesConfig?: AgentPassiveContextEntitiesConfig;
+  workspaceDir?: string;
+  agentId?: string;
+  sessionKey?: string;
+  modelExtractor?: EntityModelExtractor;
+}): Promise<ExtractedEntity[]> {
+  const { prompt, entitiesConfig } = params;
+  const mode = entitiesConfig?.mode ?? "pattern";
+  if (mode === "pattern") {
+    return extractEntities(prompt);
+  }
+
+  const workspaceDir =
+    params.workspaceDir ??
+    (params.config
+      ? resolveAgentWorkspaceDir(
+          params.config,
+          params.agentId ?? resolveDefaultAgentId(params.config),
+        )
+      : undefined);
+  const dict = await loadEntityAliasDictionary({ workspaceDir, entitiesConfig });
+  const patternEntities = extractEntities(prompt, { skipSentenceInitial: true });
+
+  let entities = patternEntities;
+  if (mode === "model" && params.modelExtractor) {
+    try {
+      const modelEntities = await params.modelExtractor.extract(prompt, dict, {
+        agentId: params.agentId,
+        sessionKey: params.sessionKey,
+      });
+      // Keep literal emails and mentions from the text; the model owns names.
+      entities = [...patternEntities.filter((entity) => entity.type !== "name"), ...modelEntities];
+    } catch (err) {
+      log.warn(`entity model failed; using profile extraction: ${String(err)}`);
+    }
+  }
+  return resolveEntityAliases({ text: prompt, entities, dict });
+}
+
 /**
  * Register the passive context `before_prompt_build` hook on the given plugin registry.
  * Called once during plugin loading.
@@ -51,46 +109,42 @@ export function registerPassiveContextHook(
 
   log.info("registering passive context before_prompt_build hook");
 
+  const entitiesConfig = pcConfig.entities;
+  const modelExtractor =
+    entitiesConfig?.mode === "model"
+      ? createEntityModelExtractor({ cfg: config, entitiesConfig })
+      : undefined;
+
   const handler = async (
     event: PluginHookBeforePromptBuildEvent,
-    _ctx: PluginHookAgentContext,
+    ctx: PluginHookAgentContext,
   ): Promise<PluginHookBeforePromptBuildResult | void> => {
     try {
-      const entities = extractEntities(event.prompt);
+      const entities = await resolvePromptEntities({
+        prompt: event.prompt,
+        config,
+        entitiesConfig,
+        workspaceDir: ctx.workspaceDir,
+        agentId: ctx.agentId,
+        sessionKey: ctx.sessionKey,
+        modelExtractor,
+      });
       if (entities.length === 0) {
         return;
       }
 
       const budget = createContextBudget(pcConfig.totalMaxTokens);
-      const snippets: string[] = [];
-
-      // Query Gmail if enabled
-      if (pcConfig.sources?.gmail?.enabled) {
-        const gmailResult = await queryGmailContext({
-          entities,
-          maxTokens: pcConfig.sources.gmail.maxTokens ?? 2000,
-          lookbackDays: pcConfig.sources.gmail.lookbackDays ?? 30,
-          budget,
-        });
-        if (gmailResult) {
-          snippets.push(gmailResult.text);
-        }
-      }
-
-      // Build channel history context if enabled
-      if (pcConfig.sources?.channelHistory?.enabled) {
-        // Channel history from session messages (extract from event.messages)
-        const history = extractInboundHistory(event.messages);
-        const channelResult = buildChannelHistoryContext({
-          inboundHistory: history,
-          entities,
-          maxTokens: pcConfig.sources.channelHistory.maxTokens ?? 1000,
-          budget,
-        });
-        if (channelResult) {
-          snippets.push(channelResult.text);
-        }
-      }
+      const runs = await runPassiveContextSources({
+        sources: listPassiveContextSources(registry),
+        pcConfig,
+        config,
+        prompt: event.prompt,
+        messages: event.messages,
+        entities,
+        budget,
+        ctx,
+      });
+      const snippets = runs.flatMap((run) => (run.text ? [run.text] : []));
 
       if (snippets.length === 0) {
         return;
@@ -114,33 +168,3 @@ export function registerPassiveContextHook(
     source: "builtin",
   } as PluginHookRegistration);
 }
-
-/**
- * Extract inbound history entries from session messages.
- * Looks for messages with role "user" that have sender/body metadata.
- */
-function extractInboundHistory(
-  messages: unknown[],
-): Array<{ sender?: string; body?: string; timestamp?: number }> {
-  const history: Array<{ sender?: string; body?: string; timestamp?: number }> = [];
-
-  for (const msg of messages) {
-    if (typeof msg !== "object" || msg === null) {
-      continue;
-    }
-    const m = msg as Record<string, unknown>;
-    if (m.role !== "user") {
-      continue;
-    }
-
-    const content = typeof m.content === "string" ? m.content : "";
-    const sender = typeof m.sender === "string" ? m.sender : undefined;
-    const timestamp = typeof m.timestamp === "number" ? m.timestamp : undefined;
-
-    if (content) {
-      history.push({ sender, body: content, timestamp });
-    }
-  }
-
-  return history;
-}
@@ -1,13 +1,31 @@
-import { describe, expect, it, vi } from "vitest";
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 import type { SimpleClawConfig } from "../../config/config.js";
-import type { PluginRegistry } from "../../plugins/registry.js";
+import {
+  type DiagnosticEventPayload,
+  onDiagnosticEvent,
+  resetDiagnosticEventsForTest,
+} from "../../infra/diagnostic-events.js";
+import { createPluginRegistry, type PluginRegistry } from "../../plugins/registry.js";
+import type { PluginRuntime } from "../../plugins/runtime/types.js";
+import type { SimpleClawPluginPassiveContextSource } from "../../plugins/types.js";
 import { createContextBudget, truncateToTokenBudget, consumeBudget } from "./context-budget.js";
 import { buildChannelHistoryContext } from "./context-sources.js";
+import {
+  loadEntityAliasDictionary,
+  parseProfileAliases,
+  resetEntityAliasCacheForTest,
+} from "./entity-aliases.js";
 import { extractEntities, buildSearchQueries } from "./entity-extractor.js";
+import { createEntityModelExtractor, parseEntityModelReply } from "./entity-model.js";
 import {
   registerPassiveContextHook,
   resolvePassiveContextConfig,
+  resolvePromptEntities,
 } from "./passive-context-plugin.js";
+import { listPassiveContextSources, runPassiveContextSources } from "./source-registry.js";
 
 // Mock the gwsc CLI for Gmail queries
 vi.mock("node:child_process", () => ({
@@ -60,6 +78,13 @@ describe("entity-extractor", () => {
       const nameIdx = types.indexOf("name");
       expect(mentionIdx).toBeLessThan(nameIdx);
     });
+
+    it("skips sentence-initial words when asked", () => {
+      const entities = extractEntities("Can you ask Bob? Remind Alice Smith later.", {
+        skipSentenceInitial: true,
+      });
+      expect(entities.map((e) => e.value)).toEqual(["Bob", "Alice Smith"]);
+    });
   });
 
   describe("buildSearchQueries", () => {
@@ -241,6 +266,8 @@ describe("passive-context-plugin", () => {
         typedHooks: [],
         channels: [],
         providers: [],
+        memoryBackends: [],
+        passiveContextSources: [],
         gatewayHandlers: {},
         httpHandlers: [],
         httpRoutes: [],
@@ -298,3 +325,294 @@ describe("passive-context-plugin", () => {
     });
   });
 });
+
+describe("passive context source registry", () => {
+  const entities = extractEntities("Lunch with Alice Smith?");
+  const pluginSource = (
+    id: string,
+    query: SimpleClawPluginPassiveContextSource["query"],
+  ): { source: SimpleClawPluginPassiveContextSource; pluginId: string } => ({
+    source: { id, query },
+    pluginId: "test-plugin",
+  });
+  let events: DiagnosticEventPayload[];
+  let unsubscribe: () => void;
+
+  beforeEach(() => {
+    resetDiagnosticEventsForTest();
+    events = [];
+    unsubscribe = onDiagnosticEvent((evt) => events.push(evt));
+  });
+
+  afterEach(() => {
+    unsubscribe();
+  });
+
+  it("passes entities and a budget slice to enabled sources only", async () => {
+    const contacts = vi.fn(() => ({ text: "## Contacts\n\nAlice Smith — alice@example.com" }));
+    const calendar = vi.fn(() => "## Calendar\n\nnothing");
+    const runs = await runPassiveContextSources({
+      sources: [pluginSource("contacts", contacts), pluginSource("calendar", calendar)],
+      pcConfig: { sources: { contacts: { enabled: true, maxTokens: 50 } } },
+      prompt: "Lunch with Alice Smith?",
+      messages: [],
+      entities,
+      budget: createContextBudget(500),
+      ctx: { sessionKey: "agent:main:main" },
+    });
+
+    expect(calendar).not.toHaveBeenCalled();
+    expect(contacts).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entities,
+        budget: { totalMaxTokens: 50, remaining: 50 },
+        sourceConfig: { enabled: true, maxTokens: 50 },
+        sessionKey: "agent:main:main",
+      }),
+    );
+    expect(runs).toEqual([
+      expect.objectContaining({
+        sourceId: "contacts",
+        outcome: "hit",
+        hits: 1,
+        pluginId: "test-plugin",
+      }),
+    ]);
+  });
+
+  it("merges results in order until the shared budget runs out", async () => {
+    const budget = createContextBudget(30);
+    const runs = await runPassiveContextSources({
+      sources: [
+        pluginSource("first", () => "a".repeat(80)),
+        pluginSource("second", () => "b".repeat(400)),
+        pluginSource("third", () => "c".repeat(40)),
+      ],
+      pcConfig: {
+        sources: { first: { enabled: true }, second: { enabled: true }, third: { enabled: true } },
+      },
+      prompt: "",
+      messages: [],
+      entities,
+      budget,
+      ctx: {},
+    });
+
+    expect(runs.map((run) => run.tokens)).toEqual([20, expect.any(Number), 0]);
+    expect(runs[1]?.text).toContain("(truncated)");
+    expect(runs[2]?.text).toBeUndefined();
+    expect(budget.remaining).toBe(0);
+  });
+
+  it("reports errors and timeouts without dropping other sources", async () => {
+    const runs = await runPassiveContextSources({
+      sources: [
+        pluginSource("broken", () => {
+          throw new Error("boom");
+        }),
+        pluginSource("slow", () => new Promise<string>(() => {})),
+        pluginSource("ok", () => ({ text: "## OK", hits: 3 })),
+      ],
+      pcConfig: {
+        sources: {
+          broken: { enabled: true },
+          slow: { enabled: true, timeoutMs: 5 },
+          ok: { enabled: true },
+        },
+      },
+      prompt: "",
+      messages: [],
+      entities,
+      budget: createContextBudget(),
+      ctx: { agentId: "main" },
+    });
+
+    expect(runs.map((run) => run.outcome)).toEqual(["error", "timeout", "hit"]);
+    expect(runs[0]?.error).toContain("boom");
+    expect(events).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ type: "context.source", sourceId: "broken", outcome: "error" }),
+        expect.objectContaining({ type: "context.source", sourceId: "slow", outcome: "timeout" }),
+        expect.objectContaining({
+          type: "context.source",
+          sourceId: "ok",
+          hits: 3,
+          agentId: "main",
+        }),
+      ]),
+    );
+  });
+
+  it("lets plugins register sources and runs them from the hook", async () => {
+    const { registry, createApi } = createPluginRegistry({
+      logger: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      runtime: {} as PluginRuntime,
+    });
+    const record = {
+      id: "contacts-plugin",
+      name: "Contacts",
+      source: "/tmp/contacts.ts",
+      origin: "config",
+      enabled: true,
+      status: "loaded",
+      toolNames: [],
+      hookNames: [],
+      channelIds: [],
+      providerIds: [],
+      memoryBackendIds: [],
+      passiveContextSourceIds: [],
+      gatewayMethods: [],
+      cliCommands: [],
+      services: [],
+      commands: [],
+      httpHandlers: 0,
+      hookCount: 0,
+      configSchema: false,
+    } satisfies PluginRegistry["plugins"][number];
+    const api = createApi(record, { config: {} });
+    api.registerPassiveContextSource({
+      id: "contacts",
+      query: ({ entities: found }) => `## Contacts\n\n${found.map((e) => e.value).join(", ")}`,
+    });
+    api.registerPassiveContextSource({ id: "gmail", query: () => undefined });
+
+    expect(record.passiveContextSourceIds).toEqual(["contacts"]);
+    expect(registry.diagnostics).toEqual([
+      expect.objectContaining({
+        level: "error",
+        message: "passive context source id is reserved: gmail",
+      }),
+    ]);
+    expect(listPassiveContextSources(registry).map((entry) => entry.source.id)).toEqual([
+      "gmail",
+      "channelHistory",
+      "contacts",
+    ]);
+
+    registerPassiveContextHook(registry, {
+      agents: {
+        defaults: { passiveContext: { enabled: true, sources: { contacts: { enabled: true } } } },
+      },
+    } as SimpleClawConfig);
+    const hook = registry.typedHooks[0];
+    const result = await (hook.handler as Function)(
+      { prompt: "ping Alice Smith", messages: [] },
+      {},
+    );
+    expect(result).toEqual({ prependContext: "## Contacts\n\nAlice Smith" });
+  });
+});
+
+describe("entity alias dictionary", () => {
+  const profile = [
+    "# USER.md",
+    "",
+    "## People & Relationships",
+    "",
+    "- **Bob** (Robert Smith, bob@example.com) — colleague",
+    '- Elizabeth "Liz" Chen <liz@example.com> — sister',
+    "- Jürgen / Jürgen Weiß: landlord",
+    "",
+    "## Work",
+    "",
+    "- Not A Person (ignored) — outside the People section",
+  ].join("\n");
+  let workspaceDir: string;
+
+  beforeEach(async () => {
+    resetEntityAliasCacheForTest();
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-aliases-"));
+    await fs.writeFile(path.join(workspaceDir, "USER.md"), profile);
+  });
+
+  afterEach(async () => {
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("parses People bullets into canonical names, aliases and emails", () => {
+    expect(parseProfileAliases(profile)).toEqual([
+      { entry: { name: "Robert Smith", emails: ["bob@example.com"] }, aliases: ["Bob"] },
+      { entry: { name: "Elizabeth Chen", emails: ["liz@example.com"] }, aliases: ["Liz"] },
+      { entry: { name: "Jürgen Weiß", emails: [] }, aliases: ["Jürgen"] },
+    ]);
+  });
+
+  it("resolves lowercase names and nicknames in profile mode", async () => {
+    const entities = await resolvePromptEntities({
+      prompt: "Can you ask bob whether liz replied to jürgen?",
+      entitiesConfig: { mode: "profile", aliases: { ace: { name: "Ann Cole" } } },
+      workspaceDir,
+    });
+    expect(entities).toEqual([
+      { type: "name", value: "Robert Smith" },
+      { type: "email", value: "bob@example.com" },
+      { type: "name", value: "Elizabeth Chen" },
+      { type: "email", value: "liz@example.com" },
+      { type: "name", value: "Jürgen Weiß" },
+    ]);
+  });
+
+  it("merges config aliases and adds unique first names", async () => {
+    const dict = await loadEntityAliasDictionary({
+      workspaceDir,
+      entitiesConfig: { aliases: { ace: { name: "Ann Cole", emails: ["ann@example.com"] } } },
+    });
+    expect(dict.byAlias.get("ace")).toEqual({ name: "Ann Cole", emails: ["ann@example.com"] });
+    expect(dict.byAlias.get("robert")?.name).toBe("Robert Smith");
+    expect(dict.byAlias.get("ann")?.name).toBe("Ann Cole");
+  });
+
+  it("keeps pattern mode unchanged by default", async () => {
+    const entities = await resolvePromptEntities({ prompt: "Can you ask bob?", workspaceDir });
+    expect(entities).toEqual([{ type: "name", value: "Can" }]);
+  });
+
+  it("uses the model in model mode and resolves its names", async () => {
+    const complete = vi.fn(async (prompt: string) => {
+      expect(prompt).toContain("Robert Smith (bob, bobby, robert)");
+      return 'Sure: {"entities": [{"type": "name", "value": "Bobby"}, {"type": "name", "value": "mei"}]}';
+    });
+    const entities = await resolvePromptEntities({
+      prompt: "lunch with bobby and mei, cc carol@example.com",
+      entitiesConfig: { mode: "model", aliases: { bobby: "Robert Smith" } },
+      workspaceDir,
+      modelExtractor: createEntityModelExtractor({
+        entitiesConfig: { mode: "model" },
+        complete,
+      }),
+    });
+    expect(complete).toHaveBeenCalledOnce();
+    expect(entities).toEqual([
+      { type: "name", value: "Robert Smith" },
+      { type: "email", value: "bob@example.com" },
+      { type: "email", value: "carol@example.com" },
+      { type: "name", value: "mei" },
+    ]);
+  });
+
+  it("falls back to profile extraction when the model fails", async () => {
+    const entities = await resolvePromptEntities({
+      prompt: "ping liz",
+      entitiesConfig: { mode: "model" },
+      workspaceDir,
+      modelExtractor: createEntityModelExtractor({
+        entitiesConfig: { mode: "model", timeoutMs: 10 },
+        complete: (_prompt, { signal }) =>
+          new Promise((_resolve, reject) => {
+            signal.addEventListener("abort", () => reject(new Error("aborted")));
+          }),
+      }),
+    });
+    expect(entities).toEqual([
+      { type: "name", value: "Elizabeth Chen" },
+      { type: "email", value: "liz@example.com" },
+    ]);
+  });
+
+  it("rejects model replies without an entities list", () => {
+    expect(() => parseEntityModelReply("no idea")).toThrow("no JSON object");
+    expect(
+      parseEntityModelReply('{"entities": [{"type": "mention", "value": "@Bob"}, 3]}'),
+    ).toEqual([{ type: "mention", value: "bob" }]);
+  });
+});
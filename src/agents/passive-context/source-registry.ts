@@ -0,0 +1,245 @@
+/**
+ * Passive Context Sources
+ *
+ * Built-in sources (Gmail, channel history) plus any registered by plugins via
+ * `api.registerPassiveContextSource`. Enabled sources run in parallel, each
+ * against its own slice of the budget; results are then merged in registry
+ * order until the shared budget runs out.
+ */
+
+import type { SimpleClawConfig } from "../../config/config.js";
+import type {
+  AgentPassiveContextConfig,
+  AgentPassiveContextSourceConfig,
+} from "../../config/types.agent-defaults.js";
+import { logContextSource } from "../../logging/diagnostic.js";
+import type { PluginRegistry } from "../../plugins/registry.js";
+import type {
+  PluginHookAgentContext,
+  SimpleClawPluginPassiveContextResult,
+  SimpleClawPluginPassiveContextSource,
+} from "../../plugins/types.js";
+import {
+  consumeBudget,
+  type ContextBudget,
+  createContextBudget,
+  truncateToTokenBudget,
+} from "./context-budget.js";
+import {
+  buildChannelHistoryContext,
+  extractInboundHistory,
+  queryGmailContext,
+} from "./context-sources.js";
+import type { ExtractedEntity } from "./entity-extractor.js";
+
+const DEFAULT_SOURCE_MAX_TOKENS = 1000;
+const DEFAULT_SOURCE_TIMEOUT_MS = 10_000;
+
+export type PassiveContextSourceEntry = {
+  source: SimpleClawPluginPassiveContextSource;
+  /** Unset for built-in sources. */
+  pluginId?: string;
+};
+
+export type PassiveContextSourceOutcome = "hit" | "miss" | "error" | "timeout";
+
+export type PassiveContextSourceRun = {
+  sourceId: string;
+  pluginId?: string;
+  outcome: PassiveContextSourceOutcome;
+  durationMs: number;
+  hits: number;
+  /** Tokens actually injected after merging into the shared budget. */
+  tokens: number;
+  text?: string;
+  error?: string;
+};
+
+export const BUILTIN_PASSIVE_CONTEXT_SOURCES: SimpleClawPluginPassiveContextSource[] = [
+  {
+    id: "gmail",
+    label: "Gmail",
+    defaultMaxTokens: 2000,
+    query: async ({ entities, budget, sourceConfig }) => {
+      const lookbackDays =
+        typeof sourceConfig.lookbackDays === "number" ? sourceConfig.lookbackDays : 30;
+      return await queryGmailContext({
+        entities,
+        maxTokens: budget.totalMaxTokens,
+        lookbackDays,
+        budget,
+      });
+    },
+  },
+  {
+    id: "channelHistory",
+    label: "Channel history",
+    defaultMaxTokens: 1000,
+    query: ({ entities, budget, messages }) =>
+      buildChannelHistoryContext({
+        inboundHistory: extractInboundHistory(messages),
+        entities,
+        maxTokens: budget.totalMaxTokens,
+        budget,
+      }),
+  },
+];
+
+/**
+ * Built-in sources followed by plugin sources, in registration order.
+ */
+export function listPassiveContextSources(registry?: PluginRegistry): PassiveContextSourceEntry[] {
+  return [
+    ...BUILTIN_PASSIVE_CONTEXT_SOURCES.map((source) => ({ source })),
+    ...(registry?.passiveContextSources ?? []).map((entry) => ({
+      source: entry.source,
+      pluginId: entry.pluginId,
+    })),
+  ];
+}
+
+function normalizeResult(
+  result: SimpleClawPluginPassiveContextResult | string | undefined,
+): SimpleClawPluginPassiveContextResult | undefined {
+  if (typeof result === "string") {
+    return result.trim() ? { text: result } : undefined;
+  }
+  if (!result || typeof result.text !== "string" || !result.text.trim()) {
+    return undefined;
+  }
+  return result;
+}
+
+async function runSource(params: {
+  entry: PassiveContextSourceEntry;
+  sourceConfig: AgentPassiveContextSourceConfig;
+  slice: ContextBudget;
+  query: Omit<
+    Parameters<SimpleClawPluginPassiveContextSource["query"]>[0],
+    "sourceConfig" | "budget" | "signal"
+  >;
+}): Promise<Omit<PassiveContextSourceRun, "tokens">> {
+  const { entry, sourceConfig, slice } = params;
+  const timeoutMs =
+    typeof sourceConfig.timeoutMs === "number" && sourceConfig.timeoutMs > 0
+      ? sourceConfig.timeoutMs
+      : DEFAULT_SOURCE_TIMEOUT_MS;
+  const controller = new AbortController();
+  const startedAt = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const base = { sourceId: entry.source.id, pluginId: entry.pluginId };
+
+  try {
+    const timeout = new Promise<"timeout">((resolve) => {
+      timer = setTimeout(() => resolve("timeout"), timeoutMs);
+    });
+    const result = await Promise.race([
+      Promise.resolve(
+        entry.source.query({
+          ...params.query,
+          sourceConfig,
+          budget: slice,
+          signal: controller.signal,
+        }),
+      ),
+      timeout,
+    ]);
+    const durationMs = Date.now() - startedAt;
+    if (result === "timeout") {
+      controller.abort();
+      return { ...base, outcome: "timeout", durationMs, hits: 0 };
+    }
+    const normalized = normalizeResult(result);
+    if (!normalized) {
+      return { ...base, outcome: "miss", durationMs, hits: 0 };
+    }
+    return {
+      ...base,
+      outcome: "hit",
+      durationMs,
+      hits: normalized.hits ?? 1,
+      text: normalized.text,
+    };
+  } catch (err) {
+    return {
+      ...base,
+      outcome: "error",
+      durationMs: Date.now() - startedAt,
+      hits: 0,
+      error: String(err),
+    };
+  } finally {
+    if (timer) {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Run every enabled source for one prompt and merge the results into `budget`.
+ * Sources never throw; failures and timeouts are reported per source.
+ */
+export async function runPassiveContextSources(params: {
+  sources: PassiveContextSourceEntry[];
+  pcConfig: AgentPassiveContextConfig;
+  config?: SimpleClawConfig;
+  prompt: string;
+  messages: unknown[];
+  entities: ExtractedEntity[];
+  budget: ContextBudget;
+  ctx: PluginHookAgentContext;
+}): Promise<PassiveContextSourceRun[]> {
+  const { budget, ctx } = params;
+  const enabled = params.sources.flatMap((entry) => {
+    const sourceConfig = params.pcConfig.sources?.[entry.source.id];
+    return sourceConfig?.enabled ? [{ entry, sourceConfig }] : [];
+  });
+
+  const pending = await Promise.all(
+    enabled.map(({ entry, sourceConfig }) => {
+      const maxTokens =
+        typeof sourceConfig.maxTokens === "number"
+          ? sourceConfig.maxTokens
+          : (entry.source.defaultMaxTokens ?? DEFAULT_SOURCE_MAX_TOKENS);
+      return runSource({
+        entry,
+        sourceConfig,
+        slice: createContextBudget(Math.max(0, Math.min(maxTokens, budget.totalMaxTokens))),
+        query: {
+          config: params.config ?? {},
+          prompt: params.prompt,
+          messages: params.messages,
+          entities: params.entities,
+          agentId: ctx.agentId,
+          sessionKey: ctx.sessionKey,
+          workspaceDir: ctx.workspaceDir,
+        },
+      }).then((run) => ({ run, maxTokens }));
+    }),
+  );
+
+  // Merge in registry order so earlier sources keep priority when the budget is tight.
+  const runs: PassiveContextSourceRun[] = pending.map(({ run, maxTokens }) => {
+    if (run.outcome !== "hit" || !run.text || budget.remaining <= 0) {
+      return { ...run, text: undefined, tokens: 0 };
+    }
+    const { text, tokens } = truncateToTokenBudget(run.text, Math.min(maxTokens, budget.remaining));
+    consumeBudget(budget, tokens);
+    return { ...run, text, tokens };
+  });
+
+  for (const run of runs) {
+    logContextSource({
+      sessionKey: ctx.sessionKey,
+      agentId: ctx.agentId,
+      sourceId: run.sourceId,
+      pluginId: run.pluginId,
+      outcome: run.outcome,
+      durationMs: run.durationMs,
+      hits: run.hits,
+      tokens: run.tokens,
+      error: run.error,
+    });
+  }
+  return runs;
+}
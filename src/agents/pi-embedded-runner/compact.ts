@@ -488,6 +488,8 @@ export async function compactEmbeddedPiSessionDirect(
     const orchestratorSection = buildOrchestratorSystemPromptSection({
       role: params.config ? resolveAgentRole(params.config, sessionAgentId) : undefined,
       requesterSessionKey: params.sessionKey ?? params.sessionId,
+      config: params.config,
+      agentId: sessionAgentId,
     });
     const effectiveExtraSystemPrompt = orchestratorSection
       ? [orchestratorSection, params.extraSystemPrompt].filter(Boolean).join("\n\n")
@@ -2,6 +2,7 @@ import { randomBytes } from "node:crypto";
 import fs from "node:fs/promises";
 import type { ThinkLevel } from "../../auto-reply/thinking.js";
 import { generateSecureToken } from "../../infra/secure-random.js";
+import { formatUsageBudgetRefusal, type UsageBudgetBreach } from "../../infra/usage-budget.js";
 import { getGlobalHookRunner } from "../../plugins/hook-runner-global.js";
 import type { PluginHookBeforeAgentStartResult } from "../../plugins/types.js";
 import { enqueueCommandInLane } from "../../process/command-queue.js";
@@ -48,6 +49,7 @@ import {
   pickFallbackThinkingLevel,
   type FailoverReason,
 } from "../pi-embedded-helpers.js";
+import { createUsageBudgetGuard } from "../usage-budget-guard.js";
 import { derivePromptTokens, normalizeUsage, type UsageLike } from "../usage.js";
 import { redactRunIdentifier, resolveRunWorkspaceDir } from "../workspace-run.js";
 import { compactEmbeddedPiSessionDirect } from "./compact.js";
@@ -516,6 +518,35 @@ export async function runEmbeddedPiAgent(
       let lastRunPromptUsage: ReturnType<typeof normalizeUsage> | undefined;
       let autoCompactionCount = 0;
       let runLoopIterations = 0;
+      const usageBudget = createUsageBudgetGuard({
+        config: params.config,
+        agentId: workspaceResolution.agentId,
+        sessionKey: params.sessionKey,
+        channel: params.messageChannel ?? params.messageProvider,
+        senderId: params.senderId,
+      });
+      const refuseForBudget = (
+        breach: UsageBudgetBreach,
+        sessionId: string,
+      ): EmbeddedPiRunResult => {
+        const message = formatUsageBudgetRefusal(breach);
+        log.warn(
+          `[usage-budget] refused sessionKey=${redactedSessionKey} scope=${breach.scope.kind} window=${breach.window}`,
+        );
+        return {
+          payloads: [{ text: message }],
+          meta: {
+            durationMs: Date.now() - started,
+            agentMeta: {
+              sessionId,
+              provider,
+              model: model.id,
+              usage: toNormalizedUsage(usageAccumulator),
+            },
+            error: { kind: "budget_exceeded", message },
+          },
+        };
+      };
       const maybeMarkAuthProfileFailure = async (failure: {
         profileId?: string;
         reason?: Parameters<typeof markAuthProfileFailure>[0]["reason"] | null;
@@ -565,6 +596,10 @@ export async function runEmbeddedPiAgent(
               },
             };
           }
+          const budgetBreach = usageBudget?.check();
+          if (budgetBreach) {
+            return refuseForBudget(budgetBreach, params.sessionId);
+          }
           runLoopIterations += 1;
           attemptedThinking.add(thinkLevel);
           await fs.mkdir(resolvedWorkspace, { recursive: true });
@@ -605,6 +640,7 @@ export async function runEmbeddedPiAgent(
             modelRegistry,
             agentId: workspaceResolution.agentId,
             legacyBeforeAgentStartResult,
+            usageBudget,
             thinkLevel,
             verboseLevel: params.verboseLevel,
             reasoningLevel: params.reasoningLevel,
@@ -644,6 +680,10 @@ export async function runEmbeddedPiAgent(
           const lastAssistantUsage = normalizeUsage(lastAssistant?.usage as UsageLike);
           const attemptUsage = attempt.attemptUsage ?? lastAssistantUsage;
           mergeUsageIntoAccumulator(usageAccumulator, attemptUsage);
+          const budgetRefusal = usageBudget?.refusal();
+          if (budgetRefusal) {
+            return refuseForBudget(budgetRefusal, sessionIdUsed);
+          }
           // Keep prompt size from the latest model call so session totalTokens
           // reflects current context usage, not accumulated tool-loop usage.
           lastRunPromptUsage = lastAssistantUsage ?? attemptUsage;
@@ -532,6 +532,8 @@ export async function runEmbeddedAttempt(
     const orchestratorSection = buildOrchestratorSystemPromptSection({
       role: params.config ? resolveAgentRole(params.config, sessionAgentId) : undefined,
       requesterSessionKey: params.sessionKey ?? params.sessionId,
+      config: params.config,
+      agentId: sessionAgentId,
     });
     const effectiveExtraSystemPrompt = orchestratorSection
       ? [orchestratorSection, params.extraSystemPrompt].filter(Boolean).join("\n\n")
@@ -833,6 +835,12 @@ export async function runEmbeddedAttempt(
         );
       }
 
+      if (params.usageBudget) {
+        activeSession.agent.streamFn = params.usageBudget.wrapStreamFn(
+          activeSession.agent.streamFn,
+        );
+      }
+
       try {
         const prior = await sanitizeSessionHistory({
           messages: activeSession.messages,
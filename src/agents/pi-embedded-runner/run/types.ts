@@ -5,6 +5,7 @@ import type { SessionSystemPromptReport } from "../../../config/sessions/types.j
 import type { PluginHookBeforeAgentStartResult } from "../../../plugins/types.js";
 import type { MessagingToolSend } from "../../pi-embedded-messaging.js";
 import type { AuthStorage, ModelRegistry } from "../../pi-model-discovery.js";
+import type { UsageBudgetGuard } from "../../usage-budget-guard.js";
 import type { NormalizedUsage } from "../../usage.js";
 import type { RunEmbeddedPiAgentParams } from "./params.js";
 
@@ -21,6 +22,8 @@ export type EmbeddedRunAttemptParams = EmbeddedRunAttemptBase & {
   modelRegistry: ModelRegistry;
   thinkLevel: ThinkLevel;
   legacyBeforeAgentStartResult?: PluginHookBeforeAgentStartResult;
+  /** Spend limits checked before every model call of the attempt. */
+  usageBudget?: UsageBudgetGuard | null;
 };
 
 export type EmbeddedRunAttemptResult = {
@@ -72,6 +72,8 @@ vi.mock("../infra/provider-usage.js", () => ({
   loadProviderUsageSummary: async () => ({
     updatedAt: Date.now(),
     providers: [],
+    memoryBackends: [],
+    passiveContextSources: [],
   }),
   formatUsageSummaryLine: () => null,
 }));
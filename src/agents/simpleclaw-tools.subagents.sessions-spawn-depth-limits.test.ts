@@ -2,6 +2,7 @@ import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
 import { beforeEach, describe, expect, it, vi } from "vitest";
+import { recordWorkerSpend, resetOrchestratorBudgetForTests } from "./orchestrator-budget.js";
 import { addSubagentRunForTests, resetSubagentRegistryForTests } from "./subagent-registry.js";
 import { createSessionsSpawnTool } from "./tools/sessions-spawn-tool.js";
 
@@ -69,6 +70,7 @@ function seedDepthTwoAncestryStore(params?: { sessionIds?: boolean }) {
 describe("sessions_spawn depth + child limits", () => {
   beforeEach(() => {
     resetSubagentRegistryForTests();
+    resetOrchestratorBudgetForTests();
     callGatewayMock.mockClear();
     storeTemplatePath = path.join(
       os.tmpdir(),
@@ -239,6 +241,61 @@ describe("sessions_spawn depth + child limits", () => {
     });
   });
 
+  it("rejects when an orchestrator reached maxConcurrentWorkers across its sessions", async () => {
+    configOverride = {
+      session: { mainKey: "main", scope: "per-sender", store: storeTemplatePath },
+      agents: {
+        list: [{ id: "main", role: "orchestrator", orchestrator: { maxConcurrentWorkers: 1 } }],
+      },
+    };
+    addSubagentRunForTests({
+      runId: "other-session-run",
+      childSessionKey: "agent:main:subagent:existing",
+      requesterSessionKey: "agent:main:telegram:direct:42",
+      requesterDisplayKey: "telegram:direct:42",
+      task: "existing",
+      cleanup: "keep",
+      createdAt: Date.now(),
+      startedAt: Date.now(),
+    });
+
+    const tool = createSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const result = await tool.execute("call-orchestrator-workers", { task: "hello" });
+
+    expect(result.details).toMatchObject({ status: "forbidden" });
+    expect((result.details as { error: string }).error).toContain("concurrent worker limit (1/1)");
+  });
+
+  it("rejects when an orchestrator's daily or batch budget is exhausted", async () => {
+    configOverride = {
+      session: { mainKey: "main", scope: "per-sender", store: storeTemplatePath },
+      agents: {
+        list: [
+          {
+            id: "main",
+            role: "orchestrator",
+            orchestrator: { daily: { maxTokens: 100_000 }, batch: { maxCostUsd: 1 } },
+          },
+        ],
+      },
+    };
+    recordWorkerSpend({ agentId: "main", batchId: "batch-1", tokens: 40_000, costUsd: 1.5 });
+
+    const tool = createSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const batched = await tool.execute("call-batch-budget", { task: "hello", batchId: "batch-1" });
+    expect(batched.details).toMatchObject({ status: "forbidden" });
+    expect((batched.details as { error: string }).error).toContain(
+      "budget for batch batch-1 exhausted: cost limit reached ($1.50/$1.00)",
+    );
+
+    recordWorkerSpend({ agentId: "main", tokens: 60_000, costUsd: 0 });
+    const daily = await tool.execute("call-daily-budget", { task: "hello" });
+    expect((daily.details as { error: string }).error).toContain(
+      "daily budget exhausted: token limit reached (100k/100k tokens) today",
+    );
+    expect(callGatewayMock).not.toHaveBeenCalled();
+  });
+
   it("fails spawn when sessions.patch rejects the model", async () => {
     setSubagentLimits({ maxSpawnDepth: 2 });
     callGatewayMock.mockImplementation(async (opts: unknown) => {
@@ -255,7 +312,7 @@ describe("sessions_spawn depth + child limits", () => {
       return {};
     });
 
-    const tool = createSessionsSpawnTool({ agentSessionKey: "main" });
+    const tool = createSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
     const result = await tool.execute("call-model-reject", {
       task: "hello",
       model: "bad-model",
@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import "./test-helpers/fast-core-tools.js";
+import {
+  getCallGatewayMock,
+  getSessionsSpawnTool,
+  resetSessionsSpawnConfigOverride,
+} from "./simpleclaw-tools.subagents.sessions-spawn.test-harness.js";
+import {
+  findActiveSubagentRunForChild,
+  resetSubagentRegistryForTests,
+} from "./subagent-registry.js";
+import { createReportTool } from "./tools/report-tool.js";
+
+const callGatewayMock = getCallGatewayMock();
+type GatewayCall = { method?: string; params?: unknown };
+
+const RESULT_SCHEMA = {
+  type: "object",
+  properties: { score: { type: "number" }, verdict: { type: "string" } },
+  required: ["score", "verdict"],
+  additionalProperties: false,
+};
+
+function parseDetails(result: { content: Array<unknown> }) {
+  return JSON.parse((result.content[0] as { text: string }).text) as Record<string, unknown>;
+}
+
+describe("sessions_spawn resultSchema + report", () => {
+  beforeEach(() => {
+    resetSessionsSpawnConfigOverride();
+    resetSubagentRegistryForTests();
+    callGatewayMock.mockReset();
+  });
+
+  it("rejects schemas that do not compile before starting a run", async () => {
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const result = await tool.execute("call-bad-schema", {
+      task: "grade it",
+      resultSchema: { type: "not-a-type" },
+    });
+    expect(result.details).toMatchObject({ status: "error" });
+    expect((result.details as { error: string }).error).toContain(
+      "resultSchema is not a valid JSON Schema",
+    );
+    expect(callGatewayMock).not.toHaveBeenCalled();
+  });
+
+  it("asks the worker to report and validates its result against the schema", async () => {
+    const calls: GatewayCall[] = [];
+    callGatewayMock.mockImplementation(async (opts: unknown) => {
+      const request = opts as GatewayCall;
+      calls.push(request);
+      if (request.method === "agent") {
+        return { runId: "run-structured", status: "accepted" };
+      }
+      // agent.wait and everything else: the run stays active.
+      return {};
+    });
+
+    const tool = await getSessionsSpawnTool({ agentSessionKey: "agent:main:main" });
+    const spawned = await tool.execute("call-structured", {
+      task: "grade it",
+      resultSchema: RESULT_SCHEMA,
+    });
+    expect(spawned.details).toMatchObject({ status: "accepted", runId: "run-structured" });
+    const childSessionKey = (spawned.details as { childSessionKey: string }).childSessionKey;
+
+    const agentCall = calls.find((call) => call.method === "agent");
+    const systemPrompt = (agentCall?.params as { extraSystemPrompt?: string } | undefined)
+      ?.extraSystemPrompt;
+    expect(systemPrompt).toContain("## Structured Result");
+    expect(systemPrompt).toContain('"required": [');
+
+    const report = createReportTool({ agentSessionKey: childSessionKey });
+    const invalid = parseDetails(await report.execute("r1", { result: { score: "high" } }));
+    expect(invalid.status).toBe("invalid");
+    expect(invalid.errors).toEqual(
+      expect.arrayContaining([
+        "score: must be number",
+        "<root>: must have required property 'verdict'",
+      ]),
+    );
+    expect(findActiveSubagentRunForChild(childSessionKey)?.report).toBeUndefined();
+
+    const accepted = parseDetails(
+      await report.execute("r2", { result: '{"score":0.9,"verdict":"ship"}' }),
+    );
+    expect(accepted.status).toBe("accepted");
+    expect(findActiveSubagentRunForChild(childSessionKey)?.report?.result).toEqual({
+      score: 0.9,
+      verdict: "ship",
+    });
+  });
+
+  it("refuses reports outside a running sub-agent task", async () => {
+    const report = createReportTool({ agentSessionKey: "agent:main:subagent:unknown" });
+    expect(parseDetails(await report.execute("r3", { result: {} })).status).toBe("error");
+  });
+});
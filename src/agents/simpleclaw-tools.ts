@@ -1,5 +1,6 @@
 import type { SimpleClawConfig } from "../config/config.js";
 import { resolvePluginTools } from "../plugins/tools.js";
+import { isSubagentSessionKey } from "../routing/session-key.js";
 import type { GatewayMessageChannel } from "../utils/message-channel.js";
 import { resolveSessionAgentId } from "./agent-scope.js";
 import type { SandboxFsBridge } from "./sandbox/fs-bridge.js";
@@ -13,6 +14,7 @@ import { createGenUiTool } from "./tools/genui-tool.js";
 import { createImageTool } from "./tools/image-tool.js";
 import { createMessageTool } from "./tools/message-tool.js";
 import { createNodesTool } from "./tools/nodes-tool.js";
+import { createReportTool } from "./tools/report-tool.js";
 import { createSessionStatusTool } from "./tools/session-status-tool.js";
 import { createSessionsHistoryTool } from "./tools/sessions-history-tool.js";
 import { createSessionsListTool } from "./tools/sessions-list-tool.js";
@@ -171,6 +173,9 @@ export function createSimpleClawTools(options?: {
       agentSessionKey: options?.agentSessionKey,
       holdTimeoutMs: options?.config?.agents?.defaults?.subagents?.holdTimeoutMs,
     }),
+    ...(isSubagentSessionKey(options?.agentSessionKey)
+      ? [createReportTool({ agentSessionKey: options?.agentSessionKey })]
+      : []),
     createSessionStatusTool({
       agentSessionKey: options?.agentSessionKey,
       config: options?.config,
@@ -38,6 +38,7 @@ import {
   bufferResult as bufferHeldResult,
   isHolding as isHoldingResults,
 } from "./subagent-hold-buffer.js";
+import { formatSubagentResult } from "./subagent-result.js";
 import type { SpawnSubagentMode } from "./subagent-spawn.js";
 import { readLatestAssistantReply } from "./tools/agent-step.js";
 import { sanitizeTextContent, extractAssistantText } from "./tools/sessions-helpers.js";
@@ -987,6 +988,8 @@ export function buildSubagentSystemPrompt(params: {
   childDepth?: number;
   /** Config value: max allowed spawn depth. */
   maxSpawnDepth?: number;
+  /** JSON Schema the worker must satisfy through the `report` tool. */
+  resultSchema?: Record<string, unknown>;
 }) {
   const taskText =
     typeof params.task === "string" && params.task.trim()
@@ -1024,6 +1027,17 @@ export function buildSubagentSystemPrompt(params: {
     `- Any relevant details the ${parentLabel} should know`,
     "- Keep it concise but informative",
     "",
+    ...(params.resultSchema
+      ? [
+          "## Structured Result",
+          `The ${parentLabel} asked for a structured result. Before your final message, call the \`report\` tool with \`result\` set to a value matching this JSON Schema:`,
+          "```json",
+          JSON.stringify(params.resultSchema, null, 2),
+          "```",
+          "If `report` returns validation errors, fix the value and call it again. Keep your final message as a short summary.",
+          "",
+        ]
+      : []),
     "## What You DON'T Do",
     `- NO user conversations (that's ${parentLabel}'s job)`,
     "- NO external messages (email, tweets, etc.) unless explicitly tasked with a specific recipient/channel",
@@ -1115,6 +1129,8 @@ export async function runSubagentAnnounceFlow(params: {
   spawnMode?: SpawnSubagentMode;
   signal?: AbortSignal;
   bestEffortDeliver?: boolean;
+  /** Structured result from the worker's `report` tool (per-run reports for a batch). */
+  structuredResult?: unknown;
 }): Promise<boolean> {
   let didAnnounce = false;
   const expectsCompletionMessage = params.expectsCompletionMessage === true;
@@ -1218,6 +1234,7 @@ export async function runSubagentAnnounceFlow(params: {
         label: params.label,
         task: params.task,
         findings: reply?.trim() || "(no output)",
+        result: params.structuredResult,
         status: outcome.status === "ok" ? "ok" : outcome.status === "error" ? "error" : "timeout",
         endedAt: params.endedAt ?? Date.now(),
       });
@@ -1340,6 +1357,9 @@ export async function runSubagentAnnounceFlow(params: {
       "Result:",
       findings,
       "",
+      ...(params.structuredResult !== undefined && !params.roundOneReply
+        ? ["Structured result (JSON):", formatSubagentResult(params.structuredResult), ""]
+        : []),
       statsLine,
     ].join("\n");
     triggerMessage = [internalSummaryMessage, "", replyInstruction].join("\n");
@@ -0,0 +1,93 @@
+import path from "node:path";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+import type { BatchRunResult, BatchState } from "./subagent-batch.js";
+import { resolveRosterPath } from "./subagent-roster-store.js";
+
+type PersistedBatch = {
+  batchId: string;
+  requesterSessionKey: string;
+  label?: string;
+  runIds: string[];
+  completedResults: BatchRunResult[];
+  createdAt: number;
+  timeoutMs?: number;
+  /** Defaults to true when missing. */
+  autoAggregate?: boolean;
+};
+
+type PersistedBatches = {
+  version: 1;
+  batches: Record<string, PersistedBatch>;
+};
+
+/** Batches live next to the roster (`<state>/subagents/batches.json`). */
+export function resolveBatchStorePath(): string {
+  return path.join(path.dirname(resolveRosterPath()), "batches.json");
+}
+
+function isBatchRunResult(value: unknown): value is BatchRunResult {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const result = value as Partial<BatchRunResult>;
+  return (
+    typeof result.runId === "string" &&
+    typeof result.endedAt === "number" &&
+    !!result.outcome &&
+    typeof result.outcome.status === "string"
+  );
+}
+
+export function loadBatchesFromDisk(): Map<string, BatchState> {
+  const raw = loadJsonFile(resolveBatchStorePath());
+  if (!raw || typeof raw !== "object") {
+    return new Map();
+  }
+  const record = raw as Partial<PersistedBatches>;
+  if (record.version !== 1 || !record.batches || typeof record.batches !== "object") {
+    return new Map();
+  }
+  const out = new Map<string, BatchState>();
+  for (const [batchId, batch] of Object.entries(record.batches)) {
+    if (
+      !batch ||
+      typeof batch !== "object" ||
+      typeof batch.requesterSessionKey !== "string" ||
+      !Array.isArray(batch.runIds)
+    ) {
+      continue;
+    }
+    const completed = Array.isArray(batch.completedResults)
+      ? batch.completedResults.filter(isBatchRunResult)
+      : [];
+    out.set(batchId, {
+      batchId,
+      requesterSessionKey: batch.requesterSessionKey,
+      label: batch.label,
+      runIds: new Set(batch.runIds.filter((runId) => typeof runId === "string")),
+      completedResults: new Map(completed.map((result) => [result.runId, result])),
+      createdAt: typeof batch.createdAt === "number" ? batch.createdAt : Date.now(),
+      timeoutMs: typeof batch.timeoutMs === "number" ? batch.timeoutMs : undefined,
+      autoAggregate: batch.autoAggregate !== false,
+    });
+  }
+  return out;
+}
+
+export function saveBatchesToDisk(batches: Map<string, BatchState>) {
+  const serialized: Record<string, PersistedBatch> = {};
+  for (const [batchId, state] of batches.entries()) {
+    serialized[batchId] = {
+      batchId,
+      requesterSessionKey: state.requesterSessionKey,
+      label: state.label,
+      runIds: [...state.runIds],
+      completedResults: [...state.completedResults.values()],
+      createdAt: state.createdAt,
+      timeoutMs: state.timeoutMs,
+      autoAggregate: state.autoAggregate,
+    };
+  }
+  const out: PersistedBatches = { version: 1, batches: serialized };
+  saveJsonFile(resolveBatchStorePath(), out);
+}
@@ -7,10 +7,13 @@ import {
   getBatch,
   getBatchIdForRun,
   isBatchComplete,
+  listBatchRunReports,
   listBatches,
   recordBatchRunCompletion,
   removeBatch,
   resetBatchesForTests,
+  restoreBatches,
+  setBatchTimeoutHandler,
 } from "./subagent-batch.js";
 
 beforeEach(() => {
@@ -226,6 +229,27 @@ describe("formatBatchResults", () => {
     expect(formatted).toContain("[SUCCESS] task-a: done");
     expect(formatted).toContain("[PENDING]");
   });
+
+  it("renders structured results as JSON and lists them as typed reports", () => {
+    const batchId = createBatch({ requesterSessionKey: "agent:main:main" });
+    addRunToBatch(batchId, "run-1");
+    addRunToBatch(batchId, "run-2");
+    recordBatchRunCompletion({
+      runId: "run-1",
+      outcome: { status: "ok" },
+      findings: "Scored it, see report",
+      result: { score: 0.9 },
+      label: "grader",
+    });
+    recordBatchRunCompletion({ runId: "run-2", outcome: { status: "ok" }, findings: "prose" });
+
+    const formatted = formatBatchResults(batchId);
+    expect(formatted).toContain('[SUCCESS] grader: {"score":0.9}');
+    expect(formatted).toContain("[SUCCESS] run-2: prose");
+    expect(listBatchRunReports(batchId)).toEqual([
+      { runId: "run-1", label: "grader", status: "ok", result: { score: 0.9 } },
+    ]);
+  });
 });
 
 describe("listBatches", () => {
@@ -328,3 +352,62 @@ describe("empty batch", () => {
     expect(isBatchComplete(batchId)).toBe(true);
   });
 });
+
+describe("persistence", () => {
+  it("restores batches, results, and run lookups after a restart", () => {
+    const batchId = createBatch({ requesterSessionKey: "agent:main:main", label: "research" });
+    addRunToBatch(batchId, "run-1");
+    addRunToBatch(batchId, "run-2");
+    recordBatchRunCompletion({ runId: "run-1", outcome: { status: "ok" }, findings: "found it" });
+
+    resetBatchesForTests({ loadFromDisk: true });
+
+    expect(restoreBatches()).toEqual([
+      expect.objectContaining({
+        batchId,
+        label: "research",
+        runIds: ["run-1", "run-2"],
+        completedRunIds: ["run-1"],
+        pendingCount: 1,
+      }),
+    ]);
+    expect(getBatchIdForRun("run-2")).toBe(batchId);
+    expect(recordBatchRunCompletion({ runId: "run-2", outcome: { status: "ok" } })).toEqual({
+      batchId,
+      complete: true,
+    });
+    expect(formatBatchResults(batchId)).toContain("[SUCCESS] run-1: found it");
+  });
+
+  it("does not restore removed batches", () => {
+    const batchId = createBatch({ requesterSessionKey: "agent:main:main" });
+    removeBatch(batchId);
+
+    resetBatchesForTests({ loadFromDisk: true });
+
+    expect(restoreBatches()).toEqual([]);
+  });
+
+  it("re-arms the timeout with the time the batch had left", () => {
+    vi.useFakeTimers();
+    const onTimeout = vi.fn();
+    setBatchTimeoutHandler(onTimeout);
+    try {
+      const batchId = createBatch({ requesterSessionKey: "agent:main:main", timeoutMs: 1000 });
+      addRunToBatch(batchId, "run-1");
+      vi.advanceTimersByTime(600);
+
+      resetBatchesForTests({ loadFromDisk: true });
+      restoreBatches();
+
+      vi.advanceTimersByTime(300);
+      expect(isBatchComplete(batchId)).toBe(false);
+      vi.advanceTimersByTime(200);
+      expect(isBatchComplete(batchId)).toBe(true);
+      expect(onTimeout).toHaveBeenCalledWith(batchId);
+    } finally {
+      setBatchTimeoutHandler(null);
+      vi.useRealTimers();
+    }
+  });
+});
@@ -1,5 +1,7 @@
 import crypto from "node:crypto";
 import type { SubagentRunOutcome } from "./subagent-announce.js";
+import { loadBatchesFromDisk, saveBatchesToDisk } from "./subagent-batch-store.js";
+import { formatSubagentResult } from "./subagent-result.js";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -10,9 +12,19 @@ export type BatchRunResult = {
   label?: string;
   outcome: SubagentRunOutcome;
   findings?: string;
+  /** Structured result from the worker's `report` tool, when it sent one. */
+  result?: unknown;
   endedAt: number;
 };
 
+/** Typed per-run result, as exposed to orchestrators. */
+export type BatchRunReport = {
+  runId: string;
+  label?: string;
+  status: SubagentRunOutcome["status"];
+  result: unknown;
+};
+
 export type BatchState = {
   batchId: string;
   requesterSessionKey: string;
@@ -43,11 +55,53 @@ export type BatchSnapshot = {
 // In-memory state
 // ---------------------------------------------------------------------------
 
-const batches = new Map<string, BatchState>();
+let batches = new Map<string, BatchState>();
+let loaded = false;
 /** Reverse lookup: runId → batchId for fast completion recording. */
 const runToBatch = new Map<string, string>();
 /** Timeout handles for batch force-expiry. */
 const batchTimeouts = new Map<string, ReturnType<typeof setTimeout>>();
+/** Called after a batch is force-completed so the registry can announce the aggregate. */
+let batchTimeoutHandler: ((batchId: string) => void) | null = null;
+
+/**
+ * Load persisted batches on first use. Rebuilds the run → batch lookup and
+ * re-arms force-expiry timers for the time each batch had left.
+ */
+function ensureLoaded() {
+  if (loaded) {
+    return;
+  }
+  loaded = true;
+  batches = loadBatchesFromDisk();
+  for (const state of batches.values()) {
+    for (const runId of state.runIds) {
+      runToBatch.set(runId, state.batchId);
+    }
+    scheduleBatchTimeout(state);
+  }
+}
+
+function persist() {
+  try {
+    saveBatchesToDisk(batches);
+  } catch {
+    // Best-effort persistence; in-memory state is canonical at runtime.
+  }
+}
+
+function scheduleBatchTimeout(state: BatchState) {
+  if (typeof state.timeoutMs !== "number" || state.timeoutMs <= 0) {
+    return;
+  }
+  const remainingMs = Math.max(0, state.createdAt + state.timeoutMs - Date.now());
+  const timer = setTimeout(() => {
+    batchTimeouts.delete(state.batchId);
+    forceCompleteBatch(state.batchId);
+  }, remainingMs);
+  timer.unref?.();
+  batchTimeouts.set(state.batchId, timer);
+}
 
 // ---------------------------------------------------------------------------
 // Core API
@@ -63,6 +117,7 @@ export function createBatch(params: {
   autoAggregate?: boolean;
   timeoutMs?: number;
 }): string {
+  ensureLoaded();
   const batchId = crypto.randomUUID();
   const state: BatchState = {
     batchId,
@@ -75,15 +130,10 @@ export function createBatch(params: {
     autoAggregate: params.autoAggregate !== false,
   };
   batches.set(batchId, state);
+  persist();
 
   // Start force-expiry timer if configured.
-  if (typeof params.timeoutMs === "number" && params.timeoutMs > 0) {
-    const timer = setTimeout(() => {
-      forceCompleteBatch(batchId);
-    }, params.timeoutMs);
-    timer.unref?.();
-    batchTimeouts.set(batchId, timer);
-  }
+  scheduleBatchTimeout(state);
 
   return batchId;
 }
@@ -93,12 +143,14 @@ export function createBatch(params: {
  * Returns false if the batchId doesn't exist.
  */
 export function addRunToBatch(batchId: string, runId: string): boolean {
+  ensureLoaded();
   const state = batches.get(batchId);
   if (!state) {
     return false;
   }
   state.runIds.add(runId);
   runToBatch.set(runId, batchId);
+  persist();
   return true;
 }
 
@@ -112,9 +164,11 @@ export function recordBatchRunCompletion(params: {
   runId: string;
   outcome: SubagentRunOutcome;
   findings?: string;
+  result?: unknown;
   label?: string;
   endedAt?: number;
 }): { batchId: string; complete: boolean } | null {
+  ensureLoaded();
   const batchId = runToBatch.get(params.runId);
   if (!batchId) {
     return null;
@@ -131,8 +185,10 @@ export function recordBatchRunCompletion(params: {
     label: params.label,
     outcome: params.outcome,
     findings: params.findings,
+    result: params.result,
     endedAt: params.endedAt ?? Date.now(),
   });
+  persist();
 
   const complete = state.completedResults.size >= state.runIds.size;
   return { batchId, complete };
@@ -140,6 +196,7 @@ export function recordBatchRunCompletion(params: {
 
 /** Check whether all runs in a batch have reported completion. */
 export function isBatchComplete(batchId: string): boolean {
+  ensureLoaded();
   const state = batches.get(batchId);
   if (!state) {
     return true; // Removed batches are considered done.
@@ -149,19 +206,23 @@ export function isBatchComplete(batchId: string): boolean {
 
 /** Return the batchId for a given runId, or undefined. */
 export function getBatchIdForRun(runId: string): string | undefined {
+  ensureLoaded();
   return runToBatch.get(runId);
 }
 
 /** Return the batch state for a given batchId, or undefined. */
 export function getBatch(batchId: string): BatchState | undefined {
+  ensureLoaded();
   return batches.get(batchId);
 }
 
 /**
  * Format completed batch results into an aggregated announce message.
- * Each completed run is rendered as a status line followed by its findings.
+ * Each completed run is rendered as a status line followed by its structured
+ * result (as JSON) when it reported one, else its findings.
  */
 export function formatBatchResults(batchId: string): string {
+  ensureLoaded();
   const state = batches.get(batchId);
   if (!state) {
     return "(batch not found)";
@@ -176,7 +237,10 @@ export function formatBatchResults(batchId: string): string {
     }
     const statusTag = resolveStatusTag(result.outcome);
     const label = result.label || runId.slice(0, 8);
-    const findings = result.findings?.trim() || "(no output)";
+    const findings =
+      result.result !== undefined
+        ? formatSubagentResult(result.result)
+        : result.findings?.trim() || "(no output)";
     entries.push(`[${statusTag}] ${label}: ${findings}`);
   }
   const header = state.label
@@ -185,10 +249,33 @@ export function formatBatchResults(batchId: string): string {
   return [header, "", ...entries].join("\n");
 }
 
+/** Structured results of completed runs that called `report`, in spawn order. */
+export function listBatchRunReports(batchId: string): BatchRunReport[] {
+  ensureLoaded();
+  const state = batches.get(batchId);
+  if (!state) {
+    return [];
+  }
+  const reports: BatchRunReport[] = [];
+  for (const runId of state.runIds) {
+    const result = state.completedResults.get(runId);
+    if (result && result.result !== undefined) {
+      reports.push({
+        runId,
+        label: result.label,
+        status: result.outcome.status,
+        result: result.result,
+      });
+    }
+  }
+  return reports;
+}
+
 /**
  * List all active batches for a given requester session.
  */
 export function listBatches(requesterSessionKey: string): BatchSnapshot[] {
+  ensureLoaded();
   const results: BatchSnapshot[] = [];
   for (const state of batches.values()) {
     if (state.requesterSessionKey !== requesterSessionKey) {
@@ -204,6 +291,7 @@ export function listBatches(requesterSessionKey: string): BatchSnapshot[] {
  * Returns false if the batch didn't exist.
  */
 export function removeBatch(batchId: string): boolean {
+  ensureLoaded();
   const state = batches.get(batchId);
   if (!state) {
     return false;
@@ -217,9 +305,24 @@ export function removeBatch(batchId: string): boolean {
     clearTimeout(timer);
     batchTimeouts.delete(batchId);
   }
+  persist();
   return true;
 }
 
+/**
+ * Load persisted batches (re-arming their timeouts) and return snapshots of
+ * all of them. Called once on gateway startup before runs are resumed.
+ */
+export function restoreBatches(): BatchSnapshot[] {
+  ensureLoaded();
+  return Array.from(batches.values(), toBatchSnapshot);
+}
+
+/** Register the callback fired after a batch times out and is force-completed. */
+export function setBatchTimeoutHandler(handler: ((batchId: string) => void) | null) {
+  batchTimeoutHandler = handler;
+}
+
 // ---------------------------------------------------------------------------
 // Internal helpers
 // ---------------------------------------------------------------------------
@@ -271,14 +374,18 @@ function forceCompleteBatch(batchId: string) {
       });
     }
   }
+  persist();
+  batchTimeoutHandler?.(batchId);
 }
 
 // ---------------------------------------------------------------------------
 // Test helpers
 // ---------------------------------------------------------------------------
 
-export function resetBatchesForTests() {
-  batches.clear();
+/** Clear in-memory state. `loadFromDisk` simulates a restart by reloading persisted batches. */
+export function resetBatchesForTests(opts?: { loadFromDisk?: boolean }) {
+  batches = new Map();
+  loaded = opts?.loadFromDisk !== true; // prevent disk load in tests unless asked
   runToBatch.clear();
   for (const timer of batchTimeouts.values()) {
     clearTimeout(timer);
@@ -0,0 +1,61 @@
+import path from "node:path";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+import type { HeldResult, HoldEntry } from "./subagent-hold-buffer.js";
+import { resolveRosterPath } from "./subagent-roster-store.js";
+
+type PersistedHolds = {
+  version: 1;
+  holds: Record<string, HoldEntry>;
+};
+
+/** Held results live next to the roster (`<state>/subagents/holds.json`). */
+export function resolveHoldStorePath(): string {
+  return path.join(path.dirname(resolveRosterPath()), "holds.json");
+}
+
+function isHeldResult(value: unknown): value is HeldResult {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const result = value as Partial<HeldResult>;
+  return (
+    typeof result.runId === "string" &&
+    typeof result.task === "string" &&
+    typeof result.findings === "string" &&
+    typeof result.status === "string" &&
+    typeof result.endedAt === "number"
+  );
+}
+
+export function loadHoldsFromDisk(): Map<string, HoldEntry> {
+  const raw = loadJsonFile(resolveHoldStorePath());
+  if (!raw || typeof raw !== "object") {
+    return new Map();
+  }
+  const record = raw as Partial<PersistedHolds>;
+  if (record.version !== 1 || !record.holds || typeof record.holds !== "object") {
+    return new Map();
+  }
+  const out = new Map<string, HoldEntry>();
+  for (const [sessionKey, entry] of Object.entries(record.holds)) {
+    if (
+      !entry ||
+      typeof entry !== "object" ||
+      typeof entry.heldAt !== "number" ||
+      typeof entry.timeoutMs !== "number"
+    ) {
+      continue;
+    }
+    out.set(sessionKey, {
+      results: Array.isArray(entry.results) ? entry.results.filter(isHeldResult) : [],
+      heldAt: entry.heldAt,
+      timeoutMs: entry.timeoutMs,
+    });
+  }
+  return out;
+}
+
+export function saveHoldsToDisk(holds: Map<string, HoldEntry>) {
+  const out: PersistedHolds = { version: 1, holds: Object.fromEntries(holds) };
+  saveJsonFile(resolveHoldStorePath(), out);
+}
@@ -7,6 +7,7 @@ import {
   releaseHold,
   cleanupStaleHolds,
   formatHeldResults,
+  resetHoldsForTests,
   type HeldResult,
 } from "./subagent-hold-buffer.js";
 
@@ -129,6 +130,31 @@ describe("subagent-hold-buffer", () => {
     });
   });
 
+  describe("persistence", () => {
+    it("keeps hold mode and buffered results across a restart", async () => {
+      holdResults(SESSION, 60_000);
+      bufferResult(SESSION, makeResult({ runId: "r1", findings: "First finding." }));
+      await Promise.resolve(); // let the coalesced write run
+
+      resetHoldsForTests({ loadFromDisk: true });
+
+      expect(isHolding(SESSION)).toBe(true);
+      expect(collectResults(SESSION)).toEqual([
+        expect.objectContaining({ runId: "r1", findings: "First finding." }),
+      ]);
+    });
+
+    it("does not restore released holds", async () => {
+      holdResults(SESSION, 60_000);
+      releaseHold(SESSION);
+      await Promise.resolve();
+
+      resetHoldsForTests({ loadFromDisk: true });
+
+      expect(isHolding(SESSION)).toBe(false);
+    });
+  });
+
   describe("formatHeldResults", () => {
     it("formats empty results", () => {
       expect(formatHeldResults([])).toBe("No results buffered.");
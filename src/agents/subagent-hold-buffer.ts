@@ -1,4 +1,5 @@
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { loadHoldsFromDisk, saveHoldsToDisk } from "./subagent-hold-buffer-store.js";
 
 const log = createSubsystemLogger("subagent-hold");
 
@@ -9,29 +10,63 @@ export type HeldResult = {
   label?: string;
   task: string;
   findings: string;
+  /**
+   * Structured result from the worker's `report` tool. For a batch aggregate
+   * this is the list of per-run reports.
+   */
+  result?: unknown;
   status: "ok" | "error" | "timeout";
   endedAt: number;
 };
 
-type HoldEntry = {
+export type HoldEntry = {
   results: HeldResult[];
   heldAt: number;
   timeoutMs: number;
 };
 
-// In-memory hold buffer keyed by requester session key
-const holds = new Map<string, HoldEntry>();
+// Hold buffer keyed by requester session key, persisted so buffered results
+// survive gateway restarts.
+let holds = new Map<string, HoldEntry>();
+let loaded = false;
+let persistQueued = false;
+
+function ensureLoaded() {
+  if (loaded) {
+    return;
+  }
+  loaded = true;
+  holds = loadHoldsFromDisk();
+}
+
+/** Writes are coalesced per tick so a burst of buffered results costs one disk write. */
+function persist() {
+  if (persistQueued) {
+    return;
+  }
+  persistQueued = true;
+  queueMicrotask(() => {
+    persistQueued = false;
+    try {
+      saveHoldsToDisk(holds);
+    } catch {
+      // Best-effort persistence; in-memory state is canonical at runtime.
+    }
+  });
+}
 
 /**
  * Activate hold mode for a requester session.
  * Sub-agent results will be buffered instead of auto-announced.
  */
 export function holdResults(sessionKey: string, timeoutMs?: number): void {
+  ensureLoaded();
   const existing = holds.get(sessionKey);
   if (existing) {
     // Already holding — keep existing buffered results, refresh timeout
     existing.heldAt = Date.now();
     existing.timeoutMs = timeoutMs ?? existing.timeoutMs;
+    persist();
     return;
   }
   holds.set(sessionKey, {
@@ -39,6 +74,7 @@ export function holdResults(sessionKey: string, timeoutMs?: number): void {
     heldAt: Date.now(),
     timeoutMs: timeoutMs ?? DEFAULT_HOLD_TIMEOUT_MS,
   });
+  persist();
   log.info(`hold activated for session ${sessionKey}`);
 }
 
@@ -47,6 +83,7 @@ export function holdResults(sessionKey: string, timeoutMs?: number): void {
  * Also checks for stale holds and auto-expires them.
  */
 export function isHolding(sessionKey: string): boolean {
+  ensureLoaded();
   const entry = holds.get(sessionKey);
   if (!entry) {
     return false;
@@ -56,6 +93,7 @@ export function isHolding(sessionKey: string): boolean {
   if (Date.now() - entry.heldAt > entry.timeoutMs) {
     log.warn(`hold expired for session ${sessionKey} after ${entry.timeoutMs}ms`);
     holds.delete(sessionKey);
+    persist();
     return false;
   }
 
@@ -66,12 +104,14 @@ export function isHolding(sessionKey: string): boolean {
  * Buffer a sub-agent result for a session in hold mode.
  */
 export function bufferResult(sessionKey: string, result: HeldResult): void {
+  ensureLoaded();
   const entry = holds.get(sessionKey);
   if (!entry) {
     log.warn(`bufferResult called but session ${sessionKey} is not holding`);
     return;
   }
   entry.results.push(result);
+  persist();
   log.debug(
     `buffered result for session ${sessionKey}: runId=${result.runId} status=${result.status}`,
   );
@@ -81,6 +121,7 @@ export function bufferResult(sessionKey: string, result: HeldResult): void {
  * Return all buffered results without releasing hold mode.
  */
 export function collectResults(sessionKey: string): HeldResult[] {
+  ensureLoaded();
   const entry = holds.get(sessionKey);
   if (!entry) {
     return [];
@@ -92,12 +133,14 @@ export function collectResults(sessionKey: string): HeldResult[] {
  * Deactivate hold mode and return any remaining buffered results.
  */
 export function releaseHold(sessionKey: string): HeldResult[] {
+  ensureLoaded();
   const entry = holds.get(sessionKey);
   if (!entry) {
     return [];
   }
   const results = [...entry.results];
   holds.delete(sessionKey);
+  persist();
   log.info(`hold released for session ${sessionKey} (${results.length} buffered results)`);
   return results;
 }
@@ -106,6 +149,7 @@ export function releaseHold(sessionKey: string): HeldResult[] {
  * Clean up all stale holds across all sessions (call periodically).
  */
 export function cleanupStaleHolds(): number {
+  ensureLoaded();
   const now = Date.now();
   let cleaned = 0;
   for (const [key, entry] of holds) {
@@ -115,6 +159,7 @@ export function cleanupStaleHolds(): number {
     }
   }
   if (cleaned > 0) {
+    persist();
     log.info(`cleaned up ${cleaned} stale holds`);
   }
   return cleaned;
@@ -136,3 +181,9 @@ export function formatHeldResults(results: HeldResult[]): string {
     })
     .join("\n\n");
 }
+
+/** Clear in-memory holds. `loadFromDisk` simulates a restart by reloading persisted holds. */
+export function resetHoldsForTests(opts?: { loadFromDisk?: boolean }) {
+  holds = new Map();
+  loaded = opts?.loadFromDisk !== true;
+}
@@ -0,0 +1,169 @@
+/**
+ * Subagent run termination shared by the `subagents` tool and the roster
+ * gateway methods: abort the embedded run, clear queued follow-ups, mark the
+ * run terminated, and cascade to descendants.
+ */
+
+import { clearSessionQueues } from "../auto-reply/reply/queue.js";
+import { resolveSubagentLabel } from "../auto-reply/reply/subagents-utils.js";
+import type { SimpleClawConfig } from "../config/config.js";
+import type { SessionEntry } from "../config/sessions.js";
+import { loadSessionStore, resolveStorePath, updateSessionStore } from "../config/sessions.js";
+import { logVerbose } from "../globals.js";
+import { parseAgentSessionKey, type ParsedAgentSessionKey } from "../routing/session-key.js";
+import { abortEmbeddedPiRun } from "./pi-embedded.js";
+import {
+  listSubagentRunsForRequester,
+  markSubagentRunTerminated,
+  type SubagentRunRecord,
+} from "./subagent-registry.js";
+
+export type SessionEntryResolution = {
+  storePath: string;
+  entry: SessionEntry | undefined;
+};
+
+function resolveStorePathForKey(
+  cfg: SimpleClawConfig,
+  key: string,
+  parsed?: ParsedAgentSessionKey | null,
+) {
+  return resolveStorePath(cfg.session?.store, {
+    agentId: parsed?.agentId,
+  });
+}
+
+export function resolveSessionEntryForKey(params: {
+  cfg: SimpleClawConfig;
+  key: string;
+  cache: Map<string, Record<string, SessionEntry>>;
+}): SessionEntryResolution {
+  const parsed = parseAgentSessionKey(params.key);
+  const storePath = resolveStorePathForKey(params.cfg, params.key, parsed);
+  let store = params.cache.get(storePath);
+  if (!store) {
+    store = loadSessionStore(storePath);
+    params.cache.set(storePath, store);
+  }
+  return {
+    storePath,
+    entry: store[params.key],
+  };
+}
+
+export async function killSubagentRun(params: {
+  cfg: SimpleClawConfig;
+  entry: SubagentRunRecord;
+  cache: Map<string, Record<string, SessionEntry>>;
+}): Promise<{ killed: boolean; sessionId?: string }> {
+  if (params.entry.endedAt) {
+    return { killed: false };
+  }
+  const childSessionKey = params.entry.childSessionKey;
+  const resolved = resolveSessionEntryForKey({
+    cfg: params.cfg,
+    key: childSessionKey,
+    cache: params.cache,
+  });
+  const sessionId = resolved.entry?.sessionId;
+  const aborted = sessionId ? abortEmbeddedPiRun(sessionId) : false;
+  const cleared = clearSessionQueues([childSessionKey, sessionId]);
+  if (cleared.followupCleared > 0 || cleared.laneCleared > 0) {
+    logVerbose(
+      `subagent kill: cleared followups=${cleared.followupCleared} lane=${cleared.laneCleared} keys=${cleared.keys.join(",")}`,
+    );
+  }
+  if (resolved.entry) {
+    await updateSessionStore(resolved.storePath, (store) => {
+      const current = store[childSessionKey];
+      if (!current) {
+        return;
+      }
+      current.abortedLastRun = true;
+      current.updatedAt = Date.now();
+      store[childSessionKey] = current;
+    });
+  }
+  const marked = markSubagentRunTerminated({
+    runId: params.entry.runId,
+    childSessionKey,
+    reason: "killed",
+  });
+  const killed = marked > 0 || aborted || cleared.followupCleared > 0 || cleared.laneCleared > 0;
+  return { killed, sessionId };
+}
+
+/**
+ * Recursively kill all descendant subagent runs spawned by a given parent session key.
+ * This ensures that when a subagent is killed, all of its children (and their children) are also killed.
+ */
+export async function cascadeKillChildren(params: {
+  cfg: SimpleClawConfig;
+  parentChildSessionKey: string;
+  cache: Map<string, Record<string, SessionEntry>>;
+  seenChildSessionKeys?: Set<string>;
+}): Promise<{ killed: number; labels: string[] }> {
+  const childRuns = listSubagentRunsForRequester(params.parentChildSessionKey);
+  const seenChildSessionKeys = params.seenChildSessionKeys ?? new Set<string>();
+  let killed = 0;
+  const labels: string[] = [];
+
+  for (const run of childRuns) {
+    const childKey = run.childSessionKey?.trim();
+    if (!childKey || seenChildSessionKeys.has(childKey)) {
+      continue;
+    }
+    seenChildSessionKeys.add(childKey);
+
+    if (!run.endedAt) {
+      const stopResult = await killSubagentRun({
+        cfg: params.cfg,
+        entry: run,
+        cache: params.cache,
+      });
+      if (stopResult.killed) {
+        killed += 1;
+        labels.push(resolveSubagentLabel(run));
+      }
+    }
+
+    // Recurse for grandchildren even if this parent already ended.
+    const cascade = await cascadeKillChildren({
+      cfg: params.cfg,
+      parentChildSessionKey: childKey,
+      cache: params.cache,
+      seenChildSessionKeys,
+    });
+    killed += cascade.killed;
+    labels.push(...cascade.labels);
+  }
+
+  return { killed, labels };
+}
+
+/**
+ * Kill the active run(s) of one child session and everything it spawned.
+ * Used when a human stops a named agent from the roster.
+ */
+export async function killSubagentSession(params: {
+  cfg: SimpleClawConfig;
+  requesterSessionKey: string;
+  childSessionKey: string;
+}): Promise<{ killed: boolean; cascadeKilled: number }> {
+  const cache = new Map<string, Record<string, SessionEntry>>();
+  let killed = false;
+  for (const run of listSubagentRunsForRequester(params.requesterSessionKey)) {
+    if (run.childSessionKey !== params.childSessionKey || run.endedAt) {
+      continue;
+    }
+    const result = await killSubagentRun({ cfg: params.cfg, entry: run, cache });
+    killed = killed || result.killed;
+  }
+  const cascade = await cascadeKillChildren({
+    cfg: params.cfg,
+    parentChildSessionKey: params.childSessionKey,
+    cache,
+    seenChildSessionKeys: new Set([params.childSessionKey]),
+  });
+  return { killed, cascadeKilled: cascade.killed };
+}
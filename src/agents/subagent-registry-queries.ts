@@ -1,3 +1,4 @@
+import { normalizeAgentId, parseAgentSessionKey } from "../routing/session-key.js";
 import type { DeliveryContext } from "../utils/delivery-context.js";
 import type { SubagentRunRecord } from "./subagent-registry.types.js";
 
@@ -79,6 +80,24 @@ export function countActiveRunsForSessionFromRuns(
   return count;
 }
 
+export function countActiveRunsForAgentFromRuns(
+  runs: Map<string, SubagentRunRecord>,
+  agentId: string,
+): number {
+  const normalized = normalizeAgentId(agentId);
+  let count = 0;
+  for (const entry of runs.values()) {
+    if (typeof entry.endedAt === "number") {
+      continue;
+    }
+    const requesterAgentId = parseAgentSessionKey(entry.requesterSessionKey)?.agentId;
+    if (requesterAgentId && normalizeAgentId(requesterAgentId) === normalized) {
+      count += 1;
+    }
+  }
+  return count;
+}
+
 export function countActiveDescendantRunsFromRuns(
   runs: Map<string, SubagentRunRecord>,
   rootSessionKey: string,
@@ -4,6 +4,7 @@ import path from "node:path";
 import { afterEach, describe, expect, it, vi } from "vitest";
 import "./subagent-registry.mocks.shared.js";
 import { captureEnv } from "../test-utils/env.js";
+import { getBatch, resetBatchesForTests } from "./subagent-batch.js";
 import {
   addSubagentRunForTests,
   clearSubagentRunSteerRestart,
@@ -154,6 +155,7 @@ describe("subagent registry persistence", () => {
   afterEach(async () => {
     announceSpy.mockClear();
     resetSubagentRegistryForTests({ persist: false });
+    resetBatchesForTests();
     if (tempStateDir) {
       await fs.rm(tempStateDir, { recursive: true, force: true });
       tempStateDir = null;
@@ -418,6 +420,125 @@ describe("subagent registry persistence", () => {
     expect(persisted.has(runId)).toBe(false);
   });
 
+  const writePersistedBatch = async (batch: {
+    batchId: string;
+    runIds: string[];
+    completedResults: Array<Record<string, unknown>>;
+  }) => {
+    if (!tempStateDir) {
+      throw new Error("tempStateDir not initialized");
+    }
+    const batchesPath = path.join(tempStateDir, "subagents", "batches.json");
+    await fs.writeFile(
+      batchesPath,
+      `${JSON.stringify({
+        version: 1,
+        batches: {
+          [batch.batchId]: {
+            ...batch,
+            requesterSessionKey: "agent:main:main",
+            label: "fan-out",
+            createdAt: Date.now() - 1000,
+            autoAggregate: true,
+          },
+        },
+      })}\n`,
+      "utf8",
+    );
+  };
+
+  const restartWithBatchesAndFlush = async () => {
+    resetSubagentRegistryForTests({ persist: false });
+    resetBatchesForTests({ loadFromDisk: true });
+    initSubagentRegistry();
+    for (let i = 0; i < 10; i += 1) {
+      await flushQueuedRegistryWork();
+    }
+  };
+
+  it("announces a restored batch aggregate when a run was lost in the restart", async () => {
+    const now = Date.now();
+    await writePersistedRegistry({
+      version: 2,
+      runs: {
+        "run-done": {
+          runId: "run-done",
+          childSessionKey: "agent:main:subagent:done",
+          requesterSessionKey: "agent:main:main",
+          requesterDisplayKey: "main",
+          task: "first half",
+          cleanup: "keep",
+          createdAt: now - 20,
+          startedAt: now - 10,
+          endedAt: now - 5,
+          cleanupHandled: true,
+          cleanupCompletedAt: now - 4,
+          batchId: "batch-1",
+        },
+      },
+    });
+    await writePersistedBatch({
+      batchId: "batch-1",
+      runIds: ["run-done", "run-lost"],
+      completedResults: [
+        { runId: "run-done", outcome: { status: "ok" }, findings: "half done", endedAt: now - 5 },
+      ],
+    });
+
+    await restartWithBatchesAndFlush();
+
+    expect(announceSpy).toHaveBeenCalledTimes(1);
+    const call = (announceSpy.mock.calls as unknown as Array<[Record<string, unknown>]>)[0]?.[0];
+    expect(call?.childRunId).toBe("run-done");
+    expect(call?.roundOneReply).toContain("[SUCCESS] run-done: half done");
+    expect(call?.roundOneReply).toContain("[FAILED] run-lost");
+    expect(getBatch("batch-1")).toBeUndefined();
+  });
+
+  it("marks batched runs interrupted by the restart as errored", async () => {
+    const now = Date.now();
+    await writePersistedRegistry({
+      version: 2,
+      runs: {
+        "run-interrupted": {
+          runId: "run-interrupted",
+          childSessionKey: "agent:main:subagent:interrupted",
+          requesterSessionKey: "agent:main:main",
+          requesterDisplayKey: "main",
+          task: "second half",
+          cleanup: "keep",
+          createdAt: now - 20,
+          startedAt: now - 10,
+          batchId: "batch-2",
+        },
+      },
+    });
+    await writePersistedBatch({
+      batchId: "batch-2",
+      runIds: ["run-finished", "run-interrupted"],
+      completedResults: [
+        {
+          runId: "run-finished",
+          outcome: { status: "ok" },
+          findings: "kept across restart",
+          endedAt: now - 5,
+        },
+      ],
+    });
+
+    await restartWithBatchesAndFlush();
+
+    const runs = loadSubagentRegistryFromDisk();
+    expect(runs.get("run-interrupted")?.outcome).toEqual({
+      status: "error",
+      error: "subagent run interrupted by gateway restart",
+    });
+    expect(announceSpy).toHaveBeenCalledTimes(1);
+    const call = (announceSpy.mock.calls as unknown as Array<[Record<string, unknown>]>)[0]?.[0];
+    expect(call?.roundOneReply).toContain("[SUCCESS] run-fini: kept across restart");
+    expect(call?.roundOneReply).toContain("[FAILED]");
+  });
+
   it("uses isolated temp state when SIMPLECLAW_STATE_DIR is unset in tests", async () => {
     delete process.env.SIMPLECLAW_STATE_DIR;
     vi.resetModules();
@@ -9,15 +9,21 @@ import { callGateway } from "../gateway/call.js";
 import { onAgentEvent } from "../infra/agent-events.js";
 import { defaultRuntime } from "../runtime.js";
 import { type DeliveryContext, normalizeDeliveryContext } from "../utils/delivery-context.js";
+import { recordOrchestratorWorkerUsage } from "./orchestrator-budget.js";
 import { resetAnnounceQueuesForTests } from "./subagent-announce-queue.js";
 import { runSubagentAnnounceFlow, type SubagentRunOutcome } from "./subagent-announce.js";
 import {
   formatBatchResults,
   getBatch,
   getBatchIdForRun,
+  isBatchComplete,
+  listBatchRunReports,
   recordBatchRunCompletion,
   removeBatch,
+  restoreBatches,
+  setBatchTimeoutHandler,
 } from "./subagent-batch.js";
+import { isHolding } from "./subagent-hold-buffer.js";
 import {
   SUBAGENT_ENDED_OUTCOME_KILLED,
   SUBAGENT_ENDED_REASON_COMPLETE,
@@ -36,6 +42,7 @@ import {
 } from "./subagent-registry-completion.js";
 import {
   countActiveDescendantRunsFromRuns,
+  countActiveRunsForAgentFromRuns,
   countActiveRunsForSessionFromRuns,
   findRunIdsByChildSessionKeyFromRuns,
   listDescendantRunsForRequesterFromRuns,
@@ -212,6 +219,8 @@ function reconcileOrphanedRestoredRuns() {
 
 const resumedRuns = new Set<string>();
 const endedHookInFlightRunIds = new Set<string>();
+/** Batches whose aggregated announce is in flight (guards against a second aggregate). */
+const aggregatingBatchIds = new Set<string>();
 
 function suppressAnnounceForSteerRestart(entry?: SubagentRunRecord) {
   return entry?.suppressAnnounceReason === "steer-restart";
@@ -325,6 +334,7 @@ function startSubagentAnnounceCleanupFlow(runId: string, entry: SubagentRunRecor
 
   // Mark any associated named agent as idle now that the run has ended.
   markNamedAgentIdleBySessionKey(entry.childSessionKey);
+  chargeOrchestratorBudget(entry);
 
   // Check if this run is part of a batch with autoAggregate enabled.
   const batchId = entry.batchId || getBatchIdForRun(runId);
@@ -340,6 +350,28 @@ function startSubagentAnnounceCleanupFlow(runId: string, entry: SubagentRunRecor
   return true;
 }
 
+/** Charge the finished run to its orchestrator's budget, once per run. */
+function chargeOrchestratorBudget(entry: SubagentRunRecord) {
+  if (entry.usageRecordedAt) {
+    return;
+  }
+  entry.usageRecordedAt = Date.now();
+  persistSubagentRuns();
+  void (async () => {
+    await recordOrchestratorWorkerUsage({
+      cfg: loadConfig(),
+      requesterSessionKey: entry.requesterSessionKey,
+      childSessionKey: entry.childSessionKey,
+      batchId: entry.batchId,
+      startedAt: entry.startedAt,
+    });
+  })().catch((err) => {
+    defaultRuntime.log(
+      `[warn] Orchestrator budget charge failed run=${entry.runId} requester=${entry.requesterSessionKey} error=${String(err)}`,
+    );
+  });
+}
+
 /** Fire the normal per-run announce flow (non-batched or batch with autoAggregate=false). */
 function startSingleRunAnnounceFlow(runId: string, entry: SubagentRunRecord) {
   const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
@@ -359,6 +391,7 @@ function startSingleRunAnnounceFlow(runId: string, entry: SubagentRunRecord) {
     outcome: entry.outcome,
     spawnMode: entry.spawnMode,
     expectsCompletionMessage: entry.expectsCompletionMessage,
+    structuredResult: entry.report?.result,
   }).then((didAnnounce) => {
     void finalizeSubagentCleanup(runId, entry.cleanup, didAnnounce);
   });
@@ -394,6 +427,7 @@ async function handleBatchRunCompletion(runId: string, entry: SubagentRunRecord,
     runId,
     outcome: entry.outcome ?? { status: "unknown" },
     findings,
+    result: entry.report?.result,
     label: entry.label,
     endedAt: entry.endedAt,
   });
@@ -412,17 +446,30 @@ async function handleBatchRunCompletion(runId: string, entry: SubagentRunRecord,
   }
 
   // Batch is complete — send aggregated announce.
-  const batch = getBatch(batchId);
-  if (!batch) {
-    // Should not happen, but fall back to single announce.
+  if (!getBatch(batchId) || aggregatingBatchIds.has(batchId)) {
+    // Batch is gone or its aggregate is already in flight; fall back to single announce.
     startSingleRunAnnounceFlow(runId, entry);
     return;
   }
 
+  // Use the last-completing run's session to anchor the announce.
+  announceBatchAggregate(batchId, entry);
+}
+
+/**
+ * Send one aggregated announce for a completed batch, anchored on `entry`,
+ * then finalize cleanup for every ended run in the batch and drop the batch.
+ */
+function announceBatchAggregate(batchId: string, entry: SubagentRunRecord) {
+  const batch = getBatch(batchId);
+  if (!batch) {
+    return;
+  }
+  aggregatingBatchIds.add(batchId);
   const aggregatedMessage = formatBatchResults(batchId);
+  const reports = listBatchRunReports(batchId);
   const requesterOrigin = normalizeDeliveryContext(entry.requesterOrigin);
 
-  // Use the last-completing run's session to anchor the announce.
   void runSubagentAnnounceFlow({
     childSessionKey: entry.childSessionKey,
     childRunId: entry.runId,
@@ -440,18 +487,134 @@ async function handleBatchRunCompletion(runId: string, entry: SubagentRunRecord,
     spawnMode: entry.spawnMode,
     expectsCompletionMessage: entry.expectsCompletionMessage,
     roundOneReply: aggregatedMessage,
+    structuredResult: reports.length > 0 ? reports : undefined,
   }).then((didAnnounce) => {
-    // Finalize cleanup for ALL runs in the batch.
+    // Finalize cleanup for every ended run in the batch. Runs still going
+    // after a batch timeout keep their normal lifecycle.
     for (const batchRunId of batch.runIds) {
       const batchEntry = subagentRuns.get(batchRunId);
-      if (batchEntry) {
+      if (batchEntry && typeof batchEntry.endedAt === "number") {
         void finalizeSubagentCleanup(batchRunId, batchEntry.cleanup, didAnnounce);
       }
     }
     removeBatch(batchId);
+    aggregatingBatchIds.delete(batchId);
   });
 }
 
+/** Pick the run that anchors a batch announce: the latest one to end, else any known run. */
+function resolveBatchAnchorRun(runIds: Iterable<string>): SubagentRunRecord | undefined {
+  let anchor: SubagentRunRecord | undefined;
+  for (const runId of runIds) {
+    const entry = subagentRuns.get(runId);
+    if (!entry) {
+      continue;
+    }
+    if (!anchor || (entry.endedAt ?? 0) > (anchor.endedAt ?? 0)) {
+      anchor = entry;
+    }
+  }
+  return anchor;
+}
+
+/** Timed-out batches are force-completed by the batch manager; announce what they have. */
+function handleBatchTimeout(batchId: string) {
+  const batch = getBatch(batchId);
+  if (!batch?.autoAggregate || aggregatingBatchIds.has(batchId)) {
+    return;
+  }
+  const anchor = resolveBatchAnchorRun(batch.runIds);
+  if (!anchor) {
+    defaultRuntime.log(
+      `[warn] Subagent batch timed out with no known runs batch=${batchId} requester=${batch.requesterSessionKey}`,
+    );
+    removeBatch(batchId);
+    return;
+  }
+  announceBatchAggregate(batchId, anchor);
+}
+
+setBatchTimeoutHandler(handleBatchTimeout);
+
+/**
+ * Runs cannot survive a gateway restart. Batched runs and runs whose requester
+ * is holding results were still going when the gateway went down: mark them
+ * errored so the batch aggregate or hold buffer gets a result now instead of
+ * after a full wait timeout.
+ */
+function completeInterruptedRestoredRuns() {
+  const now = Date.now();
+  for (const [runId, entry] of subagentRuns.entries()) {
+    if (typeof entry.endedAt === "number" || suppressAnnounceForSteerRestart(entry)) {
+      continue;
+    }
+    const batchId = entry.batchId || getBatchIdForRun(runId);
+    const inBatch = batchId ? getBatch(batchId) !== undefined : false;
+    if (!inBatch && !isHolding(entry.requesterSessionKey)) {
+      continue;
+    }
+    resumedRuns.add(runId);
+    defaultRuntime.log(
+      `[warn] Subagent run interrupted by gateway restart run=${runId} child=${entry.childSessionKey}`,
+    );
+    void completeSubagentRun({
+      runId,
+      endedAt: now,
+      outcome: { status: "error", error: "subagent run interrupted by gateway restart" },
+      reason: SUBAGENT_ENDED_REASON_ERROR,
+      sendFarewell: true,
+      accountId: entry.requesterOrigin?.accountId,
+      triggerCleanup: true,
+    });
+  }
+}
+
+/**
+ * Reconcile restored batches with the run registry: runs that no longer exist
+ * are recorded as errored, and batches that are complete with nothing left to
+ * resume get their aggregate announced.
+ */
+function reconcileRestoredBatches() {
+  for (const snapshot of restoreBatches()) {
+    const known = snapshot.runIds.filter((runId) => subagentRuns.has(runId));
+    if (!snapshot.autoAggregate) {
+      // Non-aggregating batches only track membership; drop them once their runs are gone.
+      if (known.length === 0) {
+        removeBatch(snapshot.batchId);
+      }
+      continue;
+    }
+    for (const runId of snapshot.runIds) {
+      if (snapshot.completedRunIds.includes(runId) || subagentRuns.has(runId)) {
+        continue;
+      }
+      recordBatchRunCompletion({
+        runId,
+        outcome: { status: "error", error: "subagent run lost during gateway restart" },
+        findings: "(run was lost when the gateway restarted)",
+      });
+    }
+    if (!isBatchComplete(snapshot.batchId)) {
+      continue;
+    }
+    // A run still awaiting cleanup re-records its result when resumed and
+    // triggers the aggregate itself.
+    const pendingCleanup = known.some((runId) => !subagentRuns.get(runId)?.cleanupCompletedAt);
+    if (pendingCleanup) {
+      continue;
+    }
+    const anchor = resolveBatchAnchorRun(known);
+    if (!anchor) {
+      defaultRuntime.log(
+        `[warn] Subagent batch dropped after restart with no known runs batch=${snapshot.batchId} requester=${snapshot.requesterSessionKey}`,
+      );
+      removeBatch(snapshot.batchId);
+      continue;
+    }
+    announceBatchAggregate(snapshot.batchId, anchor);
+  }
+}
+
 function resumeSubagentRun(runId: string) {
   if (!runId || resumedRuns.has(runId)) {
     return;
@@ -536,13 +699,12 @@ function restoreSubagentRunsOnce() {
       runs: subagentRuns,
       mergeOnly: true,
     });
-    if (restoredCount === 0) {
-      return;
-    }
-    if (reconcileOrphanedRestoredRuns()) {
+    if (restoredCount > 0 && reconcileOrphanedRestoredRuns()) {
       persistSubagentRuns();
     }
-    if (subagentRuns.size === 0) {
+    completeInterruptedRestoredRuns();
+    reconcileRestoredBatches();
+    if (restoredCount === 0 || subagentRuns.size === 0) {
       return;
     }
     // Resume pending work.
@@ -908,6 +1070,8 @@ export function replaceSubagentRunAfterSteer(params: {
     suppressAnnounceReason: undefined,
     announceRetryCount: undefined,
     lastAnnounceRetryAt: undefined,
+    report: undefined,
+    usageRecordedAt: undefined,
     spawnMode,
     archiveAtMs,
     runTimeoutSeconds,
@@ -937,6 +1101,7 @@ export function registerSubagentRun(params: {
   expectsCompletionMessage?: boolean;
   spawnMode?: "run" | "session";
   batchId?: string;
+  resultSchema?: Record<string, unknown>;
 }) {
   const now = Date.now();
   const cfg = loadConfig();
@@ -965,6 +1130,7 @@ export function registerSubagentRun(params: {
     archiveAtMs,
     cleanupHandled: false,
     batchId: params.batchId,
+    resultSchema: params.resultSchema,
   });
   ensureListener();
   persistSubagentRuns();
@@ -1045,6 +1211,7 @@ export function resetSubagentRegistryForTests(opts?: { persist?: boolean }) {
   subagentRuns.clear();
   resumedRuns.clear();
   endedHookInFlightRunIds.clear();
+  aggregatingBatchIds.clear();
   resetAnnounceQueuesForTests();
   stopSweeper();
   restoreAttempted = false;
@@ -1167,6 +1334,32 @@ export function markSubagentRunTerminated(params: {
   return updated;
 }
 
+/** The newest still-running run for a child session (named agents reuse sessions). */
+export function findActiveSubagentRunForChild(childSessionKey: string): SubagentRunRecord | null {
+  let latest: SubagentRunRecord | null = null;
+  for (const runId of findRunIdsByChildSessionKeyFromRuns(subagentRuns, childSessionKey)) {
+    const entry = subagentRuns.get(runId);
+    if (!entry || typeof entry.endedAt === "number") {
+      continue;
+    }
+    if (!latest || entry.createdAt > latest.createdAt) {
+      latest = entry;
+    }
+  }
+  return latest;
+}
+
+/** Store a worker's structured result; the latest report wins. */
+export function recordSubagentRunReport(runId: string, result: unknown): boolean {
+  const entry = subagentRuns.get(runId);
+  if (!entry) {
+    return false;
+  }
+  entry.report = { result, reportedAt: Date.now() };
+  persistSubagentRuns();
+  return true;
+}
+
 export function listSubagentRunsForRequester(requesterSessionKey: string): SubagentRunRecord[] {
   return listRunsForRequesterFromRuns(subagentRuns, requesterSessionKey);
 }
@@ -1178,6 +1371,11 @@ export function countActiveRunsForSession(requesterSessionKey: string): number {
   );
 }
 
+/** Active runs spawned by any session of the given agent. */
+export function countActiveRunsForAgent(agentId: string): number {
+  return countActiveRunsForAgentFromRuns(getSubagentRunsSnapshotForRead(subagentRuns), agentId);
+}
+
 export function countActiveDescendantRuns(rootSessionKey: string): number {
   return countActiveDescendantRunsFromRuns(
     getSubagentRunsSnapshotForRead(subagentRuns),
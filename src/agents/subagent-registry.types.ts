@@ -34,4 +34,10 @@ export type SubagentRunRecord = {
   endedHookEmittedAt?: number;
   /** Batch ID when this run is part of a coordinated fan-out batch. */
   batchId?: string;
+  /** JSON Schema the worker's `report` result must match (from sessions_spawn). */
+  resultSchema?: Record<string, unknown>;
+  /** Structured result submitted through the worker's `report` tool. */
+  report?: { result: unknown; reportedAt: number };
+  /** Set once the run's usage has been charged to an orchestrator budget. */
+  usageRecordedAt?: number;
 };
@@ -0,0 +1,46 @@
+/**
+ * Structured worker results: `sessions_spawn` may pass a JSON Schema and the
+ * worker finishes by calling the `report` tool with a matching value.
+ */
+
+import { validateJsonSchemaValue } from "../plugins/schema-validator.js";
+
+export type SubagentResultSchema = Record<string, unknown>;
+
+/** Keyed by schema text so identical schemas across workers share one compiled validator. */
+function schemaCacheKey(schema: SubagentResultSchema): string {
+  return `subagent-result:${JSON.stringify(schema)}`;
+}
+
+/**
+ * Validate a value against a worker result schema.
+ * Throws when the schema itself does not compile.
+ */
+export function validateSubagentResult(
+  schema: SubagentResultSchema,
+  value: unknown,
+): { ok: true } | { ok: false; errors: string[] } {
+  return validateJsonSchemaValue({ schema, cacheKey: schemaCacheKey(schema), value });
+}
+
+/** Returns an error message when the schema is not usable, else undefined. */
+export function checkSubagentResultSchema(schema: unknown): string | undefined {
+  if (!schema || typeof schema !== "object" || Array.isArray(schema)) {
+    return "resultSchema must be a JSON Schema object";
+  }
+  try {
+    validateSubagentResult(schema as SubagentResultSchema, null);
+  } catch (err) {
+    return `resultSchema is not a valid JSON Schema: ${err instanceof Error ? err.message : String(err)}`;
+  }
+  return undefined;
+}
+
+/** Compact single-line JSON used when rendering results for the requester. */
+export function formatSubagentResult(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? "null";
+  } catch {
+    return String(value);
+  }
+}
@@ -1,13 +1,16 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import {
   countRosterEntries,
+  findNamedAgentsByName,
   getRosterNameForSession,
+  listAllRosterEntries,
   listRoster,
   lookupNamedAgent,
   markNamedAgentIdle,
   markNamedAgentIdleBySessionKey,
   markNamedAgentRunning,
   registerNamedAgent,
+  renameNamedAgent,
   resetRosterForTests,
   retireNamedAgent,
 } from "./subagent-roster.js";
@@ -226,6 +229,66 @@ describe("listRoster", () => {
   });
 });
 
+describe("renameNamedAgent", () => {
+  it("keeps the session key under the new name", () => {
+    registerNamedAgent({
+      name: "researcher",
+      agentId: "main",
+      sessionKey: "agent:main:subagent:uuid-1",
+      requesterSessionKey: "agent:main:main",
+      runId: "run-1",
+    });
+    const result = renameNamedAgent("agent:main:main", "Researcher", " scout ");
+    expect(result.ok).toBe(true);
+    expect(lookupNamedAgent("agent:main:main", "scout")?.sessionKey).toBe(
+      "agent:main:subagent:uuid-1",
+    );
+    expect(lookupNamedAgent("agent:main:main", "researcher")).toBeUndefined();
+    expect(getRosterNameForSession("agent:main:subagent:uuid-1")).toBe("scout");
+  });
+
+  it("rejects missing entries, empty names and collisions", () => {
+    for (const name of ["a", "b"]) {
+      registerNamedAgent({
+        name,
+        agentId: "main",
+        sessionKey: `agent:main:subagent:${name}`,
+        requesterSessionKey: "agent:main:main",
+        runId: `run-${name}`,
+      });
+    }
+    expect(renameNamedAgent("agent:main:main", "missing", "c")).toEqual({
+      ok: false,
+      error: 'Named agent "missing" not found in roster.',
+    });
+    expect(renameNamedAgent("agent:main:main", "a", "  ").ok).toBe(false);
+    expect(renameNamedAgent("agent:main:main", "a", "B")).toEqual({
+      ok: false,
+      error: 'Named agent "B" already exists.',
+    });
+    expect(renameNamedAgent("agent:main:main", "a", "A").ok).toBe(true);
+  });
+});
+
+describe("listAllRosterEntries", () => {
+  it("lists every requester and finds names across them", () => {
+    for (const requesterSessionKey of ["agent:ops:main", "agent:main:main"]) {
+      registerNamedAgent({
+        name: "researcher",
+        agentId: "main",
+        sessionKey: `${requesterSessionKey}:researcher`,
+        requesterSessionKey,
+        runId: "run-1",
+      });
+    }
+    expect(listAllRosterEntries().map((entry) => entry.requesterSessionKey)).toEqual([
+      "agent:main:main",
+      "agent:ops:main",
+    ]);
+    expect(findNamedAgentsByName("RESEARCHER")).toHaveLength(2);
+  });
+});
+
 describe("countRosterEntries", () => {
   it("returns 0 when empty", () => {
     expect(countRosterEntries("agent:main:main")).toBe(0);
@@ -32,6 +32,7 @@ export type RosterSnapshot = {
   name: string;
   agentId: string;
   sessionKey: string;
+  requesterSessionKey: string;
   status: "idle" | "running";
   model?: string;
   currentRunId?: string;
@@ -172,27 +173,78 @@ export function retireNamedAgent(requesterSessionKey: string, name: string): boo
   return true;
 }
 
+/**
+ * Rename a named agent. The session key is kept, so the conversation carries
+ * over under the new name.
+ */
+export function renameNamedAgent(
+  requesterSessionKey: string,
+  name: string,
+  newName: string,
+): { ok: true; entry: RosterEntry } | { ok: false; error: string } {
+  ensureLoaded();
+  const trimmed = newName.trim();
+  if (!trimmed) {
+    return { ok: false, error: "New name must not be empty." };
+  }
+  const key = rosterKey(requesterSessionKey, name);
+  const entry = roster.get(key);
+  if (!entry) {
+    return { ok: false, error: `Named agent "${name}" not found in roster.` };
+  }
+  const nextKey = rosterKey(requesterSessionKey, trimmed);
+  if (nextKey !== key && roster.has(nextKey)) {
+    return { ok: false, error: `Named agent "${trimmed}" already exists.` };
+  }
+  roster.delete(key);
+  entry.name = trimmed;
+  roster.set(nextKey, entry);
+  persist();
+  return { ok: true, entry };
+}
+
+function toSnapshot(entry: RosterEntry): RosterSnapshot {
+  return {
+    name: entry.name,
+    agentId: entry.agentId,
+    sessionKey: entry.sessionKey,
+    requesterSessionKey: entry.requesterSessionKey,
+    status: entry.status,
+    model: entry.model,
+    currentRunId: entry.currentRunId,
+    createdAt: entry.createdAt,
+    lastActiveAt: entry.lastActiveAt,
+  };
+}
+
 /** List all roster entries for a requester. */
 export function listRoster(requesterSessionKey: string): RosterSnapshot[] {
   ensureLoaded();
   const results: RosterSnapshot[] = [];
   for (const entry of roster.values()) {
     if (entry.requesterSessionKey === requesterSessionKey) {
-      results.push({
-        name: entry.name,
-        agentId: entry.agentId,
-        sessionKey: entry.sessionKey,
-        status: entry.status,
-        model: entry.model,
-        currentRunId: entry.currentRunId,
-        createdAt: entry.createdAt,
-        lastActiveAt: entry.lastActiveAt,
-      });
+      results.push(toSnapshot(entry));
     }
   }
   return results.toSorted((a, b) => a.name.localeCompare(b.name));
 }
 
+/** List roster entries across all requesters, sorted by requester then name. */
+export function listAllRosterEntries(): RosterSnapshot[] {
+  ensureLoaded();
+  return Array.from(roster.values(), toSnapshot).toSorted(
+    (a, b) =>
+      a.requesterSessionKey.localeCompare(b.requesterSessionKey) || a.name.localeCompare(b.name),
+  );
+}
+
+/** Find entries with this name under any requester (names are only unique per requester). */
+export function findNamedAgentsByName(name: string): RosterSnapshot[] {
+  ensureLoaded();
+  const normalized = name.trim().toLowerCase();
+  return listAllRosterEntries().filter((entry) => entry.name.toLowerCase() === normalized);
+}
+
 /** Count roster entries for a requester. */
 export function countRosterEntries(requesterSessionKey: string): number {
   ensureLoaded();
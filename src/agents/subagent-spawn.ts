@@ -9,10 +9,16 @@ import { normalizeDeliveryContext } from "../utils/delivery-context.js";
 import { resolveAgentConfig } from "./agent-scope.js";
 import { AGENT_LANE_SUBAGENT } from "./lanes.js";
 import { resolveSubagentSpawnModelSelection } from "./model-selection.js";
+import { checkOrchestratorSpawnBudget, resolveOrchestratorBudget } from "./orchestrator-budget.js";
 import { buildSubagentSystemPrompt } from "./subagent-announce.js";
 import { addRunToBatch } from "./subagent-batch.js";
 import { getSubagentDepthFromSessionStore } from "./subagent-depth.js";
-import { countActiveRunsForSession, registerSubagentRun } from "./subagent-registry.js";
+import {
+  countActiveRunsForAgent,
+  countActiveRunsForSession,
+  registerSubagentRun,
+} from "./subagent-registry.js";
+import { checkSubagentResultSchema } from "./subagent-result.js";
 import {
   countRosterEntries,
   lookupNamedAgent,
@@ -44,6 +50,8 @@ export type SpawnSubagentParams = {
   batchId?: string;
   /** Named agent — reuses persistent session for conversation continuity. */
   name?: string;
+  /** JSON Schema for the worker's structured result, submitted via the `report` tool. */
+  resultSchema?: Record<string, unknown>;
 };
 
 export type SpawnSubagentContext = {
@@ -197,6 +205,12 @@ export async function spawnSubagentDirect(
       error: 'mode="session" requires thread=true so the subagent can stay bound to a thread.',
     };
   }
+  if (params.resultSchema !== undefined) {
+    const schemaError = checkSubagentResultSchema(params.resultSchema);
+    if (schemaError) {
+      return { status: "error", error: schemaError };
+    }
+  }
   const cleanup =
     namedAgent || spawnMode === "session"
       ? "keep"
@@ -264,6 +278,18 @@ export async function spawnSubagentDirect(
   const requesterAgentId = normalizeAgentId(
     ctx.requesterAgentIdOverride ?? parseAgentSessionKey(requesterInternalKey)?.agentId,
   );
+  const orchestratorBudget = resolveOrchestratorBudget(cfg, requesterAgentId);
+  if (orchestratorBudget) {
+    const budgetError = checkOrchestratorSpawnBudget({
+      budget: orchestratorBudget,
+      agentId: requesterAgentId,
+      activeWorkers: countActiveRunsForAgent(requesterAgentId),
+      batchId: params.batchId,
+    });
+    if (budgetError) {
+      return { status: "forbidden", error: budgetError };
+    }
+  }
   const targetAgentId = requestedAgentId ? normalizeAgentId(requestedAgentId) : requesterAgentId;
   if (targetAgentId !== requesterAgentId) {
     const allowAgents = resolveAgentConfig(cfg, requesterAgentId)?.subagents?.allowAgents ?? [];
@@ -433,6 +459,7 @@ export async function spawnSubagentDirect(
     task,
     childDepth,
     maxSpawnDepth,
+    resultSchema: params.resultSchema,
   });
   const childTaskMessage = [
     `[Subagent Context] You are running as a subagent (depth ${childDepth}/${maxSpawnDepth}). Results auto-announce to your requester; do not busy-poll for status.`,
@@ -540,6 +567,7 @@ export async function spawnSubagentDirect(
     expectsCompletionMessage,
     spawnMode,
     batchId: params.batchId,
+    resultSchema: params.resultSchema,
   });
 
   // Register this run in the batch manager for fan-out/fan-in coordination.
@@ -113,6 +113,14 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding"],
     includeInSimpleClawGroup: true,
   },
+  {
+    id: "memory_facts",
+    label: "memory_facts",
+    description: "Structured facts",
+    sectionId: "memory",
+    profiles: ["coding"],
+    includeInSimpleClawGroup: true,
+  },
   {
     id: "sessions_list",
     label: "sessions_list",
@@ -161,6 +169,14 @@ const CORE_TOOL_DEFINITIONS: CoreToolDefinition[] = [
     profiles: ["coding", "messaging"],
     includeInSimpleClawGroup: true,
   },
+  {
+    id: "report",
+    label: "report",
+    description: "Submit structured sub-agent result",
+    sectionId: "sessions",
+    profiles: ["minimal", "coding", "messaging"],
+    includeInSimpleClawGroup: true,
+  },
   {
     id: "session_status",
     label: "session_status",
@@ -228,6 +228,7 @@ JOB SCHEMA (for add action):
   "schedule": { ... },      // Required: when to run
   "payload": { ... },       // Required: what to execute
   "delivery": { ... },      // Optional: announce summary or webhook POST
+  "retry": { ... },         // Optional: retry failed runs, then notify a dead-letter target
   "sessionTarget": "main" | "isolated",  // Required
   "enabled": true | false   // Optional, default true
 }
@@ -239,6 +240,14 @@ SCHEDULE TYPES (schedule.kind):
   { "kind": "every", "everyMs": <interval-ms>, "anchorMs": <optional-start-ms> }
 - "cron": Cron expression
   { "kind": "cron", "expr": "<cron-expression>", "tz": "<optional-timezone>" }
+- "after": Run when another job finishes (dependency chain)
+  { "kind": "after", "jobId": "<upstream-job-id>", "on": "ok|error|always" }
+  - "on" defaults to "ok"; the upstream run's summary is appended to the agentTurn message
+  - Cycles are rejected
+
+SCHEDULE EXCLUSIONS (optional, any schedule kind):
+  "exclude": { "skipWeekdays": [0-6], "windows": [{ "start": "YYYY-MM-DD|ISO", "end": "<optional>", "label": "<optional>" }], "icsPath": "<holiday .ics file>" }
+  - Runs falling on excluded days are skipped and logged with a skip reason; forced manual runs still execute
 
 ISO timestamps without an explicit timezone are treated as UTC.
 
@@ -254,6 +263,20 @@ DELIVERY (top-level):
   - announce: send to chat channel (optional channel/to target)
   - webhook: send finished-run event as HTTP POST to delivery.to (URL required)
   - If the task needs to send to a specific chat/recipient, set announce delivery.channel/to; do not call messaging tools inside the run.
+  - "when" (optional, announce only): conditions that must all pass before output is posted
+    [{ "kind": "regex", "pattern": "<regex>", "flags": "<optional>", "negate": <optional-bool> },
+     { "kind": "jsonPath", "path": "$.field[0].x", "equals": <optional value>, "negate": <optional-bool> },
+     { "kind": "changed" }]
+  - Use "when" for monitoring jobs so unchanged or all-clear results are not posted
+  - "targets" (optional, announce only): fan out to several destinations; replaces channel/to
+    [{ "channel": "<channel>", "to": "<dest>", "format": "full|summary", "prefix": "<optional>", "bestEffort": <optional-bool> },
+     { "kind": "webhook", "to": "https://...", "id": "<optional label>" }]
+  - A failing target only fails the run when it is not bestEffort; results land in state.lastDeliveryTargets
+
+RETRY (top-level, optional):
+  { "maxAttempts": <total-attempts>, "backoffMs": <optional, default 30000>, "backoffMultiplier": <optional, default 2>, "maxBackoffMs": <optional>, "retryOn": ["timeout", "delivery-target", "execution"], "deadLetter": { "channel": "<optional>", "to": "<optional>" } }
+  - Failed runs are retried with exponential backoff until maxAttempts is reached
+  - deadLetter announces the final failure on a chat channel
 
 CRITICAL CONSTRAINTS:
 - sessionTarget="main" REQUIRES payload.kind="systemEvent"
@@ -306,6 +329,7 @@ Use jobId as the canonical identifier; id is accepted for compatibility. Use con
               "wakeMode",
               "payload",
               "delivery",
+              "retry",
               "enabled",
               "description",
               "deleteAfterRun",
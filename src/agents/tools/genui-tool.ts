@@ -13,7 +13,17 @@ import { Type } from "@sinclair/typebox";
 import type { SimpleClawConfig } from "../../config/config.js";
 import { createSubsystemLogger } from "../../logging/subsystem.js";
 import { getGlobalGenUiBroadcast } from "../judge/genui-broadcast.js";
-import type { GenUiRenderPayload, GenUiUpdatePayload } from "../judge/judge-hook.js";
+import {
+  markGenUiRenderDismissed,
+  mergeGenUiRenderParams,
+  trackGenUiRender,
+} from "../judge/genui-renders.js";
+import { resolveJudgeConfig } from "../judge/judge-config.js";
+import {
+  getActiveGenUiRegistry,
+  type GenUiRenderPayload,
+  type GenUiUpdatePayload,
+} from "../judge/judge-hook.js";
 import { stringEnum } from "../schema/typebox.js";
 import { type AnyAgentTool, jsonResult } from "./common.js";
 
@@ -66,15 +76,28 @@ export function createGenUiTool(options?: {
       switch (action) {
         case "render": {
           const renderId = crypto.randomUUID();
+          const renderParams = (params.params as Record<string, unknown>) ?? {};
           const payload: GenUiRenderPayload = {
             id: renderId,
             sessionKey: options?.agentSessionKey,
             componentId,
-            params: (params.params as Record<string, unknown>) ?? {},
+            params: renderParams,
             toolName: "genui",
             ts: Date.now(),
           };
           broadcast("genui.render", payload, { dropIfSlow: true });
+          trackGenUiRender({
+            renderId,
+            sessionKey: options?.agentSessionKey,
+            componentId,
+            toolName: "genui",
+            params: renderParams,
+            component:
+              getActiveGenUiRegistry()?.lookupById(componentId) ??
+              Object.values(resolveJudgeConfig(options?.config)?.registry ?? {}).find(
+                (def) => def.componentId === componentId,
+              ),
+          });
           log.debug(`genui render: ${componentId} (${renderId})`);
           return jsonResult({ ok: true, renderId, componentId });
         }
@@ -90,6 +113,7 @@ export function createGenUiTool(options?: {
             ts: Date.now(),
           };
           broadcast("genui.update", payload, { dropIfSlow: true });
+          mergeGenUiRenderParams(renderId, (params.params as Record<string, unknown>) ?? {});
           log.debug(`genui update: ${componentId} (${renderId})`);
           return jsonResult({ ok: true, renderId });
         }
@@ -104,6 +128,7 @@ export function createGenUiTool(options?: {
             { id: renderId, toolResult: null, dismissed: true, ts: Date.now() },
             { dropIfSlow: true },
           );
+          markGenUiRenderDismissed(renderId);
           log.debug(`genui dismiss: ${componentId} (${renderId})`);
           return jsonResult({ ok: true, renderId, dismissed: true });
         }
@@ -1,9 +1,14 @@
 import { beforeEach, describe, expect, it } from "vitest";
 import {
+  getMemoryFactMocks,
   resetMemoryToolMockState,
   setMemorySearchImpl,
 } from "../../../test/helpers/memory-tool-manager-mock.js";
-import { createMemorySearchTool } from "./memory-tool.js";
+import {
+  createMemoryFactsTool,
+  createMemorySearchTool,
+  parseFactSourceCitation,
+} from "./memory-tool.js";
 
 describe("memory_search unavailable payloads", () => {
   beforeEach(() => {
@@ -56,3 +61,62 @@ describe("memory_search unavailable payloads", () => {
     });
   });
 });
+
+describe("memory_facts", () => {
+  beforeEach(() => {
+    resetMemoryToolMockState();
+  });
+
+  function createTool() {
+    const tool = createMemoryFactsTool({
+      config: { agents: { list: [{ id: "main", default: true }] } },
+    });
+    if (!tool) {
+      throw new Error("tool missing");
+    }
+    return tool;
+  }
+
+  it("parses memory_search citations into fact sources", () => {
+    expect(parseFactSourceCitation("memory/2026-01-07.md#L3-L5")).toEqual({
+      path: "memory/2026-01-07.md",
+      startLine: 3,
+      endLine: 5,
+    });
+    expect(parseFactSourceCitation("MEMORY.md#L2")).toEqual({
+      path: "MEMORY.md",
+      startLine: 2,
+      endLine: 2,
+    });
+    expect(parseFactSourceCitation("chat on 2026-01-07")).toEqual({ path: "chat on 2026-01-07" });
+    expect(parseFactSourceCitation("  ")).toBeUndefined();
+  });
+
+  it("asserts facts with a parsed source citation", async () => {
+    const result = await createTool().execute("assert", {
+      action: "assert",
+      subject: "Alice",
+      predicate: "works_at",
+      object: "Acme",
+      objectKind: "entity",
+      source: "memory/2026-01-07.md#L3",
+    });
+
+    expect(getMemoryFactMocks().assertFact).toHaveBeenCalledWith({
+      subject: "Alice",
+      predicate: "works_at",
+      object: "Acme",
+      objectKind: "entity",
+      confidence: undefined,
+      source: { path: "memory/2026-01-07.md", startLine: 3, endLine: 3 },
+    });
+    expect(result.details).toMatchObject({ created: true, fact: { id: "fact-1" } });
+  });
+
+  it("requires an id or subject+predicate to retract", async () => {
+    await expect(
+      createTool().execute("retract", { action: "retract", subject: "Alice" }),
+    ).rejects.toThrow("id or subject+predicate required");
+    expect(getMemoryFactMocks().retractFact).not.toHaveBeenCalled();
+  });
+});
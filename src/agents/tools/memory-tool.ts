@@ -3,12 +3,17 @@ import type { SimpleClawConfig } from "../../config/config.js";
 import type { MemoryCitationsMode } from "../../config/types.memory.js";
 import { resolveMemoryBackendConfig } from "../../memory/backend-config.js";
 import { getMemorySearchManager } from "../../memory/index.js";
-import type { MemorySearchResult } from "../../memory/types.js";
+import type {
+  MemoryFactSource,
+  MemorySearchManager,
+  MemorySearchResult,
+} from "../../memory/types.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { resolveSessionAgentId } from "../agent-scope.js";
 import { resolveMemorySearchConfig } from "../memory-search.js";
+import { optionalStringEnum, stringEnum } from "../schema/typebox.js";
 import type { AnyAgentTool } from "./common.js";
-import { jsonResult, readNumberParam, readStringParam } from "./common.js";
+import { jsonResult, readNumberParam, readStringParam, ToolInputError } from "./common.js";
 
 const MemorySearchSchema = Type.Object({
   query: Type.String(),
@@ -22,6 +27,26 @@ const MemoryGetSchema = Type.Object({
   lines: Type.Optional(Type.Number()),
 });
 
+const MEMORY_FACT_ACTIONS = ["assert", "retract", "query"] as const;
+
+type MemoryFactsManager = Pick<MemorySearchManager, "assertFact" | "retractFact" | "queryFacts">;
+
+const MemoryFactsSchema = Type.Object({
+  action: stringEnum(MEMORY_FACT_ACTIONS),
+  id: Type.Optional(Type.String()),
+  subject: Type.Optional(Type.String()),
+  predicate: Type.Optional(Type.String()),
+  object: Type.Optional(Type.String()),
+  objectKind: optionalStringEnum(["entity", "value"] as const),
+  confidence: Type.Optional(Type.Number()),
+  source: Type.Optional(Type.String()),
+  reason: Type.Optional(Type.String()),
+  entity: Type.Optional(Type.String()),
+  depth: Type.Optional(Type.Number()),
+  includeRetracted: Type.Optional(Type.Boolean()),
+  limit: Type.Optional(Type.Number()),
+});
+
 function resolveMemoryToolContext(options: {
   config?: SimpleClawConfig;
   agentSessionKey?: string;
@@ -114,7 +139,7 @@ export function createMemoryGetTool(options: {
     label: "Memory Get",
     name: "memory_get",
     description:
-      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small.",
+      "Safe snippet read from MEMORY.md or memory/*.md with optional from/lines; use after memory_search to pull only the needed lines and keep context small. fact:<id> paths from memory_search return the fact.",
     parameters: MemoryGetSchema,
     execute: async (_toolCallId, params) => {
       const relPath = readStringParam(params, "path", { required: true });
@@ -142,6 +167,95 @@ export function createMemoryGetTool(options: {
   };
 }
 
+export function createMemoryFactsTool(options: {
+  config?: SimpleClawConfig;
+  agentSessionKey?: string;
+}): AnyAgentTool | null {
+  const ctx = resolveMemoryToolContext(options);
+  if (!ctx) {
+    return null;
+  }
+  const { cfg, agentId } = ctx;
+  return {
+    label: "Memory Facts",
+    name: "memory_facts",
+    description:
+      'Structured facts about people, projects, and preferences (subject/predicate/object with source + confidence). action=assert records a fact (objectKind="entity" links two entities; source is a citation like memory/2026-01-07.md#L3-L5); action=retract removes a fact by id or subject+predicate(+object) when it is wrong or outdated; action=query lists facts by entity (depth follows linked entities), subject, predicate, or object. Facts also show up in memory_search.',
+    parameters: MemoryFactsSchema,
+    execute: async (_toolCallId, params) => {
+      const action = readStringParam(params, "action", { required: true });
+      let run: (manager: Required<MemoryFactsManager>) => Promise<unknown>;
+      if (action === "assert") {
+        const input = {
+          subject: readStringParam(params, "subject", { required: true }),
+          predicate: readStringParam(params, "predicate", { required: true }),
+          object: readStringParam(params, "object", { required: true }),
+          objectKind:
+            readStringParam(params, "objectKind") === "entity"
+              ? ("entity" as const)
+              : ("value" as const),
+          confidence: readNumberParam(params, "confidence"),
+          source: parseFactSourceCitation(readStringParam(params, "source")),
+        };
+        run = async (manager) => await manager.assertFact(input);
+      } else if (action === "retract") {
+        const retract = {
+          id: readStringParam(params, "id"),
+          subject: readStringParam(params, "subject"),
+          predicate: readStringParam(params, "predicate"),
+          object: readStringParam(params, "object"),
+          reason: readStringParam(params, "reason"),
+        };
+        if (!retract.id && (!retract.subject || !retract.predicate)) {
+          throw new ToolInputError("id or subject+predicate required");
+        }
+        run = async (manager) => ({ retracted: await manager.retractFact(retract) });
+      } else if (action === "query") {
+        const query = {
+          entity: readStringParam(params, "entity"),
+          depth: readNumberParam(params, "depth", { integer: true }),
+          subject: readStringParam(params, "subject"),
+          predicate: readStringParam(params, "predicate"),
+          object: readStringParam(params, "object"),
+          includeRetracted: params.includeRetracted === true,
+          limit: readNumberParam(params, "limit", { integer: true }),
+        };
+        run = async (manager) => ({ facts: await manager.queryFacts(query) });
+      } else {
+        throw new ToolInputError(`Unknown action: ${action}`);
+      }
+      const { manager, error } = await getMemorySearchManager({ cfg, agentId });
+      if (!manager?.assertFact || !manager.retractFact || !manager.queryFacts) {
+        return jsonResult({ disabled: true, error: error ?? "memory facts unavailable" });
+      }
+      try {
+        return jsonResult(await run(manager as Required<MemoryFactsManager>));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        return jsonResult({ action, error: message });
+      }
+    },
+  };
+}
+
+/** Accepts `path`, `path#L3`, or `path#L3-L5` (the memory_search citation format). */
+export function parseFactSourceCitation(raw: string | undefined): MemoryFactSource | undefined {
+  const trimmed = raw?.trim();
+  if (!trimmed) {
+    return undefined;
+  }
+  const match = /^(.*?)#L(\d+)(?:-L?(\d+))?$/.exec(trimmed);
+  if (!match) {
+    return { path: trimmed };
+  }
+  const startLine = Number(match[2]);
+  return {
+    path: match[1],
+    startLine,
+    endLine: match[3] ? Number(match[3]) : startLine,
+  };
+}
+
 function resolveMemoryCitationsMode(cfg: SimpleClawConfig): MemoryCitationsMode {
   const mode = cfg.memory?.citations;
   if (mode === "on" || mode === "off" || mode === "auto") {
@@ -0,0 +1,73 @@
+import { Type } from "@sinclair/typebox";
+import { findActiveSubagentRunForChild, recordSubagentRunReport } from "../subagent-registry.js";
+import { validateSubagentResult } from "../subagent-result.js";
+import type { AnyAgentTool } from "./common.js";
+import { jsonResult } from "./common.js";
+
+const ReportToolSchema = Type.Object({
+  result: Type.Unknown({
+    description: "Structured result matching the resultSchema from your task.",
+  }),
+});
+
+function parseJson(raw: string): unknown {
+  try {
+    return JSON.parse(raw) as unknown;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Worker-side half of structured results: validates `result` against the
+ * schema the requester passed to sessions_spawn and stores it on the run.
+ * Only created for sub-agent sessions.
+ */
+export function createReportTool(opts?: { agentSessionKey?: string }): AnyAgentTool {
+  return {
+    label: "Report",
+    name: "report",
+    description:
+      "Submit your structured result to the agent that spawned you. Use when your task asks for a structured result; validation errors are returned so you can fix the value and call again.",
+    parameters: ReportToolSchema,
+    execute: async (_toolCallId, args) => {
+      const params = args as Record<string, unknown>;
+      const sessionKey = opts?.agentSessionKey;
+      const run = sessionKey ? findActiveSubagentRunForChild(sessionKey) : null;
+      if (!run) {
+        return jsonResult({
+          status: "error",
+          error: "report is only available inside a running sub-agent task.",
+        });
+      }
+      if (!("result" in params)) {
+        return jsonResult({ status: "error", error: "result required" });
+      }
+      let result = params.result;
+      if (run.resultSchema) {
+        let validation = validateSubagentResult(run.resultSchema, result);
+        // Some models send the JSON value as a string; retry with it parsed.
+        const parsed = !validation.ok && typeof result === "string" ? parseJson(result) : undefined;
+        if (parsed !== undefined) {
+          const retry = validateSubagentResult(run.resultSchema, parsed);
+          if (retry.ok) {
+            result = parsed;
+            validation = retry;
+          }
+        }
+        if (!validation.ok) {
+          return jsonResult({
+            status: "invalid",
+            errors: validation.errors,
+            message: "result does not match the requested schema; fix it and call report again.",
+          });
+        }
+      }
+      recordSubagentRunReport(run.runId, result);
+      return jsonResult({
+        status: "accepted",
+        message: "Result recorded. Finish with a short summary message.",
+      });
+    },
+  };
+}
@@ -21,6 +21,13 @@ const SessionsSpawnToolSchema = Type.Object({
   batchId: Type.Optional(Type.String()),
   /** Named agent — reuses a persistent session for conversation continuity. Same name = same session. */
   name: Type.Optional(Type.String()),
+  /** JSON Schema for a structured result; the worker submits it with the `report` tool. */
+  resultSchema: Type.Optional(
+    Type.Record(Type.String(), Type.Unknown(), {
+      description:
+        "Optional JSON Schema for the worker's result. The worker must call `report` with a matching value; typed results appear in batch aggregates and wait collect.",
+    }),
+  ),
 });
 
 export function createSessionsSpawnTool(opts?: {
@@ -66,6 +73,7 @@ export function createSessionsSpawnTool(opts?: {
       const thread = params.thread === true;
       const batchId = readStringParam(params, "batchId");
       const name = readStringParam(params, "name");
+      const resultSchema = params.resultSchema as Record<string, unknown> | undefined;
 
       const result = await spawnSubagentDirect(
         {
@@ -81,6 +89,7 @@ export function createSessionsSpawnTool(opts?: {
           expectsCompletionMessage: true,
           batchId: batchId || undefined,
           name: name || undefined,
+          resultSchema,
         },
         {
           agentSessionKey: opts?.agentSessionKey,
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { bufferResult, holdResults, resetHoldsForTests } from "../subagent-hold-buffer.js";
 import { createWaitTool } from "./wait-tool.js";
 
 describe("wait tool", () => {
@@ -43,4 +44,34 @@ describe("wait tool", () => {
     const payload = JSON.parse((result.content[0] as { text: string }).text);
     expect(payload.reason).toBeUndefined();
   });
+
+  it("returns typed report results from collect", async () => {
+    resetHoldsForTests();
+    const sessionKey = "agent:main:main";
+    const holding = createWaitTool({ agentSessionKey: sessionKey });
+    holdResults(sessionKey);
+    bufferResult(sessionKey, {
+      runId: "run-1",
+      label: "grader",
+      task: "grade it",
+      findings: "done",
+      result: { score: 0.9 },
+      status: "ok",
+      endedAt: 1,
+    });
+    bufferResult(sessionKey, {
+      runId: "run-2",
+      task: "summarize",
+      findings: "prose only",
+      status: "ok",
+      endedAt: 2,
+    });
+
+    const result = await holding.execute("call-6", { action: "collect" });
+    const payload = JSON.parse((result.content[0] as { text: string }).text);
+    expect(payload.count).toBe(2);
+    expect(payload.structured).toEqual([
+      { runId: "run-1", label: "grader", status: "ok", result: { score: 0.9 } },
+    ]);
+  });
 });
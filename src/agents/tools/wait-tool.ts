@@ -5,6 +5,7 @@ import {
   formatHeldResults,
   holdResults,
   releaseHold,
+  type HeldResult,
 } from "../subagent-hold-buffer.js";
 import type { AnyAgentTool } from "./common.js";
 import { jsonResult, readStringParam } from "./common.js";
@@ -15,7 +16,7 @@ const WaitToolSchema = Type.Object({
       description:
         'Action to perform. "wait" (default): suppress output, no-op. ' +
         '"hold": start buffering sub-agent results instead of auto-announcing them. ' +
-        '"collect": return all buffered sub-agent results without releasing hold. ' +
+        '"collect": return all buffered sub-agent results without releasing hold (typed `report` results under "structured"). ' +
         '"release": stop buffering and return any remaining results.',
       default: "wait",
     }),
@@ -23,6 +24,19 @@ const WaitToolSchema = Type.Object({
   reason: Type.Optional(Type.String()),
 });
 
+/** Typed results from workers that called `report` (batch aggregates carry a list). */
+function listStructuredResults(results: HeldResult[]) {
+  const structured = results
+    .filter((result) => result.result !== undefined)
+    .map((result) => ({
+      runId: result.runId,
+      label: result.label,
+      status: result.status,
+      result: result.result,
+    }));
+  return structured.length > 0 ? structured : undefined;
+}
+
 type WaitToolContext = {
   agentSessionKey?: string;
   holdTimeoutMs?: number;
@@ -79,6 +93,7 @@ export function createWaitTool(ctx?: WaitToolContext): AnyAgentTool {
             status: "collected",
             count: results.length,
             results: formatted,
+            structured: listStructuredResults(results),
           });
         }
 
@@ -92,6 +107,7 @@ export function createWaitTool(ctx?: WaitToolContext): AnyAgentTool {
             status: "released",
             count: remaining.length,
             results: remaining.length > 0 ? formatted : undefined,
+            structured: listStructuredResults(remaining),
             message: "Hold mode deactivated. Future sub-agent results will be announced normally.",
           });
         }
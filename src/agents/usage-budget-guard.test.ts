@@ -0,0 +1,107 @@
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import { getUsageBudgetSpend, resetUsageBudgetsForTests } from "../infra/usage-budget.js";
+import { createUsageBudgetGuard, UsageBudgetExceededError } from "./usage-budget-guard.js";
+
+beforeEach(() => {
+  resetUsageBudgetsForTests();
+});
+
+function fakeStreamFn(usage: { input: number; output: number; cost?: number }) {
+  return vi.fn(() => ({
+    result: async () => ({
+      role: "assistant",
+      provider: "anthropic",
+      model: "claude-haiku",
+      usage: {
+        input: usage.input,
+        output: usage.output,
+        cacheRead: 0,
+        cacheWrite: 0,
+        totalTokens: usage.input + usage.output,
+        cost: { total: usage.cost ?? 0 },
+      },
+    }),
+  })) as unknown as StreamFn;
+}
+
+async function callModel(streamFn: StreamFn) {
+  const stream = await streamFn({} as never, {} as never, {});
+  await stream.result();
+}
+
+describe("createUsageBudgetGuard", () => {
+  it("is disabled without budgets", () => {
+    expect(createUsageBudgetGuard({ config: {}, agentId: "main" })).toBeNull();
+  });
+
+  it("charges every model call and refuses once the limit is reached", async () => {
+    const guard = createUsageBudgetGuard({
+      config: { budgets: { session: { daily: { maxTokens: 1000 } } } } as SimpleClawConfig,
+      agentId: "main",
+      sessionKey: "agent:main:main",
+    });
+    const inner = fakeStreamFn({ input: 400, output: 200 });
+    const streamFn = guard!.wrapStreamFn(inner);
+
+    await callModel(streamFn);
+    expect(getUsageBudgetSpend({ kind: "session", id: "agent:main:main" }).daily.tokens).toBe(600);
+    expect(guard!.refusal()).toBeUndefined();
+
+    await callModel(streamFn);
+    await expect(callModel(streamFn)).rejects.toBeInstanceOf(UsageBudgetExceededError);
+    expect(inner).toHaveBeenCalledTimes(2);
+    expect(guard!.refusal()).toMatchObject({ window: "daily", metric: "tokens", used: 1200 });
+    expect(guard!.check()).toBeDefined();
+  });
+
+  it("charges single calls and refuses them once the limit is reached", async () => {
+    const guard = createUsageBudgetGuard({
+      config: { budgets: { agent: { daily: { maxTokens: 500 } } } } as SimpleClawConfig,
+      agentId: "main",
+    });
+    const inner = fakeStreamFn({ input: 300, output: 300 });
+    const call = vi.fn(async () => {
+      const stream = await inner({} as never, {} as never, {});
+      return await stream.result();
+    });
+
+    await guard!.guardCall(call);
+    expect(getUsageBudgetSpend({ kind: "agent", id: "main" }).daily.tokens).toBe(600);
+    await expect(guard!.guardCall(call)).rejects.toBeInstanceOf(UsageBudgetExceededError);
+    expect(call).toHaveBeenCalledTimes(1);
+    expect(guard!.refusal()).toMatchObject({ window: "daily", metric: "tokens" });
+  });
+
+  it("estimates cost from configured model prices when the provider reports none", async () => {
+    const guard = createUsageBudgetGuard({
+      config: {
+        budgets: { agent: { monthly: { maxCostUsd: 10 } } },
+        models: {
+          providers: {
+            anthropic: {
+              baseUrl: "https://api.anthropic.com",
+              models: [
+                {
+                  id: "claude-haiku",
+                  name: "Claude Haiku",
+                  reasoning: false,
+                  input: ["text"],
+                  cost: { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+                  contextWindow: 200_000,
+                  maxTokens: 8192,
+                },
+              ],
+            },
+          },
+        },
+      } as SimpleClawConfig,
+      agentId: "main",
+    });
+
+    await callModel(guard!.wrapStreamFn(fakeStreamFn({ input: 1_000_000, output: 200_000 })));
+
+    expect(getUsageBudgetSpend({ kind: "agent", id: "main" }).monthly.costUsd).toBeCloseTo(2);
+  });
+});
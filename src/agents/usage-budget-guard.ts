@@ -0,0 +1,127 @@
+import type { StreamFn } from "@mariozechner/pi-agent-core";
+import type { AssistantMessage } from "@mariozechner/pi-ai";
+import type { SimpleClawConfig } from "../config/config.js";
+import { deliverUsageBudgetWarning } from "../infra/usage-budget-warning.js";
+import {
+  checkUsageBudget,
+  formatUsageBudgetRefusal,
+  formatUsageBudgetWarning,
+  recordUsageBudgetSpend,
+  resolveUsageBudgetScopes,
+  resolveUsageBudgetWarnAt,
+  type UsageBudgetBreach,
+} from "../infra/usage-budget.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { estimateUsageCost, resolveModelCostConfig } from "../utils/usage-format.js";
+
+const log = createSubsystemLogger("agent/usage-budget");
+
+export type UsageBudgetGuard = {
+  /** Check limits before a model call; returns the breach when a hard limit is reached. */
+  check: () => UsageBudgetBreach | undefined;
+  /** Breach that stopped a model call inside the agent loop, if any. */
+  refusal: () => UsageBudgetBreach | undefined;
+  /** Checks before and charges after every model call, including tool-loop continuations. */
+  wrapStreamFn: (streamFn: StreamFn) => StreamFn;
+  /** Checks before and charges after one non-streaming call (e.g. `completeSimple`). */
+  guardCall: (call: () => Promise<AssistantMessage>) => Promise<AssistantMessage>;
+};
+
+export class UsageBudgetExceededError extends Error {
+  constructor(readonly breach: UsageBudgetBreach) {
+    super(formatUsageBudgetRefusal(breach));
+    this.name = "UsageBudgetExceededError";
+  }
+}
+
+function resolveCallCostUsd(message: AssistantMessage, config: SimpleClawConfig): number {
+  const reported = message.usage?.cost?.total;
+  if (typeof reported === "number" && Number.isFinite(reported) && reported > 0) {
+    return reported;
+  }
+  const cost = resolveModelCostConfig({
+    provider: message.provider,
+    model: message.model,
+    config,
+  });
+  return (
+    estimateUsageCost({
+      usage: {
+        input: message.usage?.input ?? 0,
+        output: message.usage?.output ?? 0,
+        cacheRead: message.usage?.cacheRead ?? 0,
+        cacheWrite: message.usage?.cacheWrite ?? 0,
+      },
+      cost,
+    }) ?? 0
+  );
+}
+
+/**
+ * Returns null when no budget applies to this run (no `budgets` config and
+ * no per-agent `budget`).
+ */
+export function createUsageBudgetGuard(params: {
+  config?: SimpleClawConfig;
+  agentId: string;
+  sessionKey?: string;
+  channel?: string;
+  senderId?: string | null;
+}): UsageBudgetGuard | null {
+  const config = params.config;
+  const scopes = resolveUsageBudgetScopes(config, params);
+  if (!config || scopes.length === 0) {
+    return null;
+  }
+  const warnAt = resolveUsageBudgetWarnAt(config);
+  let stopped: UsageBudgetBreach | undefined;
+
+  const check: UsageBudgetGuard["check"] = () => {
+    const result = checkUsageBudget({ scopes, warnAt });
+    for (const breach of result.notify) {
+      void deliverUsageBudgetWarning({
+        cfg: config,
+        agentId: params.agentId,
+        text: formatUsageBudgetWarning(breach),
+      }).catch((err) => {
+        log.warn(`usage budget warning failed: ${String(err)}`);
+      });
+    }
+    return result.exceeded;
+  };
+
+  const charge = (message: AssistantMessage) => {
+    const tokens = (message.usage?.input ?? 0) + (message.usage?.output ?? 0);
+    recordUsageBudgetSpend({ scopes, tokens, costUsd: resolveCallCostUsd(message, config) });
+  };
+
+  const wrapStreamFn: UsageBudgetGuard["wrapStreamFn"] = (streamFn) => {
+    const wrapped: StreamFn = (model, context, options) => {
+      const breach = check();
+      if (breach) {
+        stopped = breach;
+        throw new UsageBudgetExceededError(breach);
+      }
+      const tap = (stream: Awaited<ReturnType<StreamFn>>) => {
+        void stream.result().then(charge, () => undefined);
+        return stream;
+      };
+      const result = streamFn(model, context, options);
+      return result instanceof Promise ? result.then(tap) : tap(result);
+    };
+    return wrapped;
+  };
+
+  const guardCall: UsageBudgetGuard["guardCall"] = async (call) => {
+    const breach = check();
+    if (breach) {
+      stopped = breach;
+      throw new UsageBudgetExceededError(breach);
+    }
+    const message = await call();
+    charge(message);
+    return message;
+  };
+
+  return { check, refusal: () => stopped, wrapStreamFn, guardCall };
+}
@@ -656,7 +656,7 @@ function buildChatCommands(): ChatCommandDefinition[] {
           name: "mode",
           description: "queue mode",
           type: "string",
-          choices: ["steer", "interrupt", "followup", "collect", "steer-backlog"],
+          choices: ["steer", "interrupt", "followup", "collect", "digest", "steer-backlog"],
         },
         {
           name: "debounce",
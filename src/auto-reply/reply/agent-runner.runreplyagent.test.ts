@@ -8,7 +8,13 @@ import type { TypingMode } from "../../config/types.js";
 import { withStateDirEnv } from "../../test-helpers/state-dir-env.js";
 import type { TemplateContext } from "../templating.js";
 import type { GetReplyOptions } from "../types.js";
-import { enqueueFollowupRun, type FollowupRun, type QueueSettings } from "./queue.js";
+import { buildInboundDigestEntry } from "./inbound-meta.js";
+import {
+  enqueueFollowupRun,
+  scheduleFollowupDrain,
+  type FollowupRun,
+  type QueueSettings,
+} from "./queue.js";
 import { createMockTypingController } from "./test-helpers.js";
 
 type AgentRunParams = {
@@ -313,6 +319,103 @@ describe("runReplyAgent heartbeat followup guard", () => {
   });
 });
 
+describe("runReplyAgent idle digest", () => {
+  it("carries drained system events, context and images into the digest turn", async () => {
+    const actualQueue = await vi.importActual<typeof import("./queue.js")>("./queue.js");
+    vi.mocked(enqueueFollowupRun).mockImplementationOnce(actualQueue.enqueueFollowupRun);
+    vi.mocked(scheduleFollowupDrain).mockImplementationOnce(actualQueue.scheduleFollowupDrain);
+    state.runEmbeddedPiAgentMock.mockResolvedValueOnce({
+      payloads: [{ text: "digest reply" }],
+      meta: {},
+    });
+
+    const typing = createMockTypingController();
+    const sessionCtx = {
+      Provider: "telegram",
+      ChatType: "group",
+      SenderId: "1",
+      SenderName: "Ada",
+      MessageSid: "m1",
+    } as unknown as TemplateContext;
+    const queueKey = `digest-idle-${Date.now()}`;
+    const resolvedQueue: QueueSettings = {
+      mode: "digest",
+      cap: 50,
+      dropPolicy: "summarize",
+      digestWindowMs: 1,
+    };
+    const image = { type: "image" as const, data: "aGk=", mimeType: "image/png" };
+    const followupRun = {
+      prompt: "lunch?",
+      summaryLine: "lunch?",
+      enqueuedAt: Date.now(),
+      digestEntry: buildInboundDigestEntry(sessionCtx, "lunch?", {
+        context: "[Thread history - for context]\nEarlier message in this thread",
+        sessionNotes: "System: [12:00] Deploy finished",
+      }),
+      images: [image],
+      run: {
+        sessionId: "session",
+        sessionKey: queueKey,
+        messageProvider: "telegram",
+        sessionFile: "/tmp/session.jsonl",
+        workspaceDir: "/tmp",
+        config: {},
+        skillsSnapshot: {},
+        provider: "anthropic",
+        model: "claude",
+        thinkLevel: "low",
+        verboseLevel: "off",
+        elevatedLevel: "off",
+        bashElevated: {
+          enabled: false,
+          allowed: false,
+          defaultLevel: "off",
+        },
+        timeoutMs: 1_000,
+        blockReplyBreak: "message_end",
+      },
+    } as unknown as FollowupRun;
+    const onBlockReply = vi.fn();
+
+    const runReplyAgent = await getRunReplyAgent();
+    const result = await runReplyAgent({
+      commandBody: "lunch?",
+      followupRun,
+      queueKey,
+      resolvedQueue,
+      shouldSteer: false,
+      shouldFollowup: true,
+      shouldDigest: true,
+      isActive: false,
+      isStreaming: false,
+      opts: { onBlockReply },
+      typing,
+      sessionCtx,
+      defaultModel: "anthropic/claude-opus-4-5",
+      resolvedVerboseLevel: "off",
+      isNewSession: false,
+      blockStreamingEnabled: false,
+      resolvedBlockStreamingBreak: "message_end",
+      shouldInjectGroupIntro: false,
+      typingMode: "instant",
+    });
+
+    expect(result).toBeUndefined();
+    await vi.waitFor(() => expect(onBlockReply).toHaveBeenCalled());
+    expect(state.runEmbeddedPiAgentMock).toHaveBeenCalledTimes(1);
+    const call = state.runEmbeddedPiAgentMock.mock.calls[0]?.[0] as {
+      prompt?: string;
+      images?: unknown[];
+    };
+    expect(call.prompt).toContain("[Group digest: 1 message from 1 sender");
+    expect(call.prompt).toContain("System: [12:00] Deploy finished");
+    expect(call.prompt).toContain("Earlier message in this thread");
+    expect(call.images).toEqual([image]);
+    expect(onBlockReply).toHaveBeenCalledWith(expect.objectContaining({ text: "digest reply" }));
+  });
+});
+
 describe("runReplyAgent typing (heartbeat)", () => {
   async function withTempStateDir<T>(fn: (stateDir: string) => Promise<T>): Promise<T> {
     return await withStateDirEnv(
@@ -54,7 +54,12 @@ import {
 } from "./post-compaction-audit.js";
 import { readPostCompactionContext } from "./post-compaction-context.js";
 import { resolveActiveRunQueueAction } from "./queue-policy.js";
-import { enqueueFollowupRun, type FollowupRun, type QueueSettings } from "./queue.js";
+import {
+  enqueueFollowupRun,
+  type FollowupRun,
+  type QueueSettings,
+  scheduleFollowupDrain,
+} from "./queue.js";
 import { createReplyToModeFilterForChannel, resolveReplyToMode } from "./reply-threading.js";
 import { incrementRunCompactionCount, persistRunSessionUsage } from "./session-run-accounting.js";
 import { createTypingSignaler } from "./typing-mode.js";
@@ -107,6 +112,7 @@ export async function runReplyAgent(params: {
   resolvedQueue: QueueSettings;
   shouldSteer: boolean;
   shouldFollowup: boolean;
+  shouldDigest?: boolean;
   isActive: boolean;
   isStreaming: boolean;
   opts?: GetReplyOptions;
@@ -138,6 +144,7 @@ export async function runReplyAgent(params: {
     resolvedQueue,
     shouldSteer,
     shouldFollowup,
+    shouldDigest,
     isActive,
     isStreaming,
     opts,
@@ -242,6 +249,7 @@ export async function runReplyAgent(params: {
     isActive,
     isHeartbeat,
     shouldFollowup,
+    shouldDigest,
     queueMode: resolvedQueue.mode,
   });
 
@@ -257,6 +265,28 @@ export async function runReplyAgent(params: {
     return undefined;
   }
 
+  if (activeRunQueueAction === "enqueue-digest") {
+    enqueueFollowupRun(queueKey, followupRun, resolvedQueue);
+    await touchActiveSessionEntry();
+    typing.cleanup();
+    // No-op while a drain is already collecting this window.
+    scheduleFollowupDrain(
+      queueKey,
+      createFollowupRunner({
+        opts,
+        typing,
+        typingMode,
+        sessionEntry: activeSessionEntry,
+        sessionStore: activeSessionStore,
+        sessionKey,
+        storePath,
+        defaultModel,
+        agentCfgContextTokens,
+      }),
+    );
+    return undefined;
+  }
+
   await typingSignals.signalRunStart();
 
   activeSessionEntry = await runMemoryFlushIfNeeded({
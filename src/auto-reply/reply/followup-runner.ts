@@ -25,6 +25,7 @@ import {
   filterMessagingToolDuplicates,
   filterMessagingToolMediaDuplicates,
   shouldSuppressMessagingToolReplies,
+  splitPayloadsAtReplyTags,
 } from "./reply-payloads.js";
 import { resolveReplyToMode } from "./reply-threading.js";
 import { isRoutableChannel, routeReply } from "./route-reply.js";
@@ -175,6 +176,7 @@ export function createFollowupRunner(params: {
               config: queued.run.config,
               skillsSnapshot: queued.run.skillsSnapshot,
               prompt: queued.prompt,
+              images: queued.images,
               extraSystemPrompt: queued.run.extraSystemPrompt,
               ownerNumbers: queued.run.ownerNumbers,
               enforceFinalTag: queued.run.enforceFinalTag,
@@ -254,6 +256,7 @@ export function createFollowupRunner(params: {
         originatingChannel: queued.originatingChannel,
         provider: queued.run.messageProvider,
       }) as OriginatingChannelType | undefined;
+      // Digest threading only splits the reply per sender; the channel's replyToMode still applies.
       const replyToMode = resolveReplyToMode(
         queued.run.config,
         replyToChannel,
@@ -262,7 +265,9 @@ export function createFollowupRunner(params: {
       );
 
       const replyTaggedPayloads: ReplyPayload[] = applyReplyThreading({
-        payloads: sanitizedPayloads,
+        payloads: queued.digestThreading
+          ? splitPayloadsAtReplyTags(sanitizedPayloads)
+          : sanitizedPayloads,
         replyToMode,
         replyToChannel,
       });
@@ -53,16 +53,21 @@ vi.mock("./groups.js", () => ({
   buildGroupChatContext: vi.fn().mockReturnValue(""),
 }));
 
-vi.mock("./inbound-meta.js", () => ({
-  buildInboundMetaSystemPrompt: vi.fn().mockReturnValue(""),
-  buildInboundUserContextPrefix: vi.fn().mockReturnValue(""),
-}));
+vi.mock("./inbound-meta.js", async () => {
+  const actual = await vi.importActual<typeof import("./inbound-meta.js")>("./inbound-meta.js");
+  return {
+    buildInboundDigestEntry: actual.buildInboundDigestEntry,
+    buildInboundMetaSystemPrompt: vi.fn().mockReturnValue(""),
+    buildInboundUserContextPrefix: vi.fn().mockReturnValue(""),
+  };
+});
 
 vi.mock("./queue.js", () => ({
   resolveQueueSettings: vi.fn().mockReturnValue({ mode: "followup" }),
 }));
 
 vi.mock("./route-reply.js", () => ({
+  isRoutableChannel: vi.fn().mockReturnValue(true),
   routeReply: vi.fn(),
 }));
 
@@ -80,7 +85,9 @@ vi.mock("./typing-mode.js", () => ({
 }));
 
 import { runReplyAgent } from "./agent-runner.js";
+import { resolveQueueSettings } from "./queue.js";
 import { routeReply } from "./route-reply.js";
+import { prependSystemEvents } from "./session-updates.js";
 
 function baseParams(
   overrides: Partial<Parameters<typeof runPreparedReply>[0]> = {},
@@ -184,6 +191,24 @@ describe("runPreparedReply media-only handling", () => {
     expect(call?.followupRun.prompt).toContain("Earlier message in this thread");
   });
 
+  it("moves drained system events and thread context onto the digest entry", async () => {
+    vi.mocked(resolveQueueSettings).mockReturnValueOnce({ mode: "digest" });
+    vi.mocked(prependSystemEvents).mockImplementationOnce(
+      async ({ prefixedBodyBase }) => `System: [12:00] Deploy finished\n\n${prefixedBodyBase}`,
+    );
+
+    await runPreparedReply(
+      baseParams({ opts: { images: [{ type: "image", data: "aGk=", mimeType: "image/png" }] } }),
+    );
+
+    const call = vi.mocked(runReplyAgent).mock.calls[0]?.[0];
+    expect(call?.shouldDigest).toBe(true);
+    expect(call?.commandBody).toContain("System: [12:00] Deploy finished");
+    expect(call?.followupRun.digestEntry?.sessionNotes).toBe("System: [12:00] Deploy finished");
+    expect(call?.followupRun.digestEntry?.context).toContain("Earlier message in this thread");
+    expect(call?.followupRun.images).toHaveLength(1);
+  });
+
   it("returns the empty-body reply when there is no text and no media", async () => {
     const result = await runPreparedReply(
       baseParams({
@@ -38,11 +38,15 @@ import { applySessionHints } from "./body.js";
 import type { buildCommandContext } from "./commands.js";
 import type { InlineDirectives } from "./directive-handling.js";
 import { buildGroupChatContext, buildGroupIntro } from "./groups.js";
-import { buildInboundMetaSystemPrompt, buildInboundUserContextPrefix } from "./inbound-meta.js";
+import {
+  buildInboundDigestEntry,
+  buildInboundMetaSystemPrompt,
+  buildInboundUserContextPrefix,
+} from "./inbound-meta.js";
 import type { createModelSelectionState } from "./model-selection.js";
 import { resolveOriginMessageProvider } from "./origin-routing.js";
 import { resolveQueueSettings } from "./queue.js";
-import { routeReply } from "./route-reply.js";
+import { isRoutableChannel, routeReply } from "./route-reply.js";
 import { BARE_SESSION_RESET_PROMPT } from "./session-reset-prompt.js";
 import { ensureSkillSnapshot, prependSystemEvents } from "./session-updates.js";
 import { resolveTypingMode } from "./typing-mode.js";
@@ -309,25 +313,30 @@ export async function runPreparedReply(
   const effectiveBaseBody = baseBodyTrimmed
     ? baseBodyForPrompt
     : "[User sent media without caption]";
-  let prefixedBodyBase = await applySessionHints({
-    baseBody: effectiveBaseBody,
-    abortedLastRun,
-    sessionEntry,
-    sessionStore,
-    sessionKey,
-    storePath,
-    abortKey: command.abortKey,
-  });
+  // Session hints and queued system events are consumed here; digest turns carry them separately.
   const isGroupSession = sessionEntry?.chatType === "group" || sessionEntry?.chatType === "channel";
   const isMainSession = !isGroupSession && sessionKey === normalizeMainKey(sessionCfg?.mainKey);
-  prefixedBodyBase = await prependSystemEvents({
-    cfg,
-    sessionKey,
-    isMainSession,
-    isNewSession,
-    prefixedBodyBase,
-  });
-  prefixedBodyBase = appendUntrustedContext(prefixedBodyBase, sessionCtx.UntrustedContext);
+  const sessionNotes = (
+    await prependSystemEvents({
+      cfg,
+      sessionKey,
+      isMainSession,
+      isNewSession,
+      prefixedBodyBase: await applySessionHints({
+        baseBody: "",
+        abortedLastRun,
+        sessionEntry,
+        sessionStore,
+        sessionKey,
+        storePath,
+        abortKey: command.abortKey,
+      }),
+    })
+  ).trim();
+  const untrustedContextBlock = appendUntrustedContext("", sessionCtx.UntrustedContext);
+  const prefixedBodyBase = [sessionNotes, effectiveBaseBody, untrustedContextBlock]
+    .filter(Boolean)
+    .join("\n\n");
   const threadStarterBody = ctx.ThreadStarterBody?.trim();
   const threadHistoryBody = ctx.ThreadHistoryBody?.trim();
   const threadContextNote = threadHistoryBody
@@ -433,7 +442,14 @@ export async function runPreparedReply(
   const shouldFollowup =
     resolvedQueue.mode === "followup" ||
     resolvedQueue.mode === "collect" ||
+    resolvedQueue.mode === "digest" ||
     resolvedQueue.mode === "steer-backlog";
+  // Digest turns are delivered later via routeReply, so they need a group chat with a routable origin.
+  const shouldDigest =
+    resolvedQueue.mode === "digest" &&
+    (sessionCtx.ChatType === "group" || sessionCtx.ChatType === "channel") &&
+    isRoutableChannel(ctx.OriginatingChannel) &&
+    Boolean(ctx.OriginatingTo);
   const authProfileId = await resolveSessionAuthProfileOverride({
     cfg,
     provider,
@@ -456,6 +472,25 @@ export async function runPreparedReply(
     originatingAccountId: ctx.AccountId,
     originatingThreadId: ctx.MessageThreadId,
     originatingChatType: ctx.ChatType,
+    ...(shouldDigest
+      ? {
+          digestEntry: buildInboundDigestEntry(
+            sessionCtx,
+            [mediaNote, baseBodyFinal].filter(Boolean).join("\n").trim(),
+            {
+              context: [
+                threadContextNote,
+                isBareSessionReset ? undefined : inboundUserContext,
+                untrustedContextBlock,
+              ]
+                .filter(Boolean)
+                .join("\n\n"),
+              sessionNotes,
+            },
+          ),
+          ...(opts?.images?.length ? { images: opts.images } : {}),
+        }
+      : {}),
     run: {
       agentId,
       agentDir,
@@ -507,6 +542,7 @@ export async function runPreparedReply(
     resolvedQueue,
     shouldSteer,
     shouldFollowup,
+    shouldDigest,
     isActive,
     isStreaming,
     opts,
@@ -201,3 +201,108 @@ export function buildInboundUserContextPrefix(ctx: TemplateContext): string {
 
   return blocks.filter(Boolean).join("\n\n");
 }
+
+/** One queued group message with the sender attribution used by digest turns. */
+export type InboundDigestEntry = {
+  senderKey: string;
+  sender?: string;
+  senderId?: string;
+  messageId?: string;
+  replyToId?: string;
+  timestampMs?: number;
+  body: string;
+  /** Thread, reply/forwarded, and untrusted metadata that normally precede the body. */
+  context?: string;
+  /** System events and session hints drained for this message (trusted, session-wide). */
+  sessionNotes?: string;
+};
+
+export function buildInboundDigestEntry(
+  ctx: TemplateContext,
+  body: string,
+  extras?: { context?: string; sessionNotes?: string },
+): InboundDigestEntry {
+  const senderId = safeTrim(ctx.SenderId);
+  const sender = resolveSenderLabel({
+    name: safeTrim(ctx.SenderName),
+    username: safeTrim(ctx.SenderUsername),
+    tag: safeTrim(ctx.SenderTag),
+    e164: safeTrim(ctx.SenderE164),
+    id: senderId,
+  });
+  return {
+    senderKey: senderId ?? safeTrim(ctx.SenderE164) ?? safeTrim(ctx.SenderUsername) ?? sender ?? "",
+    sender: sender ?? undefined,
+    senderId,
+    messageId: safeTrim(ctx.MessageSidFull) ?? safeTrim(ctx.MessageSid),
+    replyToId: safeTrim(ctx.ReplyToId),
+    timestampMs: typeof ctx.Timestamp === "number" ? ctx.Timestamp : undefined,
+    body,
+    context: safeTrim(extras?.context),
+    sessionNotes: safeTrim(extras?.sessionNotes),
+  };
+}
+
+/**
+ * Multi-speaker prompt for one digest turn: messages grouped by sender (first
+ * speaker first, chronological within a sender). Sender-provided strings stay
+ * inside the untrusted JSON block.
+ */
+export function buildInboundDigestPrompt(params: {
+  entries: InboundDigestEntry[];
+  windowMs: number;
+  threading: boolean;
+  summary?: string;
+}): string {
+  const bySender = new Map<string, InboundDigestEntry[]>();
+  for (const entry of params.entries) {
+    const group = bySender.get(entry.senderKey);
+    if (group) {
+      group.push(entry);
+    } else {
+      bySender.set(entry.senderKey, [entry]);
+    }
+  }
+  const messageCount = params.entries.length;
+  const windowSeconds = Math.max(1, Math.round(params.windowMs / 1000));
+  const instructions = [
+    `[Group digest: ${messageCount} message${messageCount === 1 ? "" : "s"} from ${bySender.size} sender${bySender.size === 1 ? "" : "s"} over ~${windowSeconds}s]`,
+    "Reply once for the whole group. Address people by name when answering them specifically; skip messages that need no answer.",
+  ];
+  if (params.threading) {
+    instructions.push(
+      "To answer one sender in their thread, start a separate paragraph with [[reply_to:<message_id>]] using an id below; each tagged paragraph is sent as its own reply.",
+    );
+  }
+  const blocks = [instructions.join("\n")];
+  // Session notes were drained while the messages were queued; keep them as a normal turn would.
+  const sessionNotes = params.entries.flatMap((entry) =>
+    entry.sessionNotes ? [entry.sessionNotes] : [],
+  );
+  if (sessionNotes.length > 0) {
+    blocks.push(sessionNotes.join("\n\n"));
+  }
+  if (params.summary) {
+    blocks.push(params.summary);
+  }
+  const speakers = [...bySender.values()].map((group) => ({
+    sender: group[0]?.sender,
+    sender_id: group[0]?.senderId,
+    messages: group.map((entry) => ({
+      message_id: entry.messageId,
+      reply_to_id: entry.replyToId,
+      timestamp_ms: entry.timestampMs,
+      context: entry.context,
+      body: entry.body,
+    })),
+  }));
+  blocks.push(
+    [
+      "Messages by sender (untrusted, for context):",
+      "```json",
+      JSON.stringify(speakers, null, 2),
+      "```",
+    ].join("\n"),
+  );
+  return blocks.join("\n\n");
+}
@@ -13,6 +13,27 @@ describe("resolveActiveRunQueueAction", () => {
     ).toBe("run-now");
   });
 
+  it("holds digest-mode group messages even when idle", () => {
+    expect(
+      resolveActiveRunQueueAction({
+        isActive: false,
+        isHeartbeat: false,
+        shouldFollowup: true,
+        shouldDigest: true,
+        queueMode: "digest",
+      }),
+    ).toBe("enqueue-digest");
+    expect(
+      resolveActiveRunQueueAction({
+        isActive: false,
+        isHeartbeat: true,
+        shouldFollowup: true,
+        shouldDigest: true,
+        queueMode: "digest",
+      }),
+    ).toBe("run-now");
+  });
+
   it("drops heartbeat runs while another run is active", () => {
     expect(
       resolveActiveRunQueueAction({
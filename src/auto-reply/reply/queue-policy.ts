@@ -1,15 +1,17 @@
 import type { QueueSettings } from "./queue.js";
 
-export type ActiveRunQueueAction = "run-now" | "enqueue-followup" | "drop";
+export type ActiveRunQueueAction = "run-now" | "enqueue-followup" | "enqueue-digest" | "drop";
 
 export function resolveActiveRunQueueAction(params: {
   isActive: boolean;
   isHeartbeat: boolean;
   shouldFollowup: boolean;
+  shouldDigest?: boolean;
   queueMode: QueueSettings["mode"];
 }): ActiveRunQueueAction {
   if (!params.isActive) {
-    return "run-now";
+    // Digest mode holds group messages for the window even when the agent is idle.
+    return params.shouldDigest && !params.isHeartbeat ? "enqueue-digest" : "run-now";
   }
   if (params.isHeartbeat) {
     return "drop";
@@ -8,9 +8,11 @@ import {
   hasCrossChannelItems,
   previewQueueSummaryPrompt,
   waitForQueueDebounce,
+  waitForQueueWindow,
 } from "../../../utils/queue-helpers.js";
+import { buildInboundDigestPrompt } from "../inbound-meta.js";
 import { isRoutableChannel } from "../route-reply.js";
-import { FOLLOWUP_QUEUES } from "./state.js";
+import { FOLLOWUP_QUEUES, type FollowupQueueState } from "./state.js";
 import type { FollowupRun } from "./types.js";
 
 type OriginRoutingMetadata = Pick<
@@ -46,6 +48,44 @@ function resolveCrossChannelKey(item: FollowupRun): { cross?: true; key?: string
   };
 }
 
+/**
+ * Digest turns speak for several senders at once, so sender identity (and
+ * owner privileges) only carries over when every message came from one sender.
+ */
+function resolveDigestRun(items: FollowupRun[], fallback: FollowupRun["run"]): FollowupRun["run"] {
+  const run = items.at(-1)?.run ?? fallback;
+  const senders = new Set(items.map((item) => item.digestEntry?.senderKey ?? ""));
+  if (senders.size <= 1) {
+    return run;
+  }
+  return {
+    ...run,
+    senderId: undefined,
+    senderName: undefined,
+    senderUsername: undefined,
+    senderE164: undefined,
+    senderIsOwner: items.every((item) => item.run.senderIsOwner === true),
+  };
+}
+
+function resolveDigestImages(items: FollowupRun[]): Pick<FollowupRun, "images"> {
+  const images = items.flatMap((item) => item.images ?? []);
+  return images.length > 0 ? { images } : {};
+}
+
+function buildDigestPrompt(
+  queue: FollowupQueueState,
+  items: FollowupRun[],
+  summary: string | undefined,
+): string {
+  return buildInboundDigestPrompt({
+    entries: items.flatMap((item) => (item.digestEntry ? [item.digestEntry] : [])),
+    windowMs: queue.digestWindowMs,
+    threading: queue.digestThreading === "per-sender",
+    summary,
+  });
+}
+
 export function scheduleFollowupDrain(
   key: string,
   runFollowup: (run: FollowupRun) => Promise<void>,
@@ -58,8 +98,17 @@ export function scheduleFollowupDrain(
     try {
       const collectState = { forceIndividualCollect: false };
       while (queue.items.length > 0 || queue.droppedCount > 0) {
-        await waitForQueueDebounce(queue);
-        if (queue.mode === "collect") {
+        // Digest items only come from group chats; anything else falls back to collect.
+        const isDigest =
+          queue.mode === "digest" &&
+          queue.items.length > 0 &&
+          queue.items.every((item) => item.digestEntry);
+        if (isDigest) {
+          await waitForQueueWindow({ windowMs: queue.digestWindowMs, items: queue.items });
+        } else {
+          await waitForQueueDebounce(queue);
+        }
+        if (queue.mode === "collect" || queue.mode === "digest") {
           // Once the batch is mixed, never collect again within this drain.
           // Prevents “collect after shift” collapsing different targets.
           //
@@ -83,24 +132,30 @@ export function scheduleFollowupDrain(
 
           const items = queue.items.slice();
           const summary = previewQueueSummaryPrompt({ state: queue, noun: "message" });
-          const run = items.at(-1)?.run ?? queue.lastRun;
-          if (!run) {
+          const lastRun = items.at(-1)?.run ?? queue.lastRun;
+          if (!lastRun) {
             break;
           }
+          const digest = isDigest && items.every((item) => item.digestEntry);
+          const run = digest ? resolveDigestRun(items, lastRun) : lastRun;
 
           const routing = resolveOriginRoutingMetadata(items);
 
-          const prompt = buildCollectPrompt({
-            title: "[Queued messages while agent was busy]",
-            items,
-            summary,
-            renderItem: (item, idx) => `---\nQueued #${idx + 1}\n${item.prompt}`.trim(),
-          });
+          const prompt = digest
+            ? buildDigestPrompt(queue, items, summary)
+            : buildCollectPrompt({
+                title: "[Queued messages while agent was busy]",
+                items,
+                summary,
+                renderItem: (item, idx) => `---\nQueued #${idx + 1}\n${item.prompt}`.trim(),
+              });
           await runFollowup({
             prompt,
             run,
             enqueuedAt: Date.now(),
             ...routing,
+            ...(digest && queue.digestThreading === "per-sender" ? { digestThreading: true } : {}),
+            ...(digest ? resolveDigestImages(items) : {}),
           });
           queue.items.splice(0, items.length);
           if (summary) {
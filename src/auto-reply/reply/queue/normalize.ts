@@ -20,6 +20,9 @@ export function normalizeQueueMode(raw?: string): QueueMode | undefined {
   if (cleaned === "collect" || cleaned === "coalesce") {
     return "collect";
   }
+  if (cleaned === "digest" || cleaned === "digests") {
+    return "digest";
+  }
   if (cleaned === "steer+backlog" || cleaned === "steer-backlog" || cleaned === "steer_backlog") {
     return "steer-backlog";
   }
@@ -1,7 +1,12 @@
 import { getChannelPlugin } from "../../../channels/plugins/index.js";
 import type { InboundDebounceByProvider } from "../../../config/types.messages.js";
 import { normalizeQueueDropPolicy, normalizeQueueMode } from "./normalize.js";
-import { DEFAULT_QUEUE_CAP, DEFAULT_QUEUE_DEBOUNCE_MS, DEFAULT_QUEUE_DROP } from "./state.js";
+import {
+  DEFAULT_QUEUE_CAP,
+  DEFAULT_QUEUE_DEBOUNCE_MS,
+  DEFAULT_QUEUE_DIGEST_WINDOW_MS,
+  DEFAULT_QUEUE_DROP,
+} from "./state.js";
 import type { QueueMode, QueueSettings, ResolveQueueSettingsParams } from "./types.js";
 
 function defaultQueueModeForChannel(_channel?: string): QueueMode {
@@ -59,10 +64,17 @@ export function resolveQueueSettings(params: ResolveQueueSettingsParams): QueueS
     params.sessionEntry?.queueDrop ??
     normalizeQueueDropPolicy(queueCfg?.drop) ??
     DEFAULT_QUEUE_DROP;
+  const digestWindowRaw = queueCfg?.digest?.windowMs ?? DEFAULT_QUEUE_DIGEST_WINDOW_MS;
   return {
     mode: resolvedMode,
     debounceMs: typeof debounceRaw === "number" ? Math.max(0, debounceRaw) : undefined,
     cap: typeof capRaw === "number" ? Math.max(1, Math.floor(capRaw)) : undefined,
     dropPolicy: dropRaw,
+    ...(resolvedMode === "digest"
+      ? {
+          digestWindowMs: Math.max(1, Math.floor(digestWindowRaw)),
+          digestThreading: queueCfg?.digest?.threading ?? "off",
+        }
+      : {}),
   };
 }
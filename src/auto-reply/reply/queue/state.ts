@@ -1,5 +1,11 @@
 import { applyQueueRuntimeSettings } from "../../../utils/queue-helpers.js";
-import type { FollowupRun, QueueDropPolicy, QueueMode, QueueSettings } from "./types.js";
+import type {
+  FollowupRun,
+  QueueDigestThreading,
+  QueueDropPolicy,
+  QueueMode,
+  QueueSettings,
+} from "./types.js";
 
 export type FollowupQueueState = {
   items: FollowupRun[];
@@ -12,11 +18,14 @@ export type FollowupQueueState = {
   droppedCount: number;
   summaryLines: string[];
   lastRun?: FollowupRun["run"];
+  digestWindowMs: number;
+  digestThreading: QueueDigestThreading;
 };
 
 export const DEFAULT_QUEUE_DEBOUNCE_MS = 1000;
 export const DEFAULT_QUEUE_CAP = 20;
 export const DEFAULT_QUEUE_DROP: QueueDropPolicy = "summarize";
+export const DEFAULT_QUEUE_DIGEST_WINDOW_MS = 30_000;
 
 export const FOLLOWUP_QUEUES = new Map<string, FollowupQueueState>();
 
@@ -28,6 +37,13 @@ export function getExistingFollowupQueue(key: string): FollowupQueueState | unde
   return FOLLOWUP_QUEUES.get(cleaned);
 }
 
+function applyDigestSettings(target: FollowupQueueState, settings: QueueSettings) {
+  if (typeof settings.digestWindowMs === "number" && settings.digestWindowMs > 0) {
+    target.digestWindowMs = Math.floor(settings.digestWindowMs);
+  }
+  target.digestThreading = settings.digestThreading ?? target.digestThreading;
+}
+
 export function getFollowupQueue(key: string, settings: QueueSettings): FollowupQueueState {
   const existing = FOLLOWUP_QUEUES.get(key);
   if (existing) {
@@ -35,6 +51,7 @@ export function getFollowupQueue(key: string, settings: QueueSettings): Followup
       target: existing,
       settings,
     });
+    applyDigestSettings(existing, settings);
     return existing;
   }
 
@@ -54,11 +71,14 @@ export function getFollowupQueue(key: string, settings: QueueSettings): Followup
     dropPolicy: settings.dropPolicy ?? DEFAULT_QUEUE_DROP,
     droppedCount: 0,
     summaryLines: [],
+    digestWindowMs: DEFAULT_QUEUE_DIGEST_WINDOW_MS,
+    digestThreading: "off",
   };
   applyQueueRuntimeSettings({
     target: created,
     settings,
   });
+  applyDigestSettings(created, settings);
   FOLLOWUP_QUEUES.set(key, created);
   return created;
 }
@@ -1,19 +1,33 @@
+import type { ImageContent } from "@mariozechner/pi-ai";
 import type { ExecToolDefaults } from "../../../agents/bash-tools.js";
 import type { SkillSnapshot } from "../../../agents/skills.js";
 import type { SimpleClawConfig } from "../../../config/config.js";
 import type { SessionEntry } from "../../../config/sessions.js";
 import type { OriginatingChannelType } from "../../templating.js";
 import type { ElevatedLevel, ReasoningLevel, ThinkLevel, VerboseLevel } from "../directives.js";
+import type { InboundDigestEntry } from "../inbound-meta.js";
 
-export type QueueMode = "steer" | "followup" | "collect" | "steer-backlog" | "interrupt" | "queue";
+export type QueueMode =
+  | "steer"
+  | "followup"
+  | "collect"
+  | "digest"
+  | "steer-backlog"
+  | "interrupt"
+  | "queue";
 
 export type QueueDropPolicy = "old" | "new" | "summarize";
 
+export type QueueDigestThreading = "off" | "per-sender";
+
 export type QueueSettings = {
   mode: QueueMode;
   debounceMs?: number;
   cap?: number;
   dropPolicy?: QueueDropPolicy;
+  /** Digest mode: how long to accumulate a group burst before replying. */
+  digestWindowMs?: number;
+  digestThreading?: QueueDigestThreading;
 };
 
 export type QueueDedupeMode = "message-id" | "prompt" | "none";
@@ -41,6 +55,12 @@ export type FollowupRun = {
   originatingThreadId?: string | number;
   /** Chat type for context-aware threading (e.g., DM vs channel). */
   originatingChatType?: string;
+  /** Sender-attributed copy of the message, recorded when the session uses digest mode. */
+  digestEntry?: InboundDigestEntry;
+  /** Digest turns: split the reply at [[reply_to:<id>]] tags so each sender gets a threaded answer. */
+  digestThreading?: boolean;
+  /** Inbound images kept for the digest turn that answers this message. */
+  images?: ImageContent[];
   run: {
     agentId: string;
     agentDir: string;
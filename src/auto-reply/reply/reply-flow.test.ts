@@ -1096,6 +1096,114 @@ describe("followup queue collect routing", () => {
   });
 });
 
+describe("followup queue digest mode", () => {
+  function createDigestRun(params: {
+    body: string;
+    senderId: string;
+    sender: string;
+    messageId: string;
+    isOwner?: boolean;
+  }): FollowupRun {
+    const base = createRun({
+      prompt: params.body,
+      messageId: params.messageId,
+      originatingChannel: "telegram",
+      originatingTo: "group:-100",
+    });
+    return {
+      ...base,
+      digestEntry: {
+        senderKey: params.senderId,
+        sender: params.sender,
+        senderId: params.senderId,
+        messageId: params.messageId,
+        body: params.body,
+      },
+      run: { ...base.run, senderId: params.senderId, senderIsOwner: params.isOwner },
+    };
+  }
+
+  it("answers a multi-sender burst with one attributed turn", async () => {
+    const key = `test-digest-${Date.now()}`;
+    const calls: FollowupRun[] = [];
+    const done = createDeferred<void>();
+    const runFollowup = async (run: FollowupRun) => {
+      calls.push(run);
+      done.resolve();
+    };
+    const settings: QueueSettings = {
+      mode: "digest",
+      cap: 50,
+      dropPolicy: "summarize",
+      digestWindowMs: 1,
+      digestThreading: "per-sender",
+    };
+
+    enqueueFollowupRun(
+      key,
+      createDigestRun({
+        body: "lunch?",
+        senderId: "1",
+        sender: "Ada",
+        messageId: "m1",
+        isOwner: true,
+      }),
+      settings,
+    );
+    enqueueFollowupRun(
+      key,
+      createDigestRun({ body: "tacos", senderId: "2", sender: "Bo", messageId: "m2" }),
+      settings,
+    );
+    enqueueFollowupRun(
+      key,
+      createDigestRun({
+        body: "or ramen",
+        senderId: "1",
+        sender: "Ada",
+        messageId: "m3",
+        isOwner: true,
+      }),
+      settings,
+    );
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done.promise;
+
+    expect(calls).toHaveLength(1);
+    const prompt = calls[0]?.prompt ?? "";
+    expect(prompt).toContain("[Group digest: 3 messages from 2 senders");
+    expect(prompt).toContain("[[reply_to:<message_id>]]");
+    expect(prompt.indexOf('"lunch?"')).toBeLessThan(prompt.indexOf('"or ramen"'));
+    expect(prompt.indexOf('"or ramen"')).toBeLessThan(prompt.indexOf('"tacos"'));
+    expect(calls[0]?.digestThreading).toBe(true);
+    expect(calls[0]?.originatingTo).toBe("group:-100");
+    // Mixed senders: no single sender identity or owner privileges.
+    expect(calls[0]?.run.senderId).toBeUndefined();
+    expect(calls[0]?.run.senderIsOwner).toBe(false);
+  });
+
+  it("falls back to collect prompts for messages without digest attribution", async () => {
+    const key = `test-digest-fallback-${Date.now()}`;
+    const calls: FollowupRun[] = [];
+    const done = createDeferred<void>();
+    const runFollowup = async (run: FollowupRun) => {
+      calls.push(run);
+      done.resolve();
+    };
+    const settings: QueueSettings = { mode: "digest", debounceMs: 0, cap: 50 };
+
+    enqueueFollowupRun(key, createRun({ prompt: "one" }), settings);
+    enqueueFollowupRun(key, createRun({ prompt: "two" }), settings);
+
+    scheduleFollowupDrain(key, runFollowup);
+    await done.promise;
+
+    expect(calls[0]?.prompt).toContain("[Queued messages while agent was busy]");
+    expect(calls[0]?.digestThreading).toBeUndefined();
+  });
+});
+
 const emptyCfg = {} as SimpleClawConfig;
 
 describe("createReplyDispatcher", () => {
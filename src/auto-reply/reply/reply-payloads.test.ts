@@ -1,5 +1,5 @@
 import { describe, expect, it } from "vitest";
-import { filterMessagingToolMediaDuplicates } from "./reply-payloads.js";
+import { filterMessagingToolMediaDuplicates, splitPayloadsAtReplyTags } from "./reply-payloads.js";
 
 describe("filterMessagingToolMediaDuplicates", () => {
   it("strips mediaUrl when it matches sentMediaUrls", () => {
@@ -75,3 +75,24 @@ describe("filterMessagingToolMediaDuplicates", () => {
     expect(result).toEqual([{ text: "hello", mediaUrl: undefined, mediaUrls: undefined }]);
   });
 });
+
+describe("splitPayloadsAtReplyTags", () => {
+  it("splits at line-leading reply tags and keeps media on the first section", () => {
+    const result = splitPayloadsAtReplyTags([
+      {
+        text: "Morning all!\n\n[[reply_to:m1]] Ada: tacos it is.\n[[reply_to: m2]] Bo: see you there.",
+        mediaUrl: "https://example.com/menu.png",
+      },
+    ]);
+    expect(result).toEqual([
+      { text: "Morning all!", mediaUrl: "https://example.com/menu.png" },
+      { text: "[[reply_to:m1]] Ada: tacos it is." },
+      { text: "[[reply_to: m2]] Bo: see you there." },
+    ]);
+  });
+
+  it("leaves payloads without inner tags untouched", () => {
+    const payloads = [{ text: "[[reply_to:m1]] only one" }, { text: "inline [[reply_to:m2]] tag" }];
+    expect(splitPayloadsAtReplyTags(payloads)).toEqual(payloads);
+  });
+});
@@ -89,6 +89,34 @@ export function applyReplyThreading(params: {
     .map(applyReplyToMode);
 }
 
+const LINE_LEADING_REPLY_TAG_RE = /^[ \t]*\[\[\s*reply_to\s*:\s*[^\]\n]+\]\]/gm;
+
+/**
+ * Split payload text before each line-leading [[reply_to:<id>]] tag so every
+ * tagged section goes out as its own threaded reply (group digest turns).
+ * Media stays on the first section.
+ */
+export function splitPayloadsAtReplyTags(payloads: ReplyPayload[]): ReplyPayload[] {
+  return payloads.flatMap((payload) => {
+    const text = payload.text;
+    if (!text) {
+      return [payload];
+    }
+    const starts = [...text.matchAll(LINE_LEADING_REPLY_TAG_RE)]
+      .map((match) => match.index)
+      .filter((index) => index > 0);
+    if (starts.length === 0) {
+      return [payload];
+    }
+    const bounds = [0, ...starts, text.length];
+    return bounds
+      .slice(0, -1)
+      .map((start, index) => text.slice(start, bounds[index + 1]).trim())
+      .filter(Boolean)
+      .map((section, index) => (index === 0 ? { ...payload, text: section } : { text: section }));
+  });
+}
+
 export function filterMessagingToolDuplicates(params: {
   payloads: ReplyPayload[];
   sentTexts: string[];
@@ -0,0 +1,108 @@
+import { Command } from "commander";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+const callGateway = vi.fn();
+const runtime = {
+  log: vi.fn(),
+  error: vi.fn(),
+  exit: vi.fn(),
+};
+
+vi.mock("../gateway/call.js", () => ({
+  callGateway,
+}));
+
+vi.mock("../runtime.js", () => ({
+  defaultRuntime: runtime,
+}));
+
+let registerAgentsRosterCli: typeof import("./agents-roster-cli.js").registerAgentsRosterCli;
+let formatRosterList: typeof import("./agents-roster-cli.js").formatRosterList;
+
+beforeAll(async () => {
+  ({ registerAgentsRosterCli, formatRosterList } = await import("./agents-roster-cli.js"));
+});
+
+async function runRosterCommand(argv: string[]) {
+  const program = new Command();
+  registerAgentsRosterCli(program.command("agents"));
+  await program.parseAsync(["agents", "roster", ...argv], { from: "user" });
+}
+
+describe("agents roster cli", () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists entries filtered by agent", async () => {
+    callGateway.mockResolvedValueOnce({
+      entries: [
+        {
+          name: "researcher",
+          agentId: "ops",
+          sessionKey: "agent:ops:subagent:abc",
+          requesterSessionKey: "agent:ops:main",
+          status: "running",
+          createdAt: 1,
+          lastActiveAt: Date.now(),
+          currentRunId: "run-1",
+          run: { runId: "run-1", task: "dig into the logs" },
+        },
+      ],
+    });
+
+    await runRosterCommand(["list", "--agent", "ops"]);
+
+    expect(callGateway).toHaveBeenCalledWith(
+      expect.objectContaining({ method: "agents.roster.list", params: { agentId: "ops" } }),
+    );
+    const output = String(runtime.log.mock.calls[0]?.[0]);
+    expect(output).toContain("researcher");
+    expect(output).toContain("dig into the logs");
+  });
+
+  it("passes the requester through for targeted commands", async () => {
+    callGateway.mockResolvedValueOnce({
+      ok: true,
+      name: "researcher",
+      killed: true,
+      cascadeKilled: 2,
+    });
+
+    await runRosterCommand(["kill", "researcher", "--requester", "agent:main:main"]);
+
+    expect(callGateway).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "agents.roster.kill",
+        params: { name: "researcher", requesterSessionKey: "agent:main:main" },
+      }),
+    );
+    expect(String(runtime.log.mock.calls[0]?.[0])).toContain("+ 2 descendants");
+  });
+
+  it("deletes with the session when asked", async () => {
+    callGateway.mockResolvedValueOnce({ ok: true, name: "writer", sessionDeleted: true });
+
+    await runRosterCommand(["delete", "writer", "--delete-session"]);
+
+    expect(callGateway).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: "agents.roster.delete",
+        params: { name: "writer", deleteSession: true },
+      }),
+    );
+  });
+
+  it("reports gateway errors and exits non-zero", async () => {
+    callGateway.mockRejectedValueOnce(new Error('named agent "ghost" not found in roster'));
+
+    await runRosterCommand(["rename", "ghost", "spirit"]);
+
+    expect(runtime.error).toHaveBeenCalledWith(expect.stringContaining("not found in roster"));
+    expect(runtime.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("prints an empty-state message", () => {
+    expect(formatRosterList([], {})).toBe("No named subagents in the roster.");
+  });
+});
@@ -0,0 +1,184 @@
+import type { Command } from "commander";
+import type { AgentsRosterEntry } from "../gateway/protocol/index.js";
+import { danger } from "../globals.js";
+import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
+import { defaultRuntime } from "../runtime.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { addGatewayClientOptions, callGatewayFromCli, type GatewayRpcOpts } from "./gateway-rpc.js";
+
+type RosterCliOpts = GatewayRpcOpts & {
+  agent?: string;
+  requester?: string;
+  deleteSession?: boolean;
+};
+
+export function formatRosterList(
+  entries: AgentsRosterEntry[],
+  opts: { json?: boolean; now?: number },
+): string {
+  if (opts.json) {
+    return JSON.stringify({ entries }, null, 2);
+  }
+  if (entries.length === 0) {
+    return "No named subagents in the roster.";
+  }
+  const now = opts.now ?? Date.now();
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  return [
+    `${theme.heading("Subagent roster")} ${theme.muted(`(${entries.length})`)}`,
+    renderTable({
+      width: tableWidth,
+      columns: [
+        { key: "Name", header: "Name", minWidth: 12 },
+        { key: "Agent", header: "Agent", minWidth: 8 },
+        { key: "Requester", header: "Requester", minWidth: 16, flex: true },
+        { key: "Status", header: "Status", minWidth: 8 },
+        { key: "Active", header: "Last active", minWidth: 10 },
+        { key: "Model", header: "Model", minWidth: 10, flex: true },
+        { key: "Run", header: "Current run", minWidth: 12, flex: true },
+      ],
+      rows: entries.map((entry) => ({
+        Name: theme.command(entry.name),
+        Agent: entry.agentId,
+        Requester: entry.requesterSessionKey,
+        Status: entry.status === "running" ? theme.success("running") : theme.muted("idle"),
+        Active: formatTimeAgo(now - entry.lastActiveAt),
+        Model: entry.model ?? theme.muted("default"),
+        Run: entry.run
+          ? (entry.run.label || entry.run.task).slice(0, 60)
+          : (entry.currentRunId ?? ""),
+      })),
+    }).trimEnd(),
+  ].join("\n");
+}
+
+function targetParams(name: string, opts: RosterCliOpts) {
+  return { name, ...(opts.requester ? { requesterSessionKey: opts.requester } : {}) };
+}
+
+async function runRosterCall(
+  method: string,
+  opts: RosterCliOpts,
+  params: Record<string, unknown>,
+  describe: (res: Record<string, unknown>) => string,
+) {
+  try {
+    const res = await callGatewayFromCli(method, opts, params);
+    defaultRuntime.log(opts.json ? JSON.stringify(res, null, 2) : describe(res));
+  } catch (err) {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  }
+}
+
+async function listRoster(opts: RosterCliOpts) {
+  try {
+    const res = (await callGatewayFromCli("agents.roster.list", opts, {
+      ...(opts.agent ? { agentId: opts.agent } : {}),
+      ...(opts.requester ? { requesterSessionKey: opts.requester } : {}),
+    })) as { entries?: AgentsRosterEntry[] };
+    defaultRuntime.log(formatRosterList(res?.entries ?? [], opts));
+  } catch (err) {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  }
+}
+
+/**
+ * Register `agents roster` commands for managing named subagents via the gateway.
+ */
+export function registerAgentsRosterCli(agents: Command) {
+  const roster = agents
+    .command("roster")
+    .description("List and manage named subagents (per-requester roster)");
+
+  addGatewayClientOptions(
+    roster
+      .command("list")
+      .description("List named subagents with status, last activity, and current run")
+      .option("--agent <id>", "Only show subagents of this agent")
+      .option("--requester <sessionKey>", "Only show subagents owned by this session")
+      .option("--json", "Output JSON", false)
+      .action(async (opts: RosterCliOpts) => {
+        await listRoster(opts);
+      }),
+  );
+
+  addGatewayClientOptions(
+    roster
+      .command("rename")
+      .description("Rename a named subagent (keeps its session)")
+      .argument("<name>", "Current name")
+      .argument("<newName>", "New name")
+      .option("--requester <sessionKey>", "Owning session (when the name is ambiguous)")
+      .option("--json", "Output JSON", false)
+      .action(async (name: string, newName: string, opts: RosterCliOpts) => {
+        await runRosterCall(
+          "agents.roster.rename",
+          opts,
+          { ...targetParams(name, opts), newName },
+          () => `Renamed ${theme.command(name)} to ${theme.command(newName)}.`,
+        );
+      }),
+  );
+
+  addGatewayClientOptions(
+    roster
+      .command("reset")
+      .description("Stop any current run and start the subagent's session fresh")
+      .argument("<name>", "Subagent name")
+      .option("--requester <sessionKey>", "Owning session (when the name is ambiguous)")
+      .option("--json", "Output JSON", false)
+      .action(async (name: string, opts: RosterCliOpts) => {
+        await runRosterCall(
+          "agents.roster.reset",
+          opts,
+          targetParams(name, opts),
+          (res) => `Reset ${theme.command(name)}${res.killed ? " (stopped its current run)" : ""}.`,
+        );
+      }),
+  );
+
+  addGatewayClientOptions(
+    roster
+      .command("delete")
+      .alias("rm")
+      .description("Remove a named subagent from the roster")
+      .argument("<name>", "Subagent name")
+      .option("--requester <sessionKey>", "Owning session (when the name is ambiguous)")
+      .option("--delete-session", "Also delete the subagent's session and transcript", false)
+      .option("--json", "Output JSON", false)
+      .action(async (name: string, opts: RosterCliOpts) => {
+        await runRosterCall(
+          "agents.roster.delete",
+          opts,
+          { ...targetParams(name, opts), deleteSession: Boolean(opts.deleteSession) },
+          (res) =>
+            `Deleted ${theme.command(name)} from the roster${res.sessionDeleted ? " with its session" : ""}.`,
+        );
+      }),
+  );
+
+  addGatewayClientOptions(
+    roster
+      .command("kill")
+      .description("Stop the subagent's current run (and anything it spawned)")
+      .argument("<name>", "Subagent name")
+      .option("--requester <sessionKey>", "Owning session (when the name is ambiguous)")
+      .option("--json", "Output JSON", false)
+      .action(async (name: string, opts: RosterCliOpts) => {
+        await runRosterCall("agents.roster.kill", opts, targetParams(name, opts), (res) => {
+          if (!res.killed) {
+            return `${name} has no running run.`;
+          }
+          const cascade = typeof res.cascadeKilled === "number" ? res.cascadeKilled : 0;
+          return `Killed ${theme.command(name)}${cascade > 0 ? ` (+ ${cascade} descendant${cascade === 1 ? "" : "s"})` : ""}.`;
+        });
+      }),
+  );
+
+  roster.action(async () => {
+    await listRoster({});
+  });
+}
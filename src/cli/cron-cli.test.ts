@@ -1,3 +1,6 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
 import { Command } from "commander";
 import { describe, expect, it, vi } from "vitest";
 
@@ -504,4 +507,335 @@ describe("cron cli", () => {
   it("rejects --exact on edit when existing job is not cron", async () => {
     await expectCronEditWithScheduleLookupExit({ kind: "every", everyMs: 60_000 }, ["--exact"]);
   });
+
+  it("sends a retry policy with dead-letter target on cron add", async () => {
+    await runCronCommand([
+      "cron",
+      "add",
+      "--name",
+      "Flaky report",
+      "--every",
+      "1h",
+      "--message",
+      "build the report",
+      "--retry",
+      "3",
+      "--retry-backoff",
+      "1m",
+      "--retry-on",
+      "timeout,execution",
+      "--dead-letter-channel",
+      "telegram",
+      "--dead-letter-to",
+      "123",
+    ]);
+
+    const params = getGatewayCallParams<{ retry?: unknown }>("cron.add");
+    expect(params.retry).toEqual({
+      maxAttempts: 3,
+      backoffMs: 60_000,
+      retryOn: ["timeout", "execution"],
+      deadLetter: { channel: "telegram", to: "123" },
+    });
+  });
+
+  it("layers retry flags onto the existing policy on cron edit", async () => {
+    resetGatewayMock();
+    callGatewayFromCli.mockImplementation(
+      async (method: string, _opts: unknown, params?: unknown) => {
+        if (method === "cron.status") {
+          return { enabled: true };
+        }
+        if (method === "cron.list") {
+          return {
+            ok: true,
+            params: {},
+            jobs: [{ id: "job-1", retry: { maxAttempts: 2, backoffMs: 5_000 } }],
+          };
+        }
+        return { ok: true, params };
+      },
+    );
+    const program = buildProgram();
+    await program.parseAsync(["cron", "edit", "job-1", "--dead-letter-to", "ops"], {
+      from: "user",
+    });
+
+    const patch = getGatewayCallParams<{ patch?: { retry?: unknown } }>("cron.update");
+    expect(patch.patch?.retry).toEqual({
+      maxAttempts: 2,
+      backoffMs: 5_000,
+      deadLetter: { to: "ops" },
+    });
+  });
+
+  it("clears the retry policy on cron edit", async () => {
+    const patch = await runCronEditAndGetPatch(["--clear-retry"]);
+    expect((patch.patch as { retry?: unknown } | undefined)?.retry).toBeNull();
+  });
+
+  it("rejects unknown --retry-on kinds", async () => {
+    await expectCronCommandExit([
+      "cron",
+      "add",
+      "--name",
+      "Bad retry",
+      "--every",
+      "1h",
+      "--message",
+      "hi",
+      "--retry",
+      "2",
+      "--retry-on",
+      "network",
+    ]);
+  });
+
+  it("sends weekday, blackout, and holiday exclusions on cron add", async () => {
+    await runCronCommand([
+      "cron",
+      "add",
+      "--name",
+      "Standup",
+      "--cron",
+      "0 9 * * *",
+      "--message",
+      "summarize standup",
+      "--skip-weekdays",
+      "sat,sun",
+      "--blackout",
+      "2026-12-24..2026-12-31=holiday freeze",
+      "--blackout",
+      "2026-11-26",
+      "--holidays",
+      "~/calendars/holidays.ics",
+    ]);
+
+    const params = getGatewayCallParams<{ schedule?: { exclude?: unknown } }>("cron.add");
+    expect(params.schedule?.exclude).toEqual({
+      skipWeekdays: [6, 0],
+      windows: [
+        { start: "2026-12-24", end: "2026-12-31", label: "holiday freeze" },
+        { start: "2026-11-26" },
+      ],
+      icsPath: "~/calendars/holidays.ics",
+    });
+  });
+
+  it("layers exclusion flags onto the existing schedule on cron edit", async () => {
+    const patch = await runCronEditWithScheduleLookup(
+      { kind: "every", everyMs: 60_000, exclude: { skipWeekdays: [0] } },
+      ["--holidays", "holidays.ics"],
+    );
+    expect(patch?.patch?.schedule).toEqual({
+      kind: "every",
+      everyMs: 60_000,
+      exclude: { skipWeekdays: [0], icsPath: "holidays.ics" },
+    });
+  });
+
+  it("clears schedule exclusions on cron edit", async () => {
+    const patch = await runCronEditWithScheduleLookup(
+      { kind: "cron", expr: "0 9 * * *", exclude: { skipWeekdays: [0, 6] } },
+      ["--clear-exclusions"],
+    );
+    expect(patch?.patch?.schedule).toEqual({ kind: "cron", expr: "0 9 * * *", exclude: {} });
+  });
+
+  it("sends delivery conditions on cron add", async () => {
+    await runCronCommand([
+      "cron",
+      "add",
+      "--name",
+      "Uptime",
+      "--every",
+      "10m",
+      "--message",
+      "check uptime",
+      "--deliver-if",
+      "/down|degraded/i",
+      "--deliver-unless",
+      "maintenance",
+      "--deliver-if-json",
+      "$.alerts[0].level=high",
+      "--deliver-if-changed",
+    ]);
+
+    const params = getGatewayCallParams<{ delivery?: { mode?: string; when?: unknown } }>(
+      "cron.add",
+    );
+    expect(params.delivery?.mode).toBe("announce");
+    expect(params.delivery?.when).toEqual([
+      { kind: "regex", pattern: "down|degraded", flags: "i" },
+      { kind: "regex", pattern: "maintenance", negate: true },
+      { kind: "jsonPath", path: "$.alerts[0].level", equals: "high" },
+      { kind: "changed" },
+    ]);
+  });
+
+  it("replaces and clears delivery conditions on cron edit", async () => {
+    await runCronCommand(["cron", "edit", "job-1", "--deliver-if-json", "count=3"]);
+    let update = getGatewayCallParams<{ patch?: { delivery?: unknown } }>("cron.update");
+    expect(update.patch?.delivery).toEqual({
+      when: [{ kind: "jsonPath", path: "count", equals: 3 }],
+    });
+
+    resetGatewayMock();
+    await runCronCommand(["cron", "edit", "job-1", "--clear-delivery-conditions"]);
+    update = getGatewayCallParams<{ patch?: { delivery?: unknown } }>("cron.update");
+    expect(update.patch?.delivery).toEqual({ when: [] });
+  });
+
+  it("sends fan-out targets instead of channel/to on cron add", async () => {
+    await runCronCommand([
+      "cron",
+      "add",
+      "--name",
+      "Digest",
+      "--every",
+      "1h",
+      "--message",
+      "summarize",
+      "--to",
+      "ignored",
+      "--target",
+      "slack:channel:C1",
+      "--target",
+      "Telegram:-100123;format=summary;prefix=[ops];best-effort",
+      "--target",
+      "https://example.invalid/cron;id=audit",
+    ]);
+
+    const params = getGatewayCallParams<{ delivery?: Record<string, unknown> }>("cron.add");
+    expect(params.delivery?.channel).toBeUndefined();
+    expect(params.delivery?.to).toBeUndefined();
+    expect(params.delivery?.targets).toEqual([
+      { channel: "slack", to: "channel:C1" },
+      { channel: "telegram", to: "-100123", format: "summary", prefix: "[ops]", bestEffort: true },
+      { kind: "webhook", to: "https://example.invalid/cron", id: "audit" },
+    ]);
+
+    resetGatewayMock();
+    await runCronCommand(["cron", "edit", "job-1", "--clear-targets"]);
+    const update = getGatewayCallParams<{ patch?: { delivery?: unknown } }>("cron.update");
+    expect(update.patch?.delivery).toEqual({ targets: [] });
+  });
+
+  it("sends history filters to cron.runs.query", async () => {
+    await runCronCommand([
+      "cron",
+      "history",
+      "--id",
+      "job-1",
+      "--status",
+      "error,skipped",
+      "--since",
+      "2026-01-01T00:00:00Z",
+      "--model",
+      "openai/gpt-5.2",
+      "--min-tokens",
+      "1000",
+      "--transcript",
+      "--json",
+    ]);
+
+    const params = getGatewayCallParams<Record<string, unknown>>("cron.runs.query");
+    expect(params).toEqual({
+      jobId: "job-1",
+      statuses: ["error", "skipped"],
+      sinceMs: Date.parse("2026-01-01T00:00:00Z"),
+      model: "openai/gpt-5.2",
+      minTotalTokens: 1000,
+      limit: 20,
+      sortDir: "desc",
+      includeTranscript: true,
+    });
+  });
+
+  it("rejects unknown history statuses", async () => {
+    await expectCronCommandExit(["cron", "history", "--status", "failed"]);
+  });
+
+  it("imports a bundle, relinking after schedules to the new job ids", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-cron-import-"));
+    const bundlePath = path.join(dir, "jobs.yaml");
+    await fs.writeFile(
+      bundlePath,
+      [
+        "version: 1",
+        "jobs:",
+        "  - id: dev-sum",
+        "    name: Summarize",
+        "    schedule: { kind: after, jobId: dev-pull }",
+        "    message: Summarize the pull",
+        "  - id: dev-pull",
+        "    name: Pull",
+        "    schedule: { kind: every, everyMs: 3600000 }",
+        "    message: Pull data",
+        "",
+      ].join("\n"),
+      "utf-8",
+    );
+    try {
+      resetGatewayMock();
+      callGatewayFromCli.mockImplementation(
+        async (method: string, _opts: unknown, params?: unknown) => {
+          if (method === "cron.list") {
+            return {
+              ok: true,
+              params: {},
+              jobs: [
+                {
+                  id: "prod-pull",
+                  name: "Pull",
+                  schedule: { kind: "every", everyMs: 60_000 },
+                  payload: { kind: "agentTurn", message: "Pull data" },
+                },
+              ],
+            };
+          }
+          if (method === "cron.add") {
+            return { ok: true, params, id: "prod-sum" };
+          }
+          return { ok: true, params };
+        },
+      );
+      const program = buildProgram();
+      await program.parseAsync(["cron", "import", bundlePath, "--on-conflict", "overwrite"], {
+        from: "user",
+      });
+
+      const methods = callGatewayFromCli.mock.calls.map((call) => call[0]);
+      expect(methods).toEqual(["cron.list", "cron.update", "cron.add"]);
+      const update = getGatewayCallParams<{ id?: string; patch?: { schedule?: unknown } }>(
+        "cron.update",
+      );
+      expect(update.id).toBe("prod-pull");
+      expect(update.patch?.schedule).toEqual({ kind: "every", everyMs: 3_600_000, exclude: {} });
+      const add = getGatewayCallParams<{ id?: string; schedule?: unknown }>("cron.add");
+      expect(add.id).toBeUndefined();
+      expect(add.schedule).toEqual({ kind: "after", jobId: "prod-pull" });
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("does not change anything on import --dry-run", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-cron-import-"));
+    const bundlePath = path.join(dir, "jobs.json");
+    await fs.writeFile(
+      bundlePath,
+      JSON.stringify({
+        version: 1,
+        jobs: [{ name: "Ping", schedule: { kind: "every", everyMs: 60_000 }, text: "ping" }],
+      }),
+      "utf-8",
+    );
+    try {
+      await runCronCommand(["cron", "import", bundlePath, "--dry-run"]);
+      expect(callGatewayFromCli.mock.calls.map((call) => call[0])).toEqual(["cron.list"]);
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
 });
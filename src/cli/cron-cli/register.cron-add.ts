@@ -5,11 +5,16 @@ import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import type { GatewayRpcOpts } from "../gateway-rpc.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
-import { parsePositiveIntOrUndefined } from "../program/helpers.js";
+import { collectOption, parsePositiveIntOrUndefined } from "../program/helpers.js";
 import {
   getCronChannelOptions,
   parseAt,
   parseDurationMs,
+  parseDeliveryConditionOptions,
+  parseDeliveryTargetOptions,
+  parseExclusionOptions,
+  parseRetryOptions,
+  parseTriggerOn,
   printCronList,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
@@ -75,6 +80,11 @@ export function registerCronAddCommand(cron: Command) {
       .option("--at <when>", "Run once at time (ISO) or +duration (e.g. 20m)")
       .option("--every <duration>", "Run every duration (e.g. 10m, 1h)")
       .option("--cron <expr>", "Cron expression (5-field or 6-field with seconds)")
+      .option("--after <jobId>", "Run after another job finishes (dependency chain)")
+      .option(
+        "--trigger-on <status>",
+        "Upstream outcome that triggers --after jobs (ok|error|always)",
+      )
       .option("--tz <iana>", "Timezone for cron expressions (IANA)", "")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)", false)
@@ -92,6 +102,42 @@ export function registerCronAddCommand(cron: Command) {
         "Delivery destination (E.164, Telegram chatId, or Discord channel/user)",
       )
       .option("--best-effort-deliver", "Do not fail the job if delivery fails", false)
+      .option(
+        "--target <channel:to|url>",
+        "Fan out delivery to this target (repeatable; replaces --channel/--to; append ;format=summary, ;prefix=text, ;best-effort)",
+        collectOption,
+      )
+      .option(
+        "--deliver-if <regex>",
+        "Only deliver when the output matches this regex (repeatable; /pattern/flags allowed)",
+        collectOption,
+      )
+      .option(
+        "--deliver-unless <regex>",
+        "Skip delivery when the output matches (repeatable)",
+        collectOption,
+      )
+      .option(
+        "--deliver-if-json <path[=value]>",
+        "Only deliver when a JSON output field is truthy or equals value (repeatable)",
+        collectOption,
+      )
+      .option("--deliver-if-changed", "Only deliver when the summary changed since the last run")
+      .option("--skip-weekdays <days>", "Skip runs on these weekdays (e.g. sat,sun)")
+      .option(
+        "--blackout <start[..end]>",
+        "Skip runs inside a blackout window (YYYY-MM-DD or ISO; repeatable; append =label)",
+        collectOption,
+      )
+      .option("--holidays <ics-path>", "Skip runs on days listed in an ICS holiday calendar")
+      .option("--retry <attempts>", "Retry failed runs (total attempts, including the first)")
+      .option("--retry-backoff <duration>", "Delay before the first retry (e.g. 30s, 5m)")
+      .option(
+        "--retry-on <kinds>",
+        "Comma-separated failures to retry (timeout,delivery-target,execution)",
+      )
+      .option("--dead-letter-channel <channel>", "Channel notified when retries are exhausted")
+      .option("--dead-letter-to <dest>", "Recipient notified when retries are exhausted")
       .option("--json", "Output JSON", false)
       .action(async (opts: GatewayRpcOpts & Record<string, unknown>, cmd?: Command) => {
         try {
@@ -105,13 +151,22 @@ export function registerCronAddCommand(cron: Command) {
             const at = typeof opts.at === "string" ? opts.at : "";
             const every = typeof opts.every === "string" ? opts.every : "";
             const cronExpr = typeof opts.cron === "string" ? opts.cron : "";
-            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr)].filter(Boolean).length;
+            const after = typeof opts.after === "string" ? opts.after.trim() : "";
+            const chosen = [Boolean(at), Boolean(every), Boolean(cronExpr), Boolean(after)].filter(
+              Boolean,
+            ).length;
             if (chosen !== 1) {
-              throw new Error("Choose exactly one schedule: --at, --every, or --cron");
+              throw new Error("Choose exactly one schedule: --at, --every, --cron, or --after");
             }
             if ((useExact || staggerRaw) && !cronExpr) {
               throw new Error("--stagger/--exact are only valid with --cron");
             }
+            if (opts.triggerOn !== undefined && !after) {
+              throw new Error("--trigger-on is only valid with --after");
+            }
+            if (after) {
+              return { kind: "after" as const, jobId: after, on: parseTriggerOn(opts.triggerOn) };
+            }
             if (at) {
               const atIso = parseAt(at);
               if (!atIso) {
@@ -147,6 +202,8 @@ export function registerCronAddCommand(cron: Command) {
             };
           })();
 
+          const exclude = parseExclusionOptions(opts);
+
           const wakeModeRaw = typeof opts.wake === "string" ? opts.wake : "now";
           const wakeMode = wakeModeRaw.trim() || "now";
           if (wakeMode !== "now" && wakeMode !== "next-heartbeat") {
@@ -240,13 +297,23 @@ export function registerCronAddCommand(cron: Command) {
               ? opts.description.trim()
               : undefined;
 
+          const retry = parseRetryOptions(opts);
+          const deliveryConditions = parseDeliveryConditionOptions(opts);
+          if (deliveryConditions && deliveryMode !== "announce") {
+            throw new Error("--deliver-if options require announce delivery");
+          }
+          const deliveryTargets = parseDeliveryTargetOptions(opts);
+          if (deliveryTargets && deliveryMode !== "announce") {
+            throw new Error("--target requires announce delivery");
+          }
+
           const params = {
             name,
             description,
             enabled: !opts.disabled,
             deleteAfterRun: opts.deleteAfterRun ? true : opts.keepAfterRun ? false : undefined,
             agentId,
-            schedule,
+            schedule: exclude ? { ...schedule, exclude } : schedule,
             sessionTarget,
             wakeMode,
             payload,
@@ -254,13 +321,19 @@ export function registerCronAddCommand(cron: Command) {
               ? {
                   mode: deliveryMode,
                   channel:
-                    typeof opts.channel === "string" && opts.channel.trim()
+                    !deliveryTargets && typeof opts.channel === "string" && opts.channel.trim()
                       ? opts.channel.trim()
                       : undefined,
-                  to: typeof opts.to === "string" && opts.to.trim() ? opts.to.trim() : undefined,
+                  to:
+                    !deliveryTargets && typeof opts.to === "string" && opts.to.trim()
+                      ? opts.to.trim()
+                      : undefined,
                   bestEffort: opts.bestEffortDeliver ? true : undefined,
+                  when: deliveryConditions,
+                  targets: deliveryTargets,
                 }
               : undefined,
+            retry,
           };
 
           const res = await callGatewayFromCli("cron.add", opts, params);
@@ -0,0 +1,186 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import type { Command } from "commander";
+import {
+  buildCronBundle,
+  type CronBundleFormat,
+  type CronImportAction,
+  type CronImportConflictMode,
+  parseCronBundle,
+  planCronBundleImport,
+  relinkCronBundleJob,
+  serializeCronBundle,
+  toCronImportCreate,
+  toCronImportPatch,
+} from "../../cron/bundle.js";
+import type { CronJob } from "../../cron/types.js";
+import { danger } from "../../globals.js";
+import { defaultRuntime } from "../../runtime.js";
+import { colorize, isRich, theme } from "../../terminal/theme.js";
+import { resolveUserPath } from "../../utils.js";
+import type { GatewayRpcOpts } from "../gateway-rpc.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
+
+async function listAllJobs(opts: GatewayRpcOpts): Promise<CronJob[]> {
+  const res = (await callGatewayFromCli("cron.list", opts, { includeDisabled: true })) as {
+    jobs?: CronJob[];
+  } | null;
+  return res?.jobs ?? [];
+}
+
+function resolveBundleFormat(raw: unknown, outPath?: string): CronBundleFormat {
+  if (typeof raw !== "string") {
+    return outPath && /\.json$/i.test(outPath) ? "json" : "yaml";
+  }
+  const format = raw.trim().toLowerCase();
+  if (format === "yaml" || format === "yml") {
+    return "yaml";
+  }
+  if (format === "json") {
+    return "json";
+  }
+  throw new Error("--format must be yaml or json");
+}
+
+function resolveConflictMode(raw: unknown): CronImportConflictMode {
+  const mode = typeof raw === "string" ? raw.trim().toLowerCase() : "skip";
+  if (mode === "skip" || mode === "overwrite" || mode === "rename") {
+    return mode;
+  }
+  throw new Error("--on-conflict must be skip, overwrite, or rename");
+}
+
+function describeImportAction(action: CronImportAction, rich: boolean): string {
+  switch (action.kind) {
+    case "create":
+      return `${colorize(rich, theme.success, "+ create   ")}${action.job.name}`;
+    case "rename":
+      return `${colorize(rich, theme.success, "+ rename   ")}${action.job.name} -> ${action.name}`;
+    case "overwrite":
+      return `${colorize(rich, theme.warn, "~ overwrite")} ${action.job.name} (${action.changes.join(", ")})`;
+    case "unchanged":
+      return `${colorize(rich, theme.muted, "= unchanged")} ${action.job.name}`;
+    case "skip":
+      return `${colorize(rich, theme.muted, "- skip     ")}${action.job.name} (exists as ${action.existingId})`;
+  }
+  return action satisfies never;
+}
+
+export function registerCronBundleCommands(cron: Command) {
+  addGatewayClientOptions(
+    cron
+      .command("export")
+      .description("Export cron jobs (without runtime state) as a YAML/JSON bundle")
+      .argument("[ids...]", "Job ids to export (default: all jobs)")
+      .option("--out <path>", "Write the bundle to a file instead of stdout")
+      .option("--format <format>", "Bundle format (yaml|json; default from --out or yaml)")
+      .action(async (ids: string[], opts: GatewayRpcOpts & Record<string, unknown>) => {
+        try {
+          const outPath = typeof opts.out === "string" && opts.out.trim() ? opts.out.trim() : "";
+          const format = resolveBundleFormat(opts.format, outPath);
+          const jobs = await listAllJobs(opts);
+          const missing = ids.filter((id) => !jobs.some((job) => job.id === id));
+          if (missing.length > 0) {
+            throw new Error(`unknown cron job id: ${missing.join(", ")}`);
+          }
+          const selected = ids.length > 0 ? jobs.filter((job) => ids.includes(job.id)) : jobs;
+          const text = serializeCronBundle(buildCronBundle(selected), format);
+          if (!outPath) {
+            defaultRuntime.log(text.trimEnd());
+            return;
+          }
+          const resolved = path.resolve(resolveUserPath(outPath));
+          await fs.writeFile(resolved, text, "utf-8");
+          defaultRuntime.log(`Exported ${selected.length} cron job(s) to ${resolved}`);
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+
+  addGatewayClientOptions(
+    cron
+      .command("import")
+      .description("Import cron jobs from a YAML/JSON bundle")
+      .argument("<file>", "Bundle file written by `cron export`")
+      .option(
+        "--on-conflict <mode>",
+        "When a job with the same id or name exists (skip|overwrite|rename)",
+        "skip",
+      )
+      .option("--dry-run", "Show what would change without applying it", false)
+      .option("--json", "Output JSON", false)
+      .action(async (file: string, opts: GatewayRpcOpts & Record<string, unknown>) => {
+        try {
+          const mode = resolveConflictMode(opts.onConflict);
+          const raw = await fs.readFile(path.resolve(resolveUserPath(file)), "utf-8");
+          const bundle = parseCronBundle(raw);
+          const plan = planCronBundleImport({ bundle, existing: await listAllJobs(opts), mode });
+
+          const rich = isRich();
+          if (!opts.json) {
+            for (const action of plan) {
+              defaultRuntime.log(describeImportAction(action, rich));
+            }
+          }
+          if (opts.dryRun) {
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify({ dryRun: true, plan }, null, 2));
+            }
+            return;
+          }
+
+          // Bundle id -> id on this gateway, so `after` schedules can be relinked.
+          const idMap = new Map<string, string>();
+          const applied: Array<{ kind: CronImportAction["kind"]; name: string; id: string }> = [];
+          for (const action of plan) {
+            const job = relinkCronBundleJob(action.job, idMap);
+            let id: string;
+            if (action.kind === "create" || action.kind === "rename") {
+              const created = (await callGatewayFromCli(
+                "cron.add",
+                opts,
+                toCronImportCreate(job, action.kind === "rename" ? action.name : undefined),
+              )) as { id?: string } | null;
+              if (!created?.id) {
+                throw new Error(`cron.add did not return an id for ${job.name}`);
+              }
+              id = created.id;
+            } else {
+              id = action.existingId;
+              if (action.kind === "overwrite") {
+                await callGatewayFromCli("cron.update", opts, {
+                  id,
+                  patch: toCronImportPatch(job),
+                });
+              }
+            }
+            if (action.job.id) {
+              idMap.set(action.job.id, id);
+            }
+            applied.push({
+              kind: action.kind,
+              name: action.kind === "rename" ? action.name : job.name,
+              id,
+            });
+          }
+
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify({ dryRun: false, applied }, null, 2));
+            return;
+          }
+          const count = (kind: CronImportAction["kind"]) =>
+            applied.filter((entry) => entry.kind === kind).length;
+          defaultRuntime.log(
+            `Imported ${count("create") + count("rename")} new, ${count("overwrite")} updated, ${
+              count("unchanged") + count("skip")
+            } left as-is.`,
+          );
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+}
@@ -4,10 +4,19 @@ import { danger } from "../../globals.js";
 import { sanitizeAgentId } from "../../routing/session-key.js";
 import { defaultRuntime } from "../../runtime.js";
 import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
+import { collectOption } from "../program/helpers.js";
 import {
   getCronChannelOptions,
+  hasDeliveryConditionOptions,
+  hasExclusionOptions,
+  hasRetryOptions,
   parseAt,
   parseDurationMs,
+  parseDeliveryConditionOptions,
+  parseDeliveryTargetOptions,
+  parseExclusionOptions,
+  parseRetryOptions,
+  parseTriggerOn,
   warnIfCronSchedulerDisabled,
 } from "./shared.js";
 
@@ -41,6 +50,11 @@ export function registerCronEditCommand(cron: Command) {
       .option("--at <when>", "Set one-shot time (ISO) or duration like 20m")
       .option("--every <duration>", "Set interval duration like 10m")
       .option("--cron <expr>", "Set cron expression")
+      .option("--after <jobId>", "Run after another job finishes (dependency chain)")
+      .option(
+        "--trigger-on <status>",
+        "Upstream outcome that triggers --after jobs (ok|error|always)",
+      )
       .option("--tz <iana>", "Timezone for cron expressions (IANA)")
       .option("--stagger <duration>", "Cron stagger window (e.g. 30s, 5m)")
       .option("--exact", "Disable cron staggering (set stagger to 0)")
@@ -59,6 +73,50 @@ export function registerCronEditCommand(cron: Command) {
       )
       .option("--best-effort-deliver", "Do not fail job if delivery fails")
       .option("--no-best-effort-deliver", "Fail job when delivery fails")
+      .option(
+        "--deliver-if <regex>",
+        "Only deliver when the output matches this regex (repeatable; /pattern/flags allowed)",
+        collectOption,
+      )
+      .option(
+        "--deliver-unless <regex>",
+        "Skip delivery when the output matches (repeatable)",
+        collectOption,
+      )
+      .option(
+        "--deliver-if-json <path[=value]>",
+        "Only deliver when a JSON output field is truthy or equals value (repeatable)",
+        collectOption,
+      )
+      .option("--deliver-if-changed", "Only deliver when the summary changed since the last run")
+      .option(
+        "--clear-delivery-conditions",
+        "Deliver every run again (remove --deliver-if rules)",
+        false,
+      )
+      .option(
+        "--target <channel:to|url>",
+        "Replace fan-out delivery targets (repeatable; append ;format=summary, ;prefix=text, ;best-effort)",
+        collectOption,
+      )
+      .option("--clear-targets", "Remove fan-out targets (back to --channel/--to)", false)
+      .option("--skip-weekdays <days>", "Skip runs on these weekdays (e.g. sat,sun)")
+      .option(
+        "--blackout <start[..end]>",
+        "Skip runs inside a blackout window (YYYY-MM-DD or ISO; repeatable; append =label)",
+        collectOption,
+      )
+      .option("--holidays <ics-path>", "Skip runs on days listed in an ICS holiday calendar")
+      .option("--clear-exclusions", "Remove weekday, blackout, and holiday exclusions", false)
+      .option("--retry <attempts>", "Retry failed runs (total attempts, including the first)")
+      .option("--retry-backoff <duration>", "Delay before the first retry (e.g. 30s, 5m)")
+      .option(
+        "--retry-on <kinds>",
+        "Comma-separated failures to retry (timeout,delivery-target,execution)",
+      )
+      .option("--dead-letter-channel <channel>", "Channel notified when retries are exhausted")
+      .option("--dead-letter-to <dest>", "Recipient notified when retries are exhausted")
+      .option("--clear-retry", "Remove the retry policy", false)
       .action(async (id, opts) => {
         try {
           if (opts.session === "main" && opts.message) {
@@ -134,16 +192,22 @@ export function registerCronEditCommand(cron: Command) {
             patch.agentId = null;
           }
 
-          const scheduleChosen = [opts.at, opts.every, opts.cron].filter(Boolean).length;
+          const scheduleChosen = [opts.at, opts.every, opts.cron, opts.after].filter(
+            Boolean,
+          ).length;
           if (scheduleChosen > 1) {
             throw new Error("Choose at most one schedule change");
           }
           if (
             (requestedStaggerMs !== undefined || typeof opts.tz === "string") &&
-            (opts.at || opts.every)
+            (opts.at || opts.every || opts.after)
           ) {
             throw new Error("--stagger/--exact/--tz are only valid for cron schedules");
           }
+          const triggerOn = parseTriggerOn(opts.triggerOn);
+          if (triggerOn && (opts.at || opts.every || opts.cron)) {
+            throw new Error("--trigger-on is only valid for --after schedules");
+          }
           if (opts.at) {
             const atIso = parseAt(String(opts.at));
             if (!atIso) {
@@ -156,6 +220,22 @@ export function registerCronEditCommand(cron: Command) {
               throw new Error("Invalid --every");
             }
             patch.schedule = { kind: "every", everyMs };
+          } else if (opts.after) {
+            patch.schedule = { kind: "after", jobId: String(opts.after).trim(), on: triggerOn };
+          } else if (triggerOn) {
+            const listed = (await callGatewayFromCli("cron.list", opts, {
+              includeDisabled: true,
+            })) as { jobs?: CronJob[] } | null;
+            const existing = (listed?.jobs ?? []).find((job) => job.id === id);
+            if (!existing) {
+              throw new Error(`unknown cron job id: ${id}`);
+            }
+            if (existing.schedule.kind !== "after") {
+              throw new Error(
+                "Current job is not an --after schedule; use --after to convert first",
+              );
+            }
+            patch.schedule = { kind: "after", jobId: existing.schedule.jobId, on: triggerOn };
           } else if (opts.cron) {
             patch.schedule = {
               kind: "cron",
@@ -185,6 +265,27 @@ export function registerCronEditCommand(cron: Command) {
             };
           }
 
+          if (opts.clearExclusions && hasExclusionOptions(opts)) {
+            throw new Error("Use exclusion options or --clear-exclusions, not both");
+          }
+          if (opts.clearExclusions || hasExclusionOptions(opts)) {
+            const listed = (await callGatewayFromCli("cron.list", opts, {
+              includeDisabled: true,
+            })) as { jobs?: CronJob[] } | null;
+            const existing = (listed?.jobs ?? []).find((job) => job.id === id);
+            if (!existing) {
+              throw new Error(`unknown cron job id: ${id}`);
+            }
+            // An empty `exclude` object clears all exclusions server-side.
+            const exclude = opts.clearExclusions
+              ? {}
+              : parseExclusionOptions(opts, existing.schedule.exclude);
+            patch.schedule = {
+              ...((patch.schedule as CronJob["schedule"] | undefined) ?? existing.schedule),
+              exclude,
+            };
+          }
+
           const hasSystemEventPatch = typeof opts.systemEvent === "string";
           const model =
             typeof opts.model === "string" && opts.model.trim() ? opts.model.trim() : undefined;
@@ -246,6 +347,43 @@ export function registerCronEditCommand(cron: Command) {
             patch.delivery = delivery;
           }
 
+          if (opts.clearDeliveryConditions && hasDeliveryConditionOptions(opts)) {
+            throw new Error("Use --deliver-if options or --clear-delivery-conditions, not both");
+          }
+          if (opts.clearDeliveryConditions || hasDeliveryConditionOptions(opts)) {
+            patch.delivery = {
+              ...(patch.delivery as Record<string, unknown> | undefined),
+              when: parseDeliveryConditionOptions(opts) ?? [],
+            };
+          }
+
+          const deliveryTargets = parseDeliveryTargetOptions(opts);
+          if (opts.clearTargets && deliveryTargets) {
+            throw new Error("Use --target or --clear-targets, not both");
+          }
+          if (opts.clearTargets || deliveryTargets) {
+            patch.delivery = {
+              ...(patch.delivery as Record<string, unknown> | undefined),
+              targets: deliveryTargets ?? [],
+            };
+          }
+
+          if (opts.clearRetry && hasRetryOptions(opts)) {
+            throw new Error("Use --retry options or --clear-retry, not both");
+          }
+          if (opts.clearRetry) {
+            patch.retry = null;
+          } else if (hasRetryOptions(opts)) {
+            const listed = (await callGatewayFromCli("cron.list", opts, {
+              includeDisabled: true,
+            })) as { jobs?: CronJob[] } | null;
+            const existing = (listed?.jobs ?? []).find((job) => job.id === id);
+            if (!existing) {
+              throw new Error(`unknown cron job id: ${id}`);
+            }
+            patch.retry = parseRetryOptions(opts, existing.retry);
+          }
+
           const res = await callGatewayFromCli("cron.update", opts, {
             id,
             patch,
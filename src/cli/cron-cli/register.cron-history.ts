@@ -0,0 +1,190 @@
+import type { Command } from "commander";
+import { parseAbsoluteTimeMs } from "../../cron/parse.js";
+import type { CronRunLogQueryResult, CronRunLogEntry } from "../../cron/run-log.js";
+import { danger } from "../../globals.js";
+import { defaultRuntime } from "../../runtime.js";
+import { extractTextFromChatContent } from "../../shared/chat-content.js";
+import { colorize, isRich, theme } from "../../terminal/theme.js";
+import { formatTokenCount, formatUsd } from "../../utils/usage-format.js";
+import { addGatewayClientOptions, callGatewayFromCli } from "../gateway-rpc.js";
+import { parsePositiveIntOrUndefined } from "../program/helpers.js";
+import { parseDurationMs } from "./shared.js";
+
+type CronHistoryEntry = CronRunLogEntry & { jobName?: string; transcript?: unknown[] };
+type CronHistoryResult = Omit<CronRunLogQueryResult, "entries"> & {
+  entries: CronHistoryEntry[];
+};
+
+const RUN_STATUSES = ["ok", "error", "skipped"] as const;
+
+/** Accepts an absolute time (ISO / epoch ms) or a lookback duration such as `7d`. */
+function parseHistoryTime(raw: unknown, flag: string): number | undefined {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return undefined;
+  }
+  const absolute = parseAbsoluteTimeMs(raw.trim());
+  if (absolute !== null) {
+    return absolute;
+  }
+  const lookback = parseDurationMs(raw);
+  if (lookback !== null) {
+    return Date.now() - lookback;
+  }
+  throw new Error(`Invalid ${flag}; use an ISO time or a lookback like 24h, 7d`);
+}
+
+function parseStatuses(raw: unknown): Array<(typeof RUN_STATUSES)[number]> | undefined {
+  if (typeof raw !== "string" || !raw.trim()) {
+    return undefined;
+  }
+  const statuses = raw
+    .split(",")
+    .map((status) => status.trim().toLowerCase())
+    .filter(Boolean);
+  const valid = statuses.filter((status): status is (typeof RUN_STATUSES)[number] =>
+    (RUN_STATUSES as readonly string[]).includes(status),
+  );
+  if (valid.length !== statuses.length || valid.length === 0) {
+    throw new Error(`--status must list: ${RUN_STATUSES.join(", ")}`);
+  }
+  return Array.from(new Set(valid));
+}
+
+function formatRunTokens(entry: CronRunLogEntry): string {
+  const usage = entry.usage;
+  if (!usage) {
+    return "-";
+  }
+  const total = usage.total_tokens ?? (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0);
+  return `${formatTokenCount(total)} tok`;
+}
+
+function formatTranscriptMessage(message: unknown): string | null {
+  if (!message || typeof message !== "object") {
+    return null;
+  }
+  const record = message as { role?: unknown; content?: unknown };
+  const text = extractTextFromChatContent(record.content, {
+    joinWith: "\n",
+    normalizeText: (value) => value.trim(),
+  });
+  if (!text) {
+    return null;
+  }
+  const role = typeof record.role === "string" ? record.role : "message";
+  return `[${role}] ${text}`;
+}
+
+export function printCronHistory(
+  result: CronHistoryResult,
+  opts: { transcript?: boolean } = {},
+  runtime = defaultRuntime,
+) {
+  const rich = isRich();
+  if (result.entries.length === 0) {
+    runtime.log("No matching cron runs.");
+  }
+  for (const entry of result.entries) {
+    const status = entry.status ?? "unknown";
+    const statusColor =
+      status === "ok" ? theme.success : status === "error" ? theme.error : theme.muted;
+    const parts = [
+      colorize(rich, theme.muted, new Date(entry.runAtMs ?? entry.ts).toISOString()),
+      colorize(rich, theme.info, entry.jobName ?? entry.jobId),
+      colorize(rich, statusColor, status),
+      `${entry.durationMs ?? 0}ms`,
+      entry.model ? (entry.provider ? `${entry.provider}/${entry.model}` : entry.model) : "-",
+      formatRunTokens(entry),
+    ];
+    runtime.log(parts.join("  "));
+    const detail = entry.error ?? entry.skipReason ?? entry.summary;
+    if (detail) {
+      runtime.log(`  ${detail.trim().split("\n")[0]}`);
+    }
+    if (entry.transcript) {
+      runtime.log(colorize(rich, theme.heading, `  Transcript (${entry.sessionKey ?? "-"})`));
+      for (const message of entry.transcript) {
+        const line = formatTranscriptMessage(message);
+        if (line) {
+          runtime.log(line.replace(/^/gm, "    "));
+        }
+      }
+    } else if (opts.transcript && entry.sessionKey) {
+      runtime.log(colorize(rich, theme.muted, "  Transcript unavailable."));
+    }
+  }
+
+  const totals = result.totals;
+  const cost = formatUsd(totals.totalCost);
+  runtime.log("");
+  runtime.log(
+    [
+      `${totals.runs} runs (ok ${totals.ok}, error ${totals.error}, skipped ${totals.skipped})`,
+      `${formatTokenCount(totals.totalTokens)} tokens`,
+      ...(cost ? [cost] : []),
+    ].join(" · "),
+  );
+  for (const model of totals.byModel) {
+    const label = model.provider ? `${model.provider}/${model.model}` : model.model;
+    const modelCost = formatUsd(model.totalCost);
+    runtime.log(
+      colorize(
+        rich,
+        theme.muted,
+        `  ${label}: ${model.runs} runs, ${formatTokenCount(model.totalTokens)} tokens${
+          modelCost ? `, ${modelCost}` : ""
+        }`,
+      ),
+    );
+  }
+  if (result.hasMore && result.nextOffset !== null) {
+    runtime.log(colorize(rich, theme.muted, `More runs: --offset ${result.nextOffset}`));
+  }
+}
+
+export function registerCronHistoryCommand(cron: Command) {
+  addGatewayClientOptions(
+    cron
+      .command("history")
+      .description("Search cron run history with usage totals and transcript replay")
+      .option("--id <id>", "Only runs of this job")
+      .option("--status <list>", "Comma-separated statuses (ok,error,skipped)")
+      .option("--since <when>", "Runs finished after this time (ISO) or lookback (e.g. 7d)")
+      .option("--until <when>", "Runs finished before this time (ISO) or lookback (e.g. 1h)")
+      .option("--model <model>", "Only runs that used this model (model or provider/model)")
+      .option("--min-tokens <n>", "Only runs that used at least this many tokens")
+      .option("--query <text>", "Match summary, error, or job name text")
+      .option("--limit <n>", "Max runs per page (default 20)", "20")
+      .option("--offset <n>", "Skip this many matching runs")
+      .option("--asc", "Oldest runs first", false)
+      .option("--transcript", "Print the isolated session transcript of each run", false)
+      .option("--json", "Output JSON", false)
+      .action(async (opts) => {
+        try {
+          const res = (await callGatewayFromCli("cron.runs.query", opts, {
+            jobId: typeof opts.id === "string" && opts.id.trim() ? opts.id.trim() : undefined,
+            statuses: parseStatuses(opts.status),
+            sinceMs: parseHistoryTime(opts.since, "--since"),
+            untilMs: parseHistoryTime(opts.until, "--until"),
+            model:
+              typeof opts.model === "string" && opts.model.trim() ? opts.model.trim() : undefined,
+            minTotalTokens: parsePositiveIntOrUndefined(opts.minTokens),
+            query:
+              typeof opts.query === "string" && opts.query.trim() ? opts.query.trim() : undefined,
+            limit: parsePositiveIntOrUndefined(opts.limit) ?? 20,
+            offset: parsePositiveIntOrUndefined(opts.offset),
+            sortDir: opts.asc ? "asc" : "desc",
+            includeTranscript: opts.transcript ? true : undefined,
+          })) as CronHistoryResult;
+          if (opts.json) {
+            defaultRuntime.log(JSON.stringify(res, null, 2));
+            return;
+          }
+          printCronHistory(res, { transcript: Boolean(opts.transcript) });
+        } catch (err) {
+          defaultRuntime.error(danger(String(err)));
+          defaultRuntime.exit(1);
+        }
+      }),
+  );
+}
@@ -6,7 +6,9 @@ import {
   registerCronListCommand,
   registerCronStatusCommand,
 } from "./register.cron-add.js";
+import { registerCronBundleCommands } from "./register.cron-bundle.js";
 import { registerCronEditCommand } from "./register.cron-edit.js";
+import { registerCronHistoryCommand } from "./register.cron-history.js";
 import { registerCronSimpleCommands } from "./register.cron-simple.js";
 
 export function registerCronCli(program: Command) {
@@ -23,5 +25,7 @@ export function registerCronCli(program: Command) {
   registerCronListCommand(cron);
   registerCronAddCommand(cron);
   registerCronSimpleCommands(cron);
+  registerCronHistoryCommand(cron);
+  registerCronBundleCommands(cron);
   registerCronEditCommand(cron);
 }
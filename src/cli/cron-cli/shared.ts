@@ -1,7 +1,22 @@
 import { listChannelPlugins } from "../../channels/plugins/index.js";
+import { parseCronWeekday } from "../../cron/calendar.js";
+import {
+  isCronAfterSchedule,
+  listCronDependents,
+  resolveCronDependencyCondition,
+} from "../../cron/dependencies.js";
 import { parseAbsoluteTimeMs } from "../../cron/parse.js";
+import { CRON_RETRY_ERROR_KINDS, isCronRetryErrorKind } from "../../cron/retry.js";
 import { resolveCronStaggerMs } from "../../cron/stagger.js";
-import type { CronJob, CronSchedule } from "../../cron/types.js";
+import type {
+  CronDeliveryCondition,
+  CronDeliveryTarget,
+  CronDependencyCondition,
+  CronJob,
+  CronRetryPolicy,
+  CronSchedule,
+  CronScheduleExclusions,
+} from "../../cron/types.js";
 import { formatDurationHuman } from "../../infra/format-time/format-duration.ts";
 import { defaultRuntime } from "../../runtime.js";
 import { colorize, isRich, theme } from "../../terminal/theme.js";
@@ -78,6 +93,245 @@ export function parseAt(input: string): string | null {
   return null;
 }
 
+export function parseTriggerOn(input: unknown): CronDependencyCondition | undefined {
+  if (input === undefined) {
+    return undefined;
+  }
+  const raw = typeof input === "string" ? input.trim().toLowerCase() : "";
+  if (raw === "ok" || raw === "error" || raw === "always") {
+    return raw;
+  }
+  throw new Error("--trigger-on must be ok, error, or always");
+}
+
+export function hasRetryOptions(opts: Record<string, unknown>): boolean {
+  return ["retry", "retryBackoff", "retryOn", "deadLetterChannel", "deadLetterTo"].some(
+    (key) => typeof opts[key] === "string",
+  );
+}
+
+/**
+ * Builds a retry policy from `--retry*` / `--dead-letter-*` flags, layered on
+ * top of `base` so edits can tweak a single field.
+ */
+export function parseRetryOptions(
+  opts: Record<string, unknown>,
+  base?: CronRetryPolicy,
+): CronRetryPolicy | undefined {
+  if (!hasRetryOptions(opts)) {
+    return undefined;
+  }
+  const next: Partial<CronRetryPolicy> = { ...base };
+  if (typeof opts.retry === "string") {
+    const attempts = Number.parseInt(opts.retry.trim(), 10);
+    if (!Number.isFinite(attempts) || attempts < 1) {
+      throw new Error("--retry must be a positive number of attempts");
+    }
+    next.maxAttempts = attempts;
+  }
+  if (typeof opts.retryBackoff === "string") {
+    const backoffMs = parseDurationMs(opts.retryBackoff);
+    if (!backoffMs) {
+      throw new Error("Invalid --retry-backoff; use e.g. 30s, 5m");
+    }
+    next.backoffMs = backoffMs;
+  }
+  if (typeof opts.retryOn === "string") {
+    const kinds = opts.retryOn
+      .split(",")
+      .map((kind) => kind.trim().toLowerCase())
+      .filter(Boolean);
+    const invalid = kinds.filter((kind) => !isCronRetryErrorKind(kind));
+    if (kinds.length === 0 || invalid.length > 0) {
+      throw new Error(`--retry-on must list: ${CRON_RETRY_ERROR_KINDS.join(", ")}`);
+    }
+    next.retryOn = kinds.filter(isCronRetryErrorKind);
+  }
+  if (typeof opts.deadLetterChannel === "string" || typeof opts.deadLetterTo === "string") {
+    const channel =
+      typeof opts.deadLetterChannel === "string" ? opts.deadLetterChannel.trim() : undefined;
+    const to = typeof opts.deadLetterTo === "string" ? opts.deadLetterTo.trim() : undefined;
+    next.deadLetter = {
+      ...next.deadLetter,
+      ...(channel !== undefined ? { channel: channel || undefined } : {}),
+      ...(to !== undefined ? { to: to || undefined } : {}),
+    };
+  }
+  if (typeof next.maxAttempts !== "number") {
+    throw new Error("--retry <attempts> is required when configuring retries");
+  }
+  return { ...next, maxAttempts: next.maxAttempts };
+}
+
+export function hasExclusionOptions(opts: Record<string, unknown>): boolean {
+  return (
+    typeof opts.skipWeekdays === "string" ||
+    typeof opts.holidays === "string" ||
+    (Array.isArray(opts.blackout) && opts.blackout.length > 0)
+  );
+}
+
+/**
+ * Builds schedule exclusions from `--skip-weekdays`, `--blackout` and
+ * `--holidays`, layered on top of `base`. Each `--blackout` replaces the
+ * existing windows rather than appending to them.
+ */
+export function parseExclusionOptions(
+  opts: Record<string, unknown>,
+  base?: CronScheduleExclusions,
+): CronScheduleExclusions | undefined {
+  if (!hasExclusionOptions(opts)) {
+    return undefined;
+  }
+  const next: CronScheduleExclusions = { ...base };
+  if (typeof opts.skipWeekdays === "string") {
+    const days = opts.skipWeekdays
+      .split(",")
+      .map((day) => day.trim())
+      .filter(Boolean);
+    const weekdays = days.map(parseCronWeekday);
+    if (weekdays.some((weekday) => weekday === undefined)) {
+      throw new Error("--skip-weekdays must list weekdays like sat,sun or 0-6 (0 = Sunday)");
+    }
+    next.skipWeekdays = weekdays.filter((weekday): weekday is number => weekday !== undefined);
+    if (next.skipWeekdays.length === 0) {
+      delete next.skipWeekdays;
+    }
+  }
+  if (Array.isArray(opts.blackout) && opts.blackout.length > 0) {
+    next.windows = opts.blackout.map((raw) => {
+      const value = String(raw).trim();
+      const [span, label] = value.split("=", 2).map((part) => part.trim());
+      const [start, end] = (span ?? "").split("..", 2).map((part) => part.trim());
+      if (!start) {
+        throw new Error("Invalid --blackout; use <start>[..<end>][=label]");
+      }
+      return { start, ...(end ? { end } : {}), ...(label ? { label } : {}) };
+    });
+  }
+  if (typeof opts.holidays === "string") {
+    const icsPath = opts.holidays.trim();
+    if (icsPath) {
+      next.icsPath = icsPath;
+    } else {
+      delete next.icsPath;
+    }
+  }
+  return next;
+}
+
+export function hasDeliveryConditionOptions(opts: Record<string, unknown>): boolean {
+  return (
+    (Array.isArray(opts.deliverIf) && opts.deliverIf.length > 0) ||
+    (Array.isArray(opts.deliverUnless) && opts.deliverUnless.length > 0) ||
+    (Array.isArray(opts.deliverIfJson) && opts.deliverIfJson.length > 0) ||
+    opts.deliverIfChanged === true
+  );
+}
+
+function parseRegexOption(raw: unknown, negate: boolean): CronDeliveryCondition {
+  const value = String(raw).trim();
+  // Accept `/pattern/flags` as well as a bare pattern.
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(value);
+  const pattern = literal ? literal[1] : value;
+  if (!pattern) {
+    throw new Error(`Invalid ${negate ? "--deliver-unless" : "--deliver-if"}; pattern is empty`);
+  }
+  return {
+    kind: "regex",
+    pattern,
+    ...(literal?.[2] ? { flags: literal[2] } : {}),
+    ...(negate ? { negate: true } : {}),
+  };
+}
+
+function parseJsonPathOption(raw: unknown): CronDeliveryCondition {
+  const value = String(raw).trim();
+  const eq = value.indexOf("=");
+  const path = (eq === -1 ? value : value.slice(0, eq)).trim();
+  if (!path) {
+    throw new Error("Invalid --deliver-if-json; use <path>[=<value>]");
+  }
+  if (eq === -1) {
+    return { kind: "jsonPath", path };
+  }
+  const expected = value.slice(eq + 1).trim();
+  let equals: string | number | boolean | null = expected;
+  try {
+    const parsed: unknown = JSON.parse(expected);
+    if (
+      parsed === null ||
+      typeof parsed === "string" ||
+      typeof parsed === "number" ||
+      typeof parsed === "boolean"
+    ) {
+      equals = parsed;
+    }
+  } catch {
+    // Bare strings compare as-is.
+  }
+  return { kind: "jsonPath", path, equals };
+}
+
+/**
+ * Builds `delivery.when` from `--deliver-if`, `--deliver-unless`,
+ * `--deliver-if-json` and `--deliver-if-changed`. All conditions must pass.
+ */
+export function parseDeliveryConditionOptions(
+  opts: Record<string, unknown>,
+): CronDeliveryCondition[] | undefined {
+  if (!hasDeliveryConditionOptions(opts)) {
+    return undefined;
+  }
+  const list = (value: unknown) => (Array.isArray(value) ? value : []);
+  return [
+    ...list(opts.deliverIf).map((raw) => parseRegexOption(raw, false)),
+    ...list(opts.deliverUnless).map((raw) => parseRegexOption(raw, true)),
+    ...list(opts.deliverIfJson).map(parseJsonPathOption),
+    ...(opts.deliverIfChanged === true ? [{ kind: "changed" as const }] : []),
+  ];
+}
+
+function parseDeliveryTargetOption(raw: unknown): CronDeliveryTarget {
+  // `<channel:to|url>[;id=name][;format=summary][;prefix=text][;best-effort]`
+  const [spec = "", ...options] = String(raw).split(";");
+  const dest = spec.trim();
+  if (!dest) {
+    throw new Error("Invalid --target; use <channel:to> or an http(s) URL");
+  }
+  const sep = dest.indexOf(":");
+  const target: CronDeliveryTarget = /^https?:\/\//i.test(dest)
+    ? { kind: "webhook", to: dest }
+    : sep > 0
+      ? { channel: dest.slice(0, sep).trim().toLowerCase(), to: dest.slice(sep + 1).trim() }
+      : { channel: dest.toLowerCase() };
+  for (const option of options) {
+    const eq = option.indexOf("=");
+    const key = (eq === -1 ? option : option.slice(0, eq)).trim().toLowerCase();
+    const value = eq === -1 ? "" : option.slice(eq + 1).trim();
+    if (key === "best-effort") {
+      target.bestEffort = true;
+    } else if (key === "format" && (value === "full" || value === "summary")) {
+      target.format = value;
+    } else if ((key === "id" || key === "prefix") && value) {
+      target[key] = value;
+    } else if (key) {
+      throw new Error(`Invalid --target option: ${option.trim()}`);
+    }
+  }
+  return target;
+}
+
+/** Builds `delivery.targets` from repeated `--target` options. */
+export function parseDeliveryTargetOptions(
+  opts: Record<string, unknown>,
+): CronDeliveryTarget[] | undefined {
+  if (!Array.isArray(opts.target) || opts.target.length === 0) {
+    return undefined;
+  }
+  return opts.target.map(parseDeliveryTargetOption);
+}
+
 const CRON_ID_PAD = 36;
 const CRON_NAME_PAD = 24;
 const CRON_SCHEDULE_PAD = 32;
@@ -131,13 +385,20 @@ const formatRelative = (ms: number | null | undefined, nowMs: number) => {
   return delta >= 0 ? `in ${label}` : `${label} ago`;
 };
 
-const formatSchedule = (schedule: CronSchedule) => {
+const formatJobRef = (jobId: string, jobs: CronJob[]) =>
+  jobs.find((job) => job.id === jobId)?.name ?? jobId;
+
+const formatSchedule = (schedule: CronSchedule, jobs: CronJob[]) => {
   if (schedule.kind === "at") {
     return `at ${formatIsoMinute(schedule.at)}`;
   }
   if (schedule.kind === "every") {
     return `every ${formatDurationHuman(schedule.everyMs)}`;
   }
+  if (schedule.kind === "after") {
+    const condition = resolveCronDependencyCondition(schedule);
+    return `after ${formatJobRef(schedule.jobId, jobs)} (on ${condition})`;
+  }
   const base = schedule.tz ? `cron ${schedule.expr} @ ${schedule.tz}` : `cron ${schedule.expr}`;
   const staggerMs = resolveCronStaggerMs(schedule);
   if (staggerMs <= 0) {
@@ -181,7 +442,7 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
     const idLabel = pad(job.id, CRON_ID_PAD);
     const nameLabel = pad(truncate(job.name, CRON_NAME_PAD), CRON_NAME_PAD);
     const scheduleLabel = pad(
-      truncate(formatSchedule(job.schedule), CRON_SCHEDULE_PAD),
+      truncate(formatSchedule(job.schedule, jobs), CRON_SCHEDULE_PAD),
       CRON_SCHEDULE_PAD,
     );
     const nextLabel = pad(
@@ -231,4 +492,46 @@ export function printCronList(jobs: CronJob[], runtime = defaultRuntime) {
 
     runtime.log(line.trimEnd());
   }
+
+  printCronChains(jobs, runtime);
+}
+
+function printCronChains(jobs: CronJob[], runtime = defaultRuntime) {
+  const ids = new Set(jobs.map((job) => job.id));
+  const roots = jobs.filter((job) => {
+    if (listCronDependents(jobs, job.id).length === 0) {
+      return false;
+    }
+    // Chains start at jobs whose upstream is not listed (or that have none).
+    return !isCronAfterSchedule(job.schedule) || !ids.has(job.schedule.jobId);
+  });
+  if (roots.length === 0) {
+    return;
+  }
+
+  const rich = isRich();
+  runtime.log("");
+  runtime.log(rich ? theme.heading("Chains") : "Chains");
+  const visited = new Set<string>();
+  const walk = (job: CronJob, prefix: string) => {
+    const dependents = listCronDependents(jobs, job.id);
+    dependents.forEach((dependent, index) => {
+      if (visited.has(dependent.id)) {
+        return;
+      }
+      visited.add(dependent.id);
+      const last = index === dependents.length - 1;
+      const condition = isCronAfterSchedule(dependent.schedule)
+        ? resolveCronDependencyCondition(dependent.schedule)
+        : "ok";
+      const label = `${dependent.name} ${colorize(rich, theme.muted, `(on ${condition})`)}`;
+      runtime.log(`${prefix}${last ? "└─ " : "├─ "}${label}`);
+      walk(dependent, `${prefix}${last ? "   " : "│  "}`);
+    });
+  };
+  for (const root of roots) {
+    visited.add(root.id);
+    runtime.log(colorize(rich, theme.info, root.name));
+    walk(root, "");
+  }
 }
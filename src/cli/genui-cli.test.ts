@@ -0,0 +1,102 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Command } from "commander";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+
+const loadConfigMock = vi.fn();
+
+const runtime = {
+  log: vi.fn(),
+  error: vi.fn(),
+  exit: vi.fn(),
+};
+
+vi.mock("../config/config.js", () => ({
+  loadConfig: loadConfigMock,
+}));
+
+vi.mock("../runtime.js", () => ({
+  defaultRuntime: runtime,
+}));
+
+let registerGenUiCli: typeof import("./genui-cli.js").registerGenUiCli;
+let buildGenUiReport: typeof import("./genui-cli.js").buildGenUiReport;
+
+beforeAll(async () => {
+  ({ registerGenUiCli, buildGenUiReport } = await import("./genui-cli.js"));
+});
+
+describe("genui cli", () => {
+  let dir: string;
+
+  async function runCli(args: string[]) {
+    const program = new Command();
+    registerGenUiCli(program);
+    await program.parseAsync(args, { from: "user" });
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-genui-cli-"));
+    await fs.writeFile(
+      path.join(dir, "calendar.json"),
+      JSON.stringify({
+        componentId: "calendar-card",
+        toolMappings: ["add_calendar_event"],
+        requiredParams: ["title"],
+      }),
+    );
+    loadConfigMock.mockReturnValue({
+      agents: {
+        defaults: {
+          judge: {
+            enabled: true,
+            files: { dir },
+            registry: {
+              cal: { componentId: "calendar-card", toolMappings: ["other"], requiredParams: [] },
+              pay: {
+                componentId: "payment-form",
+                toolMappings: ["send_payment"],
+                requiredParams: [],
+              },
+            },
+          },
+        },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("lists file components ahead of config entries", async () => {
+    const report = await buildGenUiReport(loadConfigMock());
+
+    expect(report.components).toEqual([
+      expect.objectContaining({ componentId: "calendar-card", source: "files", overrides: true }),
+      expect.objectContaining({ componentId: "payment-form", source: "config" }),
+    ]);
+    expect(report.errors).toEqual([]);
+  });
+
+  it("validate passes for valid definitions", async () => {
+    await runCli(["genui", "validate", "--json"]);
+
+    expect(JSON.parse(runtime.log.mock.calls[0]?.[0] as string)).toMatchObject({
+      ok: true,
+      components: 2,
+    });
+    expect(runtime.exit).not.toHaveBeenCalled();
+  });
+
+  it("validate exits 1 on invalid files", async () => {
+    await fs.writeFile(path.join(dir, "broken.json"), JSON.stringify({ componentId: "x" }));
+
+    await runCli(["genui", "validate"]);
+
+    expect(runtime.log.mock.calls[0]?.[0]).toContain("broken.json");
+    expect(runtime.exit).toHaveBeenCalledWith(1);
+  });
+});
@@ -0,0 +1,227 @@
+import path from "node:path";
+import type { Command } from "commander";
+import { resolveAgentWorkspaceDir, resolveDefaultAgentId } from "../agents/agent-scope.js";
+import {
+  type GenUiFileError,
+  loadGenUiComponentFiles,
+  resolveGenUiFilesDir,
+  validateGenUiComponentDef,
+} from "../agents/judge/genui-files.js";
+import type { GenUiComponentSource } from "../agents/judge/genui-registry.js";
+import { loadConfig, type SimpleClawConfig } from "../config/config.js";
+import type { GenUiComponentDef } from "../config/types.agent-defaults.js";
+import { danger } from "../globals.js";
+import { defaultRuntime } from "../runtime.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { shortenHomePath } from "../utils.js";
+import { formatCliCommand } from "./command-format.js";
+
+export type GenUiReportEntry = {
+  componentId: string;
+  displayName?: string;
+  toolMappings: string[];
+  requiredParams: string[];
+  source: Exclude<GenUiComponentSource, "firebase">;
+  file?: string;
+  /** Set when a workspace file overrides a config entry with the same componentId. */
+  overrides?: boolean;
+};
+
+export type GenUiReport = {
+  enabled: boolean;
+  dir: string | null;
+  firebaseUrl: string | null;
+  components: GenUiReportEntry[];
+  errors: GenUiFileError[];
+};
+
+/**
+ * Collect the components the gateway would load from workspace files and config.
+ * Firebase entries are fetched at runtime only and are not listed here.
+ */
+export async function buildGenUiReport(config: SimpleClawConfig): Promise<GenUiReport> {
+  const judge = config.agents?.defaults?.judge;
+  const workspaceDir = resolveAgentWorkspaceDir(config, resolveDefaultAgentId(config));
+  const dir = resolveGenUiFilesDir(workspaceDir, judge) ?? null;
+  const files = dir ? await loadGenUiComponentFiles(dir) : { components: [], errors: [] };
+
+  const components: GenUiReportEntry[] = files.components.map(({ def, file }) => ({
+    ...summarize(def),
+    source: "files",
+    file,
+  }));
+  const errors = [...files.errors];
+  const fileIds = new Set(components.map((entry) => entry.componentId));
+
+  for (const [key, def] of Object.entries(judge?.registry ?? {})) {
+    const problems = validateGenUiComponentDef(def);
+    if (problems.length > 0) {
+      errors.push({ file: `agents.defaults.judge.registry.${key}`, message: problems.join("; ") });
+      continue;
+    }
+    if (fileIds.has(def.componentId)) {
+      const overriding = components.find((entry) => entry.componentId === def.componentId);
+      if (overriding) {
+        overriding.overrides = true;
+      }
+      continue;
+    }
+    components.push({ ...summarize(def), source: "config" });
+  }
+
+  return {
+    enabled: judge?.enabled === true,
+    dir,
+    firebaseUrl: judge?.firebase?.url ?? null,
+    components,
+    errors,
+  };
+}
+
+function summarize(def: GenUiComponentDef) {
+  return {
+    componentId: def.componentId,
+    displayName: def.displayName,
+    toolMappings: def.toolMappings,
+    requiredParams: def.requiredParams,
+  };
+}
+
+function formatErrorLocation(file: string): string {
+  return file.startsWith("agents.") ? file : shortenHomePath(file);
+}
+
+export function formatGenUiList(report: GenUiReport, opts: { json?: boolean }): string {
+  if (opts.json) {
+    return JSON.stringify(report, null, 2);
+  }
+  const lines: string[] = [];
+  lines.push(
+    `${theme.heading("GenUI components")} ${theme.muted(`(${report.components.length})`)}`,
+  );
+  if (!report.enabled) {
+    lines.push(theme.warn("Judge is disabled (agents.defaults.judge.enabled); nothing is loaded."));
+  }
+  if (report.dir) {
+    lines.push(theme.muted(`Directory: ${shortenHomePath(report.dir)}`));
+  }
+  if (report.firebaseUrl) {
+    lines.push(theme.muted(`Firebase: ${report.firebaseUrl} (takes precedence; not listed)`));
+  }
+  if (report.components.length === 0) {
+    lines.push("No GenUI components found.");
+  } else {
+    const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+    lines.push(
+      renderTable({
+        width: tableWidth,
+        columns: [
+          { key: "Component", header: "Component", minWidth: 18, flex: true },
+          { key: "Tools", header: "Tools", minWidth: 18, flex: true },
+          { key: "Required", header: "Required", minWidth: 12, flex: true },
+          { key: "Source", header: "Source", minWidth: 10 },
+        ],
+        rows: report.components.map((entry) => ({
+          Component: entry.displayName
+            ? `${theme.command(entry.componentId)} ${theme.muted(entry.displayName)}`
+            : theme.command(entry.componentId),
+          Tools: entry.toolMappings.join(", "),
+          Required: entry.requiredParams.join(", "),
+          Source: entry.file
+            ? `${path.basename(entry.file)}${entry.overrides ? theme.muted(" (overrides config)") : ""}`
+            : entry.source,
+        })),
+      }).trimEnd(),
+    );
+  }
+  if (report.errors.length > 0) {
+    lines.push(
+      theme.warn(
+        `${report.errors.length} invalid definition(s); run \`${formatCliCommand("simpleclaw genui validate")}\` for details.`,
+      ),
+    );
+  }
+  return lines.join("\n");
+}
+
+export function formatGenUiValidate(report: GenUiReport, opts: { json?: boolean }): string {
+  if (opts.json) {
+    return JSON.stringify(
+      {
+        ok: report.errors.length === 0,
+        dir: report.dir,
+        components: report.components.length,
+        errors: report.errors,
+      },
+      null,
+      2,
+    );
+  }
+  if (report.errors.length === 0) {
+    return theme.success(`✓ ${report.components.length} GenUI component(s) valid`);
+  }
+  const lines = [theme.error(`✗ ${report.errors.length} invalid GenUI definition(s)`)];
+  for (const error of report.errors) {
+    lines.push(`  ${theme.command(formatErrorLocation(error.file))}: ${error.message}`);
+  }
+  return lines.join("\n");
+}
+
+async function loadReport(): Promise<GenUiReport | null> {
+  try {
+    return await buildGenUiReport(loadConfig());
+  } catch (err) {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+    return null;
+  }
+}
+
+/**
+ * Register the genui CLI commands
+ */
+export function registerGenUiCli(program: Command) {
+  const genui = program
+    .command("genui")
+    .description("List and validate GenUI component definitions")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/genui", "docs.simpleclaw.ai/cli/genui")}\n`,
+    );
+
+  genui
+    .command("list")
+    .description("List GenUI components from workspace files and config")
+    .option("--json", "Output as JSON", false)
+    .action(async (opts) => {
+      const report = await loadReport();
+      if (report) {
+        defaultRuntime.log(formatGenUiList(report, opts));
+      }
+    });
+
+  genui
+    .command("validate")
+    .description("Validate GenUI component files (exits 1 on errors)")
+    .option("--json", "Output as JSON", false)
+    .action(async (opts) => {
+      const report = await loadReport();
+      if (!report) {
+        return;
+      }
+      defaultRuntime.log(formatGenUiValidate(report, opts));
+      if (report.errors.length > 0) {
+        defaultRuntime.exit(1);
+      }
+    });
+
+  genui.action(async () => {
+    const report = await loadReport();
+    if (report) {
+      defaultRuntime.log(formatGenUiList(report, {}));
+    }
+  });
+}
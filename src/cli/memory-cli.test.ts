@@ -366,6 +366,74 @@ describe("memory cli", () => {
     expect(close).toHaveBeenCalled();
   });
 
+  it("exports the index to an absolute archive path", async () => {
+    const close = vi.fn(async () => {});
+    const exportIndex = vi.fn(async (filePath: string) => ({
+      path: filePath,
+      provider: "openai",
+      model: "text-embedding-3-small",
+      files: 2,
+      chunks: 5,
+      facts: 1,
+    }));
+    mockManager({ exportIndex, close });
+
+    const log = spyRuntimeLogs();
+    await runMemoryCli(["export", "memory.jsonl.gz", "--json"]);
+
+    expect(exportIndex).toHaveBeenCalledWith(path.resolve("memory.jsonl.gz"));
+    expect(firstLoggedJson(log)).toMatchObject({ files: 2, chunks: 5, facts: 1 });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("reports import results and failures", async () => {
+    const close = vi.fn(async () => {});
+    const importIndex = vi.fn(async (filePath: string) => ({
+      path: filePath,
+      files: 3,
+      chunks: 7,
+      facts: 0,
+      reindexedFiles: 1,
+    }));
+    mockManager({ importIndex, close });
+
+    const log = spyRuntimeLogs();
+    await runMemoryCli(["import", "/tmp/memory.jsonl.gz"]);
+
+    expect(importIndex).toHaveBeenCalledWith("/tmp/memory.jsonl.gz", {
+      progress: expect.any(Function),
+    });
+    expect(log).toHaveBeenCalledWith(
+      "Imported memory index (main): 3 files, 7 chunks, 0 facts; re-embedded 1 changed files.",
+    );
+
+    mockManager({
+      importIndex: vi.fn(async () => {
+        throw new Error("incompatible memory index archive: dims differ");
+      }),
+      close,
+    });
+    const error = spyRuntimeErrors();
+    await runMemoryCli(["import", "/tmp/memory.jsonl.gz"]);
+
+    expect(error).toHaveBeenCalledWith(
+      "Memory import failed (main): incompatible memory index archive: dims differ",
+    );
+    expect(process.exitCode).toBe(1);
+  });
+
+  it("rejects export on backends without archive support", async () => {
+    const close = vi.fn(async () => {});
+    mockManager({ status: () => makeMemoryStatus({ backend: "qmd" }), close });
+
+    const error = spyRuntimeErrors();
+    await runMemoryCli(["export", "/tmp/memory.jsonl.gz"]);
+
+    expect(error).toHaveBeenCalledWith("Memory backend does not support index export/import.");
+    expect(process.exitCode).toBe(1);
+    expect(close).toHaveBeenCalled();
+  });
+
   it("prints no matches for empty search results", async () => {
     const close = vi.fn(async () => {});
     const search = vi.fn(async () => []);
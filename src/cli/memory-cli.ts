@@ -13,7 +13,7 @@ import { listMemoryFiles, normalizeExtraMemoryPaths } from "../memory/internal.j
 import { defaultRuntime } from "../runtime.js";
 import { formatDocsLink } from "../terminal/links.js";
 import { colorize, isRich, theme } from "../terminal/theme.js";
-import { shortenHomeInString, shortenHomePath } from "../utils.js";
+import { resolveUserPath, shortenHomeInString, shortenHomePath } from "../utils.js";
 import { formatErrorMessage, withManager } from "./cli-utils.js";
 import { formatHelpExamples } from "./help-format.js";
 import { withProgress, withProgressTotals } from "./progress.js";
@@ -420,6 +420,7 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
       : [];
     const lines = [
       `${heading("Memory Search")} ${muted(`(${agentId})`)}`,
+      status.backend !== "builtin" ? `${label("Backend")} ${info(status.backend)}` : null,
       `${label("Provider")} ${info(status.provider)} ${muted(`(requested: ${requestedProvider})`)}`,
       `${label("Model")} ${info(modelLabel)}`,
       sourceList ? `${label("Sources")} ${info(sourceList)}` : null,
@@ -450,6 +451,12 @@ export async function runMemoryStatus(opts: MemoryCommandOptions) {
         lines.push(`  ${accent(entry.source)} ${muted("·")} ${muted(counts)}`);
       }
     }
+    if (status.facts) {
+      const factsLabel = `${status.facts.count} facts · ${status.facts.entities} entities`;
+      lines.push(
+        `${label("Facts")} ${status.facts.enabled ? info(factsLabel) : muted(`${factsLabel} (not searched)`)}`,
+      );
+    }
     if (status.fallback) {
       lines.push(`${label("Fallback")} ${warn(status.fallback.from)}`);
     }
@@ -547,6 +554,8 @@ export function registerMemoryCli(program: Command) {
           ["simpleclaw memory index --force", "Force a full reindex."],
           ['simpleclaw memory search --query "deployment notes"', "Search indexed memory entries."],
           ["simpleclaw memory status --json", "Output machine-readable JSON."],
+          ["simpleclaw memory export ./memory.jsonl.gz", "Write the index to a portable archive."],
+          ["simpleclaw memory import ./memory.jsonl.gz", "Load an archive, re-embed changes only."],
         ])}\n\n${theme.muted("Docs:")} ${formatDocsLink("/cli/memory", "docs.simpleclaw.ai/cli/memory")}\n`,
     );
 
@@ -699,6 +708,88 @@ export function registerMemoryCli(program: Command) {
       }
     });
 
+  memory
+    .command("export")
+    .description("Export the memory index (chunks, embeddings, facts) to a portable archive")
+    .argument("<file>", "Archive path (gzip JSONL)")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON")
+    .action(async (file: string, opts: MemoryCommandOptions) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      const filePath = path.resolve(resolveUserPath(file));
+      await withMemoryManagerForAgent({
+        cfg,
+        agentId,
+        run: async (manager) => {
+          if (!manager.exportIndex) {
+            defaultRuntime.error("Memory backend does not support index export/import.");
+            process.exitCode = 1;
+            return;
+          }
+          try {
+            const result = await manager.exportIndex(filePath);
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify(result, null, 2));
+              return;
+            }
+            defaultRuntime.log(
+              `Exported memory index (${agentId}) to ${shortenHomePath(result.path)}: ` +
+                `${result.files} files, ${result.chunks} chunks, ${result.facts} facts ` +
+                `(${result.provider}/${result.model}).`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory export failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
+
+  memory
+    .command("import")
+    .description("Import a memory index archive; only files changed locally are re-embedded")
+    .argument("<file>", "Archive path written by `memory export`")
+    .option("--agent <id>", "Agent id (default: default agent)")
+    .option("--json", "Print JSON")
+    .action(async (file: string, opts: MemoryCommandOptions) => {
+      const cfg = loadConfig();
+      const agentId = resolveAgent(cfg, opts.agent);
+      const filePath = path.resolve(resolveUserPath(file));
+      await withMemoryManagerForAgent({
+        cfg,
+        agentId,
+        run: async (manager) => {
+          const importFn = manager.importIndex?.bind(manager);
+          if (!importFn) {
+            defaultRuntime.error("Memory backend does not support index export/import.");
+            process.exitCode = 1;
+            return;
+          }
+          try {
+            const result = await withProgressTotals(
+              { label: "Importing memory index…", total: 0 },
+              async (update) =>
+                await importFn(filePath, {
+                  progress: (syncUpdate) => update(syncUpdate),
+                }),
+            );
+            if (opts.json) {
+              defaultRuntime.log(JSON.stringify(result, null, 2));
+              return;
+            }
+            defaultRuntime.log(
+              `Imported memory index (${agentId}): ${result.files} files, ${result.chunks} chunks, ` +
+                `${result.facts} facts; re-embedded ${result.reindexedFiles} changed files.`,
+            );
+          } catch (err) {
+            defaultRuntime.error(`Memory import failed (${agentId}): ${formatErrorMessage(err)}`);
+            process.exitCode = 1;
+          }
+        },
+      });
+    });
+
   memory
     .command("search")
     .description("Search memory files")
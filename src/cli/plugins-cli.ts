@@ -108,6 +108,12 @@ function formatPluginLine(plugin: PluginRecord, verbose = false): string {
   if (plugin.providerIds.length > 0) {
     parts.push(`  providers: ${plugin.providerIds.join(", ")}`);
   }
+  if (plugin.memoryBackendIds.length > 0) {
+    parts.push(`  memory backends: ${plugin.memoryBackendIds.join(", ")}`);
+  }
+  if (plugin.passiveContextSourceIds.length > 0) {
+    parts.push(`  passive context sources: ${plugin.passiveContextSourceIds.join(", ")}`);
+  }
   if (plugin.error) {
     parts.push(theme.error(`  error: ${plugin.error}`));
   }
@@ -303,6 +309,14 @@ export function registerPluginsCli(program: Command) {
       if (plugin.providerIds.length > 0) {
         lines.push(`${theme.muted("Providers:")} ${plugin.providerIds.join(", ")}`);
       }
+      if (plugin.memoryBackendIds.length > 0) {
+        lines.push(`${theme.muted("Memory backends:")} ${plugin.memoryBackendIds.join(", ")}`);
+      }
+      if (plugin.passiveContextSourceIds.length > 0) {
+        lines.push(
+          `${theme.muted("Passive context sources:")} ${plugin.passiveContextSourceIds.join(", ")}`,
+        );
+      }
       if (plugin.cliCommands.length > 0) {
         lines.push(`${theme.muted("CLI commands:")} ${plugin.cliCommands.join(", ")}`);
       }
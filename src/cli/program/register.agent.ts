@@ -10,6 +10,7 @@ import { setVerbose } from "../../globals.js";
 import { defaultRuntime } from "../../runtime.js";
 import { formatDocsLink } from "../../terminal/links.js";
 import { theme } from "../../terminal/theme.js";
+import { registerAgentsRosterCli } from "../agents-roster-cli.js";
 import { runCommandWithRuntime } from "../cli-utils.js";
 import { hasExplicitOptions } from "../command-options.js";
 import { createDefaultDeps } from "../deps.js";
@@ -210,6 +211,8 @@ ${formatHelpExamples([
       });
     });
 
+  registerAgentsRosterCli(agents);
+
   agents.action(async () => {
     await runCommandWithRuntime(defaultRuntime, async () => {
       await agentsListCommand({}, defaultRuntime);
@@ -190,6 +190,15 @@ const entries: SubCliEntry[] = [
       mod.registerWebhooksCli(program);
     },
   },
+  {
+    name: "secrets",
+    description: "Manage secrets referenced from config",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../secrets-cli.js");
+      mod.registerSecretsCli(program);
+    },
+  },
   {
     name: "qr",
     description: "Generate iOS pairing QR/setup code",
@@ -278,6 +287,15 @@ const entries: SubCliEntry[] = [
       mod.registerSkillsCli(program);
     },
   },
+  {
+    name: "genui",
+    description: "List and validate GenUI component definitions",
+    hasSubcommands: true,
+    register: async (program) => {
+      const mod = await import("../genui-cli.js");
+      mod.registerGenUiCli(program);
+    },
+  },
   {
     name: "update",
     description: "Update SimpleClaw and inspect update channel status",
@@ -0,0 +1,132 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { Command } from "commander";
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import { readSecretFromFileStore } from "../secrets/file-store.js";
+
+const readConfigFileSnapshotMock = vi.fn();
+
+const runtime = {
+  log: vi.fn(),
+  error: vi.fn(),
+  exit: vi.fn(),
+};
+
+vi.mock("../config/config.js", () => ({
+  readConfigFileSnapshot: readConfigFileSnapshotMock,
+}));
+
+vi.mock("../runtime.js", () => ({
+  defaultRuntime: runtime,
+}));
+
+let registerSecretsCli: typeof import("./secrets-cli.js").registerSecretsCli;
+
+beforeAll(async () => {
+  ({ registerSecretsCli } = await import("./secrets-cli.js"));
+});
+
+describe("secrets cli", () => {
+  let dir: string;
+  let storePath: string;
+
+  async function runCli(args: string[]) {
+    const program = new Command();
+    registerSecretsCli(program);
+    await program.parseAsync(args, { from: "user" });
+  }
+
+  function logged() {
+    return runtime.log.mock.calls.map((call) => String(call[0])).join("\n");
+  }
+
+  async function readStoreFile() {
+    return JSON.parse(await fs.readFile(storePath, "utf8")) as {
+      secrets: Record<string, { iv: string; data: string; createdAt: string; updatedAt: string }>;
+    };
+  }
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.stubEnv("SIMPLECLAW_SECRETS_PASSPHRASE", "correct horse");
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-secrets-cli-"));
+    storePath = path.join(dir, "secrets.enc.json");
+    readConfigFileSnapshotMock.mockResolvedValue({
+      parsed: {
+        credentialStores: { file: { kind: "file", path: storePath } },
+        models: { providers: { openai: { apiKey: "secret://file/openai" } } },
+        channels: { telegram: { botToken: "secret://op/Private/Telegram/token" } },
+      },
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("rotates an entry by re-encrypting the new value", async () => {
+    await runCli(["secrets", "set", "openai", "--value", "sk-old-value"]);
+    const before = (await readStoreFile()).secrets.openai;
+
+    await runCli(["secrets", "rotate", "openai", "--value", "sk-new-value"]);
+
+    const after = (await readStoreFile()).secrets.openai;
+    expect(runtime.exit).not.toHaveBeenCalled();
+    expect(after.iv).not.toBe(before.iv);
+    expect(after.data).not.toBe(before.data);
+    expect(after.createdAt).toBe(before.createdAt);
+    const raw = await fs.readFile(storePath, "utf8");
+    expect(raw).not.toContain("sk-new-value");
+    expect(raw).not.toContain("sk-old-value");
+    expect(
+      readSecretFromFileStore({ storePath, passphrase: "correct horse", name: "openai" }),
+    ).toBe("sk-new-value");
+    expect(logged()).toContain("Rotated");
+  });
+
+  it("generates a random value on rotate --generate", async () => {
+    await runCli(["secrets", "set", "hooks-token", "--value", "initial"]);
+
+    await runCli(["secrets", "rotate", "hooks-token", "--generate", "16"]);
+
+    const value = readSecretFromFileStore({
+      storePath,
+      passphrase: "correct horse",
+      name: "hooks-token",
+    });
+    expect(value).toMatch(/^[A-Za-z0-9_-]{22}$/);
+    expect(logged()).not.toContain(value);
+  });
+
+  it("refuses to rotate an entry that does not exist", async () => {
+    await runCli(["secrets", "rotate", "missing", "--value", "x"]);
+
+    expect(runtime.error).toHaveBeenCalledWith(
+      expect.stringContaining('No secret named "missing"'),
+    );
+    expect(runtime.exit).toHaveBeenCalledWith(1);
+  });
+
+  it("lists references and config usage without printing values", async () => {
+    await runCli(["secrets", "set", "openai", "--value", "sk-live-secret"]);
+    runtime.log.mockClear();
+
+    await runCli(["secrets", "list"]);
+    await runCli(["secrets", "list", "--json"]);
+
+    const output = logged();
+    expect(output).not.toContain("sk-live-secret");
+    expect(output).toContain("secret://file/openai");
+    expect(output).toContain("models.providers.openai.apiKey");
+    expect(output).toContain("channels.telegram.botToken: secret://op/Private/Telegram/token");
+
+    const json = JSON.parse(String(runtime.log.mock.calls.at(-1)?.[0])) as {
+      secrets: Array<Record<string, unknown>>;
+    };
+    expect(json.secrets).toEqual([
+      { name: "openai", createdAt: expect.any(String), updatedAt: expect.any(String) },
+    ]);
+  });
+});
@@ -0,0 +1,209 @@
+import { randomBytes } from "node:crypto";
+import type { Command } from "commander";
+import { readConfigFileSnapshot } from "../config/config.js";
+import type { CredentialFileStoreConfig, CredentialStoresConfig } from "../config/types.js";
+import { danger } from "../globals.js";
+import { formatTimeAgo } from "../infra/format-time/format-relative.ts";
+import { defaultRuntime } from "../runtime.js";
+import {
+  listFileStoreSecrets,
+  resolveSecretFileStorePassphrase,
+  resolveSecretFileStorePath,
+  writeSecretToFileStore,
+} from "../secrets/file-store.js";
+import { collectConfigSecretRefs, formatSecretRef } from "../secrets/refs.js";
+import { resolveCredentialStore } from "../secrets/stores.js";
+import { formatDocsLink } from "../terminal/links.js";
+import { renderTable } from "../terminal/table.js";
+import { theme } from "../terminal/theme.js";
+import { isPlainObject } from "../utils.js";
+
+type SecretsCliOpts = {
+  store?: string;
+  value?: string;
+  generate?: string | boolean;
+  json?: boolean;
+};
+
+const DEFAULT_GENERATED_BYTES = 32;
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(String(chunk)));
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+async function loadRawConfig(): Promise<Record<string, unknown>> {
+  const snapshot = await readConfigFileSnapshot();
+  return isPlainObject(snapshot.parsed) ? snapshot.parsed : {};
+}
+
+async function resolveFileStore(storeId: string): Promise<CredentialFileStoreConfig> {
+  const raw = await loadRawConfig();
+  const store = resolveCredentialStore(
+    storeId,
+    raw.credentialStores as CredentialStoresConfig | undefined,
+  );
+  if (!store) {
+    throw new Error(`Unknown credential store "${storeId}".`);
+  }
+  if (store.kind !== "file") {
+    throw new Error(
+      `Credential store "${storeId}" is a ${store.kind} store; manage its entries with that tool.`,
+    );
+  }
+  return store;
+}
+
+/** Value from --value, or stdin (trailing newline stripped) so it stays out of shell history. */
+async function resolveSecretValue(opts: SecretsCliOpts): Promise<string> {
+  if (typeof opts.generate === "string" || opts.generate === true) {
+    const bytes = typeof opts.generate === "string" ? Number(opts.generate) : NaN;
+    const size = Number.isInteger(bytes) && bytes > 0 ? bytes : DEFAULT_GENERATED_BYTES;
+    return randomBytes(size).toString("base64url");
+  }
+  if (typeof opts.value === "string") {
+    return opts.value;
+  }
+  if (process.stdin.isTTY) {
+    throw new Error("Provide the value with --value or pipe it on stdin.");
+  }
+  return (await readStdin()).replace(/\r?\n$/, "");
+}
+
+async function storeSecret(name: string, opts: SecretsCliOpts, mode: "set" | "rotate") {
+  const storeId = opts.store?.trim() || "file";
+  const store = await resolveFileStore(storeId);
+  const storePath = resolveSecretFileStorePath(store.path);
+  if (mode === "rotate" && !listFileStoreSecrets(storePath).some((entry) => entry.name === name)) {
+    throw new Error(`No secret named "${name}" in ${storePath}; use "secrets set" first.`);
+  }
+  const value = await resolveSecretValue(opts);
+  if (!value) {
+    throw new Error("Refusing to store an empty secret.");
+  }
+  const { created } = writeSecretToFileStore({
+    storePath,
+    passphrase: resolveSecretFileStorePassphrase(store.passphraseEnv),
+    name,
+    value,
+  });
+  const ref = formatSecretRef({ storeId, name });
+  if (opts.json) {
+    defaultRuntime.log(JSON.stringify({ ref, storePath, created }, null, 2));
+    return;
+  }
+  const verb = mode === "rotate" ? "Rotated" : created ? "Stored" : "Updated";
+  defaultRuntime.log(`${verb} ${theme.command(ref)} in ${theme.muted(storePath)}.`);
+}
+
+async function listSecrets(opts: SecretsCliOpts) {
+  const storeId = opts.store?.trim() || "file";
+  const raw = await loadRawConfig();
+  const store = resolveCredentialStore(
+    storeId,
+    raw.credentialStores as CredentialStoresConfig | undefined,
+  );
+  const storePath =
+    store?.kind === "file" ? resolveSecretFileStorePath(store.path) : resolveSecretFileStorePath();
+  const secrets = store?.kind === "file" ? listFileStoreSecrets(storePath) : [];
+  const references = collectConfigSecretRefs(raw);
+  if (opts.json) {
+    defaultRuntime.log(JSON.stringify({ storePath, secrets, references }, null, 2));
+    return;
+  }
+  const now = Date.now();
+  const tableWidth = Math.max(60, (process.stdout.columns ?? 120) - 1);
+  const lines = [`${theme.heading("Secrets")} ${theme.muted(`(${storePath})`)}`];
+  if (secrets.length === 0) {
+    lines.push(theme.muted("No secrets stored."));
+  } else {
+    lines.push(
+      renderTable({
+        width: tableWidth,
+        columns: [
+          { key: "Ref", header: "Reference", minWidth: 16, flex: true },
+          { key: "Updated", header: "Updated", minWidth: 10 },
+          { key: "Used", header: "Used at", minWidth: 16, flex: true },
+        ],
+        rows: secrets.map((entry) => {
+          const ref = formatSecretRef({ storeId, name: entry.name });
+          const used = references.filter((item) => item.ref === ref).map((item) => item.path);
+          return {
+            Ref: theme.command(ref),
+            Updated: formatTimeAgo(now - Date.parse(entry.updatedAt)),
+            Used: used.length > 0 ? used.join(", ") : theme.muted("unused"),
+          };
+        }),
+      }).trimEnd(),
+    );
+  }
+  const external = references.filter((item) => !item.ref.startsWith(`secret://${storeId}/`));
+  if (external.length > 0) {
+    lines.push("", theme.heading("Other references in config"));
+    for (const item of external) {
+      lines.push(`- ${item.path}: ${item.ref}`);
+    }
+  }
+  defaultRuntime.log(lines.join("\n"));
+}
+
+function runSecretsAction(action: () => Promise<void>) {
+  return action().catch((err: unknown) => {
+    defaultRuntime.error(danger(String(err)));
+    defaultRuntime.exit(1);
+  });
+}
+
+/**
+ * Register `secrets` commands for the encrypted file credential store that
+ * backs `secret://file/<name>` config references.
+ */
+export function registerSecretsCli(program: Command) {
+  const secrets = program
+    .command("secrets")
+    .description("Manage secrets referenced from config as secret://<store>/<name>")
+    .addHelpText(
+      "after",
+      () =>
+        `\n${theme.muted("Docs:")} ${formatDocsLink("/cli/secrets", "docs.simpleclaw.ai/cli/secrets")}\n`,
+    );
+
+  secrets
+    .command("set")
+    .description("Store a secret (value from --value or stdin)")
+    .argument("<name>", "Secret name (reference it as secret://file/<name>)")
+    .option("--store <id>", "File credential store id", "file")
+    .option("--value <value>", "Secret value (prefer stdin to keep it out of shell history)")
+    .option("--json", "Output JSON", false)
+    .action(async (name: string, opts: SecretsCliOpts) => {
+      await runSecretsAction(() => storeSecret(name, opts, "set"));
+    });
+
+  secrets
+    .command("list")
+    .alias("ls")
+    .description("List stored secrets and the config paths referencing them (never values)")
+    .option("--store <id>", "File credential store id", "file")
+    .option("--json", "Output JSON", false)
+    .action(async (opts: SecretsCliOpts) => {
+      await runSecretsAction(() => listSecrets(opts));
+    });
+
+  secrets
+    .command("rotate")
+    .description("Replace an existing secret's value")
+    .argument("<name>", "Secret name")
+    .option("--store <id>", "File credential store id", "file")
+    .option("--value <value>", "New value (prefer stdin to keep it out of shell history)")
+    .option(
+      "--generate [bytes]",
+      `Generate a random value (default ${DEFAULT_GENERATED_BYTES} bytes)`,
+    )
+    .option("--json", "Output JSON", false)
+    .action(async (name: string, opts: SecretsCliOpts) => {
+      await runSecretsAction(() => storeSecret(name, opts, "rotate"));
+    });
+}
@@ -32,10 +32,10 @@ export async function noteMemorySearchHealth(
     return;
   }
 
-  // QMD backend handles embeddings internally (e.g. embeddinggemma) — no
-  // separate embedding provider is needed. Skip the provider check entirely.
+  // QMD and plugin backends handle embeddings internally (e.g. embeddinggemma) —
+  // no separate embedding provider is needed. Skip the provider check entirely.
   const backendConfig = resolveMemoryBackendConfig({ cfg, agentId });
-  if (backendConfig.backend === "qmd") {
+  if (backendConfig.backend !== "builtin") {
     return;
   }
 
@@ -1,3 +1,4 @@
+import path from "node:path";
 import { formatCliCommand } from "../cli/command-format.js";
 import { withProgress } from "../cli/progress.js";
 import { resolveGatewayPort } from "../config/config.js";
@@ -18,6 +19,7 @@ import type { RuntimeEnv } from "../runtime.js";
 import { runSecurityAudit } from "../security/audit.js";
 import { renderTable } from "../terminal/table.js";
 import { theme } from "../terminal/theme.js";
+import { shortenHomePath } from "../utils.js";
 import { formatHealthChannelLines, type HealthSummary } from "./health.js";
 import { resolveControlUiLinks } from "./onboard-helpers.js";
 import { statusAllCommand } from "./status-all.js";
@@ -103,6 +105,7 @@ export async function statusCommand(
     summary,
     memory,
     memoryPlugin,
+    genui,
   } = scan;
 
   const securityAudit = await withProgress(
@@ -177,6 +180,7 @@ export async function statusCommand(
           updateChannelSource: channelInfo.source,
           memory,
           memoryPlugin,
+          genui,
           gateway: {
             mode: gatewayMode,
             url: gatewayConnection.url,
@@ -378,6 +382,20 @@ export async function statusCommand(
     return parts.join(" · ");
   })();
 
+  const genuiValue = (() => {
+    if (!genui) {
+      return null;
+    }
+    const count = `${genui.components} component${genui.components === 1 ? "" : "s"}`;
+    if (genui.errors.length === 0) {
+      return `${count} · ${shortenHomePath(genui.dir)}`;
+    }
+    const first = genui.errors[0];
+    const invalid = `${genui.errors.length} invalid`;
+    const detail = shortenText(`${path.basename(first.file)}: ${first.message}`, 60);
+    return `${count} · ${warn(invalid)} · ${detail} · ${muted(formatCliCommand("simpleclaw genui validate"))}`;
+  })();
+
   const updateAvailability = resolveUpdateAvailability(update);
   const updateLine = formatUpdateOneLiner(update).replace(/^Update:\s*/i, "");
   const channelLabel = channelInfo.label;
@@ -406,6 +424,7 @@ export async function statusCommand(
     { Item: "Node service", Value: nodeDaemonValue },
     { Item: "Agents", Value: agentsValue },
     { Item: "Memory", Value: memoryValue },
+    ...(genuiValue ? [{ Item: "GenUI", Value: genuiValue }] : []),
     { Item: "Probes", Value: probesValue },
     { Item: "Events", Value: eventsValue },
     { Item: "Heartbeat", Value: heartbeatValue },
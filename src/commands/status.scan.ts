@@ -1,3 +1,10 @@
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import {
+  type GenUiFileError,
+  loadGenUiComponentFiles,
+  resolveGenUiFilesDir,
+} from "../agents/judge/genui-files.js";
+import { resolveJudgeConfig } from "../agents/judge/judge-config.js";
 import { withProgress } from "../cli/progress.js";
 import { loadConfig } from "../config/config.js";
 import { buildGatewayConnectionDetails, callGateway } from "../gateway/call.js";
@@ -21,6 +28,12 @@ type MemoryStatusSnapshot = MemoryProviderStatus & {
   agentId: string;
 };
 
+type GenUiStatusSnapshot = {
+  dir: string;
+  components: number;
+  errors: GenUiFileError[];
+};
+
 type MemoryPluginStatus = {
   enabled: boolean;
   slot: string | null;
@@ -58,6 +71,7 @@ export type StatusScanResult = {
   summary: Awaited<ReturnType<typeof getStatusSummary>>;
   memory: MemoryStatusSnapshot | null;
   memoryPlugin: MemoryPluginStatus;
+  genui: GenUiStatusSnapshot | null;
 };
 
 export async function scanStatus(
@@ -71,7 +85,7 @@ export async function scanStatus(
   return await withProgress(
     {
       label: "Scanning status…",
-      total: 10,
+      total: 11,
       enabled: opts.json !== true,
     },
     async (progress) => {
@@ -172,6 +186,22 @@ export async function scanStatus(
       })();
       progress.tick();
 
+      progress.setLabel("Checking GenUI components…");
+      const genui = await (async (): Promise<GenUiStatusSnapshot | null> => {
+        const judgeConfig = resolveJudgeConfig(cfg);
+        if (!judgeConfig) {
+          return null;
+        }
+        const workspaceDir = resolveAgentWorkspaceDir(cfg, agentStatus.defaultId ?? "main");
+        const dir = resolveGenUiFilesDir(workspaceDir, judgeConfig);
+        if (!dir) {
+          return null;
+        }
+        const result = await loadGenUiComponentFiles(dir);
+        return { dir, components: result.components.length, errors: result.errors };
+      })();
+      progress.tick();
+
       progress.setLabel("Reading sessions…");
       const summary = await getStatusSummary();
       progress.tick();
@@ -198,6 +228,7 @@ export async function scanStatus(
         summary,
         memory,
         memoryPlugin,
+        genui,
       };
     },
   );
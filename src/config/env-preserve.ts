@@ -1,7 +1,9 @@
 import { isPlainObject } from "../infra/plain-object.js";
+import { isSecretRef, peekResolvedSecretRef } from "../secrets/refs.js";
 
 /**
- * Preserves `${VAR}` environment variable references during config write-back.
+ * Preserves `${VAR}` environment variable references (and `secret://` references)
+ * during config write-back.
  *
  * When config is read, `${VAR}` references are resolved to their values.
  * When writing back, callers pass the resolved config. This module detects
@@ -98,6 +100,9 @@ export function restoreEnvVarRefs(
 
   // String leaf: check if parsed was a ${VAR} template that resolves to incoming
   if (typeof incoming === "string" && typeof parsed === "string") {
+    if (isSecretRef(parsed) && peekResolvedSecretRef(parsed) === incoming) {
+      return parsed;
+    }
     if (hasEnvVarRef(parsed)) {
       const resolved = tryResolveString(parsed, env);
       if (resolved === incoming) {
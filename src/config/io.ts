@@ -13,6 +13,13 @@ import {
   shouldDeferShellEnvFallback,
   shouldEnableShellEnvFallback,
 } from "../infra/shell-env.js";
+import {
+  isSecretRef,
+  refreshSecretRefsFromStores,
+  resolveConfigSecretRefs,
+  SecretRefError,
+  type SecretRefRefreshResult,
+} from "../secrets/refs.js";
 import { VERSION } from "../version.js";
 import { DuplicateAgentDirError, findDuplicateAgentDirs } from "./agent-dirs.js";
 import { rotateConfigBackups } from "./backup-rotation.js";
@@ -358,7 +365,7 @@ function createMergePatch(base: unknown, target: unknown): unknown {
 
 function collectEnvRefPaths(value: unknown, path: string, output: Map<string, string>): void {
   if (typeof value === "string") {
-    if (containsEnvVarReference(value)) {
+    if (containsEnvVarReference(value) || isSecretRef(value)) {
       output.set(path, value);
     }
     return;
@@ -638,17 +645,21 @@ function resolveConfigIncludesForRead(
   });
 }
 
-function resolveConfigForRead(
-  resolvedIncludes: unknown,
-  env: NodeJS.ProcessEnv,
-): ConfigReadResolution {
+function resolveConfigEnvForRead(resolvedIncludes: unknown, env: NodeJS.ProcessEnv): unknown {
   // Apply config.env to process.env BEFORE substitution so ${VAR} can reference config-defined vars.
   if (resolvedIncludes && typeof resolvedIncludes === "object" && "env" in resolvedIncludes) {
     applyConfigEnvVars(resolvedIncludes as SimpleClawConfig, env);
   }
+  return resolveConfigEnvVars(resolvedIncludes, env);
+}
 
+function resolveConfigForRead(
+  resolvedIncludes: unknown,
+  env: NodeJS.ProcessEnv,
+): ConfigReadResolution {
   return {
-    resolvedConfigRaw: resolveConfigEnvVars(resolvedIncludes, env),
+    // secret:// references resolve after ${VAR} so store settings can use env vars.
+    resolvedConfigRaw: resolveConfigSecretRefs(resolveConfigEnvForRead(resolvedIncludes, env), env),
     // Capture env snapshot after substitution for write-time ${VAR} restoration.
     envSnapshotForRestore: { ...env } as Record<string, string | undefined>,
   };
@@ -893,7 +904,7 @@ export function createConfigIO(overrides: ConfigIoDeps = {}) {
         readResolution = resolveConfigForRead(resolved, deps.env);
       } catch (err) {
         const message =
-          err instanceof MissingEnvVarError
+          err instanceof MissingEnvVarError || err instanceof SecretRefError
             ? err.message
             : `Env var substitution failed: ${String(err)}`;
         return {
@@ -1259,11 +1270,39 @@ export function createConfigIO(overrides: ConfigIoDeps = {}) {
     }
   }
 
+  /**
+   * Re-read every secret:// reference in the config file from its store
+   * asynchronously. Config loads then serve the refreshed values without
+   * calling a store; refs that fail keep their last good value. Parse,
+   * include and ${VAR} errors are left to the regular snapshot read.
+   */
+  async function refreshSecretRefs(): Promise<SecretRefRefreshResult> {
+    maybeLoadDotEnvForConfig(deps.env);
+    if (!deps.fs.existsSync(configPath)) {
+      return { refreshed: [], failed: [] };
+    }
+    let resolved: unknown;
+    try {
+      const parsedRes = parseConfigJson5(deps.fs.readFileSync(configPath, "utf-8"), deps.json5);
+      if (!parsedRes.ok) {
+        return { refreshed: [], failed: [] };
+      }
+      resolved = resolveConfigEnvForRead(
+        resolveConfigIncludesForRead(parsedRes.parsed, configPath, deps),
+        deps.env,
+      );
+    } catch {
+      return { refreshed: [], failed: [] };
+    }
+    return await refreshSecretRefsFromStores(resolved, deps.env);
+  }
+
   return {
     configPath,
     loadConfig,
     readConfigFileSnapshot,
     readConfigFileSnapshotForWrite,
+    refreshSecretRefs,
     writeConfigFile,
   };
 }
@@ -1335,6 +1374,15 @@ export async function readConfigFileSnapshot(): Promise<ConfigFileSnapshot> {
   return await createConfigIO().readConfigFileSnapshot();
 }
 
+export async function refreshConfigSecretRefs(): Promise<SecretRefRefreshResult> {
+  const result = await createConfigIO().refreshSecretRefs();
+  if (result.refreshed.length > 0) {
+    // Drop the cached config so the next load sees rotated values.
+    clearConfigCache();
+  }
+  return result;
+}
+
 export async function readConfigFileSnapshotForWrite(): Promise<ReadConfigFileSnapshotForWriteResult> {
   return await createConfigIO().readConfigFileSnapshotForWrite();
 }
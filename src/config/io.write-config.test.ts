@@ -1,6 +1,7 @@
 import fs from "node:fs/promises";
 import path from "node:path";
 import { describe, expect, it, vi } from "vitest";
+import { clearSecretRefCache } from "../secrets/refs.js";
 import { withTempHome } from "./home-env.test-harness.js";
 import { createConfigIO } from "./io.js";
 import type { SimpleClawConfig } from "./types.js";
@@ -301,6 +302,40 @@ describe("config io write", () => {
     });
   });
 
+  it("resolves secret:// references on load and keeps them when writing", async () => {
+    await withTempHome("simpleclaw-config-io-", async (home) => {
+      clearSecretRefCache();
+      const { configPath, io, snapshot } = await writeConfigAndCreateIo({
+        home,
+        initialConfig: {
+          credentialStores: {
+            echo: {
+              kind: "command",
+              command: process.execPath,
+              args: ["-e", "process.stdout.write('sk-from-store')"],
+            },
+          },
+          models: {
+            providers: {
+              openai: {
+                baseUrl: "https://api.openai.com/v1",
+                apiKey: "secret://echo/openai",
+                models: [],
+              },
+            },
+          },
+          gateway: { port: 18789 },
+        },
+      });
+      expect(snapshot.config.models?.providers?.openai?.apiKey).toBe("sk-from-store");
+      const persisted = (await writeTokenAuthAndReadConfig({ io, snapshot, configPath })) as {
+        models: { providers: { openai: { apiKey: string } } };
+      };
+      expect(persisted.models.providers.openai.apiKey).toBe("secret://echo/openai");
+      clearSecretRefCache();
+    });
+  });
+
   it("does not reintroduce Slack/Discord legacy dm.policy defaults when writing", async () => {
     await withTempHome("simpleclaw-config-io-", async (home) => {
       const { configPath, io, snapshot } = await writeConfigAndCreateIo({
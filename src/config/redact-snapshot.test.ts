@@ -1,4 +1,5 @@
 import { describe, expect, it } from "vitest";
+import { clearSecretRefCache, resolveSecretRef } from "../secrets/refs.js";
 import {
   REDACTED_SENTINEL,
   redactConfigSnapshot,
@@ -299,6 +300,29 @@ describe("redactConfigSnapshot", () => {
     expect(env.vars.OPENAI_API_KEY).toBe(REDACTED_SENTINEL);
   });
 
+  it("shows secret:// references instead of their resolved values", () => {
+    clearSecretRefCache();
+    const resolved = resolveSecretRef("secret://echo/openai", {
+      stores: {
+        echo: {
+          kind: "command",
+          command: process.execPath,
+          args: ["-e", "process.stdout.write('sk-resolved-1234567890')"],
+        },
+      },
+    });
+    const snapshot = {
+      ...makeSnapshot({ models: { providers: { openai: { apiKey: resolved } } } }),
+      parsed: { models: { providers: { openai: { apiKey: "secret://echo/openai" } } } },
+    };
+    const result = redactConfigSnapshot(snapshot);
+    expect(result.config).toEqual({
+      models: { providers: { openai: { apiKey: "secret://echo/openai" } } },
+    });
+    expect(result.parsed).toEqual(snapshot.parsed);
+    clearSecretRefCache();
+  });
+
   it("respects token-name redaction boundaries", () => {
     const cases = [
       {
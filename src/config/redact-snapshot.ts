@@ -1,4 +1,5 @@
 import { createSubsystemLogger } from "../logging/subsystem.js";
+import { findSecretRefForValue, isSecretRef } from "../secrets/refs.js";
 import { isSensitiveConfigPath, type ConfigUiHints } from "./schema.hints.js";
 import type { ConfigFileSnapshot } from "./types.simpleclaw.js";
 
@@ -13,8 +14,31 @@ function isSensitivePath(path: string): boolean {
   }
 }
 
+// `${VAR}` and `secret://` references carry no secret material and survive round-trips as-is.
 function isEnvVarPlaceholder(value: string): boolean {
-  return ENV_VAR_PLACEHOLDER_PATTERN.test(value.trim());
+  return ENV_VAR_PLACEHOLDER_PATTERN.test(value.trim()) || isSecretRef(value);
+}
+
+/**
+ * Swap values resolved from `secret://` references back to their reference,
+ * wherever they appear (not only on sensitive paths).
+ */
+function restoreSecretRefs(obj: unknown): unknown {
+  if (typeof obj === "string") {
+    return findSecretRefForValue(obj) ?? obj;
+  }
+  if (Array.isArray(obj)) {
+    return obj.map(restoreSecretRefs);
+  }
+  if (obj && typeof obj === "object") {
+    return Object.fromEntries(
+      Object.entries(obj as Record<string, unknown>).map(([key, value]) => [
+        key,
+        restoreSecretRefs(value),
+      ]),
+    );
+  }
+  return obj;
 }
 
 function isExplicitlyNonSensitivePath(hints: ConfigUiHints | undefined, paths: string[]): boolean {
@@ -73,7 +97,8 @@ function buildRedactionLookup(hints: ConfigUiHints): Set<string> {
  * Deep-walk an object and replace string values at sensitive paths
  * with the redaction sentinel.
  */
-function redactObject(obj: unknown, hints?: ConfigUiHints): unknown {
+function redactObject(input: unknown, hints?: ConfigUiHints): unknown {
+  const obj = restoreSecretRefs(input);
   if (hints) {
     const lookup = buildRedactionLookup(hints);
     return lookup.has("")
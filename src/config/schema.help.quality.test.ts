@@ -23,6 +23,8 @@ const ROOT_SECTIONS = [
   "messages",
   "commands",
   "approvals",
+  "budgets",
+  "credentialStores",
   "session",
   "cron",
   "hooks",
@@ -546,6 +546,38 @@ export const FIELD_HELP: Record<string, string> = {
     "Optional account selector for multi-account channel setups when approvals must route through a specific account context. Use this only when the target channel has multiple configured identities.",
   "approvals.exec.targets[].threadId":
     "Optional thread/topic target for channels that support threaded delivery of forwarded approvals. Use this to keep approval traffic contained in operational threads instead of main channels.",
+  budgets:
+    "Daily and monthly model spend limits checked before every embedded model call. Use these to stop runaway sessions or cron jobs; crossing warnAt notifies the owner once per window and reaching a limit refuses further model calls with a clear reply.",
+  "budgets.gateway":
+    "Limits across every model call on this gateway, regardless of agent or sender. Set this as the outer safety net when several agents share one provider account.",
+  "budgets.agent":
+    "Default per-agent limits applied to each agent separately; agents.list[].budget overrides them per agent. Use this to keep one busy agent from exhausting spend meant for the others.",
+  "budgets.session":
+    "Limits per session key (each chat, thread, or cron session is charged separately). Use this to cap runaway loops inside a single conversation or job.",
+  "budgets.sender":
+    "Limits per channel sender, keyed by channel plus sender id, across all of that sender's sessions. Use this on public or shared bots so one user cannot consume the whole budget.",
+  "budgets.warnAt":
+    "Fraction of any limit (0-1, default: 0.8) that triggers a one-time soft warning to the owner per day or month. Lower it when you want more lead time before hard refusals start.",
+  "budgets.notify":
+    "Delivery target for soft-limit warnings with optional channel, to, and accountId. When unset, warnings go to the last route of the agent's main session; set it explicitly for cron-only or headless agents.",
+  credentialStores:
+    "Named secret stores that config values reference as secret://<store>/<name>, resolved when the config loads. The built-in stores file (encrypted local file), pass, and op (1Password CLI) work without configuration; add entries here to change their settings or to wire in another secret manager through a command.",
+  "credentialStores.*":
+    "One store definition keyed by the id used in secret://<id>/<name> references. Choose a kind and only the options relevant to it.",
+  "credentialStores.*.kind":
+    'Store backend: "file" (encrypted local file), "pass" (password-store), "1password" (op CLI), or "command" (any program that prints the secret on stdout).',
+  "credentialStores.*.path":
+    "Encrypted secrets file for file stores (default: secrets.enc.json in the state directory). Keep it out of synced or shared folders even though values are encrypted.",
+  "credentialStores.*.passphraseEnv":
+    "Environment variable holding the passphrase that unlocks a file store (default: SIMPLECLAW_SECRETS_PASSPHRASE). The passphrase itself never belongs in config.",
+  "credentialStores.*.command":
+    "Executable to run for pass, 1password, and command stores (defaults: pass, op). Use an absolute path when the gateway runs under a service manager with a minimal PATH.",
+  "credentialStores.*.args":
+    "Arguments for command stores; {name} is replaced with the secret name, and `--` plus the name are appended when no argument contains the placeholder.",
+  "credentialStores.*.account":
+    "1Password account (shorthand, sign-in address, or ID) passed to op read --account when several accounts are signed in.",
+  "credentialStores.*.timeoutMs":
+    "Maximum time in milliseconds to wait for the store CLI per secret (default: 10000). Raise it for stores that prompt for biometric unlock.",
   "tools.fs.workspaceOnly":
     "Restrict filesystem tools (read/write/edit/apply_patch) to the workspace directory (default: false).",
   "tools.sessions.visibility":
@@ -745,11 +777,15 @@ export const FIELD_HELP: Record<string, string> = {
     "Applies recency decay so newer memory can outrank older memory when scores are close. Enable when timeliness matters; keep off for timeless reference knowledge.",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Controls how fast older memory loses rank when temporal decay is enabled (half-life in days, default: 30). Lower values prioritize recent context more aggressively.",
+  "agents.defaults.memorySearch.query.facts.enabled":
+    "Blends structured facts recorded with memory_facts into memory_search results alongside markdown chunks (default: true). Disable to search indexed files only.",
+  "agents.defaults.memorySearch.query.facts.weight":
+    "Scales fact scores before they are merged with chunk hits (0-1, default: 1). Lower this when exact fact matches crowd out longer notes.",
   "agents.defaults.memorySearch.cache.enabled":
     "Caches computed chunk embeddings in SQLite so reindexing and incremental updates run faster (default: true). Keep this enabled unless investigating cache correctness or minimizing disk usage.",
   memory: "Memory backend configuration (global).",
   "memory.backend":
-    'Selects the global memory engine: "builtin" uses SimpleClaw memory internals, while "qmd" uses the QMD sidecar pipeline. Keep "builtin" unless you intentionally operate QMD.',
+    'Selects the global memory engine: "builtin" uses SimpleClaw memory internals, "qmd" uses the QMD sidecar pipeline, and any other value names a plugin-registered memory backend (falls back to builtin when unavailable). Keep "builtin" unless you intentionally operate QMD or an external store.',
   "memory.citations":
     'Controls citation visibility in replies: "auto" shows citations when useful, "on" always shows them, and "off" hides them. Keep "auto" for a balanced signal-to-noise default.',
   "memory.qmd.command":
@@ -1040,6 +1076,12 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum bytes per cron run-log file before pruning rewrites to the last keepLines entries (for example `2mb`, default `2000000`).",
   "cron.runLog.keepLines":
     "How many trailing run-log lines to retain when a file exceeds maxBytes (default `2000`). Increase for longer forensic history or lower for smaller disks.",
+  "cron.deadLetter":
+    "Fallback announce target for jobs whose `retry` policy is exhausted. Jobs can override it with `retry.deadLetter`; leave unset to only record the failure in job state and run logs.",
+  "cron.deadLetter.channel":
+    "Channel used for dead-letter notices (for example `telegram` or `last`, default `last`). Pick a channel an operator actually watches.",
+  "cron.deadLetter.to":
+    "Recipient on the dead-letter channel, such as a chat id or phone number. When omitted, the channel's last-used recipient for the job's agent is used.",
   hooks:
     "Inbound webhook automation surface for mapping external events into wake or agent actions in SimpleClaw. Keep this locked down with explicit token/session/agent controls before exposing it beyond trusted networks.",
   "hooks.enabled":
@@ -1072,6 +1114,22 @@ export const FIELD_HELP: Record<string, string> = {
     "Path match condition for a hook mapping, usually compared against the inbound request path. Use this to split automation behavior by webhook endpoint path families.",
   "hooks.mappings[].match.source":
     "Source match condition for a hook mapping, typically set by trusted upstream metadata or adapter logic. Use stable source identifiers so routing remains deterministic across retries.",
+  "hooks.mappings[].match.body":
+    'Payload predicates keyed by path (for example "action" or "pull_request.base.ref"), each with equals, regex, exists, or in. All must hold; events that match the path but fail a predicate are acknowledged with 204 and not dispatched.',
+  "hooks.mappings[].match.headers":
+    'Header predicates keyed by header name (case-insensitive), for example "x-github-event": { equals: "pull_request" }. Use them to route one provider endpoint to different agents per event type.',
+  "hooks.mappings[].rateLimit":
+    "Per-mapping dispatch cap over a sliding window. Requests over the cap return 429 with Retry-After instead of starting another agent turn.",
+  "hooks.mappings[].rateLimit.max":
+    "Maximum dispatches allowed per rate-limit window for this mapping.",
+  "hooks.mappings[].rateLimit.windowSeconds":
+    "Sliding window length for the mapping rate limit in seconds (default: 60).",
+  "hooks.mappings[].dedupe":
+    "Drops repeat deliveries that render the same key within a window, acknowledging them with 204. Useful for provider retries and redeliveries.",
+  "hooks.mappings[].dedupe.key":
+    'Template rendered per request to identify duplicates, for example "{{headers.x-github-delivery}}" or "{{data.object.id}}". An empty rendered key disables dedupe for that request.',
+  "hooks.mappings[].dedupe.windowSeconds":
+    "How long a dedupe key suppresses repeats in seconds (default: 3600).",
   "hooks.mappings[].action":
     'Mapping action type: "wake" triggers agent wake flow, while "agent" sends directly to agent handling. Use "agent" for immediate execution and "wake" when heartbeat-driven processing is preferred.',
   "hooks.mappings[].wakeMode":
@@ -1094,6 +1152,8 @@ export const FIELD_HELP: Record<string, string> = {
     'Delivery channel override for mapping outputs (for example "last", "telegram", "discord", "slack", "signal", "imessage", or "msteams"). Keep channel overrides explicit to avoid accidental cross-channel sends.',
   "hooks.mappings[].to":
     "Destination identifier inside the selected channel when mapping replies should route to a fixed target. Verify provider-specific destination formats before enabling production mappings.",
+  "hooks.mappings[].targets":
+    'Fan-out delivery targets for mapping outputs; when set, channel and to are ignored. Each entry takes channel/to or kind="webhook" with an http(s) URL, plus optional id, bestEffort, format ("full" or "summary"), and prefix.',
   "hooks.mappings[].model":
     "Optional model override for mapping-triggered runs when automation should use a different model than agent defaults. Use this sparingly so behavior remains predictable across mapping executions.",
   "hooks.mappings[].thinking":
@@ -1106,6 +1166,26 @@ export const FIELD_HELP: Record<string, string> = {
     "Relative transform module path loaded from hooks.transformsDir to rewrite incoming payloads before delivery. Keep modules local, reviewed, and free of path traversal patterns.",
   "hooks.mappings[].transform.export":
     "Named export to invoke from the transform module; defaults to module default export when omitted. Set this when one file hosts multiple transform handlers.",
+  "hooks.mappings[].signature":
+    "Provider webhook signature check for this mapping. Signed requests may omit the hooks token, and requests with a missing, forged, stale, or replayed signature are rejected with 401 before any transform or agent turn runs.",
+  "hooks.mappings[].signature.provider":
+    'Signature scheme: "github" (X-Hub-Signature-256), "stripe" (Stripe-Signature with timestamp), "slack" (X-Slack-Signature signing secret), or "hmac" for a generic HMAC header such as Linear-Signature.',
+  "hooks.mappings[].signature.secret":
+    "Signing secret shared with the webhook provider. Store it via environment substitution rather than inline and rotate it with the provider when it leaks.",
+  "hooks.mappings[].signature.header":
+    'Header carrying the signature for the "hmac" provider (default "x-signature"). Preset providers use their documented header.',
+  "hooks.mappings[].signature.algorithm":
+    'HMAC digest for the "hmac" provider: "sha1", "sha256" (default), or "sha512".',
+  "hooks.mappings[].signature.encoding":
+    'Signature encoding for the "hmac" provider: "hex" (default) or "base64".',
+  "hooks.mappings[].signature.prefix":
+    'Prefix stripped from the header value before comparing for the "hmac" provider, for example "sha256=".',
+  "hooks.mappings[].signature.timestampHeader":
+    'Unix-seconds timestamp header for the "hmac" provider. When set, the signed payload is "<timestamp>.<body>" and stale timestamps are rejected.',
+  "hooks.mappings[].signature.toleranceSeconds":
+    "Maximum clock skew accepted for signed timestamps (default: 300). Keep it short so captured requests cannot be replayed later.",
+  "hooks.mappings[].signature.nonceHeader":
+    "Header with a unique delivery id used for replay detection (GitHub defaults to X-GitHub-Delivery). When unset, the signature itself is remembered.",
   "hooks.gmail":
     "Gmail push integration settings used for Pub/Sub notifications and optional local callback serving. Keep this scoped to dedicated Gmail automation accounts where possible.",
   "hooks.gmail.account":
@@ -1189,7 +1269,7 @@ export const FIELD_HELP: Record<string, string> = {
   "messages.queue":
     "Inbound message queue strategy used to buffer bursts before processing turns. Tune this for busy channels where sequential processing or batching behavior matters.",
   "messages.queue.mode":
-    'Queue behavior mode: "steer", "followup", "collect", "steer-backlog", "steer+backlog", "queue", or "interrupt". Keep conservative modes unless you intentionally need aggressive interruption/backlog semantics.',
+    'Queue behavior mode: "steer", "followup", "collect", "digest", "steer-backlog", "steer+backlog", "queue", or "interrupt". Keep conservative modes unless you intentionally need aggressive interruption/backlog semantics; "digest" batches group bursts into one reply.',
   "messages.queue.byChannel":
     "Per-channel queue mode overrides keyed by provider id (for example telegram, discord, slack). Use this when one channel’s traffic pattern needs different queue behavior than global defaults.",
   "messages.queue.debounceMs":
@@ -1200,6 +1280,12 @@ export const FIELD_HELP: Record<string, string> = {
     "Maximum number of queued inbound items retained before drop policy applies. Keep caps bounded in noisy channels so memory usage remains predictable.",
   "messages.queue.drop":
     'Drop strategy when queue cap is exceeded: "old", "new", or "summarize". Use summarize when preserving intent matters, or old/new when deterministic dropping is preferred.',
+  "messages.queue.digest":
+    'Settings for "digest" mode, which holds group-chat messages from all senders for a window and answers them in one sender-attributed turn. Direct chats in digest mode behave like "collect".',
+  "messages.queue.digest.windowMs":
+    "How long to accumulate a group burst before replying, measured from the first held message (default: 30000). New messages do not extend the window, so busy groups still get timely replies.",
+  "messages.queue.digest.threading":
+    'Reply threading for digest turns: "off" sends one reply (default), "per-sender" lets the agent answer individual senders in their threads with [[reply_to:<id>]] sections. Threading still follows the channel replyToMode.',
   "messages.inbound":
     "Direct inbound debounce settings used before queue/turn processing starts. Configure this for provider-specific rapid message bursts from the same sender.",
   "messages.inbound.byChannel":
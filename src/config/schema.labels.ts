@@ -198,6 +198,22 @@ export const FIELD_LABELS: Record<string, string> = {
   "approvals.exec.targets[].to": "Approval Target Destination",
   "approvals.exec.targets[].accountId": "Approval Target Account ID",
   "approvals.exec.targets[].threadId": "Approval Target Thread ID",
+  budgets: "Usage Budgets",
+  "budgets.gateway": "Gateway Budget",
+  "budgets.agent": "Per-Agent Budget",
+  "budgets.session": "Per-Session Budget",
+  "budgets.sender": "Per-Sender Budget",
+  "budgets.warnAt": "Budget Warning Threshold",
+  "budgets.notify": "Budget Warning Target",
+  credentialStores: "Credential Stores",
+  "credentialStores.*": "Credential Store",
+  "credentialStores.*.kind": "Credential Store Kind",
+  "credentialStores.*.path": "Secrets File Path",
+  "credentialStores.*.passphraseEnv": "Secrets Passphrase Env Var",
+  "credentialStores.*.command": "Credential Store Command",
+  "credentialStores.*.args": "Credential Store Command Args",
+  "credentialStores.*.account": "1Password Account",
+  "credentialStores.*.timeoutMs": "Credential Store Timeout (ms)",
   "tools.message.allowCrossContextSend": "Allow Cross-Context Messaging",
   "tools.message.crossContext.allowWithinProvider": "Allow Cross-Context (Same Provider)",
   "tools.message.crossContext.allowAcrossProviders": "Allow Cross-Context (Across Providers)",
@@ -323,6 +339,8 @@ export const FIELD_LABELS: Record<string, string> = {
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.enabled": "Memory Search Temporal Decay",
   "agents.defaults.memorySearch.query.hybrid.temporalDecay.halfLifeDays":
     "Memory Search Temporal Decay Half-life (Days)",
+  "agents.defaults.memorySearch.query.facts.enabled": "Memory Search Facts",
+  "agents.defaults.memorySearch.query.facts.weight": "Memory Search Fact Weight",
   "agents.defaults.memorySearch.cache.enabled": "Memory Search Embedding Cache",
   "agents.defaults.memorySearch.cache.maxEntries": "Memory Search Embedding Cache Max Entries",
   memory: "Memory",
@@ -489,6 +507,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "cron.runLog": "Cron Run Log Pruning",
   "cron.runLog.maxBytes": "Cron Run Log Max Bytes",
   "cron.runLog.keepLines": "Cron Run Log Keep Lines",
+  "cron.deadLetter": "Cron Dead Letter Target",
+  "cron.deadLetter.channel": "Cron Dead Letter Channel",
+  "cron.deadLetter.to": "Cron Dead Letter Recipient",
   hooks: "Hooks",
   "hooks.enabled": "Hooks Enabled",
   "hooks.path": "Hooks Endpoint Path",
@@ -505,6 +526,14 @@ export const FIELD_LABELS: Record<string, string> = {
   "hooks.mappings[].match": "Hook Mapping Match",
   "hooks.mappings[].match.path": "Hook Mapping Match Path",
   "hooks.mappings[].match.source": "Hook Mapping Match Source",
+  "hooks.mappings[].match.body": "Hook Mapping Body Predicates",
+  "hooks.mappings[].match.headers": "Hook Mapping Header Predicates",
+  "hooks.mappings[].rateLimit": "Hook Mapping Rate Limit",
+  "hooks.mappings[].rateLimit.max": "Hook Mapping Rate Limit Max",
+  "hooks.mappings[].rateLimit.windowSeconds": "Hook Mapping Rate Limit Window (sec)",
+  "hooks.mappings[].dedupe": "Hook Mapping Dedupe",
+  "hooks.mappings[].dedupe.key": "Hook Mapping Dedupe Key",
+  "hooks.mappings[].dedupe.windowSeconds": "Hook Mapping Dedupe Window (sec)",
   "hooks.mappings[].action": "Hook Mapping Action",
   "hooks.mappings[].wakeMode": "Hook Mapping Wake Mode",
   "hooks.mappings[].name": "Hook Mapping Name",
@@ -516,12 +545,23 @@ export const FIELD_LABELS: Record<string, string> = {
   "hooks.mappings[].allowUnsafeExternalContent": "Hook Mapping Allow Unsafe External Content",
   "hooks.mappings[].channel": "Hook Mapping Delivery Channel",
   "hooks.mappings[].to": "Hook Mapping Delivery Destination",
+  "hooks.mappings[].targets": "Hook Mapping Delivery Targets",
   "hooks.mappings[].model": "Hook Mapping Model Override",
   "hooks.mappings[].thinking": "Hook Mapping Thinking Override",
   "hooks.mappings[].timeoutSeconds": "Hook Mapping Timeout (sec)",
   "hooks.mappings[].transform": "Hook Mapping Transform",
   "hooks.mappings[].transform.module": "Hook Transform Module",
   "hooks.mappings[].transform.export": "Hook Transform Export",
+  "hooks.mappings[].signature": "Hook Mapping Signature",
+  "hooks.mappings[].signature.provider": "Hook Signature Provider",
+  "hooks.mappings[].signature.secret": "Hook Signature Secret",
+  "hooks.mappings[].signature.header": "Hook Signature Header",
+  "hooks.mappings[].signature.algorithm": "Hook Signature Algorithm",
+  "hooks.mappings[].signature.encoding": "Hook Signature Encoding",
+  "hooks.mappings[].signature.prefix": "Hook Signature Prefix",
+  "hooks.mappings[].signature.timestampHeader": "Hook Signature Timestamp Header",
+  "hooks.mappings[].signature.toleranceSeconds": "Hook Signature Tolerance (sec)",
+  "hooks.mappings[].signature.nonceHeader": "Hook Signature Nonce Header",
   "hooks.gmail": "Gmail Hook",
   "hooks.gmail.account": "Gmail Hook Account",
   "hooks.gmail.label": "Gmail Hook Label",
@@ -593,6 +633,9 @@ export const FIELD_LABELS: Record<string, string> = {
   "messages.queue.debounceMsByChannel": "Queue Debounce by Channel (ms)",
   "messages.queue.cap": "Queue Capacity",
   "messages.queue.drop": "Queue Drop Strategy",
+  "messages.queue.digest": "Queue Digest",
+  "messages.queue.digest.windowMs": "Queue Digest Window (ms)",
+  "messages.queue.digest.threading": "Queue Digest Threading",
   "messages.inbound": "Inbound Debounce",
   "messages.suppressToolErrors": "Suppress Tool Error Warnings",
   "messages.ackReaction": "Ack Reaction Emoji",
@@ -64,6 +64,7 @@ export type SessionEntry = {
     | "steer"
     | "followup"
     | "collect"
+    | "digest"
     | "steer-backlog"
     | "steer+backlog"
     | "queue"
@@ -320,25 +320,55 @@ export type AgentUserProfileCurationConfig = {
   maxConversationTokens?: number;
 };
 
+export type AgentPassiveContextSourceConfig = {
+  enabled?: boolean;
+  /** Max tokens this source may contribute (default: per source). */
+  maxTokens?: number;
+  /** Abandon the source after this many milliseconds (default: 10000). */
+  timeoutMs?: number;
+  /** Source-specific settings, passed through to the source. */
+  [key: string]: unknown;
+};
+
+export type AgentPassiveContextEntitiesConfig = {
+  /**
+   * How entities are found in the prompt before sources are queried:
+   * - "pattern": capitalized words, emails, and @mentions (default)
+   * - "profile": pattern matches plus the alias dictionary from USER.md
+   * - "model": a small model extracts entities, resolved through the alias dictionary
+   */
+  mode?: "pattern" | "profile" | "model";
+  /** Model for "model" mode; pick a fast, cheap one (default: the agent default model). */
+  model?: string;
+  /** Timeout for one extraction call in milliseconds (default: 5000). */
+  timeoutMs?: number;
+  /** Workspace-relative profile file with a People section (default: "USER.md"). */
+  profileFile?: string;
+  /** Extra aliases merged over the profile: nickname → canonical name, or name plus emails. */
+  aliases?: Record<string, string | { name: string; emails?: string[] }>;
+};
+
 export type AgentPassiveContextConfig = {
   /** Enable passive context injection from connected services (default: false). */
   enabled?: boolean;
+  /** Per-source settings keyed by source id; plugin sources register their own ids. */
   sources?: {
-    gmail?: {
-      enabled?: boolean;
+    gmail?: AgentPassiveContextSourceConfig & {
       /** Max tokens to budget for Gmail context (default: 2000). */
       maxTokens?: number;
       /** How many days back to search for relevant emails (default: 30). */
       lookbackDays?: number;
     };
-    channelHistory?: {
-      enabled?: boolean;
+    channelHistory?: AgentPassiveContextSourceConfig & {
       /** Max tokens to budget for channel history context (default: 1000). */
       maxTokens?: number;
     };
+    [sourceId: string]: AgentPassiveContextSourceConfig | undefined;
   };
   /** Total max tokens across all passive context sources (default: 3000). */
   totalMaxTokens?: number;
+  /** Entity extraction mode and alias dictionary. */
+  entities?: AgentPassiveContextEntitiesConfig;
 };
 
 export type AgentJudgeFirebaseConfig = {
@@ -351,8 +381,21 @@ export type AgentJudgeFirebaseConfig = {
 export type AgentJudgeLlmFallbackConfig = {
   /** Enable LLM fallback for ambiguous tool→component mappings (default: false). */
   enabled?: boolean;
-  /** Model to use for LLM judge calls (default: fast/cheap model). */
+  /** Model for judge calls; pick a fast, cheap one (default: the agent default model). */
   model?: string;
+  /** Timeout for a single judge call in milliseconds (default: 10000). */
+  timeoutMs?: number;
+};
+
+export type AgentJudgeFilesConfig = {
+  /** Load component definitions from `<workspace>/genui/*.json` (default: true). */
+  enabled?: boolean;
+  /** Directory to load instead of `<workspace>/genui`. */
+  dir?: string;
+  /** Reload when component files change (default: true). */
+  watch?: boolean;
+  /** Debounce for file watcher reloads in milliseconds (default: 250). */
+  watchDebounceMs?: number;
 };
 
 export type GenUiComponentDef = {
@@ -368,6 +411,19 @@ export type GenUiComponentDef = {
   schema?: Record<string, unknown>;
   /** Human-readable name for logging/debugging. */
   displayName?: string;
+  /**
+   * User actions the component can send back via `genui.action`, keyed by action name.
+   * When set, other action names are rejected; when omitted, only the actions the render
+   * shows (a `form` submit, `params.actions` buttons) are accepted.
+   */
+  actions?: Record<string, GenUiActionDef>;
+};
+
+export type GenUiActionDef = {
+  /** Shown to the agent alongside the action. */
+  description?: string;
+  /** JSON Schema the action `values` must satisfy. */
+  schema?: Record<string, unknown>;
 };
 
 export type AgentJudgeConfig = {
@@ -375,6 +431,8 @@ export type AgentJudgeConfig = {
   enabled?: boolean;
   /** Firebase RTDB connection for dynamic GenUI registry. */
   firebase?: AgentJudgeFirebaseConfig;
+  /** Workspace component files, hot-reloaded on change (works without Firebase). */
+  files?: AgentJudgeFilesConfig;
   /** LLM fallback for ambiguous tool→component selection. */
   llmFallback?: AgentJudgeLlmFallbackConfig;
   /** Static GenUI component registry (fallback when Firebase is not configured). */
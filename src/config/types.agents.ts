@@ -2,15 +2,36 @@ import type { ChatType } from "../channels/chat-type.js";
 import type { AgentDefaultsConfig } from "./types.agent-defaults.js";
 import type { AgentModelConfig, AgentSandboxConfig } from "./types.agents-shared.js";
 import type { HumanDelayConfig, IdentityConfig } from "./types.base.js";
+import type { UsageBudgetLimits } from "./types.budgets.js";
 import type { GroupChatConfig } from "./types.messages.js";
 import type { AgentToolsConfig, MemorySearchConfig } from "./types.tools.js";
 
+export type OrchestratorSpendLimits = {
+  /** Max input + output tokens across finished worker runs. */
+  maxTokens?: number;
+  /** Max estimated worker cost in USD (uses models.providers.*.models[].cost). */
+  maxCostUsd?: number;
+};
+
+export type OrchestratorBudgetConfig = {
+  /** Max workers running at once across all of this orchestrator's sessions. */
+  maxConcurrentWorkers?: number;
+  /** Limits per batch (sessions_spawn batchId). */
+  batch?: OrchestratorSpendLimits;
+  /** Limits per local calendar day. */
+  daily?: OrchestratorSpendLimits;
+};
+
 export type AgentConfig = {
   id: string;
   default?: boolean;
   name?: string;
   /** Agent role: orchestrator (delegation tools + roster) or worker (no delegation). */
   role?: "orchestrator" | "worker";
+  /** Worker concurrency and spend limits enforced on sessions_spawn (orchestrator role only). */
+  orchestrator?: OrchestratorBudgetConfig;
+  /** Daily/monthly model spend limits for this agent (overrides budgets.agent). */
+  budget?: UsageBudgetLimits;
   workspace?: string;
   agentDir?: string;
   model?: AgentModelConfig;
@@ -0,0 +1,37 @@
+export type UsageBudgetWindowLimits = {
+  /** Max input + output tokens in the window. */
+  maxTokens?: number;
+  /** Max cost in USD in the window (provider-reported or estimated from models.providers.*.models[].cost). */
+  maxCostUsd?: number;
+};
+
+export type UsageBudgetLimits = {
+  /** Limits per local calendar day. */
+  daily?: UsageBudgetWindowLimits;
+  /** Limits per local calendar month. */
+  monthly?: UsageBudgetWindowLimits;
+};
+
+export type UsageBudgetNotifyTarget = {
+  /** Channel id for soft-limit warnings (default: the agent's main session last channel). */
+  channel?: string;
+  /** Destination id inside the channel. */
+  to?: string;
+  /** Optional account id for multi-account channels. */
+  accountId?: string;
+};
+
+export type BudgetsConfig = {
+  /** Limits across every model call on this gateway. */
+  gateway?: UsageBudgetLimits;
+  /** Default limits per agent (agents.list[].budget overrides). */
+  agent?: UsageBudgetLimits;
+  /** Limits per session key. */
+  session?: UsageBudgetLimits;
+  /** Limits per channel sender (channel + sender id). */
+  sender?: UsageBudgetLimits;
+  /** Fraction of a limit that triggers a one-time owner warning per window. Default: 0.8. */
+  warnAt?: number;
+  /** Where soft-limit warnings are delivered. */
+  notify?: UsageBudgetNotifyTarget;
+};
@@ -0,0 +1,48 @@
+/** Encrypted local file unlocked by a passphrase from the environment. */
+export type CredentialFileStoreConfig = {
+  kind: "file";
+  /** Store path (default: `<stateDir>/secrets.enc.json`). */
+  path?: string;
+  /** Env var holding the passphrase (default: `SIMPLECLAW_SECRETS_PASSPHRASE`). */
+  passphraseEnv?: string;
+};
+
+/** `pass show -- <name>` (first line). */
+export type CredentialPassStoreConfig = {
+  kind: "pass";
+  /** Binary to run (default: `pass`). */
+  command?: string;
+  timeoutMs?: number;
+};
+
+/** 1Password CLI: `op read op://<name>`. */
+export type CredentialOnePasswordStoreConfig = {
+  kind: "1password";
+  /** Binary to run (default: `op`). */
+  command?: string;
+  /** Account shorthand or id passed as `--account`. */
+  account?: string;
+  timeoutMs?: number;
+};
+
+/** Arbitrary command printing the secret on stdout. */
+export type CredentialCommandStoreConfig = {
+  kind: "command";
+  command: string;
+  /** Arguments; `{name}` is replaced with the secret name (appended after `--` when absent). */
+  args?: string[];
+  timeoutMs?: number;
+};
+
+export type CredentialStoreConfig =
+  | CredentialFileStoreConfig
+  | CredentialPassStoreConfig
+  | CredentialOnePasswordStoreConfig
+  | CredentialCommandStoreConfig;
+
+/**
+ * Stores referenced by `secret://<store>/<name>` config values. `file`, `pass`
+ * and `op` work without configuration; entries here override them or add
+ * new store ids.
+ */
+export type CredentialStoresConfig = Record<string, CredentialStoreConfig>;
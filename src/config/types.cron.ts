@@ -23,4 +23,12 @@ export type CronConfig = {
     maxBytes?: number | string;
     keepLines?: number;
   };
+  /**
+   * Default announce target for jobs whose retry policy is exhausted.
+   * Per-job `retry.deadLetter` takes precedence.
+   */
+  deadLetter?: {
+    channel?: string;
+    to?: string;
+  };
 };
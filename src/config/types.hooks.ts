@@ -1,6 +1,60 @@
+/** Value test for a body field or header; every operator set must hold. */
+export type HookMatchCondition = {
+  equals?: string | number | boolean | null;
+  /** JavaScript regular expression tested against the stringified value. */
+  regex?: string;
+  exists?: boolean;
+  in?: Array<string | number | boolean | null>;
+};
+
 export type HookMappingMatch = {
   path?: string;
   source?: string;
+  /** Payload predicates keyed by path (`action`, `pull_request.labels[0].name`, optional `$.` prefix). */
+  body?: Record<string, HookMatchCondition>;
+  /** Header predicates keyed by header name (case-insensitive). */
+  headers?: Record<string, HookMatchCondition>;
+};
+
+export type HookMappingRateLimit = {
+  /** Maximum dispatches per window; extra requests get 429. */
+  max: number;
+  /** Sliding window length (default 60). */
+  windowSeconds?: number;
+};
+
+export type HookMappingDedupe = {
+  /** Template rendered per request (e.g. `{{headers.x-github-delivery}}`); empty keys skip dedupe. */
+  key: string;
+  /** How long a key suppresses repeats (default 3600). */
+  windowSeconds?: number;
+};
+
+export type HookSignatureProvider = "github" | "stripe" | "slack" | "hmac";
+
+/**
+ * Provider webhook signature check for a mapping. Signed requests may omit the
+ * hooks token; unsigned or forged ones are rejected before any dispatch.
+ */
+export type HookMappingSignatureConfig = {
+  /** `github` (X-Hub-Signature-256), `stripe` (Stripe-Signature), `slack` (signing secret) or generic `hmac`. */
+  provider: HookSignatureProvider;
+  /** Shared signing secret. */
+  secret: string;
+  /** Signature header (`hmac` only; default `x-signature`). */
+  header?: string;
+  /** HMAC digest (`hmac` only; default `sha256`). */
+  algorithm?: "sha1" | "sha256" | "sha512";
+  /** Signature encoding (`hmac` only; default `hex`). */
+  encoding?: "hex" | "base64";
+  /** Prefix stripped from the header value before comparing (`hmac` only, e.g. `sha256=`). */
+  prefix?: string;
+  /** Unix-seconds timestamp header; when set, `<timestamp>.<body>` is signed (`hmac` only). */
+  timestampHeader?: string;
+  /** Accepted clock skew for signed timestamps (default 300). */
+  toleranceSeconds?: number;
+  /** Header with a unique delivery id for replay detection (defaults per provider, else the signature). */
+  nonceHeader?: string;
 };
 
 export type HookMappingTransform = {
@@ -8,6 +62,22 @@ export type HookMappingTransform = {
   export?: string;
 };
 
+/** One destination of a fan-out hook delivery (same shape as cron `delivery.targets`). */
+export type HookDeliveryTargetConfig = {
+  /** Stable label used in run state and logs (defaults to `channel:to` or the URL). */
+  id?: string;
+  kind?: "channel" | "webhook";
+  channel?: string;
+  /** Recipient for channel targets; http(s) URL for webhook targets. Supports templates. */
+  to?: string;
+  /** Keep delivering to the other targets when this one fails. */
+  bestEffort?: boolean;
+  /** `summary` sends the short run summary instead of the full reply. */
+  format?: "full" | "summary";
+  /** Line prepended to the delivered text. Supports templates. */
+  prefix?: string;
+};
+
 export type HookMappingConfig = {
   id?: string;
   match?: HookMappingMatch;
@@ -34,11 +104,19 @@ export type HookMappingConfig = {
     | "imessage"
     | "msteams";
   to?: string;
+  /** Fan-out delivery targets; replaces `channel`/`to` when set. */
+  targets?: HookDeliveryTargetConfig[];
   /** Override model for this hook (provider/model or alias). */
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
   transform?: HookMappingTransform;
+  /** Cap how often this mapping dispatches. */
+  rateLimit?: HookMappingRateLimit;
+  /** Drop repeats of the same rendered key within a window. */
+  dedupe?: HookMappingDedupe;
+  /** Verify the provider's webhook signature before dispatching. */
+  signature?: HookMappingSignatureConfig;
 };
 
 export type HooksGmailTailscaleMode = "off" | "serve" | "funnel";
@@ -1,6 +1,7 @@
 import type { SessionSendPolicyConfig } from "./types.base.js";
 
-export type MemoryBackend = "builtin" | "qmd";
+/** `builtin`, `qmd`, or the id of a plugin-registered memory backend. */
+export type MemoryBackend = "builtin" | "qmd" | (string & {});
 export type MemoryCitationsMode = "auto" | "on" | "off";
 export type MemoryQmdSearchMode = "query" | "search" | "vsearch";
 
@@ -1,4 +1,9 @@
-import type { QueueDropPolicy, QueueMode, QueueModeByProvider } from "./types.queue.js";
+import type {
+  QueueDigestThreading,
+  QueueDropPolicy,
+  QueueMode,
+  QueueModeByProvider,
+} from "./types.queue.js";
 import type { TtsConfig } from "./types.tts.js";
 
 export type GroupChatConfig = {
@@ -18,6 +23,15 @@ export type QueueConfig = {
   debounceMsByChannel?: InboundDebounceByProvider;
   cap?: number;
   drop?: QueueDropPolicy;
+  /** Settings for `mode: "digest"` (group chats). */
+  digest?: QueueDigestConfig;
+};
+
+export type QueueDigestConfig = {
+  /** How long to accumulate messages from all senders before one reply (default: 30000). */
+  windowMs?: number;
+  /** "per-sender" lets the reply answer individual senders in their threads (default: "off"). */
+  threading?: QueueDigestThreading;
 };
 
 export type InboundDebounceByProvider = Record<string, number>;
@@ -2,11 +2,13 @@ export type QueueMode =
   | "steer"
   | "followup"
   | "collect"
+  | "digest"
   | "steer-backlog"
   | "steer+backlog"
   | "queue"
   | "interrupt";
 export type QueueDropPolicy = "old" | "new" | "summarize";
+export type QueueDigestThreading = "off" | "per-sender";
 
 export type QueueModeByProvider = {
   whatsapp?: QueueMode;
@@ -3,7 +3,9 @@ import type { ApprovalsConfig } from "./types.approvals.js";
 import type { AuthConfig } from "./types.auth.js";
 import type { DiagnosticsConfig, LoggingConfig, SessionConfig, WebConfig } from "./types.base.js";
 import type { BrowserConfig } from "./types.browser.js";
+import type { BudgetsConfig } from "./types.budgets.js";
 import type { ChannelsConfig } from "./types.channels.js";
+import type { CredentialStoresConfig } from "./types.credential-stores.js";
 import type { CronConfig } from "./types.cron.js";
 import type {
   CanvasHostConfig,
@@ -98,6 +100,9 @@ export type SimpleClawConfig = {
   messages?: MessagesConfig;
   commands?: CommandsConfig;
   approvals?: ApprovalsConfig;
+  budgets?: BudgetsConfig;
+  /** Stores resolving `secret://<store>/<name>` references at load time. */
+  credentialStores?: CredentialStoresConfig;
   session?: SessionConfig;
   web?: WebConfig;
   channels?: ChannelsConfig;
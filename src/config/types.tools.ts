@@ -407,6 +407,13 @@ export type MemorySearchConfig = {
         halfLifeDays?: number;
       };
     };
+    /** Blend structured facts (memory_facts) into search results. */
+    facts?: {
+      /** Include fact hits in memory_search (default: true). */
+      enabled?: boolean;
+      /** Multiplier for fact scores before merging with chunk hits (0-1, default: 1). */
+      weight?: number;
+    };
   };
   /** Index cache behavior. */
   cache?: {
@@ -6,7 +6,9 @@ export * from "./types.approvals.js";
 export * from "./types.auth.js";
 export * from "./types.base.js";
 export * from "./types.browser.js";
+export * from "./types.budgets.js";
 export * from "./types.channels.js";
+export * from "./types.credential-stores.js";
 export * from "./types.simpleclaw.js";
 export * from "./types.cron.js";
 export * from "./types.discord.js";
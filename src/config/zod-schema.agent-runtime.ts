@@ -2,6 +2,7 @@ import { z } from "zod";
 import { getBlockedNetworkModeReason } from "../agents/sandbox/network-mode.js";
 import { parseDurationMs } from "../cli/parse-duration.js";
 import { AgentModelSchema } from "./zod-schema.agent-model.js";
+import { UsageBudgetLimitsSchema } from "./zod-schema.budgets.js";
 import {
   GroupChatSchema,
   HumanDelaySchema,
@@ -655,6 +656,13 @@ export const MemorySearchSchema = z
           })
           .strict()
           .optional(),
+        facts: z
+          .object({
+            enabled: z.boolean().optional(),
+            weight: z.number().min(0).max(1).optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .optional(),
@@ -669,6 +677,13 @@ export const MemorySearchSchema = z
   .strict()
   .optional();
 export { AgentModelSchema };
+const OrchestratorSpendLimitsSchema = z
+  .object({
+    maxTokens: z.number().int().positive().optional(),
+    maxCostUsd: z.number().positive().optional(),
+  })
+  .strict()
+  .optional();
 export const AgentEntrySchema = z
   .object({
     id: z.string(),
@@ -680,6 +695,20 @@ export const AgentEntrySchema = z
       .describe(
         "Agent role: orchestrator (gets delegation tools + roster/batch in system prompt) or worker (delegation tools denied).",
       ),
+    orchestrator: z
+      .object({
+        maxConcurrentWorkers: z.number().int().positive().optional(),
+        batch: OrchestratorSpendLimitsSchema,
+        daily: OrchestratorSpendLimitsSchema,
+      })
+      .strict()
+      .optional()
+      .describe(
+        "Orchestrator limits: concurrent workers plus token/cost caps per batch and per day, enforced on sessions_spawn.",
+      ),
+    budget: UsageBudgetLimitsSchema.describe(
+      "Daily/monthly model spend limits for this agent; overrides budgets.agent.",
+    ),
     workspace: z.string().optional(),
     agentDir: z.string().optional(),
     model: AgentModelSchema.optional(),
@@ -0,0 +1,36 @@
+import { z } from "zod";
+
+const UsageBudgetWindowSchema = z
+  .object({
+    maxTokens: z.number().int().positive().optional(),
+    maxCostUsd: z.number().positive().optional(),
+  })
+  .strict()
+  .optional();
+
+export const UsageBudgetLimitsSchema = z
+  .object({
+    daily: UsageBudgetWindowSchema,
+    monthly: UsageBudgetWindowSchema,
+  })
+  .strict()
+  .optional();
+
+export const BudgetsSchema = z
+  .object({
+    gateway: UsageBudgetLimitsSchema,
+    agent: UsageBudgetLimitsSchema,
+    session: UsageBudgetLimitsSchema,
+    sender: UsageBudgetLimitsSchema,
+    warnAt: z.number().gt(0).lte(1).optional(),
+    notify: z
+      .object({
+        channel: z.string().optional(),
+        to: z.string().optional(),
+        accountId: z.string().optional(),
+      })
+      .strict()
+      .optional(),
+  })
+  .strict()
+  .optional();
@@ -118,6 +118,7 @@ export const QueueModeSchema = z.union([
   z.literal("steer"),
   z.literal("followup"),
   z.literal("collect"),
+  z.literal("digest"),
   z.literal("steer-backlog"),
   z.literal("steer+backlog"),
   z.literal("queue"),
@@ -382,6 +383,13 @@ export const QueueSchema = z
     debounceMsByChannel: DebounceMsBySurfaceSchema,
     cap: z.number().int().positive().optional(),
     drop: QueueDropSchema.optional(),
+    digest: z
+      .object({
+        windowMs: z.number().int().positive().optional(),
+        threading: z.union([z.literal("off"), z.literal("per-sender")]).optional(),
+      })
+      .strict()
+      .optional(),
   })
   .strict()
   .optional();
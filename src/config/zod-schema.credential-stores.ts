@@ -0,0 +1,43 @@
+import { z } from "zod";
+
+const TimeoutMsSchema = z.number().int().positive().optional();
+
+const CredentialStoreSchema = z.union([
+  z
+    .object({
+      kind: z.literal("file"),
+      path: z.string().optional(),
+      passphraseEnv: z.string().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("pass"),
+      command: z.string().optional(),
+      timeoutMs: TimeoutMsSchema,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("1password"),
+      command: z.string().optional(),
+      account: z.string().optional(),
+      timeoutMs: TimeoutMsSchema,
+    })
+    .strict(),
+  z
+    .object({
+      kind: z.literal("command"),
+      command: z.string().min(1),
+      args: z.array(z.string()).optional(),
+      timeoutMs: TimeoutMsSchema,
+    })
+    .strict(),
+]);
+
+export const CredentialStoresSchema = z
+  .record(
+    z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, "store ids must be alphanumeric"),
+    CredentialStoreSchema,
+  )
+  .optional();
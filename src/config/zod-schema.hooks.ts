@@ -31,6 +31,57 @@ const SafeRelativeModulePathSchema = z
   .string()
   .refine(isSafeRelativeModulePath, "module must be a safe relative path (no absolute paths)");
 
+const HookDeliveryTargetSchema = z
+  .object({
+    id: z.string().optional(),
+    kind: z.union([z.literal("channel"), z.literal("webhook")]).optional(),
+    channel: z.string().optional(),
+    to: z.string().optional(),
+    bestEffort: z.boolean().optional(),
+    format: z.union([z.literal("full"), z.literal("summary")]).optional(),
+    prefix: z.string().optional(),
+  })
+  .strict();
+
+function isValidRegex(raw: string): boolean {
+  try {
+    new RegExp(raw);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const HookMatchValueSchema = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+
+const HookMatchConditionSchema = z
+  .object({
+    equals: HookMatchValueSchema.optional(),
+    regex: z.string().refine(isValidRegex, "regex must be a valid regular expression").optional(),
+    exists: z.boolean().optional(),
+    in: z.array(HookMatchValueSchema).optional(),
+  })
+  .strict();
+
+const HookMappingSignatureSchema = z
+  .object({
+    provider: z.union([
+      z.literal("github"),
+      z.literal("stripe"),
+      z.literal("slack"),
+      z.literal("hmac"),
+    ]),
+    secret: z.string().min(1).register(sensitive),
+    header: z.string().optional(),
+    algorithm: z.union([z.literal("sha1"), z.literal("sha256"), z.literal("sha512")]).optional(),
+    encoding: z.union([z.literal("hex"), z.literal("base64")]).optional(),
+    prefix: z.string().optional(),
+    timestampHeader: z.string().optional(),
+    toleranceSeconds: z.number().int().positive().optional(),
+    nonceHeader: z.string().optional(),
+  })
+  .strict();
+
 export const HookMappingSchema = z
   .object({
     id: z.string().optional(),
@@ -38,6 +89,8 @@ export const HookMappingSchema = z
       .object({
         path: z.string().optional(),
         source: z.string().optional(),
+        body: z.record(z.string(), HookMatchConditionSchema).optional(),
+        headers: z.record(z.string(), HookMatchConditionSchema).optional(),
       })
       .optional(),
     action: z.union([z.literal("wake"), z.literal("agent")]).optional(),
@@ -63,6 +116,7 @@ export const HookMappingSchema = z
       ])
       .optional(),
     to: z.string().optional(),
+    targets: z.array(HookDeliveryTargetSchema).optional(),
     model: z.string().optional(),
     thinking: z.string().optional(),
     timeoutSeconds: z.number().int().positive().optional(),
@@ -73,6 +127,21 @@ export const HookMappingSchema = z
       })
       .strict()
       .optional(),
+    rateLimit: z
+      .object({
+        max: z.number().int().positive(),
+        windowSeconds: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    dedupe: z
+      .object({
+        key: z.string().min(1),
+        windowSeconds: z.number().int().positive().optional(),
+      })
+      .strict()
+      .optional(),
+    signature: HookMappingSignatureSchema.optional(),
   })
   .strict()
   .optional();
@@ -4,7 +4,9 @@ import { parseDurationMs } from "../cli/parse-duration.js";
 import { ToolsSchema } from "./zod-schema.agent-runtime.js";
 import { AgentsSchema, AudioSchema, BindingsSchema, BroadcastSchema } from "./zod-schema.agents.js";
 import { ApprovalsSchema } from "./zod-schema.approvals.js";
+import { BudgetsSchema } from "./zod-schema.budgets.js";
 import { HexColorSchema, ModelsConfigSchema } from "./zod-schema.core.js";
+import { CredentialStoresSchema } from "./zod-schema.credential-stores.js";
 import { HookMappingSchema, HooksGmailSchema, InternalHooksSchema } from "./zod-schema.hooks.js";
 import { InstallRecordShape } from "./zod-schema.installs.js";
 import { ChannelsSchema } from "./zod-schema.providers.js";
@@ -108,7 +110,7 @@ const MemoryQmdSchema = z
 
 const MemorySchema = z
   .object({
-    backend: z.union([z.literal("builtin"), z.literal("qmd")]).optional(),
+    backend: z.union([z.literal("builtin"), z.literal("qmd"), z.string().trim().min(1)]).optional(),
     citations: z.union([z.literal("auto"), z.literal("on"), z.literal("off")]).optional(),
     qmd: MemoryQmdSchema.optional(),
   })
@@ -332,6 +334,8 @@ export const SimpleClawSchema = z
     messages: MessagesSchema,
     commands: CommandsSchema,
     approvals: ApprovalsSchema,
+    budgets: BudgetsSchema,
+    credentialStores: CredentialStoresSchema,
     session: SessionSchema,
     cron: z
       .object({
@@ -348,6 +352,13 @@ export const SimpleClawSchema = z
           })
           .strict()
           .optional(),
+        deadLetter: z
+          .object({
+            channel: z.string().optional(),
+            to: z.string().optional(),
+          })
+          .strict()
+          .optional(),
       })
       .strict()
       .superRefine((val, ctx) => {
@@ -0,0 +1,165 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildCronBundle,
+  parseCronBundle,
+  planCronBundleImport,
+  relinkCronBundleJob,
+  serializeCronBundle,
+  toCronImportPatch,
+} from "./bundle.js";
+import { applyJobPatch } from "./service/jobs.js";
+import type { CronJob, CronJobPatch } from "./types.js";
+
+function makeJob(overrides: Partial<CronJob> & Pick<CronJob, "id" | "name">): CronJob {
+  return {
+    enabled: true,
+    createdAtMs: 1,
+    updatedAtMs: 2,
+    schedule: { kind: "every", everyMs: 60_000 },
+    sessionTarget: "main",
+    wakeMode: "now",
+    payload: { kind: "systemEvent", text: "ping" },
+    state: { nextRunAtMs: 123, lastStatus: "ok" },
+    ...overrides,
+  };
+}
+
+describe("cron bundles", () => {
+  it("round-trips jobs through YAML without runtime state", () => {
+    const jobs = [
+      makeJob({ id: "pull", name: "Pull" }),
+      makeJob({ id: "sum", name: "Summarize", schedule: { kind: "after", jobId: "pull" } }),
+    ];
+    const text = serializeCronBundle(buildCronBundle(jobs, { nowMs: 0 }), "yaml");
+    expect(text).not.toContain("nextRunAtMs");
+    expect(text).not.toContain("createdAtMs");
+
+    const bundle = parseCronBundle(text);
+    expect(bundle.exportedAt).toBe("1970-01-01T00:00:00.000Z");
+    expect(bundle.jobs.map((job) => [job.id, job.name])).toEqual([
+      ["pull", "Pull"],
+      ["sum", "Summarize"],
+    ]);
+    expect(bundle.jobs[0]).not.toHaveProperty("state");
+  });
+
+  it("normalizes bundle jobs and rejects invalid bundles", () => {
+    const bundle = parseCronBundle(
+      JSON.stringify({
+        version: 1,
+        jobs: [{ name: " Report ", schedule: { kind: "cron", expr: "0 9 * * *" }, message: "go" }],
+      }),
+    );
+    expect(bundle.jobs[0]).toMatchObject({
+      name: "Report",
+      sessionTarget: "isolated",
+      payload: { kind: "agentTurn", message: "go" },
+      delivery: { mode: "announce" },
+    });
+
+    expect(() => parseCronBundle("version: 2\njobs: []\n")).toThrow(
+      "unsupported cron bundle version: 2",
+    );
+    expect(() => parseCronBundle("version: 1\njobs:\n  - name: x\n")).toThrow(
+      "cron bundle job #1 (x) is missing a schedule",
+    );
+    expect(() =>
+      parseCronBundle(
+        serializeCronBundle(
+          buildCronBundle([makeJob({ id: "a", name: "A" }), makeJob({ id: "a", name: "B" })]),
+          "json",
+        ),
+      ),
+    ).toThrow("reuses id a");
+  });
+
+  it("plans imports per conflict mode with field diffs", () => {
+    const existing = [makeJob({ id: "pull", name: "Pull" }), makeJob({ id: "x", name: "Other" })];
+    const bundle = parseCronBundle(
+      serializeCronBundle(
+        buildCronBundle([
+          makeJob({ id: "sum", name: "Summarize", schedule: { kind: "after", jobId: "pull" } }),
+          makeJob({ id: "pull", name: "Pull", payload: { kind: "systemEvent", text: "pong" } }),
+          makeJob({ id: "dev-other", name: "Other" }),
+        ]),
+        "json",
+      ),
+    );
+
+    const overwrite = planCronBundleImport({ bundle, existing, mode: "overwrite" });
+    // Upstream jobs are applied before their dependents.
+    expect(overwrite.map((action) => [action.kind, action.job.name])).toEqual([
+      ["overwrite", "Pull"],
+      ["create", "Summarize"],
+      ["unchanged", "Other"],
+    ]);
+    expect(overwrite[0]).toMatchObject({ existingId: "pull", changes: ["payload"] });
+
+    const rename = planCronBundleImport({ bundle, existing, mode: "rename" });
+    expect(rename.find((action) => action.job.name === "Other")).toMatchObject({
+      kind: "rename",
+      name: "Other (2)",
+    });
+
+    const skip = planCronBundleImport({ bundle, existing, mode: "skip" });
+    expect(skip.map((action) => action.kind)).toEqual(["skip", "create", "skip"]);
+  });
+
+  it("relinks after schedules and clears omitted fields on overwrite", () => {
+    const [job] = parseCronBundle(
+      serializeCronBundle(
+        buildCronBundle([
+          makeJob({ id: "sum", name: "Summarize", schedule: { kind: "after", jobId: "dev-pull" } }),
+        ]),
+        "yaml",
+      ),
+    ).jobs;
+    const relinked = relinkCronBundleJob(job, new Map([["dev-pull", "prod-pull"]]));
+    expect(relinked.schedule).toEqual({ kind: "after", jobId: "prod-pull" });
+
+    const patch = toCronImportPatch(relinked);
+    expect(patch).not.toHaveProperty("id");
+    expect(patch).toMatchObject({
+      agentId: null,
+      retry: null,
+      schedule: { kind: "after", jobId: "prod-pull", exclude: {} },
+    });
+  });
+
+  it("drops session keys and delivery settings the bundle no longer carries", () => {
+    const existing = makeJob({
+      id: "report",
+      name: "Report",
+      sessionKey: "agent:main:telegram:dm:42",
+      sessionTarget: "isolated",
+      payload: { kind: "agentTurn", message: "old" },
+      delivery: {
+        mode: "announce",
+        channel: "telegram",
+        to: "123",
+        bestEffort: true,
+        when: [{ kind: "changed" }],
+      },
+    });
+    const [job] = parseCronBundle(
+      JSON.stringify({
+        version: 1,
+        jobs: [{ name: "Report", schedule: { kind: "every", everyMs: 60_000 }, message: "new" }],
+      }),
+    ).jobs;
+
+    // The gateway validates the wire patch and hands it to the service the same way.
+    applyJobPatch(existing, toCronImportPatch(job) as unknown as CronJobPatch);
+
+    expect(existing.sessionKey).toBeUndefined();
+    expect(existing.delivery).toEqual({ mode: "announce" });
+    expect(existing.payload).toMatchObject({ kind: "agentTurn", message: "new" });
+    expect(
+      planCronBundleImport({
+        bundle: { version: 1, jobs: [job] },
+        existing: [existing],
+        mode: "overwrite",
+      }),
+    ).toEqual([{ kind: "unchanged", job, existingId: "report" }]);
+  });
+});
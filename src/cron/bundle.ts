@@ -0,0 +1,253 @@
+import YAML from "yaml";
+import { isRecord } from "../utils.js";
+import { isCronAfterSchedule } from "./dependencies.js";
+import { normalizeCronJobCreate } from "./normalize.js";
+import type { CronDeliveryPatch, CronJob, CronJobCreate, CronJobPatch } from "./types.js";
+
+export const CRON_BUNDLE_VERSION = 1;
+
+/**
+ * Portable job definition: everything but runtime state and timestamps. The
+ * source `id` is kept so `after` schedules inside the bundle can be relinked.
+ */
+export type CronBundleJob = Omit<CronJobCreate, "state"> & { id?: string };
+
+export type CronBundle = {
+  version: typeof CRON_BUNDLE_VERSION;
+  exportedAt?: string;
+  jobs: CronBundleJob[];
+};
+
+export type CronBundleFormat = "yaml" | "json";
+
+export type CronImportConflictMode = "skip" | "overwrite" | "rename";
+
+export type CronImportAction =
+  | { kind: "create"; job: CronBundleJob }
+  | { kind: "rename"; job: CronBundleJob; existingId: string; name: string }
+  | { kind: "overwrite"; job: CronBundleJob; existingId: string; changes: string[] }
+  | { kind: "unchanged"; job: CronBundleJob; existingId: string }
+  | { kind: "skip"; job: CronBundleJob; existingId: string };
+
+const COMPARED_FIELDS = [
+  "name",
+  "description",
+  "enabled",
+  "deleteAfterRun",
+  "agentId",
+  "sessionKey",
+  "schedule",
+  "sessionTarget",
+  "wakeMode",
+  "payload",
+  "delivery",
+  "retry",
+] as const;
+
+export function buildCronBundle(jobs: CronJob[], opts?: { nowMs?: number }): CronBundle {
+  return {
+    version: CRON_BUNDLE_VERSION,
+    exportedAt: new Date(opts?.nowMs ?? Date.now()).toISOString(),
+    jobs: jobs.map(
+      ({ state: _state, createdAtMs: _created, updatedAtMs: _updated, ...job }) => job,
+    ),
+  };
+}
+
+export function serializeCronBundle(bundle: CronBundle, format: CronBundleFormat): string {
+  return format === "json" ? `${JSON.stringify(bundle, null, 2)}\n` : YAML.stringify(bundle);
+}
+
+/** Parses a YAML or JSON bundle and normalizes each job like `cron.add` does. */
+export function parseCronBundle(text: string): CronBundle {
+  let raw: unknown;
+  try {
+    raw = text.trimStart().startsWith("{") ? JSON.parse(text) : YAML.parse(text);
+  } catch (err) {
+    throw new Error(`invalid cron bundle: ${String(err)}`, { cause: err });
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.jobs)) {
+    throw new Error("invalid cron bundle: expected an object with a jobs list");
+  }
+  if (raw.version !== CRON_BUNDLE_VERSION) {
+    throw new Error(
+      `unsupported cron bundle version: ${String(raw.version)} (expected ${CRON_BUNDLE_VERSION})`,
+    );
+  }
+  const seenIds = new Set<string>();
+  const jobs = raw.jobs.map((entry, index) => {
+    const label = `cron bundle job #${index + 1}`;
+    if (!isRecord(entry)) {
+      throw new Error(`${label} is not an object`);
+    }
+    const { state: _state, createdAtMs: _created, updatedAtMs: _updated, ...rest } = entry;
+    const normalized = normalizeCronJobCreate(rest) as CronBundleJob | null;
+    if (!normalized) {
+      throw new Error(`${label} is invalid`);
+    }
+    if (typeof normalized.name !== "string" || !normalized.name.trim()) {
+      throw new Error(`${label} is missing a name`);
+    }
+    if (!isRecord(normalized.schedule) || typeof normalized.schedule.kind !== "string") {
+      throw new Error(`${label} (${normalized.name}) is missing a schedule`);
+    }
+    if (!isRecord(normalized.payload) || typeof normalized.payload.kind !== "string") {
+      throw new Error(`${label} (${normalized.name}) is missing a payload`);
+    }
+    if (normalized.sessionTarget !== "main" && normalized.sessionTarget !== "isolated") {
+      throw new Error(`${label} (${normalized.name}) has an invalid sessionTarget`);
+    }
+    if (typeof normalized.id === "string") {
+      const id = normalized.id.trim();
+      if (seenIds.has(id)) {
+        throw new Error(`${label} (${normalized.name}) reuses id ${id}`);
+      }
+      seenIds.add(id);
+      normalized.id = id;
+    } else {
+      delete normalized.id;
+    }
+    return normalized;
+  });
+  return {
+    version: CRON_BUNDLE_VERSION,
+    exportedAt: typeof raw.exportedAt === "string" ? raw.exportedAt : undefined,
+    jobs,
+  };
+}
+
+function findConflict(job: CronBundleJob, existing: CronJob[]): CronJob | undefined {
+  return (
+    (job.id ? existing.find((entry) => entry.id === job.id) : undefined) ??
+    existing.find((entry) => entry.name === job.name)
+  );
+}
+
+function diffCronJob(job: CronBundleJob, current: CronJob): string[] {
+  return COMPARED_FIELDS.filter(
+    (field) => JSON.stringify(job[field] ?? null) !== JSON.stringify(current[field] ?? null),
+  );
+}
+
+function uniqueName(name: string, taken: Set<string>): string {
+  for (let n = 2; ; n++) {
+    const candidate = `${name} (${n})`;
+    if (!taken.has(candidate)) {
+      return candidate;
+    }
+  }
+}
+
+/** Orders bundle jobs so upstream jobs of `after` schedules are applied first. */
+function orderByDependencies(jobs: CronBundleJob[]): CronBundleJob[] {
+  const byId = new Map(jobs.flatMap((job) => (job.id ? [[job.id, job] as const] : [])));
+  const ordered: CronBundleJob[] = [];
+  const visited = new Set<CronBundleJob>();
+  const visit = (job: CronBundleJob) => {
+    if (visited.has(job)) {
+      return;
+    }
+    visited.add(job);
+    const upstream = isCronAfterSchedule(job.schedule) ? byId.get(job.schedule.jobId) : undefined;
+    if (upstream) {
+      visit(upstream);
+    }
+    ordered.push(job);
+  };
+  jobs.forEach(visit);
+  return ordered;
+}
+
+/**
+ * Decides what importing `bundle` does to a gateway that already has
+ * `existing` jobs. Jobs conflict when they share an id or, failing that, a name.
+ */
+export function planCronBundleImport(params: {
+  bundle: CronBundle;
+  existing: CronJob[];
+  mode: CronImportConflictMode;
+}): CronImportAction[] {
+  const takenNames = new Set(params.existing.map((job) => job.name));
+  // Bundle ids that resolve to jobs already on the gateway, for diffing `after` links.
+  const knownIds = new Map<string, string>();
+  return orderByDependencies(params.bundle.jobs).map((job): CronImportAction => {
+    const conflict = findConflict(job, params.existing);
+    if (!conflict) {
+      takenNames.add(job.name);
+      return { kind: "create", job };
+    }
+    if (params.mode === "skip") {
+      if (job.id) {
+        knownIds.set(job.id, conflict.id);
+      }
+      return { kind: "skip", job, existingId: conflict.id };
+    }
+    if (params.mode === "rename") {
+      const name = uniqueName(job.name, takenNames);
+      takenNames.add(name);
+      return { kind: "rename", job, existingId: conflict.id, name };
+    }
+    if (job.id) {
+      knownIds.set(job.id, conflict.id);
+    }
+    const changes = diffCronJob(relinkCronBundleJob(job, knownIds), conflict);
+    return changes.length === 0
+      ? { kind: "unchanged", job, existingId: conflict.id }
+      : { kind: "overwrite", job, existingId: conflict.id, changes };
+  });
+}
+
+/**
+ * Rewrites `after` schedules that point at bundle ids to the ids the jobs got
+ * on the target gateway. Links to jobs outside the bundle are kept as-is.
+ */
+export function relinkCronBundleJob(
+  job: CronBundleJob,
+  idMap: ReadonlyMap<string, string>,
+): CronBundleJob {
+  if (!isCronAfterSchedule(job.schedule)) {
+    return job;
+  }
+  const mapped = idMap.get(job.schedule.jobId);
+  return mapped ? { ...job, schedule: { ...job.schedule, jobId: mapped } } : job;
+}
+
+export function toCronImportCreate(job: CronBundleJob, name?: string): CronJobCreate {
+  const { id: _id, ...create } = job;
+  return name ? { ...create, name } : create;
+}
+
+/**
+ * Full replacement patch: clears optional fields the bundle leaves out, so an
+ * overwritten job keeps nothing from its previous definition but its id and state.
+ */
+export function toCronImportPatch(job: CronBundleJob): Omit<
+  CronJobPatch,
+  "agentId" | "sessionKey"
+> & {
+  agentId: string | null;
+  sessionKey: string | null;
+  delivery: CronDeliveryPatch;
+} {
+  const { id: _id, ...create } = job;
+  const delivery = create.delivery;
+  return {
+    ...create,
+    description: create.description ?? "",
+    agentId: create.agentId ?? null,
+    sessionKey: create.sessionKey ?? null,
+    // Only one-shot jobs act on deleteAfterRun; reset it to the `cron.add` default.
+    ...(create.schedule.kind === "at" ? { deleteAfterRun: create.deleteAfterRun ?? true } : {}),
+    schedule: { ...create.schedule, exclude: create.schedule.exclude ?? {} },
+    delivery: {
+      ...delivery,
+      mode: delivery?.mode ?? "none",
+      channel: delivery?.channel ?? null,
+      to: delivery?.to ?? null,
+      bestEffort: delivery?.bestEffort ?? null,
+      when: delivery?.when ?? [],
+      targets: delivery?.targets ?? [],
+    },
+    retry: create.retry ?? null,
+  };
+}
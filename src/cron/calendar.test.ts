@@ -0,0 +1,108 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { describe, expect, it } from "vitest";
+import {
+  assertCronScheduleExclusions,
+  matchCronScheduleExclusion,
+  parseCronWeekday,
+} from "./calendar.js";
+
+const HOLIDAYS_ICS = [
+  "BEGIN:VCALENDAR",
+  "VERSION:2.0",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20250101",
+  "DTEND;VALUE=DATE:20250102",
+  "RRULE:FREQ=YEARLY",
+  "SUMMARY:New Year's Day",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;VALUE=DATE:20261224",
+  "DTEND;VALUE=DATE:20261227",
+  "SUMMARY:Winter\\, break",
+  "END:VEVENT",
+  "BEGIN:VEVENT",
+  "DTSTART;TZID=Europe/Berlin:20261105T140000",
+  "DTEND;TZID=Europe/Berlin:20261105T160000",
+  "SUMMARY:Maintenance",
+  "END:VEVENT",
+  "END:VCALENDAR",
+].join("\r\n");
+
+describe("cron calendar exclusions", () => {
+  it("parses weekday names and numbers", () => {
+    expect(parseCronWeekday("sat")).toBe(6);
+    expect(parseCronWeekday("Sunday")).toBe(0);
+    expect(parseCronWeekday("3")).toBe(3);
+    expect(parseCronWeekday(5)).toBe(5);
+    expect(parseCronWeekday("th")).toBeUndefined();
+    expect(parseCronWeekday(7)).toBeUndefined();
+  });
+
+  it("skips excluded weekdays in the schedule timezone", () => {
+    // 2026-10-17T23:30Z is still Saturday in UTC but already Sunday in Tokyo.
+    const atMs = Date.parse("2026-10-17T23:30:00Z");
+    expect(matchCronScheduleExclusion({ skipWeekdays: [6] }, atMs, "UTC")).toBe(
+      "skipped weekday Sat (2026-10-17)",
+    );
+    expect(matchCronScheduleExclusion({ skipWeekdays: [6] }, atMs, "Asia/Tokyo")).toBeNull();
+  });
+
+  it("matches date and timestamp blackout windows", () => {
+    const exclude = {
+      windows: [
+        { start: "2026-12-20", end: "2026-12-31", label: "freeze" },
+        { start: "2026-11-01T10:00:00Z", end: "2026-11-01T12:00:00Z" },
+      ],
+    };
+    expect(matchCronScheduleExclusion(exclude, Date.parse("2026-12-31T22:00:00Z"), "UTC")).toBe(
+      'blackout window "freeze" (2026-12-20..2026-12-31)',
+    );
+    expect(
+      matchCronScheduleExclusion(exclude, Date.parse("2026-11-01T11:00:00Z"), "UTC"),
+    ).toContain("blackout window 2026-11-01T10:00:00.000Z..");
+    expect(
+      matchCronScheduleExclusion(exclude, Date.parse("2026-11-01T12:30:00Z"), "UTC"),
+    ).toBeNull();
+  });
+
+  it("rejects malformed exclusions", () => {
+    expect(() => assertCronScheduleExclusions({ windows: [{ start: "soon" }] })).toThrow(
+      "invalid cron blackout window",
+    );
+    expect(() =>
+      assertCronScheduleExclusions({ windows: [{ start: "2026-02-02", end: "2026-02-01" }] }),
+    ).toThrow("ends before it starts");
+    expect(() => assertCronScheduleExclusions({ skipWeekdays: [7] })).toThrow("skipWeekdays");
+  });
+
+  it("reads holidays from an ICS calendar", async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-cron-calendar-"));
+    const icsPath = path.join(dir, "holidays.ics");
+    await fs.writeFile(icsPath, HOLIDAYS_ICS, "utf-8");
+    const exclude = { icsPath };
+    try {
+      // Yearly all-day events recur on the same date.
+      expect(matchCronScheduleExclusion(exclude, Date.parse("2027-01-01T09:00:00Z"), "UTC")).toBe(
+        'calendar holidays.ics: "New Year\'s Day" on 2027-01-01',
+      );
+      // DTEND is exclusive for all-day events.
+      expect(
+        matchCronScheduleExclusion(exclude, Date.parse("2026-12-26T09:00:00Z"), "UTC"),
+      ).toContain('"Winter, break"');
+      expect(
+        matchCronScheduleExclusion(exclude, Date.parse("2026-12-27T09:00:00Z"), "UTC"),
+      ).toBeNull();
+      // Timed events honour their TZID.
+      expect(
+        matchCronScheduleExclusion(exclude, Date.parse("2026-11-05T14:30:00Z"), "UTC"),
+      ).toContain('"Maintenance"');
+      expect(
+        matchCronScheduleExclusion(exclude, Date.parse("2026-11-05T15:30:00Z"), "UTC"),
+      ).toBeNull();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,329 @@
+import fs from "node:fs";
+import path from "node:path";
+import { resolveUserPath } from "../utils.js";
+import { parseAbsoluteTimeMs } from "./parse.js";
+import type { CronBlackoutWindow, CronScheduleExclusions } from "./types.js";
+
+const DATE_ONLY_RE = /^\d{4}-\d{2}-\d{2}$/;
+const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+const DAY_MS = 24 * 60 * 60_000;
+
+type ResolvedBlackout =
+  | { kind: "dates"; start: string; end: string; label?: string; yearly?: boolean }
+  | { kind: "instants"; startMs: number; endMs: number; label?: string };
+
+type WallClockFields = [
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+];
+
+type IcsCacheEntry = { mtimeMs: number; size: number; blackouts: ResolvedBlackout[] };
+
+const icsCache = new Map<string, IcsCacheEntry>();
+
+function formatParts(atMs: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    weekday: "short",
+  }).formatToParts(new Date(atMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value ?? "";
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+    weekday: WEEKDAY_LABELS.indexOf(get("weekday") as (typeof WEEKDAY_LABELS)[number]),
+  };
+}
+
+function pad2(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/** Calendar date (`YYYY-MM-DD`) and weekday (0 = Sunday) of `atMs` in `timeZone`. */
+export function resolveZonedDate(atMs: number, timeZone: string) {
+  const parts = formatParts(atMs, timeZone);
+  return {
+    date: `${parts.year}-${pad2(parts.month)}-${pad2(parts.day)}`,
+    weekday: parts.weekday,
+  };
+}
+
+function zonedTimeToUtcMs(fields: WallClockFields, timeZone: string): number {
+  const [year, month, day, hour, minute, second] = fields;
+  const wallClockMs = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetAt = (atMs: number) => {
+    const parts = formatParts(atMs, timeZone);
+    const asUtc = Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    );
+    return asUtc - Math.floor(atMs / 1000) * 1000;
+  };
+  const firstOffset = offsetAt(wallClockMs);
+  const candidate = wallClockMs - firstOffset;
+  const secondOffset = offsetAt(candidate);
+  return secondOffset === firstOffset ? candidate : wallClockMs - secondOffset;
+}
+
+function shiftDate(date: string, days: number): string {
+  const [year, month, day] = date.split("-").map(Number);
+  const shifted = new Date(Date.UTC(year, month - 1, day) + days * DAY_MS);
+  return shifted.toISOString().slice(0, 10);
+}
+
+function resolveWindow(window: CronBlackoutWindow): ResolvedBlackout {
+  const start = typeof window.start === "string" ? window.start.trim() : "";
+  const end = typeof window.end === "string" ? window.end.trim() : "";
+  const label = window.label?.trim() || undefined;
+  if (DATE_ONLY_RE.test(start) && (!end || DATE_ONLY_RE.test(end))) {
+    const resolvedEnd = end || start;
+    if (resolvedEnd < start) {
+      throw new Error(`cron blackout window ends before it starts: ${start}..${end}`);
+    }
+    return { kind: "dates", start, end: resolvedEnd, label };
+  }
+  const startMs = parseAbsoluteTimeMs(start);
+  const endMs = end ? parseAbsoluteTimeMs(end) : null;
+  if (startMs === null || endMs === null) {
+    throw new Error(
+      `invalid cron blackout window: ${start || "(missing start)"}..${end || "(missing end)"}` +
+        " (use YYYY-MM-DD dates, or ISO timestamps for both start and end)",
+    );
+  }
+  if (endMs < startMs) {
+    throw new Error(`cron blackout window ends before it starts: ${start}..${end}`);
+  }
+  return { kind: "instants", startMs, endMs, label };
+}
+
+function unfoldIcsLines(text: string): string[] {
+  const lines: string[] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    if ((raw.startsWith(" ") || raw.startsWith("\t")) && lines.length > 0) {
+      lines[lines.length - 1] += raw.slice(1);
+    } else if (raw.trim()) {
+      lines.push(raw);
+    }
+  }
+  return lines;
+}
+
+function parseIcsProperty(line: string) {
+  const colon = line.indexOf(":");
+  if (colon < 0) {
+    return null;
+  }
+  const [name = "", ...rawParams] = line.slice(0, colon).split(";");
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const eq = param.indexOf("=");
+    if (eq > 0) {
+      params[param.slice(0, eq).toUpperCase()] = param.slice(eq + 1).replace(/^"|"$/g, "");
+    }
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1).trim() };
+}
+
+type IcsTime = { date: string } | { ms: number };
+
+function parseIcsTime(value: string, params: Record<string, string>): IcsTime | null {
+  const dateOnly = /^(\d{4})(\d{2})(\d{2})$/.exec(value);
+  if (dateOnly) {
+    return { date: `${dateOnly[1]}-${dateOnly[2]}-${dateOnly[3]}` };
+  }
+  const dateTime = /^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})(Z?)$/.exec(value);
+  if (!dateTime) {
+    return null;
+  }
+  const fields = dateTime.slice(1, 7).map(Number) as WallClockFields;
+  if (dateTime[7] === "Z") {
+    return { ms: Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]) };
+  }
+  const timeZone = params.TZID || Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return { ms: zonedTimeToUtcMs(fields, timeZone) };
+}
+
+/**
+ * Extracts blackout periods from VEVENTs. All-day events (including yearly
+ * recurring ones, as used by most holiday calendars) cover whole days; timed
+ * events cover their exact span.
+ */
+function parseIcsBlackouts(text: string): ResolvedBlackout[] {
+  const blackouts: ResolvedBlackout[] = [];
+  let event: Record<string, { params: Record<string, string>; value: string }> | null = null;
+  for (const line of unfoldIcsLines(text)) {
+    const prop = parseIcsProperty(line);
+    if (!prop) {
+      continue;
+    }
+    if (prop.name === "BEGIN" && prop.value.toUpperCase() === "VEVENT") {
+      event = {};
+      continue;
+    }
+    if (prop.name === "END" && prop.value.toUpperCase() === "VEVENT") {
+      const blackout = event ? resolveIcsEvent(event) : null;
+      if (blackout) {
+        blackouts.push(blackout);
+      }
+      event = null;
+      continue;
+    }
+    if (event && !(prop.name in event)) {
+      event[prop.name] = { params: prop.params, value: prop.value };
+    }
+  }
+  return blackouts;
+}
+
+function resolveIcsEvent(
+  event: Record<string, { params: Record<string, string>; value: string }>,
+): ResolvedBlackout | null {
+  const dtStart = event.DTSTART;
+  if (!dtStart) {
+    return null;
+  }
+  const start = parseIcsTime(dtStart.value, dtStart.params);
+  if (!start) {
+    return null;
+  }
+  const end = event.DTEND ? parseIcsTime(event.DTEND.value, event.DTEND.params) : null;
+  const label = event.SUMMARY?.value.replace(/\\([,;\\])/g, "$1").replace(/\\n/gi, " ");
+  if ("date" in start) {
+    // DTEND is exclusive for all-day events.
+    const endDate = end && "date" in end ? shiftDate(end.date, -1) : start.date;
+    const yearly = /(?:^|;)FREQ=YEARLY(?:;|$)/i.test(event.RRULE?.value ?? "");
+    return {
+      kind: "dates",
+      start: start.date,
+      end: endDate < start.date ? start.date : endDate,
+      label,
+      yearly,
+    };
+  }
+  const endMs = end && "ms" in end ? end.ms : start.ms;
+  return { kind: "instants", startMs: start.ms, endMs: Math.max(start.ms, endMs), label };
+}
+
+function loadIcsBlackouts(icsPath: string): ResolvedBlackout[] {
+  const resolved = resolveUserPath(icsPath);
+  const stat = fs.statSync(resolved);
+  const cached = icsCache.get(resolved);
+  if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) {
+    return cached.blackouts;
+  }
+  const blackouts = parseIcsBlackouts(fs.readFileSync(resolved, "utf-8"));
+  icsCache.set(resolved, { mtimeMs: stat.mtimeMs, size: stat.size, blackouts });
+  return blackouts;
+}
+
+function matchesBlackout(blackout: ResolvedBlackout, atMs: number, date: string): boolean {
+  if (blackout.kind === "instants") {
+    return atMs >= blackout.startMs && atMs <= blackout.endMs;
+  }
+  if (!blackout.yearly) {
+    return date >= blackout.start && date <= blackout.end;
+  }
+  if (date < blackout.start) {
+    return false;
+  }
+  // Re-anchor yearly events on the candidate year (spans crossing New Year are rare for holidays).
+  const year = date.slice(0, 4);
+  const start = `${year}${blackout.start.slice(4)}`;
+  const end = `${year}${blackout.end.slice(4)}`;
+  return end >= start ? date >= start && date <= end : date >= start || date <= end;
+}
+
+function describeBlackout(blackout: ResolvedBlackout): string {
+  if (blackout.kind === "dates") {
+    const span =
+      blackout.start === blackout.end ? blackout.start : `${blackout.start}..${blackout.end}`;
+    return blackout.label ? `"${blackout.label}" (${span})` : span;
+  }
+  const span = `${new Date(blackout.startMs).toISOString()}..${new Date(blackout.endMs).toISOString()}`;
+  return blackout.label ? `"${blackout.label}" (${span})` : span;
+}
+
+/** Parses a weekday given as 0-6 (0 = Sunday) or a name such as `sat` / `Saturday`. */
+export function parseCronWeekday(value: unknown): number | undefined {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 && value <= 6 ? value : undefined;
+  }
+  if (typeof value !== "string") {
+    return undefined;
+  }
+  const trimmed = value.trim().toLowerCase();
+  if (/^[0-6]$/.test(trimmed)) {
+    return Number(trimmed);
+  }
+  if (trimmed.length < 3) {
+    return undefined;
+  }
+  const index = WEEKDAY_LABELS.findIndex((label) => trimmed.startsWith(label.toLowerCase()));
+  return index >= 0 ? index : undefined;
+}
+
+/** Throws when exclusions are malformed; the ICS file itself is read lazily. */
+export function assertCronScheduleExclusions(exclude: CronScheduleExclusions) {
+  for (const window of exclude.windows ?? []) {
+    resolveWindow(window);
+  }
+  for (const weekday of exclude.skipWeekdays ?? []) {
+    if (!Number.isInteger(weekday) || weekday < 0 || weekday > 6) {
+      throw new Error("cron skipWeekdays entries must be integers from 0 (Sunday) to 6 (Saturday)");
+    }
+  }
+  if (exclude.icsPath !== undefined && !exclude.icsPath.trim()) {
+    throw new Error("cron exclude.icsPath must not be empty");
+  }
+}
+
+/**
+ * Returns a human-readable skip reason when `atMs` falls inside one of the
+ * exclusions, or null when the run may proceed. Throws if the ICS file cannot
+ * be read.
+ */
+export function matchCronScheduleExclusion(
+  exclude: CronScheduleExclusions,
+  atMs: number,
+  timeZone: string,
+): string | null {
+  const { date, weekday } = resolveZonedDate(atMs, timeZone);
+  if (exclude.skipWeekdays?.includes(weekday)) {
+    return `skipped weekday ${WEEKDAY_LABELS[weekday]} (${date})`;
+  }
+  for (const window of exclude.windows ?? []) {
+    const blackout = resolveWindow(window);
+    if (matchesBlackout(blackout, atMs, date)) {
+      return `blackout window ${describeBlackout(blackout)}`;
+    }
+  }
+  if (exclude.icsPath) {
+    for (const blackout of loadIcsBlackouts(exclude.icsPath)) {
+      if (matchesBlackout(blackout, atMs, date)) {
+        const source = path.basename(exclude.icsPath);
+        const label = blackout.label ? `"${blackout.label}"` : "calendar event";
+        return `calendar ${source}: ${label} on ${date}`;
+      }
+    }
+  }
+  return null;
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertCronDeliveryConditions,
+  evaluateCronDeliveryConditions,
+  hashCronSummary,
+} from "./delivery-conditions.js";
+
+describe("cron delivery conditions", () => {
+  it("matches regex conditions, including negated ones", () => {
+    const conditions = [
+      { kind: "regex" as const, pattern: "status: (down|degraded)", flags: "i" },
+      { kind: "regex" as const, pattern: "maintenance", negate: true },
+    ];
+    expect(
+      evaluateCronDeliveryConditions({ conditions, text: "API Status: DOWN since 09:00" }),
+    ).toBeNull();
+    expect(evaluateCronDeliveryConditions({ conditions, text: "status: ok" })).toBe(
+      "output does not match /status: (down|degraded)/i",
+    );
+    expect(evaluateCronDeliveryConditions({ conditions, text: "status: down (maintenance)" })).toBe(
+      "output matches /maintenance/",
+    );
+  });
+
+  it("reads JSON paths from plain or fenced JSON output", () => {
+    const fenced = 'Report:\n```json\n{"alerts":[{"level":"high"}],"ok":false}\n```';
+    expect(
+      evaluateCronDeliveryConditions({
+        conditions: [{ kind: "jsonPath", path: "$.alerts[0].level", equals: "high" }],
+        text: fenced,
+      }),
+    ).toBeNull();
+    expect(
+      evaluateCronDeliveryConditions({
+        conditions: [{ kind: "jsonPath", path: "alerts" }],
+        text: '{"alerts":[]}',
+      }),
+    ).toBe("alerts is []");
+    expect(
+      evaluateCronDeliveryConditions({
+        conditions: [{ kind: "jsonPath", path: "ok", equals: true }],
+        text: "all good",
+      }),
+    ).toBe("output is not JSON (needed for ok)");
+  });
+
+  it("suppresses unchanged summaries", () => {
+    const previousSummaryHash = hashCronSummary("3 open incidents");
+    const conditions = [{ kind: "changed" as const }];
+    expect(
+      evaluateCronDeliveryConditions({
+        conditions,
+        text: "full output",
+        summary: " 3 open incidents ",
+        previousSummaryHash,
+      }),
+    ).toBe("output unchanged since last run");
+    expect(
+      evaluateCronDeliveryConditions({
+        conditions,
+        text: "full output",
+        summary: "2 open incidents",
+        previousSummaryHash,
+      }),
+    ).toBeNull();
+    // Only the summary is hashed, matching what the service stores after a run.
+    expect(
+      evaluateCronDeliveryConditions({
+        conditions,
+        text: "3 open incidents",
+        previousSummaryHash,
+      }),
+    ).toBeNull();
+    // The first run has nothing to compare against.
+    expect(evaluateCronDeliveryConditions({ conditions, text: "x", summary: "x" })).toBeNull();
+  });
+
+  it("rejects invalid conditions", () => {
+    expect(() => assertCronDeliveryConditions([{ kind: "regex", pattern: "(" }])).toThrow(
+      "invalid cron delivery regex",
+    );
+    expect(() =>
+      assertCronDeliveryConditions([{ kind: "jsonPath", path: "__proto__.polluted" }]),
+    ).toThrow("invalid cron delivery jsonPath");
+  });
+});
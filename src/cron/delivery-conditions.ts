@@ -0,0 +1,139 @@
+import crypto from "node:crypto";
+import type { CronDeliveryCondition } from "./types.js";
+
+const JSON_FENCE_RE = /```(?:json)?\s*\n([\s\S]*?)\n?```/i;
+const BLOCKED_PATH_KEYS = new Set(["__proto__", "prototype", "constructor"]);
+
+export function hashCronSummary(summary: string | undefined): string | undefined {
+  const text = summary?.trim();
+  if (!text) {
+    return undefined;
+  }
+  return crypto.createHash("sha256").update(text).digest("hex").slice(0, 16);
+}
+
+function parsePathSegments(pathExpr: string): Array<string | number> | null {
+  const trimmed = pathExpr.trim().replace(/^\$\.?/, "");
+  const parts: Array<string | number> = [];
+  const re = /([^.[\]]+)|(\[(\d+)\])/g;
+  let match = re.exec(trimmed);
+  while (match) {
+    if (match[1]) {
+      if (BLOCKED_PATH_KEYS.has(match[1])) {
+        return null;
+      }
+      parts.push(match[1]);
+    } else if (match[3]) {
+      parts.push(Number(match[3]));
+    }
+    match = re.exec(trimmed);
+  }
+  return parts;
+}
+
+function readJsonPath(input: unknown, pathExpr: string): unknown {
+  let current = input;
+  for (const part of parsePathSegments(pathExpr) ?? []) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    if (typeof part === "number") {
+      current = Array.isArray(current) ? (current[part] as unknown) : undefined;
+      continue;
+    }
+    current = (current as Record<string, unknown>)[part];
+  }
+  return current;
+}
+
+/** Reads JSON from the whole output or from its first fenced code block. */
+function parseStructuredOutput(text: string): { ok: true; value: unknown } | { ok: false } {
+  const candidates = [text.trim(), JSON_FENCE_RE.exec(text)?.[1]?.trim()];
+  for (const candidate of candidates) {
+    if (!candidate) {
+      continue;
+    }
+    try {
+      return { ok: true, value: JSON.parse(candidate) };
+    } catch {
+      // Try the next candidate.
+    }
+  }
+  return { ok: false };
+}
+
+function isTruthyValue(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return Boolean(value);
+}
+
+export function assertCronDeliveryConditions(conditions: CronDeliveryCondition[]) {
+  for (const condition of conditions) {
+    if (condition.kind === "regex") {
+      try {
+        new RegExp(condition.pattern, condition.flags);
+      } catch (err) {
+        throw new Error(`invalid cron delivery regex /${condition.pattern}/: ${String(err)}`, {
+          cause: err,
+        });
+      }
+    } else if (condition.kind === "jsonPath") {
+      const segments = parsePathSegments(condition.path);
+      if (!segments || segments.length === 0) {
+        throw new Error(`invalid cron delivery jsonPath: ${condition.path}`);
+      }
+    } else if (condition.kind !== "changed") {
+      throw new Error(
+        `unknown cron delivery condition: ${String((condition as { kind?: unknown }).kind)}`,
+      );
+    }
+  }
+}
+
+/**
+ * Checks `delivery.when` against a finished run. Returns the reason delivery
+ * should be suppressed, or `null` when every condition passes.
+ */
+export function evaluateCronDeliveryConditions(params: {
+  conditions: CronDeliveryCondition[] | undefined;
+  text: string | undefined;
+  summary?: string;
+  previousSummaryHash?: string;
+}): string | null {
+  const text = params.text ?? "";
+  for (const condition of params.conditions ?? []) {
+    if (condition.kind === "regex") {
+      const matched = new RegExp(condition.pattern, condition.flags).test(text);
+      if (matched === Boolean(condition.negate)) {
+        return `output ${matched ? "matches" : "does not match"} /${condition.pattern}/${
+          condition.flags ?? ""
+        }`;
+      }
+      continue;
+    }
+    if (condition.kind === "jsonPath") {
+      const parsed = parseStructuredOutput(text);
+      if (!parsed.ok) {
+        return `output is not JSON (needed for ${condition.path})`;
+      }
+      const value = readJsonPath(parsed.value, condition.path);
+      const passed = "equals" in condition ? value === condition.equals : isTruthyValue(value);
+      if (passed === Boolean(condition.negate)) {
+        return `${condition.path} is ${JSON.stringify(value) ?? "missing"}${
+          "equals" in condition
+            ? ` (${condition.negate ? "must not be" : "expected"} ${JSON.stringify(condition.equals)})`
+            : ""
+        }`;
+      }
+      continue;
+    }
+    // Same value the service stores as `lastSummaryHash` after a successful run.
+    const hash = hashCronSummary(params.summary);
+    if (hash && hash === params.previousSummaryHash) {
+      return "output unchanged since last run";
+    }
+  }
+  return null;
+}
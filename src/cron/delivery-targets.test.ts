@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertCronDeliveryTargets,
+  formatCronDeliveryTargetPayloads,
+  resolveCronDeliveryTargetId,
+  resolveCronDeliveryTargets,
+} from "./delivery-targets.js";
+
+describe("cron delivery targets", () => {
+  it("derives target ids and only fans out announce delivery", () => {
+    expect(resolveCronDeliveryTargetId({ channel: "slack", to: "channel:C1" })).toBe(
+      "slack:channel:C1",
+    );
+    expect(resolveCronDeliveryTargetId({ kind: "webhook", to: "https://example.invalid/x" })).toBe(
+      "https://example.invalid/x",
+    );
+    expect(resolveCronDeliveryTargetId({ id: " ops ", channel: "telegram" })).toBe("ops");
+    expect(resolveCronDeliveryTargetId({})).toBe("last");
+
+    const targets = [{ channel: "slack" as const, to: "channel:C1" }];
+    expect(resolveCronDeliveryTargets({ mode: "announce", targets })).toBe(targets);
+    expect(resolveCronDeliveryTargets({ mode: "none", targets })).toEqual([]);
+    expect(resolveCronDeliveryTargets(undefined)).toEqual([]);
+  });
+
+  it("rejects invalid webhook targets and duplicate ids", () => {
+    expect(() => assertCronDeliveryTargets([{ kind: "webhook", to: "ftp://x" }])).toThrow(
+      "valid http(s) URL",
+    );
+    expect(() =>
+      assertCronDeliveryTargets([
+        { channel: "slack", to: "channel:C1" },
+        { channel: "slack", to: "channel:C1", format: "summary" },
+      ]),
+    ).toThrow("duplicate cron delivery target: slack:channel:C1");
+    expect(() =>
+      assertCronDeliveryTargets([
+        { channel: "slack", to: "channel:C1" },
+        { id: "short", channel: "slack", to: "channel:C1", format: "summary" },
+      ]),
+    ).not.toThrow();
+  });
+
+  it("applies per-target format and prefix", () => {
+    const output = {
+      payloads: [{ text: "Full report" }, { mediaUrl: "https://example.invalid/chart.png" }],
+      text: "Full report",
+      summary: "All green",
+    };
+    expect(formatCronDeliveryTargetPayloads({ channel: "slack" }, output)).toBe(output.payloads);
+    expect(
+      formatCronDeliveryTargetPayloads({ format: "summary", prefix: "[ops]" }, output),
+    ).toEqual([{ text: "[ops]\nAll green" }]);
+    expect(formatCronDeliveryTargetPayloads({ prefix: "Daily" }, output)).toEqual([
+      { text: "Daily\nFull report" },
+      { mediaUrl: "https://example.invalid/chart.png" },
+    ]);
+    expect(
+      formatCronDeliveryTargetPayloads({ format: "summary" }, { payloads: [], text: " " }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import type { ReplyPayload } from "../auto-reply/types.js";
+import type { CronDelivery, CronDeliveryTarget } from "./types.js";
+import { normalizeHttpWebhookUrl } from "./webhook-url.js";
+
+export function resolveCronDeliveryTargetKind(
+  target: CronDeliveryTarget,
+): NonNullable<CronDeliveryTarget["kind"]> {
+  return target.kind ?? "channel";
+}
+
+export function resolveCronDeliveryTargetId(target: CronDeliveryTarget): string {
+  const id = target.id?.trim();
+  if (id) {
+    return id;
+  }
+  if (resolveCronDeliveryTargetKind(target) === "webhook") {
+    return target.to?.trim() ?? "webhook";
+  }
+  const channel = target.channel ?? "last";
+  return target.to ? `${channel}:${target.to}` : channel;
+}
+
+/** Fan-out targets of an announce delivery, or an empty list for single-target delivery. */
+export function resolveCronDeliveryTargets(
+  delivery: CronDelivery | undefined,
+): CronDeliveryTarget[] {
+  if (!delivery || delivery.mode !== "announce" || !Array.isArray(delivery.targets)) {
+    return [];
+  }
+  return delivery.targets;
+}
+
+export function assertCronDeliveryTargets(targets: CronDeliveryTarget[]) {
+  const seen = new Set<string>();
+  for (const target of targets) {
+    const kind = resolveCronDeliveryTargetKind(target);
+    if (kind !== "channel" && kind !== "webhook") {
+      throw new Error(`unknown cron delivery target kind: ${String(kind)}`);
+    }
+    if (kind === "webhook" && !normalizeHttpWebhookUrl(target.to)) {
+      throw new Error("cron webhook delivery targets require `to` to be a valid http(s) URL");
+    }
+    const id = resolveCronDeliveryTargetId(target);
+    if (seen.has(id)) {
+      throw new Error(`duplicate cron delivery target: ${id} (set a distinct id)`);
+    }
+    seen.add(id);
+  }
+}
+
+/**
+ * Applies a target's `format` and `prefix` to the run output. `summary` swaps
+ * the reply for the short run summary; media-only payloads are kept as-is.
+ */
+export function formatCronDeliveryTargetPayloads(
+  target: CronDeliveryTarget,
+  output: { payloads: ReplyPayload[]; text?: string; summary?: string },
+): ReplyPayload[] {
+  const prefix = target.prefix?.trim();
+  const withPrefix = (text: string) => (prefix ? `${prefix}\n${text}` : text);
+  if (target.format === "summary") {
+    const summary = output.summary?.trim() || output.text?.trim();
+    return summary ? [{ text: withPrefix(summary) }] : [];
+  }
+  const payloads =
+    output.payloads.length > 0 ? output.payloads : output.text ? [{ text: output.text }] : [];
+  if (!prefix || payloads.length === 0) {
+    return payloads;
+  }
+  const [first, ...rest] = payloads;
+  return [{ ...first, text: withPrefix(first.text ?? "") }, ...rest];
+}
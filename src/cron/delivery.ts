@@ -1,10 +1,16 @@
-import type { CronDeliveryMode, CronJob, CronMessageChannel } from "./types.js";
+import { resolveCronDeliveryTargetKind, resolveCronDeliveryTargets } from "./delivery-targets.js";
+import type {
+  CronDeadLetterTarget,
+  CronDeliveryMode,
+  CronJob,
+  CronMessageChannel,
+} from "./types.js";
 
 export type CronDeliveryPlan = {
   mode: CronDeliveryMode;
   channel?: CronMessageChannel;
   to?: string;
-  source: "delivery" | "payload";
+  source: "delivery" | "payload" | "dead-letter";
   requested: boolean;
 };
 
@@ -46,10 +52,21 @@ export function resolveCronDeliveryPlan(job: CronJob): CronDeliveryPlan {
 
   const payloadChannel = normalizeChannel(payload?.channel);
   const payloadTo = normalizeTo(payload?.to);
+  // With fan-out targets the first channel target stands in for the
+  // top-level channel/to, which are ignored.
+  const primaryTarget = hasDelivery
+    ? resolveCronDeliveryTargets(delivery).find(
+        (target) => resolveCronDeliveryTargetKind(target) === "channel",
+      )
+    : undefined;
   const deliveryChannel = normalizeChannel(
-    (delivery as { channel?: unknown } | undefined)?.channel,
+    primaryTarget
+      ? primaryTarget.channel
+      : (delivery as { channel?: unknown } | undefined)?.channel,
+  );
+  const deliveryTo = normalizeTo(
+    primaryTarget ? primaryTarget.to : (delivery as { to?: unknown } | undefined)?.to,
   );
-  const deliveryTo = normalizeTo((delivery as { to?: unknown } | undefined)?.to);
 
   const channel = deliveryChannel ?? payloadChannel ?? "last";
   const to = deliveryTo ?? payloadTo;
@@ -77,3 +94,24 @@ export function resolveCronDeliveryPlan(job: CronJob): CronDeliveryPlan {
     requested,
   };
 }
+
+/**
+ * Resolves where an exhausted failure is announced: the job's own
+ * `retry.deadLetter` wins over the global `cron.deadLetter` fallback.
+ */
+export function resolveCronDeadLetterPlan(
+  job: CronJob,
+  fallback?: CronDeadLetterTarget,
+): CronDeliveryPlan | null {
+  const target = job.retry?.deadLetter ?? fallback;
+  if (!target || typeof target !== "object") {
+    return null;
+  }
+  return {
+    mode: "announce",
+    channel: normalizeChannel(target.channel) ?? "last",
+    to: normalizeTo(target.to),
+    source: "dead-letter",
+    requested: true,
+  };
+}
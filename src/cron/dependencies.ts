@@ -0,0 +1,117 @@
+import { truncateUtf16Safe } from "../utils.js";
+import type {
+  CronDependencyCondition,
+  CronJob,
+  CronRunStatus,
+  CronSchedule,
+  CronUpstreamTrigger,
+} from "./types.js";
+
+type CronAfterSchedule = Extract<CronSchedule, { kind: "after" }>;
+type CronDependencyNode = Pick<CronJob, "id" | "schedule">;
+
+const MAX_UPSTREAM_SUMMARY_CHARS = 4_000;
+
+export function isCronAfterSchedule(schedule: CronSchedule): schedule is CronAfterSchedule {
+  return schedule.kind === "after";
+}
+
+export function resolveCronDependencyCondition(
+  schedule: CronAfterSchedule,
+): CronDependencyCondition {
+  return schedule.on ?? "ok";
+}
+
+export function matchesCronDependencyCondition(
+  condition: CronDependencyCondition,
+  status: CronRunStatus,
+): boolean {
+  if (status === "skipped") {
+    return false;
+  }
+  return condition === "always" || condition === status;
+}
+
+function resolveUpstreamId(job: CronDependencyNode): string | undefined {
+  return isCronAfterSchedule(job.schedule) ? job.schedule.jobId : undefined;
+}
+
+/**
+ * Walks upstream from `jobId` and returns the offending id path when the
+ * dependency graph loops back on itself, e.g. `["a", "b", "a"]`.
+ */
+export function findCronDependencyCycle(
+  jobs: readonly CronDependencyNode[],
+  jobId: string,
+): string[] | null {
+  const byId = new Map(jobs.map((job) => [job.id, job]));
+  const path: string[] = [];
+  const seen = new Set<string>();
+  let cursor: string | undefined = jobId;
+  while (cursor) {
+    if (seen.has(cursor)) {
+      return [...path.slice(path.indexOf(cursor)), cursor];
+    }
+    seen.add(cursor);
+    path.push(cursor);
+    const node = byId.get(cursor);
+    cursor = node ? resolveUpstreamId(node) : undefined;
+  }
+  return null;
+}
+
+/** Returns the upstream chain for a job, root first, excluding the job itself. */
+export function resolveCronUpstreamChain<T extends CronDependencyNode>(
+  jobs: readonly T[],
+  job: T,
+): T[] {
+  const byId = new Map(jobs.map((entry) => [entry.id, entry]));
+  const chain: T[] = [];
+  const seen = new Set<string>([job.id]);
+  let upstreamId = resolveUpstreamId(job);
+  while (upstreamId && !seen.has(upstreamId)) {
+    const upstream = byId.get(upstreamId);
+    if (!upstream) {
+      break;
+    }
+    seen.add(upstreamId);
+    chain.unshift(upstream);
+    upstreamId = resolveUpstreamId(upstream);
+  }
+  return chain;
+}
+
+export function listCronDependents<T extends CronDependencyNode>(
+  jobs: readonly T[],
+  jobId: string,
+): T[] {
+  return jobs.filter((job) => job.id !== jobId && resolveUpstreamId(job) === jobId);
+}
+
+/**
+ * Appends the upstream run's outcome to a dependent agentTurn message so the
+ * downstream agent can build on the previous step's output.
+ */
+export function buildCronDependentMessage(
+  message: string,
+  trigger: CronUpstreamTrigger | undefined,
+): string {
+  if (!trigger) {
+    return message;
+  }
+  const label = trigger.jobName ? `"${trigger.jobName}" (${trigger.jobId})` : trigger.jobId;
+  const summary = trigger.summary?.trim();
+  const lines = [
+    message,
+    "",
+    `Upstream cron job ${label} finished with status: ${trigger.status}.`,
+  ];
+  if (summary) {
+    const clipped =
+      summary.length > MAX_UPSTREAM_SUMMARY_CHARS
+        ? `${truncateUtf16Safe(summary, MAX_UPSTREAM_SUMMARY_CHARS)}…`
+        : summary;
+    lines.push("Upstream output:", clipped);
+  }
+  return lines.join("\n");
+}
@@ -8,8 +8,11 @@ import { resolveAgentMainSessionKey } from "../../config/sessions.js";
 import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
 import { resolveAgentOutboundIdentity } from "../../infra/outbound/identity.js";
 import { resolveOutboundSessionRoute } from "../../infra/outbound/outbound-session.js";
-import { logWarn } from "../../logger.js";
-import type { CronJob, CronRunTelemetry } from "../types.js";
+import { logDebug, logWarn } from "../../logger.js";
+import { evaluateCronDeliveryConditions } from "../delivery-conditions.js";
+import { resolveCronDeliveryTargets } from "../delivery-targets.js";
+import type { CronDeliveryTarget, CronJob, CronRunTelemetry } from "../types.js";
+import { deliverCronFanOut } from "./delivery-fanout.js";
 import type { DeliveryTargetResolution } from "./delivery-target.js";
 import { pickSummaryFromOutput } from "./helpers.js";
 import type { RunCronAgentTurnResult } from "./run.js";
@@ -144,6 +147,28 @@ export async function dispatchCronDelivery(
       ...params.telemetry,
     });
 
+  // `delivery.when` is checked against the final output (after subagent
+  // follow-ups are folded in), right before anything is sent.
+  const suppressByConditions = (): RunCronAgentTurnResult | null => {
+    const reason = evaluateCronDeliveryConditions({
+      conditions: params.job.delivery?.when,
+      text: synthesizedText ?? outputText,
+      summary,
+      previousSummaryHash: params.job.state?.lastSummaryHash,
+    });
+    if (!reason) {
+      return null;
+    }
+    logDebug(`[cron:${params.job.id}] delivery suppressed: ${reason}`);
+    return params.withRunSession({
+      status: "ok",
+      summary,
+      outputText,
+      deliverySkipReason: reason,
+      ...params.telemetry,
+    });
+  };
+
   const deliverViaDirect = async (
     delivery: SuccessfulDeliveryTarget,
   ): Promise<RunCronAgentTurnResult | null> => {
@@ -158,6 +183,10 @@ export async function dispatchCronDelivery(
       if (payloadsForDelivery.length === 0) {
         return null;
       }
+      const suppressed = suppressByConditions();
+      if (suppressed) {
+        return suppressed;
+      }
       if (params.isAborted()) {
         return params.withRunSession({
           status: "error",
@@ -194,32 +223,12 @@ export async function dispatchCronDelivery(
     }
   };
 
-  const deliverViaAnnounce = async (
-    delivery: SuccessfulDeliveryTarget,
+  // Waits for subagent follow-ups so only the final synthesized reply goes
+  // out. Returns a result when nothing should be sent.
+  const settleSynthesizedText = async (
+    initialText: string,
   ): Promise<RunCronAgentTurnResult | null> => {
-    if (!synthesizedText) {
-      return null;
-    }
-    const announceMainSessionKey = resolveAgentMainSessionKey({
-      cfg: params.cfg,
-      agentId: params.agentId,
-    });
-    const announceSessionKey = await resolveCronAnnounceSessionKey({
-      cfg: params.cfgWithAgentDefaults,
-      agentId: params.agentId,
-      fallbackSessionKey: announceMainSessionKey,
-      delivery: {
-        channel: delivery.channel,
-        to: delivery.to,
-        accountId: delivery.accountId,
-        threadId: delivery.threadId,
-      },
-    });
-    const taskLabel =
-      typeof params.job.name === "string" && params.job.name.trim()
-        ? params.job.name.trim()
-        : `cron:${params.job.id}`;
-    const initialSynthesizedText = synthesizedText.trim();
+    const initialSynthesizedText = initialText.trim();
     let activeSubagentRuns = countActiveDescendantRuns(params.agentSessionKey);
     const expectedSubagentFollowup = expectsSubagentFollowup(initialSynthesizedText);
     const hadActiveDescendants = activeSubagentRuns > 0;
@@ -255,7 +264,7 @@ export async function dispatchCronDelivery(
     }
     if (
       (hadActiveDescendants || expectedSubagentFollowup) &&
-      synthesizedText.trim() === initialSynthesizedText &&
+      synthesizedText?.trim() === initialSynthesizedText &&
       isLikelyInterimCronMessage(initialSynthesizedText) &&
       initialSynthesizedText.toUpperCase() !== SILENT_REPLY_TOKEN.toUpperCase()
     ) {
@@ -263,7 +272,7 @@ export async function dispatchCronDelivery(
       // suppress stale parent text like "on it, pulling everything together".
       return params.withRunSession({ status: "ok", summary, outputText, ...params.telemetry });
     }
-    if (synthesizedText.toUpperCase() === SILENT_REPLY_TOKEN.toUpperCase()) {
+    if (synthesizedText?.toUpperCase() === SILENT_REPLY_TOKEN.toUpperCase()) {
       return params.withRunSession({
         status: "ok",
         summary,
@@ -272,6 +281,92 @@ export async function dispatchCronDelivery(
         ...params.telemetry,
       });
     }
+    const suppressed = suppressByConditions();
+    if (suppressed) {
+      return suppressed;
+    }
+    return null;
+  };
+
+  // Fan-out sends straight to each target: the main-session announce flow
+  // can only route a reply to one requester.
+  const deliverViaFanOut = async (
+    targets: CronDeliveryTarget[],
+  ): Promise<RunCronAgentTurnResult | null> => {
+    if (synthesizedText) {
+      const settled = await settleSynthesizedText(synthesizedText);
+      if (settled) {
+        return settled;
+      }
+    } else if (deliveryPayloads.length === 0) {
+      return null;
+    } else {
+      const suppressed = suppressByConditions();
+      if (suppressed) {
+        return suppressed;
+      }
+    }
+    if (params.isAborted()) {
+      return params.withRunSession({
+        status: "error",
+        error: params.abortReason(),
+        ...params.telemetry,
+      });
+    }
+    const fanOut = await deliverCronFanOut({
+      cfg: params.cfg,
+      cfgWithAgentDefaults: params.cfgWithAgentDefaults,
+      deps: params.deps,
+      job: params.job,
+      agentId: params.agentId,
+      targets,
+      payloads: deliveryPayloads,
+      text: synthesizedText,
+      summary,
+      bestEffort: params.deliveryBestEffort,
+      abortSignal: params.abortSignal,
+    });
+    delivered = fanOut.delivered;
+    return params.withRunSession({
+      status: fanOut.error ? "error" : "ok",
+      summary,
+      outputText,
+      ...(fanOut.error ? { error: fanOut.error } : {}),
+      delivered,
+      deliveryTargets: fanOut.outcomes,
+      ...params.telemetry,
+    });
+  };
+
+  const deliverViaAnnounce = async (
+    delivery: SuccessfulDeliveryTarget,
+  ): Promise<RunCronAgentTurnResult | null> => {
+    if (!synthesizedText) {
+      return null;
+    }
+    const announceMainSessionKey = resolveAgentMainSessionKey({
+      cfg: params.cfg,
+      agentId: params.agentId,
+    });
+    const announceSessionKey = await resolveCronAnnounceSessionKey({
+      cfg: params.cfgWithAgentDefaults,
+      agentId: params.agentId,
+      fallbackSessionKey: announceMainSessionKey,
+      delivery: {
+        channel: delivery.channel,
+        to: delivery.to,
+        accountId: delivery.accountId,
+        threadId: delivery.threadId,
+      },
+    });
+    const taskLabel =
+      typeof params.job.name === "string" && params.job.name.trim()
+        ? params.job.name.trim()
+        : `cron:${params.job.id}`;
+    const settled = await settleSynthesizedText(synthesizedText);
+    if (settled) {
+      return settled;
+    }
     try {
       if (params.isAborted()) {
         return params.withRunSession({
@@ -340,6 +435,19 @@ export async function dispatchCronDelivery(
     !params.skipHeartbeatDelivery &&
     !params.skipMessagingToolDelivery
   ) {
+    const fanOutTargets = resolveCronDeliveryTargets(params.job.delivery);
+    if (fanOutTargets.length > 0) {
+      const fanOutResult = await deliverViaFanOut(fanOutTargets);
+      return {
+        result: fanOutResult ?? undefined,
+        delivered,
+        summary,
+        outputText,
+        synthesizedText,
+        deliveryPayloads,
+      };
+    }
+
     if (!params.resolvedDelivery.ok) {
       if (!params.deliveryBestEffort) {
         return {
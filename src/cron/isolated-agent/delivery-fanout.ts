@@ -0,0 +1,163 @@
+import type { ReplyPayload } from "../../auto-reply/types.js";
+import { createOutboundSendDeps, type CliDeps } from "../../cli/outbound-send-deps.js";
+import type { SimpleClawConfig } from "../../config/config.js";
+import { formatErrorMessage } from "../../infra/errors.js";
+import { fetchWithSsrFGuard } from "../../infra/net/fetch-guard.js";
+import { deliverOutboundPayloads } from "../../infra/outbound/deliver.js";
+import { resolveAgentOutboundIdentity } from "../../infra/outbound/identity.js";
+import { logWarn } from "../../logger.js";
+import {
+  formatCronDeliveryTargetPayloads,
+  resolveCronDeliveryTargetId,
+  resolveCronDeliveryTargetKind,
+} from "../delivery-targets.js";
+import type { CronDeliveryTarget, CronDeliveryTargetOutcome, CronJob } from "../types.js";
+import { normalizeHttpWebhookUrl } from "../webhook-url.js";
+import { resolveDeliveryTarget } from "./delivery-target.js";
+
+const FANOUT_WEBHOOK_TIMEOUT_MS = 10_000;
+
+export type CronFanOutResult = {
+  outcomes: CronDeliveryTargetOutcome[];
+  /** `true` when at least one target confirmed delivery. */
+  delivered: boolean;
+  /** Set when a target without best-effort delivery failed. */
+  error?: string;
+};
+
+async function postWebhookTarget(params: {
+  cfg: SimpleClawConfig;
+  job: CronJob;
+  targetId: string;
+  url: string;
+  payloads: ReplyPayload[];
+  summary?: string;
+  abortSignal?: AbortSignal;
+}) {
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  const token = params.cfg.cron?.webhookToken?.trim();
+  if (token) {
+    headers.Authorization = `Bearer ${token}`;
+  }
+  const timeoutSignal = AbortSignal.timeout(FANOUT_WEBHOOK_TIMEOUT_MS);
+  const result = await fetchWithSsrFGuard({
+    url: params.url,
+    init: {
+      method: "POST",
+      headers,
+      body: JSON.stringify({
+        jobId: params.job.id,
+        jobName: params.job.name,
+        target: params.targetId,
+        summary: params.summary,
+        text: params.payloads
+          .map((payload) => payload.text?.trim())
+          .filter(Boolean)
+          .join("\n\n"),
+      }),
+      signal: params.abortSignal
+        ? AbortSignal.any([params.abortSignal, timeoutSignal])
+        : timeoutSignal,
+    },
+  });
+  try {
+    if (!result.response.ok) {
+      throw new Error(`webhook responded ${result.response.status}`);
+    }
+  } finally {
+    await result.release();
+  }
+}
+
+/**
+ * Sends one run's output to every `delivery.targets` entry in order. Each
+ * target is tracked separately; only non-best-effort failures fail the run.
+ */
+export async function deliverCronFanOut(params: {
+  cfg: SimpleClawConfig;
+  cfgWithAgentDefaults: SimpleClawConfig;
+  deps: CliDeps;
+  job: CronJob;
+  agentId: string;
+  targets: CronDeliveryTarget[];
+  payloads: ReplyPayload[];
+  text?: string;
+  summary?: string;
+  bestEffort: boolean;
+  abortSignal?: AbortSignal;
+}): Promise<CronFanOutResult> {
+  const identity = resolveAgentOutboundIdentity(params.cfgWithAgentDefaults, params.agentId);
+  const outcomes: CronDeliveryTargetOutcome[] = [];
+  const failures: string[] = [];
+  for (const target of params.targets) {
+    const id = resolveCronDeliveryTargetId(target);
+    const payloads = formatCronDeliveryTargetPayloads(target, {
+      payloads: params.payloads,
+      text: params.text,
+      summary: params.summary,
+    });
+    if (payloads.length === 0) {
+      outcomes.push({ id, status: "not-delivered", error: "nothing to deliver" });
+      continue;
+    }
+    try {
+      if (resolveCronDeliveryTargetKind(target) === "webhook") {
+        const url = normalizeHttpWebhookUrl(target.to);
+        if (!url) {
+          throw new Error("webhook target requires a valid http(s) URL");
+        }
+        await postWebhookTarget({
+          cfg: params.cfg,
+          job: params.job,
+          targetId: id,
+          url,
+          payloads,
+          summary: params.summary,
+          abortSignal: params.abortSignal,
+        });
+      } else {
+        const resolved = await resolveDeliveryTarget(params.cfgWithAgentDefaults, params.agentId, {
+          channel: target.channel ?? "last",
+          to: target.to,
+          sessionKey: params.job.sessionKey,
+        });
+        if (!resolved.ok) {
+          throw resolved.error;
+        }
+        const results = await deliverOutboundPayloads({
+          cfg: params.cfgWithAgentDefaults,
+          channel: resolved.channel,
+          to: resolved.to,
+          accountId: resolved.accountId,
+          threadId: resolved.threadId,
+          payloads,
+          agentId: params.agentId,
+          identity,
+          bestEffort: false,
+          deps: createOutboundSendDeps(params.deps),
+          abortSignal: params.abortSignal,
+        });
+        if (results.length === 0) {
+          throw new Error("no messages were sent");
+        }
+      }
+      outcomes.push({ id, status: "delivered" });
+    } catch (err) {
+      const error = formatErrorMessage(err);
+      outcomes.push({ id, status: "not-delivered", error });
+      if (target.bestEffort ?? params.bestEffort) {
+        logWarn(`[cron:${params.job.id}] delivery to ${id} failed: ${error}`);
+      } else {
+        failures.push(`${id}: ${error}`);
+      }
+    }
+  }
+  return {
+    outcomes,
+    delivered: outcomes.some((outcome) => outcome.status === "delivered"),
+    error:
+      failures.length > 0
+        ? `cron delivery failed for ${failures.length} target(s): ${failures.join("; ")}`
+        : undefined,
+  };
+}
@@ -421,4 +421,45 @@ describe("normalizeCronJobPatch", () => {
     const schedule = normalized.schedule as Record<string, unknown>;
     expect(schedule.staggerMs).toBe(30_000);
   });
+
+  it("normalizes retry policies and drops unknown retryOn kinds", () => {
+    const normalized = normalizeCronJobPatch({
+      retry: {
+        maxAttempts: 2.7,
+        backoffMs: -5,
+        retryOn: [" Timeout ", "network", "timeout"],
+        deadLetter: { channel: " Telegram ", to: " 123 " },
+      },
+    }) as unknown as Record<string, unknown>;
+
+    expect(normalized.retry).toEqual({
+      maxAttempts: 2,
+      backoffMs: 0,
+      retryOn: ["timeout"],
+      deadLetter: { channel: "telegram", to: "123" },
+    });
+  });
+
+  it("normalizes schedule exclusions and weekday names", () => {
+    const normalized = normalizeCronJobCreate({
+      name: "weekday digest",
+      schedule: {
+        kind: "cron",
+        expr: "0 9 * * *",
+        exclude: {
+          skipWeekdays: ["Sat", "sun", 6, "someday"],
+          windows: [{ start: " 2026-12-24 ", end: "2026-12-31", label: " " }],
+          icsPath: " ~/holidays.ics ",
+        },
+      },
+      payload: { kind: "systemEvent", text: "hi" },
+    }) as unknown as Record<string, unknown>;
+
+    const schedule = normalized.schedule as Record<string, unknown>;
+    expect(schedule.exclude).toEqual({
+      skipWeekdays: [0, 6],
+      windows: [{ start: "2026-12-24", end: "2026-12-31" }],
+      icsPath: "~/holidays.ics",
+    });
+  });
 });
@@ -1,5 +1,6 @@
 import { sanitizeAgentId } from "../routing/session-key.js";
 import { isRecord } from "../utils.js";
+import { parseCronWeekday } from "./calendar.js";
 import {
   buildDeliveryFromLegacyPayload,
   hasLegacyDeliveryHints,
@@ -7,6 +8,7 @@ import {
 } from "./legacy-delivery.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 import { migrateLegacyCronPayload } from "./payload-migration.js";
+import { isCronRetryErrorKind } from "./retry.js";
 import { inferLegacyName } from "./service/normalize.js";
 import { normalizeCronStaggerMs, resolveDefaultCronStaggerMs } from "./stagger.js";
 import type { CronJobCreate, CronJobPatch } from "./types.js";
@@ -21,10 +23,44 @@ const DEFAULT_OPTIONS: NormalizeOptions = {
   applyDefaults: false,
 };
 
+function coerceScheduleExclusions(exclude: UnknownRecord) {
+  const next: UnknownRecord = {};
+  if (Array.isArray(exclude.windows)) {
+    const windows = exclude.windows.filter(isRecord).map((window) => {
+      const entry: UnknownRecord = {};
+      for (const field of ["start", "end", "label"] as const) {
+        const value = window[field];
+        if (typeof value === "string" && value.trim()) {
+          entry[field] = value.trim();
+        }
+      }
+      return entry;
+    });
+    if (windows.length > 0) {
+      next.windows = windows;
+    }
+  }
+  if (typeof exclude.icsPath === "string" && exclude.icsPath.trim()) {
+    next.icsPath = exclude.icsPath.trim();
+  }
+  if (Array.isArray(exclude.skipWeekdays)) {
+    const weekdays = exclude.skipWeekdays
+      .map(parseCronWeekday)
+      .filter((weekday): weekday is number => weekday !== undefined);
+    if (weekdays.length > 0) {
+      next.skipWeekdays = Array.from(new Set(weekdays)).toSorted((a, b) => a - b);
+    }
+  }
+  return next;
+}
+
 function coerceSchedule(schedule: UnknownRecord) {
   const next: UnknownRecord = { ...schedule };
   const rawKind = typeof schedule.kind === "string" ? schedule.kind.trim().toLowerCase() : "";
-  const kind = rawKind === "at" || rawKind === "every" || rawKind === "cron" ? rawKind : undefined;
+  const kind =
+    rawKind === "at" || rawKind === "every" || rawKind === "cron" || rawKind === "after"
+      ? rawKind
+      : undefined;
   const atMsRaw = schedule.atMs;
   const atRaw = schedule.at;
   const atString = typeof atRaw === "string" ? atRaw.trim() : "";
@@ -50,6 +86,20 @@ function coerceSchedule(schedule: UnknownRecord) {
       next.kind = "every";
     } else if (typeof schedule.expr === "string") {
       next.kind = "cron";
+    } else if (typeof schedule.jobId === "string") {
+      next.kind = "after";
+    }
+  }
+
+  if (typeof schedule.jobId === "string") {
+    next.jobId = schedule.jobId.trim();
+  }
+  if (typeof schedule.on === "string") {
+    const on = schedule.on.trim().toLowerCase();
+    if (on === "ok" || on === "error" || on === "always") {
+      next.on = on;
+    } else {
+      delete next.on;
     }
   }
 
@@ -62,6 +112,12 @@ function coerceSchedule(schedule: UnknownRecord) {
     delete next.atMs;
   }
 
+  if (isRecord(schedule.exclude)) {
+    next.exclude = coerceScheduleExclusions(schedule.exclude);
+  } else if ("exclude" in next) {
+    delete next.exclude;
+  }
+
   const staggerMs = normalizeCronStaggerMs(schedule.staggerMs);
   if (staggerMs !== undefined) {
     next.staggerMs = staggerMs;
@@ -153,6 +209,89 @@ function coercePayload(payload: UnknownRecord) {
   return next;
 }
 
+/** Accepts one condition or a list; infers `kind` from `pattern` / `path` / `changed`. */
+function coerceDeliveryConditions(raw: unknown): UnknownRecord[] {
+  const entries = Array.isArray(raw) ? raw : [raw];
+  return entries.filter(isRecord).flatMap((entry) => {
+    const next: UnknownRecord = { ...entry };
+    const kind = typeof entry.kind === "string" ? entry.kind.trim() : "";
+    if (kind) {
+      next.kind = kind.toLowerCase() === "jsonpath" ? "jsonPath" : kind.toLowerCase();
+    } else if (typeof entry.pattern === "string") {
+      next.kind = "regex";
+    } else if (typeof entry.path === "string") {
+      next.kind = "jsonPath";
+    } else if (entry.changed === true) {
+      next.kind = "changed";
+      delete next.changed;
+    } else {
+      return [];
+    }
+    for (const field of ["pattern", "path", "flags"] as const) {
+      const value = next[field];
+      if (typeof value === "string") {
+        next[field] = value.trim();
+      }
+    }
+    return [next];
+  });
+}
+
+function coerceDeliveryTargets(raw: unknown): UnknownRecord[] {
+  const entries = Array.isArray(raw) ? raw : [raw];
+  return entries.flatMap((entry) => {
+    // Shorthand: "telegram:123" or a webhook URL.
+    if (typeof entry === "string") {
+      const trimmed = entry.trim();
+      if (!trimmed) {
+        return [];
+      }
+      if (/^https?:\/\//i.test(trimmed)) {
+        return [{ kind: "webhook", to: trimmed }];
+      }
+      const sep = trimmed.indexOf(":");
+      return [
+        sep > 0
+          ? { channel: trimmed.slice(0, sep).toLowerCase(), to: trimmed.slice(sep + 1).trim() }
+          : { channel: trimmed.toLowerCase() },
+      ];
+    }
+    if (!isRecord(entry)) {
+      return [];
+    }
+    const next: UnknownRecord = { ...entry };
+    for (const field of ["id", "to", "prefix"] as const) {
+      const value = entry[field];
+      if (typeof value !== "string") {
+        continue;
+      }
+      const trimmed = value.trim();
+      if (trimmed) {
+        next[field] = trimmed;
+      } else {
+        delete next[field];
+      }
+    }
+    if (typeof entry.channel === "string") {
+      const channel = entry.channel.trim().toLowerCase();
+      if (channel) {
+        next.channel = channel;
+      } else {
+        delete next.channel;
+      }
+    }
+    if (typeof entry.kind === "string") {
+      next.kind = entry.kind.trim().toLowerCase();
+    } else if (!next.channel && typeof next.to === "string" && /^https?:\/\//i.test(next.to)) {
+      next.kind = "webhook";
+    }
+    if (typeof entry.format === "string") {
+      next.format = entry.format.trim().toLowerCase();
+    }
+    return [next];
+  });
+}
+
 function coerceDelivery(delivery: UnknownRecord) {
   const next: UnknownRecord = { ...delivery };
   if (typeof delivery.mode === "string") {
@@ -183,6 +322,52 @@ function coerceDelivery(delivery: UnknownRecord) {
       delete next.to;
     }
   }
+  if (delivery.when !== undefined && delivery.when !== null) {
+    next.when = coerceDeliveryConditions(delivery.when);
+  } else if ("when" in next) {
+    delete next.when;
+  }
+  if (delivery.targets !== undefined && delivery.targets !== null) {
+    next.targets = coerceDeliveryTargets(delivery.targets);
+  } else if ("targets" in next) {
+    delete next.targets;
+  }
+  return next;
+}
+
+function coerceRetry(retry: UnknownRecord) {
+  const next: UnknownRecord = { ...retry };
+  for (const field of ["maxAttempts", "backoffMs", "maxBackoffMs"] as const) {
+    const value = retry[field];
+    if (typeof value === "number" && Number.isFinite(value)) {
+      next[field] = Math.max(field === "maxAttempts" ? 1 : 0, Math.floor(value));
+    } else if (field in next) {
+      delete next[field];
+    }
+  }
+  if (typeof retry.backoffMultiplier === "number" && Number.isFinite(retry.backoffMultiplier)) {
+    next.backoffMultiplier = Math.max(1, retry.backoffMultiplier);
+  } else if ("backoffMultiplier" in next) {
+    delete next.backoffMultiplier;
+  }
+  if (Array.isArray(retry.retryOn)) {
+    const kinds = retry.retryOn
+      .map((kind) => (typeof kind === "string" ? kind.trim().toLowerCase() : ""))
+      .filter(isCronRetryErrorKind);
+    if (kinds.length > 0) {
+      next.retryOn = Array.from(new Set(kinds));
+    } else {
+      delete next.retryOn;
+    }
+  } else if ("retryOn" in next) {
+    delete next.retryOn;
+  }
+  if (isRecord(retry.deadLetter)) {
+    next.deadLetter = coerceDelivery(retry.deadLetter);
+    delete (next.deadLetter as UnknownRecord).mode;
+  } else if ("deadLetter" in next) {
+    delete next.deadLetter;
+  }
   return next;
 }
 
@@ -378,6 +563,10 @@ export function normalizeCronJobInput(
     next.delivery = coerceDelivery(base.delivery);
   }
 
+  if (isRecord(base.retry)) {
+    next.retry = coerceRetry(base.retry);
+  }
+
   if ("isolation" in next) {
     delete next.isolation;
   }
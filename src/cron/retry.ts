@@ -0,0 +1,86 @@
+import { truncateUtf16Safe } from "../utils.js";
+import type { CronJob, CronRetryErrorKind, CronRetryPolicy, CronRunOutcome } from "./types.js";
+
+export const CRON_RETRY_ERROR_KINDS: readonly CronRetryErrorKind[] = [
+  "timeout",
+  "delivery-target",
+  "execution",
+];
+
+const DEFAULT_RETRY_BACKOFF_MS = 30_000;
+const DEFAULT_RETRY_BACKOFF_MULTIPLIER = 2;
+const DEFAULT_RETRY_MAX_BACKOFF_MS = 60 * 60_000;
+const MAX_DEAD_LETTER_ERROR_CHARS = 1_000;
+
+export type CronRetryDecision =
+  | { action: "retry"; attempt: number; delayMs: number; errorKind: CronRetryErrorKind }
+  | { action: "dead-letter"; attempts: number; errorKind: CronRetryErrorKind };
+
+export function isCronRetryErrorKind(value: unknown): value is CronRetryErrorKind {
+  return typeof value === "string" && (CRON_RETRY_ERROR_KINDS as string[]).includes(value);
+}
+
+export function classifyCronRunError(
+  result: Pick<CronRunOutcome, "error" | "errorKind">,
+): CronRetryErrorKind {
+  if (result.errorKind === "delivery-target") {
+    return "delivery-target";
+  }
+  if (result.error && /timed out/i.test(result.error)) {
+    return "timeout";
+  }
+  return "execution";
+}
+
+/** Delay before retry number `attempt` (1-based), capped at `maxBackoffMs`. */
+export function computeCronRetryDelayMs(policy: CronRetryPolicy, attempt: number): number {
+  const base = Math.max(0, policy.backoffMs ?? DEFAULT_RETRY_BACKOFF_MS);
+  const multiplier = Math.max(1, policy.backoffMultiplier ?? DEFAULT_RETRY_BACKOFF_MULTIPLIER);
+  const cap = Math.max(base, policy.maxBackoffMs ?? DEFAULT_RETRY_MAX_BACKOFF_MS);
+  const delay = base * multiplier ** Math.max(0, attempt - 1);
+  return Math.min(cap, Math.floor(delay));
+}
+
+/**
+ * Decides what happens after a run of a job with a retry policy failed.
+ * Failures outside `retryOn` are not retried but still reach the dead letter.
+ */
+export function resolveCronRetryDecision(params: {
+  policy: CronRetryPolicy;
+  retriesSoFar: number;
+  result: Pick<CronRunOutcome, "error" | "errorKind">;
+}): CronRetryDecision {
+  const errorKind = classifyCronRunError(params.result);
+  const retryOn = params.policy.retryOn?.length ? params.policy.retryOn : CRON_RETRY_ERROR_KINDS;
+  const maxAttempts = Math.max(1, Math.floor(params.policy.maxAttempts));
+  const attempt = params.retriesSoFar + 1;
+  if (retryOn.includes(errorKind) && attempt < maxAttempts) {
+    return {
+      action: "retry",
+      attempt,
+      delayMs: computeCronRetryDelayMs(params.policy, attempt),
+      errorKind,
+    };
+  }
+  return { action: "dead-letter", attempts: attempt, errorKind };
+}
+
+export function buildCronDeadLetterMessage(params: {
+  job: Pick<CronJob, "id" | "name">;
+  error?: string;
+  attempts: number;
+}): string {
+  const attempts = params.attempts === 1 ? "1 attempt" : `${params.attempts} attempts`;
+  const lines = [`Cron job "${params.job.name}" (${params.job.id}) failed after ${attempts}.`];
+  const error = params.error?.trim();
+  if (error) {
+    lines.push(
+      `Last error: ${
+        error.length > MAX_DEAD_LETTER_ERROR_CHARS
+          ? `${truncateUtf16Safe(error, MAX_DEAD_LETTER_ERROR_CHARS)}…`
+          : error
+      }`,
+    );
+  }
+  return lines.join("\n");
+}
@@ -7,6 +7,7 @@ import {
   DEFAULT_CRON_RUN_LOG_KEEP_LINES,
   DEFAULT_CRON_RUN_LOG_MAX_BYTES,
   getPendingCronRunLogWriteCountForTests,
+  queryCronRunLog,
   readCronRunLogEntries,
   resolveCronRunLogPruneOptions,
   resolveCronRunLogPath,
@@ -232,6 +233,81 @@ describe("cron run log", () => {
     });
   });
 
+  it("queries runs across jobs by time, model, and tokens with usage totals", async () => {
+    await withRunLogDir("simpleclaw-cron-log-query-", async (dir) => {
+      const storePath = path.join(dir, "jobs.json");
+      const append = (jobId: string, entry: Record<string, unknown>) =>
+        appendCronRunLog(path.join(dir, "runs", `${jobId}.jsonl`), {
+          jobId,
+          action: "finished",
+          ...entry,
+        } as Parameters<typeof appendCronRunLog>[1]);
+
+      await append("job-a", {
+        ts: 1_000,
+        status: "ok",
+        durationMs: 400,
+        model: "gpt-5.2",
+        provider: "openai",
+        usage: { input_tokens: 1_000_000, output_tokens: 500_000, total_tokens: 1_500_000 },
+      });
+      await append("job-a", { ts: 2_000, status: "skipped", skipReason: "holiday" });
+      await append("job-b", {
+        ts: 3_000,
+        status: "error",
+        error: "boom",
+        durationMs: 100,
+        model: "claude-sonnet",
+        provider: "anthropic",
+        usage: { input_tokens: 200, output_tokens: 100 },
+      });
+
+      const all = await queryCronRunLog({
+        storePath,
+        jobNameById: { "job-a": "Daily digest" },
+        resolveCost: (ref) =>
+          ref.model === "gpt-5.2"
+            ? { input: 2, output: 8, cacheRead: 0, cacheWrite: 0 }
+            : undefined,
+      });
+      expect(all.entries.map((entry) => entry.ts)).toEqual([3_000, 2_000, 1_000]);
+      expect(all.totals).toMatchObject({
+        runs: 3,
+        ok: 1,
+        error: 1,
+        skipped: 1,
+        durationMs: 500,
+        totalTokens: 1_500_300,
+        totalCost: 6,
+      });
+      expect(all.totals.byModel).toEqual([
+        { provider: "openai", model: "gpt-5.2", runs: 1, totalTokens: 1_500_000, totalCost: 6 },
+        { provider: "anthropic", model: "claude-sonnet", runs: 1, totalTokens: 300 },
+      ]);
+
+      const filtered = await queryCronRunLog({
+        storePath,
+        sinceMs: 1_500,
+        model: "Anthropic/Claude-Sonnet",
+      });
+      expect(filtered.entries.map((entry) => entry.jobId)).toEqual(["job-b"]);
+      expect(filtered.totals.runs).toBe(1);
+
+      const heavy = await queryCronRunLog({ storePath, jobId: "job-a", minTotalTokens: 1_000 });
+      expect(heavy.entries.map((entry) => entry.ts)).toEqual([1_000]);
+
+      const byName = await queryCronRunLog({
+        storePath,
+        query: "daily",
+        jobNameById: { "job-a": "Daily digest" },
+        limit: 1,
+      });
+      expect(byName.total).toBe(2);
+      expect(byName.nextOffset).toBe(1);
+      expect(byName.totals.runs).toBe(2);
+    });
+  });
+
   it("cleans up pending-write bookkeeping after appends complete", async () => {
     await withRunLogDir("simpleclaw-cron-log-pending-", async (dir) => {
       const logPath = path.join(dir, "runs", "job-cleanup.jsonl");
@@ -2,6 +2,7 @@ import fs from "node:fs/promises";
 import path from "node:path";
 import { parseByteSize } from "../cli/parse-bytes.js";
 import type { CronConfig } from "../config/types.cron.js";
+import { estimateUsageCost, type ModelCostConfig } from "../utils/usage-format.js";
 import type { CronDeliveryStatus, CronRunStatus, CronRunTelemetry } from "./types.js";
 
 export type CronRunLogEntry = {
@@ -10,10 +11,13 @@ export type CronRunLogEntry = {
   action: "finished";
   status?: CronRunStatus;
   error?: string;
+  /** Why the run was skipped (e.g. a holiday or blackout window). */
+  skipReason?: string;
   summary?: string;
   delivered?: boolean;
   deliveryStatus?: CronDeliveryStatus;
   deliveryError?: string;
+  deliverySkipReason?: string;
   sessionId?: string;
   sessionKey?: string;
   runAtMs?: number;
@@ -45,6 +49,47 @@ export type CronRunLogPageResult = {
   nextOffset: number | null;
 };
 
+export type CronRunLogQueryOptions = Omit<ReadCronRunLogPageOptions, "limit"> & {
+  storePath: string;
+  limit?: number;
+  jobNameById?: Record<string, string>;
+  /** Only runs that finished at or after this time. */
+  sinceMs?: number;
+  /** Only runs that finished at or before this time. */
+  untilMs?: number;
+  /** Case-insensitive match against `model` or `provider/model`. */
+  model?: string;
+  minTotalTokens?: number;
+  /** Per-million-token pricing for cost totals; runs without pricing add no cost. */
+  resolveCost?: (ref: { provider?: string; model?: string }) => ModelCostConfig | undefined;
+};
+
+export type CronRunUsageModelTotals = {
+  provider?: string;
+  model: string;
+  runs: number;
+  totalTokens: number;
+  totalCost?: number;
+};
+
+export type CronRunUsageTotals = {
+  runs: number;
+  ok: number;
+  error: number;
+  skipped: number;
+  durationMs: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  totalTokens: number;
+  /** USD; omitted when no matching run has model pricing. */
+  totalCost?: number;
+  byModel: CronRunUsageModelTotals[];
+};
+
+export type CronRunLogQueryResult = CronRunLogPageResult & { totals: CronRunUsageTotals };
+
 type ReadCronRunLogAllPageOptions = Omit<ReadCronRunLogPageOptions, "jobId"> & {
   storePath: string;
   jobNameById?: Record<string, string>;
@@ -190,28 +235,29 @@ function normalizeRunStatuses(opts?: {
   return [status];
 }
 
+const CRON_DELIVERY_STATUSES = new Set<unknown>([
+  "delivered",
+  "not-delivered",
+  "unknown",
+  "not-requested",
+  "suppressed",
+]);
+
+function isCronDeliveryStatus(value: unknown): value is CronDeliveryStatus {
+  return CRON_DELIVERY_STATUSES.has(value);
+}
+
 function normalizeDeliveryStatuses(opts?: {
   deliveryStatuses?: CronDeliveryStatus[];
   deliveryStatus?: CronDeliveryStatus;
 }): CronDeliveryStatus[] | null {
   if (Array.isArray(opts?.deliveryStatuses) && opts.deliveryStatuses.length > 0) {
-    const filtered = opts.deliveryStatuses.filter(
-      (status): status is CronDeliveryStatus =>
-        status === "delivered" ||
-        status === "not-delivered" ||
-        status === "unknown" ||
-        status === "not-requested",
-    );
+    const filtered = opts.deliveryStatuses.filter(isCronDeliveryStatus);
     if (filtered.length > 0) {
       return Array.from(new Set(filtered));
     }
   }
-  if (
-    opts?.deliveryStatus === "delivered" ||
-    opts?.deliveryStatus === "not-delivered" ||
-    opts?.deliveryStatus === "unknown" ||
-    opts?.deliveryStatus === "not-requested"
-  ) {
+  if (isCronDeliveryStatus(opts?.deliveryStatus)) {
     return [opts.deliveryStatus];
   }
   return null;
@@ -279,17 +325,18 @@ function parseAllRunLogEntries(raw: string, opts?: { jobId?: string }): CronRunL
       if (typeof obj.delivered === "boolean") {
         entry.delivered = obj.delivered;
       }
-      if (
-        obj.deliveryStatus === "delivered" ||
-        obj.deliveryStatus === "not-delivered" ||
-        obj.deliveryStatus === "unknown" ||
-        obj.deliveryStatus === "not-requested"
-      ) {
+      if (isCronDeliveryStatus(obj.deliveryStatus)) {
         entry.deliveryStatus = obj.deliveryStatus;
       }
       if (typeof obj.deliveryError === "string") {
         entry.deliveryError = obj.deliveryError;
       }
+      if (typeof obj.deliverySkipReason === "string" && obj.deliverySkipReason.trim()) {
+        entry.deliverySkipReason = obj.deliverySkipReason;
+      }
+      if (typeof obj.skipReason === "string" && obj.skipReason.trim().length > 0) {
+        entry.skipReason = obj.skipReason;
+      }
       if (typeof obj.sessionId === "string" && obj.sessionId.trim().length > 0) {
         entry.sessionId = obj.sessionId;
       }
@@ -345,7 +392,14 @@ export async function readCronRunLogEntriesPage(
     statuses,
     deliveryStatuses,
     query,
-    queryTextForEntry: (entry) => [entry.summary ?? "", entry.error ?? "", entry.jobId].join(" "),
+    queryTextForEntry: (entry) =>
+      [
+        entry.summary ?? "",
+        entry.error ?? "",
+        entry.skipReason ?? "",
+        entry.deliverySkipReason ?? "",
+        entry.jobId,
+      ].join(" "),
   });
   const sorted =
     sortDir === "asc"
@@ -365,6 +419,14 @@ export async function readCronRunLogEntriesPage(
   };
 }
 
+async function listCronRunLogFiles(storePath: string): Promise<string[]> {
+  const runsDir = path.resolve(path.dirname(path.resolve(storePath)), "runs");
+  const files = await fs.readdir(runsDir, { withFileTypes: true }).catch(() => []);
+  return files
+    .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
+    .map((entry) => path.join(runsDir, entry.name));
+}
+
 export async function readCronRunLogEntriesPageAll(
   opts: ReadCronRunLogAllPageOptions,
 ): Promise<CronRunLogPageResult> {
@@ -373,11 +435,7 @@ export async function readCronRunLogEntriesPageAll(
   const deliveryStatuses = normalizeDeliveryStatuses(opts);
   const query = opts.query?.trim().toLowerCase() ?? "";
   const sortDir: CronRunLogSortDir = opts.sortDir === "asc" ? "asc" : "desc";
-  const runsDir = path.resolve(path.dirname(path.resolve(opts.storePath)), "runs");
-  const files = await fs.readdir(runsDir, { withFileTypes: true }).catch(() => []);
-  const jsonlFiles = files
-    .filter((entry) => entry.isFile() && entry.name.endsWith(".jsonl"))
-    .map((entry) => path.join(runsDir, entry.name));
+  const jsonlFiles = await listCronRunLogFiles(opts.storePath);
   if (jsonlFiles.length === 0) {
     return {
       entries: [],
@@ -401,7 +459,14 @@ export async function readCronRunLogEntriesPageAll(
     query,
     queryTextForEntry: (entry) => {
       const jobName = opts.jobNameById?.[entry.jobId] ?? "";
-      return [entry.summary ?? "", entry.error ?? "", entry.jobId, jobName].join(" ");
+      return [
+        entry.summary ?? "",
+        entry.error ?? "",
+        entry.skipReason ?? "",
+        entry.deliverySkipReason ?? "",
+        entry.jobId,
+        jobName,
+      ].join(" ");
     },
   });
   const sorted =
@@ -429,3 +494,169 @@ export async function readCronRunLogEntriesPageAll(
     nextOffset: nextOffset < total ? nextOffset : null,
   };
 }
+
+function resolveEntryTotalTokens(entry: CronRunLogEntry): number {
+  const usage = entry.usage;
+  if (!usage) {
+    return 0;
+  }
+  if (typeof usage.total_tokens === "number") {
+    return usage.total_tokens;
+  }
+  return (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0);
+}
+
+function matchesRunLogModel(entry: CronRunLogEntry, model: string): boolean {
+  const candidates = [
+    entry.model,
+    entry.provider && entry.model && `${entry.provider}/${entry.model}`,
+  ];
+  return candidates.some((candidate) => candidate && candidate.toLowerCase() === model);
+}
+
+export function summarizeCronRunUsage(
+  entries: CronRunLogEntry[],
+  resolveCost?: CronRunLogQueryOptions["resolveCost"],
+): CronRunUsageTotals {
+  const totals: CronRunUsageTotals = {
+    runs: 0,
+    ok: 0,
+    error: 0,
+    skipped: 0,
+    durationMs: 0,
+    input: 0,
+    output: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 0,
+    byModel: [],
+  };
+  const byModel = new Map<string, CronRunUsageModelTotals>();
+  for (const entry of entries) {
+    totals.runs += 1;
+    if (entry.status === "ok" || entry.status === "error" || entry.status === "skipped") {
+      totals[entry.status] += 1;
+    }
+    totals.durationMs += entry.durationMs ?? 0;
+    const usage = entry.usage;
+    const tokens = resolveEntryTotalTokens(entry);
+    totals.input += usage?.input_tokens ?? 0;
+    totals.output += usage?.output_tokens ?? 0;
+    totals.cacheRead += usage?.cache_read_tokens ?? 0;
+    totals.cacheWrite += usage?.cache_write_tokens ?? 0;
+    totals.totalTokens += tokens;
+    const cost = usage
+      ? estimateUsageCost({
+          usage: {
+            input: usage.input_tokens,
+            output: usage.output_tokens,
+            cacheRead: usage.cache_read_tokens,
+            cacheWrite: usage.cache_write_tokens,
+          },
+          cost: resolveCost?.({ provider: entry.provider, model: entry.model }),
+        })
+      : undefined;
+    if (cost !== undefined) {
+      totals.totalCost = (totals.totalCost ?? 0) + cost;
+    }
+    if (!entry.model) {
+      continue;
+    }
+    const key = `${entry.provider ?? ""}/${entry.model}`;
+    const bucket = byModel.get(key) ?? {
+      provider: entry.provider,
+      model: entry.model,
+      runs: 0,
+      totalTokens: 0,
+    };
+    bucket.runs += 1;
+    bucket.totalTokens += tokens;
+    if (cost !== undefined) {
+      bucket.totalCost = (bucket.totalCost ?? 0) + cost;
+    }
+    byModel.set(key, bucket);
+  }
+  totals.byModel = [...byModel.values()].toSorted((a, b) => b.totalTokens - a.totalTokens);
+  return totals;
+}
+
+/**
+ * Filters and pages runs for one job (`jobId`) or every job, and aggregates
+ * usage across all matching runs (not just the returned page).
+ */
+export async function queryCronRunLog(
+  opts: CronRunLogQueryOptions,
+): Promise<CronRunLogQueryResult> {
+  const limit = Math.max(1, Math.min(200, Math.floor(opts.limit ?? 50)));
+  const statuses = normalizeRunStatuses(opts);
+  const deliveryStatuses = normalizeDeliveryStatuses(opts);
+  const query = opts.query?.trim().toLowerCase() ?? "";
+  const model = opts.model?.trim().toLowerCase() ?? "";
+  const sortDir: CronRunLogSortDir = opts.sortDir === "asc" ? "asc" : "desc";
+  const jobId = opts.jobId?.trim();
+  const files = jobId
+    ? [resolveCronRunLogPath({ storePath: opts.storePath, jobId })]
+    : await listCronRunLogFiles(opts.storePath);
+  const chunks = await Promise.all(
+    files.map(async (filePath) => {
+      const raw = await fs.readFile(filePath, "utf-8").catch(() => "");
+      return parseAllRunLogEntries(raw, { jobId });
+    }),
+  );
+  const filtered = filterRunLogEntries(chunks.flat(), {
+    statuses,
+    deliveryStatuses,
+    query,
+    queryTextForEntry: (entry) =>
+      [
+        entry.summary ?? "",
+        entry.error ?? "",
+        entry.skipReason ?? "",
+        entry.deliverySkipReason ?? "",
+        entry.jobId,
+        opts.jobNameById?.[entry.jobId] ?? "",
+      ].join(" "),
+  }).filter((entry) => {
+    if (typeof opts.sinceMs === "number" && entry.ts < opts.sinceMs) {
+      return false;
+    }
+    if (typeof opts.untilMs === "number" && entry.ts > opts.untilMs) {
+      return false;
+    }
+    if (model && !matchesRunLogModel(entry, model)) {
+      return false;
+    }
+    if (
+      typeof opts.minTotalTokens === "number" &&
+      resolveEntryTotalTokens(entry) < opts.minTotalTokens
+    ) {
+      return false;
+    }
+    return true;
+  });
+  const sorted =
+    sortDir === "asc"
+      ? filtered.toSorted((a, b) => a.ts - b.ts)
+      : filtered.toSorted((a, b) => b.ts - a.ts);
+  const total = sorted.length;
+  const offset = Math.max(0, Math.min(total, Math.floor(opts.offset ?? 0)));
+  const entries = sorted.slice(offset, offset + limit);
+  if (opts.jobNameById) {
+    for (const entry of entries) {
+      const jobName = opts.jobNameById[entry.jobId];
+      if (jobName) {
+        (entry as CronRunLogEntry & { jobName?: string }).jobName = jobName;
+      }
+    }
+  }
+  const nextOffset = offset + entries.length;
+  return {
+    entries,
+    total,
+    offset,
+    limit,
+    hasMore: nextOffset < total,
+    nextOffset: nextOffset < total ? nextOffset : null,
+    totals: summarizeCronRunUsage(sorted, opts.resolveCost),
+  };
+}
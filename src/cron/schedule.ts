@@ -1,4 +1,5 @@
 import { Cron } from "croner";
+import { matchCronScheduleExclusion } from "./calendar.js";
 import { parseAbsoluteTimeMs } from "./parse.js";
 import type { CronSchedule } from "./types.js";
 
@@ -10,6 +11,19 @@ function resolveCronTimezone(tz?: string) {
   return Intl.DateTimeFormat().resolvedOptions().timeZone;
 }
 
+/**
+ * Evaluates the schedule's calendar exclusions for a run due at `atMs`.
+ * Returns the skip reason, or null when the run should proceed. Date-based
+ * rules use the cron timezone, or the host timezone for other schedule kinds.
+ */
+export function resolveCronScheduleSkip(schedule: CronSchedule, atMs: number): string | null {
+  if (!schedule.exclude) {
+    return null;
+  }
+  const timeZone = resolveCronTimezone(schedule.kind === "cron" ? schedule.tz : undefined);
+  return matchCronScheduleExclusion(schedule.exclude, atMs, timeZone);
+}
+
 export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): number | undefined {
   if (schedule.kind === "at") {
     // Handle both canonical `at` (string) and legacy `atMs` (number) fields.
@@ -41,6 +55,11 @@ export function computeNextRunAtMs(schedule: CronSchedule, nowMs: number): numbe
     return anchor + steps * everyMs;
   }
 
+  if (schedule.kind === "after") {
+    // Dependent jobs are triggered by upstream completions, not by the clock.
+    return undefined;
+  }
+
   const exprSource = (schedule as { expr?: unknown }).expr;
   if (typeof exprSource !== "string") {
     throw new Error("invalid cron schedule: expr is required");
@@ -0,0 +1,98 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronEvent } from "./service/state.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "simpleclaw-cron-calendar-" });
+
+describe("CronService calendar exclusions", () => {
+  it("skips due runs inside a blackout window but honours forced runs", async () => {
+    const store = await makeStorePath();
+    const events: CronEvent[] = [];
+    const runIsolatedAgentJob = vi.fn(async () => ({ status: "ok" as const, summary: "done" }));
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+      onEvent: (evt) => events.push(evt),
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "standup digest",
+      enabled: true,
+      schedule: {
+        kind: "every",
+        everyMs: 60 * 60_000,
+        exclude: { windows: [{ start: "2025-12-01", end: "2025-12-31", label: "holiday freeze" }] },
+      },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "agentTurn", message: "summarize standup" },
+      delivery: { mode: "none" },
+    });
+    expect(job.schedule.exclude?.windows).toHaveLength(1);
+
+    vi.setSystemTime(Date.now() + 60 * 60_000);
+    await expect(cron.run(job.id)).resolves.toEqual({ ok: true, ran: true });
+    expect(runIsolatedAgentJob).not.toHaveBeenCalled();
+    const skipped = events.find((evt) => evt.action === "finished");
+    expect(skipped).toMatchObject({
+      status: "skipped",
+      skipReason: 'blackout window "holiday freeze" (2025-12-01..2025-12-31)',
+    });
+    expect(cron.getJob(job.id)?.state.lastStatus).toBe("skipped");
+
+    await cron.run(job.id, "force");
+    expect(runIsolatedAgentJob).toHaveBeenCalledTimes(1);
+    expect(cron.getJob(job.id)?.state.lastStatus).toBe("ok");
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("keeps exclusions across schedule patches and clears them with an empty object", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const job = await cron.add({
+      name: "weekday report",
+      enabled: true,
+      schedule: { kind: "cron", expr: "0 9 * * *", tz: "UTC", exclude: { skipWeekdays: [0, 6] } },
+      sessionTarget: "isolated",
+      wakeMode: "next-heartbeat",
+      payload: { kind: "agentTurn", message: "report" },
+      delivery: { mode: "none" },
+    });
+
+    let updated = await cron.update(job.id, {
+      schedule: { kind: "cron", expr: "30 9 * * *", tz: "UTC" },
+    });
+    expect(updated.schedule.exclude).toEqual({ skipWeekdays: [0, 6] });
+
+    updated = await cron.update(job.id, {
+      schedule: { kind: "cron", expr: "30 9 * * *", tz: "UTC", exclude: {} },
+    });
+    expect(updated.schedule.exclude).toBeUndefined();
+
+    await expect(
+      cron.update(job.id, {
+        schedule: { kind: "cron", expr: "30 9 * * *", exclude: { windows: [{ start: "later" }] } },
+      }),
+    ).rejects.toThrow("invalid cron blackout window");
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronJobCreate } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "simpleclaw-cron-chains-" });
+
+function isolatedJob(name: string, schedule: CronJobCreate["schedule"]): CronJobCreate {
+  return {
+    name,
+    enabled: true,
+    schedule,
+    sessionTarget: "isolated",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "agentTurn", message: `${name} task` },
+    delivery: { mode: "none" },
+  };
+}
+
+describe("CronService dependency chains", () => {
+  it("runs dependents after the upstream job and passes its summary along", async () => {
+    const store = await makeStorePath();
+    const runIsolatedAgentJob = vi.fn(
+      async (params: { job: { name: string }; message: string }) => ({
+        status: "ok" as const,
+        summary: `${params.job.name} output`,
+      }),
+    );
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+    });
+    await cron.start();
+
+    const pull = await cron.add(isolatedJob("pull", { kind: "every", everyMs: 60_000 }));
+    const summarize = await cron.add(isolatedJob("summarize", { kind: "after", jobId: pull.id }));
+    const onFailure = await cron.add(
+      isolatedJob("alert", { kind: "after", jobId: pull.id, on: "error" }),
+    );
+    expect(summarize.state.nextRunAtMs).toBeUndefined();
+
+    await cron.run(pull.id, "force");
+    let jobs = await cron.list({ includeDisabled: true });
+    expect(jobs.find((job) => job.id === summarize.id)?.state.pendingTrigger).toMatchObject({
+      jobId: pull.id,
+      jobName: "pull",
+      status: "ok",
+      summary: "pull output",
+    });
+    expect(jobs.find((job) => job.id === onFailure.id)?.state.pendingTrigger).toBeUndefined();
+
+    await expect(cron.run(summarize.id)).resolves.toEqual({ ok: true, ran: true });
+
+    const messages = runIsolatedAgentJob.mock.calls.map(([params]) => params.message);
+    expect(messages[0]).toBe("pull task");
+    expect(messages[1]).toContain("summarize task");
+    expect(messages[1]).toContain('Upstream cron job "pull"');
+    expect(messages[1]).toContain("pull output");
+
+    jobs = await cron.list({ includeDisabled: true });
+    const summarized = jobs.find((job) => job.id === summarize.id);
+    expect(summarized?.state.lastStatus).toBe("ok");
+    expect(summarized?.state.pendingTrigger).toBeUndefined();
+    expect(summarized?.state.nextRunAtMs).toBeUndefined();
+    expect(jobs.find((job) => job.id === onFailure.id)?.state.lastRunAtMs).toBeUndefined();
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("rejects unknown upstream jobs and dependency cycles", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    await expect(
+      cron.add(isolatedJob("orphan", { kind: "after", jobId: "missing" })),
+    ).rejects.toThrow("unknown upstream cron job id: missing");
+
+    const a = await cron.add(isolatedJob("a", { kind: "every", everyMs: 60_000 }));
+    const b = await cron.add(isolatedJob("b", { kind: "after", jobId: a.id }));
+    const c = await cron.add(isolatedJob("c", { kind: "after", jobId: b.id }));
+
+    await expect(cron.update(a.id, { schedule: { kind: "after", jobId: c.id } })).rejects.toThrow(
+      `cron dependency cycle: ${a.id} -> ${c.id} -> ${b.id} -> ${a.id}`,
+    );
+    await expect(cron.update(b.id, { schedule: { kind: "after", jobId: b.id } })).rejects.toThrow(
+      "cron job cannot depend on itself",
+    );
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("refuses to remove a job that other jobs depend on", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const pull = await cron.add(isolatedJob("pull", { kind: "every", everyMs: 60_000 }));
+    const summarize = await cron.add(isolatedJob("summarize", { kind: "after", jobId: pull.id }));
+
+    await expect(cron.remove(pull.id)).rejects.toThrow(
+      `cron job ${pull.id} has dependent jobs: ${summarize.id}`,
+    );
+    expect((await cron.list({ includeDisabled: true })).map((job) => job.id)).toContain(pull.id);
+
+    await expect(cron.remove(summarize.id)).resolves.toEqual({ ok: true, removed: true });
+    await expect(cron.remove(pull.id)).resolves.toEqual({ ok: true, removed: true });
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("keeps a one-shot upstream with dependents instead of deleting it after success", async () => {
+    const store = await makeStorePath();
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "ok" as const })),
+    });
+    await cron.start();
+
+    const once = await cron.add({
+      ...isolatedJob("once", { kind: "at", at: new Date(Date.now() + 60_000).toISOString() }),
+      deleteAfterRun: true,
+    });
+    const next = await cron.add(isolatedJob("next", { kind: "after", jobId: once.id }));
+
+    await cron.run(once.id, "force");
+
+    const jobs = await cron.list({ includeDisabled: true });
+    expect(jobs.find((job) => job.id === once.id)?.enabled).toBe(false);
+    expect(jobs.find((job) => job.id === next.id)?.state.pendingTrigger?.jobId).toBe(once.id);
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
@@ -7,6 +7,7 @@ import {
   createNoopLogger,
   installCronTestHooks,
 } from "./service.test-harness.js";
+import type { CronDeliveryTargetOutcome } from "./types.js";
 
 const noopLogger = createNoopLogger();
 const { makeStorePath } = createCronStoreHarness();
@@ -40,19 +41,24 @@ function buildMainSessionSystemEventJob(name: string): CronAddInput {
 function createIsolatedCronWithFinishedBarrier(params: {
   storePath: string;
   delivered?: boolean;
+  deliverySkipReason?: string;
+  deliveryTargets?: CronDeliveryTargetOutcome[];
   onFinished?: (evt: { jobId: string; delivered?: boolean; deliveryStatus?: string }) => void;
 }) {
   const finished = createFinishedBarrier();
+  const enqueueSystemEvent = vi.fn();
   const cron = new CronService({
     storePath: params.storePath,
     cronEnabled: true,
     log: noopLogger,
-    enqueueSystemEvent: vi.fn(),
+    enqueueSystemEvent,
     requestHeartbeatNow: vi.fn(),
     runIsolatedAgentJob: vi.fn(async () => ({
       status: "ok" as const,
       summary: "done",
       ...(params.delivered === undefined ? {} : { delivered: params.delivered }),
+      ...(params.deliverySkipReason ? { deliverySkipReason: params.deliverySkipReason } : {}),
+      ...(params.deliveryTargets ? { deliveryTargets: params.deliveryTargets } : {}),
     })),
     onEvent: (evt) => {
       if (evt.action === "finished") {
@@ -65,7 +71,7 @@ function createIsolatedCronWithFinishedBarrier(params: {
       finished.onEvent(evt);
     },
   });
-  return { cron, finished };
+  return { cron, finished, enqueueSystemEvent };
 }
 
 async function runSingleJobAndReadState(params: {
@@ -176,6 +182,69 @@ describe("CronService persists delivered status", () => {
     cron.stop();
   });
 
+  it("persists suppressed delivery state when a delivery condition skipped the announce", async () => {
+    const store = await makeStorePath();
+    const { cron, finished, enqueueSystemEvent } = createIsolatedCronWithFinishedBarrier({
+      storePath: store.storePath,
+      deliverySkipReason: "output unchanged since last run",
+    });
+
+    await cron.start();
+    const { updated } = await runSingleJobAndReadState({
+      cron,
+      finished,
+      job: {
+        ...buildIsolatedAgentTurnJob("delivery-suppressed"),
+        delivery: { mode: "announce", channel: "telegram", to: "123", when: [{ kind: "changed" }] },
+      },
+    });
+
+    expect(updated?.delivery?.when).toEqual([{ kind: "changed" }]);
+    expect(updated?.state.lastStatus).toBe("ok");
+    expect(updated?.state.lastDeliveryStatus).toBe("suppressed");
+    expect(updated?.state.lastDeliverySkipReason).toBe("output unchanged since last run");
+    expect(updated?.state.lastSummaryHash).toMatch(/^[0-9a-f]{16}$/);
+    // A suppressed announce must not fall back to a main-session summary.
+    expect(enqueueSystemEvent).not.toHaveBeenCalled();
+
+    cron.stop();
+  });
+
+  it("persists per-target results for fan-out delivery", async () => {
+    const store = await makeStorePath();
+    const deliveryTargets: CronDeliveryTargetOutcome[] = [
+      { id: "slack:channel:C1", status: "delivered" },
+      { id: "audit", status: "not-delivered", error: "webhook responded 503" },
+    ];
+    const { cron, finished } = createIsolatedCronWithFinishedBarrier({
+      storePath: store.storePath,
+      delivered: true,
+      deliveryTargets,
+    });
+
+    await cron.start();
+    const { updated } = await runSingleJobAndReadState({
+      cron,
+      finished,
+      job: {
+        ...buildIsolatedAgentTurnJob("delivery-fan-out"),
+        delivery: {
+          mode: "announce",
+          targets: [
+            { channel: "slack", to: "channel:C1" },
+            { id: "audit", kind: "webhook", to: "https://example.invalid/cron", bestEffort: true },
+          ],
+        },
+      },
+    });
+
+    expect(updated?.delivery?.targets).toHaveLength(2);
+    expect(updated?.state.lastDeliveryStatus).toBe("delivered");
+    expect(updated?.state.lastDeliveryTargets).toEqual(deliveryTargets);
+
+    cron.stop();
+  });
+
   it("does not set lastDelivered for main session jobs", async () => {
     const store = await makeStorePath();
     const { cron, enqueueSystemEvent, finished } = createStartedCronServiceWithFinishedBarrier({
@@ -0,0 +1,176 @@
+import { describe, expect, it, vi } from "vitest";
+import { CronService } from "./service.js";
+import { setupCronServiceSuite } from "./service.test-harness.js";
+import type { CronJobCreate } from "./types.js";
+
+const { logger, makeStorePath } = setupCronServiceSuite({ prefix: "simpleclaw-cron-retry-" });
+
+function flakyJob(retry: CronJobCreate["retry"]): CronJobCreate {
+  return {
+    name: "flaky",
+    enabled: true,
+    schedule: { kind: "every", everyMs: 24 * 60 * 60_000 },
+    sessionTarget: "isolated",
+    wakeMode: "next-heartbeat",
+    payload: { kind: "agentTurn", message: "fetch the report" },
+    delivery: { mode: "none" },
+    retry,
+  };
+}
+
+describe("CronService retry policies", () => {
+  it("retries with exponential backoff and dead-letters the final failure", async () => {
+    const store = await makeStorePath();
+    const sendDeadLetter = vi.fn(async () => {});
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({ status: "error" as const, error: "upstream 503" })),
+      sendDeadLetter,
+    });
+    await cron.start();
+
+    const job = await cron.add(
+      flakyJob({
+        maxAttempts: 3,
+        backoffMs: 10_000,
+        deadLetter: { channel: "telegram", to: "42" },
+      }),
+    );
+    const now = Date.now();
+
+    await cron.run(job.id, "force");
+    let state = cron.getJob(job.id)?.state;
+    expect(state?.retryAttempt).toBe(1);
+    expect(state?.nextRunAtMs).toBe(now + 10_000);
+
+    await cron.run(job.id, "force");
+    state = cron.getJob(job.id)?.state;
+    expect(state?.retryAttempt).toBe(2);
+    expect(state?.nextRunAtMs).toBe(now + 20_000);
+    expect(sendDeadLetter).not.toHaveBeenCalled();
+
+    await cron.run(job.id, "force");
+    state = cron.getJob(job.id)?.state;
+    expect(state?.retryAttempt).toBeUndefined();
+    expect(state?.lastDeadLetterAtMs).toBe(now);
+    // Back on the regular schedule once retries are exhausted.
+    expect(state?.nextRunAtMs).toBeGreaterThan(now + 60 * 60_000);
+    expect(sendDeadLetter).toHaveBeenCalledTimes(1);
+    expect(sendDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        plan: expect.objectContaining({ channel: "telegram", to: "42", source: "dead-letter" }),
+        text: expect.stringContaining('Cron job "flaky"'),
+      }),
+    );
+    const text = (sendDeadLetter.mock.calls[0] as unknown as [{ text: string }])[0].text;
+    expect(text).toContain("failed after 3 attempts");
+    expect(text).toContain("upstream 503");
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("skips retries for failure kinds outside retryOn", async () => {
+    const store = await makeStorePath();
+    const sendDeadLetter = vi.fn(async () => {});
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      cronConfig: { deadLetter: { channel: "slack", to: "#ops" } },
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob: vi.fn(async () => ({
+        status: "error" as const,
+        error: "cron: job execution timed out",
+      })),
+      sendDeadLetter,
+    });
+    await cron.start();
+
+    const job = await cron.add(flakyJob({ maxAttempts: 5, retryOn: ["delivery-target"] }));
+    await cron.run(job.id, "force");
+
+    expect(cron.getJob(job.id)?.state.retryAttempt).toBeUndefined();
+    expect(sendDeadLetter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        plan: expect.objectContaining({ channel: "slack", to: "#ops" }),
+        text: expect.stringContaining("failed after 1 attempt."),
+      }),
+    );
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("clears the retry counter after a successful retry", async () => {
+    const store = await makeStorePath();
+    const runIsolatedAgentJob = vi
+      .fn()
+      .mockResolvedValueOnce({ status: "error", error: "boom" })
+      .mockResolvedValueOnce({ status: "ok", summary: "done" });
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+    });
+    await cron.start();
+
+    const job = await cron.add(flakyJob({ maxAttempts: 2 }));
+    await cron.run(job.id, "force");
+    expect(cron.getJob(job.id)?.state.retryAttempt).toBe(1);
+
+    await cron.run(job.id, "force");
+    const state = cron.getJob(job.id)?.state;
+    expect(state?.lastStatus).toBe("ok");
+    expect(state?.retryAttempt).toBeUndefined();
+    expect(state?.consecutiveErrors).toBe(0);
+
+    cron.stop();
+    await store.cleanup();
+  });
+
+  it("keeps the retry counter across skipped runs", async () => {
+    const store = await makeStorePath();
+    const sendDeadLetter = vi.fn(async () => {});
+    const runIsolatedAgentJob = vi
+      .fn()
+      .mockResolvedValueOnce({ status: "error", error: "boom" })
+      .mockResolvedValueOnce({ status: "skipped", error: "nothing to do" })
+      .mockResolvedValueOnce({ status: "error", error: "boom again" });
+    const cron = new CronService({
+      storePath: store.storePath,
+      cronEnabled: true,
+      log: logger,
+      enqueueSystemEvent: vi.fn(),
+      requestHeartbeatNow: vi.fn(),
+      runIsolatedAgentJob,
+      sendDeadLetter,
+    });
+    await cron.start();
+
+    const job = await cron.add(
+      flakyJob({ maxAttempts: 2, deadLetter: { channel: "telegram", to: "42" } }),
+    );
+    await cron.run(job.id, "force");
+    expect(cron.getJob(job.id)?.state.retryAttempt).toBe(1);
+
+    await cron.run(job.id, "force");
+    expect(cron.getJob(job.id)?.state.lastStatus).toBe("skipped");
+    expect(cron.getJob(job.id)?.state.retryAttempt).toBe(1);
+
+    await cron.run(job.id, "force");
+    expect(cron.getJob(job.id)?.state.retryAttempt).toBeUndefined();
+    expect(sendDeadLetter).toHaveBeenCalledTimes(1);
+
+    cron.stop();
+    await store.cleanup();
+  });
+});
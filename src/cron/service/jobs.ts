@@ -1,4 +1,14 @@
 import crypto from "node:crypto";
+import { assertCronScheduleExclusions } from "../calendar.js";
+import { assertCronDeliveryConditions } from "../delivery-conditions.js";
+import { assertCronDeliveryTargets, resolveCronDeliveryTargetKind } from "../delivery-targets.js";
+import {
+  findCronDependencyCycle,
+  isCronAfterSchedule,
+  listCronDependents,
+  matchesCronDependencyCondition,
+  resolveCronDependencyCondition,
+} from "../dependencies.js";
 import { parseAbsoluteTimeMs } from "../parse.js";
 import { computeNextRunAtMs } from "../schedule.js";
 import {
@@ -14,6 +24,9 @@ import type {
   CronJobPatch,
   CronPayload,
   CronPayloadPatch,
+  CronRunStatus,
+  CronSchedule,
+  CronScheduleExclusions,
 } from "../types.js";
 import { normalizeHttpWebhookUrl } from "../webhook-url.js";
 import {
@@ -83,6 +96,40 @@ export function assertSupportedJobSpec(job: Pick<CronJob, "sessionTarget" | "pay
   }
 }
 
+function hasScheduleExclusions(exclude: CronScheduleExclusions | undefined): boolean {
+  return Boolean(exclude?.windows?.length || exclude?.icsPath || exclude?.skipWeekdays?.length);
+}
+
+/** Drops empty exclusion blocks (an explicit `exclude: {}` clears them) and validates the rest. */
+function normalizeScheduleExclusions(schedule: CronSchedule): CronSchedule {
+  if (!("exclude" in schedule)) {
+    return schedule;
+  }
+  if (!hasScheduleExclusions(schedule.exclude)) {
+    const { exclude: _exclude, ...rest } = schedule;
+    return rest as CronSchedule;
+  }
+  assertCronScheduleExclusions(schedule.exclude ?? {});
+  return schedule;
+}
+
+function assertRetryPolicy(job: Pick<CronJob, "retry">) {
+  if (!job.retry) {
+    return;
+  }
+  const { maxAttempts } = job.retry;
+  if (typeof maxAttempts !== "number" || !Number.isInteger(maxAttempts) || maxAttempts < 1) {
+    throw new Error("cron retry.maxAttempts must be a positive integer");
+  }
+  const deadLetter = job.retry.deadLetter;
+  if (deadLetter?.channel === "telegram") {
+    const telegramError = validateTelegramDeliveryTarget(deadLetter.to);
+    if (telegramError) {
+      throw new Error(telegramError);
+    }
+  }
+}
+
 const TELEGRAM_TME_URL_REGEX = /^https?:\/\/t\.me\/|t\.me\//i;
 const TELEGRAM_SLASH_TOPIC_REGEX = /^-?\d+\/\d+$/;
 
@@ -104,6 +151,24 @@ function assertDeliverySupport(job: Pick<CronJob, "sessionTarget" | "delivery">)
   if (!job.delivery) {
     return;
   }
+  if (job.delivery.when?.length === 0) {
+    delete job.delivery.when;
+  }
+  if (job.delivery.when) {
+    if (job.delivery.mode === "webhook") {
+      throw new Error('cron delivery conditions are only supported for delivery.mode="announce"');
+    }
+    assertCronDeliveryConditions(job.delivery.when);
+  }
+  if (job.delivery.targets?.length === 0) {
+    delete job.delivery.targets;
+  }
+  if (job.delivery.targets) {
+    if (job.delivery.mode !== "announce") {
+      throw new Error('cron delivery targets are only supported for delivery.mode="announce"');
+    }
+    assertCronDeliveryTargets(job.delivery.targets);
+  }
   if (job.delivery.mode === "webhook") {
     const target = normalizeHttpWebhookUrl(job.delivery.to);
     if (!target) {
@@ -115,10 +180,15 @@ function assertDeliverySupport(job: Pick<CronJob, "sessionTarget" | "delivery">)
   if (job.sessionTarget !== "isolated") {
     throw new Error('cron channel delivery config is only supported for sessionTarget="isolated"');
   }
-  if (job.delivery.channel === "telegram") {
-    const telegramError = validateTelegramDeliveryTarget(job.delivery.to);
-    if (telegramError) {
-      throw new Error(telegramError);
+  const channelTargets = job.delivery.targets?.filter(
+    (target) => resolveCronDeliveryTargetKind(target) === "channel",
+  ) ?? [job.delivery];
+  for (const target of channelTargets) {
+    if (target.channel === "telegram") {
+      const telegramError = validateTelegramDeliveryTarget(target.to);
+      if (telegramError) {
+        throw new Error(telegramError);
+      }
     }
   }
 }
@@ -135,6 +205,10 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
   if (!job.enabled) {
     return undefined;
   }
+  if (job.schedule.kind === "after") {
+    // Dependent jobs only become due once an upstream completion is recorded.
+    return job.state.pendingTrigger?.finishedAtMs;
+  }
   if (job.schedule.kind === "every") {
     const everyMs = Math.max(1, Math.floor(job.schedule.everyMs));
     const lastRunAtMs = job.state.lastRunAtMs;
@@ -177,6 +251,89 @@ export function computeJobNextRunAtMs(job: CronJob, nowMs: number): number | und
   return next;
 }
 
+/**
+ * Validate a dependent (`schedule.kind="after"`) job against the current store:
+ * the upstream job must exist and the chain must not loop back on itself.
+ */
+export function assertJobDependencies(
+  state: CronServiceState,
+  job: Pick<CronJob, "id" | "schedule">,
+) {
+  if (!isCronAfterSchedule(job.schedule)) {
+    return;
+  }
+  const upstreamId = job.schedule.jobId;
+  if (upstreamId === job.id) {
+    throw new Error("cron job cannot depend on itself");
+  }
+  const jobs = (state.store?.jobs ?? []).filter((entry) => entry.id !== job.id);
+  if (!jobs.some((entry) => entry.id === upstreamId)) {
+    throw new Error(`unknown upstream cron job id: ${upstreamId}`);
+  }
+  const cycle = findCronDependencyCycle([...jobs, job], job.id);
+  if (cycle) {
+    throw new Error(`cron dependency cycle: ${cycle.join(" -> ")}`);
+  }
+}
+
+/**
+ * Refuse to remove a job while other jobs are scheduled `after` it, so no
+ * dependent is left pointing at a missing upstream.
+ */
+export function assertNoJobDependents(state: CronServiceState, jobId: string) {
+  const dependents = listCronDependents(state.store?.jobs ?? [], jobId);
+  if (dependents.length > 0) {
+    throw new Error(
+      `cron job ${jobId} has dependent jobs: ${dependents.map((job) => job.id).join(", ")}; ` +
+        "remove them or change their schedule first",
+    );
+  }
+}
+
+/**
+ * Mark enabled dependents of a finished job as due when the upstream outcome
+ * matches their `schedule.on` condition. Returns the triggered job ids.
+ */
+export function triggerDependentJobs(
+  state: CronServiceState,
+  upstream: Pick<CronJob, "id" | "name"> & { state?: CronJob["state"] },
+  result: { status: CronRunStatus; summary?: string; endedAt: number },
+): string[] {
+  const triggered: string[] = [];
+  if (upstream.state?.retryAttempt) {
+    // The upstream run has a retry pending; dependents wait for the final outcome.
+    return triggered;
+  }
+  for (const job of state.store?.jobs ?? []) {
+    if (!job.enabled || job.id === upstream.id || !isCronAfterSchedule(job.schedule)) {
+      continue;
+    }
+    if (job.schedule.jobId !== upstream.id) {
+      continue;
+    }
+    const condition = resolveCronDependencyCondition(job.schedule);
+    if (!matchesCronDependencyCondition(condition, result.status)) {
+      continue;
+    }
+    job.state.pendingTrigger = {
+      jobId: upstream.id,
+      jobName: upstream.name,
+      status: result.status,
+      summary: result.summary,
+      finishedAtMs: result.endedAt,
+    };
+    job.state.nextRunAtMs = result.endedAt;
+    triggered.push(job.id);
+  }
+  if (triggered.length > 0) {
+    state.deps.log.info(
+      { jobId: upstream.id, status: result.status, dependents: triggered },
+      "cron: triggered dependent jobs",
+    );
+  }
+  return triggered;
+}
+
 /** Maximum consecutive schedule errors before auto-disabling a job. */
 const MAX_SCHEDULE_ERRORS = 3;
 
@@ -366,6 +523,7 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
               : input.schedule;
           })()
         : input.schedule;
+  const scheduleWithExclusions = normalizeScheduleExclusions(schedule);
   const deleteAfterRun =
     typeof input.deleteAfterRun === "boolean"
       ? input.deleteAfterRun
@@ -383,16 +541,18 @@ export function createJob(state: CronServiceState, input: CronJobCreate): CronJo
     deleteAfterRun,
     createdAtMs: now,
     updatedAtMs: now,
-    schedule,
+    schedule: scheduleWithExclusions,
     sessionTarget: input.sessionTarget,
     wakeMode: input.wakeMode,
     payload: input.payload,
     delivery: input.delivery,
+    retry: input.retry,
     state: {
       ...input.state,
     },
   };
   assertSupportedJobSpec(job);
+  assertRetryPolicy(job);
   assertDeliverySupport(job);
   job.state.nextRunAtMs = computeJobNextRunAtMs(job, now);
   return job;
@@ -412,6 +572,7 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     job.deleteAfterRun = patch.deleteAfterRun;
   }
   if (patch.schedule) {
+    const previousSchedule = job.schedule;
     if (patch.schedule.kind === "cron") {
       const explicitStaggerMs = normalizeCronStaggerMs(patch.schedule.staggerMs);
       if (explicitStaggerMs !== undefined) {
@@ -428,6 +589,15 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
     } else {
       job.schedule = patch.schedule;
     }
+    // Calendar exclusions survive schedule edits unless the patch sets them.
+    const previousExclude = previousSchedule.exclude;
+    if (!("exclude" in patch.schedule) && previousExclude) {
+      job.schedule = { ...job.schedule, exclude: previousExclude };
+    }
+    job.schedule = normalizeScheduleExclusions(job.schedule);
+    if (job.schedule.kind !== "after") {
+      job.state.pendingTrigger = undefined;
+    }
   }
   if (patch.sessionTarget) {
     job.sessionTarget = patch.sessionTarget;
@@ -455,6 +625,10 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   if (job.sessionTarget === "main" && job.delivery?.mode !== "webhook") {
     job.delivery = undefined;
   }
+  if ("retry" in patch) {
+    job.retry = patch.retry ?? undefined;
+    job.state.retryAttempt = undefined;
+  }
   if (patch.state) {
     job.state = { ...job.state, ...patch.state };
   }
@@ -466,6 +640,7 @@ export function applyJobPatch(job: CronJob, patch: CronJobPatch) {
   }
   assertSupportedJobSpec(job);
   assertDeliverySupport(job);
+  assertRetryPolicy(job);
 }
 
 function mergeCronPayload(existing: CronPayload, patch: CronPayloadPatch): CronPayload {
@@ -592,6 +767,8 @@ function mergeCronDelivery(
     channel: existing?.channel,
     to: existing?.to,
     bestEffort: existing?.bestEffort,
+    when: existing?.when,
+    targets: existing?.targets,
   };
 
   if (typeof patch.mode === "string") {
@@ -605,8 +782,14 @@ function mergeCronDelivery(
     const to = typeof patch.to === "string" ? patch.to.trim() : "";
     next.to = to ? to : undefined;
   }
-  if (typeof patch.bestEffort === "boolean") {
-    next.bestEffort = patch.bestEffort;
+  if ("bestEffort" in patch) {
+    next.bestEffort = typeof patch.bestEffort === "boolean" ? patch.bestEffort : undefined;
+  }
+  if (Array.isArray(patch.when)) {
+    next.when = patch.when.length > 0 ? patch.when : undefined;
+  }
+  if (Array.isArray(patch.targets)) {
+    next.targets = patch.targets.length > 0 ? patch.targets : undefined;
   }
 
   return next;
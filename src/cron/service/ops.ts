@@ -1,6 +1,8 @@
 import type { CronJob, CronJobCreate, CronJobPatch } from "../types.js";
 import {
   applyJobPatch,
+  assertJobDependencies,
+  assertNoJobDependents,
   computeJobNextRunAtMs,
   createJob,
   findJobOrThrow,
@@ -8,6 +10,7 @@ import {
   nextWakeAtMs,
   recomputeNextRuns,
   recomputeNextRunsForMaintenance,
+  triggerDependentJobs,
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import type { CronServiceState } from "./state.js";
@@ -231,6 +234,7 @@ export async function add(state: CronServiceState, input: CronJobCreate) {
     warnIfDisabled(state, "add");
     await ensureLoaded(state);
     const job = createJob(state, input);
+    assertJobDependencies(state, job);
     state.store?.jobs.push(job);
 
     // Defensive: recompute all next-run times to ensure consistency
@@ -266,6 +270,9 @@ export async function update(state: CronServiceState, id: string, patch: CronJob
     await ensureLoaded(state, { skipRecompute: true });
     const job = findJobOrThrow(state, id);
     const now = state.deps.nowMs();
+    if (patch.schedule) {
+      assertJobDependencies(state, { id: job.id, schedule: patch.schedule });
+    }
     applyJobPatch(job, patch);
     if (job.schedule.kind === "every") {
       const anchor = job.schedule.anchorMs;
@@ -322,6 +329,7 @@ export async function remove(state: CronServiceState, id: string) {
     if (!state.store) {
       return { ok: false, removed: false } as const;
     }
+    assertNoJobDependents(state, id);
     state.store.jobs = state.store.jobs.filter((j) => j.id !== id);
     const removed = (state.store.jobs.length ?? 0) !== before;
     await persist(state);
@@ -377,7 +385,9 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
 
   let coreResult: Awaited<ReturnType<typeof executeJobCoreWithTimeout>>;
   try {
-    coreResult = await executeJobCoreWithTimeout(state, executionJob);
+    coreResult = await executeJobCoreWithTimeout(state, executionJob, {
+      forced: mode === "force",
+    });
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
@@ -393,7 +403,11 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
     const shouldDelete = applyJobResult(state, job, {
       status: coreResult.status,
       error: coreResult.error,
+      errorKind: coreResult.errorKind,
+      summary: coreResult.summary,
       delivered: coreResult.delivered,
+      deliverySkipReason: coreResult.deliverySkipReason,
+      deliveryTargets: coreResult.deliveryTargets,
       startedAt,
       endedAt,
     });
@@ -403,10 +417,12 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       action: "finished",
       status: coreResult.status,
       error: coreResult.error,
+      skipReason: coreResult.skipReason,
       summary: coreResult.summary,
       delivered: coreResult.delivered,
       deliveryStatus: job.state.lastDeliveryStatus,
       deliveryError: job.state.lastDeliveryError,
+      deliverySkipReason: coreResult.deliverySkipReason,
       sessionId: coreResult.sessionId,
       sessionKey: coreResult.sessionKey,
       runAtMs: startedAt,
@@ -442,6 +458,7 @@ export async function run(state: CronServiceState, id: string, mode?: "due" | "f
       snapshot: postRunSnapshot,
       removed: postRunRemoved,
     });
+    triggerDependentJobs(state, job, { ...coreResult, endedAt });
     recomputeNextRunsForMaintenance(state);
     await persist(state);
     armTimer(state);
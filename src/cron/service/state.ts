@@ -1,5 +1,6 @@
 import type { CronConfig } from "../../config/types.cron.js";
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
+import type { CronDeliveryPlan } from "../delivery.js";
 import type {
   CronDeliveryStatus,
   CronJob,
@@ -18,10 +19,12 @@ export type CronEvent = {
   durationMs?: number;
   status?: CronRunStatus;
   error?: string;
+  skipReason?: string;
   summary?: string;
   delivered?: boolean;
   deliveryStatus?: CronDeliveryStatus;
   deliveryError?: string;
+  deliverySkipReason?: string;
   sessionId?: string;
   sessionKey?: string;
   nextRunAtMs?: number;
@@ -83,6 +86,12 @@ export type CronServiceDeps = {
     } & CronRunOutcome &
       CronRunTelemetry
   >;
+  /** Announces a job failure once its retry policy is exhausted. */
+  sendDeadLetter?: (params: {
+    job: CronJob;
+    plan: CronDeliveryPlan;
+    text: string;
+  }) => Promise<void>;
   onEvent?: (evt: CronEvent) => void;
 };
 
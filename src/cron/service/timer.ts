@@ -1,6 +1,10 @@
 import type { HeartbeatRunResult } from "../../infra/heartbeat-wake.js";
 import { DEFAULT_AGENT_ID } from "../../routing/session-key.js";
-import { resolveCronDeliveryPlan } from "../delivery.js";
+import { hashCronSummary } from "../delivery-conditions.js";
+import { resolveCronDeadLetterPlan, resolveCronDeliveryPlan } from "../delivery.js";
+import { buildCronDependentMessage, listCronDependents } from "../dependencies.js";
+import { buildCronDeadLetterMessage, resolveCronRetryDecision } from "../retry.js";
+import { resolveCronScheduleSkip } from "../schedule.js";
 import { sweepCronRunSessions } from "../session-reaper.js";
 import type {
   CronDeliveryStatus,
@@ -14,6 +18,7 @@ import {
   nextWakeAtMs,
   recomputeNextRunsForMaintenance,
   resolveJobPayloadTextForMain,
+  triggerDependentJobs,
 } from "./jobs.js";
 import { locked } from "./locked.js";
 import type { CronEvent, CronServiceState } from "./state.js";
@@ -56,10 +61,39 @@ function resolveCronJobTimeoutMs(job: CronJob): number | undefined {
   return configuredTimeoutMs <= 0 ? undefined : configuredTimeoutMs;
 }
 
+/**
+ * Checks the schedule's calendar exclusions for the slot being run. A broken
+ * exclusion source (e.g. an unreadable ICS file) is logged and never blocks
+ * the run.
+ */
+function resolveExclusionSkip(state: CronServiceState, job: CronJob): CronRunOutcome | null {
+  if (!job.schedule.exclude) {
+    return null;
+  }
+  try {
+    const reason = resolveCronScheduleSkip(
+      job.schedule,
+      job.state.nextRunAtMs ?? state.deps.nowMs(),
+    );
+    return reason ? { status: "skipped", skipReason: reason } : null;
+  } catch (err) {
+    state.deps.log.warn(
+      { jobId: job.id, err: String(err) },
+      "cron: failed to evaluate schedule exclusions",
+    );
+    return null;
+  }
+}
+
 export async function executeJobCoreWithTimeout(
   state: CronServiceState,
   job: CronJob,
+  opts?: { forced?: boolean },
 ): Promise<Awaited<ReturnType<typeof executeJobCore>>> {
+  const excluded = opts?.forced ? null : resolveExclusionSkip(state, job);
+  if (excluded) {
+    return excluded;
+  }
   const jobTimeoutMs = resolveCronJobTimeoutMs(job);
   if (typeof jobTimeoutMs !== "number") {
     return await executeJobCore(state, job);
@@ -118,7 +152,14 @@ function errorBackoffMs(consecutiveErrors: number): number {
   return ERROR_BACKOFF_SCHEDULE_MS[Math.max(0, idx)];
 }
 
-function resolveDeliveryStatus(params: { job: CronJob; delivered?: boolean }): CronDeliveryStatus {
+function resolveDeliveryStatus(params: {
+  job: CronJob;
+  delivered?: boolean;
+  deliverySkipReason?: string;
+}): CronDeliveryStatus {
+  if (params.deliverySkipReason) {
+    return "suppressed";
+  }
   if (params.delivered === true) {
     return "delivered";
   }
@@ -128,10 +169,35 @@ function resolveDeliveryStatus(params: { job: CronJob; delivered?: boolean }): C
   return resolveCronDeliveryPlan(params.job).requested ? "unknown" : "not-requested";
 }
 
+function sendDeadLetter(
+  state: CronServiceState,
+  job: CronJob,
+  params: { error?: string; attempts: number; endedAt: number },
+) {
+  state.deps.log.warn(
+    { jobId: job.id, jobName: job.name, attempts: params.attempts, error: params.error },
+    "cron: retries exhausted",
+  );
+  const plan = resolveCronDeadLetterPlan(job, state.deps.cronConfig?.deadLetter);
+  if (!plan || !state.deps.sendDeadLetter) {
+    return;
+  }
+  job.state.lastDeadLetterAtMs = params.endedAt;
+  const text = buildCronDeadLetterMessage({
+    job,
+    error: params.error,
+    attempts: params.attempts,
+  });
+  void state.deps.sendDeadLetter({ job, plan, text }).catch((err) => {
+    state.deps.log.warn({ jobId: job.id, err: String(err) }, "cron: dead-letter delivery failed");
+  });
+}
+
 /**
  * Apply the result of a job execution to the job's state.
- * Handles consecutive error tracking, exponential backoff, one-shot disable,
- * and nextRunAtMs computation. Returns `true` if the job should be deleted.
+ * Handles retry policies, consecutive error tracking, exponential backoff,
+ * one-shot disable, and nextRunAtMs computation. Returns `true` if the job
+ * should be deleted.
  */
 export function applyJobResult(
   state: CronServiceState,
@@ -139,7 +205,11 @@ export function applyJobResult(
   result: {
     status: CronRunStatus;
     error?: string;
+    errorKind?: CronRunOutcome["errorKind"];
+    summary?: string;
     delivered?: boolean;
+    deliverySkipReason?: string;
+    deliveryTargets?: CronRunOutcome["deliveryTargets"];
     startedAt: number;
     endedAt: number;
   },
@@ -151,10 +221,19 @@ export function applyJobResult(
   job.state.lastDurationMs = Math.max(0, result.endedAt - result.startedAt);
   job.state.lastError = result.error;
   job.state.lastDelivered = result.delivered;
-  const deliveryStatus = resolveDeliveryStatus({ job, delivered: result.delivered });
+  const deliveryStatus = resolveDeliveryStatus({
+    job,
+    delivered: result.delivered,
+    deliverySkipReason: result.deliverySkipReason,
+  });
   job.state.lastDeliveryStatus = deliveryStatus;
   job.state.lastDeliveryError =
     deliveryStatus === "not-delivered" && result.error ? result.error : undefined;
+  job.state.lastDeliverySkipReason = result.deliverySkipReason;
+  job.state.lastDeliveryTargets = result.deliveryTargets;
+  if (result.status === "ok") {
+    job.state.lastSummaryHash = hashCronSummary(result.summary) ?? job.state.lastSummaryHash;
+  }
   job.updatedAtMs = result.endedAt;
 
   // Track consecutive errors for backoff / auto-disable.
@@ -164,8 +243,46 @@ export function applyJobResult(
     job.state.consecutiveErrors = 0;
   }
 
+  // Per-job retry policy: retry soon instead of waiting for the next slot, and
+  // hand the failure to the dead-letter target once attempts are used up.
+  if (result.status === "error" && job.retry && job.enabled) {
+    const decision = resolveCronRetryDecision({
+      policy: job.retry,
+      retriesSoFar: job.state.retryAttempt ?? 0,
+      result,
+    });
+    if (decision.action === "retry") {
+      job.state.retryAttempt = decision.attempt;
+      job.state.nextRunAtMs = result.endedAt + decision.delayMs;
+      state.deps.log.info(
+        {
+          jobId: job.id,
+          attempt: decision.attempt,
+          errorKind: decision.errorKind,
+          delayMs: decision.delayMs,
+          nextRunAtMs: job.state.nextRunAtMs,
+        },
+        "cron: scheduling retry",
+      );
+      return false;
+    }
+    job.state.retryAttempt = undefined;
+    sendDeadLetter(state, job, {
+      error: result.error,
+      attempts: decision.attempts,
+      endedAt: result.endedAt,
+    });
+  } else if (result.status !== "skipped") {
+    // A skipped run is not an attempt either way; the count carries over to the next run.
+    job.state.retryAttempt = undefined;
+  }
+
+  // One-shot jobs that other jobs run `after` are kept (disabled) so the chain stays intact.
   const shouldDelete =
-    job.schedule.kind === "at" && job.deleteAfterRun === true && result.status === "ok";
+    job.schedule.kind === "at" &&
+    job.deleteAfterRun === true &&
+    result.status === "ok" &&
+    listCronDependents(state.store?.jobs ?? [], job.id).length === 0;
 
   if (!shouldDelete) {
     if (job.schedule.kind === "at") {
@@ -185,6 +302,11 @@ export function applyJobResult(
           "cron: disabling one-shot job after error",
         );
       }
+    } else if (job.schedule.kind === "after") {
+      // Dependent jobs consume their upstream trigger and wait for the next
+      // upstream completion instead of backing off on their own clock.
+      job.state.pendingTrigger = undefined;
+      job.state.nextRunAtMs = undefined;
     } else if (result.status === "error" && job.enabled) {
       // Apply exponential backoff for errored jobs to prevent retry storms.
       const backoff = errorBackoffMs(job.state.consecutiveErrors ?? 1);
@@ -237,12 +359,17 @@ function applyOutcomeToStoredJob(state: CronServiceState, result: TimedCronRunOu
   const shouldDelete = applyJobResult(state, job, {
     status: result.status,
     error: result.error,
+    errorKind: result.errorKind,
+    summary: result.summary,
     delivered: result.delivered,
+    deliverySkipReason: result.deliverySkipReason,
+    deliveryTargets: result.deliveryTargets,
     startedAt: result.startedAt,
     endedAt: result.endedAt,
   });
 
   emitJobFinished(state, job, result, result.startedAt);
+  triggerDependentJobs(state, job, result);
 
   if (shouldDelete) {
     store.jobs = jobs.filter((entry) => entry.id !== job.id);
@@ -552,8 +679,12 @@ export async function runMissedJobs(
         jobId: candidate.jobId,
         status: result.status,
         error: result.error,
+        errorKind: result.errorKind,
+        skipReason: result.skipReason,
         summary: result.summary,
         delivered: result.delivered,
+        deliverySkipReason: result.deliverySkipReason,
+        deliveryTargets: result.deliveryTargets,
         sessionId: result.sessionId,
         sessionKey: result.sessionKey,
         model: result.model,
@@ -721,7 +852,7 @@ export async function executeJobCore(
 
   const res = await state.deps.runIsolatedAgentJob({
     job,
-    message: job.payload.message,
+    message: buildCronDependentMessage(job.payload.message, job.state.pendingTrigger),
     abortSignal,
   });
 
@@ -738,7 +869,8 @@ export async function executeJobCore(
   const summaryText = res.summary?.trim();
   const deliveryPlan = resolveCronDeliveryPlan(job);
   const suppressMainSummary =
-    res.status === "error" && res.errorKind === "delivery-target" && deliveryPlan.requested;
+    (res.status === "error" && res.errorKind === "delivery-target" && deliveryPlan.requested) ||
+    Boolean(res.deliverySkipReason);
   if (summaryText && deliveryPlan.requested && !res.delivered && !suppressMainSummary) {
     const prefix = "Cron";
     const label =
@@ -760,8 +892,11 @@ export async function executeJobCore(
   return {
     status: res.status,
     error: res.error,
+    errorKind: res.errorKind,
     summary: res.summary,
     delivered: res.delivered,
+    deliverySkipReason: res.deliverySkipReason,
+    deliveryTargets: res.deliveryTargets,
     sessionId: res.sessionId,
     sessionKey: res.sessionKey,
     model: res.model,
@@ -794,7 +929,7 @@ export async function executeJob(
   } & CronRunOutcome &
     CronRunTelemetry;
   try {
-    coreResult = await executeJobCore(state, job);
+    coreResult = resolveExclusionSkip(state, job) ?? (await executeJobCore(state, job));
   } catch (err) {
     coreResult = { status: "error", error: String(err) };
   }
@@ -803,12 +938,17 @@ export async function executeJob(
   const shouldDelete = applyJobResult(state, job, {
     status: coreResult.status,
     error: coreResult.error,
+    errorKind: coreResult.errorKind,
+    summary: coreResult.summary,
     delivered: coreResult.delivered,
+    deliverySkipReason: coreResult.deliverySkipReason,
+    deliveryTargets: coreResult.deliveryTargets,
     startedAt,
     endedAt,
   });
 
   emitJobFinished(state, job, coreResult, startedAt);
+  triggerDependentJobs(state, job, { ...coreResult, endedAt });
 
   if (shouldDelete && state.store) {
     state.store.jobs = state.store.jobs.filter((j) => j.id !== job.id);
@@ -831,10 +971,12 @@ function emitJobFinished(
     action: "finished",
     status: result.status,
     error: result.error,
+    skipReason: result.skipReason,
     summary: result.summary,
     delivered: result.delivered,
     deliveryStatus: job.state.lastDeliveryStatus,
     deliveryError: job.state.lastDeliveryError,
+    deliverySkipReason: result.deliverySkipReason,
     sessionId: result.sessionId,
     sessionKey: result.sessionKey,
     runAtMs,
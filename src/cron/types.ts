@@ -1,6 +1,6 @@
 import type { ChannelId } from "../channels/plugins/types.js";
 
-export type CronSchedule =
+export type CronSchedule = (
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
   | {
@@ -9,7 +9,38 @@ export type CronSchedule =
       tz?: string;
       /** Optional deterministic stagger window in milliseconds (0 keeps exact schedule). */
       staggerMs?: number;
-    };
+    }
+  | {
+      kind: "after";
+      /** Upstream job id whose completion triggers this job. */
+      jobId: string;
+      /** Upstream outcomes that trigger this job (default: "ok"). */
+      on?: CronDependencyCondition;
+    }
+) & {
+  /** Calendar modifier: due runs that fall inside an exclusion are recorded as skipped. */
+  exclude?: CronScheduleExclusions;
+};
+
+/**
+ * Blackout window. Plain `YYYY-MM-DD` bounds cover whole days in the schedule
+ * timezone; ISO timestamps are exact instants. `end` is inclusive.
+ */
+export type CronBlackoutWindow = {
+  start: string;
+  end?: string;
+  label?: string;
+};
+
+export type CronScheduleExclusions = {
+  windows?: CronBlackoutWindow[];
+  /** ICS calendar (e.g. public holidays) whose events act as blackout windows. */
+  icsPath?: string;
+  /** Weekdays to skip in the schedule timezone (0 = Sunday … 6 = Saturday). */
+  skipWeekdays?: number[];
+};
+
+export type CronDependencyCondition = "ok" | "error" | "always";
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -18,17 +49,95 @@ export type CronMessageChannel = ChannelId | "last";
 
 export type CronDeliveryMode = "none" | "announce" | "webhook";
 
+/**
+ * Rule that must hold for a run's output to be delivered. `regex` matches the
+ * output text, `jsonPath` reads a value from JSON output (truthy, or equal to
+ * `equals`), and `changed` requires the summary to differ from the last run.
+ */
+export type CronDeliveryCondition =
+  | { kind: "regex"; pattern: string; flags?: string; negate?: boolean }
+  | {
+      kind: "jsonPath";
+      path: string;
+      equals?: string | number | boolean | null;
+      negate?: boolean;
+    }
+  | { kind: "changed" };
+
+/**
+ * One destination of a fan-out delivery. `channel` targets post the run output
+ * to a chat; `webhook` targets POST it as JSON to the `to` URL.
+ */
+export type CronDeliveryTarget = {
+  /** Stable key for per-target state (default: `channel:to` or the webhook URL). */
+  id?: string;
+  kind?: "channel" | "webhook";
+  channel?: CronMessageChannel;
+  to?: string;
+  /** Overrides `delivery.bestEffort` for this target. */
+  bestEffort?: boolean;
+  /** `full` sends the whole reply (default); `summary` sends the short run summary. */
+  format?: "full" | "summary";
+  /** Text prepended to the delivered message. */
+  prefix?: string;
+};
+
+/** Outcome of one fan-out target for the last run. */
+export type CronDeliveryTargetOutcome = {
+  id: string;
+  status: "delivered" | "not-delivered";
+  error?: string;
+};
+
 export type CronDelivery = {
   mode: CronDeliveryMode;
   channel?: CronMessageChannel;
   to?: string;
   bestEffort?: boolean;
+  /** Fan out to several targets instead of `channel`/`to` (announce only; empty clears). */
+  targets?: CronDeliveryTarget[];
+  /** Conditions that must all pass before output is delivered (empty clears). */
+  when?: CronDeliveryCondition[];
+};
+
+/** `null` clears `channel`, `to`, or `bestEffort`. */
+export type CronDeliveryPatch = Partial<Omit<CronDelivery, "channel" | "to" | "bestEffort">> & {
+  channel?: CronMessageChannel | null;
+  to?: string | null;
+  bestEffort?: boolean | null;
 };
 
-export type CronDeliveryPatch = Partial<CronDelivery>;
+/** Failure classes a retry policy can opt into. */
+export type CronRetryErrorKind = "timeout" | "delivery-target" | "execution";
+
+/** Channel target that is notified when a job fails for good. */
+export type CronDeadLetterTarget = {
+  channel?: CronMessageChannel;
+  to?: string;
+};
+
+export type CronRetryPolicy = {
+  /** Total attempts per run, including the first one. */
+  maxAttempts: number;
+  /** Delay before the first retry (default: 30s). */
+  backoffMs?: number;
+  /** Growth factor applied to the delay for each further retry (default: 2). */
+  backoffMultiplier?: number;
+  /** Upper bound for a single retry delay (default: 1h). */
+  maxBackoffMs?: number;
+  /** Failure classes that are retried (default: all). */
+  retryOn?: CronRetryErrorKind[];
+  /** Announce target used once retries are exhausted (falls back to `cron.deadLetter`). */
+  deadLetter?: CronDeadLetterTarget;
+};
 
 export type CronRunStatus = "ok" | "error" | "skipped";
-export type CronDeliveryStatus = "delivered" | "not-delivered" | "unknown" | "not-requested";
+export type CronDeliveryStatus =
+  | "delivered"
+  | "not-delivered"
+  | "unknown"
+  | "not-requested"
+  | "suppressed";
 
 export type CronUsageSummary = {
   input_tokens?: number;
@@ -38,6 +147,15 @@ export type CronUsageSummary = {
   cache_write_tokens?: number;
 };
 
+/** Upstream completion recorded on a dependent job until it runs. */
+export type CronUpstreamTrigger = {
+  jobId: string;
+  jobName?: string;
+  status: CronRunStatus;
+  summary?: string;
+  finishedAtMs: number;
+};
+
 export type CronRunTelemetry = {
   model?: string;
   provider?: string;
@@ -49,6 +167,12 @@ export type CronRunOutcome = {
   error?: string;
   /** Optional classifier for execution errors to guide fallback behavior. */
   errorKind?: "delivery-target";
+  /** Why a run was skipped (e.g. a blackout window), when known. */
+  skipReason?: string;
+  /** Why delivery was suppressed by a `delivery.when` condition. */
+  deliverySkipReason?: string;
+  /** Per-target results when `delivery.targets` fans out. */
+  deliveryTargets?: CronDeliveryTargetOutcome[];
   summary?: string;
   sessionId?: string;
   sessionKey?: string;
@@ -103,8 +227,20 @@ export type CronJobState = {
   lastDeliveryStatus?: CronDeliveryStatus;
   /** Delivery-specific error text when available. */
   lastDeliveryError?: string;
+  /** Condition that suppressed the last delivery (`lastDeliveryStatus="suppressed"`). */
+  lastDeliverySkipReason?: string;
+  /** Hash of the last successful run summary, for `changed` delivery conditions. */
+  lastSummaryHash?: string;
+  /** Per-target delivery results of the last run (fan-out delivery only). */
+  lastDeliveryTargets?: CronDeliveryTargetOutcome[];
   /** Whether the last run's output was delivered to the target channel. */
   lastDelivered?: boolean;
+  /** Pending upstream completion for `schedule.kind="after"` jobs. */
+  pendingTrigger?: CronUpstreamTrigger;
+  /** Retries already spent on the current failing run (cleared once it settles). */
+  retryAttempt?: number;
+  /** When the last exhausted failure was handed to the dead-letter target. */
+  lastDeadLetterAtMs?: number;
 };
 
 export type CronJob = {
@@ -123,6 +259,7 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
   state: CronJobState;
 };
 
@@ -135,8 +272,12 @@ export type CronJobCreate = Omit<CronJob, "id" | "createdAtMs" | "updatedAtMs" |
   state?: Partial<CronJobState>;
 };
 
-export type CronJobPatch = Partial<Omit<CronJob, "id" | "createdAtMs" | "state" | "payload">> & {
+export type CronJobPatch = Partial<
+  Omit<CronJob, "id" | "createdAtMs" | "state" | "payload" | "delivery" | "retry">
+> & {
   payload?: CronPayloadPatch;
   delivery?: CronDeliveryPatch;
+  /** Replaces the retry policy; `null` removes it. */
+  retry?: CronRetryPolicy | null;
   state?: Partial<CronJobState>;
 };
@@ -0,0 +1,66 @@
+const MAX_DEDUPE_KEYS = 10_000;
+
+const rateWindows = new Map<string, number[]>();
+const dedupeKeys = new Map<string, number>();
+
+/**
+ * Sliding-window limiter per mapping. Returns the wait in ms until the next
+ * slot frees up, or 0 when the dispatch is allowed (and counted).
+ */
+export function consumeHookMappingRateLimit(params: {
+  mappingId: string;
+  max: number;
+  windowMs: number;
+  now?: number;
+}): number {
+  const now = params.now ?? Date.now();
+  const cutoff = now - params.windowMs;
+  const hits = (rateWindows.get(params.mappingId) ?? []).filter((at) => at > cutoff);
+  if (hits.length >= params.max) {
+    rateWindows.set(params.mappingId, hits);
+    return Math.max(1, hits[0] + params.windowMs - now);
+  }
+  hits.push(now);
+  rateWindows.set(params.mappingId, hits);
+  return 0;
+}
+
+/** True when the key was already seen for this mapping within its window. */
+export function isHookDedupeKeySeen(params: {
+  mappingId: string;
+  key: string;
+  now?: number;
+}): boolean {
+  const until = dedupeKeys.get(`${params.mappingId}\u0000${params.key}`);
+  return until !== undefined && until > (params.now ?? Date.now());
+}
+
+export function rememberHookDedupeKey(params: {
+  mappingId: string;
+  key: string;
+  windowMs: number;
+  now?: number;
+}) {
+  const now = params.now ?? Date.now();
+  for (const [entry, until] of dedupeKeys) {
+    if (until <= now) {
+      dedupeKeys.delete(entry);
+    }
+  }
+  while (dedupeKeys.size >= MAX_DEDUPE_KEYS) {
+    const oldest = dedupeKeys.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    dedupeKeys.delete(oldest);
+  }
+  const key = `${params.mappingId}\u0000${params.key}`;
+  // Re-insert so the Map order tracks recency for eviction.
+  dedupeKeys.delete(key);
+  dedupeKeys.set(key, now + params.windowMs);
+}
+
+export function resetHookMappingLimitsForTests() {
+  rateWindows.clear();
+  dedupeKeys.clear();
+}
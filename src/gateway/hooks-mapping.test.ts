@@ -1,8 +1,10 @@
+import { createHmac } from "node:crypto";
 import fs from "node:fs";
 import os from "node:os";
 import path from "node:path";
-import { describe, expect, it } from "vitest";
-import { applyHookMappings, resolveHookMappings } from "./hooks-mapping.js";
+import { beforeEach, describe, expect, it } from "vitest";
+import { resetHookMappingLimitsForTests } from "./hooks-mapping-limits.js";
+import { applyHookMappings, hasSignedHookMapping, resolveHookMappings } from "./hooks-mapping.js";
 
 const baseUrl = new URL("http://127.0.0.1:18789/hooks/gmail");
 
@@ -165,6 +167,41 @@ describe("hooks mapping", () => {
     }
   });
 
+  it("renders fan-out targets and rejects duplicates", async () => {
+    const result = await applyGmailMappings({
+      mappings: [
+        {
+          ...createGmailAgentMapping({ id: "demo", messageTemplate: "Subject: x" }),
+          targets: [
+            { channel: " Slack ", to: "channel:C1", prefix: "Mail: {{messages[0].subject}}" },
+            { kind: "webhook", to: "https://example.invalid/hook", bestEffort: true },
+          ],
+        },
+      ],
+    });
+    expect(result?.ok).toBe(true);
+    if (result?.ok && result.action?.kind === "agent") {
+      expect(result.action.targets).toEqual([
+        { channel: "slack", to: "channel:C1", prefix: "Mail: Hello" },
+        { kind: "webhook", to: "https://example.invalid/hook", bestEffort: true },
+      ]);
+    }
+
+    expect(() =>
+      resolveHookMappings({
+        mappings: [
+          {
+            ...createGmailAgentMapping({ id: "dup", messageTemplate: "x" }),
+            targets: [
+              { channel: "slack", to: "channel:C1" },
+              { channel: "slack", to: "channel:C1", format: "summary" },
+            ],
+          },
+        ],
+      }),
+    ).toThrow("Hook mapping dup: duplicate cron delivery target: slack:channel:C1");
+  });
+
   it("runs transform module", async () => {
     const configDir = fs.mkdtempSync(path.join(os.tmpdir(), "simpleclaw-config-"));
     const transformsRoot = path.join(configDir, "hooks", "transforms");
@@ -427,6 +464,162 @@ describe("hooks mapping", () => {
     }
   });
 
+  it("verifies signed mappings and rejects unsigned ones without the hook token", async () => {
+    const mappings = resolveHookMappings({
+      mappings: [
+        {
+          id: "github",
+          match: { path: "github" },
+          messageTemplate: "PR {{number}}",
+          signature: { provider: "github", secret: "s3cret" },
+        },
+        { id: "plain", match: { path: "plain" }, messageTemplate: "Plain" },
+      ],
+    });
+    expect(hasSignedHookMapping(mappings, "/github/")).toBe(true);
+    expect(hasSignedHookMapping(mappings, "plain")).toBe(false);
+
+    const rawBody = '{"number":7}';
+    const signed = await applyHookMappings(mappings, {
+      payload: { number: 7 },
+      headers: {
+        "x-hub-signature-256": `sha256=${createHmac("sha256", "s3cret").update(rawBody).digest("hex")}`,
+      },
+      url: new URL("http://127.0.0.1:18789/hooks/github"),
+      path: "github",
+      rawBody,
+      tokenVerified: false,
+    });
+    expectAgentMessage(signed, "PR 7");
+
+    const forged = await applyHookMappings(mappings, {
+      payload: { number: 7 },
+      headers: { "x-hub-signature-256": "sha256=00" },
+      url: new URL("http://127.0.0.1:18789/hooks/github"),
+      path: "github",
+      rawBody,
+      tokenVerified: true,
+    });
+    expect(forged).toEqual({ ok: false, error: "invalid signature", status: 401 });
+
+    const unsigned = await applyHookMappings(mappings, {
+      payload: {},
+      headers: {},
+      url: new URL("http://127.0.0.1:18789/hooks/plain"),
+      path: "plain",
+      tokenVerified: false,
+    });
+    expect(unsigned).toEqual({ ok: false, error: "Unauthorized", status: 401 });
+  });
+
+  describe("payload filters, rate limit and dedupe", () => {
+    beforeEach(() => {
+      resetHookMappingLimitsForTests();
+    });
+
+    const githubUrl = new URL("http://127.0.0.1:18789/hooks/github");
+    const mappings = resolveHookMappings({
+      mappings: [
+        {
+          id: "prs",
+          match: {
+            path: "github",
+            headers: { "X-GitHub-Event": { equals: "pull_request" } },
+            body: {
+              action: { in: ["opened", "reopened"] },
+              "$.pull_request.draft": { equals: false },
+              "pull_request.base.ref": { regex: "^(main|release/.+)$" },
+            },
+          },
+          agentId: "reviewer",
+          messageTemplate: "Review PR {{number}}",
+          dedupe: { key: "{{headers.x-github-delivery}}" },
+        },
+        {
+          id: "issues",
+          match: {
+            path: "github",
+            headers: { "x-github-event": { equals: "issues" } },
+            body: { "issue.assignee": { exists: false } },
+          },
+          agentId: "triage",
+          messageTemplate: "Triage issue {{issue.number}}",
+          rateLimit: { max: 2, windowSeconds: 60 },
+        },
+      ],
+    });
+
+    const deliver = (
+      event: string,
+      payload: Record<string, unknown>,
+      delivery = `d-${Math.random()}`,
+    ) =>
+      applyHookMappings(mappings, {
+        payload,
+        headers: { "x-github-event": event, "x-github-delivery": delivery },
+        url: githubUrl,
+        path: "github",
+      });
+
+    const pr = (action: string, draft = false, ref = "main") => ({
+      action,
+      number: 7,
+      pull_request: { draft, base: { ref } },
+    });
+
+    it("routes event types to different agents and templates", async () => {
+      const opened = await deliver("pull_request", pr("opened"));
+      expectAgentMessage(opened, "Review PR 7");
+      expect(opened?.ok && opened.action?.kind === "agent" && opened.action.agentId).toBe(
+        "reviewer",
+      );
+
+      const issue = await deliver("issues", { issue: { number: 3 } });
+      expectAgentMessage(issue, "Triage issue 3");
+      expect(issue?.ok && issue.action?.kind === "agent" && issue.action.agentId).toBe("triage");
+    });
+
+    it("acknowledges filtered events without dispatching", async () => {
+      expectSkippedTransformResult(await deliver("pull_request", pr("labeled")));
+      expectSkippedTransformResult(await deliver("pull_request", pr("opened", true)));
+      expectSkippedTransformResult(await deliver("pull_request", pr("opened", false, "dev")));
+      expectSkippedTransformResult(await deliver("issues", { issue: { assignee: "ada" } }));
+      expect(
+        await applyHookMappings(mappings, {
+          payload: {},
+          headers: {},
+          url: githubUrl,
+          path: "gitlab",
+        }),
+      ).toBeNull();
+    });
+
+    it("drops duplicate delivery keys", async () => {
+      expectAgentMessage(await deliver("pull_request", pr("opened"), "same"), "Review PR 7");
+      expectSkippedTransformResult(await deliver("pull_request", pr("opened"), "same"));
+    });
+
+    it("rate limits per mapping", async () => {
+      await deliver("issues", { issue: { number: 1 } });
+      await deliver("issues", { issue: { number: 2 } });
+      const limited = await deliver("issues", { issue: { number: 3 } });
+      expect(limited).toMatchObject({
+        ok: false,
+        error: "hook mapping rate limit exceeded",
+        status: 429,
+      });
+      expectAgentMessage(await deliver("pull_request", pr("opened")), "Review PR 7");
+    });
+
+    it("rejects invalid regex predicates", () => {
+      expect(() =>
+        resolveHookMappings({
+          mappings: [{ id: "bad", match: { body: { action: { regex: "(" } } } }],
+        }),
+      ).toThrow("Hook mapping bad: invalid regex for action");
+    });
+  });
+
   it("caches transform functions by module path and export name", async () => {
     const configDir = fs.mkdtempSync(path.join(os.tmpdir(), "simpleclaw-hooks-export-"));
     const transformsRoot = path.join(configDir, "hooks", "transforms");
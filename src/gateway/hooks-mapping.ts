@@ -1,13 +1,32 @@
 import fs from "node:fs";
 import path from "node:path";
-import { CONFIG_PATH, type HookMappingConfig, type HooksConfig } from "../config/config.js";
+import {
+  CONFIG_PATH,
+  type HookDeliveryTargetConfig,
+  type HookMappingConfig,
+  type HookMatchCondition,
+  type HooksConfig,
+} from "../config/config.js";
+import { assertCronDeliveryTargets } from "../cron/delivery-targets.js";
 import { importFileModule, resolveFunctionModuleExport } from "../hooks/module-loader.js";
+import {
+  consumeHookMappingRateLimit,
+  isHookDedupeKeySeen,
+  rememberHookDedupeKey,
+} from "./hooks-mapping-limits.js";
+import {
+  type HookSignatureResolved,
+  resolveHookSignature,
+  verifyHookSignature,
+} from "./hooks-signature.js";
 import type { HookMessageChannel } from "./hooks.js";
 
 export type HookMappingResolved = {
   id: string;
   matchPath?: string;
   matchSource?: string;
+  matchBody?: HookMatchConditionResolved[];
+  matchHeaders?: HookMatchConditionResolved[];
   action: "wake" | "agent";
   wakeMode?: "now" | "next-heartbeat";
   name?: string;
@@ -19,10 +38,23 @@ export type HookMappingResolved = {
   allowUnsafeExternalContent?: boolean;
   channel?: HookMessageChannel;
   to?: string;
+  targets?: HookDeliveryTargetConfig[];
   model?: string;
   thinking?: string;
   timeoutSeconds?: number;
   transform?: HookMappingTransformResolved;
+  signature?: HookSignatureResolved;
+  rateLimit?: { max: number; windowMs: number };
+  dedupe?: { keyTemplate: string; windowMs: number };
+};
+
+export type HookMatchConditionResolved = {
+  /** Payload path or lowercased header name. */
+  key: string;
+  equals?: string | number | boolean | null;
+  regex?: RegExp;
+  exists?: boolean;
+  in?: Array<string | number | boolean | null>;
 };
 
 export type HookMappingTransformResolved = {
@@ -35,6 +67,10 @@ export type HookMappingContext = {
   headers: Record<string, string>;
   url: URL;
   path: string;
+  /** Unparsed request body; required by mappings with a `signature`. */
+  rawBody?: string;
+  /** False when the request did not present the hooks token (only signed mappings accept it). */
+  tokenVerified?: boolean;
 };
 
 export type HookAction =
@@ -54,6 +90,7 @@ export type HookAction =
       allowUnsafeExternalContent?: boolean;
       channel?: HookMessageChannel;
       to?: string;
+      targets?: HookDeliveryTargetConfig[];
       model?: string;
       thinking?: string;
       timeoutSeconds?: number;
@@ -62,7 +99,7 @@ export type HookAction =
 export type HookMappingResult =
   | { ok: true; action: HookAction }
   | { ok: true; action: null; skipped: true }
-  | { ok: false; error: string };
+  | { ok: false; error: string; status?: number; retryAfterMs?: number };
 
 const hookPresetMappings: Record<string, HookMappingConfig[]> = {
   gmail: [
@@ -80,6 +117,9 @@ const hookPresetMappings: Record<string, HookMappingConfig[]> = {
   ],
 };
 
+const DEFAULT_RATE_LIMIT_WINDOW_SECONDS = 60;
+const DEFAULT_DEDUPE_WINDOW_SECONDS = 3600;
+
 const transformCache = new Map<string, HookTransformFn>();
 
 type HookTransformResult = Partial<{
@@ -95,6 +135,7 @@ type HookTransformResult = Partial<{
   allowUnsafeExternalContent: boolean;
   channel: HookMessageChannel;
   to: string;
+  targets: HookDeliveryTargetConfig[];
   model: string;
   thinking: string;
   timeoutSeconds: number;
@@ -157,10 +198,42 @@ export async function applyHookMappings(
   if (mappings.length === 0) {
     return null;
   }
+  // First mapping whose path/source matched but whose body/header predicates did not.
+  let filtered: HookMappingResolved | undefined;
   for (const mapping of mappings) {
     if (!mappingMatches(mapping, ctx)) {
       continue;
     }
+    if (!predicatesMatch(mapping, ctx)) {
+      filtered ??= mapping;
+      continue;
+    }
+    const denied = authorizeMapping(mapping, ctx);
+    if (denied) {
+      return denied;
+    }
+
+    const dedupeKey = mapping.dedupe ? renderTemplate(mapping.dedupe.keyTemplate, ctx).trim() : "";
+    if (dedupeKey && isHookDedupeKeySeen({ mappingId: mapping.id, key: dedupeKey })) {
+      return { ok: true, action: null, skipped: true };
+    }
+    if (mapping.rateLimit) {
+      const retryAfterMs = consumeHookMappingRateLimit({
+        mappingId: mapping.id,
+        max: mapping.rateLimit.max,
+        windowMs: mapping.rateLimit.windowMs,
+      });
+      if (retryAfterMs > 0) {
+        return { ok: false, error: "hook mapping rate limit exceeded", status: 429, retryAfterMs };
+      }
+    }
+    if (mapping.dedupe && dedupeKey) {
+      rememberHookDedupeKey({
+        mappingId: mapping.id,
+        key: dedupeKey,
+        windowMs: mapping.dedupe.windowMs,
+      });
+    }
 
     const base = buildActionFromMapping(mapping, ctx);
     if (!base.ok) {
@@ -185,9 +258,41 @@ export async function applyHookMappings(
     }
     return merged;
   }
+  if (filtered) {
+    // The endpoint is known but this event was filtered out: acknowledge without
+    // dispatching, once the caller is authorized for that mapping.
+    return authorizeMapping(filtered, ctx) ?? { ok: true, action: null, skipped: true };
+  }
   return null;
 }
 
+function authorizeMapping(
+  mapping: HookMappingResolved,
+  ctx: HookMappingContext,
+): HookMappingResult | undefined {
+  if (mapping.signature) {
+    const verified = verifyHookSignature(mapping.signature, {
+      mappingId: mapping.id,
+      rawBody: ctx.rawBody,
+      headers: ctx.headers,
+    });
+    if (!verified.ok) {
+      return { ok: false, error: verified.error, status: 401 };
+    }
+  } else if (ctx.tokenVerified === false) {
+    return { ok: false, error: "Unauthorized", status: 401 };
+  }
+  return undefined;
+}
+
+/** True when a signed mapping may accept requests for this path without the hooks token. */
+export function hasSignedHookMapping(mappings: HookMappingResolved[], path: string): boolean {
+  const normalized = normalizeMatchPath(path);
+  return mappings.some(
+    (mapping) => mapping.signature && (!mapping.matchPath || mapping.matchPath === normalized),
+  );
+}
+
 function normalizeHookMapping(
   mapping: HookMappingConfig,
   index: number,
@@ -196,6 +301,12 @@ function normalizeHookMapping(
   const id = mapping.id?.trim() || `mapping-${index + 1}`;
   const matchPath = normalizeMatchPath(mapping.match?.path);
   const matchSource = mapping.match?.source?.trim();
+  const matchBody = normalizeMatchConditions(id, mapping.match?.body, (key) =>
+    key.replace(/^\$\.?/, ""),
+  );
+  const matchHeaders = normalizeMatchConditions(id, mapping.match?.headers, (key) =>
+    key.toLowerCase(),
+  );
   const action = mapping.action ?? "agent";
   const wakeMode = mapping.wakeMode ?? "now";
   const transform = mapping.transform
@@ -209,6 +320,8 @@ function normalizeHookMapping(
     id,
     matchPath,
     matchSource,
+    matchBody,
+    matchHeaders,
     action,
     wakeMode,
     name: mapping.name,
@@ -220,13 +333,81 @@ function normalizeHookMapping(
     allowUnsafeExternalContent: mapping.allowUnsafeExternalContent,
     channel: mapping.channel,
     to: mapping.to,
+    targets: normalizeMappingTargets(id, mapping.targets),
     model: mapping.model,
     thinking: mapping.thinking,
     timeoutSeconds: mapping.timeoutSeconds,
     transform,
+    signature: resolveHookSignature(id, mapping.signature),
+    rateLimit: mapping.rateLimit
+      ? {
+          max: mapping.rateLimit.max,
+          windowMs: (mapping.rateLimit.windowSeconds ?? DEFAULT_RATE_LIMIT_WINDOW_SECONDS) * 1000,
+        }
+      : undefined,
+    dedupe: mapping.dedupe?.key.trim()
+      ? {
+          keyTemplate: mapping.dedupe.key,
+          windowMs: (mapping.dedupe.windowSeconds ?? DEFAULT_DEDUPE_WINDOW_SECONDS) * 1000,
+        }
+      : undefined,
   };
 }
 
+function normalizeMatchConditions(
+  id: string,
+  conditions: Record<string, HookMatchCondition> | undefined,
+  normalizeKey: (key: string) => string,
+): HookMatchConditionResolved[] | undefined {
+  if (!conditions) {
+    return undefined;
+  }
+  const resolved: HookMatchConditionResolved[] = [];
+  for (const [rawKey, condition] of Object.entries(conditions)) {
+    const key = normalizeKey(rawKey.trim());
+    if (!key) {
+      continue;
+    }
+    let regex: RegExp | undefined;
+    if (condition.regex !== undefined) {
+      try {
+        regex = new RegExp(condition.regex);
+      } catch (err) {
+        throw new Error(`Hook mapping ${id}: invalid regex for ${rawKey}`, { cause: err });
+      }
+    }
+    resolved.push({
+      key,
+      equals: condition.equals,
+      regex,
+      exists: condition.exists,
+      in: condition.in,
+    });
+  }
+  return resolved.length > 0 ? resolved : undefined;
+}
+
+function normalizeMappingTargets(
+  id: string,
+  targets: HookDeliveryTargetConfig[] | undefined,
+): HookDeliveryTargetConfig[] | undefined {
+  if (!targets || targets.length === 0) {
+    return undefined;
+  }
+  const normalized = targets.map((target) => ({
+    ...target,
+    channel: target.channel?.trim().toLowerCase() || undefined,
+  }));
+  try {
+    assertCronDeliveryTargets(normalized);
+  } catch (err) {
+    throw new Error(`Hook mapping ${id}: ${String(err instanceof Error ? err.message : err)}`, {
+      cause: err,
+    });
+  }
+  return normalized;
+}
+
 function mappingMatches(mapping: HookMappingResolved, ctx: HookMappingContext) {
   if (mapping.matchPath) {
     if (mapping.matchPath !== normalizeMatchPath(ctx.path)) {
@@ -242,6 +423,54 @@ function mappingMatches(mapping: HookMappingResolved, ctx: HookMappingContext) {
   return true;
 }
 
+function predicatesMatch(mapping: HookMappingResolved, ctx: HookMappingContext) {
+  if (
+    mapping.matchBody &&
+    !mapping.matchBody.every((condition) =>
+      conditionMatches(condition, getByPath(ctx.payload, condition.key)),
+    )
+  ) {
+    return false;
+  }
+  if (
+    mapping.matchHeaders &&
+    !mapping.matchHeaders.every((condition) =>
+      conditionMatches(condition, ctx.headers[condition.key]),
+    )
+  ) {
+    return false;
+  }
+  return true;
+}
+
+function conditionMatches(condition: HookMatchConditionResolved, value: unknown): boolean {
+  const present = value !== undefined;
+  const hasOperator =
+    condition.equals !== undefined || condition.regex !== undefined || condition.in !== undefined;
+  if (condition.exists !== undefined && condition.exists !== present) {
+    return false;
+  }
+  if (!hasOperator) {
+    // A bare condition (`{}`) means "field is present".
+    return condition.exists !== undefined || present;
+  }
+  if (condition.equals !== undefined && value !== condition.equals) {
+    return false;
+  }
+  if (condition.in !== undefined && !condition.in.some((entry) => entry === value)) {
+    return false;
+  }
+  if (condition.regex) {
+    if (typeof value !== "string" && typeof value !== "number" && typeof value !== "boolean") {
+      return false;
+    }
+    if (!condition.regex.test(String(value))) {
+      return false;
+    }
+  }
+  return true;
+}
+
 function buildActionFromMapping(
   mapping: HookMappingResolved,
   ctx: HookMappingContext,
@@ -271,6 +500,11 @@ function buildActionFromMapping(
       allowUnsafeExternalContent: mapping.allowUnsafeExternalContent,
       channel: mapping.channel,
       to: renderOptional(mapping.to, ctx),
+      targets: mapping.targets?.map((target) => ({
+        ...target,
+        to: renderOptional(target.to, ctx),
+        prefix: renderOptional(target.prefix, ctx),
+      })),
       model: renderOptional(mapping.model, ctx),
       thinking: renderOptional(mapping.thinking, ctx),
       timeoutSeconds: mapping.timeoutSeconds,
@@ -312,6 +546,7 @@ function mergeAction(
         : baseAgent?.allowUnsafeExternalContent,
     channel: override.channel ?? baseAgent?.channel,
     to: override.to ?? baseAgent?.to,
+    targets: override.targets ?? baseAgent?.targets,
     model: override.model ?? baseAgent?.model,
     thinking: override.thinking ?? baseAgent?.thinking,
     timeoutSeconds: override.timeoutSeconds ?? baseAgent?.timeoutSeconds,
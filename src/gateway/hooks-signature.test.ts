@@ -0,0 +1,109 @@
+import { createHmac } from "node:crypto";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  resetHookSignatureReplayCacheForTests,
+  resolveHookSignature,
+  verifyHookSignature,
+} from "./hooks-signature.js";
+
+const SECRET = "whsec_test";
+const BODY = '{"action":"opened","number":7}';
+const NOW = 1_760_000_000_000;
+const NOW_SECONDS = String(NOW / 1000);
+
+function hmac(payload: string, algorithm = "sha256", encoding: "hex" | "base64" = "hex") {
+  return createHmac(algorithm, SECRET).update(payload).digest(encoding);
+}
+
+beforeEach(() => {
+  resetHookSignatureReplayCacheForTests();
+});
+
+describe("verifyHookSignature", () => {
+  it("verifies GitHub signatures and rejects redelivered ids", () => {
+    const signature = resolveHookSignature("github", { provider: "github", secret: SECRET })!;
+    const headers = {
+      "x-hub-signature-256": `sha256=${hmac(BODY)}`,
+      "x-github-delivery": "delivery-1",
+    };
+    const verify = (rawBody = BODY, hdrs: Record<string, string> = headers) =>
+      verifyHookSignature(signature, { mappingId: "github", rawBody, headers: hdrs, now: NOW });
+
+    expect(verify(`${BODY} `)).toEqual({ ok: false, error: "invalid signature" });
+    expect(verify()).toEqual({ ok: true });
+    expect(verify()).toEqual({ ok: false, error: "replayed delivery" });
+    expect(verify(BODY, { ...headers, "x-github-delivery": "delivery-2" })).toEqual({ ok: true });
+    expect(verify(BODY, {})).toEqual({ ok: false, error: "missing x-hub-signature-256 header" });
+  });
+
+  it("verifies Stripe signatures within the timestamp tolerance", () => {
+    const signature = resolveHookSignature("stripe", { provider: "stripe", secret: SECRET })!;
+    const header = (t: number) =>
+      `t=${t},v1=deadbeef,v1=${hmac(`${t}.${BODY}`)},v0=${hmac(`${t}.${BODY}`, "sha1")}`;
+    const verify = (t: number) =>
+      verifyHookSignature(signature, {
+        mappingId: "stripe",
+        rawBody: BODY,
+        headers: { "stripe-signature": header(t) },
+        now: NOW,
+      });
+
+    expect(verify(NOW / 1000 - 301)).toEqual({
+      ok: false,
+      error: "signature timestamp outside tolerance",
+    });
+    expect(verify(NOW / 1000 - 60)).toEqual({ ok: true });
+    expect(verify(NOW / 1000 - 60)).toEqual({ ok: false, error: "replayed delivery" });
+  });
+
+  it("verifies Slack signing secrets", () => {
+    const signature = resolveHookSignature("slack", { provider: "slack", secret: SECRET })!;
+    const result = verifyHookSignature(signature, {
+      mappingId: "slack",
+      rawBody: BODY,
+      headers: {
+        "x-slack-signature": `v0=${hmac(`v0:${NOW_SECONDS}:${BODY}`)}`,
+        "x-slack-request-timestamp": NOW_SECONDS,
+      },
+      now: NOW,
+    });
+    expect(result).toEqual({ ok: true });
+
+    expect(
+      verifyHookSignature(signature, {
+        mappingId: "slack",
+        rawBody: BODY,
+        headers: { "x-slack-signature": `v0=${hmac(`v0:${NOW_SECONDS}:${BODY}`)}` },
+        now: NOW,
+      }),
+    ).toEqual({ ok: false, error: "missing x-slack-request-timestamp header" });
+  });
+
+  it("supports generic HMAC headers", () => {
+    const signature = resolveHookSignature("linear", {
+      provider: "hmac",
+      secret: SECRET,
+      header: "Linear-Signature",
+      encoding: "base64",
+      algorithm: "sha512",
+      timestampHeader: "X-Timestamp",
+    })!;
+    expect(signature.header).toBe("linear-signature");
+    const result = verifyHookSignature(signature, {
+      mappingId: "linear",
+      rawBody: BODY,
+      headers: {
+        "linear-signature": hmac(`${NOW_SECONDS}.${BODY}`, "sha512", "base64"),
+        "x-timestamp": NOW_SECONDS,
+      },
+      now: NOW,
+    });
+    expect(result).toEqual({ ok: true });
+  });
+
+  it("requires a secret", () => {
+    expect(() => resolveHookSignature("broken", { provider: "github", secret: " " })).toThrow(
+      "Hook mapping broken: signature.secret is required",
+    );
+  });
+});
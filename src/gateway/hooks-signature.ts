@@ -0,0 +1,220 @@
+import { createHmac } from "node:crypto";
+import type { HookMappingSignatureConfig, HookSignatureProvider } from "../config/config.js";
+import { safeEqualSecret } from "../security/secret-equal.js";
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+// Providers without a signed timestamp can only be deduped; remember deliveries for a day.
+const UNTIMED_REPLAY_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_REPLAY_ENTRIES = 10_000;
+
+export type HookSignatureResolved = {
+  provider: HookSignatureProvider;
+  secret: string;
+  header: string;
+  algorithm: "sha1" | "sha256" | "sha512";
+  encoding: "hex" | "base64";
+  prefix?: string;
+  timestampHeader?: string;
+  toleranceMs: number;
+  nonceHeader?: string;
+};
+
+export type HookSignatureContext = {
+  mappingId: string;
+  rawBody?: string;
+  headers: Record<string, string>;
+  now?: number;
+};
+
+export type HookSignatureResult = { ok: true } | { ok: false; error: string };
+
+const replayCache = new Map<string, number>();
+
+export function resolveHookSignature(
+  mappingId: string,
+  config: HookMappingSignatureConfig | undefined,
+): HookSignatureResolved | undefined {
+  if (!config) {
+    return undefined;
+  }
+  const secret = config.secret?.trim();
+  if (!secret) {
+    throw new Error(`Hook mapping ${mappingId}: signature.secret is required`);
+  }
+  const toleranceMs = (config.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS) * 1000;
+  const nonceHeader = normalizeHeaderName(config.nonceHeader);
+  switch (config.provider) {
+    case "github":
+      return {
+        provider: "github",
+        secret,
+        header: "x-hub-signature-256",
+        algorithm: "sha256",
+        encoding: "hex",
+        prefix: "sha256=",
+        toleranceMs,
+        nonceHeader: nonceHeader ?? "x-github-delivery",
+      };
+    case "stripe":
+      return {
+        provider: "stripe",
+        secret,
+        header: "stripe-signature",
+        algorithm: "sha256",
+        encoding: "hex",
+        toleranceMs,
+        nonceHeader,
+      };
+    case "slack":
+      return {
+        provider: "slack",
+        secret,
+        header: "x-slack-signature",
+        algorithm: "sha256",
+        encoding: "hex",
+        prefix: "v0=",
+        timestampHeader: "x-slack-request-timestamp",
+        toleranceMs,
+        nonceHeader,
+      };
+    default:
+      return {
+        provider: "hmac",
+        secret,
+        header: normalizeHeaderName(config.header) ?? "x-signature",
+        algorithm: config.algorithm ?? "sha256",
+        encoding: config.encoding ?? "hex",
+        prefix: config.prefix || undefined,
+        timestampHeader: normalizeHeaderName(config.timestampHeader),
+        toleranceMs,
+        nonceHeader,
+      };
+  }
+}
+
+/**
+ * Verify a provider signature over the raw request body, enforce the signed
+ * timestamp tolerance, and reject deliveries already seen for this mapping.
+ * The nonce is only recorded after the signature checks out so forged
+ * requests cannot poison the replay cache.
+ */
+export function verifyHookSignature(
+  signature: HookSignatureResolved,
+  ctx: HookSignatureContext,
+): HookSignatureResult {
+  if (typeof ctx.rawBody !== "string") {
+    return { ok: false, error: "signature requires the raw request body" };
+  }
+  const now = ctx.now ?? Date.now();
+  const headerValue = ctx.headers[signature.header]?.trim();
+  if (!headerValue) {
+    return { ok: false, error: `missing ${signature.header} header` };
+  }
+
+  let timestamp: string | undefined;
+  let candidates: string[];
+  if (signature.provider === "stripe") {
+    const parts = parseStripeSignatureHeader(headerValue);
+    timestamp = parts.timestamp;
+    candidates = parts.signatures;
+    if (!timestamp) {
+      return { ok: false, error: "missing signature timestamp" };
+    }
+  } else {
+    if (signature.timestampHeader) {
+      timestamp = ctx.headers[signature.timestampHeader]?.trim();
+      if (!timestamp) {
+        return { ok: false, error: `missing ${signature.timestampHeader} header` };
+      }
+    }
+    candidates = headerValue.split(",").map((value) => stripPrefix(value.trim(), signature.prefix));
+  }
+
+  if (timestamp !== undefined) {
+    const seconds = Number(timestamp);
+    if (!Number.isFinite(seconds) || Math.abs(now - seconds * 1000) > signature.toleranceMs) {
+      return { ok: false, error: "signature timestamp outside tolerance" };
+    }
+  }
+
+  const expected = createHmac(signature.algorithm, signature.secret)
+    .update(buildSignedPayload(signature, timestamp, ctx.rawBody))
+    .digest(signature.encoding);
+  const matched = candidates.find((candidate) =>
+    safeEqualSecret(signature.encoding === "hex" ? candidate.toLowerCase() : candidate, expected),
+  );
+  if (!matched) {
+    return { ok: false, error: "invalid signature" };
+  }
+
+  const nonce = (signature.nonceHeader && ctx.headers[signature.nonceHeader]?.trim()) || matched;
+  const replayWindowMs =
+    timestamp !== undefined ? signature.toleranceMs * 2 : UNTIMED_REPLAY_WINDOW_MS;
+  if (!rememberNonce(`${ctx.mappingId}:${nonce}`, now + replayWindowMs, now)) {
+    return { ok: false, error: "replayed delivery" };
+  }
+  return { ok: true };
+}
+
+function buildSignedPayload(
+  signature: HookSignatureResolved,
+  timestamp: string | undefined,
+  rawBody: string,
+): string {
+  if (signature.provider === "slack") {
+    return `v0:${timestamp}:${rawBody}`;
+  }
+  return timestamp !== undefined ? `${timestamp}.${rawBody}` : rawBody;
+}
+
+function parseStripeSignatureHeader(value: string): {
+  timestamp?: string;
+  signatures: string[];
+} {
+  let timestamp: string | undefined;
+  const signatures: string[] = [];
+  for (const part of value.split(",")) {
+    const [key, ...rest] = part.trim().split("=");
+    const entry = rest.join("=");
+    if (key === "t") {
+      timestamp = entry;
+    } else if (key === "v1" && entry) {
+      signatures.push(entry);
+    }
+  }
+  return { timestamp, signatures };
+}
+
+function stripPrefix(value: string, prefix: string | undefined): string {
+  return prefix && value.startsWith(prefix) ? value.slice(prefix.length) : value;
+}
+
+function normalizeHeaderName(raw: string | undefined): string | undefined {
+  const value = raw?.trim().toLowerCase();
+  return value ? value : undefined;
+}
+
+function rememberNonce(key: string, expiresAt: number, now: number): boolean {
+  const seenUntil = replayCache.get(key);
+  if (seenUntil !== undefined && seenUntil > now) {
+    return false;
+  }
+  for (const [entry, until] of replayCache) {
+    if (until <= now) {
+      replayCache.delete(entry);
+    }
+  }
+  while (replayCache.size >= MAX_REPLAY_ENTRIES) {
+    const oldest = replayCache.keys().next().value;
+    if (oldest === undefined) {
+      break;
+    }
+    replayCache.delete(oldest);
+  }
+  replayCache.set(key, expiresAt);
+  return true;
+}
+
+export function resetHookSignatureReplayCacheForTests() {
+  replayCache.clear();
+}
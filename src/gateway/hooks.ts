@@ -3,8 +3,12 @@ import type { IncomingMessage } from "node:http";
 import { listAgentIds, resolveDefaultAgentId } from "../agents/agent-scope.js";
 import { listChannelPlugins } from "../channels/plugins/index.js";
 import type { ChannelId } from "../channels/plugins/types.js";
-import type { SimpleClawConfig } from "../config/config.js";
-import { readJsonBodyWithLimit, requestBodyErrorToText } from "../infra/http-body.js";
+import type { HookDeliveryTargetConfig, SimpleClawConfig } from "../config/config.js";
+import {
+  isRequestBodyLimitError,
+  readRequestBodyWithLimit,
+  requestBodyErrorToText,
+} from "../infra/http-body.js";
 import { normalizeAgentId } from "../routing/session-key.js";
 import { normalizeMessageChannel } from "../utils/message-channel.js";
 import { type HookMappingResolved, resolveHookMappings } from "./hooks-mapping.js";
@@ -174,24 +178,35 @@ export function extractHookToken(req: IncomingMessage): string | undefined {
   return undefined;
 }
 
+/** Parses the hook body as JSON and keeps the raw text for signature verification. */
 export async function readJsonBody(
   req: IncomingMessage,
   maxBytes: number,
-): Promise<{ ok: true; value: unknown } | { ok: false; error: string }> {
-  const result = await readJsonBodyWithLimit(req, { maxBytes, emptyObjectOnEmpty: true });
-  if (result.ok) {
-    return result;
-  }
-  if (result.code === "PAYLOAD_TOO_LARGE") {
-    return { ok: false, error: "payload too large" };
+): Promise<{ ok: true; value: unknown; raw: string } | { ok: false; error: string }> {
+  let raw: string;
+  try {
+    raw = await readRequestBodyWithLimit(req, { maxBytes });
+  } catch (err) {
+    if (isRequestBodyLimitError(err, "PAYLOAD_TOO_LARGE")) {
+      return { ok: false, error: "payload too large" };
+    }
+    if (isRequestBodyLimitError(err, "REQUEST_BODY_TIMEOUT")) {
+      return { ok: false, error: "request body timeout" };
+    }
+    if (isRequestBodyLimitError(err, "CONNECTION_CLOSED")) {
+      return { ok: false, error: requestBodyErrorToText("CONNECTION_CLOSED") };
+    }
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
   }
-  if (result.code === "REQUEST_BODY_TIMEOUT") {
-    return { ok: false, error: "request body timeout" };
+  const trimmed = raw.trim();
+  if (!trimmed) {
+    return { ok: true, value: {}, raw };
   }
-  if (result.code === "CONNECTION_CLOSED") {
-    return { ok: false, error: requestBodyErrorToText("CONNECTION_CLOSED") };
+  try {
+    return { ok: true, value: JSON.parse(trimmed) as unknown, raw };
+  } catch (err) {
+    return { ok: false, error: err instanceof Error ? err.message : String(err) };
   }
-  return { ok: false, error: result.error };
 }
 
 export function normalizeHookHeaders(req: IncomingMessage) {
@@ -236,6 +251,8 @@ export type HookAgentPayload = {
 export type HookAgentDispatchPayload = Omit<HookAgentPayload, "sessionKey"> & {
   sessionKey: string;
   allowUnsafeExternalContent?: boolean;
+  /** Fan-out targets from a hook mapping; replaces `channel`/`to` when set. */
+  targets?: HookDeliveryTargetConfig[];
 };
 
 const listHookChannelValues = () => ["last", ...listChannelPlugins().map((plugin) => plugin.id)];
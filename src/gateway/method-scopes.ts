@@ -49,6 +49,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "status",
     "usage.status",
     "usage.cost",
+    "usage.budget",
     "tts.status",
     "tts.providers",
     "models.list",
@@ -66,6 +67,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "cron.list",
     "cron.status",
     "cron.runs",
+    "cron.runs.query",
     "system-presence",
     "last-heartbeat",
     "node.list",
@@ -75,6 +77,7 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "talk.config",
     "agents.files.list",
     "agents.files.get",
+    "agents.roster.list",
   ],
   [WRITE_SCOPE]: [
     "send",
@@ -91,6 +94,8 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "node.invoke",
     "chat.send",
     "chat.abort",
+    "genui.action",
+    "agents.roster.kill",
     "browser.request",
     "push.test",
   ],
@@ -116,6 +121,9 @@ const METHOD_SCOPE_GROUPS: Record<OperatorScope, readonly string[]> = {
     "set-heartbeats",
     "system-event",
     "agents.files.set",
+    "agents.roster.rename",
+    "agents.roster.reset",
+    "agents.roster.delete",
   ],
 };
 
@@ -31,6 +31,46 @@ describe("cron protocol validators", () => {
     expect(validateCronUpdateParams({ jobId: "job-2", patch: { enabled: true } })).toBe(true);
   });
 
+  it("accepts delivery conditions on add and update", () => {
+    const delivery = {
+      mode: "announce",
+      when: [
+        { kind: "regex", pattern: "down", flags: "i" },
+        { kind: "jsonPath", path: "$.alerts[0].level", equals: "high", negate: true },
+        { kind: "changed" },
+      ],
+    };
+    expect(
+      validateCronAddParams({ ...minimalAddParams, sessionTarget: "isolated", delivery }),
+    ).toBe(true);
+    expect(validateCronUpdateParams({ id: "job-1", patch: { delivery: { when: [] } } })).toBe(true);
+    expect(
+      validateCronUpdateParams({
+        id: "job-1",
+        patch: { delivery: { when: [{ kind: "regex" }] } },
+      }),
+    ).toBe(false);
+  });
+
+  it("accepts fan-out delivery targets", () => {
+    const delivery = {
+      mode: "announce",
+      targets: [
+        { channel: "slack", to: "channel:C1", format: "summary", prefix: "[ops]" },
+        { id: "audit", kind: "webhook", to: "https://example.invalid/cron", bestEffort: true },
+      ],
+    };
+    expect(
+      validateCronAddParams({ ...minimalAddParams, sessionTarget: "isolated", delivery }),
+    ).toBe(true);
+    expect(
+      validateCronUpdateParams({
+        id: "job-1",
+        patch: { delivery: { targets: [{ channel: "slack", format: "html" }] } },
+      }),
+    ).toBe(false);
+  });
+
   it("accepts remove params for id and jobId selectors", () => {
     expect(validateCronRemoveParams({ id: "job-1" })).toBe(true);
     expect(validateCronRemoveParams({ jobId: "job-2" })).toBe(true);
@@ -36,6 +36,18 @@ import {
   AgentsFilesSetParamsSchema,
   type AgentsFilesSetResult,
   AgentsFilesSetResultSchema,
+  type AgentsRosterEntry,
+  AgentsRosterEntrySchema,
+  type AgentsRosterListParams,
+  AgentsRosterListParamsSchema,
+  type AgentsRosterListResult,
+  AgentsRosterListResultSchema,
+  type AgentsRosterTargetParams,
+  AgentsRosterTargetParamsSchema,
+  type AgentsRosterRenameParams,
+  AgentsRosterRenameParamsSchema,
+  type AgentsRosterDeleteParams,
+  AgentsRosterDeleteParamsSchema,
   type AgentsListParams,
   AgentsListParamsSchema,
   type AgentsListResult,
@@ -87,6 +99,8 @@ import {
   CronRunParamsSchema,
   type CronRunsParams,
   CronRunsParamsSchema,
+  type CronRunsQueryParams,
+  CronRunsQueryParamsSchema,
   type CronStatusParams,
   CronStatusParamsSchema,
   type CronUpdateParams,
@@ -124,6 +138,8 @@ import {
   errorShape,
   type GatewayFrame,
   GatewayFrameSchema,
+  type GenUiActionParams,
+  GenUiActionParamsSchema,
   type HelloOk,
   HelloOkSchema,
   type LogsTailParams,
@@ -262,6 +278,18 @@ export const validateAgentsFilesGetParams = ajv.compile<AgentsFilesGetParams>(
 export const validateAgentsFilesSetParams = ajv.compile<AgentsFilesSetParams>(
   AgentsFilesSetParamsSchema,
 );
+export const validateAgentsRosterListParams = ajv.compile<AgentsRosterListParams>(
+  AgentsRosterListParamsSchema,
+);
+export const validateAgentsRosterTargetParams = ajv.compile<AgentsRosterTargetParams>(
+  AgentsRosterTargetParamsSchema,
+);
+export const validateAgentsRosterRenameParams = ajv.compile<AgentsRosterRenameParams>(
+  AgentsRosterRenameParamsSchema,
+);
+export const validateAgentsRosterDeleteParams = ajv.compile<AgentsRosterDeleteParams>(
+  AgentsRosterDeleteParamsSchema,
+);
 export const validateNodePairRequestParams = ajv.compile<NodePairRequestParams>(
   NodePairRequestParamsSchema,
 );
@@ -334,6 +362,8 @@ export const validateCronUpdateParams = ajv.compile<CronUpdateParams>(CronUpdate
 export const validateCronRemoveParams = ajv.compile<CronRemoveParams>(CronRemoveParamsSchema);
 export const validateCronRunParams = ajv.compile<CronRunParams>(CronRunParamsSchema);
 export const validateCronRunsParams = ajv.compile<CronRunsParams>(CronRunsParamsSchema);
+export const validateCronRunsQueryParams =
+  ajv.compile<CronRunsQueryParams>(CronRunsQueryParamsSchema);
 export const validateDevicePairListParams = ajv.compile<DevicePairListParams>(
   DevicePairListParamsSchema,
 );
@@ -376,6 +406,7 @@ export const validateChatSendParams = ajv.compile(ChatSendParamsSchema);
 export const validateChatAbortParams = ajv.compile<ChatAbortParams>(ChatAbortParamsSchema);
 export const validateChatInjectParams = ajv.compile<ChatInjectParams>(ChatInjectParamsSchema);
 export const validateChatEvent = ajv.compile(ChatEventSchema);
+export const validateGenUiActionParams = ajv.compile<GenUiActionParams>(GenUiActionParamsSchema);
 export const validateUpdateRunParams = ajv.compile<UpdateRunParams>(UpdateRunParamsSchema);
 export const validateWebLoginStartParams =
   ajv.compile<WebLoginStartParams>(WebLoginStartParamsSchema);
@@ -487,6 +518,12 @@ export {
   AgentsFilesGetResultSchema,
   AgentsFilesSetParamsSchema,
   AgentsFilesSetResultSchema,
+  AgentsRosterEntrySchema,
+  AgentsRosterListParamsSchema,
+  AgentsRosterListResultSchema,
+  AgentsRosterTargetParamsSchema,
+  AgentsRosterRenameParamsSchema,
+  AgentsRosterDeleteParamsSchema,
   AgentsListParamsSchema,
   AgentsListResultSchema,
   ModelsListParamsSchema,
@@ -502,11 +539,13 @@ export {
   CronRemoveParamsSchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronRunsQueryParamsSchema,
   LogsTailParamsSchema,
   LogsTailResultSchema,
   ChatHistoryParamsSchema,
   ChatSendParamsSchema,
   ChatInjectParamsSchema,
+  GenUiActionParamsSchema,
   UpdateRunParamsSchema,
   TickEventSchema,
   ShutdownEventSchema,
@@ -577,6 +616,12 @@ export type {
   AgentsFilesGetResult,
   AgentsFilesSetParams,
   AgentsFilesSetResult,
+  AgentsRosterEntry,
+  AgentsRosterListParams,
+  AgentsRosterListResult,
+  AgentsRosterTargetParams,
+  AgentsRosterRenameParams,
+  AgentsRosterDeleteParams,
   AgentsListParams,
   AgentsListResult,
   SkillsStatusParams,
@@ -609,6 +654,7 @@ export type {
   CronRemoveParams,
   CronRunParams,
   CronRunsParams,
+  CronRunsQueryParams,
   CronRunLogEntry,
   ExecApprovalsGetParams,
   ExecApprovalsSetParams,
@@ -618,4 +664,5 @@ export type {
   PollParams,
   UpdateRunParams,
   ChatInjectParams,
+  GenUiActionParams,
 };
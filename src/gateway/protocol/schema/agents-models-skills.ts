@@ -164,6 +164,74 @@ export const AgentsFilesSetResultSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const AgentsRosterEntrySchema = Type.Object(
+  {
+    name: NonEmptyString,
+    agentId: NonEmptyString,
+    sessionKey: NonEmptyString,
+    requesterSessionKey: NonEmptyString,
+    status: Type.Union([Type.Literal("idle"), Type.Literal("running")]),
+    model: Type.Optional(NonEmptyString),
+    createdAt: Type.Integer({ minimum: 0 }),
+    lastActiveAt: Type.Integer({ minimum: 0 }),
+    currentRunId: Type.Optional(NonEmptyString),
+    run: Type.Optional(
+      Type.Object(
+        {
+          runId: NonEmptyString,
+          task: Type.String(),
+          label: Type.Optional(Type.String()),
+          startedAt: Type.Optional(Type.Integer({ minimum: 0 })),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+  },
+  { additionalProperties: false },
+);
+
+export const AgentsRosterListParamsSchema = Type.Object(
+  {
+    agentId: Type.Optional(NonEmptyString),
+    requesterSessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const AgentsRosterListResultSchema = Type.Object(
+  {
+    entries: Type.Array(AgentsRosterEntrySchema),
+  },
+  { additionalProperties: false },
+);
+
+/** Targets one named agent; the requester is only needed when the name is ambiguous. */
+export const AgentsRosterTargetParamsSchema = Type.Object(
+  {
+    name: NonEmptyString,
+    requesterSessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const AgentsRosterRenameParamsSchema = Type.Object(
+  {
+    name: NonEmptyString,
+    newName: NonEmptyString,
+    requesterSessionKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
+
+export const AgentsRosterDeleteParamsSchema = Type.Object(
+  {
+    name: NonEmptyString,
+    requesterSessionKey: Type.Optional(NonEmptyString),
+    deleteSession: Type.Optional(Type.Boolean()),
+  },
+  { additionalProperties: false },
+);
+
 export const ModelsListParamsSchema = Type.Object({}, { additionalProperties: false });
 
 export const ModelsListResultSchema = Type.Object(
@@ -26,6 +26,11 @@ const CronRunStatusSchema = Type.Union([
   Type.Literal("error"),
   Type.Literal("skipped"),
 ]);
+const CronDependencyConditionSchema = Type.Union([
+  Type.Literal("ok"),
+  Type.Literal("error"),
+  Type.Literal("always"),
+]);
 const CronSortDirSchema = Type.Union([Type.Literal("asc"), Type.Literal("desc")]);
 const CronJobsEnabledFilterSchema = Type.Union([
   Type.Literal("all"),
@@ -53,6 +58,7 @@ const CronDeliveryStatusSchema = Type.Union([
   Type.Literal("not-delivered"),
   Type.Literal("unknown"),
   Type.Literal("not-requested"),
+  Type.Literal("suppressed"),
 ]);
 const CronCommonOptionalFields = {
   agentId: Type.Optional(Type.Union([NonEmptyString, Type.Null()])),
@@ -87,11 +93,36 @@ const CronRunLogJobIdSchema = Type.String({
   pattern: "^[^/\\\\]+$",
 });
 
+const CronScheduleExclusionsSchema = Type.Object(
+  {
+    windows: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            start: NonEmptyString,
+            end: Type.Optional(NonEmptyString),
+            label: Type.Optional(Type.String()),
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
+    icsPath: Type.Optional(NonEmptyString),
+    skipWeekdays: Type.Optional(Type.Array(Type.Integer({ minimum: 0, maximum: 6 }))),
+  },
+  { additionalProperties: false },
+);
+
+const CronScheduleModifierFields = {
+  exclude: Type.Optional(CronScheduleExclusionsSchema),
+};
+
 export const CronScheduleSchema = Type.Union([
   Type.Object(
     {
       kind: Type.Literal("at"),
       at: NonEmptyString,
+      ...CronScheduleModifierFields,
     },
     { additionalProperties: false },
   ),
@@ -100,6 +131,7 @@ export const CronScheduleSchema = Type.Union([
       kind: Type.Literal("every"),
       everyMs: Type.Integer({ minimum: 1 }),
       anchorMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      ...CronScheduleModifierFields,
     },
     { additionalProperties: false },
   ),
@@ -109,6 +141,16 @@ export const CronScheduleSchema = Type.Union([
       expr: NonEmptyString,
       tz: Type.Optional(Type.String()),
       staggerMs: Type.Optional(Type.Integer({ minimum: 0 })),
+      ...CronScheduleModifierFields,
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("after"),
+      jobId: NonEmptyString,
+      on: Type.Optional(CronDependencyConditionSchema),
+      ...CronScheduleModifierFields,
     },
     { additionalProperties: false },
   ),
@@ -136,9 +178,48 @@ export const CronPayloadPatchSchema = Type.Union([
   cronAgentTurnPayloadSchema({ message: Type.Optional(NonEmptyString) }),
 ]);
 
+const CronDeliveryConditionSchema = Type.Union([
+  Type.Object(
+    {
+      kind: Type.Literal("regex"),
+      pattern: NonEmptyString,
+      flags: Type.Optional(Type.String()),
+      negate: Type.Optional(Type.Boolean()),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object(
+    {
+      kind: Type.Literal("jsonPath"),
+      path: NonEmptyString,
+      equals: Type.Optional(
+        Type.Union([Type.String(), Type.Number(), Type.Boolean(), Type.Null()]),
+      ),
+      negate: Type.Optional(Type.Boolean()),
+    },
+    { additionalProperties: false },
+  ),
+  Type.Object({ kind: Type.Literal("changed") }, { additionalProperties: false }),
+]);
+
+const CronDeliveryTargetSchema = Type.Object(
+  {
+    id: Type.Optional(NonEmptyString),
+    kind: Type.Optional(Type.Union([Type.Literal("channel"), Type.Literal("webhook")])),
+    channel: Type.Optional(Type.Union([Type.Literal("last"), NonEmptyString])),
+    to: Type.Optional(Type.String()),
+    bestEffort: Type.Optional(Type.Boolean()),
+    format: Type.Optional(Type.Union([Type.Literal("full"), Type.Literal("summary")])),
+    prefix: Type.Optional(Type.String()),
+  },
+  { additionalProperties: false },
+);
+
 const CronDeliverySharedProperties = {
   channel: Type.Optional(Type.Union([Type.Literal("last"), NonEmptyString])),
   bestEffort: Type.Optional(Type.Boolean()),
+  when: Type.Optional(Type.Array(CronDeliveryConditionSchema)),
+  targets: Type.Optional(Type.Array(CronDeliveryTargetSchema)),
 };
 
 const CronDeliveryNoopSchema = Type.Object(
@@ -180,7 +261,35 @@ export const CronDeliveryPatchSchema = Type.Object(
       Type.Union([Type.Literal("none"), Type.Literal("announce"), Type.Literal("webhook")]),
     ),
     ...CronDeliverySharedProperties,
-    to: Type.Optional(Type.String()),
+    channel: Type.Optional(Type.Union([Type.Literal("last"), NonEmptyString, Type.Null()])),
+    to: Type.Optional(Type.Union([Type.String(), Type.Null()])),
+    bestEffort: Type.Optional(Type.Union([Type.Boolean(), Type.Null()])),
+  },
+  { additionalProperties: false },
+);
+
+const CronRetryErrorKindSchema = Type.Union([
+  Type.Literal("timeout"),
+  Type.Literal("delivery-target"),
+  Type.Literal("execution"),
+]);
+
+export const CronRetryPolicySchema = Type.Object(
+  {
+    maxAttempts: Type.Integer({ minimum: 1 }),
+    backoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    backoffMultiplier: Type.Optional(Type.Number({ minimum: 1 })),
+    maxBackoffMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    retryOn: Type.Optional(Type.Array(CronRetryErrorKindSchema, { minItems: 1, maxItems: 3 })),
+    deadLetter: Type.Optional(
+      Type.Object(
+        {
+          channel: Type.Optional(Type.Union([Type.Literal("last"), NonEmptyString])),
+          to: Type.Optional(Type.String()),
+        },
+        { additionalProperties: false },
+      ),
+    ),
   },
   { additionalProperties: false },
 );
@@ -198,6 +307,34 @@ export const CronJobStateSchema = Type.Object(
     lastDelivered: Type.Optional(Type.Boolean()),
     lastDeliveryStatus: Type.Optional(CronDeliveryStatusSchema),
     lastDeliveryError: Type.Optional(Type.String()),
+    lastDeliverySkipReason: Type.Optional(Type.String()),
+    lastSummaryHash: Type.Optional(Type.String()),
+    lastDeliveryTargets: Type.Optional(
+      Type.Array(
+        Type.Object(
+          {
+            id: NonEmptyString,
+            status: Type.Union([Type.Literal("delivered"), Type.Literal("not-delivered")]),
+            error: Type.Optional(Type.String()),
+          },
+          { additionalProperties: false },
+        ),
+      ),
+    ),
+    pendingTrigger: Type.Optional(
+      Type.Object(
+        {
+          jobId: NonEmptyString,
+          jobName: Type.Optional(Type.String()),
+          status: CronRunStatusSchema,
+          summary: Type.Optional(Type.String()),
+          finishedAtMs: Type.Integer({ minimum: 0 }),
+        },
+        { additionalProperties: false },
+      ),
+    ),
+    retryAttempt: Type.Optional(Type.Integer({ minimum: 0 })),
+    lastDeadLetterAtMs: Type.Optional(Type.Integer({ minimum: 0 })),
   },
   { additionalProperties: false },
 );
@@ -218,6 +355,7 @@ export const CronJobSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
     state: CronJobStateSchema,
   },
   { additionalProperties: false },
@@ -247,6 +385,7 @@ export const CronAddParamsSchema = Type.Object(
     wakeMode: CronWakeModeSchema,
     payload: CronPayloadSchema,
     delivery: Type.Optional(CronDeliverySchema),
+    retry: Type.Optional(CronRetryPolicySchema),
   },
   { additionalProperties: false },
 );
@@ -260,6 +399,7 @@ export const CronJobPatchSchema = Type.Object(
     wakeMode: Type.Optional(CronWakeModeSchema),
     payload: Type.Optional(CronPayloadPatchSchema),
     delivery: Type.Optional(CronDeliveryPatchSchema),
+    retry: Type.Optional(Type.Union([CronRetryPolicySchema, Type.Null()])),
     state: Type.Optional(Type.Partial(CronJobStateSchema)),
   },
   { additionalProperties: false },
@@ -294,6 +434,27 @@ export const CronRunsParamsSchema = Type.Object(
   { additionalProperties: false },
 );
 
+export const CronRunsQueryParamsSchema = Type.Object(
+  {
+    jobId: Type.Optional(CronRunLogJobIdSchema),
+    limit: Type.Optional(Type.Integer({ minimum: 1, maximum: 200 })),
+    offset: Type.Optional(Type.Integer({ minimum: 0 })),
+    statuses: Type.Optional(Type.Array(CronRunsStatusValueSchema, { minItems: 1, maxItems: 3 })),
+    deliveryStatuses: Type.Optional(
+      Type.Array(CronDeliveryStatusSchema, { minItems: 1, maxItems: 4 }),
+    ),
+    sinceMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    untilMs: Type.Optional(Type.Integer({ minimum: 0 })),
+    model: Type.Optional(NonEmptyString),
+    minTotalTokens: Type.Optional(Type.Integer({ minimum: 0 })),
+    query: Type.Optional(Type.String()),
+    sortDir: Type.Optional(CronSortDirSchema),
+    includeTranscript: Type.Optional(Type.Boolean()),
+    transcriptLimit: Type.Optional(Type.Integer({ minimum: 1, maximum: 1000 })),
+  },
+  { additionalProperties: false },
+);
+
 export const CronRunLogEntrySchema = Type.Object(
   {
     ts: Type.Integer({ minimum: 0 }),
@@ -301,6 +462,7 @@ export const CronRunLogEntrySchema = Type.Object(
     action: Type.Literal("finished"),
     status: Type.Optional(CronRunStatusSchema),
     error: Type.Optional(Type.String()),
+    skipReason: Type.Optional(Type.String()),
     summary: Type.Optional(Type.String()),
     delivered: Type.Optional(Type.Boolean()),
     deliveryStatus: Type.Optional(CronDeliveryStatusSchema),
@@ -0,0 +1,12 @@
+import { Type } from "@sinclair/typebox";
+import { NonEmptyString } from "./primitives.js";
+
+export const GenUiActionParamsSchema = Type.Object(
+  {
+    renderId: NonEmptyString,
+    action: NonEmptyString,
+    values: Type.Optional(Type.Record(Type.String(), Type.Unknown())),
+    idempotencyKey: Type.Optional(NonEmptyString),
+  },
+  { additionalProperties: false },
+);
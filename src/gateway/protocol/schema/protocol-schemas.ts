@@ -22,6 +22,12 @@ import {
   AgentsFilesListResultSchema,
   AgentsFilesSetParamsSchema,
   AgentsFilesSetResultSchema,
+  AgentsRosterEntrySchema,
+  AgentsRosterListParamsSchema,
+  AgentsRosterListResultSchema,
+  AgentsRosterTargetParamsSchema,
+  AgentsRosterRenameParamsSchema,
+  AgentsRosterDeleteParamsSchema,
   AgentsListParamsSchema,
   AgentsListResultSchema,
   AgentsUpdateParamsSchema,
@@ -67,6 +73,7 @@ import {
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronRunsQueryParamsSchema,
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
@@ -100,6 +107,7 @@ import {
   ShutdownEventSchema,
   TickEventSchema,
 } from "./frames.js";
+import { GenUiActionParamsSchema } from "./genui.js";
 import {
   ChatAbortParamsSchema,
   ChatEventSchema,
@@ -223,6 +231,12 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   AgentsFilesGetResult: AgentsFilesGetResultSchema,
   AgentsFilesSetParams: AgentsFilesSetParamsSchema,
   AgentsFilesSetResult: AgentsFilesSetResultSchema,
+  AgentsRosterEntry: AgentsRosterEntrySchema,
+  AgentsRosterListParams: AgentsRosterListParamsSchema,
+  AgentsRosterListResult: AgentsRosterListResultSchema,
+  AgentsRosterTargetParams: AgentsRosterTargetParamsSchema,
+  AgentsRosterRenameParams: AgentsRosterRenameParamsSchema,
+  AgentsRosterDeleteParams: AgentsRosterDeleteParamsSchema,
   AgentsListParams: AgentsListParamsSchema,
   AgentsListResult: AgentsListResultSchema,
   ModelChoice: ModelChoiceSchema,
@@ -246,6 +260,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   CronRemoveParams: CronRemoveParamsSchema,
   CronRunParams: CronRunParamsSchema,
   CronRunsParams: CronRunsParamsSchema,
+  CronRunsQueryParams: CronRunsQueryParamsSchema,
   CronRunLogEntry: CronRunLogEntrySchema,
   LogsTailParams: LogsTailParamsSchema,
   LogsTailResult: LogsTailResultSchema,
@@ -269,6 +284,7 @@ export const ProtocolSchemas: Record<string, TSchema> = {
   ChatAbortParams: ChatAbortParamsSchema,
   ChatInjectParams: ChatInjectParamsSchema,
   ChatEvent: ChatEventSchema,
+  GenUiActionParams: GenUiActionParamsSchema,
   UpdateRunParams: UpdateRunParamsSchema,
   TickEvent: TickEventSchema,
   ShutdownEvent: ShutdownEventSchema,
@@ -20,6 +20,12 @@ import type {
   AgentsFilesListResultSchema,
   AgentsFilesSetParamsSchema,
   AgentsFilesSetResultSchema,
+  AgentsRosterEntrySchema,
+  AgentsRosterListParamsSchema,
+  AgentsRosterListResultSchema,
+  AgentsRosterTargetParamsSchema,
+  AgentsRosterRenameParamsSchema,
+  AgentsRosterDeleteParamsSchema,
   AgentsListParamsSchema,
   AgentsListResultSchema,
   AgentsUpdateParamsSchema,
@@ -65,6 +71,7 @@ import type {
   CronRunLogEntrySchema,
   CronRunParamsSchema,
   CronRunsParamsSchema,
+  CronRunsQueryParamsSchema,
   CronStatusParamsSchema,
   CronUpdateParamsSchema,
 } from "./cron.js";
@@ -96,6 +103,7 @@ import type {
   ShutdownEventSchema,
   TickEventSchema,
 } from "./frames.js";
+import type { GenUiActionParamsSchema } from "./genui.js";
 import type {
   ChatAbortParamsSchema,
   ChatEventSchema,
@@ -212,6 +220,12 @@ export type AgentsFilesGetParams = Static<typeof AgentsFilesGetParamsSchema>;
 export type AgentsFilesGetResult = Static<typeof AgentsFilesGetResultSchema>;
 export type AgentsFilesSetParams = Static<typeof AgentsFilesSetParamsSchema>;
 export type AgentsFilesSetResult = Static<typeof AgentsFilesSetResultSchema>;
+export type AgentsRosterEntry = Static<typeof AgentsRosterEntrySchema>;
+export type AgentsRosterListParams = Static<typeof AgentsRosterListParamsSchema>;
+export type AgentsRosterListResult = Static<typeof AgentsRosterListResultSchema>;
+export type AgentsRosterTargetParams = Static<typeof AgentsRosterTargetParamsSchema>;
+export type AgentsRosterRenameParams = Static<typeof AgentsRosterRenameParamsSchema>;
+export type AgentsRosterDeleteParams = Static<typeof AgentsRosterDeleteParamsSchema>;
 export type AgentsListParams = Static<typeof AgentsListParamsSchema>;
 export type AgentsListResult = Static<typeof AgentsListResultSchema>;
 export type ModelChoice = Static<typeof ModelChoiceSchema>;
@@ -235,6 +249,7 @@ export type CronUpdateParams = Static<typeof CronUpdateParamsSchema>;
 export type CronRemoveParams = Static<typeof CronRemoveParamsSchema>;
 export type CronRunParams = Static<typeof CronRunParamsSchema>;
 export type CronRunsParams = Static<typeof CronRunsParamsSchema>;
+export type CronRunsQueryParams = Static<typeof CronRunsQueryParamsSchema>;
 export type CronRunLogEntry = Static<typeof CronRunLogEntrySchema>;
 export type LogsTailParams = Static<typeof LogsTailParamsSchema>;
 export type LogsTailResult = Static<typeof LogsTailResultSchema>;
@@ -254,6 +269,7 @@ export type DeviceTokenRevokeParams = Static<typeof DeviceTokenRevokeParamsSchem
 export type ChatAbortParams = Static<typeof ChatAbortParamsSchema>;
 export type ChatInjectParams = Static<typeof ChatInjectParamsSchema>;
 export type ChatEvent = Static<typeof ChatEventSchema>;
+export type GenUiActionParams = Static<typeof GenUiActionParamsSchema>;
 export type UpdateRunParams = Static<typeof UpdateRunParamsSchema>;
 export type TickEvent = Static<typeof TickEventSchema>;
 export type ShutdownEvent = Static<typeof ShutdownEventSchema>;
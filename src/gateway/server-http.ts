@@ -37,7 +37,7 @@ import {
   handleControlUiHttpRequest,
   type ControlUiRootState,
 } from "./control-ui.js";
-import { applyHookMappings } from "./hooks-mapping.js";
+import { applyHookMappings, hasSignedHookMapping } from "./hooks-mapping.js";
 import {
   extractHookToken,
   getHookAgentPolicyError,
@@ -243,9 +243,19 @@ export function createHooksRequestHandler(
       return true;
     }
 
+    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     const token = extractHookToken(req);
     const clientKey = resolveHookClientKey(req);
-    if (!safeEqualSecret(token, hooksConfig.token)) {
+    const tokenVerified = safeEqualSecret(token, hooksConfig.token);
+    // Provider webhooks (GitHub, Stripe, Slack, ...) cannot send the hook token; signed
+    // mappings authenticate them by signature once the body has been read.
+    const signatureOnly =
+      !tokenVerified &&
+      req.method === "POST" &&
+      subPath !== "wake" &&
+      subPath !== "agent" &&
+      hasSignedHookMapping(hooksConfig.mappings, subPath);
+    if (!tokenVerified) {
       const throttle = hookAuthLimiter.check(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
       if (!throttle.allowed) {
         const retryAfter = throttle.retryAfterMs > 0 ? Math.ceil(throttle.retryAfterMs / 1000) : 1;
@@ -256,13 +266,16 @@ export function createHooksRequestHandler(
         logHooks.warn(`hook auth throttled for ${clientKey}; retry-after=${retryAfter}s`);
         return true;
       }
-      hookAuthLimiter.recordFailure(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
-      res.statusCode = 401;
-      res.setHeader("Content-Type", "text/plain; charset=utf-8");
-      res.end("Unauthorized");
-      return true;
+      if (!signatureOnly) {
+        hookAuthLimiter.recordFailure(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
+        res.statusCode = 401;
+        res.setHeader("Content-Type", "text/plain; charset=utf-8");
+        res.end("Unauthorized");
+        return true;
+      }
+    } else {
+      hookAuthLimiter.reset(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
     }
-    hookAuthLimiter.reset(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
 
     if (req.method !== "POST") {
       res.statusCode = 405;
@@ -272,7 +285,6 @@ export function createHooksRequestHandler(
       return true;
     }
 
-    const subPath = url.pathname.slice(basePath.length).replace(/^\/+/, "");
     if (!subPath) {
       res.statusCode = 404;
       res.setHeader("Content-Type", "text/plain; charset=utf-8");
@@ -341,10 +353,21 @@ export function createHooksRequestHandler(
           headers,
           url,
           path: subPath,
+          rawBody: body.raw,
+          tokenVerified,
         });
         if (mapped) {
           if (!mapped.ok) {
-            sendJson(res, 400, { ok: false, error: mapped.error });
+            if (mapped.status === 401) {
+              if (!tokenVerified) {
+                hookAuthLimiter.recordFailure(clientKey, AUTH_RATE_LIMIT_SCOPE_HOOK_AUTH);
+              }
+              logHooks.warn(`hook signature rejected for ${clientKey}: ${mapped.error}`);
+            }
+            if (mapped.status === 429 && mapped.retryAfterMs) {
+              res.setHeader("Retry-After", String(Math.ceil(mapped.retryAfterMs / 1000)));
+            }
+            sendJson(res, mapped.status ?? 400, { ok: false, error: mapped.error });
             return true;
           }
           if (mapped.action === null) {
@@ -387,6 +410,7 @@ export function createHooksRequestHandler(
             deliver: resolveHookDeliver(mapped.action.deliver),
             channel,
             to: mapped.action.to,
+            targets: mapped.action.targets,
             model: mapped.action.model,
             thinking: mapped.action.thinking,
             timeoutSeconds: mapped.action.timeoutSeconds,
@@ -10,6 +10,7 @@ const BASE_METHODS = [
   "status",
   "usage.status",
   "usage.cost",
+  "usage.budget",
   "tts.status",
   "tts.providers",
   "tts.enable",
@@ -43,6 +44,11 @@ const BASE_METHODS = [
   "agents.files.list",
   "agents.files.get",
   "agents.files.set",
+  "agents.roster.list",
+  "agents.roster.rename",
+  "agents.roster.reset",
+  "agents.roster.delete",
+  "agents.roster.kill",
   "skills.status",
   "skills.bins",
   "skills.install",
@@ -83,6 +89,7 @@ const BASE_METHODS = [
   "cron.remove",
   "cron.run",
   "cron.runs",
+  "cron.runs.query",
   "system-presence",
   "system-event",
   "send",
@@ -94,6 +101,7 @@ const BASE_METHODS = [
   "chat.history",
   "chat.abort",
   "chat.send",
+  "genui.action",
 ];
 
 export function listGatewayMethods(): string[] {
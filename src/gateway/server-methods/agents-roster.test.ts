@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  listRoster,
+  lookupNamedAgent,
+  markNamedAgentIdle,
+  registerNamedAgent,
+  resetRosterForTests,
+} from "../../agents/subagent-roster.js";
+import { ErrorCodes } from "../protocol/index.js";
+import { agentsRosterHandlers } from "./agents-roster.js";
+
+const mocks = vi.hoisted(() => ({
+  killSubagentSession: vi.fn(async () => ({ killed: true, cascadeKilled: 1 })),
+  sessionsReset: vi.fn(),
+  sessionsDelete: vi.fn(),
+}));
+vi.mock("../../agents/subagent-kill.js", () => ({
+  killSubagentSession: mocks.killSubagentSession,
+}));
+vi.mock("../../config/config.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../../config/config.js")>()),
+  loadConfig: () => ({}),
+}));
+vi.mock("./sessions.js", () => ({
+  sessionsHandlers: {
+    "sessions.reset": mocks.sessionsReset,
+    "sessions.delete": mocks.sessionsDelete,
+  },
+}));
+
+type RespondCall = [boolean, unknown?, { code: number; message: string }?];
+
+async function invoke(method: string, params: Record<string, unknown>) {
+  const respond = vi.fn();
+  await agentsRosterHandlers[method]({
+    params,
+    respond: respond as never,
+    context: {} as never,
+    client: null,
+    req: { type: "req", id: "req-1", method },
+    isWebchatConnect: () => false,
+  });
+  return respond.mock.calls[0] as RespondCall | undefined;
+}
+
+function register(name: string, requesterSessionKey = "agent:main:main", agentId = "main") {
+  return registerNamedAgent({
+    name,
+    agentId,
+    sessionKey: `agent:${agentId}:subagent:${name}-${requesterSessionKey.length}`,
+    requesterSessionKey,
+    model: "anthropic/claude-haiku",
+    runId: `run-${name}`,
+  });
+}
+
+describe("agents.roster handlers", () => {
+  beforeEach(() => {
+    resetRosterForTests();
+    mocks.sessionsReset.mockImplementation(({ respond }) => respond(true, { ok: true }));
+    mocks.sessionsDelete.mockImplementation(({ respond }) => respond(true, { ok: true }));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("lists entries across requesters, filtered by agent", async () => {
+    register("researcher");
+    register("coder", "agent:ops:main", "ops");
+
+    const all = await invoke("agents.roster.list", {});
+    expect(all).toBeDefined();
+    if (!all) {
+      throw new Error("expected a response");
+    }
+    expect(all[0]).toBe(true);
+    expect((all[1] as { entries: Array<{ name: string }> }).entries.map((e) => e.name)).toEqual([
+      "researcher",
+      "coder",
+    ]);
+
+    const ops = await invoke("agents.roster.list", { agentId: "ops" });
+    expect(ops?.[1]).toEqual({
+      entries: [
+        expect.objectContaining({
+          name: "coder",
+          requesterSessionKey: "agent:ops:main",
+          status: "running",
+          model: "anthropic/claude-haiku",
+          currentRunId: "run-coder",
+        }),
+      ],
+    });
+  });
+
+  it("renames and rejects name collisions", async () => {
+    register("researcher");
+    register("writer");
+
+    const clash = await invoke("agents.roster.rename", { name: "researcher", newName: "Writer" });
+    expect(clash?.[0]).toBe(false);
+    expect(clash?.[2]?.code).toBe(ErrorCodes.INVALID_REQUEST);
+
+    const ok = await invoke("agents.roster.rename", { name: "researcher", newName: "scout" });
+    expect(ok?.[0]).toBe(true);
+    expect(lookupNamedAgent("agent:main:main", "scout")?.sessionKey).toBe(
+      "agent:main:subagent:researcher-15",
+    );
+    expect(lookupNamedAgent("agent:main:main", "researcher")).toBeUndefined();
+  });
+
+  it("asks for the requester when a name is ambiguous", async () => {
+    register("researcher");
+    register("researcher", "agent:ops:main", "ops");
+
+    const call = await invoke("agents.roster.kill", { name: "researcher" });
+    expect(call?.[0]).toBe(false);
+    expect(call?.[2]?.message).toContain("pass requesterSessionKey");
+
+    const scoped = await invoke("agents.roster.kill", {
+      name: "researcher",
+      requesterSessionKey: "agent:ops:main",
+    });
+    expect(scoped?.[1]).toEqual({ ok: true, name: "researcher", killed: true, cascadeKilled: 1 });
+    expect(mocks.killSubagentSession).toHaveBeenCalledWith({
+      cfg: {},
+      requesterSessionKey: "agent:ops:main",
+      childSessionKey: "agent:ops:subagent:researcher-14",
+    });
+    expect(lookupNamedAgent("agent:ops:main", "researcher")?.status).toBe("idle");
+  });
+
+  it("does not kill idle agents", async () => {
+    register("researcher");
+    markNamedAgentIdle("agent:main:main", "researcher");
+    const call = await invoke("agents.roster.kill", { name: "researcher" });
+    expect(call?.[1]).toEqual({ ok: true, name: "researcher", killed: false, cascadeKilled: 0 });
+    expect(mocks.killSubagentSession).not.toHaveBeenCalled();
+  });
+
+  it("resets the child session and keeps the roster entry", async () => {
+    register("researcher");
+    const call = await invoke("agents.roster.reset", { name: "researcher" });
+    expect(call?.[1]).toEqual({ ok: true, name: "researcher", killed: true });
+    expect(mocks.sessionsReset).toHaveBeenCalledWith(
+      expect.objectContaining({
+        params: { key: "agent:main:subagent:researcher-15", reason: "reset" },
+      }),
+    );
+    expect(listRoster("agent:main:main")).toHaveLength(1);
+  });
+
+  it("deletes the entry and optionally its session", async () => {
+    register("researcher");
+    register("writer");
+
+    await invoke("agents.roster.delete", { name: "researcher" });
+    expect(mocks.sessionsDelete).not.toHaveBeenCalled();
+
+    mocks.sessionsDelete.mockImplementationOnce(({ respond }) =>
+      respond(false, undefined, { code: ErrorCodes.INVALID_REQUEST, message: "nope" }),
+    );
+    const failed = await invoke("agents.roster.delete", { name: "writer", deleteSession: true });
+    expect(failed?.[0]).toBe(false);
+    expect(lookupNamedAgent("agent:main:main", "writer")).toBeDefined();
+
+    const deleted = await invoke("agents.roster.delete", { name: "writer", deleteSession: true });
+    expect(deleted?.[1]).toEqual(expect.objectContaining({ ok: true, sessionDeleted: true }));
+    expect(listRoster("agent:main:main")).toEqual([]);
+  });
+});
@@ -0,0 +1,233 @@
+import { killSubagentSession } from "../../agents/subagent-kill.js";
+import { listSubagentRunsForRequester } from "../../agents/subagent-registry.js";
+import {
+  findNamedAgentsByName,
+  listAllRosterEntries,
+  markNamedAgentIdle,
+  renameNamedAgent,
+  retireNamedAgent,
+  type RosterSnapshot,
+} from "../../agents/subagent-roster.js";
+import { loadConfig } from "../../config/config.js";
+import {
+  type AgentsRosterEntry,
+  ErrorCodes,
+  type ErrorShape,
+  errorShape,
+  validateAgentsRosterDeleteParams,
+  validateAgentsRosterListParams,
+  validateAgentsRosterRenameParams,
+  validateAgentsRosterTargetParams,
+} from "../protocol/index.js";
+import { respondInvalidParams } from "./nodes.helpers.js";
+import { sessionsHandlers } from "./sessions.js";
+import type { GatewayRequestHandlerOptions, GatewayRequestHandlers, RespondFn } from "./types.js";
+
+function toRosterEntry(entry: RosterSnapshot): AgentsRosterEntry {
+  const run = entry.currentRunId
+    ? listSubagentRunsForRequester(entry.requesterSessionKey).find(
+        (record) => record.runId === entry.currentRunId,
+      )
+    : undefined;
+  return {
+    ...entry,
+    run: run
+      ? { runId: run.runId, task: run.task, label: run.label, startedAt: run.startedAt }
+      : undefined,
+  };
+}
+
+/**
+ * Resolve a named agent. Names are unique per requester only, so the
+ * requester key is required when the same name exists under several.
+ */
+function resolveRosterTarget(
+  params: { name: string; requesterSessionKey?: string },
+  respond: RespondFn,
+): RosterSnapshot | null {
+  const matches = params.requesterSessionKey
+    ? findNamedAgentsByName(params.name).filter(
+        (entry) => entry.requesterSessionKey === params.requesterSessionKey,
+      )
+    : findNamedAgentsByName(params.name);
+  if (matches.length === 1) {
+    return matches[0];
+  }
+  if (matches.length === 0) {
+    respond(
+      false,
+      undefined,
+      errorShape(ErrorCodes.INVALID_REQUEST, `named agent "${params.name}" not found in roster`),
+    );
+    return null;
+  }
+  respond(
+    false,
+    undefined,
+    errorShape(
+      ErrorCodes.INVALID_REQUEST,
+      `named agent "${params.name}" exists for several requesters; pass requesterSessionKey (${matches
+        .map((entry) => entry.requesterSessionKey)
+        .join(", ")})`,
+    ),
+  );
+  return null;
+}
+
+/** Run a sessions.* handler for the named agent's child session and capture its reply. */
+async function runSessionsHandler(
+  method: "sessions.reset" | "sessions.delete",
+  opts: GatewayRequestHandlerOptions,
+  params: Record<string, unknown>,
+): Promise<{ ok: true } | { ok: false; error: ErrorShape }> {
+  let result: { ok: true } | { ok: false; error: ErrorShape } | undefined;
+  await sessionsHandlers[method]({
+    ...opts,
+    req: { ...opts.req, method },
+    params,
+    respond: (ok, _payload, error) => {
+      result ??= ok
+        ? { ok: true }
+        : { ok: false, error: error ?? errorShape(ErrorCodes.UNAVAILABLE, `${method} failed`) };
+    },
+  });
+  return (
+    result ?? {
+      ok: false,
+      error: errorShape(ErrorCodes.UNAVAILABLE, `${method} completed without a response`),
+    }
+  );
+}
+
+async function stopNamedAgentRun(entry: RosterSnapshot) {
+  if (entry.status !== "running") {
+    return { killed: false, cascadeKilled: 0 };
+  }
+  const result = await killSubagentSession({
+    cfg: loadConfig(),
+    requesterSessionKey: entry.requesterSessionKey,
+    childSessionKey: entry.sessionKey,
+  });
+  markNamedAgentIdle(entry.requesterSessionKey, entry.name);
+  return result;
+}
+
+export const agentsRosterHandlers: GatewayRequestHandlers = {
+  "agents.roster.list": ({ params, respond }) => {
+    if (!validateAgentsRosterListParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "agents.roster.list",
+        validator: validateAgentsRosterListParams,
+      });
+      return;
+    }
+    const entries = listAllRosterEntries().filter(
+      (entry) =>
+        (!params.agentId || entry.agentId === params.agentId) &&
+        (!params.requesterSessionKey || entry.requesterSessionKey === params.requesterSessionKey),
+    );
+    respond(true, { entries: entries.map(toRosterEntry) }, undefined);
+  },
+  "agents.roster.rename": ({ params, respond }) => {
+    if (!validateAgentsRosterRenameParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "agents.roster.rename",
+        validator: validateAgentsRosterRenameParams,
+      });
+      return;
+    }
+    const target = resolveRosterTarget(params, respond);
+    if (!target) {
+      return;
+    }
+    const result = renameNamedAgent(target.requesterSessionKey, target.name, params.newName);
+    if (!result.ok) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, result.error));
+      return;
+    }
+    respond(
+      true,
+      { ok: true, entry: toRosterEntry({ ...target, name: result.entry.name }) },
+      undefined,
+    );
+  },
+  "agents.roster.kill": async ({ params, respond }) => {
+    if (!validateAgentsRosterTargetParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "agents.roster.kill",
+        validator: validateAgentsRosterTargetParams,
+      });
+      return;
+    }
+    const target = resolveRosterTarget(params, respond);
+    if (!target) {
+      return;
+    }
+    const result = await stopNamedAgentRun(target);
+    respond(true, { ok: true, name: target.name, ...result }, undefined);
+  },
+  "agents.roster.reset": async (opts) => {
+    const { params, respond } = opts;
+    if (!validateAgentsRosterTargetParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "agents.roster.reset",
+        validator: validateAgentsRosterTargetParams,
+      });
+      return;
+    }
+    const target = resolveRosterTarget(params, respond);
+    if (!target) {
+      return;
+    }
+    const stopped = await stopNamedAgentRun(target);
+    const reset = await runSessionsHandler("sessions.reset", opts, {
+      key: target.sessionKey,
+      reason: "reset",
+    });
+    if (!reset.ok) {
+      respond(false, undefined, reset.error);
+      return;
+    }
+    respond(true, { ok: true, name: target.name, killed: stopped.killed }, undefined);
+  },
+  "agents.roster.delete": async (opts) => {
+    const { params, respond } = opts;
+    if (!validateAgentsRosterDeleteParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "agents.roster.delete",
+        validator: validateAgentsRosterDeleteParams,
+      });
+      return;
+    }
+    const target = resolveRosterTarget(params, respond);
+    if (!target) {
+      return;
+    }
+    const stopped = await stopNamedAgentRun(target);
+    if (params.deleteSession) {
+      const deleted = await runSessionsHandler("sessions.delete", opts, {
+        key: target.sessionKey,
+      });
+      if (!deleted.ok) {
+        respond(false, undefined, deleted.error);
+        return;
+      }
+    }
+    retireNamedAgent(target.requesterSessionKey, target.name);
+    respond(
+      true,
+      {
+        ok: true,
+        name: target.name,
+        killed: stopped.killed,
+        sessionDeleted: params.deleteSession === true,
+      },
+      undefined,
+    );
+  },
+};
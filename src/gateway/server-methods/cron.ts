@@ -1,11 +1,15 @@
+import { loadConfig } from "../../config/config.js";
 import { normalizeCronJobCreate, normalizeCronJobPatch } from "../../cron/normalize.js";
 import {
+  type CronRunLogEntry,
+  queryCronRunLog,
   readCronRunLogEntriesPage,
   readCronRunLogEntriesPageAll,
   resolveCronRunLogPath,
 } from "../../cron/run-log.js";
-import type { CronJobCreate, CronJobPatch } from "../../cron/types.js";
+import type { CronDeliveryStatus, CronJobCreate, CronJobPatch } from "../../cron/types.js";
 import { validateScheduleTimestamp } from "../../cron/validate-timestamp.js";
+import { resolveModelCostConfig } from "../../utils/usage-format.js";
 import {
   ErrorCodes,
   errorShape,
@@ -15,12 +19,37 @@ import {
   validateCronRemoveParams,
   validateCronRunParams,
   validateCronRunsParams,
+  validateCronRunsQueryParams,
   validateCronStatusParams,
   validateCronUpdateParams,
   validateWakeParams,
 } from "../protocol/index.js";
+import { loadSessionEntry, readSessionMessages } from "../session-utils.js";
 import type { GatewayRequestHandlers } from "./types.js";
 
+const DEFAULT_CRON_TRANSCRIPT_LIMIT = 200;
+
+/**
+ * Loads the isolated session transcript a run wrote. Returns undefined when the
+ * run has no session or the transcript was pruned by the session reaper.
+ */
+function loadCronRunTranscript(entry: CronRunLogEntry, limit: number): unknown[] | undefined {
+  if (!entry.sessionKey) {
+    return undefined;
+  }
+  const { storePath, entry: sessionEntry } = loadSessionEntry(entry.sessionKey);
+  const sessionId = entry.sessionId ?? sessionEntry?.sessionId;
+  if (!sessionId) {
+    return undefined;
+  }
+  const sessionFile = sessionEntry?.sessionId === sessionId ? sessionEntry.sessionFile : undefined;
+  const messages = readSessionMessages(sessionId, storePath, sessionFile);
+  if (messages.length === 0) {
+    return undefined;
+  }
+  return messages.length > limit ? messages.slice(-limit) : messages;
+}
+
 export const cronHandlers: GatewayRequestHandlers = {
   wake: ({ params, respond, context }) => {
     if (!validateWakeParams(params)) {
@@ -230,8 +259,8 @@ export const cronHandlers: GatewayRequestHandlers = {
       offset?: number;
       statuses?: Array<"ok" | "error" | "skipped">;
       status?: "all" | "ok" | "error" | "skipped";
-      deliveryStatuses?: Array<"delivered" | "not-delivered" | "unknown" | "not-requested">;
-      deliveryStatus?: "delivered" | "not-delivered" | "unknown" | "not-requested";
+      deliveryStatuses?: CronDeliveryStatus[];
+      deliveryStatus?: CronDeliveryStatus;
       query?: string;
       sortDir?: "asc" | "desc";
     };
@@ -295,4 +324,78 @@ export const cronHandlers: GatewayRequestHandlers = {
     });
     respond(true, page, undefined);
   },
+  "cron.runs.query": async ({ params, respond, context }) => {
+    if (!validateCronRunsQueryParams(params)) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `invalid cron.runs.query params: ${formatValidationErrors(validateCronRunsQueryParams.errors)}`,
+        ),
+      );
+      return;
+    }
+    const p = params as {
+      jobId?: string;
+      limit?: number;
+      offset?: number;
+      statuses?: Array<"ok" | "error" | "skipped">;
+      deliveryStatuses?: CronDeliveryStatus[];
+      sinceMs?: number;
+      untilMs?: number;
+      model?: string;
+      minTotalTokens?: number;
+      query?: string;
+      sortDir?: "asc" | "desc";
+      includeTranscript?: boolean;
+      transcriptLimit?: number;
+    };
+    if (p.jobId !== undefined) {
+      try {
+        resolveCronRunLogPath({ storePath: context.cronStorePath, jobId: p.jobId });
+      } catch {
+        respond(
+          false,
+          undefined,
+          errorShape(ErrorCodes.INVALID_REQUEST, "invalid cron.runs.query params: invalid jobId"),
+        );
+        return;
+      }
+    }
+    const jobs = await context.cron.list({ includeDisabled: true });
+    const jobNameById = Object.fromEntries(
+      jobs
+        .filter((job) => typeof job.id === "string" && typeof job.name === "string")
+        .map((job) => [job.id, job.name]),
+    );
+    const cfg = loadConfig();
+    let result = await queryCronRunLog({
+      storePath: context.cronStorePath,
+      jobId: p.jobId,
+      limit: p.limit,
+      offset: p.offset,
+      statuses: p.statuses,
+      deliveryStatuses: p.deliveryStatuses,
+      sinceMs: p.sinceMs,
+      untilMs: p.untilMs,
+      model: p.model,
+      minTotalTokens: p.minTotalTokens,
+      query: p.query,
+      sortDir: p.sortDir,
+      jobNameById,
+      resolveCost: (ref) => resolveModelCostConfig({ ...ref, config: cfg }),
+    });
+    if (p.includeTranscript) {
+      const limit = p.transcriptLimit ?? DEFAULT_CRON_TRANSCRIPT_LIMIT;
+      result = {
+        ...result,
+        entries: result.entries.map((entry) => {
+          const transcript = loadCronRunTranscript(entry, limit);
+          return transcript ? { ...entry, transcript } : entry;
+        }),
+      };
+    }
+    respond(true, result, undefined);
+  },
 };
@@ -0,0 +1,146 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  markGenUiRenderDismissed,
+  resetTrackedGenUiRenders,
+  trackGenUiRender,
+} from "../../agents/judge/genui-renders.js";
+import { ErrorCodes } from "../protocol/index.js";
+import { genuiHandlers } from "./genui.js";
+
+const chatSend = vi.hoisted(() => vi.fn());
+vi.mock("./chat.js", () => ({ chatHandlers: { "chat.send": chatSend } }));
+
+type RespondCall = [boolean, unknown?, { code: number; message: string }?];
+
+async function invoke(params: Record<string, unknown>) {
+  const respond = vi.fn();
+  await genuiHandlers["genui.action"]({
+    params,
+    respond: respond as never,
+    context: {} as never,
+    client: null,
+    req: { type: "req", id: "req-1", method: "genui.action" },
+    isWebchatConnect: () => false,
+  });
+  return respond.mock.calls[0] as RespondCall | undefined;
+}
+
+function trackForm() {
+  trackGenUiRender({
+    renderId: "r1",
+    sessionKey: "agent:main:main",
+    componentId: "booking-form",
+    toolName: "genui",
+    component: {
+      componentId: "booking-form",
+      toolMappings: [],
+      requiredParams: [],
+      actions: {
+        submit: {
+          description: "Book the selected slot",
+          schema: {
+            type: "object",
+            required: ["slot"],
+            properties: { slot: { type: "string" } },
+          },
+        },
+      },
+    },
+  });
+}
+
+describe("genui.action handler", () => {
+  afterEach(() => {
+    resetTrackedGenUiRenders();
+    chatSend.mockReset();
+  });
+
+  it("rejects unknown renders", async () => {
+    const call = await invoke({ renderId: "missing", action: "submit" });
+    expect(call?.[0]).toBe(false);
+    expect(call?.[2]?.code).toBe(ErrorCodes.INVALID_REQUEST);
+    expect(call?.[2]?.message).toContain("unknown GenUI render");
+    expect(chatSend).not.toHaveBeenCalled();
+  });
+
+  it("validates the action and values against the component definition", async () => {
+    trackForm();
+    const unknownAction = await invoke({ renderId: "r1", action: "cancel" });
+    expect(unknownAction?.[2]?.message).toContain('has no action "cancel" (expected: submit)');
+
+    const badValues = await invoke({ renderId: "r1", action: "submit", values: { slot: 3 } });
+    expect(badValues?.[2]?.message).toContain("invalid values for booking-form.submit");
+    expect(chatSend).not.toHaveBeenCalled();
+  });
+
+  it("accepts only the actions a render shows when its component declares none", async () => {
+    trackGenUiRender({
+      renderId: "r2",
+      sessionKey: "agent:main:main",
+      componentId: "form",
+      toolName: "genui",
+      params: { action: "book", actions: ["cancel", { action: "later", label: "Later" }] },
+    });
+    trackGenUiRender({
+      renderId: "r3",
+      sessionKey: "agent:main:main",
+      componentId: "status-card",
+      toolName: "lookup_status",
+      component: {
+        componentId: "status-card",
+        toolMappings: ["lookup_status"],
+        requiredParams: [],
+      },
+      params: {},
+    });
+    chatSend.mockImplementation(async ({ respond }) => {
+      respond(true, { runId: "run-2", status: "started" });
+    });
+
+    const undeclared = await invoke({ renderId: "r2", action: "delete_everything" });
+    expect(undeclared?.[2]?.message).toContain(
+      'has no action "delete_everything" (expected: book, cancel, later)',
+    );
+    const noActions = await invoke({ renderId: "r3", action: "submit" });
+    expect(noActions?.[2]?.message).toContain("component status-card declares no actions");
+    expect(chatSend).not.toHaveBeenCalled();
+
+    const later = await invoke({ renderId: "r2", action: "later" });
+    expect(later?.[0]).toBe(true);
+  });
+
+  it("injects the action into the owning session as a chat turn", async () => {
+    trackForm();
+    chatSend.mockImplementation(async ({ respond }) => {
+      respond(true, { runId: "run-1", status: "started" });
+    });
+
+    const call = await invoke({
+      renderId: "r1",
+      action: "submit",
+      values: { slot: "10:00" },
+      idempotencyKey: "run-1",
+    });
+
+    expect(call).toEqual([
+      true,
+      { runId: "run-1", status: "started", renderId: "r1", sessionKey: "agent:main:main" },
+      undefined,
+      undefined,
+    ]);
+    const sendParams = chatSend.mock.calls[0]?.[0]?.params as Record<string, unknown>;
+    expect(sendParams.sessionKey).toBe("agent:main:main");
+    expect(sendParams.idempotencyKey).toBe("run-1");
+    expect(sendParams.message).toContain(
+      '[GenUI action] The user triggered "submit" on booking-form',
+    );
+    expect(sendParams.message).toContain('"values": {\n    "slot": "10:00"\n  }');
+  });
+
+  it("rejects dismissed renders", async () => {
+    trackForm();
+    markGenUiRenderDismissed("r1");
+    const call = await invoke({ renderId: "r1", action: "submit", values: { slot: "10:00" } });
+    expect(call?.[2]?.message).toContain("was dismissed");
+  });
+});
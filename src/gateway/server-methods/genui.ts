@@ -0,0 +1,82 @@
+import { randomUUID } from "node:crypto";
+import { formatGenUiActionMessage, validateGenUiAction } from "../../agents/judge/genui-action.js";
+import { getTrackedGenUiRender } from "../../agents/judge/genui-renders.js";
+import { ErrorCodes, errorShape, validateGenUiActionParams } from "../protocol/index.js";
+import { chatHandlers } from "./chat.js";
+import { respondInvalidParams } from "./nodes.helpers.js";
+import type { GatewayRequestHandlers } from "./types.js";
+
+export const genuiHandlers: GatewayRequestHandlers = {
+  "genui.action": async ({ req, params, respond, context, client, isWebchatConnect }) => {
+    if (!validateGenUiActionParams(params)) {
+      respondInvalidParams({
+        respond,
+        method: "genui.action",
+        validator: validateGenUiActionParams,
+      });
+      return;
+    }
+    const render = getTrackedGenUiRender(params.renderId);
+    if (!render) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `unknown GenUI render: ${params.renderId}`),
+      );
+      return;
+    }
+    if (render.dismissed) {
+      respond(
+        false,
+        undefined,
+        errorShape(ErrorCodes.INVALID_REQUEST, `GenUI render ${render.renderId} was dismissed`),
+      );
+      return;
+    }
+    if (!render.sessionKey) {
+      respond(
+        false,
+        undefined,
+        errorShape(
+          ErrorCodes.INVALID_REQUEST,
+          `GenUI render ${render.renderId} has no owning session`,
+        ),
+      );
+      return;
+    }
+    const values = params.values ?? {};
+    const validation = validateGenUiAction(render, params.action, values);
+    if (!validation.ok) {
+      respond(false, undefined, errorShape(ErrorCodes.INVALID_REQUEST, validation.error));
+      return;
+    }
+
+    // Run the action as a user turn in the owning session, exactly like a chat message.
+    const idempotencyKey = params.idempotencyKey ?? `genui:${render.renderId}:${randomUUID()}`;
+    await chatHandlers["chat.send"]({
+      req: { ...req, method: "chat.send" },
+      params: {
+        sessionKey: render.sessionKey,
+        message: formatGenUiActionMessage({
+          render,
+          action: params.action,
+          values,
+          def: validation.action,
+        }),
+        idempotencyKey,
+      },
+      context,
+      client,
+      isWebchatConnect,
+      respond: (ok, payload, error, meta) =>
+        respond(
+          ok,
+          ok && payload && typeof payload === "object"
+            ? { ...payload, renderId: render.renderId, sessionKey: render.sessionKey }
+            : payload,
+          error,
+          meta,
+        ),
+    });
+  },
+};
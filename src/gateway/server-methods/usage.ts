@@ -23,6 +23,7 @@ import {
   discoverAllSessions,
   type DiscoveredSession,
 } from "../../infra/session-cost-usage.js";
+import { buildUsageBudgetStatus } from "../../infra/usage-budget.js";
 import { parseAgentSessionKey } from "../../routing/session-key.js";
 import { buildUsageAggregateTail } from "../../shared/usage-aggregates.js";
 import {
@@ -412,6 +413,9 @@ export const usageHandlers: GatewayRequestHandlers = {
     const summary = await loadCostUsageSummaryCached({ startMs, endMs, config });
     respond(true, summary, undefined);
   },
+  "usage.budget": async ({ respond }) => {
+    respond(true, buildUsageBudgetStatus(loadConfig()), undefined);
+  },
   "sessions.usage": async ({ respond, params }) => {
     if (!validateSessionsUsageParams(params)) {
       respond(
@@ -17,6 +17,8 @@ const createRegistry = (diagnostics: PluginDiagnostic[]): PluginRegistry => ({
   channels: [],
   commands: [],
   providers: [],
+  memoryBackends: [],
+  passiveContextSources: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
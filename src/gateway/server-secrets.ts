@@ -0,0 +1,25 @@
+import { refreshConfigSecretRefs } from "../config/config.js";
+
+/**
+ * Re-read config secret:// references without blocking the event loop, so
+ * config loads during the run serve cached values instead of calling store
+ * CLIs. Failures are logged; refs that resolved before keep their last value.
+ */
+export async function refreshGatewaySecretRefs(log: {
+  info: (msg: string) => void;
+  warn: (msg: string) => void;
+}): Promise<void> {
+  let result: Awaited<ReturnType<typeof refreshConfigSecretRefs>>;
+  try {
+    result = await refreshConfigSecretRefs();
+  } catch (err) {
+    log.warn(`secret refresh failed: ${String(err)}`);
+    return;
+  }
+  for (const { error, keptPrevious } of result.failed) {
+    log.warn(keptPrevious ? `${error.message}; keeping the last resolved value` : error.message);
+  }
+  if (result.refreshed.length > 0) {
+    log.info(`resolved ${result.refreshed.length} secret reference(s)`);
+  }
+}
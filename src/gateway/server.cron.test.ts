@@ -461,6 +461,22 @@ describe("gateway server cron", () => {
         (allEntries as Array<{ jobId?: unknown }>).some((entry) => entry.jobId === jobId),
       ).toBe(true);
 
+      const queryRes = await rpcReq(ws, "cron.runs.query", {
+        jobId,
+        statuses: ["ok"],
+        includeTranscript: true,
+      });
+      expect(queryRes.ok).toBe(true);
+      const queryPayload = queryRes.payload as
+        | { entries?: Array<{ jobId?: unknown }>; totals?: { runs?: unknown } }
+        | undefined;
+      expect(queryPayload?.entries?.[0]?.jobId).toBe(jobId);
+      expect(queryPayload?.totals?.runs).toBe(queryPayload?.entries?.length);
+
+      const badQueryRes = await rpcReq(ws, "cron.runs.query", { jobId: "   " });
+      expect(badQueryRes.ok).toBe(false);
+      expect(badQueryRes.error?.message).toBe("invalid cron.runs.query params: invalid jobId");
+
       const statusRes = await rpcReq(ws, "cron.status", {});
       expect(statusRes.ok).toBe(true);
       const statusPayload = statusRes.payload as
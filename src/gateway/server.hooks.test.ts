@@ -1,3 +1,4 @@
+import { createHmac } from "node:crypto";
 import { describe, expect, test } from "vitest";
 import { resolveMainSessionKeyFromConfig } from "../config/sessions.js";
 import { drainSystemEvents, peekSystemEvents } from "../infra/system-events.js";
@@ -461,4 +462,46 @@ describe("gateway server hooks", () => {
       expect(failAfterSuccess.status).toBe(401);
     });
   });
+
+  test("accepts signed provider webhooks without the hook token", async () => {
+    testState.hooksConfig = {
+      enabled: true,
+      token: "hook-secret",
+      mappings: [
+        {
+          match: { path: "github" },
+          action: "wake",
+          textTemplate: "GitHub {{action}}",
+          signature: { provider: "github", secret: "gh-secret" },
+        },
+      ],
+    };
+    await withGatewayServer(async ({ port }) => {
+      const body = JSON.stringify({ action: "opened" });
+      const send = (signature: string, path = "github") =>
+        fetch(`http://127.0.0.1:${port}/hooks/${path}`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            "X-Hub-Signature-256": signature,
+            "X-GitHub-Delivery": "delivery-1",
+          },
+          body,
+        });
+      const valid = `sha256=${createHmac("sha256", "gh-secret").update(body).digest("hex")}`;
+
+      expect((await send("sha256=00")).status).toBe(401);
+      expect((await send(valid, "wake")).status).toBe(401);
+
+      const accepted = await send(valid);
+      expect(accepted.status).toBe(200);
+      const events = await waitForSystemEvent();
+      expect(events.some((e) => e.includes("GitHub opened"))).toBe(true);
+      drainSystemEvents(resolveMainKey());
+
+      const replayed = await send(valid);
+      expect(replayed.status).toBe(401);
+      expect(await replayed.json()).toEqual({ ok: false, error: "replayed delivery" });
+    });
+  });
 });
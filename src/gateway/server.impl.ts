@@ -75,6 +75,7 @@ import { loadGatewayPlugins } from "./server-plugins.js";
 import { createGatewayReloadHandlers } from "./server-reload-handlers.js";
 import { resolveGatewayRuntimeConfig } from "./server-runtime-config.js";
 import { createGatewayRuntimeState } from "./server-runtime-state.js";
+import { refreshGatewaySecretRefs } from "./server-secrets.js";
 import { resolveSessionKeyForRun } from "./server-session-key.js";
 import { logGatewayStartup } from "./server-startup-log.js";
 import { startGatewaySidecars } from "./server-startup.js";
@@ -183,6 +184,8 @@ export async function startGatewayServer(
     description: "raw stream log path override",
   });
 
+  // Resolve secret:// refs asynchronously up front; later config loads reuse them.
+  await refreshGatewaySecretRefs(log);
   let configSnapshot = await readConfigFileSnapshot();
   if (configSnapshot.legacyIssues.length > 0) {
     if (isNixMode) {
@@ -736,7 +739,10 @@ export async function startGatewayServer(
 
         return startGatewayConfigReloader({
           initialConfig: cfgAtStart,
-          readSnapshot: readConfigFileSnapshot,
+          readSnapshot: async () => {
+            await refreshGatewaySecretRefs(logReload);
+            return await readConfigFileSnapshot();
+          },
           onHotReload: applyHotReload,
           onRestart: requestGatewayRestart,
           log: {
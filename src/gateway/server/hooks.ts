@@ -55,6 +55,9 @@ export function createGatewayHooksRequestHandler(params: {
         to: value.to,
         allowUnsafeExternalContent: value.allowUnsafeExternalContent,
       },
+      ...(value.deliver && value.targets?.length
+        ? { delivery: { mode: "announce", targets: value.targets } }
+        : {}),
       state: { nextRunAtMs: now },
     };
 
@@ -145,6 +145,8 @@ const createStubPluginRegistry = (): PluginRegistry => ({
     },
   ],
   providers: [],
+  memoryBackends: [],
+  passiveContextSources: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
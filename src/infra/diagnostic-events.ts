@@ -147,6 +147,19 @@ export type DiagnosticToolLoopEvent = DiagnosticBaseEvent & {
   pairedToolName?: string;
 };
 
+export type DiagnosticContextSourceEvent = DiagnosticBaseEvent & {
+  type: "context.source";
+  sessionKey?: string;
+  agentId?: string;
+  sourceId: string;
+  pluginId?: string;
+  outcome: "hit" | "miss" | "error" | "timeout";
+  durationMs: number;
+  hits: number;
+  tokens: number;
+  error?: string;
+};
+
 export type DiagnosticEventPayload =
   | DiagnosticUsageEvent
   | DiagnosticWebhookReceivedEvent
@@ -160,7 +173,8 @@ export type DiagnosticEventPayload =
   | DiagnosticLaneDequeueEvent
   | DiagnosticRunAttemptEvent
   | DiagnosticHeartbeatEvent
-  | DiagnosticToolLoopEvent;
+  | DiagnosticToolLoopEvent
+  | DiagnosticContextSourceEvent;
 
 export type DiagnosticEventInput = DiagnosticEventPayload extends infer Event
   ? Event extends DiagnosticEventPayload
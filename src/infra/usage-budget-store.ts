@@ -0,0 +1,58 @@
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { loadJsonFile, saveJsonFile } from "./json-file.js";
+import type { UsageBudgetLedger, UsageBudgetTotals } from "./usage-budget.js";
+
+type PersistedLedger = UsageBudgetLedger & {
+  version: 1;
+};
+
+export function resolveUsageBudgetStorePath(): string {
+  return path.join(resolveStateDir(), "usage", "budgets.json");
+}
+
+function isTotals(value: unknown): value is UsageBudgetTotals {
+  if (!value || typeof value !== "object") {
+    return false;
+  }
+  const totals = value as Partial<UsageBudgetTotals>;
+  return typeof totals.tokens === "number" && typeof totals.costUsd === "number";
+}
+
+export function loadUsageBudgetLedgerFromDisk(): UsageBudgetLedger {
+  const empty: UsageBudgetLedger = { scopes: {} };
+  const raw = loadJsonFile(resolveUsageBudgetStorePath());
+  if (!raw || typeof raw !== "object") {
+    return empty;
+  }
+  const record = raw as Partial<PersistedLedger>;
+  if (record.version !== 1) {
+    return empty;
+  }
+  for (const [key, entry] of Object.entries(record.scopes ?? {})) {
+    if (
+      entry &&
+      typeof entry.day === "string" &&
+      typeof entry.month === "string" &&
+      isTotals(entry.daily) &&
+      isTotals(entry.monthly)
+    ) {
+      empty.scopes[key] = {
+        day: entry.day,
+        month: entry.month,
+        daily: { tokens: entry.daily.tokens, costUsd: entry.daily.costUsd },
+        monthly: { tokens: entry.monthly.tokens, costUsd: entry.monthly.costUsd },
+        warned: Array.isArray(entry.warned)
+          ? entry.warned.filter((item): item is string => typeof item === "string")
+          : [],
+        updatedAt: typeof entry.updatedAt === "number" ? entry.updatedAt : 0,
+      };
+    }
+  }
+  return empty;
+}
+
+export function saveUsageBudgetLedgerToDisk(ledger: UsageBudgetLedger) {
+  const out: PersistedLedger = { version: 1, ...ledger };
+  saveJsonFile(resolveUsageBudgetStorePath(), out);
+}
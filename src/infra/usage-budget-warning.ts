@@ -0,0 +1,64 @@
+import type { SimpleClawConfig } from "../config/config.js";
+import {
+  loadSessionStore,
+  resolveAgentMainSessionKey,
+  resolveStorePath,
+} from "../config/sessions.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import type { GatewayMessageChannel } from "../utils/message-channel.js";
+import { resolveSessionDeliveryTarget } from "./outbound/targets.js";
+import { enqueueSystemEvent } from "./system-events.js";
+
+const log = createSubsystemLogger("usage-budget-warning");
+
+function shouldSendWarning(): boolean {
+  return !process.env.VITEST && process.env.NODE_ENV !== "test";
+}
+
+/**
+ * Deliver a budget notice to the owner: `budgets.notify` when configured,
+ * otherwise the last route of the agent's main session. Falls back to a
+ * system event on the main session when no route is deliverable.
+ */
+export async function deliverUsageBudgetWarning(params: {
+  cfg: SimpleClawConfig;
+  agentId: string;
+  text: string;
+}): Promise<void> {
+  if (!shouldSendWarning()) {
+    return;
+  }
+  const { cfg, agentId, text } = params;
+  const notify = cfg.budgets?.notify;
+  const mainSessionKey = resolveAgentMainSessionKey({ cfg, agentId });
+  const entry = loadSessionStore(resolveStorePath(cfg.session?.store, { agentId }))[mainSessionKey];
+  const target = resolveSessionDeliveryTarget({
+    entry,
+    requestedChannel: (notify?.channel?.trim() as GatewayMessageChannel | undefined) || "last",
+    explicitTo: notify?.to,
+    allowMismatchedLastTo: true,
+  });
+
+  const channel = target.channel;
+  if (!channel || !target.to) {
+    enqueueSystemEvent(text, { sessionKey: mainSessionKey });
+    return;
+  }
+
+  try {
+    const { deliverOutboundPayloads } = await import("./outbound/deliver.js");
+    await deliverOutboundPayloads({
+      cfg,
+      channel,
+      to: target.to,
+      accountId: notify?.accountId ?? target.accountId,
+      threadId: target.threadId,
+      payloads: [{ text }],
+      agentId,
+      bestEffort: true,
+    });
+  } catch (err) {
+    log.warn(`Failed to deliver usage budget warning: ${String(err)}`);
+    enqueueSystemEvent(text, { sessionKey: mainSessionKey });
+  }
+}
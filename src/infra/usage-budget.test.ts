@@ -0,0 +1,151 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import {
+  buildUsageBudgetStatus,
+  checkUsageBudget,
+  formatUsageBudgetRefusal,
+  formatUsageBudgetWarning,
+  getUsageBudgetSpend,
+  recordUsageBudgetSpend,
+  resetUsageBudgetsForTests,
+  resolveUsageBudgetScopes,
+} from "./usage-budget.js";
+
+beforeEach(() => {
+  resetUsageBudgetsForTests();
+});
+
+const NOON = new Date(2026, 4, 10, 12, 0, 0).getTime();
+const NEXT_DAY = new Date(2026, 4, 11, 9, 0, 0).getTime();
+const NEXT_MONTH = new Date(2026, 5, 1, 9, 0, 0).getTime();
+
+const CONFIG = {
+  budgets: {
+    gateway: { monthly: { maxCostUsd: 100 } },
+    agent: { daily: { maxCostUsd: 5 } },
+    session: { daily: { maxTokens: 10_000 } },
+    sender: { daily: { maxCostUsd: 1 } },
+  },
+  agents: {
+    list: [{ id: "main" }, { id: "ops", budget: { daily: { maxCostUsd: 20 } } }],
+  },
+} as SimpleClawConfig;
+
+describe("resolveUsageBudgetScopes", () => {
+  it("collects every configured scope, preferring per-agent overrides", () => {
+    const scopes = resolveUsageBudgetScopes(CONFIG, {
+      agentId: "ops",
+      sessionKey: "agent:ops:main",
+      channel: "Telegram",
+      senderId: "42",
+    });
+    expect(scopes.map((scope) => [scope.kind, scope.id])).toEqual([
+      ["gateway", "gateway"],
+      ["agent", "ops"],
+      ["session", "agent:ops:main"],
+      ["sender", "telegram:42"],
+    ]);
+    expect(scopes[1]?.limits).toEqual({ daily: { maxCostUsd: 20 } });
+  });
+
+  it("skips scopes without limits or without a sender", () => {
+    const scopes = resolveUsageBudgetScopes(
+      { budgets: { sender: { daily: { maxTokens: 10 } } } } as SimpleClawConfig,
+      { agentId: "main", sessionKey: "cron:job-1" },
+    );
+    expect(scopes).toEqual([]);
+  });
+});
+
+describe("ledger", () => {
+  it("rolls daily totals at midnight and monthly totals at the month boundary", () => {
+    const scopes = resolveUsageBudgetScopes(CONFIG, { agentId: "main" });
+    recordUsageBudgetSpend({ scopes, tokens: 1000, costUsd: 0.5, now: NOON });
+    recordUsageBudgetSpend({ scopes, tokens: 500, costUsd: 0.25, now: NOON });
+
+    expect(getUsageBudgetSpend({ kind: "agent", id: "main" }, NOON)).toEqual({
+      daily: { tokens: 1500, costUsd: 0.75 },
+      monthly: { tokens: 1500, costUsd: 0.75 },
+    });
+    expect(getUsageBudgetSpend({ kind: "gateway", id: "gateway" }, NEXT_DAY)).toEqual({
+      daily: { tokens: 0, costUsd: 0 },
+      monthly: { tokens: 1500, costUsd: 0.75 },
+    });
+    expect(getUsageBudgetSpend({ kind: "gateway", id: "gateway" }, NEXT_MONTH).monthly).toEqual({
+      tokens: 0,
+      costUsd: 0,
+    });
+  });
+
+  it("survives a restart", () => {
+    const scopes = resolveUsageBudgetScopes(CONFIG, { agentId: "main" });
+    recordUsageBudgetSpend({ scopes, tokens: 1000, costUsd: 0.5, now: NOON });
+
+    resetUsageBudgetsForTests({ loadFromDisk: true });
+
+    expect(getUsageBudgetSpend({ kind: "agent", id: "main" }, NOON).daily).toEqual({
+      tokens: 1000,
+      costUsd: 0.5,
+    });
+  });
+});
+
+describe("checkUsageBudget", () => {
+  it("warns once per period past warnAt and refuses at the limit", () => {
+    const scopes = resolveUsageBudgetScopes(CONFIG, { agentId: "main" });
+    const check = (now = NOON) => checkUsageBudget({ scopes, warnAt: 0.8, now });
+
+    recordUsageBudgetSpend({ scopes, tokens: 100, costUsd: 3, now: NOON });
+    expect(check()).toEqual({ exceeded: undefined, notify: [] });
+
+    recordUsageBudgetSpend({ scopes, tokens: 100, costUsd: 1.2, now: NOON });
+    const warned = check();
+    expect(warned.exceeded).toBeUndefined();
+    expect(warned.notify).toHaveLength(1);
+    expect(formatUsageBudgetWarning(warned.notify[0])).toBe(
+      '⚠️ Usage budget warning: agent "main" has used $4.20 of its daily limit of $5.00 (84%). Model calls will be refused once the limit is reached.',
+    );
+    expect(check().notify).toEqual([]);
+
+    recordUsageBudgetSpend({ scopes, tokens: 100, costUsd: 1, now: NOON });
+    const refused = check();
+    expect(refused.exceeded).toMatchObject({ window: "daily", level: "exceeded", metric: "cost" });
+    expect(refused.notify.map((breach) => breach.level)).toEqual(["exceeded"]);
+    expect(formatUsageBudgetRefusal(refused.exceeded!)).toContain(
+      'agent "main" has used $5.20 of its daily limit of $5.00',
+    );
+    expect(check().notify).toEqual([]);
+
+    expect(check(NEXT_DAY).exceeded).toBeUndefined();
+  });
+});
+
+describe("buildUsageBudgetStatus", () => {
+  it("reports configured scopes and active sessions with their state", () => {
+    const scopes = resolveUsageBudgetScopes(CONFIG, {
+      agentId: "main",
+      sessionKey: "agent:main:main",
+    });
+    recordUsageBudgetSpend({ scopes, tokens: 9000, costUsd: 0.5, now: NOON });
+
+    const status = buildUsageBudgetStatus(CONFIG, NOON);
+    expect(status.warnAt).toBe(0.8);
+    expect(
+      status.scopes.map((scope) => ({
+        scope: `${scope.kind}:${scope.id}`,
+        states: scope.windows.map((window) => `${window.window}:${window.state}`),
+      })),
+    ).toEqual([
+      { scope: "gateway:gateway", states: ["monthly:ok"] },
+      { scope: "agent:main", states: ["daily:ok"] },
+      { scope: "agent:ops", states: ["daily:ok"] },
+      { scope: "session:agent:main:main", states: ["daily:warning"] },
+    ]);
+    expect(status.scopes[3]?.windows[0]).toMatchObject({
+      period: "2026-05-10",
+      tokens: 9000,
+      maxTokens: 10_000,
+      ratio: 0.9,
+    });
+  });
+});
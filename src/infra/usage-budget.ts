@@ -0,0 +1,436 @@
+/**
+ * Daily/monthly model spend budgets.
+ *
+ * The embedded runner charges every model call to the gateway, agent,
+ * session and channel-sender scopes that have limits configured, and checks
+ * those scopes before the next call. Spend is tracked in a small ledger so
+ * checks stay cheap; `loadCostUsageSummary` remains the after-the-fact report.
+ */
+
+import { listAgentIds, resolveAgentConfig } from "../agents/agent-scope.js";
+import type { SimpleClawConfig } from "../config/config.js";
+import type { UsageBudgetLimits, UsageBudgetWindowLimits } from "../config/types.budgets.js";
+import { normalizeAgentId } from "../routing/session-key.js";
+import { formatTokenCount, formatUsd } from "../utils/usage-format.js";
+import {
+  loadUsageBudgetLedgerFromDisk,
+  saveUsageBudgetLedgerToDisk,
+} from "./usage-budget-store.js";
+
+export const DEFAULT_USAGE_BUDGET_WARN_AT = 0.8;
+/** Session and sender rows shown per kind in the budget status. */
+const STATUS_ROW_LIMIT = 50;
+
+export type UsageBudgetScopeKind = "gateway" | "agent" | "session" | "sender";
+export type UsageBudgetWindow = "daily" | "monthly";
+
+export type UsageBudgetTotals = {
+  tokens: number;
+  costUsd: number;
+};
+
+export type UsageBudgetScope = {
+  kind: UsageBudgetScopeKind;
+  /** Agent id, session key or `<channel>:<senderId>`; "gateway" for the gateway scope. */
+  id: string;
+  limits: UsageBudgetLimits;
+};
+
+export type UsageBudgetLedger = {
+  /** Keyed by `gateway`, `agent:<id>`, `session:<key>` or `sender:<channel>:<id>`. */
+  scopes: Record<
+    string,
+    {
+      day: string;
+      month: string;
+      daily: UsageBudgetTotals;
+      monthly: UsageBudgetTotals;
+      /** Periods already reported to the owner (`warn:daily:2026-05-10`, `exceeded:monthly:2026-05`). */
+      warned: string[];
+      updatedAt: number;
+    }
+  >;
+};
+
+export type UsageBudgetBreach = {
+  scope: UsageBudgetScope;
+  window: UsageBudgetWindow;
+  level: "warning" | "exceeded";
+  metric: "tokens" | "cost";
+  used: number;
+  limit: number;
+};
+
+export type UsageBudgetWindowStatus = {
+  window: UsageBudgetWindow;
+  /** Local day (`YYYY-MM-DD`) or month (`YYYY-MM`). */
+  period: string;
+  tokens: number;
+  costUsd: number;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  /** Highest used fraction across the configured limits. */
+  ratio: number;
+  state: "ok" | "warning" | "exceeded";
+};
+
+export type UsageBudgetScopeStatus = {
+  kind: UsageBudgetScopeKind;
+  id: string;
+  windows: UsageBudgetWindowStatus[];
+};
+
+export type UsageBudgetStatus = {
+  updatedAt: number;
+  warnAt: number;
+  scopes: UsageBudgetScopeStatus[];
+};
+
+let ledger: UsageBudgetLedger = { scopes: {} };
+let loaded = false;
+
+function ensureLoaded() {
+  if (loaded) {
+    return;
+  }
+  loaded = true;
+  ledger = loadUsageBudgetLedgerFromDisk();
+}
+
+function persist() {
+  try {
+    saveUsageBudgetLedgerToDisk(ledger);
+  } catch {
+    // Best-effort persistence; in-memory state is canonical at runtime.
+  }
+}
+
+function formatDayKey(now: number): string {
+  const date = new Date(now);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function formatPeriod(window: UsageBudgetWindow, now: number): string {
+  const day = formatDayKey(now);
+  return window === "daily" ? day : day.slice(0, 7);
+}
+
+function hasWindowLimits(limits: UsageBudgetWindowLimits | undefined): boolean {
+  return typeof limits?.maxTokens === "number" || typeof limits?.maxCostUsd === "number";
+}
+
+function hasLimits(limits: UsageBudgetLimits | undefined): limits is UsageBudgetLimits {
+  return hasWindowLimits(limits?.daily) || hasWindowLimits(limits?.monthly);
+}
+
+function ledgerKey(scope: Pick<UsageBudgetScope, "kind" | "id">): string {
+  return scope.kind === "gateway" ? "gateway" : `${scope.kind}:${scope.id}`;
+}
+
+export function resolveUsageBudgetWarnAt(cfg?: SimpleClawConfig): number {
+  const warnAt = cfg?.budgets?.warnAt;
+  return typeof warnAt === "number" && warnAt > 0 && warnAt <= 1
+    ? warnAt
+    : DEFAULT_USAGE_BUDGET_WARN_AT;
+}
+
+function resolveAgentLimits(cfg: SimpleClawConfig, agentId: string) {
+  const own = resolveAgentConfig(cfg, agentId)?.budget;
+  return hasLimits(own) ? own : cfg.budgets?.agent;
+}
+
+/** Scopes with limits configured that a model call for this context is charged to. */
+export function resolveUsageBudgetScopes(
+  cfg: SimpleClawConfig | undefined,
+  ctx: { agentId?: string; sessionKey?: string; channel?: string; senderId?: string | null },
+): UsageBudgetScope[] {
+  const budgets = cfg?.budgets;
+  if (!cfg) {
+    return [];
+  }
+  const scopes: UsageBudgetScope[] = [];
+  if (hasLimits(budgets?.gateway)) {
+    scopes.push({ kind: "gateway", id: "gateway", limits: budgets.gateway });
+  }
+  if (ctx.agentId) {
+    const agentId = normalizeAgentId(ctx.agentId);
+    const limits = resolveAgentLimits(cfg, agentId);
+    if (hasLimits(limits)) {
+      scopes.push({ kind: "agent", id: agentId, limits });
+    }
+  }
+  const sessionKey = ctx.sessionKey?.trim();
+  if (sessionKey && hasLimits(budgets?.session)) {
+    scopes.push({ kind: "session", id: sessionKey, limits: budgets.session });
+  }
+  const channel = ctx.channel?.trim().toLowerCase();
+  const senderId = ctx.senderId?.trim();
+  if (channel && senderId && hasLimits(budgets?.sender)) {
+    scopes.push({ kind: "sender", id: `${channel}:${senderId}`, limits: budgets.sender });
+  }
+  return scopes;
+}
+
+function readEntry(key: string, now: number) {
+  ensureLoaded();
+  const day = formatDayKey(now);
+  const month = day.slice(0, 7);
+  const entry = ledger.scopes[key];
+  const empty = { tokens: 0, costUsd: 0 };
+  if (!entry) {
+    return { day, month, daily: empty, monthly: empty, warned: [] as string[] };
+  }
+  const sameMonth = entry.month === month;
+  const sameDay = sameMonth && entry.day === day;
+  return {
+    day,
+    month,
+    daily: sameDay ? { ...entry.daily } : empty,
+    monthly: sameMonth ? { ...entry.monthly } : empty,
+    // Keep markers for the current periods only.
+    warned: entry.warned.filter((item) => item.endsWith(`:${day}`) || item.endsWith(`:${month}`)),
+  };
+}
+
+export function getUsageBudgetSpend(
+  scope: Pick<UsageBudgetScope, "kind" | "id">,
+  now = Date.now(),
+): Record<UsageBudgetWindow, UsageBudgetTotals> {
+  const entry = readEntry(ledgerKey(scope), now);
+  return { daily: entry.daily, monthly: entry.monthly };
+}
+
+/** Charge one model call to every scope it ran under. */
+export function recordUsageBudgetSpend(params: {
+  scopes: UsageBudgetScope[];
+  tokens: number;
+  costUsd: number;
+  now?: number;
+}) {
+  if (params.scopes.length === 0 || (params.tokens <= 0 && params.costUsd <= 0)) {
+    return;
+  }
+  const now = params.now ?? Date.now();
+  for (const scope of params.scopes) {
+    const key = ledgerKey(scope);
+    const entry = readEntry(key, now);
+    ledger.scopes[key] = {
+      day: entry.day,
+      month: entry.month,
+      daily: {
+        tokens: entry.daily.tokens + params.tokens,
+        costUsd: entry.daily.costUsd + params.costUsd,
+      },
+      monthly: {
+        tokens: entry.monthly.tokens + params.tokens,
+        costUsd: entry.monthly.costUsd + params.costUsd,
+      },
+      warned: entry.warned,
+      updatedAt: now,
+    };
+  }
+  // Session and sender rows are unbounded; drop the ones from past months.
+  const month = formatDayKey(now).slice(0, 7);
+  for (const [key, entry] of Object.entries(ledger.scopes)) {
+    if (entry.month !== month && (key.startsWith("session:") || key.startsWith("sender:"))) {
+      delete ledger.scopes[key];
+    }
+  }
+  persist();
+}
+
+function findBreach(
+  spend: UsageBudgetTotals,
+  limits: UsageBudgetWindowLimits | undefined,
+  threshold: number,
+): Pick<UsageBudgetBreach, "metric" | "used" | "limit"> | undefined {
+  if (typeof limits?.maxCostUsd === "number" && spend.costUsd >= limits.maxCostUsd * threshold) {
+    return { metric: "cost", used: spend.costUsd, limit: limits.maxCostUsd };
+  }
+  if (typeof limits?.maxTokens === "number" && spend.tokens >= limits.maxTokens * threshold) {
+    return { metric: "tokens", used: spend.tokens, limit: limits.maxTokens };
+  }
+  return undefined;
+}
+
+/**
+ * Check the scopes before a model call.
+ *
+ * `exceeded` is set when any hard limit is reached. `notify` lists breaches the
+ * owner has not heard about yet in the current period (soft warnings, plus
+ * the first refusal); they are marked as reported before returning.
+ */
+export function checkUsageBudget(params: {
+  scopes: UsageBudgetScope[];
+  warnAt?: number;
+  now?: number;
+}): { exceeded?: UsageBudgetBreach; notify: UsageBudgetBreach[] } {
+  const now = params.now ?? Date.now();
+  const warnAt = params.warnAt ?? DEFAULT_USAGE_BUDGET_WARN_AT;
+  const notify: UsageBudgetBreach[] = [];
+  let exceeded: UsageBudgetBreach | undefined;
+  let changed = false;
+  for (const scope of params.scopes) {
+    const key = ledgerKey(scope);
+    const entry = readEntry(key, now);
+    for (const window of ["daily", "monthly"] as const) {
+      const limits = scope.limits[window];
+      if (!hasWindowLimits(limits)) {
+        continue;
+      }
+      const spend = entry[window];
+      const hard = findBreach(spend, limits, 1);
+      const soft = hard ? undefined : findBreach(spend, limits, warnAt);
+      const breach = hard ?? soft;
+      if (!breach) {
+        continue;
+      }
+      const level = hard ? "exceeded" : "warning";
+      const result: UsageBudgetBreach = { scope, window, level, ...breach };
+      if (hard && !exceeded) {
+        exceeded = result;
+      }
+      const marker = `${hard ? "exceeded" : "warn"}:${window}:${window === "daily" ? entry.day : entry.month}`;
+      const stored = ledger.scopes[key];
+      if (!stored || stored.warned.includes(marker)) {
+        continue;
+      }
+      stored.warned = [...entry.warned.filter((item) => item !== marker), marker];
+      entry.warned = stored.warned;
+      changed = true;
+      notify.push(result);
+    }
+  }
+  if (changed) {
+    persist();
+  }
+  return { exceeded, notify };
+}
+
+function describeScope(scope: UsageBudgetScope): string {
+  switch (scope.kind) {
+    case "gateway":
+      return "the gateway";
+    case "agent":
+      return `agent "${scope.id}"`;
+    case "session":
+      return `session ${scope.id}`;
+    case "sender":
+      return `sender ${scope.id}`;
+  }
+  return scope.id;
+}
+
+function formatAmount(metric: UsageBudgetBreach["metric"], value: number): string {
+  return metric === "cost" ? (formatUsd(value) ?? "$0.00") : `${formatTokenCount(value)} tokens`;
+}
+
+/** Owner-facing text for a soft warning or a first refusal. */
+export function formatUsageBudgetWarning(breach: UsageBudgetBreach): string {
+  const used = formatAmount(breach.metric, breach.used);
+  const limit = formatAmount(breach.metric, breach.limit);
+  const percent = Math.round((breach.used / breach.limit) * 100);
+  if (breach.level === "exceeded") {
+    return `⛔ Usage budget reached: ${describeScope(breach.scope)} has used ${used} of its ${breach.window} limit of ${limit}. Model calls are refused until the ${breach.window === "daily" ? "day" : "month"} resets.`;
+  }
+  return `⚠️ Usage budget warning: ${describeScope(breach.scope)} has used ${used} of its ${breach.window} limit of ${limit} (${percent}%). Model calls will be refused once the limit is reached.`;
+}
+
+/** Reply text for a run refused by a hard limit. */
+export function formatUsageBudgetRefusal(breach: UsageBudgetBreach): string {
+  const used = formatAmount(breach.metric, breach.used);
+  const limit = formatAmount(breach.metric, breach.limit);
+  const reset = breach.window === "daily" ? "tomorrow" : "next month";
+  return `⛔ Usage budget reached: ${describeScope(breach.scope)} has used ${used} of its ${breach.window} limit of ${limit}. I can't make more model calls until ${reset} or until the owner raises the budget.`;
+}
+
+function buildWindowStatus(
+  window: UsageBudgetWindow,
+  spend: UsageBudgetTotals,
+  limits: UsageBudgetWindowLimits,
+  warnAt: number,
+  now: number,
+): UsageBudgetWindowStatus {
+  const ratios: number[] = [];
+  if (typeof limits.maxTokens === "number") {
+    ratios.push(spend.tokens / limits.maxTokens);
+  }
+  if (typeof limits.maxCostUsd === "number") {
+    ratios.push(spend.costUsd / limits.maxCostUsd);
+  }
+  const ratio = Math.max(0, ...ratios);
+  return {
+    window,
+    period: formatPeriod(window, now),
+    tokens: spend.tokens,
+    costUsd: spend.costUsd,
+    maxTokens: limits.maxTokens,
+    maxCostUsd: limits.maxCostUsd,
+    ratio,
+    state: ratio >= 1 ? "exceeded" : ratio >= warnAt ? "warning" : "ok",
+  };
+}
+
+function buildScopeStatus(
+  scope: UsageBudgetScope,
+  warnAt: number,
+  now: number,
+): UsageBudgetScopeStatus {
+  const spend = getUsageBudgetSpend(scope, now);
+  const windows: UsageBudgetWindowStatus[] = [];
+  for (const window of ["daily", "monthly"] as const) {
+    const limits = scope.limits[window];
+    if (limits && hasWindowLimits(limits)) {
+      windows.push(buildWindowStatus(window, spend[window], limits, warnAt, now));
+    }
+  }
+  return { kind: scope.kind, id: scope.id, windows };
+}
+
+/**
+ * Current spend against every configured budget. Session and sender scopes
+ * only appear once they have spend this month, highest first.
+ */
+export function buildUsageBudgetStatus(cfg: SimpleClawConfig, now = Date.now()): UsageBudgetStatus {
+  ensureLoaded();
+  const warnAt = resolveUsageBudgetWarnAt(cfg);
+  const scopes: UsageBudgetScopeStatus[] = [];
+  const budgets = cfg.budgets;
+  if (hasLimits(budgets?.gateway)) {
+    scopes.push(
+      buildScopeStatus({ kind: "gateway", id: "gateway", limits: budgets.gateway }, warnAt, now),
+    );
+  }
+  for (const agentId of listAgentIds(cfg)) {
+    const limits = resolveAgentLimits(cfg, agentId);
+    if (hasLimits(limits)) {
+      scopes.push(buildScopeStatus({ kind: "agent", id: agentId, limits }, warnAt, now));
+    }
+  }
+  for (const kind of ["session", "sender"] as const) {
+    const limits = budgets?.[kind];
+    if (!hasLimits(limits)) {
+      continue;
+    }
+    const prefix = `${kind}:`;
+    const rows = Object.keys(ledger.scopes)
+      .filter((key) => key.startsWith(prefix))
+      .map((key) => buildScopeStatus({ kind, id: key.slice(prefix.length), limits }, warnAt, now))
+      .filter((row) => row.windows.some((window) => window.tokens > 0 || window.costUsd > 0))
+      .toSorted(
+        (a, b) =>
+          Math.max(...b.windows.map((window) => window.ratio)) -
+          Math.max(...a.windows.map((window) => window.ratio)),
+      )
+      .slice(0, STATUS_ROW_LIMIT);
+    scopes.push(...rows);
+  }
+  return { updatedAt: now, warnAt, scopes };
+}
+
+export function resetUsageBudgetsForTests(opts?: { loadFromDisk?: boolean }) {
+  ledger = { scopes: {} };
+  loaded = opts?.loadFromDisk !== true; // prevent disk load in tests unless asked
+}
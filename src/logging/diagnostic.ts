@@ -292,6 +292,44 @@ export function logToolLoopAction(
   markActivity();
 }
 
+export function logContextSource(params: {
+  sessionKey?: string;
+  agentId?: string;
+  sourceId: string;
+  pluginId?: string;
+  outcome: "hit" | "miss" | "error" | "timeout";
+  durationMs: number;
+  hits: number;
+  tokens: number;
+  error?: string;
+}) {
+  if (params.outcome === "error" || params.outcome === "timeout") {
+    diag.warn(
+      `context source ${params.outcome}: source=${params.sourceId} sessionKey=${
+        params.sessionKey ?? "unknown"
+      } duration=${params.durationMs}ms${params.error ? ` error="${params.error}"` : ""}`,
+    );
+  } else if (diag.isEnabled("debug")) {
+    diag.debug(
+      `context source ${params.outcome}: source=${params.sourceId} sessionKey=${
+        params.sessionKey ?? "unknown"
+      } hits=${params.hits} tokens=${params.tokens} duration=${params.durationMs}ms`,
+    );
+  }
+  emitDiagnosticEvent({
+    type: "context.source",
+    sessionKey: params.sessionKey,
+    agentId: params.agentId,
+    sourceId: params.sourceId,
+    pluginId: params.pluginId,
+    outcome: params.outcome,
+    durationMs: params.durationMs,
+    hits: params.hits,
+    tokens: params.tokens,
+    error: params.error,
+  });
+}
+
 export function logActiveRuns() {
   const activeSessions = Array.from(diagnosticSessionStates.entries())
     .filter(([, s]) => s.state === "processing")
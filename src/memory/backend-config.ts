@@ -298,10 +298,11 @@ export function resolveMemoryBackendConfig(params: {
   cfg: SimpleClawConfig;
   agentId: string;
 }): ResolvedMemoryBackendConfig {
-  const backend = params.cfg.memory?.backend ?? DEFAULT_BACKEND;
+  const backend = params.cfg.memory?.backend?.trim() || DEFAULT_BACKEND;
   const citations = params.cfg.memory?.citations ?? DEFAULT_CITATIONS;
   if (backend !== "qmd") {
-    return { backend: "builtin", citations };
+    // Any other non-builtin value names a plugin backend; see plugins/memory-backends.ts.
+    return { backend, citations };
   }
 
   const workspaceDir = resolveAgentWorkspaceDir(params.cfg, params.agentId);
@@ -0,0 +1,132 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import { runMemoryBackendConformance } from "./backend-conformance.js";
+import { createOpenAIEmbeddingProviderMock } from "./test-embeddings-mock.js";
+import { createMemoryManagerOrThrow } from "./test-manager.js";
+import type { MemorySearchManager, MemorySearchResult } from "./types.js";
+
+vi.mock("./embeddings.js", () => ({
+  createEmbeddingProvider: async (_options: unknown) =>
+    createOpenAIEmbeddingProviderMock({
+      embedQuery: async () => [0.2, 0.2, 0.2],
+      embedBatch: async (input: string[]) => input.map(() => [0.2, 0.2, 0.2]),
+    }),
+}));
+
+function createInMemoryBackend(docs: Record<string, string>): MemorySearchManager {
+  return {
+    async search(query, opts) {
+      const hits: MemorySearchResult[] = [];
+      for (const [docPath, text] of Object.entries(docs)) {
+        text.split("\n").forEach((line, index) => {
+          if (line.includes(query)) {
+            hits.push({
+              path: docPath,
+              startLine: index + 1,
+              endLine: index + 1,
+              score: query.length / line.length,
+              snippet: line,
+              source: "memory",
+            });
+          }
+        });
+      }
+      return hits
+        .filter((hit) => hit.score >= (opts?.minScore ?? 0))
+        .toSorted((a, b) => b.score - a.score)
+        .slice(0, opts?.maxResults ?? 10);
+    },
+    async readFile({ relPath, from = 1, lines }) {
+      const text = docs[relPath];
+      if (text === undefined) {
+        throw new Error("path required");
+      }
+      const all = text.split("\n");
+      return {
+        path: relPath,
+        text: all.slice(from - 1, lines ? from - 1 + lines : undefined).join("\n"),
+      };
+    },
+    status: () => ({ backend: "in-memory", provider: "none" }),
+    probeEmbeddingAvailability: async () => ({ ok: true }),
+    probeVectorAvailability: async () => false,
+  };
+}
+
+describe("memory backend conformance", () => {
+  let workspaceDir: string;
+  let manager: MemorySearchManager | null = null;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-mem-conformance-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"));
+    await fs.writeFile(
+      path.join(workspaceDir, "memory", "2026-01-07.md"),
+      "hello conformance\nsecond line\n",
+    );
+  });
+
+  afterEach(async () => {
+    await manager?.close?.();
+    manager = null;
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("passes for the builtin index", async () => {
+    const cfg = {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "text-embedding-3-small",
+            store: { path: path.join(workspaceDir, "index.sqlite") },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+            query: { minScore: 0 },
+            remote: { batch: { enabled: false, wait: false } },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as SimpleClawConfig;
+
+    const report = await runMemoryBackendConformance({
+      create: async () => {
+        manager = await createMemoryManagerOrThrow(cfg);
+        return manager;
+      },
+      query: "hello conformance",
+      expectPath: "memory/2026-01-07.md",
+    });
+    expect(report.failed).toEqual([]);
+  });
+
+  it("passes for a plugin-style backend and reports contract violations", async () => {
+    const docs = { "notes/a.md": "alpha beta\ngamma alpha" };
+    const good = await runMemoryBackendConformance({
+      create: () => createInMemoryBackend(docs),
+      query: "alpha",
+      expectPath: "notes/a.md",
+    });
+    expect(good.failed).toEqual([]);
+
+    const broken = createInMemoryBackend(docs);
+    broken.search = async () => [
+      { path: "notes/a.md", startLine: 2, endLine: 1, score: 1, snippet: "", source: "memory" },
+      { path: "notes/a.md", startLine: 1, endLine: 1, score: 2, snippet: "", source: "memory" },
+    ];
+    broken.readFile = async ({ relPath }) => ({ path: relPath, text: "a\nb" });
+    const bad = await runMemoryBackendConformance({ create: () => broken, query: "alpha" });
+    expect(bad.failed.map((entry) => entry.check)).toEqual([
+      "search",
+      "search maxResults",
+      "search minScore",
+      "readFile",
+      "readFile empty path",
+    ]);
+    expect(bad.failed[0]?.error).toBe("result #1: expected 1 <= startLine <= endLine");
+  });
+});
@@ -0,0 +1,160 @@
+import type { MemorySearchManager, MemorySearchResult } from "./types.js";
+
+export type MemoryBackendConformanceOptions = {
+  /** Returns a manager over a store that the caller has already seeded. */
+  create: () => MemorySearchManager | Promise<MemorySearchManager>;
+  /** Query that must return at least one hit from the seeded store. */
+  query: string;
+  /** Path that must appear among the hits for `query`. */
+  expectPath?: string;
+};
+
+export type MemoryBackendConformanceReport = {
+  passed: string[];
+  failed: Array<{ check: string; error: string }>;
+};
+
+function assertResultShape(result: MemorySearchResult, index: number) {
+  const where = `result #${index + 1}`;
+  if (typeof result.path !== "string" || !result.path.trim()) {
+    throw new Error(`${where}: path must be a non-empty string`);
+  }
+  if (!Number.isInteger(result.startLine) || !Number.isInteger(result.endLine)) {
+    throw new Error(`${where}: startLine/endLine must be integers`);
+  }
+  if (result.startLine < 1 || result.endLine < result.startLine) {
+    throw new Error(`${where}: expected 1 <= startLine <= endLine`);
+  }
+  if (!Number.isFinite(result.score)) {
+    throw new Error(`${where}: score must be a finite number`);
+  }
+  if (typeof result.snippet !== "string") {
+    throw new Error(`${where}: snippet must be a string`);
+  }
+  if (result.source !== "memory" && result.source !== "sessions") {
+    throw new Error(`${where}: source must be "memory" or "sessions"`);
+  }
+}
+
+/**
+ * Contract checks for a `MemorySearchManager`, shared by the builtin index and
+ * plugin backends (`registerMemoryBackend`). Runs every check and reports each
+ * failure instead of stopping at the first one, so it works under any test
+ * runner: assert that `failed` is empty.
+ */
+export async function runMemoryBackendConformance(
+  options: MemoryBackendConformanceOptions,
+): Promise<MemoryBackendConformanceReport> {
+  const report: MemoryBackendConformanceReport = { passed: [], failed: [] };
+  const check = async (name: string, fn: () => Promise<void> | void) => {
+    try {
+      await fn();
+      report.passed.push(name);
+    } catch (err) {
+      report.failed.push({ check: name, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  let manager: MemorySearchManager;
+  try {
+    manager = await options.create();
+  } catch (err) {
+    report.failed.push({
+      check: "create",
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return report;
+  }
+
+  await check("status", () => {
+    const status = manager.status();
+    if (typeof status?.backend !== "string" || !status.backend.trim()) {
+      throw new Error("status().backend must be a non-empty string");
+    }
+    if (typeof status.provider !== "string") {
+      throw new Error("status().provider must be a string");
+    }
+  });
+
+  await check("sync", async () => {
+    await manager.sync?.({ reason: "conformance", progress: () => {} });
+  });
+
+  let hits: MemorySearchResult[] = [];
+  await check("search", async () => {
+    hits = await manager.search(options.query);
+    if (!Array.isArray(hits) || hits.length === 0) {
+      throw new Error(`search(${JSON.stringify(options.query)}) returned no results`);
+    }
+    hits.forEach(assertResultShape);
+    if (options.expectPath && !hits.some((hit) => hit.path === options.expectPath)) {
+      throw new Error(`expected a hit for ${options.expectPath}`);
+    }
+    for (let i = 1; i < hits.length; i += 1) {
+      if (hits[i].score > hits[i - 1].score) {
+        throw new Error("results must be ordered by descending score");
+      }
+    }
+  });
+
+  await check("search maxResults", async () => {
+    const limited = await manager.search(options.query, { maxResults: 1 });
+    if (limited.length > 1) {
+      throw new Error(`maxResults=1 returned ${limited.length} results`);
+    }
+  });
+
+  await check("search minScore", async () => {
+    const top = hits[0]?.score;
+    if (top === undefined) {
+      throw new Error("needs at least one search hit");
+    }
+    const filtered = await manager.search(options.query, { minScore: top + 1 });
+    if (filtered.length > 0) {
+      throw new Error(`minScore above the top score still returned ${filtered.length} results`);
+    }
+  });
+
+  await check("readFile", async () => {
+    const hit = hits[0];
+    if (!hit) {
+      throw new Error("needs at least one search hit");
+    }
+    const file = await manager.readFile({ relPath: hit.path });
+    if (typeof file?.text !== "string" || typeof file.path !== "string") {
+      throw new Error("readFile() must return { text, path } strings");
+    }
+    const slice = await manager.readFile({ relPath: hit.path, from: hit.startLine, lines: 1 });
+    if (slice.text.split("\n").length > 1) {
+      throw new Error("readFile({ lines: 1 }) returned more than one line");
+    }
+  });
+
+  await check("readFile empty path", async () => {
+    let rejected = false;
+    try {
+      await manager.readFile({ relPath: "" });
+    } catch {
+      rejected = true;
+    }
+    if (!rejected) {
+      throw new Error("readFile() must reject an empty path");
+    }
+  });
+
+  await check("probes", async () => {
+    const embedding = await manager.probeEmbeddingAvailability();
+    if (typeof embedding?.ok !== "boolean") {
+      throw new Error("probeEmbeddingAvailability() must return { ok: boolean }");
+    }
+    if (typeof (await manager.probeVectorAvailability()) !== "boolean") {
+      throw new Error("probeVectorAvailability() must return a boolean");
+    }
+  });
+
+  await check("close", async () => {
+    await manager.close?.();
+  });
+
+  return report;
+}
@@ -0,0 +1,132 @@
+import type { DatabaseSync } from "node:sqlite";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  assertMemoryFact,
+  copyMemoryFacts,
+  ensureMemoryFactsSchema,
+  queryMemoryFacts,
+  retractMemoryFact,
+  searchMemoryFacts,
+} from "./facts.js";
+import { requireNodeSqlite } from "./sqlite.js";
+
+function openDb(): DatabaseSync {
+  const { DatabaseSync } = requireNodeSqlite();
+  const db = new DatabaseSync(":memory:");
+  ensureMemoryFactsSchema(db);
+  return db;
+}
+
+describe("memory facts store", () => {
+  let db: DatabaseSync;
+
+  beforeEach(() => {
+    db = openDb();
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it("dedupes re-asserted triples and keeps the latest confidence and source", () => {
+    const first = assertMemoryFact(
+      db,
+      { subject: "Alice", predicate: "works_at", object: "Acme", confidence: 0.6 },
+      1_000,
+    );
+    const second = assertMemoryFact(
+      db,
+      {
+        subject: " alice ",
+        predicate: "WORKS_AT",
+        object: "acme",
+        confidence: 0.9,
+        source: { path: "memory/2026-01-07.md", startLine: 4 },
+      },
+      2_000,
+    );
+
+    expect(first.created).toBe(true);
+    expect(second.created).toBe(false);
+    expect(second.fact).toMatchObject({
+      id: first.fact.id,
+      subject: "Alice",
+      confidence: 0.9,
+      source: { path: "memory/2026-01-07.md", startLine: 4, endLine: 4 },
+      createdAt: 1_000,
+      updatedAt: 2_000,
+    });
+    expect(queryMemoryFacts(db)).toHaveLength(1);
+  });
+
+  it("rejects empty fields and out-of-range confidence", () => {
+    expect(() => assertMemoryFact(db, { subject: " ", predicate: "is", object: "x" })).toThrow(
+      "fact subject required",
+    );
+    expect(() =>
+      assertMemoryFact(db, { subject: "a", predicate: "is", object: "x", confidence: 2 }),
+    ).toThrow("fact confidence must be between 0 and 1");
+  });
+
+  it("retracts by triple and hides retracted facts unless asked", () => {
+    assertMemoryFact(db, { subject: "Bob", predicate: "lives_in", object: "Berlin" });
+    assertMemoryFact(db, { subject: "Bob", predicate: "likes", object: "tea" });
+
+    const retracted = retractMemoryFact(db, {
+      subject: "bob",
+      predicate: "lives_in",
+      reason: "moved",
+    });
+
+    expect(retracted.map((fact) => fact.object)).toEqual(["Berlin"]);
+    expect(retracted[0]?.retractReason).toBe("moved");
+    expect(queryMemoryFacts(db, { subject: "Bob" }).map((fact) => fact.object)).toEqual(["tea"]);
+    expect(queryMemoryFacts(db, { subject: "Bob", includeRetracted: true })).toHaveLength(2);
+    expect(retractMemoryFact(db, { id: retracted[0].id })).toEqual([]);
+  });
+
+  it("follows entity objects when querying the graph", () => {
+    assertMemoryFact(db, {
+      subject: "Alice",
+      predicate: "works_on",
+      object: "Project Apollo",
+      objectKind: "entity",
+    });
+    assertMemoryFact(db, { subject: "Project Apollo", predicate: "ships", object: "in March" });
+    assertMemoryFact(db, { subject: "Carol", predicate: "likes", object: "Alice" });
+
+    const direct = queryMemoryFacts(db, { entity: "alice" });
+    expect(direct.map((fact) => fact.predicate).toSorted()).toEqual(["works_on"]);
+
+    const twoHops = queryMemoryFacts(db, { entity: "Alice", depth: 2 });
+    expect(twoHops.map((fact) => fact.predicate).toSorted()).toEqual(["ships", "works_on"]);
+  });
+
+  it("scores search hits by keyword coverage", () => {
+    assertMemoryFact(db, { subject: "Alice", predicate: "works_at", object: "Acme" });
+    assertMemoryFact(db, { subject: "Alice", predicate: "likes", object: "climbing" });
+
+    const hits = searchMemoryFacts(db, "where does Alice work", 5);
+
+    expect(hits[0]?.fact.object).toBe("Acme");
+    expect(hits[0]?.textScore).toBe(1);
+    expect(hits[1]?.textScore).toBe(0.5);
+    expect(searchMemoryFacts(db, "the", 5)).toEqual([]);
+  });
+
+  it("copies facts and entities into a rebuilt database", () => {
+    const { fact } = assertMemoryFact(db, {
+      subject: "Alice",
+      predicate: "works_on",
+      object: "Apollo",
+      objectKind: "entity",
+    });
+    const target = openDb();
+    try {
+      copyMemoryFacts(db, target);
+      expect(queryMemoryFacts(target, { entity: "apollo" })).toEqual([fact]);
+    } finally {
+      target.close();
+    }
+  });
+});
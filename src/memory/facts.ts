@@ -0,0 +1,476 @@
+import { randomUUID } from "node:crypto";
+import type { DatabaseSync } from "node:sqlite";
+import { extractKeywords } from "./query-expansion.js";
+import type {
+  MemoryFact,
+  MemoryFactInput,
+  MemoryFactQuery,
+  MemoryFactRetractParams,
+} from "./types.js";
+
+export const FACTS_TABLE = "facts";
+export const ENTITIES_TABLE = "entities";
+
+const DEFAULT_FACT_CONFIDENCE = 1;
+const DEFAULT_FACT_QUERY_LIMIT = 50;
+const MAX_FACT_QUERY_LIMIT = 500;
+const MAX_ENTITY_DEPTH = 3;
+
+type FactRow = {
+  id: string;
+  subject: string;
+  predicate: string;
+  object: string;
+  object_entity: string | null;
+  source_path: string | null;
+  source_start_line: number | null;
+  source_end_line: number | null;
+  confidence: number;
+  created_at: number;
+  updated_at: number;
+  retracted_at: number | null;
+  retract_reason: string | null;
+};
+
+export function ensureMemoryFactsSchema(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${ENTITIES_TABLE} (
+      key TEXT PRIMARY KEY,
+      name TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    );
+  `);
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${FACTS_TABLE} (
+      id TEXT PRIMARY KEY,
+      subject TEXT NOT NULL,
+      subject_key TEXT NOT NULL,
+      predicate TEXT NOT NULL,
+      predicate_key TEXT NOT NULL,
+      object TEXT NOT NULL,
+      object_key TEXT NOT NULL,
+      object_entity TEXT,
+      source_path TEXT,
+      source_start_line INTEGER,
+      source_end_line INTEGER,
+      confidence REAL NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      retracted_at INTEGER,
+      retract_reason TEXT
+    );
+  `);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_facts_subject ON ${FACTS_TABLE}(subject_key);`);
+  db.exec(`CREATE INDEX IF NOT EXISTS idx_facts_object_entity ON ${FACTS_TABLE}(object_entity);`);
+  db.exec(
+    `CREATE INDEX IF NOT EXISTS idx_facts_triple ON ${FACTS_TABLE}(subject_key, predicate_key, object_key);`,
+  );
+}
+
+/** Case- and whitespace-insensitive key used to match entities and triples. */
+export function normalizeFactKey(value: string): string {
+  return value.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+function requireFactField(value: string | undefined, field: string): string {
+  const trimmed = value?.trim().replace(/\s+/g, " ");
+  if (!trimmed) {
+    throw new Error(`fact ${field} required`);
+  }
+  return trimmed;
+}
+
+function normalizeConfidence(value: number | undefined): number {
+  if (value === undefined) {
+    return DEFAULT_FACT_CONFIDENCE;
+  }
+  if (!Number.isFinite(value) || value < 0 || value > 1) {
+    throw new Error("fact confidence must be between 0 and 1");
+  }
+  return value;
+}
+
+function normalizeLine(value: number | undefined): number | null {
+  return typeof value === "number" && Number.isFinite(value) && value >= 1
+    ? Math.floor(value)
+    : null;
+}
+
+function rowToFact(row: FactRow): MemoryFact {
+  const fact: MemoryFact = {
+    id: row.id,
+    subject: row.subject,
+    predicate: row.predicate,
+    object: row.object,
+    objectKind: row.object_entity ? "entity" : "value",
+    confidence: row.confidence,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+  if (row.source_path) {
+    fact.source = {
+      path: row.source_path,
+      ...(row.source_start_line ? { startLine: row.source_start_line } : {}),
+      ...(row.source_end_line ? { endLine: row.source_end_line } : {}),
+    };
+  }
+  if (row.retracted_at) {
+    fact.retractedAt = row.retracted_at;
+    if (row.retract_reason) {
+      fact.retractReason = row.retract_reason;
+    }
+  }
+  return fact;
+}
+
+function upsertEntity(db: DatabaseSync, name: string, nowMs: number): string {
+  const key = normalizeFactKey(name);
+  db.prepare(
+    `INSERT INTO ${ENTITIES_TABLE} (key, name, created_at, updated_at) VALUES (?, ?, ?, ?)
+     ON CONFLICT(key) DO UPDATE SET updated_at=excluded.updated_at`,
+  ).run(key, name, nowMs, nowMs);
+  return key;
+}
+
+function getFactRow(db: DatabaseSync, id: string): FactRow | undefined {
+  return db.prepare(`SELECT * FROM ${FACTS_TABLE} WHERE id = ?`).get(id) as FactRow | undefined;
+}
+
+/** Active (not retracted) fact by id. */
+export function getMemoryFact(db: DatabaseSync, id: string): MemoryFact | undefined {
+  const row = getFactRow(db, id);
+  return row && !row.retracted_at ? rowToFact(row) : undefined;
+}
+
+/**
+ * Records a subject/predicate/object fact. Re-asserting an active triple
+ * refreshes its confidence, source, and timestamp instead of duplicating it.
+ */
+export function assertMemoryFact(
+  db: DatabaseSync,
+  input: MemoryFactInput,
+  nowMs = Date.now(),
+): { fact: MemoryFact; created: boolean } {
+  const subject = requireFactField(input.subject, "subject");
+  const predicate = requireFactField(input.predicate, "predicate");
+  const object = requireFactField(input.object, "object");
+  const confidence = normalizeConfidence(input.confidence);
+  const sourcePath = input.source?.path?.trim() || null;
+  const startLine = sourcePath ? normalizeLine(input.source?.startLine) : null;
+  const endLine = sourcePath ? (normalizeLine(input.source?.endLine) ?? startLine) : null;
+  if (startLine !== null && endLine !== null && endLine < startLine) {
+    throw new Error("fact source endLine must be >= startLine");
+  }
+
+  const subjectKey = upsertEntity(db, subject, nowMs);
+  const objectEntity = input.objectKind === "entity" ? upsertEntity(db, object, nowMs) : null;
+  const predicateKey = normalizeFactKey(predicate);
+  const objectKey = normalizeFactKey(object);
+
+  const existing = db
+    .prepare(
+      `SELECT id FROM ${FACTS_TABLE}
+        WHERE subject_key = ? AND predicate_key = ? AND object_key = ? AND retracted_at IS NULL
+        LIMIT 1`,
+    )
+    .get(subjectKey, predicateKey, objectKey) as { id: string } | undefined;
+  if (existing) {
+    db.prepare(
+      `UPDATE ${FACTS_TABLE}
+          SET confidence = ?, updated_at = ?,
+              object_entity = COALESCE(?, object_entity),
+              source_path = COALESCE(?, source_path),
+              source_start_line = CASE WHEN ? IS NULL THEN source_start_line ELSE ? END,
+              source_end_line = CASE WHEN ? IS NULL THEN source_end_line ELSE ? END
+        WHERE id = ?`,
+    ).run(
+      confidence,
+      nowMs,
+      objectEntity,
+      sourcePath,
+      sourcePath,
+      startLine,
+      sourcePath,
+      endLine,
+      existing.id,
+    );
+    return { fact: rowToFact(getFactRow(db, existing.id)!), created: false };
+  }
+
+  const id = randomUUID();
+  db.prepare(
+    `INSERT INTO ${FACTS_TABLE} (
+       id, subject, subject_key, predicate, predicate_key, object, object_key, object_entity,
+       source_path, source_start_line, source_end_line, confidence, created_at, updated_at
+     ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+  ).run(
+    id,
+    subject,
+    subjectKey,
+    predicate,
+    predicateKey,
+    object,
+    objectKey,
+    objectEntity,
+    sourcePath,
+    startLine,
+    endLine,
+    confidence,
+    nowMs,
+    nowMs,
+  );
+  return { fact: rowToFact(getFactRow(db, id)!), created: true };
+}
+
+/**
+ * Marks facts as retracted, by id or by triple. Retracted facts are kept for
+ * history but no longer show up in queries or search.
+ */
+export function retractMemoryFact(
+  db: DatabaseSync,
+  params: MemoryFactRetractParams,
+  nowMs = Date.now(),
+): MemoryFact[] {
+  const reason = params.reason?.trim() || null;
+  let rows: FactRow[];
+  if (params.id?.trim()) {
+    rows = db
+      .prepare(`SELECT * FROM ${FACTS_TABLE} WHERE id = ? AND retracted_at IS NULL`)
+      .all(params.id.trim()) as FactRow[];
+  } else {
+    const subject = requireFactField(params.subject, "subject");
+    const predicate = requireFactField(params.predicate, "predicate");
+    const objectKey = params.object?.trim() ? normalizeFactKey(params.object) : null;
+    rows = db
+      .prepare(
+        `SELECT * FROM ${FACTS_TABLE}
+          WHERE subject_key = ? AND predicate_key = ? AND retracted_at IS NULL
+            AND (? IS NULL OR object_key = ?)`,
+      )
+      .all(
+        normalizeFactKey(subject),
+        normalizeFactKey(predicate),
+        objectKey,
+        objectKey,
+      ) as FactRow[];
+  }
+  const update = db.prepare(
+    `UPDATE ${FACTS_TABLE} SET retracted_at = ?, retract_reason = ?, updated_at = ? WHERE id = ?`,
+  );
+  for (const row of rows) {
+    update.run(nowMs, reason, nowMs, row.id);
+  }
+  return rows.map((row) =>
+    rowToFact({ ...row, retracted_at: nowMs, retract_reason: reason, updated_at: nowMs }),
+  );
+}
+
+/** Entity keys reachable from `entity` within `depth` subject/object hops. */
+function collectEntityGraph(
+  db: DatabaseSync,
+  entity: string,
+  depth: number,
+  includeRetracted: boolean,
+): Set<string> {
+  const visited = new Set([normalizeFactKey(entity)]);
+  let frontier = [...visited];
+  const retractedFilter = includeRetracted ? "" : " AND retracted_at IS NULL";
+  const neighbors = db.prepare(
+    `SELECT subject_key, object_entity FROM ${FACTS_TABLE}
+      WHERE (subject_key = ? OR object_entity = ?)${retractedFilter}`,
+  );
+  for (let hop = 1; hop < depth && frontier.length > 0; hop += 1) {
+    const next: string[] = [];
+    for (const key of frontier) {
+      const rows = neighbors.all(key, key) as Array<{
+        subject_key: string;
+        object_entity: string | null;
+      }>;
+      for (const row of rows) {
+        for (const candidate of [row.subject_key, row.object_entity]) {
+          if (candidate && !visited.has(candidate)) {
+            visited.add(candidate);
+            next.push(candidate);
+          }
+        }
+      }
+    }
+    frontier = next;
+  }
+  return visited;
+}
+
+export function queryMemoryFacts(db: DatabaseSync, query: MemoryFactQuery = {}): MemoryFact[] {
+  const where: string[] = [];
+  const params: Array<string | number> = [];
+  if (!query.includeRetracted) {
+    where.push("retracted_at IS NULL");
+  }
+  if (query.entity?.trim()) {
+    const depth = Math.max(1, Math.min(MAX_ENTITY_DEPTH, Math.floor(query.depth ?? 1)));
+    const keys = [...collectEntityGraph(db, query.entity, depth, Boolean(query.includeRetracted))];
+    const placeholders = keys.map(() => "?").join(", ");
+    where.push(`(subject_key IN (${placeholders}) OR object_entity IN (${placeholders}))`);
+    params.push(...keys, ...keys);
+  }
+  for (const [column, value] of [
+    ["subject_key", query.subject],
+    ["predicate_key", query.predicate],
+    ["object_key", query.object],
+  ] as const) {
+    if (value?.trim()) {
+      where.push(`${column} = ?`);
+      params.push(normalizeFactKey(value));
+    }
+  }
+  if (typeof query.minConfidence === "number" && Number.isFinite(query.minConfidence)) {
+    where.push("confidence >= ?");
+    params.push(query.minConfidence);
+  }
+  const limit = Math.max(
+    1,
+    Math.min(MAX_FACT_QUERY_LIMIT, Math.floor(query.limit ?? DEFAULT_FACT_QUERY_LIMIT)),
+  );
+  const rows = db
+    .prepare(
+      `SELECT * FROM ${FACTS_TABLE}` +
+        (where.length > 0 ? ` WHERE ${where.join(" AND ")}` : "") +
+        ` ORDER BY updated_at DESC LIMIT ?`,
+    )
+    .all(...params, limit) as FactRow[];
+  return rows.map(rowToFact);
+}
+
+export function formatMemoryFact(fact: Pick<MemoryFact, "subject" | "predicate" | "object">) {
+  return `${fact.subject} ${fact.predicate.replaceAll("_", " ")} ${fact.object}`;
+}
+
+/**
+ * Keyword candidates for hybrid search. `textScore` is the share of query
+ * keywords found in the fact's subject, predicate, or object.
+ */
+export function searchMemoryFacts(
+  db: DatabaseSync,
+  query: string,
+  limit: number,
+): Array<{ fact: MemoryFact; textScore: number }> {
+  const keywords = extractKeywords(query).map((keyword) => keyword.toLowerCase());
+  if (keywords.length === 0 || limit <= 0) {
+    return [];
+  }
+  const clauses = keywords.map(
+    () =>
+      "(subject_key LIKE ? ESCAPE '\\' OR predicate_key LIKE ? ESCAPE '\\' OR object_key LIKE ? ESCAPE '\\')",
+  );
+  const params = keywords.flatMap((keyword) => {
+    const pattern = `%${keyword.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+    return [pattern, pattern, pattern];
+  });
+  const rows = db
+    .prepare(
+      `SELECT * FROM ${FACTS_TABLE}
+        WHERE retracted_at IS NULL AND (${clauses.join(" OR ")})
+        ORDER BY updated_at DESC
+        LIMIT ?`,
+    )
+    .all(...params, Math.min(MAX_FACT_QUERY_LIMIT, limit * 4)) as FactRow[];
+  return rows
+    .map((row) => {
+      const haystack = `${row.subject} ${row.predicate} ${row.object}`.toLowerCase();
+      const matched = keywords.filter((keyword) => haystack.includes(keyword)).length;
+      return { fact: rowToFact(row), textScore: matched / keywords.length };
+    })
+    .toSorted((a, b) => b.textScore - a.textScore)
+    .slice(0, limit);
+}
+
+const ENTITY_COLUMNS = ["key", "name", "created_at", "updated_at"] as const;
+const FACT_COLUMNS = [
+  "id",
+  "subject",
+  "subject_key",
+  "predicate",
+  "predicate_key",
+  "object",
+  "object_key",
+  "object_entity",
+  "source_path",
+  "source_start_line",
+  "source_end_line",
+  "confidence",
+  "created_at",
+  "updated_at",
+  "retracted_at",
+  "retract_reason",
+] as const;
+
+type SqlValue = string | number | null;
+
+/** Raw entity and fact rows, as carried across reindexes and index archives. */
+export type MemoryFactRows = {
+  entities: Array<Record<string, SqlValue>>;
+  facts: Array<Record<string, SqlValue>>;
+};
+
+export function readMemoryFactRows(db: DatabaseSync): MemoryFactRows {
+  try {
+    return {
+      entities: db
+        .prepare(`SELECT ${ENTITY_COLUMNS.join(", ")} FROM ${ENTITIES_TABLE}`)
+        .all() as MemoryFactRows["entities"],
+      facts: db
+        .prepare(`SELECT ${FACT_COLUMNS.join(", ")} FROM ${FACTS_TABLE}`)
+        .all() as MemoryFactRows["facts"],
+    };
+  } catch {
+    // Databases created before the facts store have nothing to carry over.
+    return { entities: [], facts: [] };
+  }
+}
+
+/** Upserts raw rows; the caller owns the transaction. Unknown columns are ignored. */
+export function writeMemoryFactRows(db: DatabaseSync, rows: MemoryFactRows): void {
+  const writeRows = (
+    table: string,
+    columns: readonly string[],
+    entries: Array<Record<string, unknown>>,
+  ) => {
+    if (entries.length === 0) {
+      return;
+    }
+    const insert = db.prepare(
+      `INSERT OR REPLACE INTO ${table} (${columns.join(", ")}) VALUES (${columns
+        .map(() => "?")
+        .join(", ")})`,
+    );
+    for (const entry of entries) {
+      insert.run(
+        ...columns.map((column) => {
+          const value = entry[column];
+          return typeof value === "string" || typeof value === "number" ? value : null;
+        }),
+      );
+    }
+  };
+  writeRows(ENTITIES_TABLE, ENTITY_COLUMNS, rows.entities);
+  writeRows(FACTS_TABLE, FACT_COLUMNS, rows.facts);
+}
+
+/** Carries facts and entities over when the index is rebuilt into a fresh database. */
+export function copyMemoryFacts(sourceDb: DatabaseSync, targetDb: DatabaseSync): void {
+  const rows = readMemoryFactRows(sourceDb);
+  if (rows.entities.length === 0 && rows.facts.length === 0) {
+    return;
+  }
+  try {
+    targetDb.exec("BEGIN");
+    writeMemoryFactRows(targetDb, rows);
+    targetDb.exec("COMMIT");
+  } catch (err) {
+    try {
+      targetDb.exec("ROLLBACK");
+    } catch {}
+    throw err;
+  }
+}
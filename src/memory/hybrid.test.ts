@@ -52,6 +52,45 @@ describe("memory hybrid helpers", () => {
     expect(b?.score).toBeCloseTo(0.3 * 1.0);
   });
 
+  it("mergeHybridResults scores facts by weight, keyword coverage, and confidence", async () => {
+    const merged = await mergeHybridResults({
+      vectorWeight: 0.7,
+      textWeight: 0.3,
+      factWeight: 0.5,
+      vector: [
+        {
+          id: "a",
+          path: "memory/a.md",
+          startLine: 1,
+          endLine: 2,
+          source: "memory",
+          snippet: "vec-a",
+          vectorScore: 0.5,
+        },
+      ],
+      keyword: [],
+      facts: [
+        {
+          id: "f1",
+          path: "memory/a.md",
+          startLine: 1,
+          endLine: 1,
+          source: "memory",
+          snippet: "Alice works at Acme",
+          textScore: 1,
+          confidence: 0.8,
+        },
+      ],
+    });
+
+    expect(merged.map((r) => [r.snippet, r.factId])).toEqual([
+      ["Alice works at Acme", "f1"],
+      ["vec-a", undefined],
+    ]);
+    expect(merged[0]?.score).toBeCloseTo(0.4);
+    expect(merged[1]?.score).toBeCloseTo(0.35);
+  });
+
   it("mergeHybridResults prefers keyword snippet when ids overlap", async () => {
     const merged = await mergeHybridResults({
       vectorWeight: 0.5,
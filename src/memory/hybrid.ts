@@ -30,6 +30,18 @@ export type HybridKeywordResult = {
   textScore: number;
 };
 
+export type HybridFactResult = {
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  source: HybridSource;
+  snippet: string;
+  /** Share of query keywords the fact matches (0-1). */
+  textScore: number;
+  confidence: number;
+};
+
 export function buildFtsQuery(raw: string): string | null {
   const tokens =
     raw
@@ -51,8 +63,11 @@ export function bm25RankToScore(rank: number): number {
 export async function mergeHybridResults(params: {
   vector: HybridVectorResult[];
   keyword: HybridKeywordResult[];
+  /** Structured fact hits, scored as `factWeight * textScore * confidence`. */
+  facts?: HybridFactResult[];
   vectorWeight: number;
   textWeight: number;
+  factWeight?: number;
   workspaceDir?: string;
   /** MMR configuration for diversity-aware re-ranking */
   mmr?: Partial<MMRConfig>;
@@ -68,6 +83,7 @@ export async function mergeHybridResults(params: {
     score: number;
     snippet: string;
     source: HybridSource;
+    factId?: string;
   }>
 > {
   const byId = new Map<
@@ -118,7 +134,15 @@ export async function mergeHybridResults(params: {
     }
   }
 
-  const merged = Array.from(byId.values()).map((entry) => {
+  const merged: Array<{
+    path: string;
+    startLine: number;
+    endLine: number;
+    score: number;
+    snippet: string;
+    source: HybridSource;
+    factId?: string;
+  }> = Array.from(byId.values()).map((entry) => {
     const score = params.vectorWeight * entry.vectorScore + params.textWeight * entry.textScore;
     return {
       path: entry.path,
@@ -130,6 +154,19 @@ export async function mergeHybridResults(params: {
     };
   });
 
+  const factWeight = params.factWeight ?? 1;
+  for (const fact of params.facts ?? []) {
+    merged.push({
+      path: fact.path,
+      startLine: fact.startLine,
+      endLine: fact.endLine,
+      score: factWeight * fact.textScore * fact.confidence,
+      snippet: fact.snippet,
+      source: fact.source,
+      factId: fact.id,
+    });
+  }
+
   const temporalDecayConfig = { ...DEFAULT_TEMPORAL_DECAY_CONFIG, ...params.temporalDecay };
   const decayed = await applyTemporalDecayToHybridResults({
     results: merged,
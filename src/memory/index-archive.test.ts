@@ -0,0 +1,115 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import zlib from "node:zlib";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+  checkMemoryIndexArchiveCompatibility,
+  MEMORY_INDEX_ARCHIVE_FORMAT,
+  MEMORY_INDEX_ARCHIVE_VERSION,
+  readMemoryIndexArchive,
+  writeMemoryIndexArchive,
+  type MemoryIndexArchive,
+} from "./index-archive.js";
+
+function makeArchive(): MemoryIndexArchive {
+  return {
+    header: {
+      format: MEMORY_INDEX_ARCHIVE_FORMAT,
+      version: MEMORY_INDEX_ARCHIVE_VERSION,
+      exportedAt: "2026-02-20T00:00:00.000Z",
+      agentId: "main",
+      provider: "openai",
+      model: "text-embedding-3-small",
+      dims: 3,
+      chunkTokens: 400,
+      chunkOverlap: 80,
+      sources: ["memory"],
+      counts: { files: 1, chunks: 1, facts: 1 },
+    },
+    files: [{ path: "MEMORY.md", source: "memory", hash: "h1", mtime: 1, size: 10 }],
+    chunks: [
+      {
+        id: "c1",
+        path: "MEMORY.md",
+        source: "memory",
+        startLine: 1,
+        endLine: 2,
+        hash: "ch1",
+        text: "hello",
+        embedding: [0.1, 0.2, 0.3],
+      },
+    ],
+    facts: {
+      entities: [{ key: "alice", name: "Alice", created_at: 1, updated_at: 1 }],
+      facts: [{ id: "f1", subject: "Alice", predicate: "works_at", object: "Acme" }],
+    },
+  };
+}
+
+describe("memory index archive", () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-mem-archive-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("round-trips through a gzip JSONL file", async () => {
+    const filePath = path.join(dir, "nested", "memory.jsonl.gz");
+    const archive = makeArchive();
+    await writeMemoryIndexArchive(filePath, archive);
+
+    const raw = zlib.gunzipSync(await fs.readFile(filePath)).toString("utf-8");
+    expect(raw.trim().split("\n")).toHaveLength(5);
+    expect(await readMemoryIndexArchive(filePath)).toEqual(archive);
+  });
+
+  it("reports the line of an invalid row", async () => {
+    const filePath = path.join(dir, "bad.jsonl.gz");
+    const lines = [
+      JSON.stringify(makeArchive().header),
+      JSON.stringify({ type: "chunk", id: "c1", path: "MEMORY.md", source: "memory" }),
+    ];
+    await fs.writeFile(filePath, zlib.gzipSync(`${lines.join("\n")}\n`));
+
+    await expect(readMemoryIndexArchive(filePath)).rejects.toThrow(
+      /invalid memory index archive .*: line 2: invalid chunk row/,
+    );
+  });
+
+  it("rejects files that are not memory index archives", async () => {
+    const filePath = path.join(dir, "other.jsonl.gz");
+    await fs.writeFile(filePath, zlib.gzipSync(`${JSON.stringify({ format: "other" })}\n`));
+
+    await expect(readMemoryIndexArchive(filePath)).rejects.toThrow(/not a memory index archive/);
+  });
+
+  it("lists every incompatibility with the import target", () => {
+    const { header } = makeArchive();
+    const target = {
+      provider: "openai",
+      model: "text-embedding-3-small",
+      dims: 3,
+      chunkTokens: 400,
+      chunkOverlap: 80,
+    };
+    expect(checkMemoryIndexArchiveCompatibility(header, target)).toEqual([]);
+    expect(checkMemoryIndexArchiveCompatibility(header, { ...target, dims: undefined })).toEqual(
+      [],
+    );
+
+    const problems = checkMemoryIndexArchiveCompatibility(header, {
+      provider: "gemini",
+      model: "gemini-embedding-001",
+      dims: 768,
+      chunkTokens: 200,
+      chunkOverlap: 80,
+    });
+    expect(problems).toHaveLength(3);
+    expect(problems[0]).toContain("openai/text-embedding-3-small");
+  });
+});
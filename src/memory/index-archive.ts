@@ -0,0 +1,239 @@
+import fs from "node:fs";
+import path from "node:path";
+import readline from "node:readline";
+import { Readable } from "node:stream";
+import { pipeline } from "node:stream/promises";
+import zlib from "node:zlib";
+import type { MemoryFactRows } from "./facts.js";
+import type { MemorySource } from "./types.js";
+
+export const MEMORY_INDEX_ARCHIVE_FORMAT = "simpleclaw.memory-index";
+export const MEMORY_INDEX_ARCHIVE_VERSION = 1;
+
+export type MemoryIndexArchiveHeader = {
+  format: typeof MEMORY_INDEX_ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  agentId: string;
+  /** Embedding provider id and model the chunks were embedded with. */
+  provider: string;
+  model: string;
+  dims?: number;
+  chunkTokens: number;
+  chunkOverlap: number;
+  sources: MemorySource[];
+  counts: { files: number; chunks: number; facts: number };
+};
+
+export type MemoryIndexArchiveFile = {
+  path: string;
+  source: MemorySource;
+  hash: string;
+  mtime: number;
+  size: number;
+};
+
+export type MemoryIndexArchiveChunk = {
+  id: string;
+  path: string;
+  source: MemorySource;
+  startLine: number;
+  endLine: number;
+  hash: string;
+  text: string;
+  embedding: number[];
+};
+
+export type MemoryIndexArchive = {
+  header: MemoryIndexArchiveHeader;
+  files: MemoryIndexArchiveFile[];
+  chunks: MemoryIndexArchiveChunk[];
+  facts: MemoryFactRows;
+};
+
+/** What an import target needs to reuse archived embeddings without re-embedding. */
+export type MemoryIndexArchiveTarget = {
+  provider: string;
+  model: string;
+  dims?: number;
+  chunkTokens: number;
+  chunkOverlap: number;
+};
+
+/** Returns the reasons archived embeddings cannot be reused; empty when compatible. */
+export function checkMemoryIndexArchiveCompatibility(
+  header: MemoryIndexArchiveHeader,
+  target: MemoryIndexArchiveTarget,
+): string[] {
+  const problems: string[] = [];
+  if (header.provider !== target.provider || header.model !== target.model) {
+    problems.push(
+      `archive embeddings are ${header.provider}/${header.model}, this agent uses ${target.provider}/${target.model}`,
+    );
+  }
+  if (header.dims && target.dims && header.dims !== target.dims) {
+    problems.push(`archive vectors have ${header.dims} dims, this index has ${target.dims}`);
+  }
+  if (header.chunkTokens !== target.chunkTokens || header.chunkOverlap !== target.chunkOverlap) {
+    problems.push(
+      `archive chunking is ${header.chunkTokens}/${header.chunkOverlap} tokens, this agent uses ${target.chunkTokens}/${target.chunkOverlap}`,
+    );
+  }
+  return problems;
+}
+
+function* archiveLines(archive: MemoryIndexArchive): Generator<string> {
+  yield `${JSON.stringify(archive.header)}\n`;
+  for (const file of archive.files) {
+    yield `${JSON.stringify({ type: "file", ...file })}\n`;
+  }
+  for (const chunk of archive.chunks) {
+    yield `${JSON.stringify({ type: "chunk", ...chunk })}\n`;
+  }
+  for (const entity of archive.facts.entities) {
+    yield `${JSON.stringify({ type: "entity", ...entity })}\n`;
+  }
+  for (const fact of archive.facts.facts) {
+    yield `${JSON.stringify({ type: "fact", ...fact })}\n`;
+  }
+}
+
+/** Writes a gzip-compressed JSONL archive: one header line, then one line per row. */
+export async function writeMemoryIndexArchive(
+  filePath: string,
+  archive: MemoryIndexArchive,
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  await pipeline(
+    Readable.from(archiveLines(archive)),
+    zlib.createGzip(),
+    fs.createWriteStream(filePath),
+  );
+}
+
+function isSource(value: unknown): value is MemorySource {
+  return value === "memory" || value === "sessions";
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function parseHeader(value: unknown): MemoryIndexArchiveHeader {
+  const header = value as Partial<MemoryIndexArchiveHeader> | null;
+  if (!header || header.format !== MEMORY_INDEX_ARCHIVE_FORMAT) {
+    throw new Error("not a memory index archive");
+  }
+  if (header.version !== MEMORY_INDEX_ARCHIVE_VERSION) {
+    throw new Error(`unsupported memory index archive version: ${String(header.version)}`);
+  }
+  if (
+    typeof header.provider !== "string" ||
+    typeof header.model !== "string" ||
+    !isFiniteNumber(header.chunkTokens) ||
+    !isFiniteNumber(header.chunkOverlap) ||
+    !Array.isArray(header.sources)
+  ) {
+    throw new Error("memory index archive header is incomplete");
+  }
+  return header as MemoryIndexArchiveHeader;
+}
+
+function parseFileRow(row: Record<string, unknown>): MemoryIndexArchiveFile | null {
+  if (
+    typeof row.path !== "string" ||
+    !isSource(row.source) ||
+    typeof row.hash !== "string" ||
+    !isFiniteNumber(row.mtime) ||
+    !isFiniteNumber(row.size)
+  ) {
+    return null;
+  }
+  return { path: row.path, source: row.source, hash: row.hash, mtime: row.mtime, size: row.size };
+}
+
+function parseChunkRow(row: Record<string, unknown>): MemoryIndexArchiveChunk | null {
+  if (
+    typeof row.id !== "string" ||
+    typeof row.path !== "string" ||
+    !isSource(row.source) ||
+    !isFiniteNumber(row.startLine) ||
+    !isFiniteNumber(row.endLine) ||
+    typeof row.hash !== "string" ||
+    typeof row.text !== "string" ||
+    !Array.isArray(row.embedding) ||
+    !row.embedding.every(isFiniteNumber)
+  ) {
+    return null;
+  }
+  return {
+    id: row.id,
+    path: row.path,
+    source: row.source,
+    startLine: row.startLine,
+    endLine: row.endLine,
+    hash: row.hash,
+    text: row.text,
+    embedding: row.embedding,
+  };
+}
+
+export async function readMemoryIndexArchive(filePath: string): Promise<MemoryIndexArchive> {
+  const input = fs.createReadStream(filePath).pipe(zlib.createGunzip());
+  const rl = readline.createInterface({ input, crlfDelay: Infinity });
+  let header: MemoryIndexArchiveHeader | null = null;
+  const archive: Omit<MemoryIndexArchive, "header"> = {
+    files: [],
+    chunks: [],
+    facts: { entities: [], facts: [] },
+  };
+  let lineNumber = 0;
+  try {
+    for await (const line of rl) {
+      lineNumber += 1;
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+      let parsed: Record<string, unknown>;
+      try {
+        parsed = JSON.parse(trimmed) as Record<string, unknown>;
+      } catch {
+        throw new Error(`line ${lineNumber}: invalid JSON`);
+      }
+      if (!header) {
+        header = parseHeader(parsed);
+        continue;
+      }
+      const { type, ...row } = parsed;
+      if (type === "file") {
+        const file = parseFileRow(row);
+        if (!file) {
+          throw new Error(`line ${lineNumber}: invalid file row`);
+        }
+        archive.files.push(file);
+      } else if (type === "chunk") {
+        const chunk = parseChunkRow(row);
+        if (!chunk) {
+          throw new Error(`line ${lineNumber}: invalid chunk row`);
+        }
+        archive.chunks.push(chunk);
+      } else if (type === "entity") {
+        archive.facts.entities.push(row as MemoryFactRows["entities"][number]);
+      } else if (type === "fact") {
+        archive.facts.facts.push(row as MemoryFactRows["facts"][number]);
+      }
+      // Unknown row types are skipped so newer archives stay readable.
+    }
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    throw new Error(`invalid memory index archive ${filePath}: ${message}`, { cause: err });
+  } finally {
+    rl.close();
+    input.destroy();
+  }
+  if (!header) {
+    throw new Error(`invalid memory index archive ${filePath}: empty file`);
+  }
+  return { header, ...archive };
+}
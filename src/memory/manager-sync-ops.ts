@@ -23,12 +23,22 @@ import {
   type OpenAiEmbeddingClient,
   type VoyageEmbeddingClient,
 } from "./embeddings.js";
+import { copyMemoryFacts, readMemoryFactRows, writeMemoryFactRows } from "./facts.js";
 import { isFileMissingError } from "./fs-utils.js";
+import {
+  checkMemoryIndexArchiveCompatibility,
+  MEMORY_INDEX_ARCHIVE_FORMAT,
+  MEMORY_INDEX_ARCHIVE_VERSION,
+  type MemoryIndexArchive,
+  type MemoryIndexArchiveChunk,
+  type MemoryIndexArchiveFile,
+} from "./index-archive.js";
 import {
   buildFileEntry,
   ensureDir,
   listMemoryFiles,
   normalizeExtraMemoryPaths,
+  parseEmbedding,
   runWithConcurrency,
 } from "./internal.js";
 import { type MemoryFileEntry } from "./internal.js";
@@ -41,7 +51,7 @@ import {
 } from "./session-files.js";
 import { loadSqliteVecExtension } from "./sqlite-vec.js";
 import { requireNodeSqlite } from "./sqlite.js";
-import type { MemorySource, MemorySyncProgressUpdate } from "./types.js";
+import type { MemoryIndexImportResult, MemorySource, MemorySyncProgressUpdate } from "./types.js";
 
 type MemoryIndexMeta = {
   model: string;
@@ -1040,6 +1050,7 @@ export abstract class MemoryManagerSyncOps {
 
     try {
       this.seedEmbeddingCache(originalDb);
+      copyMemoryFacts(originalDb, this.db);
       const shouldSyncMemory = this.sources.has("memory");
       const shouldSyncSessions = this.shouldSyncSessions(
         { reason: params.reason, force: params.force },
@@ -1148,6 +1159,233 @@ export abstract class MemoryManagerSyncOps {
     this.pruneEmbeddingCacheIfNeeded?.();
   }
 
+  protected buildIndexArchive(): MemoryIndexArchive {
+    const meta = this.readMeta();
+    if (!meta || meta.provider === "none") {
+      throw new Error("memory index is empty; run `simpleclaw memory index` first");
+    }
+    const files = (
+      this.db
+        .prepare(`SELECT path, source, hash, mtime, size FROM files`)
+        .all() as Array<MemoryIndexArchiveFile>
+    ).filter((file) => file.source === "memory" || file.source === "sessions");
+    const chunkRows = this.db
+      .prepare(
+        `SELECT id, path, source, start_line, end_line, hash, text, embedding FROM chunks WHERE model = ?`,
+      )
+      .all(meta.model) as Array<{
+      id: string;
+      path: string;
+      source: MemorySource;
+      start_line: number;
+      end_line: number;
+      hash: string;
+      text: string;
+      embedding: string;
+    }>;
+    const chunks: MemoryIndexArchiveChunk[] = chunkRows.map((row) => ({
+      id: row.id,
+      path: row.path,
+      source: row.source,
+      startLine: row.start_line,
+      endLine: row.end_line,
+      hash: row.hash,
+      text: row.text,
+      embedding: parseEmbedding(row.embedding),
+    }));
+    const facts = readMemoryFactRows(this.db);
+    const dims =
+      meta.vectorDims ?? chunks.find((chunk) => chunk.embedding.length > 0)?.embedding.length;
+    return {
+      header: {
+        format: MEMORY_INDEX_ARCHIVE_FORMAT,
+        version: MEMORY_INDEX_ARCHIVE_VERSION,
+        exportedAt: new Date().toISOString(),
+        agentId: this.agentId,
+        provider: meta.provider,
+        model: meta.model,
+        ...(dims ? { dims } : {}),
+        chunkTokens: meta.chunkTokens,
+        chunkOverlap: meta.chunkOverlap,
+        sources: this.normalizeMetaSources(meta),
+        counts: { files: files.length, chunks: chunks.length, facts: facts.facts.length },
+      },
+      files,
+      chunks,
+      facts,
+    };
+  }
+
+  /**
+   * Replaces the index with an archive's rows, then runs an incremental sync so
+   * only files whose hash differs on this gateway are re-embedded.
+   */
+  protected async applyIndexArchive(
+    archive: MemoryIndexArchive,
+    params?: { progress?: (update: MemorySyncProgressUpdate) => void },
+  ): Promise<Omit<MemoryIndexImportResult, "path">> {
+    if (!this.provider) {
+      throw new Error("memory index import requires an embedding provider");
+    }
+    const { header } = archive;
+    const meta = this.readMeta();
+    const problems = checkMemoryIndexArchiveCompatibility(header, {
+      provider: this.provider.id,
+      model: this.provider.model,
+      dims: this.vector.dims ?? meta?.vectorDims,
+      chunkTokens: this.settings.chunking.tokens,
+      chunkOverlap: this.settings.chunking.overlap,
+    });
+    if (problems.length > 0) {
+      throw new Error(`incompatible memory index archive: ${problems.join("; ")}`);
+    }
+
+    const files = archive.files.filter((file) => this.sources.has(file.source));
+    const chunks = archive.chunks.filter((chunk) => this.sources.has(chunk.source));
+    const dims =
+      header.dims ?? chunks.find((chunk) => chunk.embedding.length > 0)?.embedding.length;
+    const vectorReady = await this.ensureVectorReady();
+    const model = this.provider.model;
+    const now = Date.now();
+
+    try {
+      this.db.exec("BEGIN");
+      this.db.exec(`DELETE FROM files`);
+      this.db.exec(`DELETE FROM chunks`);
+      if (this.fts.enabled && this.fts.available) {
+        try {
+          this.db.exec(`DELETE FROM ${FTS_TABLE}`);
+        } catch {}
+      }
+      if (vectorReady) {
+        this.dropVectorTable();
+        this.vector.dims = undefined;
+        if (dims) {
+          this.ensureVectorTable(dims);
+        }
+      }
+      const insertFile = this.db.prepare(
+        `INSERT INTO files (path, source, hash, mtime, size) VALUES (?, ?, ?, ?, ?)`,
+      );
+      for (const file of files) {
+        insertFile.run(file.path, file.source, file.hash, file.mtime, file.size);
+      }
+      const insertChunk = this.db.prepare(
+        `INSERT OR REPLACE INTO chunks (id, path, source, start_line, end_line, hash, model, text, embedding, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      );
+      const insertVector =
+        vectorReady && dims
+          ? this.db.prepare(`INSERT INTO ${VECTOR_TABLE} (id, embedding) VALUES (?, ?)`)
+          : null;
+      const insertFts =
+        this.fts.enabled && this.fts.available
+          ? this.db.prepare(
+              `INSERT INTO ${FTS_TABLE} (text, id, path, source, model, start_line, end_line)\n` +
+                ` VALUES (?, ?, ?, ?, ?, ?, ?)`,
+            )
+          : null;
+      const insertCache =
+        this.cache.enabled && this.providerKey
+          ? this.db.prepare(
+              `INSERT INTO ${EMBEDDING_CACHE_TABLE} (provider, model, provider_key, hash, embedding, dims, updated_at)
+               VALUES (?, ?, ?, ?, ?, ?, ?)
+               ON CONFLICT(provider, model, provider_key, hash) DO UPDATE SET
+                 embedding=excluded.embedding,
+                 dims=excluded.dims,
+                 updated_at=excluded.updated_at`,
+            )
+          : null;
+      for (const chunk of chunks) {
+        const embedding = JSON.stringify(chunk.embedding);
+        insertChunk.run(
+          chunk.id,
+          chunk.path,
+          chunk.source,
+          chunk.startLine,
+          chunk.endLine,
+          chunk.hash,
+          model,
+          chunk.text,
+          embedding,
+          now,
+        );
+        if (insertVector && chunk.embedding.length === dims) {
+          insertVector.run(chunk.id, Buffer.from(new Float32Array(chunk.embedding).buffer));
+        }
+        insertFts?.run(
+          chunk.text,
+          chunk.id,
+          chunk.path,
+          chunk.source,
+          model,
+          chunk.startLine,
+          chunk.endLine,
+        );
+        // Seeding the cache lets re-embedding of changed files reuse unchanged chunks.
+        if (insertCache && chunk.embedding.length > 0) {
+          insertCache.run(
+            this.provider.id,
+            model,
+            this.providerKey,
+            chunk.hash,
+            embedding,
+            chunk.embedding.length,
+            now,
+          );
+        }
+      }
+      writeMemoryFactRows(this.db, archive.facts);
+      const nextMeta: MemoryIndexMeta = {
+        model,
+        provider: this.provider.id,
+        providerKey: this.providerKey!,
+        sources: this.resolveConfiguredSourcesForMeta(),
+        chunkTokens: this.settings.chunking.tokens,
+        chunkOverlap: this.settings.chunking.overlap,
+      };
+      if (this.vector.available && this.vector.dims) {
+        nextMeta.vectorDims = this.vector.dims;
+      }
+      this.writeMeta(nextMeta);
+      this.db.exec("COMMIT");
+    } catch (err) {
+      try {
+        this.db.exec("ROLLBACK");
+      } catch {}
+      this.vector.dims = meta?.vectorDims;
+      throw err;
+    }
+
+    const archivedHashes = new Map(files.map((file) => [`${file.source}:${file.path}`, file.hash]));
+    const progress = params?.progress ? this.createSyncProgress(params.progress) : undefined;
+    this.sessionsDirtyFiles.clear();
+    if (this.sources.has("memory")) {
+      await this.syncMemoryFiles({ needsFullReindex: false, progress });
+      this.dirty = false;
+    }
+    if (this.sources.has("sessions")) {
+      await this.syncSessionFiles({ needsFullReindex: false, progress });
+      this.sessionsDirty = false;
+    }
+    this.pruneEmbeddingCacheIfNeeded?.();
+
+    const current = this.db.prepare(`SELECT path, source, hash FROM files`).all() as Array<{
+      path: string;
+      source: MemorySource;
+      hash: string;
+    }>;
+    const reindexedFiles = current.filter(
+      (file) => archivedHashes.get(`${file.source}:${file.path}`) !== file.hash,
+    ).length;
+    return {
+      files: files.length,
+      chunks: chunks.length,
+      facts: archive.facts.facts.length,
+      reindexedFiles,
+    };
+  }
+
   private resetIndex() {
     this.db.exec(`DELETE FROM files`);
     this.db.exec(`DELETE FROM chunks`);
@@ -0,0 +1,104 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import { resetEmbeddingMocks } from "./embedding.test-mocks.js";
+import type { MemoryIndexManager } from "./index.js";
+import { getRequiredMemoryIndexManager } from "./test-manager-helpers.js";
+
+describe("MemoryIndexManager facts", () => {
+  let workspaceDir: string;
+  let manager: MemoryIndexManager | null = null;
+
+  function createCfg(facts?: { enabled?: boolean; weight?: number }): SimpleClawConfig {
+    return {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            cache: { enabled: false },
+            query: { minScore: 0, hybrid: { enabled: true }, facts },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as SimpleClawConfig;
+  }
+
+  beforeEach(async () => {
+    resetEmbeddingMocks();
+    vi.stubEnv("SIMPLECLAW_TEST_MEMORY_UNSAFE_REINDEX", "0");
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-mem-facts-"));
+    await fs.mkdir(path.join(workspaceDir, "memory"), { recursive: true });
+    await fs.writeFile(path.join(workspaceDir, "MEMORY.md"), "Weekly sync is on Tuesdays.\n");
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await manager?.close();
+    manager = null;
+    await fs.rm(workspaceDir, { recursive: true, force: true });
+  });
+
+  it("blends fact hits into search and keeps facts across a full reindex", async () => {
+    manager = await getRequiredMemoryIndexManager({ cfg: createCfg() });
+    await manager.sync({ force: true });
+    const { fact } = await manager.assertFact({
+      subject: "Alice",
+      predicate: "works_at",
+      object: "Acme",
+      source: { path: "MEMORY.md", startLine: 1 },
+      confidence: 0.8,
+    });
+
+    const results = await manager.search("where does Alice work");
+    const hit = results.find((entry) => entry.fact);
+    expect(hit).toMatchObject({
+      path: "MEMORY.md",
+      startLine: 1,
+      endLine: 1,
+      snippet: "Alice works at Acme",
+      fact: { id: fact.id, subject: "Alice", confidence: 0.8 },
+    });
+    expect(hit?.score).toBeCloseTo(0.8);
+
+    await manager.sync({ force: true });
+    expect(await manager.queryFacts({ entity: "alice" })).toEqual([fact]);
+    expect(manager.status().facts).toEqual({ enabled: true, count: 1, entities: 1 });
+  });
+
+  it("reads uncited fact hits back through their fact: path", async () => {
+    manager = await getRequiredMemoryIndexManager({ cfg: createCfg() });
+    await manager.sync({ force: true });
+    const { fact } = await manager.assertFact({
+      subject: "Bob",
+      predicate: "prefers",
+      object: "tea",
+    });
+
+    const hit = (await manager.search("what does Bob prefer")).find((entry) => entry.fact);
+    expect(hit?.path).toBe(`fact:${fact.id}`);
+    await expect(manager.readFile({ relPath: hit?.path ?? "" })).resolves.toEqual({
+      path: `fact:${fact.id}`,
+      text: "Bob prefers tea",
+    });
+
+    await manager.retractFact({ id: fact.id });
+    await expect(manager.readFile({ relPath: `fact:${fact.id}` })).rejects.toThrow(
+      `unknown memory fact: ${fact.id}`,
+    );
+  });
+
+  it("skips facts in search when disabled", async () => {
+    manager = await getRequiredMemoryIndexManager({ cfg: createCfg({ enabled: false }) });
+    await manager.assertFact({ subject: "Alice", predicate: "works_at", object: "Acme" });
+
+    const results = await manager.search("Alice Acme");
+    expect(results.some((entry) => entry.fact)).toBe(false);
+  });
+});
@@ -0,0 +1,121 @@
+import fs from "node:fs/promises";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import type { SimpleClawConfig } from "../config/config.js";
+import { getEmbedBatchMock, resetEmbeddingMocks } from "./embedding.test-mocks.js";
+import type { MemoryIndexManager } from "./index.js";
+import { getRequiredMemoryIndexManager } from "./test-manager-helpers.js";
+
+describe("MemoryIndexManager index export/import", () => {
+  let rootDir: string;
+  const managers: MemoryIndexManager[] = [];
+
+  function createCfg(workspaceDir: string, chunkTokens = 400): SimpleClawConfig {
+    return {
+      agents: {
+        defaults: {
+          workspace: workspaceDir,
+          memorySearch: {
+            provider: "openai",
+            model: "mock-embed",
+            store: { path: path.join(workspaceDir, "index.sqlite"), vector: { enabled: false } },
+            cache: { enabled: false },
+            chunking: { tokens: chunkTokens, overlap: 80 },
+            query: { minScore: 0 },
+            sync: { watch: false, onSessionStart: false, onSearch: false },
+          },
+        },
+        list: [{ id: "main", default: true }],
+      },
+    } as SimpleClawConfig;
+  }
+
+  async function createWorkspace(name: string, files: Record<string, string>) {
+    const workspaceDir = path.join(rootDir, name);
+    await fs.mkdir(path.join(workspaceDir, "memory"), { recursive: true });
+    for (const [relPath, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(workspaceDir, relPath), content);
+    }
+    return workspaceDir;
+  }
+
+  async function open(cfg: SimpleClawConfig) {
+    const manager = await getRequiredMemoryIndexManager({ cfg });
+    managers.push(manager);
+    return manager;
+  }
+
+  beforeEach(async () => {
+    resetEmbeddingMocks();
+    vi.stubEnv("SIMPLECLAW_TEST_MEMORY_UNSAFE_REINDEX", "0");
+    rootDir = await fs.mkdtemp(path.join(os.tmpdir(), "simpleclaw-mem-export-"));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    for (const manager of managers.splice(0)) {
+      await manager.close();
+    }
+    await fs.rm(rootDir, { recursive: true, force: true });
+  });
+
+  it("imports another gateway's index and re-embeds only changed files", async () => {
+    const sourceDir = await createWorkspace("source", {
+      "MEMORY.md": "Weekly sync is on Tuesdays.\n",
+      "memory/2026-02-01.md": "Deploy window is Friday.\n",
+    });
+    const source = await open(createCfg(sourceDir));
+    await source.sync({ force: true });
+    await source.assertFact({ subject: "Alice", predicate: "works_at", object: "Acme" });
+    const archivePath = path.join(rootDir, "memory.jsonl.gz");
+    expect(await source.exportIndex(archivePath)).toMatchObject({
+      path: archivePath,
+      provider: "mock",
+      model: "mock-embed",
+      files: 2,
+      chunks: 2,
+      facts: 1,
+    });
+
+    const targetDir = await createWorkspace("target", {
+      "MEMORY.md": "Weekly sync is on Tuesdays.\n",
+      "memory/2026-02-01.md": "Deploy window moved to Thursday.\n",
+    });
+    const target = await open(createCfg(targetDir));
+    const embedBatch = getEmbedBatchMock();
+    embedBatch.mockClear();
+
+    const result = await target.importIndex(archivePath);
+    expect(result).toEqual({
+      path: archivePath,
+      files: 2,
+      chunks: 2,
+      facts: 1,
+      reindexedFiles: 1,
+    });
+    expect(embedBatch).toHaveBeenCalledTimes(1);
+    expect(embedBatch.mock.calls[0]?.[0]).toEqual(["Deploy window moved to Thursday.\n"]);
+    expect(target.status()).toMatchObject({ files: 2, chunks: 2 });
+    expect(await target.queryFacts({ entity: "alice" })).toHaveLength(1);
+
+    // The imported meta matches this gateway, so a regular sync does not rebuild.
+    embedBatch.mockClear();
+    await target.sync({ reason: "test" });
+    expect(embedBatch).not.toHaveBeenCalled();
+  });
+
+  it("rejects archives with incompatible chunking", async () => {
+    const sourceDir = await createWorkspace("source", { "MEMORY.md": "Alpha.\n" });
+    const source = await open(createCfg(sourceDir));
+    await source.sync({ force: true });
+    const archivePath = path.join(rootDir, "memory.jsonl.gz");
+    await source.exportIndex(archivePath);
+
+    const targetDir = await createWorkspace("target", { "MEMORY.md": "Alpha.\n" });
+    const target = await open(createCfg(targetDir, 200));
+    await expect(target.importIndex(archivePath)).rejects.toThrow(
+      /incompatible memory index archive: archive chunking is 400\/80 tokens/,
+    );
+  });
+});
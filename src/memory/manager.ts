@@ -16,14 +16,36 @@ import {
   type OpenAiEmbeddingClient,
   type VoyageEmbeddingClient,
 } from "./embeddings.js";
+import {
+  ENTITIES_TABLE,
+  FACTS_TABLE,
+  assertMemoryFact,
+  formatMemoryFact,
+  getMemoryFact,
+  queryMemoryFacts,
+  retractMemoryFact,
+  searchMemoryFacts,
+} from "./facts.js";
 import { isFileMissingError, statRegularFile } from "./fs-utils.js";
-import { bm25RankToScore, buildFtsQuery, mergeHybridResults } from "./hybrid.js";
+import {
+  bm25RankToScore,
+  buildFtsQuery,
+  mergeHybridResults,
+  type HybridFactResult,
+} from "./hybrid.js";
+import { readMemoryIndexArchive, writeMemoryIndexArchive } from "./index-archive.js";
 import { isMemoryPath, normalizeExtraMemoryPaths } from "./internal.js";
 import { MemoryManagerEmbeddingOps } from "./manager-embedding-ops.js";
 import { searchKeyword, searchVector } from "./manager-search.js";
 import { extractKeywords } from "./query-expansion.js";
 import type {
   MemoryEmbeddingProbeResult,
+  MemoryFact,
+  MemoryFactInput,
+  MemoryFactQuery,
+  MemoryFactRetractParams,
+  MemoryIndexExportResult,
+  MemoryIndexImportResult,
   MemoryProviderStatus,
   MemorySearchManager,
   MemorySearchResult,
@@ -35,6 +57,8 @@ const VECTOR_TABLE = "chunks_vec";
 const FTS_TABLE = "chunks_fts";
 const EMBEDDING_CACHE_TABLE = "embedding_cache";
 const BATCH_FAILURE_LIMIT = 2;
+/** `memory_get` path for search hits on facts that carry no source citation. */
+const FACT_PATH_PREFIX = "fact:";
 
 const log = createSubsystemLogger("memory");
 
@@ -229,6 +253,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       200,
       Math.max(1, Math.floor(maxResults * hybrid.candidateMultiplier)),
     );
+    const factResults = this.searchFacts(cleaned, candidates);
 
     // FTS-only mode: no embedding provider available
     if (!this.provider) {
@@ -258,7 +283,7 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         }
       }
 
-      const merged = [...seenIds.values()]
+      const merged = [...seenIds.values(), ...this.scoreFactResults(factResults)]
         .toSorted((a, b) => b.score - a.score)
         .filter((entry) => entry.score >= minScore)
         .slice(0, maxResults);
@@ -277,12 +302,16 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
       : [];
 
     if (!hybrid.enabled) {
-      return vectorResults.filter((entry) => entry.score >= minScore).slice(0, maxResults);
+      return [...vectorResults, ...this.scoreFactResults(factResults)]
+        .toSorted((a, b) => b.score - a.score)
+        .filter((entry) => entry.score >= minScore)
+        .slice(0, maxResults);
     }
 
     const merged = await this.mergeHybridResults({
       vector: vectorResults,
       keyword: keywordResults,
+      facts: factResults,
       vectorWeight: hybrid.vectorWeight,
       textWeight: hybrid.textWeight,
       mmr: hybrid.mmr,
@@ -342,9 +371,56 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return results.map((entry) => entry as MemorySearchResult & { id: string; textScore: number });
   }
 
+  private searchFacts(
+    query: string,
+    limit: number,
+  ): Array<HybridFactResult & { fact: MemoryFact }> {
+    if (!this.settings.query.facts.enabled) {
+      return [];
+    }
+    let hits: Array<{ fact: MemoryFact; textScore: number }>;
+    try {
+      hits = searchMemoryFacts(this.db, query, limit);
+    } catch (err) {
+      log.warn(`memory fact search failed: ${String(err)}`);
+      return [];
+    }
+    return hits.map(({ fact, textScore }) => {
+      const startLine = fact.source?.startLine ?? 1;
+      return {
+        id: fact.id,
+        path: fact.source?.path ?? `${FACT_PATH_PREFIX}${fact.id}`,
+        startLine,
+        endLine: Math.max(startLine, fact.source?.endLine ?? startLine),
+        source: "memory",
+        snippet: formatMemoryFact(fact),
+        textScore,
+        confidence: fact.confidence,
+        fact,
+      };
+    });
+  }
+
+  /** Fact hits for the non-hybrid paths, scored the same way `mergeHybridResults` does. */
+  private scoreFactResults(
+    facts: Array<HybridFactResult & { fact: MemoryFact }>,
+  ): Array<MemorySearchResult & { id: string }> {
+    return facts.map((entry) => ({
+      id: `fact:${entry.id}`,
+      path: entry.path,
+      startLine: entry.startLine,
+      endLine: entry.endLine,
+      score: this.settings.query.facts.weight * entry.textScore * entry.confidence,
+      snippet: entry.snippet,
+      source: "memory",
+      fact: toFactHit(entry.fact),
+    }));
+  }
+
   private mergeHybridResults(params: {
     vector: Array<MemorySearchResult & { id: string }>;
     keyword: Array<MemorySearchResult & { id: string; textScore: number }>;
+    facts: Array<HybridFactResult & { fact: MemoryFact }>;
     vectorWeight: number;
     textWeight: number;
     mmr?: { enabled: boolean; lambda: number };
@@ -369,12 +445,32 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         snippet: r.snippet,
         textScore: r.textScore,
       })),
+      facts: params.facts,
       vectorWeight: params.vectorWeight,
       textWeight: params.textWeight,
+      factWeight: this.settings.query.facts.weight,
       mmr: params.mmr,
       temporalDecay: params.temporalDecay,
       workspaceDir: this.workspaceDir,
-    }).then((entries) => entries.map((entry) => entry as MemorySearchResult));
+    }).then((entries) => {
+      const factsById = new Map(params.facts.map((entry) => [entry.id, entry.fact]));
+      return entries.map(({ factId, ...entry }) => {
+        const fact = factId ? factsById.get(factId) : undefined;
+        return (fact ? { ...entry, fact: toFactHit(fact) } : entry) as MemorySearchResult;
+      });
+    });
+  }
+
+  async assertFact(input: MemoryFactInput): Promise<{ fact: MemoryFact; created: boolean }> {
+    return assertMemoryFact(this.db, input);
+  }
+
+  async retractFact(params: MemoryFactRetractParams): Promise<MemoryFact[]> {
+    return retractMemoryFact(this.db, params);
+  }
+
+  async queryFacts(query: MemoryFactQuery): Promise<MemoryFact[]> {
+    return queryMemoryFacts(this.db, query);
   }
 
   async sync(params?: {
@@ -394,6 +490,51 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     return this.syncing ?? Promise.resolve();
   }
 
+  async exportIndex(filePath: string): Promise<MemoryIndexExportResult> {
+    if (this.syncing) {
+      await this.syncing;
+    }
+    const archive = this.buildIndexArchive();
+    await writeMemoryIndexArchive(filePath, archive);
+    return {
+      path: filePath,
+      provider: archive.header.provider,
+      model: archive.header.model,
+      ...archive.header.counts,
+    };
+  }
+
+  async importIndex(
+    filePath: string,
+    opts?: { progress?: (update: MemorySyncProgressUpdate) => void },
+  ): Promise<MemoryIndexImportResult> {
+    const archive = await readMemoryIndexArchive(filePath);
+    while (this.syncing) {
+      await this.syncing.catch(() => {});
+    }
+    // Hold the sync slot so watcher/interval syncs queue behind the import.
+    const importing = this.applyIndexArchive(archive, opts);
+    this.syncing = importing.then(
+      () => {},
+      () => {},
+    );
+    try {
+      return { path: filePath, ...(await importing) };
+    } finally {
+      this.syncing = null;
+    }
+  }
+
+  /** Resolves the `fact:<id>` paths search returns for facts without a source citation. */
+  private readFact(relPath: string): { text: string; path: string } {
+    const id = relPath.slice(FACT_PATH_PREFIX.length).trim();
+    const fact = id ? getMemoryFact(this.db, id) : undefined;
+    if (!fact) {
+      throw new Error(`unknown memory fact: ${id}`);
+    }
+    return { text: formatMemoryFact(fact), path: relPath };
+  }
+
   async readFile(params: {
     relPath: string;
     from?: number;
@@ -403,6 +544,9 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     if (!rawPath) {
       throw new Error("path required");
     }
+    if (rawPath.startsWith(FACT_PATH_PREFIX)) {
+      return this.readFact(rawPath);
+    }
     const absPath = path.isAbsolute(rawPath)
       ? path.resolve(rawPath)
       : path.resolve(this.workspaceDir, rawPath);
@@ -547,6 +691,21 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
         available: this.fts.available,
         error: this.fts.loadError,
       },
+      facts: {
+        enabled: this.settings.query.facts.enabled,
+        count:
+          (
+            this.db
+              .prepare(`SELECT COUNT(*) as c FROM ${FACTS_TABLE} WHERE retracted_at IS NULL`)
+              .get() as { c: number } | undefined
+          )?.c ?? 0,
+        entities:
+          (
+            this.db.prepare(`SELECT COUNT(*) as c FROM ${ENTITIES_TABLE}`).get() as
+              | { c: number }
+              | undefined
+          )?.c ?? 0,
+      },
       fallback: this.fallbackReason
         ? { from: this.fallbackFrom ?? "local", reason: this.fallbackReason }
         : undefined,
@@ -638,3 +797,13 @@ export class MemoryIndexManager extends MemoryManagerEmbeddingOps implements Mem
     INDEX_CACHE.delete(this.cacheKey);
   }
 }
+
+function toFactHit(fact: MemoryFact): NonNullable<MemorySearchResult["fact"]> {
+  return {
+    id: fact.id,
+    subject: fact.subject,
+    predicate: fact.predicate,
+    object: fact.object,
+    confidence: fact.confidence,
+  };
+}
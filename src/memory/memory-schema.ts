@@ -1,4 +1,5 @@
 import type { DatabaseSync } from "node:sqlite";
+import { ensureMemoryFactsSchema } from "./facts.js";
 
 export function ensureMemoryIndexSchema(params: {
   db: DatabaseSync;
@@ -78,6 +79,7 @@ export function ensureMemoryIndexSchema(params: {
   ensureColumn(params.db, "chunks", "source", "TEXT NOT NULL DEFAULT 'memory'");
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_path ON chunks(path);`);
   params.db.exec(`CREATE INDEX IF NOT EXISTS idx_chunks_source ON chunks(source);`);
+  ensureMemoryFactsSchema(params.db);
 
   return { ftsAvailable, ...(ftsError ? { ftsError } : {}) };
 }
@@ -83,6 +83,19 @@ vi.mock("./qmd-manager.js", () => ({
   },
 }));
 
+const pluginBackendCreate = vi.fn();
+const resolvePluginMemoryBackend = vi.fn((params: { id: string }) =>
+  params.id === "vectors"
+    ? {
+        pluginId: "vector-store",
+        source: "test",
+        backend: { id: "vectors", create: pluginBackendCreate },
+      }
+    : null,
+);
+
+vi.mock("../plugins/memory-backends.js", () => ({ resolvePluginMemoryBackend }));
+
 vi.mock("./manager.js", () => ({
   MemoryIndexManager: {
     get: mockMemoryIndexGet,
@@ -137,6 +150,9 @@ beforeEach(() => {
   mockMemoryIndexGet.mockClear();
   mockMemoryIndexGet.mockResolvedValue(fallbackManager);
   createQmdManagerMock.mockClear();
+  pluginBackendCreate.mockReset();
+  pluginBackendCreate.mockResolvedValue(mockPrimary);
+  resolvePluginMemoryBackend.mockClear();
 });
 
 describe("getMemorySearchManager caching", () => {
@@ -244,3 +260,42 @@ describe("getMemorySearchManager caching", () => {
     await expect(firstManager.search("hello")).rejects.toThrow("qmd query failed");
   });
 });
+
+describe("getMemorySearchManager plugin backends", () => {
+  function createPluginCfg(backend: string, agentId: string): SimpleClawConfig {
+    return {
+      memory: { backend },
+      agents: { list: [{ id: agentId, default: true, workspace: "/tmp/workspace" }] },
+    };
+  }
+
+  it("serves a plugin-registered backend and falls back to builtin on failure", async () => {
+    const agentId = "plugin-agent";
+    const cfg = createPluginCfg("vectors", agentId);
+    const first = await getMemorySearchManager({ cfg, agentId });
+    const manager = requireManager(first);
+    expect(pluginBackendCreate).toHaveBeenCalledWith({
+      config: cfg,
+      agentId,
+      workspaceDir: "/tmp/workspace",
+      purpose: "default",
+    });
+    expect((await getMemorySearchManager({ cfg, agentId })).manager).toBe(manager);
+
+    mockPrimary.search.mockRejectedValueOnce(new Error("vector store offline"));
+    const results = await manager.search("hello");
+    expect(results[0]?.snippet).toBe("fallback");
+    expect(manager.status().fallback).toEqual({ from: "vectors", reason: "vector store offline" });
+    expect(mockMemoryIndexGet).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses builtin when the configured backend is not registered", async () => {
+    const agentId = "plugin-missing";
+    const result = await getMemorySearchManager({
+      cfg: createPluginCfg("missing-store", agentId),
+      agentId,
+    });
+    expect(result.manager).toBe(fallbackManager);
+    expect(pluginBackendCreate).not.toHaveBeenCalled();
+  });
+});
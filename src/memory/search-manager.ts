@@ -1,15 +1,20 @@
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
 import type { SimpleClawConfig } from "../config/config.js";
 import { createSubsystemLogger } from "../logging/subsystem.js";
 import type { ResolvedQmdConfig } from "./backend-config.js";
 import { resolveMemoryBackendConfig } from "./backend-config.js";
 import type {
   MemoryEmbeddingProbeResult,
+  MemoryFactInput,
+  MemoryFactQuery,
+  MemoryFactRetractParams,
   MemorySearchManager,
   MemorySyncProgressUpdate,
 } from "./types.js";
 
 const log = createSubsystemLogger("memory");
 const QMD_MANAGER_CACHE = new Map<string, MemorySearchManager>();
+const PLUGIN_MANAGER_CACHE = new Map<string, MemorySearchManager>();
 
 export type MemorySearchManagerResult = {
   manager: MemorySearchManager | null;
@@ -22,6 +27,12 @@ export async function getMemorySearchManager(params: {
   purpose?: "default" | "status";
 }): Promise<MemorySearchManagerResult> {
   const resolved = resolveMemoryBackendConfig(params);
+  if (resolved.backend !== "builtin" && resolved.backend !== "qmd") {
+    const manager = await getPluginMemorySearchManager({ ...params, backendId: resolved.backend });
+    if (manager) {
+      return { manager };
+    }
+  }
   if (resolved.backend === "qmd" && resolved.qmd) {
     const statusOnly = params.purpose === "status";
     const cacheKey = buildQmdCacheKey(params.agentId, resolved.qmd);
@@ -45,6 +56,7 @@ export async function getMemorySearchManager(params: {
         }
         const wrapper = new FallbackMemoryManager(
           {
+            label: "qmd",
             primary,
             fallbackFactory: async () => {
               const { MemoryIndexManager } = await import("./manager.js");
@@ -72,6 +84,68 @@ export async function getMemorySearchManager(params: {
   }
 }
 
+async function getPluginMemorySearchManager(params: {
+  cfg: SimpleClawConfig;
+  agentId: string;
+  purpose?: "default" | "status";
+  backendId: string;
+}): Promise<MemorySearchManager | null> {
+  const statusOnly = params.purpose === "status";
+  const cacheKey = `${params.agentId}:${params.backendId}`;
+  if (!statusOnly) {
+    const cached = PLUGIN_MANAGER_CACHE.get(cacheKey);
+    if (cached) {
+      return cached;
+    }
+  }
+  try {
+    const { resolvePluginMemoryBackend } = await import("../plugins/memory-backends.js");
+    const registration = resolvePluginMemoryBackend({
+      cfg: params.cfg,
+      agentId: params.agentId,
+      id: params.backendId,
+    });
+    if (!registration) {
+      log.warn(
+        `memory backend "${params.backendId}" is not registered by an enabled plugin; falling back to builtin`,
+      );
+      return null;
+    }
+    const primary = await registration.backend.create({
+      config: params.cfg,
+      agentId: params.agentId,
+      workspaceDir: resolveAgentWorkspaceDir(params.cfg, params.agentId),
+      purpose: statusOnly ? "status" : "default",
+    });
+    if (!primary) {
+      log.warn(`memory backend "${params.backendId}" returned no manager; falling back to builtin`);
+      return null;
+    }
+    if (statusOnly) {
+      return primary;
+    }
+    const wrapper = new FallbackMemoryManager(
+      {
+        label: params.backendId,
+        primary,
+        fallbackFactory: async () => {
+          const { MemoryIndexManager } = await import("./manager.js");
+          return await MemoryIndexManager.get(params);
+        },
+      },
+      () => PLUGIN_MANAGER_CACHE.delete(cacheKey),
+    );
+    PLUGIN_MANAGER_CACHE.set(cacheKey, wrapper);
+    return wrapper;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    log.warn(
+      `memory backend "${params.backendId}" unavailable; falling back to builtin: ${message}`,
+    );
+    return null;
+  }
+}
+
 class FallbackMemoryManager implements MemorySearchManager {
   private fallback: MemorySearchManager | null = null;
   private primaryFailed = false;
@@ -80,6 +154,8 @@ class FallbackMemoryManager implements MemorySearchManager {
 
   constructor(
     private readonly deps: {
+      /** Backend name used in logs and `status().fallback.from`. */
+      label: string;
       primary: MemorySearchManager;
       fallbackFactory: () => Promise<MemorySearchManager | null>;
     },
@@ -96,9 +172,9 @@ class FallbackMemoryManager implements MemorySearchManager {
       } catch (err) {
         this.primaryFailed = true;
         this.lastError = err instanceof Error ? err.message : String(err);
-        log.warn(`qmd memory failed; switching to builtin index: ${this.lastError}`);
+        log.warn(`${this.deps.label} memory failed; switching to builtin index: ${this.lastError}`);
         await this.deps.primary.close?.().catch(() => {});
-        // Evict the failed wrapper so the next request can retry QMD with a fresh manager.
+        // Evict the failed wrapper so the next request can retry the primary with a fresh manager.
         this.evictCacheEntry();
       }
     }
@@ -125,7 +201,7 @@ class FallbackMemoryManager implements MemorySearchManager {
       return this.deps.primary.status();
     }
     const fallbackStatus = this.fallback?.status();
-    const fallbackInfo = { from: "qmd", reason: this.lastError ?? "unknown" };
+    const fallbackInfo = { from: this.deps.label, reason: this.lastError ?? "unknown" };
     if (fallbackStatus) {
       const custom = fallbackStatus.custom ?? {};
       return {
@@ -181,12 +257,44 @@ class FallbackMemoryManager implements MemorySearchManager {
     return (await fallback?.probeVectorAvailability()) ?? false;
   }
 
+  async assertFact(input: MemoryFactInput) {
+    const store = await this.resolveFactStore();
+    if (!store?.assertFact) {
+      throw new Error("memory facts unavailable");
+    }
+    return await store.assertFact(input);
+  }
+
+  async retractFact(params: MemoryFactRetractParams) {
+    const store = await this.resolveFactStore();
+    if (!store?.retractFact) {
+      throw new Error("memory facts unavailable");
+    }
+    return await store.retractFact(params);
+  }
+
+  async queryFacts(query: MemoryFactQuery) {
+    const store = await this.resolveFactStore();
+    if (!store?.queryFacts) {
+      throw new Error("memory facts unavailable");
+    }
+    return await store.queryFacts(query);
+  }
+
   async close() {
     await this.deps.primary.close?.();
     await this.fallback?.close?.();
     this.evictCacheEntry();
   }
 
+  /** Facts live in the builtin SQLite index unless the primary backend stores its own. */
+  private async resolveFactStore(): Promise<MemorySearchManager | null> {
+    if (!this.primaryFailed && this.deps.primary.assertFact) {
+      return this.deps.primary;
+    }
+    return await this.ensureFallback();
+  }
+
   private async ensureFallback(): Promise<MemorySearchManager | null> {
     if (this.fallback) {
       return this.fallback;
@@ -1,3 +1,5 @@
+import type { MemoryBackend } from "../config/types.memory.js";
+
 export type MemorySource = "memory" | "sessions";
 
 export type MemorySearchResult = {
@@ -8,6 +10,61 @@ export type MemorySearchResult = {
   snippet: string;
   source: MemorySource;
   citation?: string;
+  /** Set when the hit comes from the facts store instead of an indexed chunk. */
+  fact?: Pick<MemoryFact, "id" | "subject" | "predicate" | "object" | "confidence">;
+};
+
+export type MemoryFactSource = {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+};
+
+export type MemoryFact = {
+  id: string;
+  subject: string;
+  predicate: string;
+  object: string;
+  /** `entity` objects are graph nodes that can be traversed like subjects. */
+  objectKind: "entity" | "value";
+  source?: MemoryFactSource;
+  /** 0-1; scales the fact's score in `memory_search`. */
+  confidence: number;
+  createdAt: number;
+  updatedAt: number;
+  retractedAt?: number;
+  retractReason?: string;
+};
+
+export type MemoryFactInput = {
+  subject: string;
+  predicate: string;
+  object: string;
+  objectKind?: "entity" | "value";
+  source?: MemoryFactSource;
+  confidence?: number;
+};
+
+export type MemoryFactRetractParams = {
+  id?: string;
+  subject?: string;
+  predicate?: string;
+  /** Omit to retract every active object for the subject/predicate pair. */
+  object?: string;
+  reason?: string;
+};
+
+export type MemoryFactQuery = {
+  /** Facts where this entity is the subject or an entity object. */
+  entity?: string;
+  /** Entity graph hops to follow from `entity` (default: 1, max: 3). */
+  depth?: number;
+  subject?: string;
+  predicate?: string;
+  object?: string;
+  minConfidence?: number;
+  includeRetracted?: boolean;
+  limit?: number;
 };
 
 export type MemoryEmbeddingProbeResult = {
@@ -22,7 +79,7 @@ export type MemorySyncProgressUpdate = {
 };
 
 export type MemoryProviderStatus = {
-  backend: "builtin" | "qmd";
+  backend: MemoryBackend;
   provider: string;
   model?: string;
   requestedProvider?: string;
@@ -36,6 +93,8 @@ export type MemoryProviderStatus = {
   sourceCounts?: Array<{ source: MemorySource; files: number; chunks: number }>;
   cache?: { enabled: boolean; entries?: number; maxEntries?: number };
   fts?: { enabled: boolean; available: boolean; error?: string };
+  /** Active (non-retracted) facts and known entities in the facts store. */
+  facts?: { enabled: boolean; count: number; entities: number };
   fallback?: { from: string; reason?: string };
   vector?: {
     enabled: boolean;
@@ -58,6 +117,24 @@ export type MemoryProviderStatus = {
   custom?: Record<string, unknown>;
 };
 
+export type MemoryIndexExportResult = {
+  path: string;
+  provider: string;
+  model: string;
+  files: number;
+  chunks: number;
+  facts: number;
+};
+
+export type MemoryIndexImportResult = {
+  path: string;
+  files: number;
+  chunks: number;
+  facts: number;
+  /** Files re-embedded after import because they are new or changed on this gateway. */
+  reindexedFiles: number;
+};
+
 export interface MemorySearchManager {
   search(
     query: string,
@@ -76,5 +153,13 @@ export interface MemorySearchManager {
   }): Promise<void>;
   probeEmbeddingAvailability(): Promise<MemoryEmbeddingProbeResult>;
   probeVectorAvailability(): Promise<boolean>;
+  assertFact?(input: MemoryFactInput): Promise<{ fact: MemoryFact; created: boolean }>;
+  retractFact?(params: MemoryFactRetractParams): Promise<MemoryFact[]>;
+  queryFacts?(query: MemoryFactQuery): Promise<MemoryFact[]>;
+  exportIndex?(filePath: string): Promise<MemoryIndexExportResult>;
+  importIndex?(
+    filePath: string,
+    opts?: { progress?: (update: MemorySyncProgressUpdate) => void },
+  ): Promise<MemoryIndexImportResult>;
   close?(): Promise<void>;
 }
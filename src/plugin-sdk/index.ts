@@ -74,11 +74,40 @@ export {
 export type {
   AnyAgentTool,
   SimpleClawPluginApi,
+  SimpleClawPluginMemoryBackend,
+  SimpleClawPluginMemoryBackendContext,
+  SimpleClawPluginPassiveContextResult,
+  SimpleClawPluginPassiveContextSource,
+  SimpleClawPluginPassiveContextSourceContext,
   SimpleClawPluginService,
   SimpleClawPluginServiceContext,
   ProviderAuthContext,
   ProviderAuthResult,
 } from "../plugins/types.js";
+export type {
+  MemoryEmbeddingProbeResult,
+  MemoryFact,
+  MemoryFactInput,
+  MemoryFactQuery,
+  MemoryFactRetractParams,
+  MemoryProviderStatus,
+  MemorySearchManager,
+  MemorySearchResult,
+  MemorySyncProgressUpdate,
+} from "../memory/types.js";
+export type {
+  MemoryBackendConformanceOptions,
+  MemoryBackendConformanceReport,
+} from "../memory/backend-conformance.js";
+export { runMemoryBackendConformance } from "../memory/backend-conformance.js";
+export type { ContextBudget } from "../agents/passive-context/context-budget.js";
+export {
+  consumeBudget,
+  estimateTextTokens,
+  truncateToTokenBudget,
+} from "../agents/passive-context/context-budget.js";
+export type { ExtractedEntity } from "../agents/passive-context/entity-extractor.js";
+export { buildSearchQueries } from "../agents/passive-context/entity-extractor.js";
 export type {
   GatewayRequestHandler,
   GatewayRequestHandlerOptions,
@@ -20,6 +20,8 @@ export function createMockPluginRegistry(
     cliRegistrars: [],
     services: [],
     providers: [],
+    memoryBackends: [],
+    passiveContextSources: [],
     commands: [],
   } as unknown as PluginRegistry;
 }
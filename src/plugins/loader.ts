@@ -165,6 +165,8 @@ function createPluginRecord(params: {
     hookNames: [],
     channelIds: [],
     providerIds: [],
+    memoryBackendIds: [],
+    passiveContextSourceIds: [],
     gatewayMethods: [],
     cliCommands: [],
     services: [],
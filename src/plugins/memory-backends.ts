@@ -0,0 +1,33 @@
+import { resolveAgentWorkspaceDir } from "../agents/agent-scope.js";
+import type { SimpleClawConfig } from "../config/config.js";
+import { createSubsystemLogger } from "../logging/subsystem.js";
+import { loadSimpleClawPlugins } from "./loader.js";
+import { createPluginLoaderLogger } from "./logger.js";
+import type { PluginMemoryBackendRegistration } from "./registry.js";
+import { getActivePluginRegistry } from "./runtime.js";
+
+const log = createSubsystemLogger("plugins");
+
+/**
+ * Finds the plugin that registered memory backend `id`. Uses the active
+ * registry when it already has the backend (gateway), otherwise loads plugins
+ * for `cfg` (CLI commands that run without a preloaded registry).
+ */
+export function resolvePluginMemoryBackend(params: {
+  cfg: SimpleClawConfig;
+  agentId: string;
+  id: string;
+}): PluginMemoryBackendRegistration | null {
+  const find = (entries: PluginMemoryBackendRegistration[] | undefined) =>
+    entries?.find((entry) => entry.backend.id === params.id) ?? null;
+  const active = find(getActivePluginRegistry()?.memoryBackends);
+  if (active) {
+    return active;
+  }
+  const registry = loadSimpleClawPlugins({
+    config: params.cfg,
+    workspaceDir: resolveAgentWorkspaceDir(params.cfg, params.agentId),
+    logger: createPluginLoaderLogger(log),
+  });
+  return find(registry.memoryBackends);
+}
@@ -20,6 +20,8 @@ import type {
   SimpleClawPluginHttpHandler,
   SimpleClawPluginHttpRouteHandler,
   SimpleClawPluginHookOptions,
+  SimpleClawPluginMemoryBackend,
+  SimpleClawPluginPassiveContextSource,
   ProviderPlugin,
   SimpleClawPluginService,
   SimpleClawPluginToolContext,
@@ -75,6 +77,18 @@ export type PluginProviderRegistration = {
   source: string;
 };
 
+export type PluginMemoryBackendRegistration = {
+  pluginId: string;
+  backend: SimpleClawPluginMemoryBackend;
+  source: string;
+};
+
+export type PluginPassiveContextSourceRegistration = {
+  pluginId: string;
+  source: SimpleClawPluginPassiveContextSource;
+  pluginSource: string;
+};
+
 export type PluginHookRegistration = {
   pluginId: string;
   entry: HookEntry;
@@ -110,6 +124,8 @@ export type PluginRecord = {
   hookNames: string[];
   channelIds: string[];
   providerIds: string[];
+  memoryBackendIds: string[];
+  passiveContextSourceIds: string[];
   gatewayMethods: string[];
   cliCommands: string[];
   services: string[];
@@ -128,6 +144,8 @@ export type PluginRegistry = {
   typedHooks: TypedPluginHookRegistration[];
   channels: PluginChannelRegistration[];
   providers: PluginProviderRegistration[];
+  memoryBackends: PluginMemoryBackendRegistration[];
+  passiveContextSources: PluginPassiveContextSourceRegistration[];
   gatewayHandlers: GatewayRequestHandlers;
   httpHandlers: PluginHttpRegistration[];
   httpRoutes: PluginHttpRouteRegistration[];
@@ -137,6 +155,12 @@ export type PluginRegistry = {
   diagnostics: PluginDiagnostic[];
 };
 
+/** Built-in `memory.backend` values that plugins cannot claim. */
+const RESERVED_MEMORY_BACKEND_IDS = new Set(["builtin", "qmd"]);
+
+/** Built-in passive context source ids that plugins cannot claim. */
+const RESERVED_PASSIVE_CONTEXT_SOURCE_IDS = new Set(["gmail", "channelHistory"]);
+
 export type PluginRegistryParams = {
   logger: PluginLogger;
   coreGatewayHandlers?: GatewayRequestHandlers;
@@ -151,6 +175,8 @@ export function createEmptyPluginRegistry(): PluginRegistry {
     typedHooks: [],
     channels: [],
     providers: [],
+    memoryBackends: [],
+    passiveContextSources: [],
     gatewayHandlers: {},
     httpHandlers: [],
     httpRoutes: [],
@@ -386,6 +412,85 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     });
   };
 
+  const registerMemoryBackend = (record: PluginRecord, backend: SimpleClawPluginMemoryBackend) => {
+    const id = typeof backend?.id === "string" ? backend.id.trim() : "";
+    if (!id || typeof backend.create !== "function") {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "memory backend registration missing id or create()",
+      });
+      return;
+    }
+    if (RESERVED_MEMORY_BACKEND_IDS.has(id)) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `memory backend id is reserved: ${id}`,
+      });
+      return;
+    }
+    const existing = registry.memoryBackends.find((entry) => entry.backend.id === id);
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `memory backend already registered: ${id} (${existing.pluginId})`,
+      });
+      return;
+    }
+    record.memoryBackendIds.push(id);
+    registry.memoryBackends.push({
+      pluginId: record.id,
+      backend: { ...backend, id },
+      source: record.source,
+    });
+  };
+
+  const registerPassiveContextSource = (
+    record: PluginRecord,
+    source: SimpleClawPluginPassiveContextSource,
+  ) => {
+    const id = typeof source?.id === "string" ? source.id.trim() : "";
+    if (!id || typeof source.query !== "function") {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: "passive context source registration missing id or query()",
+      });
+      return;
+    }
+    if (RESERVED_PASSIVE_CONTEXT_SOURCE_IDS.has(id)) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `passive context source id is reserved: ${id}`,
+      });
+      return;
+    }
+    const existing = registry.passiveContextSources.find((entry) => entry.source.id === id);
+    if (existing) {
+      pushDiagnostic({
+        level: "error",
+        pluginId: record.id,
+        source: record.source,
+        message: `passive context source already registered: ${id} (${existing.pluginId})`,
+      });
+      return;
+    }
+    record.passiveContextSourceIds.push(id);
+    registry.passiveContextSources.push({
+      pluginId: record.id,
+      source: { ...source, id },
+      pluginSource: record.source,
+    });
+  };
+
   const registerCli = (
     record: PluginRecord,
     registrar: SimpleClawPluginCliRegistrar,
@@ -493,6 +598,8 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
       registerHttpRoute: (params) => registerHttpRoute(record, params),
       registerChannel: (registration) => registerChannel(record, registration),
       registerProvider: (provider) => registerProvider(record, provider),
+      registerMemoryBackend: (backend) => registerMemoryBackend(record, backend),
+      registerPassiveContextSource: (source) => registerPassiveContextSource(record, source),
       registerGatewayMethod: (method, handler) => registerGatewayMethod(record, method, handler),
       registerCli: (registrar, opts) => registerCli(record, registrar, opts),
       registerService: (service) => registerService(record, service),
@@ -509,6 +616,8 @@ export function createPluginRegistry(registryParams: PluginRegistryParams) {
     registerTool,
     registerChannel,
     registerProvider,
+    registerMemoryBackend,
+    registerPassiveContextSource,
     registerGatewayMethod,
     registerCli,
     registerService,
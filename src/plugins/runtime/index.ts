@@ -1,6 +1,10 @@
 import { createRequire } from "node:module";
 import { resolveEffectiveMessagesConfig, resolveHumanDelayConfig } from "../../agents/identity.js";
-import { createMemoryGetTool, createMemorySearchTool } from "../../agents/tools/memory-tool.js";
+import {
+  createMemoryFactsTool,
+  createMemoryGetTool,
+  createMemorySearchTool,
+} from "../../agents/tools/memory-tool.js";
 import { handleSlackAction } from "../../agents/tools/slack-actions.js";
 import {
   chunkByNewline,
@@ -278,6 +282,7 @@ function createRuntimeMedia(): PluginRuntime["media"] {
 
 function createRuntimeTools(): PluginRuntime["tools"] {
   return {
+    createMemoryFactsTool,
     createMemoryGetTool,
     createMemorySearchTool,
     registerMemoryCli,
@@ -2,16 +2,20 @@ import type { IncomingMessage, ServerResponse } from "node:http";
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { Command } from "commander";
 import type { AuthProfileCredential, OAuthCredential } from "../agents/auth-profiles/types.js";
+import type { ContextBudget } from "../agents/passive-context/context-budget.js";
+import type { ExtractedEntity } from "../agents/passive-context/entity-extractor.js";
 import type { AnyAgentTool } from "../agents/tools/common.js";
 import type { ReplyPayload } from "../auto-reply/types.js";
 import type { ChannelDock } from "../channels/dock.js";
 import type { ChannelId, ChannelPlugin } from "../channels/plugins/types.js";
 import type { createVpsAwareOAuthHandlers } from "../commands/oauth-flow.js";
 import type { SimpleClawConfig } from "../config/config.js";
+import type { AgentPassiveContextSourceConfig } from "../config/types.agent-defaults.js";
 import type { ModelProviderConfig } from "../config/types.js";
 import type { GatewayRequestHandler } from "../gateway/server-methods/types.js";
 import type { InternalHookHandler } from "../hooks/internal-hooks.js";
 import type { HookEntry } from "../hooks/types.js";
+import type { MemorySearchManager } from "../memory/types.js";
 import type { RuntimeEnv } from "../runtime.js";
 import type { WizardPrompter } from "../wizard/prompts.js";
 import type { PluginRuntime } from "./runtime/types.js";
@@ -228,6 +232,68 @@ export type SimpleClawPluginService = {
   stop?: (ctx: SimpleClawPluginServiceContext) => void | Promise<void>;
 };
 
+export type SimpleClawPluginMemoryBackendContext = {
+  config: SimpleClawConfig;
+  agentId: string;
+  workspaceDir: string;
+  /** `status` managers only serve `status()` and probes; skip expensive startup work. */
+  purpose: "default" | "status";
+};
+
+/**
+ * External memory store selected with `memory.backend: "<id>"`. The manager it
+ * returns backs `memory_search`, `memory_get`, and `memory status` unchanged.
+ */
+export type SimpleClawPluginMemoryBackend = {
+  id: string;
+  label?: string;
+  create: (
+    ctx: SimpleClawPluginMemoryBackendContext,
+  ) => MemorySearchManager | null | Promise<MemorySearchManager | null>;
+};
+
+export type SimpleClawPluginPassiveContextSourceContext = {
+  config: SimpleClawConfig;
+  /** This source's `agents.defaults.passiveContext.sources.<id>` entry (empty when unset). */
+  sourceConfig: AgentPassiveContextSourceConfig;
+  prompt: string;
+  messages: unknown[];
+  /** Entities extracted from the prompt; never empty. */
+  entities: ExtractedEntity[];
+  /** This source's slice of the shared budget; output beyond it is truncated. */
+  budget: ContextBudget;
+  /** Aborted when the source exceeds its timeout. */
+  signal: AbortSignal;
+  agentId?: string;
+  sessionKey?: string;
+  workspaceDir?: string;
+};
+
+export type SimpleClawPluginPassiveContextResult = {
+  /** Markdown injected ahead of the prompt (include a heading). */
+  text: string;
+  /** How many records matched, for diagnostics (default: 1). */
+  hits?: number;
+};
+
+/**
+ * Ambient context source for the passive context hook, enabled with
+ * `agents.defaults.passiveContext.sources.<id>.enabled`.
+ */
+export type SimpleClawPluginPassiveContextSource = {
+  id: string;
+  label?: string;
+  /** Token cap when `sources.<id>.maxTokens` is unset (default: 1000). */
+  defaultMaxTokens?: number;
+  query: (
+    ctx: SimpleClawPluginPassiveContextSourceContext,
+  ) =>
+    | SimpleClawPluginPassiveContextResult
+    | string
+    | undefined
+    | Promise<SimpleClawPluginPassiveContextResult | string | undefined>;
+};
+
 export type SimpleClawPluginChannelRegistration = {
   plugin: ChannelPlugin;
   dock?: ChannelDock;
@@ -274,6 +340,8 @@ export type SimpleClawPluginApi = {
   registerCli: (registrar: SimpleClawPluginCliRegistrar, opts?: { commands?: string[] }) => void;
   registerService: (service: SimpleClawPluginService) => void;
   registerProvider: (provider: ProviderPlugin) => void;
+  registerMemoryBackend: (backend: SimpleClawPluginMemoryBackend) => void;
+  registerPassiveContextSource: (source: SimpleClawPluginPassiveContextSource) => void;
   /**
    * Register a custom command that bypasses the LLM agent.
    * Plugin commands are processed before built-in commands and before agent invocation.
@@ -0,0 +1,189 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt, scryptSync } from "node:crypto";
+import path from "node:path";
+import { resolveStateDir } from "../config/paths.js";
+import { loadJsonFile, saveJsonFile } from "../infra/json-file.js";
+import { resolveUserPath } from "../utils.js";
+
+export const DEFAULT_SECRETS_PASSPHRASE_ENV = "SIMPLECLAW_SECRETS_PASSPHRASE";
+
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 } as const;
+
+type EncryptedSecretEntry = {
+  iv: string;
+  tag: string;
+  data: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type EncryptedSecretFile = {
+  version: 1;
+  kdf: { name: "scrypt"; salt: string; N: number; r: number; p: number };
+  secrets: Record<string, EncryptedSecretEntry>;
+};
+
+export type SecretFileStoreEntry = {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export function resolveSecretFileStorePath(
+  configured?: string,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  return configured?.trim()
+    ? resolveUserPath(configured.trim())
+    : path.join(resolveStateDir(env), "secrets.enc.json");
+}
+
+export function resolveSecretFileStorePassphrase(
+  passphraseEnv: string | undefined,
+  env: NodeJS.ProcessEnv = process.env,
+): string {
+  const name = passphraseEnv?.trim() || DEFAULT_SECRETS_PASSPHRASE_ENV;
+  const passphrase = env[name];
+  if (!passphrase) {
+    throw new Error(`secret file store is locked: set ${name}`);
+  }
+  return passphrase;
+}
+
+function loadStoreFile(storePath: string): EncryptedSecretFile | null {
+  const raw = loadJsonFile(storePath);
+  if (!raw || typeof raw !== "object") {
+    return null;
+  }
+  const record = raw as Partial<EncryptedSecretFile>;
+  if (record.version !== 1 || !record.kdf?.salt || !record.secrets) {
+    throw new Error(`unsupported secret file store format: ${storePath}`);
+  }
+  return record as EncryptedSecretFile;
+}
+
+function deriveKey(passphrase: string, kdf: EncryptedSecretFile["kdf"]): Buffer {
+  return scryptSync(passphrase, Buffer.from(kdf.salt, "base64"), KEY_BYTES, {
+    N: kdf.N,
+    r: kdf.r,
+    p: kdf.p,
+  });
+}
+
+/** Async variant for long-running processes: scrypt runs on the libuv pool, not the event loop. */
+function deriveKeyAsync(passphrase: string, kdf: EncryptedSecretFile["kdf"]): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(
+      passphrase,
+      Buffer.from(kdf.salt, "base64"),
+      KEY_BYTES,
+      { N: kdf.N, r: kdf.r, p: kdf.p },
+      (err, key) => (err ? reject(err) : resolve(key)),
+    );
+  });
+}
+
+function encrypt(key: Buffer, name: string, value: string) {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv("aes-256-gcm", key, iv);
+  // Bind the ciphertext to its name so entries cannot be swapped on disk.
+  cipher.setAAD(Buffer.from(name, "utf8"));
+  const data = Buffer.concat([cipher.update(value, "utf8"), cipher.final()]);
+  return {
+    iv: iv.toString("base64"),
+    tag: cipher.getAuthTag().toString("base64"),
+    data: data.toString("base64"),
+  };
+}
+
+function decrypt(key: Buffer, name: string, entry: EncryptedSecretEntry): string {
+  const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(entry.iv, "base64"));
+  decipher.setAAD(Buffer.from(name, "utf8"));
+  decipher.setAuthTag(Buffer.from(entry.tag, "base64"));
+  try {
+    return Buffer.concat([
+      decipher.update(Buffer.from(entry.data, "base64")),
+      decipher.final(),
+    ]).toString("utf8");
+  } catch {
+    throw new Error("secret file store passphrase is incorrect or the entry is corrupted");
+  }
+}
+
+export function readSecretFromFileStore(params: {
+  storePath: string;
+  passphrase: string;
+  name: string;
+}): string | undefined {
+  const store = loadStoreFile(params.storePath);
+  const entry = store?.secrets[params.name];
+  if (!store || !entry) {
+    return undefined;
+  }
+  return decrypt(deriveKey(params.passphrase, store.kdf), params.name, entry);
+}
+
+export async function readSecretFromFileStoreAsync(params: {
+  storePath: string;
+  passphrase: string;
+  name: string;
+}): Promise<string | undefined> {
+  const store = loadStoreFile(params.storePath);
+  const entry = store?.secrets[params.name];
+  if (!store || !entry) {
+    return undefined;
+  }
+  return decrypt(await deriveKeyAsync(params.passphrase, store.kdf), params.name, entry);
+}
+
+/** Entry names and timestamps; names are stored in clear so listing needs no passphrase. */
+export function listFileStoreSecrets(storePath: string): SecretFileStoreEntry[] {
+  const store = loadStoreFile(storePath);
+  if (!store) {
+    return [];
+  }
+  return Object.entries(store.secrets)
+    .map(([name, entry]) => ({ name, createdAt: entry.createdAt, updatedAt: entry.updatedAt }))
+    .toSorted((a, b) => a.name.localeCompare(b.name));
+}
+
+export function writeSecretToFileStore(params: {
+  storePath: string;
+  passphrase: string;
+  name: string;
+  value: string;
+  now?: Date;
+}): { created: boolean } {
+  const existing = loadStoreFile(params.storePath);
+  const store: EncryptedSecretFile = existing ?? {
+    version: 1,
+    kdf: { name: "scrypt", salt: randomBytes(16).toString("base64"), ...SCRYPT_PARAMS },
+    secrets: {},
+  };
+  const key = deriveKey(params.passphrase, store.kdf);
+  // Refuse to mix passphrases: every existing entry must decrypt with this key.
+  const [firstName, firstEntry] = Object.entries(store.secrets)[0] ?? [];
+  if (firstName && firstEntry) {
+    decrypt(key, firstName, firstEntry);
+  }
+  const now = (params.now ?? new Date()).toISOString();
+  const previous = store.secrets[params.name];
+  store.secrets[params.name] = {
+    ...encrypt(key, params.name, params.value),
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+  saveJsonFile(params.storePath, store);
+  return { created: !previous };
+}
+
+export function deleteSecretFromFileStore(storePath: string, name: string): boolean {
+  const store = loadStoreFile(storePath);
+  if (!store?.secrets[name]) {
+    return false;
+  }
+  delete store.secrets[name];
+  saveJsonFile(storePath, store);
+  return true;
+}
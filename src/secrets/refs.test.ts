@@ -0,0 +1,274 @@
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { listFileStoreSecrets, writeSecretToFileStore } from "./file-store.js";
+import {
+  clearSecretRefCache,
+  collectConfigSecretRefs,
+  findSecretRefForValue,
+  parseSecretRef,
+  refreshSecretRefsFromStores,
+  resolveConfigSecretRefs,
+  resolveSecretRef,
+  SecretRefError,
+} from "./refs.js";
+import { readSecretFromStore } from "./stores.js";
+
+let stateDir: string;
+let env: NodeJS.ProcessEnv;
+
+beforeEach(() => {
+  stateDir = fs.mkdtempSync(path.join(os.tmpdir(), "simpleclaw-secrets-"));
+  env = { SIMPLECLAW_STATE_DIR: stateDir, SIMPLECLAW_SECRETS_PASSPHRASE: "correct horse" };
+  clearSecretRefCache();
+});
+
+afterEach(() => {
+  fs.rmSync(stateDir, { recursive: true, force: true });
+});
+
+function storePath() {
+  return path.join(stateDir, "secrets.enc.json");
+}
+
+describe("parseSecretRef", () => {
+  it("splits the store id from the (possibly nested) name", () => {
+    expect(parseSecretRef("secret://op/Private/OpenAI/credential")).toEqual({
+      storeId: "op",
+      name: "Private/OpenAI/credential",
+    });
+    expect(parseSecretRef("secret://file")).toBeNull();
+    expect(parseSecretRef("secret://file/")).toBeNull();
+    expect(parseSecretRef("sk-plain")).toBeNull();
+  });
+});
+
+describe("file store", () => {
+  it("encrypts entries and lists names without the passphrase", () => {
+    writeSecretToFileStore({
+      storePath: storePath(),
+      passphrase: "correct horse",
+      name: "openai",
+      value: "sk-live-123",
+    });
+
+    expect(fs.readFileSync(storePath(), "utf8")).not.toContain("sk-live-123");
+    expect(listFileStoreSecrets(storePath()).map((entry) => entry.name)).toEqual(["openai"]);
+    expect(resolveSecretRef("secret://file/openai", { env })).toBe("sk-live-123");
+  });
+
+  it("rejects a different passphrase for reads and writes", () => {
+    writeSecretToFileStore({
+      storePath: storePath(),
+      passphrase: "correct horse",
+      name: "openai",
+      value: "sk-live-123",
+    });
+
+    expect(() =>
+      writeSecretToFileStore({
+        storePath: storePath(),
+        passphrase: "wrong",
+        name: "other",
+        value: "x",
+      }),
+    ).toThrow("passphrase is incorrect");
+    expect(() =>
+      resolveSecretRef("secret://file/openai", {
+        env: { ...env, SIMPLECLAW_SECRETS_PASSPHRASE: "wrong" },
+      }),
+    ).toThrow(SecretRefError);
+  });
+});
+
+describe("resolveConfigSecretRefs", () => {
+  it("resolves references anywhere in the config and remembers their origin", () => {
+    writeSecretToFileStore({
+      storePath: storePath(),
+      passphrase: "correct horse",
+      name: "telegram",
+      value: "123:abc",
+    });
+
+    const resolved = resolveConfigSecretRefs(
+      {
+        channels: { telegram: { botToken: "secret://file/telegram" } },
+        list: ["secret://file/telegram", "plain"],
+      },
+      env,
+    );
+
+    expect(resolved).toEqual({
+      channels: { telegram: { botToken: "123:abc" } },
+      list: ["123:abc", "plain"],
+    });
+    expect(findSecretRefForValue("123:abc")).toBe("secret://file/telegram");
+  });
+
+  it("reads from configured command stores", () => {
+    const resolved = resolveConfigSecretRefs(
+      {
+        credentialStores: {
+          echo: {
+            kind: "command",
+            command: process.execPath,
+            args: ["-e", "process.stdout.write('value-for-' + process.argv[1])", "{name}"],
+          },
+        },
+        gateway: { auth: { password: "secret://echo/gateway" } },
+      },
+      env,
+    ) as { gateway: { auth: { password: string } }; credentialStores: unknown };
+
+    expect(resolved.gateway.auth.password).toBe("value-for-gateway");
+    // Store definitions stay literal.
+    expect(resolved.credentialStores).toMatchObject({ echo: { kind: "command" } });
+  });
+
+  it("names the config path when a reference cannot be resolved", () => {
+    expect(() =>
+      resolveConfigSecretRefs({ models: { apiKey: "secret://vault/openai" } }, env),
+    ).toThrow(
+      'Cannot resolve secret://vault/openai referenced at config path: models.apiKey (unknown store "vault")',
+    );
+    expect(() =>
+      resolveConfigSecretRefs({ models: { apiKey: "secret://file/missing" } }, env),
+    ).toThrow("(secret not found)");
+  });
+});
+
+describe("refreshSecretRefsFromStores", () => {
+  function commandStoreConfig(valueFile: string) {
+    return {
+      credentialStores: {
+        disk: {
+          kind: "command",
+          command: process.execPath,
+          args: ["-e", "process.stdout.write(require('fs').readFileSync(process.argv[1], 'utf8'))"],
+        },
+      },
+      gateway: { auth: { password: `secret://disk/${valueFile}` } },
+    };
+  }
+
+  it("refreshes cached values that config loads then reuse", async () => {
+    const valueFile = path.join(stateDir, "value.txt");
+    const config = commandStoreConfig(valueFile);
+    fs.writeFileSync(valueFile, "first");
+
+    const result = await refreshSecretRefsFromStores(config, env);
+    expect(result).toEqual({ refreshed: [`secret://disk/${valueFile}`], failed: [] });
+
+    // Loads reuse the refreshed value without calling the store again.
+    fs.writeFileSync(valueFile, "second");
+    expect(resolveConfigSecretRefs(config, env)).toMatchObject({
+      gateway: { auth: { password: "first" } },
+    });
+
+    await refreshSecretRefsFromStores(config, env);
+    expect(resolveConfigSecretRefs(config, env)).toMatchObject({
+      gateway: { auth: { password: "second" } },
+    });
+    expect(findSecretRefForValue("first")).toBeUndefined();
+    expect(findSecretRefForValue("second")).toBe(`secret://disk/${valueFile}`);
+  });
+
+  it("keeps the last good value when a store fails", async () => {
+    const valueFile = path.join(stateDir, "value.txt");
+    const config = commandStoreConfig(valueFile);
+    fs.writeFileSync(valueFile, "good");
+    await refreshSecretRefsFromStores(config, env);
+
+    fs.rmSync(valueFile);
+    const result = await refreshSecretRefsFromStores(config, env);
+
+    expect(result.refreshed).toEqual([]);
+    expect(result.failed).toEqual([{ error: expect.any(SecretRefError), keptPrevious: true }]);
+    expect(result.failed[0]?.error.message).toContain("gateway.auth.password");
+    expect(resolveConfigSecretRefs(config, env)).toMatchObject({
+      gateway: { auth: { password: "good" } },
+    });
+  });
+
+  it("decrypts file store entries", async () => {
+    writeSecretToFileStore({
+      storePath: storePath(),
+      passphrase: "correct horse",
+      name: "openai",
+      value: "sk-live-123",
+    });
+
+    const result = await refreshSecretRefsFromStores({ apiKey: "secret://file/openai" }, env);
+
+    expect(result.refreshed).toEqual(["secret://file/openai"]);
+    expect(findSecretRefForValue("sk-live-123")).toBe("secret://file/openai");
+  });
+
+  it("reports references that never resolved", async () => {
+    const result = await refreshSecretRefsFromStores(
+      { models: { apiKey: "secret://vault/openai" } },
+      env,
+    );
+    expect(result.failed).toEqual([{ error: expect.any(SecretRefError), keptPrevious: false }]);
+  });
+});
+
+describe("readSecretFromStore", () => {
+  it("uses the first line of pass output and op read for 1Password", () => {
+    const calls: Array<{ command: string; args: readonly string[] }> = [];
+    const execFileSync = ((command: string, args: readonly string[]) => {
+      calls.push({ command, args });
+      return command === "pass" ? "hunter2\nusername: me\n" : "op-value";
+    }) as unknown as typeof import("node:child_process").execFileSync;
+
+    expect(readSecretFromStore({ store: { kind: "pass" }, name: "mail/imap", execFileSync })).toBe(
+      "hunter2",
+    );
+    expect(
+      readSecretFromStore({
+        store: { kind: "1password", account: "team" },
+        name: "Private/Mail/password",
+        execFileSync,
+      }),
+    ).toBe("op-value");
+    expect(calls).toEqual([
+      { command: "pass", args: ["show", "--", "mail/imap"] },
+      {
+        command: "op",
+        args: ["read", "op://Private/Mail/password", "--no-newline", "--account", "team"],
+      },
+    ]);
+  });
+
+  it("ends command options before untemplated names", () => {
+    const calls: Array<{ command: string; args: readonly string[] }> = [];
+    const execFileSync = ((command: string, args: readonly string[]) => {
+      calls.push({ command, args });
+      return "value";
+    }) as unknown as typeof import("node:child_process").execFileSync;
+
+    expect(
+      readSecretFromStore({
+        store: { kind: "command", command: "vault", args: ["kv", "get"] },
+        name: "-rf",
+        execFileSync,
+      }),
+    ).toBe("value");
+    expect(calls).toEqual([{ command: "vault", args: ["kv", "get", "--", "-rf"] }]);
+  });
+});
+
+describe("collectConfigSecretRefs", () => {
+  it("lists reference paths", () => {
+    expect(
+      collectConfigSecretRefs({
+        models: { providers: { openai: { apiKey: "secret://op/Private/OpenAI/credential" } } },
+        hooks: { mappings: [{ signature: { secret: "secret://file/github" } }] },
+      }),
+    ).toEqual([
+      { path: "models.providers.openai.apiKey", ref: "secret://op/Private/OpenAI/credential" },
+      { path: "hooks.mappings[0].signature.secret", ref: "secret://file/github" },
+    ]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * `secret://<store>/<name>` references in config values, resolved at config
+ * load time from the store named in the reference (see `credentialStores`).
+ *
+ * - The whole string value must be the reference; partial interpolation is not supported.
+ * - `file`, `pass` and `op` stores work without configuration.
+ * - Resolved values are cached for the life of the process, so config loads
+ *   only call a store the first time a reference is seen. The gateway re-reads
+ *   them asynchronously at startup and on config reload via
+ *   {@link refreshSecretRefsFromStores}, keeping the last good value when a store fails.
+ * - Resolved values are also remembered for redaction and write-back.
+ *
+ * @example
+ * ```json5
+ * {
+ *   credentialStores: { vault: { kind: "command", command: "vault", args: ["kv", "get", "-field=value", "{name}"] } },
+ *   models: { providers: { openai: { apiKey: "secret://op/Private/OpenAI/credential" } } },
+ *   channels: { telegram: { botToken: "secret://vault/secret/telegram" } },
+ * }
+ * ```
+ */
+import type { CredentialStoresConfig } from "../config/types.js";
+import { isPlainObject } from "../utils.js";
+import { readSecretFromStore, readSecretFromStoreAsync, resolveCredentialStore } from "./stores.js";
+
+export const SECRET_REF_PREFIX = "secret://";
+
+export type SecretRef = { storeId: string; name: string };
+
+export class SecretRefError extends Error {
+  constructor(
+    public readonly ref: string,
+    public readonly configPath: string,
+    reason: string,
+  ) {
+    super(`Cannot resolve ${ref} referenced at config path: ${configPath} (${reason})`);
+    this.name = "SecretRefError";
+  }
+}
+
+// Reference -> last good value.
+const resolvedCache = new Map<string, string>();
+// Resolved value -> reference, used to show references instead of plaintext.
+const referenceByValue = new Map<string, string>();
+
+export function isSecretRef(value: unknown): value is string {
+  return typeof value === "string" && value.trim().startsWith(SECRET_REF_PREFIX);
+}
+
+export function parseSecretRef(value: string): SecretRef | null {
+  const trimmed = value.trim();
+  if (!trimmed.startsWith(SECRET_REF_PREFIX)) {
+    return null;
+  }
+  const rest = trimmed.slice(SECRET_REF_PREFIX.length);
+  const slash = rest.indexOf("/");
+  if (slash <= 0 || slash === rest.length - 1) {
+    return null;
+  }
+  return { storeId: rest.slice(0, slash), name: rest.slice(slash + 1) };
+}
+
+export function formatSecretRef(ref: SecretRef): string {
+  return `${SECRET_REF_PREFIX}${ref.storeId}/${ref.name}`;
+}
+
+/** Resolve one reference, throwing {@link SecretRefError} with the config path on failure. */
+export function resolveSecretRef(
+  value: string,
+  params: {
+    stores?: CredentialStoresConfig;
+    env?: NodeJS.ProcessEnv;
+    configPath?: string;
+  } = {},
+): string {
+  const ref = value.trim();
+  const configPath = params.configPath ?? "";
+  const parsed = parseSecretRef(ref);
+  if (!parsed) {
+    throw new SecretRefError(ref, configPath, "expected secret://<store>/<name>");
+  }
+  const cached = resolvedCache.get(ref);
+  if (cached !== undefined) {
+    return cached;
+  }
+  const store = resolveCredentialStore(parsed.storeId, params.stores);
+  if (!store) {
+    throw new SecretRefError(ref, configPath, `unknown store "${parsed.storeId}"`);
+  }
+  let resolved: string | undefined;
+  try {
+    resolved = readSecretFromStore({ store, name: parsed.name, env: params.env });
+  } catch (err) {
+    throw new SecretRefError(ref, configPath, err instanceof Error ? err.message : String(err));
+  }
+  if (!resolved) {
+    throw new SecretRefError(ref, configPath, "secret not found");
+  }
+  rememberResolvedSecret(ref, resolved);
+  return resolved;
+}
+
+function rememberResolvedSecret(ref: string, value: string) {
+  const previous = resolvedCache.get(ref);
+  if (previous !== undefined && previous !== value) {
+    referenceByValue.delete(previous);
+  }
+  resolvedCache.set(ref, value);
+  referenceByValue.set(value, ref);
+}
+
+function resolveAny(
+  value: unknown,
+  path: string,
+  params: { stores?: CredentialStoresConfig; env?: NodeJS.ProcessEnv },
+): unknown {
+  if (isSecretRef(value)) {
+    return resolveSecretRef(value, { ...params, configPath: path });
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveAny(item, `${path}[${index}]`, params));
+  }
+  if (isPlainObject(value)) {
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(value)) {
+      // Store definitions are needed to resolve everything else; keep them literal.
+      if (!path && key === "credentialStores") {
+        result[key] = child;
+        continue;
+      }
+      result[key] = resolveAny(child, path ? `${path}.${key}` : key, params);
+    }
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Resolves every `secret://` reference in a parsed config object (after
+ * `$include` and `${VAR}` substitution).
+ *
+ * @throws {SecretRefError} If a store is unknown, locked, failing, or lacks the entry
+ */
+export function resolveConfigSecretRefs(
+  obj: unknown,
+  env: NodeJS.ProcessEnv = process.env,
+): unknown {
+  const stores = isPlainObject(obj)
+    ? (obj.credentialStores as CredentialStoresConfig | undefined)
+    : undefined;
+  return resolveAny(obj, "", { stores, env });
+}
+
+export type SecretRefRefreshResult = {
+  refreshed: string[];
+  /** Failed reads; `keptPrevious` means the last good value is still served. */
+  failed: Array<{ error: SecretRefError; keptPrevious: boolean }>;
+};
+
+/**
+ * Re-reads every `secret://` reference in a config object (after `${VAR}`
+ * substitution) without blocking the event loop, replacing the cached values
+ * that synchronous config loads return. Failures never throw: a reference
+ * that resolved before keeps its last good value.
+ */
+export async function refreshSecretRefsFromStores(
+  obj: unknown,
+  env: NodeJS.ProcessEnv = process.env,
+): Promise<SecretRefRefreshResult> {
+  const stores = isPlainObject(obj)
+    ? (obj.credentialStores as CredentialStoresConfig | undefined)
+    : undefined;
+  const result: SecretRefRefreshResult = { refreshed: [], failed: [] };
+  const seen = new Set<string>();
+  for (const { path, ref } of collectConfigSecretRefs(obj)) {
+    // Store definitions stay literal, as in resolveConfigSecretRefs.
+    if (seen.has(ref) || path.startsWith("credentialStores.")) {
+      continue;
+    }
+    seen.add(ref);
+    const fail = (reason: string) =>
+      result.failed.push({
+        error: new SecretRefError(ref, path, reason),
+        keptPrevious: resolvedCache.has(ref),
+      });
+    const parsed = parseSecretRef(ref);
+    const store = parsed ? resolveCredentialStore(parsed.storeId, stores) : undefined;
+    if (!parsed || !store) {
+      fail(parsed ? `unknown store "${parsed.storeId}"` : "expected secret://<store>/<name>");
+      continue;
+    }
+    try {
+      const value = await readSecretFromStoreAsync({ store, name: parsed.name, env });
+      if (!value) {
+        fail("secret not found");
+        continue;
+      }
+      rememberResolvedSecret(ref, value);
+      result.refreshed.push(ref);
+    } catch (err) {
+      fail(err instanceof Error ? err.message : String(err));
+    }
+  }
+  return result;
+}
+
+/** Every `secret://` reference in a (raw) config object, with its config path. */
+export function collectConfigSecretRefs(
+  value: unknown,
+  path = "",
+  out: Array<{ path: string; ref: string }> = [],
+): Array<{ path: string; ref: string }> {
+  if (isSecretRef(value)) {
+    out.push({ path, ref: value.trim() });
+  } else if (Array.isArray(value)) {
+    value.forEach((item, index) => collectConfigSecretRefs(item, `${path}[${index}]`, out));
+  } else if (isPlainObject(value)) {
+    for (const [key, child] of Object.entries(value)) {
+      collectConfigSecretRefs(child, path ? `${path}.${key}` : key, out);
+    }
+  }
+  return out;
+}
+
+/** The reference a value was resolved from during this process, if any. */
+export function findSecretRefForValue(value: string): string | undefined {
+  return referenceByValue.get(value);
+}
+
+/** Cached resolution for write-back checks; never calls a store. */
+export function peekResolvedSecretRef(ref: string): string | undefined {
+  return resolvedCache.get(ref.trim());
+}
+
+export function clearSecretRefCache() {
+  resolvedCache.clear();
+  referenceByValue.clear();
+}
@@ -0,0 +1,162 @@
+import { execFile, execFileSync } from "node:child_process";
+import { promisify } from "node:util";
+import type { CredentialStoreConfig, CredentialStoresConfig } from "../config/types.js";
+import {
+  readSecretFromFileStore,
+  readSecretFromFileStoreAsync,
+  resolveSecretFileStorePassphrase,
+  resolveSecretFileStorePath,
+} from "./file-store.js";
+
+const DEFAULT_STORE_TIMEOUT_MS = 10_000;
+
+/** Stores available without any `credentialStores` config. */
+const BUILTIN_STORES: CredentialStoresConfig = {
+  file: { kind: "file" },
+  pass: { kind: "pass" },
+  op: { kind: "1password" },
+};
+
+const execFileAsync = promisify(execFile);
+
+type ExecFileSyncFn = typeof execFileSync;
+type ExecFileAsyncFn = (
+  command: string,
+  args: string[],
+  options: { encoding: "utf8"; timeout: number },
+) => Promise<{ stdout: string }>;
+
+export function resolveCredentialStore(
+  storeId: string,
+  stores: CredentialStoresConfig | undefined,
+): CredentialStoreConfig | undefined {
+  return stores?.[storeId] ?? BUILTIN_STORES[storeId];
+}
+
+export function listCredentialStoreIds(stores: CredentialStoresConfig | undefined): string[] {
+  return [...new Set([...Object.keys(BUILTIN_STORES), ...Object.keys(stores ?? {})])];
+}
+
+type StoreCommand = {
+  command: string;
+  args: string[];
+  timeoutMs?: number;
+  parse: (output: string) => string | undefined;
+};
+
+/** How a CLI-backed store reads `name`; undefined for the file store. */
+function resolveStoreCommand(store: CredentialStoreConfig, name: string): StoreCommand | undefined {
+  switch (store.kind) {
+    case "pass":
+      return {
+        command: store.command || "pass",
+        // "--" keeps names that start with "-" from being read as options.
+        args: ["show", "--", name],
+        timeoutMs: store.timeoutMs,
+        // pass convention: the password is the first line; the rest is metadata.
+        parse: (output) => output.split("\n")[0]?.trim() || undefined,
+      };
+    case "1password": {
+      const args = ["read", `op://${name}`, "--no-newline"];
+      if (store.account) {
+        args.push("--account", store.account);
+      }
+      return {
+        command: store.command || "op",
+        args,
+        timeoutMs: store.timeoutMs,
+        parse: (output) => output.trim() || undefined,
+      };
+    }
+    case "command": {
+      const templated = store.args?.some((arg) => arg.includes("{name}"));
+      return {
+        command: store.command,
+        args: templated
+          ? (store.args ?? []).map((arg) => arg.replaceAll("{name}", name))
+          : [...(store.args ?? []), "--", name],
+        timeoutMs: store.timeoutMs,
+        parse: (output) => output.trim() || undefined,
+      };
+    }
+  }
+  return undefined;
+}
+
+function storeCommandError(command: string, err: unknown): Error {
+  const stderr = (err as { stderr?: unknown }).stderr;
+  const detail = typeof stderr === "string" && stderr.trim() ? stderr.trim() : String(err);
+  return new Error(`${command} failed: ${detail.split("\n")[0]}`, { cause: err });
+}
+
+/**
+ * Read one secret from a store. Returns undefined when the store answers but
+ * has no such entry (file store) and throws on store failures.
+ *
+ * Blocks until the store answers; long-running processes should prefer
+ * {@link readSecretFromStoreAsync}.
+ */
+export function readSecretFromStore(params: {
+  store: CredentialStoreConfig;
+  name: string;
+  env?: NodeJS.ProcessEnv;
+  execFileSync?: ExecFileSyncFn;
+}): string | undefined {
+  const { store, name } = params;
+  const env = params.env ?? process.env;
+  if (store.kind === "file") {
+    return readSecretFromFileStore({
+      storePath: resolveSecretFileStorePath(store.path, env),
+      passphrase: resolveSecretFileStorePassphrase(store.passphraseEnv, env),
+      name,
+    });
+  }
+  const spec = resolveStoreCommand(store, name);
+  if (!spec) {
+    return undefined;
+  }
+  const execFileSyncImpl = params.execFileSync ?? execFileSync;
+  try {
+    return spec.parse(
+      execFileSyncImpl(spec.command, spec.args, {
+        encoding: "utf8",
+        timeout: spec.timeoutMs ?? DEFAULT_STORE_TIMEOUT_MS,
+        stdio: ["ignore", "pipe", "pipe"],
+      }),
+    );
+  } catch (err) {
+    throw storeCommandError(spec.command, err);
+  }
+}
+
+/** {@link readSecretFromStore} without blocking the event loop on store CLIs or scrypt. */
+export async function readSecretFromStoreAsync(params: {
+  store: CredentialStoreConfig;
+  name: string;
+  env?: NodeJS.ProcessEnv;
+  execFile?: ExecFileAsyncFn;
+}): Promise<string | undefined> {
+  const { store, name } = params;
+  const env = params.env ?? process.env;
+  if (store.kind === "file") {
+    return await readSecretFromFileStoreAsync({
+      storePath: resolveSecretFileStorePath(store.path, env),
+      passphrase: resolveSecretFileStorePassphrase(store.passphraseEnv, env),
+      name,
+    });
+  }
+  const spec = resolveStoreCommand(store, name);
+  if (!spec) {
+    return undefined;
+  }
+  const execFileImpl = params.execFile ?? execFileAsync;
+  try {
+    const { stdout } = await execFileImpl(spec.command, spec.args, {
+      encoding: "utf8",
+      timeout: spec.timeoutMs ?? DEFAULT_STORE_TIMEOUT_MS,
+    });
+    return spec.parse(stdout);
+  } catch (err) {
+    throw storeCommandError(spec.command, err);
+  }
+}
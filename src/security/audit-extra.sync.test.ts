@@ -1,6 +1,9 @@
 import { describe, expect, it } from "vitest";
 import type { SimpleClawConfig } from "../config/config.js";
-import { collectAttackSurfaceSummaryFindings } from "./audit-extra.sync.js";
+import {
+  collectAttackSurfaceSummaryFindings,
+  collectPlaintextSecretFindings,
+} from "./audit-extra.sync.js";
 import { safeEqualSecret } from "./secret-equal.js";
 
 describe("collectAttackSurfaceSummaryFindings", () => {
@@ -34,6 +37,35 @@ describe("collectAttackSurfaceSummaryFindings", () => {
   });
 });
 
+describe("collectPlaintextSecretFindings", () => {
+  it("lists plaintext sensitive paths but not references or values", () => {
+    const findings = collectPlaintextSecretFindings({
+      models: { providers: { openai: { apiKey: "sk-live-123" } } },
+      channels: {
+        telegram: { botToken: "secret://file/telegram" },
+        discord: { token: "${DISCORD_TOKEN}" },
+      },
+      hooks: { token: "covered-elsewhere", mappings: [{ signature: { secret: "whsec_1" } }] },
+      agents: { defaults: { maxTokens: 4096 } },
+    });
+
+    expect(findings).toHaveLength(1);
+    expect(findings[0]?.checkId).toBe("config.secrets.plaintext");
+    expect(findings[0]?.detail).toContain("- models.providers.openai.apiKey");
+    expect(findings[0]?.detail).toContain("- hooks.mappings[0].signature.secret");
+    expect(findings[0]?.detail).not.toContain("telegram");
+    expect(findings[0]?.detail).not.toContain("discord");
+    expect(findings[0]?.detail).not.toContain("hooks.token");
+    expect(findings[0]?.detail).not.toContain("sk-live-123");
+  });
+
+  it("reports nothing when every secret is a reference", () => {
+    expect(
+      collectPlaintextSecretFindings({ gateway: { auth: { token: "secret://op/Gateway/token" } } }),
+    ).toEqual([]);
+  });
+});
+
 describe("safeEqualSecret", () => {
   it("matches identical secrets", () => {
     expect(safeEqualSecret("secret-token", "secret-token")).toBe(true);
@@ -19,12 +19,14 @@ import {
   resolveAgentModelFallbackValues,
   resolveAgentModelPrimaryValue,
 } from "../config/model-input.js";
+import { isSensitiveConfigPath } from "../config/schema.hints.js";
 import type { AgentToolsConfig } from "../config/types.tools.js";
 import { resolveGatewayAuth } from "../gateway/auth.js";
 import {
   DEFAULT_DANGEROUS_NODE_COMMANDS,
   resolveNodeCommandAllowlist,
 } from "../gateway/node-command-policy.js";
+import { findSecretRefForValue, isSecretRef } from "../secrets/refs.js";
 import { inferParamBFromIdOrName } from "../shared/model-param-b.js";
 import { pickSandboxToolPolicy } from "./audit-tool-policy.js";
 
@@ -87,6 +89,12 @@ function looksLikeEnvRef(value: string): boolean {
   return v.startsWith("${") && v.endsWith("}");
 }
 
+// `cfg` is the resolved config, so values loaded from `secret://` refs count as references too.
+function looksLikeSecretRef(value: string): boolean {
+  const v = value.trim();
+  return looksLikeEnvRef(v) || findSecretRefForValue(v) !== undefined || isSecretRef(v);
+}
+
 function isGatewayRemotelyExposed(cfg: SimpleClawConfig): boolean {
   const bind = typeof cfg.gateway?.bind === "string" ? cfg.gateway.bind : "loopback";
   if (bind !== "loopback") {
@@ -525,7 +533,7 @@ export function collectSecretsInConfigFindings(cfg: SimpleClawConfig): SecurityA
   const findings: SecurityAuditFinding[] = [];
   const password =
     typeof cfg.gateway?.auth?.password === "string" ? cfg.gateway.auth.password.trim() : "";
-  if (password && !looksLikeEnvRef(password)) {
+  if (password && !looksLikeSecretRef(password)) {
     findings.push({
       checkId: "config.secrets.gateway_password_in_config",
       severity: "warn",
@@ -538,7 +546,7 @@ export function collectSecretsInConfigFindings(cfg: SimpleClawConfig): SecurityA
   }
 
   const hooksToken = typeof cfg.hooks?.token === "string" ? cfg.hooks.token.trim() : "";
-  if (cfg.hooks?.enabled === true && hooksToken && !looksLikeEnvRef(hooksToken)) {
+  if (cfg.hooks?.enabled === true && hooksToken && !looksLikeSecretRef(hooksToken)) {
     findings.push({
       checkId: "config.secrets.hooks_token_in_config",
       severity: "info",
@@ -551,6 +559,57 @@ export function collectSecretsInConfigFindings(cfg: SimpleClawConfig): SecurityA
   return findings;
 }
 
+// Reported by collectSecretsInConfigFindings with dedicated guidance.
+const PLAINTEXT_SECRET_PATHS_COVERED = new Set(["gateway.auth.password", "hooks.token"]);
+
+function collectPlaintextSecretPaths(value: unknown, path: string, out: string[]) {
+  if (typeof value === "string") {
+    const trimmed = value.trim();
+    if (
+      trimmed &&
+      isSensitiveConfigPath(path) &&
+      !looksLikeEnvRef(trimmed) &&
+      !isSecretRef(trimmed) &&
+      !PLAINTEXT_SECRET_PATHS_COVERED.has(path)
+    ) {
+      out.push(path);
+    }
+    return;
+  }
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => collectPlaintextSecretPaths(item, `${path}[${index}]`, out));
+    return;
+  }
+  if (value && typeof value === "object") {
+    for (const [key, child] of Object.entries(value as Record<string, unknown>)) {
+      collectPlaintextSecretPaths(child, path ? `${path}.${key}` : key, out);
+    }
+  }
+}
+
+/**
+ * Flags plaintext values at sensitive paths in the config file as written
+ * (before `${VAR}` and `secret://` resolution). Reports paths, never values.
+ */
+export function collectPlaintextSecretFindings(parsed: unknown): SecurityAuditFinding[] {
+  const paths: string[] = [];
+  collectPlaintextSecretPaths(parsed, "", paths);
+  if (paths.length === 0) {
+    return [];
+  }
+  const shown = paths.slice(0, 10);
+  const more = paths.length > shown.length ? `\n- …and ${paths.length - shown.length} more` : "";
+  return [
+    {
+      checkId: "config.secrets.plaintext",
+      severity: "warn",
+      title: "Plaintext secrets in config",
+      detail: `${paths.length} sensitive value(s) are stored in plaintext:\n${shown.map((path) => `- ${path}`).join("\n")}${more}`,
+      remediation: `Move each value into a secret store (${formatCliCommand("simpleclaw secrets set <name>")}) and reference it as "secret://file/<name>", or use a \${ENV_VAR} reference.`,
+    },
+  ];
+}
+
 export function collectHooksHardeningFindings(
   cfg: SimpleClawConfig,
   env: NodeJS.ProcessEnv = process.env,
@@ -36,6 +36,7 @@ import {
   collectSandboxDangerousConfigFindings,
   collectSandboxDockerNoopFindings,
   collectPluginsTrustFindings,
+  collectPlaintextSecretFindings,
   collectSecretsInConfigFindings,
   collectPluginsCodeSafetyFindings,
   collectStateDeepFilesystemFindings,
@@ -971,6 +972,7 @@ export async function runSecurityAudit(opts: SecurityAuditOptions): Promise<Secu
       })),
     );
     if (configSnapshot) {
+      findings.push(...collectPlaintextSecretFindings(configSnapshot.parsed));
       findings.push(
         ...(await collectIncludeFilePermFindings({ configSnapshot, env, platform, execIcacls })),
       );
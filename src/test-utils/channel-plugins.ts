@@ -19,6 +19,8 @@ export const createTestRegistry = (channels: TestChannelRegistration[] = []): Pl
   typedHooks: [],
   channels: channels as unknown as PluginRegistry["channels"],
   providers: [],
+  memoryBackends: [],
+  passiveContextSources: [],
   gatewayHandlers: {},
   httpHandlers: [],
   httpRoutes: [],
@@ -132,6 +132,24 @@ export function waitForQueueDebounce(queue: {
   });
 }
 
+/** Wait until `windowMs` has passed since the oldest queued item; unlike debounce, new items do not extend it. */
+export function waitForQueueWindow(params: {
+  windowMs: number;
+  items: Array<{ enqueuedAt: number }>;
+}): Promise<void> {
+  if (process.env.SIMPLECLAW_TEST_FAST === "1") {
+    return Promise.resolve();
+  }
+  const oldest = params.items[0]?.enqueuedAt;
+  const remaining = oldest === undefined ? 0 : oldest + Math.max(0, params.windowMs) - Date.now();
+  if (remaining <= 0) {
+    return Promise.resolve();
+  }
+  return new Promise<void>((resolve) => {
+    setTimeout(resolve, remaining);
+  });
+}
+
 export function beginQueueDrain<T extends { draining: boolean }>(
   map: Map<string, T>,
   key: string,
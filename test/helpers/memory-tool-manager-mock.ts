@@ -1,4 +1,6 @@
 import { vi } from "vitest";
+import type { MemorySearchManager } from "../../src/memory/types.js";
+import type { MockFn } from "../../src/test-utils/vitest-mock-fn.js";
 
 export type SearchImpl = () => Promise<unknown[]>;
 export type MemoryReadParams = { relPath: string; from?: number; lines?: number };
@@ -30,6 +32,19 @@ const stubManager = {
   }),
   sync: vi.fn(),
   probeVectorAvailability: vi.fn(async () => true),
+  assertFact: vi.fn<NonNullable<MemorySearchManager["assertFact"]>>(async (input) => ({
+    fact: {
+      id: "fact-1",
+      ...input,
+      objectKind: input.objectKind ?? "value",
+      confidence: input.confidence ?? 1,
+      createdAt: 0,
+      updatedAt: 0,
+    },
+    created: true,
+  })),
+  retractFact: vi.fn<NonNullable<MemorySearchManager["retractFact"]>>(async () => []),
+  queryFacts: vi.fn<NonNullable<MemorySearchManager["queryFacts"]>>(async () => []),
   close: vi.fn(),
 };
 
@@ -37,6 +52,14 @@ vi.mock("../../src/memory/index.js", () => ({
   getMemorySearchManager: async () => ({ manager: stubManager }),
 }));
 
+export function getMemoryFactMocks(): {
+  assertFact: MockFn<NonNullable<MemorySearchManager["assertFact"]>>;
+  retractFact: MockFn<NonNullable<MemorySearchManager["retractFact"]>>;
+  queryFacts: MockFn<NonNullable<MemorySearchManager["queryFacts"]>>;
+} {
+  return stubManager;
+}
+
 export function setMemoryBackend(next: MemoryBackend): void {
   backend = next;
 }
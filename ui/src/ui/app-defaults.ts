@@ -24,6 +24,8 @@ export const DEFAULT_CRON_FORM: CronFormState = {
   cronExpr: "0 7 * * *",
   cronTz: "",
   scheduleExact: false,
+  afterJobId: "",
+  afterOn: "ok",
   staggerAmount: "",
   staggerUnit: "seconds",
   sessionTarget: "isolated",
@@ -1,7 +1,12 @@
 import { nothing } from "lit";
 import type { AppViewState } from "./app-view-state.ts";
 import type { UsageState } from "./controllers/usage.ts";
-import { loadUsage, loadSessionTimeSeries, loadSessionLogs } from "./controllers/usage.ts";
+import {
+  loadUsage,
+  loadUsageBudget,
+  loadSessionTimeSeries,
+  loadSessionLogs,
+} from "./controllers/usage.ts";
 import { renderUsage } from "./views/usage.ts";
 
 // Module-scope debounce for usage date changes (avoids type-unsafe hacks on state object)
@@ -28,6 +33,7 @@ export function renderUsageTab(state: AppViewState) {
     totals: state.usageResult?.totals ?? null,
     aggregates: state.usageResult?.aggregates ?? null,
     costDaily: state.usageCostSummary?.daily ?? [],
+    budget: state.usageBudget,
     selectedSessions: state.usageSelectedSessions,
     selectedDays: state.usageSelectedDays,
     selectedHours: state.usageSelectedHours,
@@ -70,7 +76,10 @@ export function renderUsageTab(state: AppViewState) {
       state.usageSelectedSessions = [];
       debouncedLoadUsage(state);
     },
-    onRefresh: () => loadUsage(state),
+    onRefresh: () => {
+      void loadUsageBudget(state);
+      return loadUsage(state);
+    },
     onTimeZoneChange: (zone) => {
       state.usageTimeZone = zone;
       state.usageSelectedDays = [];
@@ -7,6 +7,13 @@ import { renderChatControls, renderTab, renderThemeToggle } from "./app-render.h
 import type { AppViewState } from "./app-view-state.ts";
 import { loadAgentFileContent, loadAgentFiles, saveAgentFile } from "./controllers/agent-files.ts";
 import { loadAgentIdentities, loadAgentIdentity } from "./controllers/agent-identity.ts";
+import {
+  deleteRosterAgent,
+  killRosterAgent,
+  loadAgentRoster,
+  renameRosterAgent,
+  resetRosterAgent,
+} from "./controllers/agent-roster.ts";
 import { loadAgentSkills } from "./controllers/agent-skills.ts";
 import { loadAgents, loadToolsCatalog } from "./controllers/agents.ts";
 import { loadChannels } from "./controllers/channels.ts";
@@ -51,6 +58,7 @@ import {
   saveExecApprovals,
   updateExecApprovalsFormValue,
 } from "./controllers/exec-approvals.ts";
+import { sendGenUiAction } from "./controllers/genui.ts";
 import { loadLogs } from "./controllers/logs.ts";
 import { loadNodes } from "./controllers/nodes.ts";
 import { loadPresence } from "./controllers/presence.ts";
@@ -63,6 +71,7 @@ import {
   updateSkillEnabled,
 } from "./controllers/skills.ts";
 import { buildExternalLinkRel, EXTERNAL_LINK_TARGET } from "./external-link.ts";
+import { dismissGenUiRender, selectGenUiRenders } from "./genui.ts";
 import { icons } from "./icons.ts";
 import { normalizeBasePath, TAB_GROUPS, subtitleForTab, titleForTab } from "./navigation.ts";
 import { renderAgents } from "./views/agents.ts";
@@ -530,6 +539,9 @@ export function renderApp(state: AppViewState) {
                 cronStatus: state.cronStatus,
                 cronJobs: state.cronJobs,
                 cronError: state.cronError,
+                agentRosterLoading: state.agentRosterLoading,
+                agentRosterError: state.agentRosterError,
+                agentRosterEntries: state.agentRosterEntries,
                 agentFilesLoading: state.agentFilesLoading,
                 agentFilesError: state.agentFilesError,
                 agentFilesList: state.agentFilesList,
@@ -585,6 +597,9 @@ export function renderApp(state: AppViewState) {
                   if (state.agentsPanel === "skills") {
                     void loadAgentSkills(state, agentId);
                   }
+                  if (state.agentsPanel === "roster") {
+                    void loadAgentRoster(state, agentId);
+                  }
                 },
                 onSelectPanel: (panel) => {
                   state.agentsPanel = panel;
@@ -612,6 +627,9 @@ export function renderApp(state: AppViewState) {
                   if (panel === "cron") {
                     void state.loadCron();
                   }
+                  if (panel === "roster" && resolvedAgentId) {
+                    void loadAgentRoster(state, resolvedAgentId);
+                  }
                 },
                 onLoadFiles: (agentId) => loadAgentFiles(state, agentId),
                 onSelectFile: (name) => {
@@ -698,6 +716,15 @@ export function renderApp(state: AppViewState) {
                 onConfigSave: () => saveConfig(state),
                 onChannelsRefresh: () => loadChannels(state, false),
                 onCronRefresh: () => state.loadCron(),
+                onRosterRefresh: () => {
+                  if (resolvedAgentId) {
+                    void loadAgentRoster(state, resolvedAgentId);
+                  }
+                },
+                onRosterKill: (entry) => void killRosterAgent(state, entry.agentId, entry),
+                onRosterRename: (entry) => void renameRosterAgent(state, entry.agentId, entry),
+                onRosterReset: (entry) => void resetRosterAgent(state, entry.agentId, entry),
+                onRosterDelete: (entry) => void deleteRosterAgent(state, entry.agentId, entry),
                 onSkillsFilterChange: (next) => (state.skillsFilter = next),
                 onSkillsRefresh: () => {
                   if (resolvedAgentId) {
@@ -1003,6 +1030,10 @@ export function renderApp(state: AppViewState) {
                 assistantAvatarUrl: chatAvatarUrl,
                 messages: state.chatMessages,
                 toolMessages: state.chatToolMessages,
+                genUiRenders: selectGenUiRenders(state.genUiRenders, state.sessionKey),
+                onGenUiDismiss: (id) => dismissGenUiRender(state, id),
+                onGenUiAction: (render, action, values) =>
+                  void sendGenUiAction(state, render, action, values),
                 stream: state.chatStream,
                 streamStartedAt: state.chatStreamStartedAt,
                 draft: state.chatMessage,
@@ -8,6 +8,7 @@ import {
 import { scheduleChatScroll, scheduleLogsScroll } from "./app-scroll.ts";
 import type { OpenClawApp } from "./app.ts";
 import { loadAgentIdentities, loadAgentIdentity } from "./controllers/agent-identity.ts";
+import { loadAgentRoster } from "./controllers/agent-roster.ts";
 import { loadAgentSkills } from "./controllers/agent-skills.ts";
 import { loadAgents, loadToolsCatalog } from "./controllers/agents.ts";
 import { loadChannels } from "./controllers/channels.ts";
@@ -26,6 +27,7 @@ import { loadNodes } from "./controllers/nodes.ts";
 import { loadPresence } from "./controllers/presence.ts";
 import { loadSessions } from "./controllers/sessions.ts";
 import { loadSkills } from "./controllers/skills.ts";
+import { loadUsageBudget } from "./controllers/usage.ts";
 import {
   inferBasePathFromPathname,
   normalizeBasePath,
@@ -55,7 +57,7 @@ type SettingsHost = {
   basePath: string;
   agentsList?: AgentsListResult | null;
   agentsSelectedId?: string | null;
-  agentsPanel?: "overview" | "files" | "tools" | "skills" | "channels" | "cron";
+  agentsPanel?: "overview" | "files" | "tools" | "skills" | "channels" | "cron" | "roster";
   themeMedia: MediaQueryList | null;
   themeMediaHandler: ((event: MediaQueryListEvent) => void) | null;
   pendingGatewayUrl?: string | null;
@@ -196,6 +198,9 @@ export async function refreshActiveTab(host: SettingsHost) {
   if (host.tab === "sessions") {
     await loadSessions(host as unknown as OpenClawApp);
   }
+  if (host.tab === "usage") {
+    await loadUsageBudget(host as unknown as OpenClawApp);
+  }
   if (host.tab === "cron") {
     await loadCron(host);
   }
@@ -223,6 +228,9 @@ export async function refreshActiveTab(host: SettingsHost) {
       if (host.agentsPanel === "cron") {
         void loadCron(host);
       }
+      if (host.agentsPanel === "roster") {
+        void loadAgentRoster(host as unknown as OpenClawApp, agentId);
+      }
     }
   }
   if (host.tab === "nodes") {
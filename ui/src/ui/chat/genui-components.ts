@@ -0,0 +1,352 @@
+import { html, nothing, svg } from "lit";
+import {
+  formatGenUiValue,
+  normalizeGenUiButtons,
+  normalizeGenUiChart,
+  normalizeGenUiEvents,
+  normalizeGenUiFormFields,
+  normalizeGenUiKeyValue,
+  normalizeGenUiList,
+  normalizeGenUiTable,
+  resolveGenUiBuiltin,
+  resolveGenUiTitle,
+  type GenUiFormField,
+  type GenUiRender,
+} from "../genui.ts";
+import { icons } from "../icons.ts";
+
+export type GenUiCardOptions = {
+  onDismiss?: (id: string) => void;
+  /** Submits a form component; the submit button is hidden without it. */
+  onAction?: (render: GenUiRender, action: string, values: Record<string, unknown>) => void;
+};
+
+const CHART_WIDTH = 360;
+const CHART_HEIGHT = 140;
+const CHART_PADDING = { top: 8, right: 8, bottom: 20, left: 8 };
+
+function renderTable(params: Record<string, unknown>) {
+  const table = normalizeGenUiTable(params);
+  if (table.rows.length === 0) {
+    return html`
+      <div class="muted">No rows.</div>
+    `;
+  }
+  return html`
+    <div class="chat-genui-table-wrap">
+      <table class="chat-genui-table">
+        ${
+          table.columns.length > 0
+            ? html`<thead><tr>${table.columns.map((column) => html`<th>${column.label}</th>`)}</tr></thead>`
+            : nothing
+        }
+        <tbody>
+          ${table.rows.map((row) => html`<tr>${row.map((cell) => html`<td>${cell}</td>`)}</tr>`)}
+        </tbody>
+      </table>
+    </div>
+  `;
+}
+
+function renderKeyValue(params: Record<string, unknown>) {
+  const entries = normalizeGenUiKeyValue(params);
+  return html`
+    <dl class="chat-genui-kv">
+      ${entries.map(
+        (entry) => html`
+          <dt>${entry.label}</dt>
+          <dd>${entry.value}</dd>
+        `,
+      )}
+    </dl>
+  `;
+}
+
+function renderChart(params: Record<string, unknown>) {
+  const chart = normalizeGenUiChart(params);
+  if (chart.points.length === 0) {
+    return html`
+      <div class="muted">No data.</div>
+    `;
+  }
+  const max = Math.max(...chart.points.map((point) => point.value), 0) || 1;
+  const min = Math.min(...chart.points.map((point) => point.value), 0);
+  const span = max - min || 1;
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right;
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom;
+  const baseline = CHART_PADDING.top + (max / span) * plotHeight;
+  const slot = plotWidth / chart.points.length;
+  const yFor = (value: number) => CHART_PADDING.top + ((max - value) / span) * plotHeight;
+  const xFor = (index: number) => CHART_PADDING.left + slot * index + slot / 2;
+  const linePoints = chart.points
+    .map((point, index) => `${xFor(index)},${yFor(point.value)}`)
+    .join(" ");
+  return html`
+    <svg
+      class="chat-genui-chart"
+      viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}"
+      role="img"
+      aria-label=${resolveGenUiTitle(params) ?? "Chart"}
+    >
+      <line
+        x1="${CHART_PADDING.left}"
+        y1="${baseline}"
+        x2="${CHART_WIDTH - CHART_PADDING.right}"
+        y2="${baseline}"
+        stroke="var(--border)"
+      />
+      ${
+        chart.type === "line"
+          ? svg`<polyline points="${linePoints}" class="chat-genui-chart__line" fill="none" />`
+          : chart.points.map((point, index) => {
+              const y = yFor(point.value);
+              const barWidth = Math.max(2, slot * 0.7);
+              return svg`<rect x="${xFor(index) - barWidth / 2}" y="${Math.min(y, baseline)}" width="${barWidth}" height="${Math.abs(baseline - y)}" rx="2" class="chat-genui-chart__bar"><title>${point.label}: ${point.value}</title></rect>`;
+            })
+      }
+      ${chart.points.map(
+        (point, index) =>
+          svg`<text x="${xFor(index)}" y="${CHART_HEIGHT - 6}" text-anchor="middle" class="chat-genui-chart__label">${point.label}</text>`,
+      )}
+    </svg>
+  `;
+}
+
+function renderList(params: Record<string, unknown>) {
+  const items = normalizeGenUiList(params);
+  if (items.length === 0) {
+    return html`
+      <div class="muted">No items.</div>
+    `;
+  }
+  return html`
+    <ul class="chat-genui-list">
+      ${items.map(
+        (item) => html`
+          <li>
+            <div class="chat-genui-list__title">${item.title}</div>
+            ${item.subtitle ? html`<div class="chat-genui-list__subtitle">${item.subtitle}</div>` : nothing}
+          </li>
+        `,
+      )}
+    </ul>
+  `;
+}
+
+function formatEventTime(value: string): string {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+  return date.toLocaleString(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function renderCalendar(params: Record<string, unknown>) {
+  const events = normalizeGenUiEvents(params);
+  if (events.length === 0) {
+    return html`
+      <div class="muted">No events.</div>
+    `;
+  }
+  return html`
+    <ul class="chat-genui-calendar">
+      ${events.map(
+        (event) => html`
+          <li>
+            <div class="chat-genui-calendar__when">
+              ${formatEventTime(event.start)}${event.end ? html` – ${formatEventTime(event.end)}` : nothing}
+            </div>
+            <div class="chat-genui-calendar__title">${event.title}</div>
+            ${
+              event.location
+                ? html`<div class="chat-genui-calendar__where">${event.location}</div>`
+                : nothing
+            }
+          </li>
+        `,
+      )}
+    </ul>
+  `;
+}
+
+function renderFormField(field: GenUiFormField) {
+  const value = formatGenUiValue(field.value);
+  if (field.type === "checkbox") {
+    return html`
+      <label class="chat-genui-form__check">
+        <input type="checkbox" name=${field.name} ?checked=${field.value === true} />
+        <span>${field.label}</span>
+      </label>
+    `;
+  }
+  let control;
+  if (field.type === "select") {
+    control = html`
+      <select name=${field.name} ?required=${field.required}>
+        ${(field.options ?? []).map(
+          (option) =>
+            html`<option value=${option} ?selected=${option === value}>${option}</option>`,
+        )}
+      </select>
+    `;
+  } else if (field.type === "textarea") {
+    control = html`<textarea name=${field.name} ?required=${field.required} .value=${value}></textarea>`;
+  } else {
+    control = html`
+      <input
+        type=${field.type}
+        name=${field.name}
+        ?required=${field.required}
+        .value=${value}
+      />
+    `;
+  }
+  return html`
+    <label class="field">
+      <span>${field.label}${field.required ? " *" : ""}</span>
+      ${control}
+    </label>
+  `;
+}
+
+function readFormValues(form: HTMLFormElement, fields: GenUiFormField[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const field of fields) {
+    const element = form.elements.namedItem(field.name);
+    if (
+      !(element instanceof HTMLInputElement) &&
+      !(element instanceof HTMLSelectElement) &&
+      !(element instanceof HTMLTextAreaElement)
+    ) {
+      continue;
+    }
+    if (element instanceof HTMLInputElement && field.type === "checkbox") {
+      values[field.name] = element.checked;
+    } else if (field.type === "number") {
+      values[field.name] = element.value === "" ? null : Number(element.value);
+    } else {
+      values[field.name] = element.value;
+    }
+  }
+  return values;
+}
+
+function renderForm(render: GenUiRender, onAction: GenUiCardOptions["onAction"]) {
+  const fields = normalizeGenUiFormFields(render.params, render.schema);
+  const submitLabel =
+    typeof render.params.submitLabel === "string" ? render.params.submitLabel : "Submit";
+  const action = typeof render.params.action === "string" ? render.params.action : "submit";
+  return html`
+    <form
+      class="chat-genui-form"
+      @submit=${(e: SubmitEvent) => {
+        e.preventDefault();
+        onAction?.(render, action, readFormValues(e.currentTarget as HTMLFormElement, fields));
+      }}
+    >
+      ${fields.map(renderFormField)}
+      ${
+        onAction
+          ? html`<div class="chat-genui-form__actions"><button class="btn primary" type="submit">${submitLabel}</button></div>`
+          : nothing
+      }
+    </form>
+  `;
+}
+
+function renderJsonFallback(params: Record<string, unknown>) {
+  return html`<pre class="chat-genui-json"><code>${JSON.stringify(params, null, 2)}</code></pre>`;
+}
+
+function renderBody(render: GenUiRender, opts: GenUiCardOptions) {
+  switch (resolveGenUiBuiltin(render.componentId)) {
+    case "table":
+      return renderTable(render.params);
+    case "key-value":
+      return renderKeyValue(render.params);
+    case "chart":
+      return renderChart(render.params);
+    case "list":
+      return renderList(render.params);
+    case "calendar":
+      return renderCalendar(render.params);
+    case "form":
+      return renderForm(render, opts.onAction);
+    default:
+      return renderJsonFallback(render.params);
+  }
+}
+
+function renderButtons(render: GenUiRender, onAction: GenUiCardOptions["onAction"]) {
+  const buttons = normalizeGenUiButtons(render.params);
+  if (!onAction || buttons.length === 0) {
+    return nothing;
+  }
+  return html`
+    <div class="chat-genui-card__actions">
+      ${buttons.map(
+        (button) => html`
+          <button class="btn btn--sm" type="button" @click=${() => onAction(render, button.action, {})}>
+            ${button.label}
+          </button>
+        `,
+      )}
+    </div>
+  `;
+}
+
+function renderResult(render: GenUiRender) {
+  if (render.result === undefined) {
+    return nothing;
+  }
+  const text = formatGenUiValue(render.result);
+  if (!text) {
+    return nothing;
+  }
+  return html`
+    <details class="chat-genui-card__result ${render.isError ? "chat-genui-card__result--error" : ""}">
+      <summary>${render.isError ? "Tool error" : "Tool result"}</summary>
+      <pre><code>${text}</code></pre>
+    </details>
+  `;
+}
+
+/** Renders a `genui.render` component inline in the chat thread. */
+export function renderGenUiCard(render: GenUiRender, opts: GenUiCardOptions = {}) {
+  const builtin = resolveGenUiBuiltin(render.componentId);
+  const title = resolveGenUiTitle(render.params) ?? render.componentId;
+  return html`
+    <div
+      class="chat-genui-card ${builtin ? `chat-genui-card--${builtin}` : "chat-genui-card--unknown"}"
+      data-genui-id=${render.id}
+    >
+      <div class="chat-genui-card__header">
+        <div class="chat-genui-card__title">${title}</div>
+        <div class="chat-genui-card__meta">${builtin ? render.toolName : `${render.componentId} · ${render.toolName}`}</div>
+        ${
+          opts.onDismiss
+            ? html`
+              <button
+                class="btn btn--sm chat-genui-card__dismiss"
+                type="button"
+                aria-label="Dismiss"
+                @click=${() => opts.onDismiss?.(render.id)}
+              >
+                ${icons.x}
+              </button>
+            `
+            : nothing
+        }
+      </div>
+      <div class="chat-genui-card__body">${renderBody(render, opts)}</div>
+      ${renderButtons(render, opts.onAction)}
+      ${renderResult(render)}
+    </div>
+  `;
+}
@@ -0,0 +1,108 @@
+import type { GatewayBrowserClient } from "../gateway.ts";
+import type { AgentsRosterEntry, AgentsRosterListResult } from "../types.ts";
+
+export type AgentRosterState = {
+  client: GatewayBrowserClient | null;
+  connected: boolean;
+  agentRosterLoading: boolean;
+  agentRosterError: string | null;
+  agentRosterEntries: AgentsRosterEntry[];
+};
+
+function targetParams(entry: AgentsRosterEntry) {
+  return { name: entry.name, requesterSessionKey: entry.requesterSessionKey };
+}
+
+export async function loadAgentRoster(state: AgentRosterState, agentId: string) {
+  if (!state.client || !state.connected || state.agentRosterLoading) {
+    return;
+  }
+  state.agentRosterLoading = true;
+  state.agentRosterError = null;
+  try {
+    const res = await state.client.request<AgentsRosterListResult | null>("agents.roster.list", {
+      agentId,
+    });
+    state.agentRosterEntries = res?.entries ?? [];
+  } catch (err) {
+    state.agentRosterError = String(err);
+  } finally {
+    state.agentRosterLoading = false;
+  }
+}
+
+async function runRosterAction(
+  state: AgentRosterState,
+  agentId: string,
+  method: string,
+  params: Record<string, unknown>,
+) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  state.agentRosterError = null;
+  try {
+    await state.client.request(method, params);
+  } catch (err) {
+    state.agentRosterError = String(err);
+    return;
+  }
+  await loadAgentRoster(state, agentId);
+}
+
+export async function killRosterAgent(
+  state: AgentRosterState,
+  agentId: string,
+  entry: AgentsRosterEntry,
+) {
+  if (!window.confirm(`Stop the current run of "${entry.name}"?`)) {
+    return;
+  }
+  await runRosterAction(state, agentId, "agents.roster.kill", targetParams(entry));
+}
+
+export async function renameRosterAgent(
+  state: AgentRosterState,
+  agentId: string,
+  entry: AgentsRosterEntry,
+) {
+  const newName = window.prompt(`Rename "${entry.name}" to:`, entry.name)?.trim();
+  if (!newName || newName === entry.name) {
+    return;
+  }
+  await runRosterAction(state, agentId, "agents.roster.rename", {
+    ...targetParams(entry),
+    newName,
+  });
+}
+
+export async function resetRosterAgent(
+  state: AgentRosterState,
+  agentId: string,
+  entry: AgentsRosterEntry,
+) {
+  if (
+    !window.confirm(`Reset "${entry.name}"?\n\nStops any current run and starts a fresh session.`)
+  ) {
+    return;
+  }
+  await runRosterAction(state, agentId, "agents.roster.reset", targetParams(entry));
+}
+
+export async function deleteRosterAgent(
+  state: AgentRosterState,
+  agentId: string,
+  entry: AgentsRosterEntry,
+) {
+  if (
+    !window.confirm(
+      `Delete "${entry.name}" from the roster?\n\nDeletes its session entry and archives its transcript.`,
+    )
+  ) {
+    return;
+  }
+  await runRosterAction(state, agentId, "agents.roster.delete", {
+    ...targetParams(entry),
+    deleteSession: true,
+  });
+}
@@ -247,6 +247,40 @@ describe("cron controller", () => {
     expect(state.cronForm.deliveryTo).toBe("123");
   });
 
+  it("maps an after-job schedule into form fields and back", async () => {
+    const request = vi.fn(async () => ({}));
+    const state = createState({ client: { request } as unknown as CronState["client"] });
+    const job = {
+      id: "job-summarize",
+      name: "Summarize",
+      enabled: true,
+      createdAtMs: 0,
+      updatedAtMs: 0,
+      schedule: { kind: "after" as const, jobId: "job-pull", on: "always" as const },
+      sessionTarget: "isolated" as const,
+      wakeMode: "now" as const,
+      payload: { kind: "agentTurn" as const, message: "summarize" },
+      delivery: { mode: "none" as const },
+      state: {},
+    };
+
+    startCronEdit(state, job);
+    expect(state.cronForm.scheduleKind).toBe("after");
+    expect(state.cronForm.afterJobId).toBe("job-pull");
+    expect(state.cronForm.afterOn).toBe("always");
+
+    await addCronJob(state);
+    expect(request).toHaveBeenCalledWith(
+      "cron.update",
+      expect.objectContaining({
+        patch: expect.objectContaining({
+          schedule: { kind: "after", jobId: "job-pull", on: "always" },
+        }),
+      }),
+    );
+    expect(validateCronForm({ ...state.cronForm, afterJobId: "" }).afterJobId).toBeDefined();
+  });
+
   it("includes model/thinking/stagger/bestEffort in cron.update patch", async () => {
     const request = vi.fn(async (method: string, _payload?: unknown) => {
       if (method === "cron.update") {
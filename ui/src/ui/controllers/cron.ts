@@ -23,6 +23,7 @@ export type CronFieldKey =
   | "scheduleAt"
   | "everyAmount"
   | "cronExpr"
+  | "afterJobId"
   | "staggerAmount"
   | "payloadText"
   | "payloadModel"
@@ -107,6 +108,10 @@ export function validateCronForm(form: CronFormState): CronFieldErrors {
     if (amount <= 0) {
       errors.everyAmount = "Interval must be greater than 0.";
     }
+  } else if (form.scheduleKind === "after") {
+    if (!form.afterJobId.trim()) {
+      errors.afterJobId = "Pick the job this one runs after.";
+    }
   } else {
     if (!form.cronExpr.trim()) {
       errors.cronExpr = "Cron expression is required.";
@@ -390,6 +395,8 @@ function jobToForm(job: CronJob, prev: CronFormState): CronFormState {
     scheduleExact: false,
     staggerAmount: "",
     staggerUnit: "seconds",
+    afterJobId: "",
+    afterOn: "ok",
     sessionTarget: job.sessionTarget,
     wakeMode: job.wakeMode,
     payloadKind: job.payload.kind,
@@ -412,6 +419,9 @@ function jobToForm(job: CronJob, prev: CronFormState): CronFormState {
     const parsed = parseEverySchedule(job.schedule.everyMs);
     next.everyAmount = parsed.everyAmount;
     next.everyUnit = parsed.everyUnit;
+  } else if (job.schedule.kind === "after") {
+    next.afterJobId = job.schedule.jobId;
+    next.afterOn = job.schedule.on ?? "ok";
   } else {
     next.cronExpr = job.schedule.expr;
     next.cronTz = job.schedule.tz ?? "";
@@ -441,6 +451,13 @@ export function buildCronSchedule(form: CronFormState) {
     const mult = unit === "minutes" ? 60_000 : unit === "hours" ? 3_600_000 : 86_400_000;
     return { kind: "every" as const, everyMs: amount * mult };
   }
+  if (form.scheduleKind === "after") {
+    const jobId = form.afterJobId.trim();
+    if (!jobId) {
+      throw new Error("Upstream job required.");
+    }
+    return { kind: "after" as const, jobId, on: form.afterOn };
+  }
   const expr = form.cronExpr.trim();
   if (!expr) {
     throw new Error("Cron expression required.");
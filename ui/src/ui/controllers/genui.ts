@@ -0,0 +1,50 @@
+import type { GatewayBrowserClient } from "../gateway.ts";
+import type { GenUiRender } from "../genui.ts";
+import { generateUUID } from "../uuid.ts";
+
+export type GenUiActionState = {
+  client: GatewayBrowserClient | null;
+  connected: boolean;
+  sessionKey: string;
+  chatRunId: string | null;
+  chatStream: string | null;
+  chatStreamStartedAt: number | null;
+  lastError: string | null;
+};
+
+/** Reports a component action; the gateway runs it as a turn in the render's session. */
+export async function sendGenUiAction(
+  state: GenUiActionState,
+  render: GenUiRender,
+  action: string,
+  values: Record<string, unknown>,
+): Promise<string | null> {
+  if (!state.client || !state.connected) {
+    return null;
+  }
+  const runId = generateUUID();
+  const inCurrentSession = !render.sessionKey || render.sessionKey === state.sessionKey;
+  state.lastError = null;
+  if (inCurrentSession) {
+    state.chatRunId = runId;
+    state.chatStream = "";
+    state.chatStreamStartedAt = Date.now();
+  }
+  try {
+    await state.client.request("genui.action", {
+      renderId: render.id,
+      action,
+      values,
+      idempotencyKey: runId,
+    });
+    return runId;
+  } catch (err) {
+    if (inCurrentSession && state.chatRunId === runId) {
+      state.chatRunId = null;
+      state.chatStream = null;
+      state.chatStreamStartedAt = null;
+    }
+    state.lastError = String(err);
+    return null;
+  }
+}
@@ -1,5 +1,10 @@
 import type { GatewayBrowserClient } from "../gateway.ts";
-import type { SessionsUsageResult, CostUsageSummary, SessionUsageTimeSeries } from "../types.ts";
+import type {
+  SessionsUsageResult,
+  CostUsageSummary,
+  SessionUsageTimeSeries,
+  UsageBudgetStatus,
+} from "../types.ts";
 import type { SessionLogEntry } from "../views/usage.ts";
 
 export type UsageState = {
@@ -8,6 +13,7 @@ export type UsageState = {
   usageLoading: boolean;
   usageResult: SessionsUsageResult | null;
   usageCostSummary: CostUsageSummary | null;
+  usageBudget?: UsageBudgetStatus | null;
   usageError: string | null;
   usageStartDate: string;
   usageEndDate: string;
@@ -267,6 +273,19 @@ export const __test = {
   },
 };
 
+export async function loadUsageBudget(state: UsageState) {
+  if (!state.client || !state.connected) {
+    return;
+  }
+  try {
+    const res = await state.client.request("usage.budget", {});
+    state.usageBudget = (res as UsageBudgetStatus | undefined) ?? null;
+  } catch {
+    // Budgets are optional; older gateways do not expose usage.budget.
+    state.usageBudget = null;
+  }
+}
+
 export async function loadSessionTimeSeries(state: UsageState, sessionKey: string) {
   if (!state.client || !state.connected) {
     return;
@@ -0,0 +1,197 @@
+import { describe, expect, it } from "vitest";
+import {
+  dismissGenUiRender,
+  handleGenUiRenderEvent,
+  handleGenUiUpdateEvent,
+  normalizeGenUiButtons,
+  normalizeGenUiChart,
+  normalizeGenUiEvents,
+  normalizeGenUiFormFields,
+  normalizeGenUiKeyValue,
+  normalizeGenUiTable,
+  resolveGenUiBuiltin,
+  selectGenUiRenders,
+  type GenUiRender,
+} from "./genui.ts";
+
+function createHost(): { genUiRenders: GenUiRender[] } {
+  return { genUiRenders: [] };
+}
+
+const render = {
+  id: "r1",
+  sessionKey: "main",
+  componentId: "table",
+  params: { rows: [{ a: 1 }] },
+  toolName: "search",
+  ts: 100,
+};
+
+describe("genui event state", () => {
+  it("adds renders and replaces them by id", () => {
+    const host = createHost();
+    handleGenUiRenderEvent(host, render);
+    handleGenUiRenderEvent(host, { ...render, params: { rows: [] }, ts: 200 });
+    expect(host.genUiRenders).toHaveLength(1);
+    expect(host.genUiRenders[0]).toMatchObject({ params: { rows: [] }, updatedAt: 200 });
+  });
+
+  it("ignores malformed render payloads", () => {
+    const host = createHost();
+    handleGenUiRenderEvent(host, { id: "x" });
+    handleGenUiRenderEvent(host, null);
+    expect(host.genUiRenders).toEqual([]);
+  });
+
+  it("stores tool results for judge renders", () => {
+    const host = createHost();
+    handleGenUiRenderEvent(host, render);
+    handleGenUiUpdateEvent(host, { id: "r1", toolResult: { ok: false }, isError: true, ts: 300 });
+    expect(host.genUiRenders[0]).toMatchObject({
+      result: { ok: false },
+      isError: true,
+      params: { rows: [{ a: 1 }] },
+    });
+  });
+
+  it("merges genui tool updates into params", () => {
+    const host = createHost();
+    handleGenUiRenderEvent(host, {
+      ...render,
+      toolName: "genui",
+      params: { title: "A", rows: [] },
+    });
+    handleGenUiUpdateEvent(host, { id: "r1", toolResult: { rows: [{ b: 2 }] }, ts: 300 });
+    expect(host.genUiRenders[0].params).toEqual({ title: "A", rows: [{ b: 2 }] });
+    expect(host.genUiRenders[0].result).toBeUndefined();
+  });
+
+  it("hides dismissed renders and filters by session", () => {
+    const host = createHost();
+    handleGenUiRenderEvent(host, render);
+    handleGenUiRenderEvent(host, { ...render, id: "r2", sessionKey: "other" });
+    handleGenUiRenderEvent(host, { ...render, id: "r3", sessionKey: undefined });
+    expect(selectGenUiRenders(host.genUiRenders, "main").map((entry) => entry.id)).toEqual([
+      "r1",
+      "r3",
+    ]);
+
+    handleGenUiUpdateEvent(host, { id: "r1", toolResult: null, dismissed: true, ts: 400 });
+    dismissGenUiRender(host, "r3");
+    expect(selectGenUiRenders(host.genUiRenders, "main")).toEqual([]);
+  });
+});
+
+describe("genui built-in components", () => {
+  it("resolves aliases and falls back for unknown ids", () => {
+    expect(resolveGenUiBuiltin("KV")).toBe("key-value");
+    expect(resolveGenUiBuiltin("bar-chart")).toBe("chart");
+    expect(resolveGenUiBuiltin("weather-card")).toBeNull();
+  });
+
+  it("normalizes table rows from objects and arrays", () => {
+    expect(
+      normalizeGenUiTable({
+        rows: [
+          { name: "a", n: 1 },
+          { name: "b", extra: true },
+        ],
+      }),
+    ).toEqual({
+      columns: [
+        { key: "name", label: "name" },
+        { key: "n", label: "n" },
+        { key: "extra", label: "extra" },
+      ],
+      rows: [
+        ["a", "1", ""],
+        ["b", "", "true"],
+      ],
+    });
+    expect(normalizeGenUiTable({ columns: [{ key: "x", label: "X" }], rows: [["1", 2]] })).toEqual({
+      columns: [{ key: "x", label: "X" }],
+      rows: [["1", "2"]],
+    });
+  });
+
+  it("reads key-value entries from items or loose params", () => {
+    expect(normalizeGenUiKeyValue({ items: [{ label: "CPU", value: "4" }] })).toEqual([
+      { label: "CPU", value: "4" },
+    ]);
+    expect(normalizeGenUiKeyValue({ title: "Host", cpu: 4, tags: ["a"] })).toEqual([
+      { label: "cpu", value: "4" },
+      { label: "tags", value: '["a"]' },
+    ]);
+  });
+
+  it("reads action buttons from names or objects", () => {
+    expect(
+      normalizeGenUiButtons({ actions: ["approve", { action: "reject", label: "No" }, 3] }),
+    ).toEqual([
+      { action: "approve", label: "approve" },
+      { action: "reject", label: "No" },
+    ]);
+  });
+
+  it("accepts chart data points or labels/values", () => {
+    expect(
+      normalizeGenUiChart({
+        data: [
+          { label: "a", value: 2 },
+          { label: "b", value: "x" },
+        ],
+      }),
+    ).toEqual({ type: "bar", points: [{ label: "a", value: 2 }] });
+    expect(normalizeGenUiChart({ type: "line", labels: ["mon"], values: ["3"] })).toEqual({
+      type: "line",
+      points: [{ label: "mon", value: 3 }],
+    });
+  });
+
+  it("treats params as a single calendar event when events is missing", () => {
+    expect(normalizeGenUiEvents({ title: "Standup", date: "2026-03-01T09:00:00Z" })).toEqual([
+      { title: "Standup", start: "2026-03-01T09:00:00Z", end: undefined, location: undefined },
+    ]);
+  });
+
+  it("derives form fields from the component schema", () => {
+    const fields = normalizeGenUiFormFields(
+      { city: "Berlin" },
+      {
+        type: "object",
+        required: ["city"],
+        properties: {
+          city: { type: "string", title: "City" },
+          units: { type: "string", enum: ["metric", "imperial"], default: "metric" },
+          days: { type: "integer" },
+        },
+      },
+    );
+    expect(fields).toEqual([
+      {
+        name: "city",
+        label: "City",
+        type: "text",
+        value: "Berlin",
+        options: undefined,
+        required: true,
+      },
+      {
+        name: "units",
+        label: "units",
+        type: "select",
+        value: "metric",
+        options: ["metric", "imperial"],
+        required: false,
+      },
+      {
+        name: "days",
+        label: "days",
+        type: "number",
+        value: undefined,
+        options: undefined,
+        required: false,
+      },
+    ]);
+  });
+});
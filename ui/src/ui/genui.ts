@@ -0,0 +1,422 @@
+const GENUI_RENDER_LIMIT = 100;
+
+/** `genui.render` event payload (see src/agents/judge/judge-hook.ts). */
+export type GenUiRenderPayload = {
+  id: string;
+  sessionKey?: string;
+  componentId: string;
+  params: Record<string, unknown>;
+  schema?: Record<string, unknown>;
+  toolName: string;
+  ts: number;
+};
+
+/** `genui.update` event payload; `dismissed` hides the component. */
+export type GenUiUpdatePayload = {
+  id: string;
+  toolResult: unknown;
+  isError?: boolean;
+  dismissed?: boolean;
+  ts: number;
+};
+
+export type GenUiRender = {
+  id: string;
+  sessionKey?: string;
+  componentId: string;
+  params: Record<string, unknown>;
+  schema?: Record<string, unknown>;
+  toolName: string;
+  ts: number;
+  updatedAt: number;
+  /** Result of the tool that triggered the render, once it finished. */
+  result?: unknown;
+  isError?: boolean;
+  dismissed?: boolean;
+};
+
+type GenUiHost = {
+  genUiRenders: GenUiRender[];
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return Boolean(value) && typeof value === "object" && !Array.isArray(value);
+}
+
+function parseRenderPayload(payload: unknown): GenUiRenderPayload | null {
+  if (!isRecord(payload)) {
+    return null;
+  }
+  const id = typeof payload.id === "string" ? payload.id.trim() : "";
+  const componentId = typeof payload.componentId === "string" ? payload.componentId.trim() : "";
+  if (!id || !componentId) {
+    return null;
+  }
+  return {
+    id,
+    sessionKey: typeof payload.sessionKey === "string" ? payload.sessionKey : undefined,
+    componentId,
+    params: isRecord(payload.params) ? payload.params : {},
+    schema: isRecord(payload.schema) ? payload.schema : undefined,
+    toolName: typeof payload.toolName === "string" ? payload.toolName : "genui",
+    ts: typeof payload.ts === "number" ? payload.ts : Date.now(),
+  };
+}
+
+export function handleGenUiRenderEvent(host: GenUiHost, payload: unknown) {
+  const parsed = parseRenderPayload(payload);
+  if (!parsed) {
+    return;
+  }
+  const next = host.genUiRenders.filter((entry) => entry.id !== parsed.id);
+  next.push({ ...parsed, updatedAt: parsed.ts });
+  host.genUiRenders = next.slice(-GENUI_RENDER_LIMIT);
+}
+
+export function handleGenUiUpdateEvent(host: GenUiHost, payload: unknown) {
+  if (!isRecord(payload) || typeof payload.id !== "string") {
+    return;
+  }
+  const update = payload as GenUiUpdatePayload;
+  const index = host.genUiRenders.findIndex((entry) => entry.id === update.id);
+  if (index === -1) {
+    return;
+  }
+  const current = host.genUiRenders[index];
+  const updatedAt = typeof update.ts === "number" ? update.ts : Date.now();
+  let next: GenUiRender;
+  if (update.dismissed) {
+    next = { ...current, dismissed: true, updatedAt };
+  } else if (current.toolName === "genui" && isRecord(update.toolResult)) {
+    // The genui tool's update action carries new component data, not a tool result.
+    next = { ...current, params: { ...current.params, ...update.toolResult }, updatedAt };
+  } else {
+    next = { ...current, result: update.toolResult, isError: Boolean(update.isError), updatedAt };
+  }
+  const renders = host.genUiRenders.slice();
+  renders[index] = next;
+  host.genUiRenders = renders;
+}
+
+/** Hides a component locally (the close button on a GenUI card). */
+export function dismissGenUiRender(host: GenUiHost, id: string) {
+  host.genUiRenders = host.genUiRenders.map((entry) =>
+    entry.id === id ? { ...entry, dismissed: true } : entry,
+  );
+}
+
+/** Visible renders for a chat session; renders without a session key show everywhere. */
+export function selectGenUiRenders(renders: GenUiRender[], sessionKey: string): GenUiRender[] {
+  return renders.filter(
+    (entry) => !entry.dismissed && (!entry.sessionKey || entry.sessionKey === sessionKey),
+  );
+}
+
+export type GenUiBuiltin = "table" | "key-value" | "chart" | "list" | "calendar" | "form";
+
+const BUILTIN_ALIASES: Record<string, GenUiBuiltin> = {
+  table: "table",
+  "data-table": "table",
+  "key-value": "key-value",
+  "key-value-card": "key-value",
+  kv: "key-value",
+  chart: "chart",
+  "bar-chart": "chart",
+  "line-chart": "chart",
+  list: "list",
+  calendar: "calendar",
+  "calendar-event": "calendar",
+  form: "form",
+};
+
+/** Maps a component id onto a built-in renderer; null means the JSON fallback card. */
+export function resolveGenUiBuiltin(componentId: string): GenUiBuiltin | null {
+  return BUILTIN_ALIASES[componentId.trim().toLowerCase()] ?? null;
+}
+
+export function formatGenUiValue(value: unknown): string {
+  if (value == null) {
+    return "";
+  }
+  if (typeof value === "string") {
+    return value;
+  }
+  if (typeof value === "number" || typeof value === "boolean") {
+    return String(value);
+  }
+  try {
+    return JSON.stringify(value) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+function readString(record: Record<string, unknown>, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = record[key];
+    if (typeof value === "string" && value.trim()) {
+      return value;
+    }
+    if (typeof value === "number") {
+      return String(value);
+    }
+  }
+  return undefined;
+}
+
+export function resolveGenUiTitle(params: Record<string, unknown>): string | undefined {
+  return readString(params, "title", "heading", "label");
+}
+
+export type GenUiTable = {
+  columns: Array<{ key: string; label: string }>;
+  rows: string[][];
+};
+
+export function normalizeGenUiTable(params: Record<string, unknown>): GenUiTable {
+  const rawRows = Array.isArray(params.rows)
+    ? params.rows
+    : Array.isArray(params.data)
+      ? params.data
+      : [];
+  let columns: GenUiTable["columns"] = [];
+  if (Array.isArray(params.columns)) {
+    columns = params.columns.flatMap((column) => {
+      if (typeof column === "string") {
+        return [{ key: column, label: column }];
+      }
+      if (isRecord(column)) {
+        const key = readString(column, "key", "field", "name");
+        return key ? [{ key, label: readString(column, "label", "title") ?? key }] : [];
+      }
+      return [];
+    });
+  }
+  if (columns.length === 0) {
+    const keys = new Set<string>();
+    for (const row of rawRows) {
+      if (isRecord(row)) {
+        for (const key of Object.keys(row)) {
+          keys.add(key);
+        }
+      }
+    }
+    columns = [...keys].map((key) => ({ key, label: key }));
+  }
+  const rows = rawRows.map((row) => {
+    if (Array.isArray(row)) {
+      return row.map(formatGenUiValue);
+    }
+    if (isRecord(row)) {
+      return columns.map((column) => formatGenUiValue(row[column.key]));
+    }
+    return [formatGenUiValue(row)];
+  });
+  return { columns, rows };
+}
+
+export type GenUiEntry = { label: string; value: string };
+
+const CONTAINER_KEYS = new Set(["title", "heading", "items", "fields", "entries", "actions"]);
+
+export function normalizeGenUiKeyValue(params: Record<string, unknown>): GenUiEntry[] {
+  const source = params.items ?? params.entries ?? params.fields;
+  if (Array.isArray(source)) {
+    return source.flatMap((entry) => {
+      if (!isRecord(entry)) {
+        return [];
+      }
+      const label = readString(entry, "label", "key", "name");
+      return label ? [{ label, value: formatGenUiValue(entry.value) }] : [];
+    });
+  }
+  const record = isRecord(source)
+    ? source
+    : Object.fromEntries(Object.entries(params).filter(([key]) => !CONTAINER_KEYS.has(key)));
+  return Object.entries(record).map(([label, value]) => ({
+    label,
+    value: formatGenUiValue(value),
+  }));
+}
+
+export type GenUiChart = {
+  type: "bar" | "line";
+  points: Array<{ label: string; value: number }>;
+};
+
+function toNumber(value: unknown): number | null {
+  const num = typeof value === "string" ? Number(value) : value;
+  return typeof num === "number" && Number.isFinite(num) ? num : null;
+}
+
+export function normalizeGenUiChart(params: Record<string, unknown>): GenUiChart {
+  const type = params.type === "line" ? "line" : "bar";
+  const points: GenUiChart["points"] = [];
+  if (Array.isArray(params.data)) {
+    params.data.forEach((entry, index) => {
+      if (isRecord(entry)) {
+        const value = toNumber(entry.value ?? entry.y);
+        if (value !== null) {
+          points.push({
+            label: readString(entry, "label", "x", "name") ?? String(index + 1),
+            value,
+          });
+        }
+        return;
+      }
+      const value = toNumber(entry);
+      if (value !== null) {
+        points.push({ label: String(index + 1), value });
+      }
+    });
+  } else if (Array.isArray(params.values)) {
+    const labels = Array.isArray(params.labels) ? params.labels : [];
+    params.values.forEach((raw, index) => {
+      const value = toNumber(raw);
+      if (value !== null) {
+        points.push({ label: formatGenUiValue(labels[index] ?? index + 1), value });
+      }
+    });
+  }
+  return { type, points };
+}
+
+export type GenUiListItem = { title: string; subtitle?: string };
+
+export function normalizeGenUiList(params: Record<string, unknown>): GenUiListItem[] {
+  const items = Array.isArray(params.items) ? params.items : [];
+  return items.flatMap((item) => {
+    if (isRecord(item)) {
+      const title = readString(item, "title", "label", "name", "text");
+      return title
+        ? [{ title, subtitle: readString(item, "subtitle", "description", "detail") }]
+        : [];
+    }
+    const title = formatGenUiValue(item);
+    return title ? [{ title }] : [];
+  });
+}
+
+export type GenUiEvent = {
+  title: string;
+  start: string;
+  end?: string;
+  location?: string;
+};
+
+function parseGenUiEvent(record: Record<string, unknown>): GenUiEvent | null {
+  const title = readString(record, "title", "summary", "name");
+  const start = readString(record, "start", "date", "when", "time");
+  if (!title || !start) {
+    return null;
+  }
+  return {
+    title,
+    start,
+    end: readString(record, "end"),
+    location: readString(record, "location", "where"),
+  };
+}
+
+/** Calendar events from `events[]`, or the params themselves as a single event. */
+export function normalizeGenUiEvents(params: Record<string, unknown>): GenUiEvent[] {
+  if (Array.isArray(params.events)) {
+    return params.events.flatMap((entry) => {
+      const event = isRecord(entry) ? parseGenUiEvent(entry) : null;
+      return event ? [event] : [];
+    });
+  }
+  const single = parseGenUiEvent(params);
+  return single ? [single] : [];
+}
+
+export type GenUiFormField = {
+  name: string;
+  label: string;
+  type: "text" | "number" | "checkbox" | "select" | "textarea";
+  value?: unknown;
+  options?: string[];
+  required: boolean;
+};
+
+function normalizeFieldType(raw: unknown, options?: string[]): GenUiFormField["type"] {
+  if (options && options.length > 0) {
+    return "select";
+  }
+  if (raw === "number" || raw === "integer") {
+    return "number";
+  }
+  if (raw === "boolean" || raw === "checkbox") {
+    return "checkbox";
+  }
+  if (raw === "textarea") {
+    return "textarea";
+  }
+  return "text";
+}
+
+function readOptions(value: unknown): string[] | undefined {
+  return Array.isArray(value) ? value.map(formatGenUiValue) : undefined;
+}
+
+/** Form fields from `fields[]`, or derived from the component's JSON schema properties. */
+export function normalizeGenUiFormFields(
+  params: Record<string, unknown>,
+  schema?: Record<string, unknown>,
+): GenUiFormField[] {
+  if (Array.isArray(params.fields)) {
+    return params.fields.flatMap((entry) => {
+      if (!isRecord(entry)) {
+        return [];
+      }
+      const name = readString(entry, "name", "key");
+      if (!name) {
+        return [];
+      }
+      const options = readOptions(entry.options);
+      return [
+        {
+          name,
+          label: readString(entry, "label", "title") ?? name,
+          type: normalizeFieldType(entry.type, options),
+          value: entry.value,
+          options,
+          required: entry.required === true,
+        },
+      ];
+    });
+  }
+  const properties = isRecord(schema?.properties) ? schema.properties : {};
+  const required = Array.isArray(schema?.required) ? schema.required : [];
+  return Object.entries(properties).map(([name, raw]) => {
+    const prop = isRecord(raw) ? raw : {};
+    const options = readOptions(prop.enum);
+    return {
+      name,
+      label: readString(prop, "title") ?? name,
+      type: normalizeFieldType(prop.type, options),
+      value: params[name] ?? prop.default,
+      options,
+      required: required.includes(name),
+    };
+  });
+}
+
+export type GenUiButton = { action: string; label: string };
+
+/** Action buttons from `actions` (names or `{ action, label }`), sent via `genui.action`. */
+export function normalizeGenUiButtons(params: Record<string, unknown>): GenUiButton[] {
+  if (!Array.isArray(params.actions)) {
+    return [];
+  }
+  return params.actions.flatMap((entry) => {
+    if (typeof entry === "string" && entry.trim()) {
+      return [{ action: entry, label: entry }];
+    }
+    if (isRecord(entry)) {
+      const action = readString(entry, "action", "name", "id");
+      return action ? [{ action, label: readString(entry, "label", "title") ?? action }] : [];
+    }
+    return [];
+  });
+}
@@ -1,5 +1,11 @@
 import { formatRelativeTimestamp, formatDurationHuman, formatMs } from "./format.ts";
-import type { CronJob, GatewaySessionRow, PresenceEntry } from "./types.ts";
+import type {
+  CronDeliveryCondition,
+  CronDeliveryTarget,
+  CronJob,
+  GatewaySessionRow,
+  PresenceEntry,
+} from "./types.ts";
 
 export function formatPresenceSummary(entry: PresenceEntry): string {
   const host = entry.host ?? "unknown";
@@ -51,7 +57,31 @@ export function formatCronState(job: CronJob) {
   return `${status} · next ${next} · last ${last}`;
 }
 
-export function formatCronSchedule(job: CronJob) {
+export function formatCronSchedule(job: CronJob, jobs: CronJob[] = []) {
+  const base = formatCronScheduleBase(job, jobs);
+  const exclusions = formatCronExclusions(job.schedule.exclude);
+  return exclusions ? `${base} (${exclusions})` : base;
+}
+
+function formatCronExclusions(exclude: CronJob["schedule"]["exclude"]): string | null {
+  if (!exclude) {
+    return null;
+  }
+  const parts: string[] = [];
+  if (exclude.skipWeekdays?.length) {
+    const labels = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+    parts.push(`skips ${exclude.skipWeekdays.map((day) => labels[day] ?? day).join("/")}`);
+  }
+  if (exclude.windows?.length) {
+    parts.push(exclude.windows.length === 1 ? "1 blackout" : `${exclude.windows.length} blackouts`);
+  }
+  if (exclude.icsPath) {
+    parts.push("skips holidays");
+  }
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+function formatCronScheduleBase(job: CronJob, jobs: CronJob[]) {
   const s = job.schedule;
   if (s.kind === "at") {
     const atMs = Date.parse(s.at);
@@ -60,9 +90,60 @@ export function formatCronSchedule(job: CronJob) {
   if (s.kind === "every") {
     return `Every ${formatDurationHuman(s.everyMs)}`;
   }
+  if (s.kind === "after") {
+    const upstream = jobs.find((entry) => entry.id === s.jobId);
+    return `After ${upstream?.name ?? s.jobId} (on ${s.on ?? "ok"})`;
+  }
   return `Cron ${s.expr}${s.tz ? ` (${s.tz})` : ""}`;
 }
 
+/**
+ * Render a job's dependency chain (root first) when it runs after, or
+ * triggers, other jobs. Returns null for standalone jobs.
+ */
+export function formatCronChain(job: CronJob, jobs: CronJob[]): string | null {
+  const byId = new Map(jobs.map((entry) => [entry.id, entry]));
+  const chain: string[] = [job.name];
+  const seen = new Set<string>([job.id]);
+  let cursor: CronJob | undefined = job;
+  while (cursor?.schedule.kind === "after" && !seen.has(cursor.schedule.jobId)) {
+    const upstreamId: string = cursor.schedule.jobId;
+    seen.add(upstreamId);
+    cursor = byId.get(upstreamId);
+    chain.unshift(cursor?.name ?? upstreamId);
+  }
+  const dependents = jobs
+    .filter((entry) => entry.schedule.kind === "after" && entry.schedule.jobId === job.id)
+    .map((entry) => entry.name);
+  if (chain.length === 1 && dependents.length === 0) {
+    return null;
+  }
+  const downstream = dependents.length > 0 ? ` → ${dependents.join(", ")}` : "";
+  return `${chain.join(" → ")}${downstream}`;
+}
+
+function formatCronDeliveryCondition(condition: CronDeliveryCondition) {
+  const not = "negate" in condition && condition.negate ? "not " : "";
+  if (condition.kind === "regex") {
+    return `${not}/${condition.pattern}/${condition.flags ?? ""}`;
+  }
+  if (condition.kind === "jsonPath") {
+    const equals = "equals" in condition ? `=${JSON.stringify(condition.equals)}` : "";
+    return `${not}${condition.path}${equals}`;
+  }
+  return "changed";
+}
+
+function formatCronDeliveryTarget(target: CronDeliveryTarget) {
+  if (target.id) {
+    return target.id;
+  }
+  if (target.kind === "webhook") {
+    return target.to ?? "webhook";
+  }
+  return `${target.channel ?? "last"}${target.to ? ` -> ${target.to}` : ""}`;
+}
+
 export function formatCronPayload(job: CronJob) {
   const p = job.payload;
   if (p.kind === "systemEvent") {
@@ -76,10 +157,15 @@ export function formatCronPayload(job: CronJob) {
         ? delivery.to
           ? ` (${delivery.to})`
           : ""
-        : delivery.channel || delivery.to
-          ? ` (${delivery.channel ?? "last"}${delivery.to ? ` -> ${delivery.to}` : ""})`
-          : "";
-    return `${base} · ${delivery.mode}${target}`;
+        : delivery.targets?.length
+          ? ` (${delivery.targets.map(formatCronDeliveryTarget).join(", ")})`
+          : delivery.channel || delivery.to
+            ? ` (${delivery.channel ?? "last"}${delivery.to ? ` -> ${delivery.to}` : ""})`
+            : "";
+    const conditions = delivery.when?.length
+      ? ` when ${delivery.when.map(formatCronDeliveryCondition).join(" and ")}`
+      : "";
+    return `${base} · ${delivery.mode}${target}${conditions}`;
   }
   return base;
 }
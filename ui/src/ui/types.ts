@@ -396,6 +396,28 @@ export type AgentsFilesListResult = {
   files: AgentFileEntry[];
 };
 
+export type AgentsRosterEntry = {
+  name: string;
+  agentId: string;
+  sessionKey: string;
+  requesterSessionKey: string;
+  model?: string;
+  status: "idle" | "running";
+  createdAt: number;
+  lastActiveAt: number;
+  currentRunId?: string;
+  run?: {
+    runId: string;
+    task: string;
+    label?: string;
+    startedAt?: number;
+  };
+};
+
+export type AgentsRosterListResult = {
+  entries: AgentsRosterEntry[];
+};
+
 export type AgentsFilesGetResult = {
   agentId: string;
   workspace: string;
@@ -464,12 +486,23 @@ export type {
   SessionsUsageTotals,
   SessionUsageTimePoint,
   SessionUsageTimeSeries,
+  UsageBudgetStatus,
 } from "./usage-types.ts";
 
-export type CronSchedule =
+export type CronSchedule = (
   | { kind: "at"; at: string }
   | { kind: "every"; everyMs: number; anchorMs?: number }
-  | { kind: "cron"; expr: string; tz?: string; staggerMs?: number };
+  | { kind: "cron"; expr: string; tz?: string; staggerMs?: number }
+  | { kind: "after"; jobId: string; on?: CronDependencyCondition }
+) & { exclude?: CronScheduleExclusions };
+
+export type CronScheduleExclusions = {
+  windows?: Array<{ start: string; end?: string; label?: string }>;
+  icsPath?: string;
+  skipWeekdays?: number[];
+};
+
+export type CronDependencyCondition = "ok" | "error" | "always";
 
 export type CronSessionTarget = "main" | "isolated";
 export type CronWakeMode = "next-heartbeat" | "now";
@@ -484,11 +517,37 @@ export type CronPayload =
       timeoutSeconds?: number;
     };
 
+export type CronDeliveryCondition =
+  | { kind: "regex"; pattern: string; flags?: string; negate?: boolean }
+  | { kind: "jsonPath"; path: string; equals?: string | number | boolean | null; negate?: boolean }
+  | { kind: "changed" };
+
+export type CronDeliveryTarget = {
+  id?: string;
+  kind?: "channel" | "webhook";
+  channel?: string;
+  to?: string;
+  bestEffort?: boolean;
+  format?: "full" | "summary";
+  prefix?: string;
+};
+
 export type CronDelivery = {
   mode: "none" | "announce" | "webhook";
   channel?: string;
   to?: string;
   bestEffort?: boolean;
+  when?: CronDeliveryCondition[];
+  targets?: CronDeliveryTarget[];
+};
+
+export type CronRetryPolicy = {
+  maxAttempts: number;
+  backoffMs?: number;
+  backoffMultiplier?: number;
+  maxBackoffMs?: number;
+  retryOn?: Array<"timeout" | "delivery-target" | "execution">;
+  deadLetter?: { channel?: string; to?: string };
 };
 
 export type CronJobState = {
@@ -498,6 +557,20 @@ export type CronJobState = {
   lastStatus?: "ok" | "error" | "skipped";
   lastError?: string;
   lastDurationMs?: number;
+  pendingTrigger?: {
+    jobId: string;
+    jobName?: string;
+    status: "ok" | "error" | "skipped";
+    summary?: string;
+    finishedAtMs: number;
+  };
+  retryAttempt?: number;
+  lastDeadLetterAtMs?: number;
+  lastDeliveryTargets?: Array<{
+    id: string;
+    status: "delivered" | "not-delivered";
+    error?: string;
+  }>;
 };
 
 export type CronJob = {
@@ -514,6 +587,7 @@ export type CronJob = {
   wakeMode: CronWakeMode;
   payload: CronPayload;
   delivery?: CronDelivery;
+  retry?: CronRetryPolicy;
   state?: CronJobState;
 };
 
@@ -528,7 +602,12 @@ export type CronJobsSortBy = "nextRunAtMs" | "updatedAtMs" | "name";
 export type CronSortDir = "asc" | "desc";
 export type CronRunsStatusFilter = "all" | "ok" | "error" | "skipped";
 export type CronRunsStatusValue = "ok" | "error" | "skipped";
-export type CronDeliveryStatus = "delivered" | "not-delivered" | "unknown" | "not-requested";
+export type CronDeliveryStatus =
+  | "delivered"
+  | "not-delivered"
+  | "unknown"
+  | "not-requested"
+  | "suppressed";
 export type CronRunScope = "job" | "all";
 
 export type CronRunLogEntry = {
@@ -539,8 +618,10 @@ export type CronRunLogEntry = {
   durationMs?: number;
   error?: string;
   summary?: string;
+  skipReason?: string;
   deliveryStatus?: CronDeliveryStatus;
   deliveryError?: string;
+  deliverySkipReason?: string;
   delivered?: boolean;
   runAtMs?: number;
   nextRunAtMs?: number;
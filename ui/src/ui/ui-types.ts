@@ -21,13 +21,15 @@ export type CronFormState = {
   clearAgent: boolean;
   enabled: boolean;
   deleteAfterRun: boolean;
-  scheduleKind: "at" | "every" | "cron";
+  scheduleKind: "at" | "every" | "cron" | "after";
   scheduleAt: string;
   everyAmount: string;
   everyUnit: "minutes" | "hours" | "days";
   cronExpr: string;
   cronTz: string;
   scheduleExact: boolean;
+  afterJobId: string;
+  afterOn: "ok" | "error" | "always";
   staggerAmount: string;
   staggerUnit: "seconds" | "minutes";
   sessionTarget: "main" | "isolated";
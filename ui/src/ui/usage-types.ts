@@ -198,6 +198,27 @@ export type CostUsageSummary = {
   totals: SessionsUsageTotals;
 };
 
+export type UsageBudgetWindowStatus = {
+  window: "daily" | "monthly";
+  period: string;
+  tokens: number;
+  costUsd: number;
+  maxTokens?: number;
+  maxCostUsd?: number;
+  ratio: number;
+  state: "ok" | "warning" | "exceeded";
+};
+
+export type UsageBudgetStatus = {
+  updatedAt: number;
+  warnAt: number;
+  scopes: Array<{
+    kind: "gateway" | "agent" | "session" | "sender";
+    id: string;
+    windows: UsageBudgetWindowStatus[];
+  }>;
+};
+
 export type SessionUsageTimePoint = {
   timestamp: number;
   input: number;
@@ -9,6 +9,7 @@ import {
 import type {
   AgentFileEntry,
   AgentsFilesListResult,
+  AgentsRosterEntry,
   ChannelAccountSnapshot,
   ChannelsStatusSnapshot,
   CronJob,
@@ -352,6 +353,121 @@ export function renderAgentCron(params: {
   `;
 }
 
+export function renderAgentRoster(params: {
+  entries: AgentsRosterEntry[];
+  loading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+  onKill: (entry: AgentsRosterEntry) => void;
+  onRename: (entry: AgentsRosterEntry) => void;
+  onReset: (entry: AgentsRosterEntry) => void;
+  onDelete: (entry: AgentsRosterEntry) => void;
+}) {
+  const running = params.entries.filter((entry) => entry.status === "running").length;
+  return html`
+    <section class="card">
+      <div class="row" style="justify-content: space-between;">
+        <div>
+          <div class="card-title">Subagent Roster</div>
+          <div class="card-sub">
+            Named subagents spawned by this agent. ${params.entries.length} total, ${running} running.
+          </div>
+        </div>
+        <button class="btn btn--sm" ?disabled=${params.loading} @click=${params.onRefresh}>
+          ${params.loading ? "Refreshing…" : "Refresh"}
+        </button>
+      </div>
+      ${
+        params.error
+          ? html`<div class="callout danger" style="margin-top: 12px;">${params.error}</div>`
+          : nothing
+      }
+      ${
+        params.entries.length === 0
+          ? html`
+              <div class="muted" style="margin-top: 16px">No named subagents.</div>
+            `
+          : html`
+              <div class="list" style="margin-top: 16px;">
+                ${params.entries.map((entry) => renderRosterEntry(entry, params))}
+              </div>
+            `
+      }
+    </section>
+  `;
+}
+
+function renderRosterEntry(
+  entry: AgentsRosterEntry,
+  params: {
+    loading: boolean;
+    onKill: (entry: AgentsRosterEntry) => void;
+    onRename: (entry: AgentsRosterEntry) => void;
+    onReset: (entry: AgentsRosterEntry) => void;
+    onDelete: (entry: AgentsRosterEntry) => void;
+  },
+) {
+  const isRunning = entry.status === "running";
+  const runLabel = entry.run ? entry.run.label || entry.run.task : (entry.currentRunId ?? null);
+  return html`
+    <div class="list-item">
+      <div class="list-main">
+        <div class="list-title">${entry.name}</div>
+        <div class="list-sub mono">${entry.requesterSessionKey}</div>
+        <div class="chip-row" style="margin-top: 6px;">
+          <span class="chip ${isRunning ? "chip-ok" : ""}">${entry.status}</span>
+          <span class="chip">${entry.model ?? "default model"}</span>
+          <span class="chip">active ${formatRelativeTimestamp(entry.lastActiveAt)}</span>
+        </div>
+        ${
+          isRunning && runLabel
+            ? html`<div class="muted" style="margin-top: 6px;">
+                Current run: ${runLabel}
+                ${
+                  entry.run?.startedAt
+                    ? html`(started ${formatRelativeTimestamp(entry.run.startedAt)})`
+                    : nothing
+                }
+              </div>`
+            : nothing
+        }
+      </div>
+      <div class="list-meta">
+        <div class="row" style="gap: 6px; justify-content: flex-end;">
+          ${
+            isRunning
+              ? html`<button
+                  class="btn btn--sm danger"
+                  ?disabled=${params.loading}
+                  @click=${() => params.onKill(entry)}
+                >
+                  Kill
+                </button>`
+              : nothing
+          }
+          <button
+            class="btn btn--sm"
+            ?disabled=${params.loading}
+            @click=${() => params.onRename(entry)}
+          >
+            Rename
+          </button>
+          <button class="btn btn--sm" ?disabled=${params.loading} @click=${() => params.onReset(entry)}>
+            Reset
+          </button>
+          <button
+            class="btn btn--sm danger"
+            ?disabled=${params.loading}
+            @click=${() => params.onDelete(entry)}
+          >
+            Delete
+          </button>
+        </div>
+      </div>
+    </div>
+  `;
+}
+
 export function renderAgentFiles(params: {
   agentId: string;
   agentFilesList: AgentsFilesListResult | null;
@@ -3,6 +3,7 @@ import type {
   AgentIdentityResult,
   AgentsFilesListResult,
   AgentsListResult,
+  AgentsRosterEntry,
   ChannelsStatusSnapshot,
   CronJob,
   CronStatus,
@@ -13,6 +14,7 @@ import {
   renderAgentFiles,
   renderAgentChannels,
   renderAgentCron,
+  renderAgentRoster,
 } from "./agents-panels-status-files.ts";
 import { renderAgentTools, renderAgentSkills } from "./agents-panels-tools-skills.ts";
 import {
@@ -29,7 +31,14 @@ import {
   resolveModelPrimary,
 } from "./agents-utils.ts";
 
-export type AgentsPanel = "overview" | "files" | "tools" | "skills" | "channels" | "cron";
+export type AgentsPanel =
+  | "overview"
+  | "files"
+  | "tools"
+  | "skills"
+  | "channels"
+  | "cron"
+  | "roster";
 
 export type AgentsProps = {
   loading: boolean;
@@ -49,6 +58,9 @@ export type AgentsProps = {
   cronStatus: CronStatus | null;
   cronJobs: CronJob[];
   cronError: string | null;
+  agentRosterLoading: boolean;
+  agentRosterError: string | null;
+  agentRosterEntries: AgentsRosterEntry[];
   agentFilesLoading: boolean;
   agentFilesError: string | null;
   agentFilesList: AgentsFilesListResult | null;
@@ -83,6 +95,11 @@ export type AgentsProps = {
   onModelFallbacksChange: (agentId: string, fallbacks: string[]) => void;
   onChannelsRefresh: () => void;
   onCronRefresh: () => void;
+  onRosterRefresh: () => void;
+  onRosterKill: (entry: AgentsRosterEntry) => void;
+  onRosterRename: (entry: AgentsRosterEntry) => void;
+  onRosterReset: (entry: AgentsRosterEntry) => void;
+  onRosterDelete: (entry: AgentsRosterEntry) => void;
   onSkillsFilterChange: (next: string) => void;
   onSkillsRefresh: () => void;
   onAgentSkillToggle: (agentId: string, skillName: string, enabled: boolean) => void;
@@ -285,6 +302,22 @@ export function renderAgents(props: AgentsProps) {
                       })
                     : nothing
                 }
+                ${
+                  props.activePanel === "roster"
+                    ? renderAgentRoster({
+                        entries: props.agentRosterEntries.filter(
+                          (entry) => entry.agentId === selectedAgent.id,
+                        ),
+                        loading: props.agentRosterLoading,
+                        error: props.agentRosterError,
+                        onRefresh: props.onRosterRefresh,
+                        onKill: props.onRosterKill,
+                        onRename: props.onRosterRename,
+                        onReset: props.onRosterReset,
+                        onDelete: props.onRosterDelete,
+                      })
+                    : nothing
+                }
               `
         }
       </section>
@@ -326,6 +359,7 @@ function renderAgentTabs(active: AgentsPanel, onSelect: (panel: AgentsPanel) =>
     { id: "skills", label: "Skills" },
     { id: "channels", label: "Channels" },
     { id: "cron", label: "Cron Jobs" },
+    { id: "roster", label: "Subagents" },
   ];
   return html`
     <div class="agent-tabs">
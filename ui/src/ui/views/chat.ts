@@ -1,12 +1,14 @@
 import { html, nothing } from "lit";
 import { ref } from "lit/directives/ref.js";
 import { repeat } from "lit/directives/repeat.js";
+import { renderGenUiCard, type GenUiCardOptions } from "../chat/genui-components.ts";
 import {
   renderMessageGroup,
   renderReadingIndicatorGroup,
   renderStreamingGroup,
 } from "../chat/grouped-render.ts";
 import { normalizeMessage, normalizeRoleForGrouping } from "../chat/message-normalizer.ts";
+import type { GenUiRender } from "../genui.ts";
 import { icons } from "../icons.ts";
 import { detectTextDirection } from "../text-direction.ts";
 import type { SessionsListResult } from "../types.ts";
@@ -43,6 +45,8 @@ export type ChatProps = {
   fallbackStatus?: FallbackIndicatorStatus | null;
   messages: unknown[];
   toolMessages: unknown[];
+  /** GenUI components rendered for this session, shown inline by timestamp. */
+  genUiRenders?: GenUiRender[];
   stream: string | null;
   streamStartedAt: number | null;
   assistantAvatarUrl?: string | null;
@@ -78,6 +82,8 @@ export type ChatProps = {
   onNewSession: () => void;
   onOpenSidebar?: (content: string) => void;
   onCloseSidebar?: () => void;
+  onGenUiDismiss?: (id: string) => void;
+  onGenUiAction?: GenUiCardOptions["onAction"];
   onSplitRatioChange?: (ratio: number) => void;
   onChatScroll?: (event: Event) => void;
 };
@@ -286,6 +292,13 @@ export function renderChat(props: ChatProps) {
             `;
           }
 
+          if (item.kind === "genui") {
+            return renderGenUiCard(item.render, {
+              onDismiss: props.onGenUiDismiss,
+              onAction: props.onGenUiAction,
+            });
+          }
+
           if (item.kind === "reading-indicator") {
             return renderReadingIndicatorGroup(assistantIdentity);
           }
@@ -576,6 +589,8 @@ function buildChatItems(props: ChatProps): Array<ChatItem | MessageGroup> {
     }
   }
 
+  insertGenUiItems(items, props.genUiRenders ?? []);
+
   if (props.stream !== null) {
     const key = `stream:${props.sessionKey}:${props.streamStartedAt ?? "live"}`;
     if (props.stream.trim().length > 0) {
@@ -593,6 +608,36 @@ function buildChatItems(props: ChatProps): Array<ChatItem | MessageGroup> {
   return groupMessages(items);
 }
 
+function itemTimestamp(item: ChatItem): number | null {
+  if (item.kind === "divider") {
+    return item.timestamp;
+  }
+  if (item.kind === "genui") {
+    return item.render.ts;
+  }
+  if (item.kind === "message" && item.key !== "chat:history:notice") {
+    const timestamp = (item.message as Record<string, unknown>).timestamp;
+    return typeof timestamp === "number" ? timestamp : null;
+  }
+  return null;
+}
+
+/** Places each GenUI card before the first message that is newer than the render. */
+function insertGenUiItems(items: ChatItem[], renders: GenUiRender[]) {
+  for (const render of renders.toSorted((a, b) => a.ts - b.ts)) {
+    const index = items.findIndex((item) => {
+      const timestamp = itemTimestamp(item);
+      return timestamp !== null && timestamp > render.ts;
+    });
+    const entry: ChatItem = { kind: "genui", key: `genui:${render.id}`, render };
+    if (index === -1) {
+      items.push(entry);
+    } else {
+      items.splice(index, 0, entry);
+    }
+  }
+}
+
 function messageKey(message: unknown, index: number): string {
   const m = message as Record<string, unknown>;
   const toolCallId = typeof m.toolCallId === "string" ? m.toolCallId : "";
@@ -3,7 +3,7 @@ import { ifDefined } from "lit/directives/if-defined.js";
 import type { CronFieldErrors, CronFieldKey } from "../controllers/cron.ts";
 import { formatRelativeTimestamp, formatMs } from "../format.ts";
 import { pathForTab } from "../navigation.ts";
-import { formatCronSchedule, formatNextRun } from "../presenter.ts";
+import { formatCronChain, formatCronSchedule, formatNextRun } from "../presenter.ts";
 import type { ChannelUiMetaEntry, CronJob, CronRunLogEntry, CronStatus } from "../types.ts";
 import type {
   CronDeliveryStatus,
@@ -92,6 +92,7 @@ const RUN_DELIVERY_OPTIONS: Array<{ value: CronDeliveryStatus; label: string }>
   { value: "not-delivered", label: "Not delivered" },
   { value: "unknown", label: "Unknown" },
   { value: "not-requested", label: "Not requested" },
+  { value: "suppressed", label: "Suppressed" },
 ];
 
 function toggleSelection<T extends string>(selected: T[], value: T, checked: boolean): T[] {
@@ -219,6 +220,9 @@ function inputIdForField(key: CronFieldKey) {
   if (key === "cronExpr") {
     return "cron-cron-expr";
   }
+  if (key === "afterJobId") {
+    return "cron-after-job";
+  }
   if (key === "staggerAmount") {
     return "cron-stagger-amount";
   }
@@ -253,6 +257,7 @@ function fieldLabelForKey(
     scheduleAt: "Run at",
     everyAmount: "Every",
     cronExpr: "Expression",
+    afterJobId: "Run after",
     staggerAmount: "Stagger window",
     payloadText: "Payload text",
     payloadModel: "Model",
@@ -273,6 +278,7 @@ function collectBlockingFields(
     "scheduleAt",
     "everyAmount",
     "cronExpr",
+    "afterJobId",
     "staggerAmount",
     "payloadText",
     "payloadModel",
@@ -680,6 +686,7 @@ export function renderCron(props: CronProps) {
                   <option value="every">Every</option>
                   <option value="at">At</option>
                   <option value="cron">Cron</option>
+                  <option value="after">After job</option>
                 </select>
               </label>
             </div>
@@ -1136,6 +1143,52 @@ function renderScheduleFields(props: CronProps) {
       </label>
     `;
   }
+  if (form.scheduleKind === "after") {
+    const upstreamOptions = props.jobs.filter((job) => job.id !== props.editingJobId);
+    return html`
+      <div class="form-grid cron-form-grid" style="margin-top: 12px;">
+        <label class="field">
+          ${renderFieldLabel("Run after", true)}
+          <select
+            id="cron-after-job"
+            .value=${form.afterJobId}
+            aria-invalid=${props.fieldErrors.afterJobId ? "true" : "false"}
+            aria-describedby=${ifDefined(
+              props.fieldErrors.afterJobId ? errorIdForField("afterJobId") : undefined,
+            )}
+            @change=${(e: Event) =>
+              props.onFormChange({ afterJobId: (e.target as HTMLSelectElement).value })}
+          >
+            <option value="">Select a job…</option>
+            ${upstreamOptions.map(
+              (job) =>
+                html`<option value=${job.id} ?selected=${job.id === form.afterJobId}>
+                  ${job.name}
+                </option>`,
+            )}
+          </select>
+          ${renderFieldError(props.fieldErrors.afterJobId, errorIdForField("afterJobId"))}
+        </label>
+        <label class="field">
+          <span>Trigger on</span>
+          <select
+            .value=${form.afterOn}
+            @change=${(e: Event) =>
+              props.onFormChange({
+                afterOn: (e.target as HTMLSelectElement).value as CronFormState["afterOn"],
+              })}
+          >
+            <option value="ok">Upstream succeeded</option>
+            <option value="error">Upstream failed</option>
+            <option value="always">Either outcome</option>
+          </select>
+        </label>
+        <div class="cron-help cron-span-2">
+          The upstream run's summary is appended to this job's agent message.
+        </div>
+      </div>
+    `;
+  }
   if (form.scheduleKind === "every") {
     return html`
       <div class="form-grid cron-form-grid" style="margin-top: 12px;">
@@ -1215,6 +1268,7 @@ function renderFieldError(message?: string, id?: string) {
 
 function renderJob(job: CronJob, props: CronProps) {
   const isSelected = props.runsJobId === job.id;
+  const chain = formatCronChain(job, props.jobs);
   const itemClass = `list-item list-item-clickable cron-job${isSelected ? " list-item-selected" : ""}`;
   const selectAnd = (action: () => void) => {
     props.onLoadRuns(job.id);
@@ -1224,7 +1278,8 @@ function renderJob(job: CronJob, props: CronProps) {
     <div class=${itemClass} @click=${() => props.onLoadRuns(job.id)}>
       <div class="list-main">
         <div class="list-title">${job.name}</div>
-        <div class="list-sub">${formatCronSchedule(job)}</div>
+        <div class="list-sub">${formatCronSchedule(job, props.jobs)}</div>
+        ${chain ? html`<div class="muted cron-job-chain">Chain: ${chain}</div>` : nothing}
         ${renderJobPayload(job)}
         ${job.agentId ? html`<div class="muted cron-job-agent">Agent: ${job.agentId}</div>` : nothing}
       </div>
@@ -1238,6 +1293,13 @@ function renderJob(job: CronJob, props: CronProps) {
           </span>
           <span class="chip">${job.sessionTarget}</span>
           <span class="chip">${job.wakeMode}</span>
+          ${
+            job.retry
+              ? html`<span class="chip">
+                  retry ${job.state?.retryAttempt ?? 0}/${Math.max(0, job.retry.maxAttempts - 1)}
+                </span>`
+              : nothing
+          }
         </div>
         <div class="row cron-job-actions">
           <button
@@ -1364,6 +1426,8 @@ function renderJobState(job: CronJob) {
           : "cron-job-status-na";
   const nextRunAtMs = job.state?.nextRunAtMs;
   const lastRunAtMs = job.state?.lastRunAtMs;
+  const targets = job.state?.lastDeliveryTargets ?? [];
+  const failedTargets = targets.filter((target) => target.status !== "delivered");
 
   return html`
     <div class="cron-job-state">
@@ -1383,6 +1447,21 @@ function renderJobState(job: CronJob) {
           ${formatStateRelative(lastRunAtMs)}
         </span>
       </div>
+      ${
+        targets.length > 0
+          ? html`<div class="cron-job-state-row">
+              <span class="cron-job-state-key">Targets</span>
+              <span
+                class="cron-job-state-value"
+                title=${failedTargets
+                  .map((target) => `${target.id}: ${target.error ?? "not delivered"}`)
+                  .join("\n")}
+              >
+                ${targets.length - failedTargets.length}/${targets.length} delivered
+              </span>
+            </div>`
+          : nothing
+      }
     </div>
   `;
 }
@@ -1408,7 +1487,7 @@ function renderRun(entry: CronRunLogEntry, basePath: string) {
           ${entry.jobName ?? entry.jobId}
           <span class="muted"> · ${status}</span>
         </div>
-        <div class="list-sub cron-run-entry__summary">${entry.summary ?? entry.error ?? "No summary."}</div>
+        <div class="list-sub cron-run-entry__summary">${entry.summary ?? entry.error ?? entry.skipReason ?? "No summary."}</div>
         <div class="chip-row" style="margin-top: 6px;">
           <span class="chip">${delivery}</span>
           ${entry.model ? html`<span class="chip">${entry.model}</span>` : nothing}
@@ -1432,6 +1511,11 @@ function renderRun(entry: CronRunLogEntry, basePath: string) {
         }
         ${entry.error ? html`<div class="muted">${entry.error}</div>` : nothing}
         ${entry.deliveryError ? html`<div class="muted">${entry.deliveryError}</div>` : nothing}
+        ${
+          entry.deliverySkipReason
+            ? html`<div class="muted">Delivery suppressed: ${entry.deliverySkipReason}</div>`
+            : nothing
+        }
       </div>
     </div>
   `;
@@ -1,5 +1,6 @@
 import { html, nothing } from "lit";
 import { formatDurationCompact } from "../../../../src/infra/format-time/format-duration.ts";
+import type { UsageBudgetStatus, UsageBudgetWindowStatus } from "../usage-types.ts";
 import {
   formatCost,
   formatDayLabel,
@@ -542,6 +543,60 @@ function renderUsageInsights(
   `;
 }
 
+function formatBudgetScope(scope: UsageBudgetStatus["scopes"][number]): string {
+  if (scope.kind === "gateway") {
+    return "Gateway";
+  }
+  const prefix = scope.kind === "agent" ? "Agent" : scope.kind === "session" ? "Session" : "Sender";
+  return `${prefix} ${scope.id}`;
+}
+
+function formatBudgetWindow(window: UsageBudgetWindowStatus): string {
+  const parts: string[] = [];
+  if (typeof window.maxCostUsd === "number") {
+    parts.push(`${formatCost(window.costUsd)} / ${formatCost(window.maxCostUsd)}`);
+  }
+  if (typeof window.maxTokens === "number") {
+    parts.push(`${formatTokens(window.tokens)} / ${formatTokens(window.maxTokens)}`);
+  }
+  return parts.join(" · ");
+}
+
+function renderBudgetsCard(budget: UsageBudgetStatus | null) {
+  if (!budget || budget.scopes.length === 0) {
+    return nothing;
+  }
+  return html`
+    <section class="card" style="margin-top: 16px;">
+      <div class="card-title">Budgets</div>
+      <div class="usage-insight-subtitle">
+        Warnings at ${Math.round(budget.warnAt * 100)}% · model calls are refused at 100%
+      </div>
+      <div class="usage-budget-list">
+        ${budget.scopes.map((scope) =>
+          scope.windows.map(
+            (window) => html`
+              <div class="usage-budget-row ${window.state}">
+                <div class="usage-budget-label">
+                  <span>${formatBudgetScope(scope)}</span>
+                  <span class="muted">${window.window === "daily" ? "Today" : "This month"}</span>
+                </div>
+                <div class="usage-budget-bar">
+                  <div
+                    class="usage-budget-fill"
+                    style="width: ${Math.min(100, window.ratio * 100).toFixed(1)}%"
+                  ></div>
+                </div>
+                <div class="usage-budget-value">${formatBudgetWindow(window)}</div>
+              </div>
+            `,
+          ),
+        )}
+      </div>
+    </section>
+  `;
+}
+
 function renderSessionsCard(
   sessions: UsageSessionEntry[],
   selectedSessions: string[],
@@ -786,6 +841,7 @@ function renderSessionsCard(
 }
 
 export {
+  renderBudgetsCard,
   renderCostBreakdownCompact,
   renderDailyChartCompact,
   renderFilterChips,
@@ -548,4 +548,47 @@ export const usageStylesPart3 = `
     color: var(--text);
     border-color: var(--border-strong);
   }
+
+  /* ===== BUDGETS ===== */
+  .usage-budget-list {
+    display: flex;
+    flex-direction: column;
+    gap: 10px;
+    margin-top: 12px;
+  }
+  .usage-budget-row {
+    display: grid;
+    grid-template-columns: minmax(160px, 1fr) 2fr minmax(140px, auto);
+    gap: 12px;
+    align-items: center;
+    font-size: 12px;
+  }
+  .usage-budget-label {
+    display: flex;
+    flex-direction: column;
+    gap: 2px;
+    overflow: hidden;
+    text-overflow: ellipsis;
+  }
+  .usage-budget-bar {
+    height: 8px;
+    border-radius: 999px;
+    background: var(--bg-secondary);
+    border: 1px solid var(--border);
+    overflow: hidden;
+  }
+  .usage-budget-fill {
+    height: 100%;
+    background: var(--ok);
+  }
+  .usage-budget-row.warning .usage-budget-fill {
+    background: var(--warn);
+  }
+  .usage-budget-row.exceeded .usage-budget-fill {
+    background: var(--danger);
+  }
+  .usage-budget-value {
+    text-align: right;
+    font-variant-numeric: tabular-nums;
+  }
 `;
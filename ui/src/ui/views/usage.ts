@@ -24,6 +24,7 @@ import {
 } from "./usage-query.ts";
 import { renderEmptyDetailState, renderSessionDetailPanel } from "./usage-render-details.ts";
 import {
+  renderBudgetsCard,
   renderCostBreakdownCompact,
   renderDailyChartCompact,
   renderFilterChips,
@@ -762,6 +763,8 @@ export function renderUsage(props: UsageProps) {
       totalSessions,
     )}
 
+    ${renderBudgetsCard(props.budget)}
+
     ${renderUsageMosaic(aggregateSessions, props.timeZone, props.selectedHours, props.onSelectHour)}
 
     <!-- Two-column layout: Daily+Breakdown on left, Sessions on right -->
@@ -4,6 +4,7 @@ import type {
   SessionsUsageResult,
   SessionsUsageTotals,
   SessionUsageTimePoint,
+  UsageBudgetStatus,
 } from "../usage-types.ts";
 
 export type UsageSessionEntry = SessionsUsageEntry;
@@ -33,6 +34,7 @@ export type UsageProps = {
   totals: UsageTotals | null;
   aggregates: UsageAggregates | null;
   costDaily: CostDailyEntry[];
+  budget: UsageBudgetStatus | null;
   selectedSessions: string[]; // Support multiple session selection
   selectedDays: string[]; // Support multiple day selection
   selectedHours: number[]; // Support multiple hour selection